@@ -0,0 +1,127 @@
+/**
+ * Writes src/shared/publicSuffixes.ts from the Public Suffix List.
+ * Usage: pnpm public-suffixes [path or URL of public_suffix_list.dat] [--version <label>]
+ *
+ * The list is downloaded from publicsuffix.org by default. Its version is read from
+ * the `// VERSION:` and `// COMMIT:` header, --version labels copies without one.
+ */
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { domainToASCII, fileURLToPath } from 'node:url';
+
+const LIST_URL = 'https://publicsuffix.org/list/public_suffix_list.dat';
+const LINE_WIDTH = 100;
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const outputFile = resolve(rootDir, 'src/shared/publicSuffixes.ts');
+
+const args = process.argv.slice(2);
+const versionIndex = args.indexOf('--version');
+const versionLabel = versionIndex === -1 ? null : args.splice(versionIndex, 2)[1];
+const source = args[0] ?? LIST_URL;
+
+const readList = async (location) => {
+  if (!/^https?:/.test(location)) return readFile(resolve(location), 'utf8');
+  const response = await fetch(location);
+  if (!response.ok) throw new Error(`Could not download ${location}: ${response.status}`);
+  return response.text();
+};
+
+const readHeader = (list, name) => list.match(new RegExp(`^// ${name}: (.+)$`, 'm'))?.[1].trim() ?? null;
+
+/**
+ * Rules in punycode, as browsers report hostnames, keeping the `*.` and `!` prefixes
+ */
+const toASCIIRule = (rule) => {
+  const [, prefix, domain] = rule.match(/^(\*\.|!)?(.+)$/);
+  const asciiDomain = domainToASCII(domain);
+  if (!asciiDomain) throw new Error(`Invalid rule: ${rule}`);
+  return `${prefix ?? ''}${asciiDomain}`;
+};
+
+/**
+ * Trie of the rules from the TLD down. Exceptions are stored as `!label` children and
+ * wildcards as `*` children, so every rule is a path of labels.
+ */
+const toTrie = (rules) => {
+  const root = { isRule: false, children: new Map() };
+  for (const rule of rules) {
+    const isException = rule.startsWith('!');
+    const labels = (isException ? rule.slice(1) : rule).split('.').reverse();
+    if (isException) labels[labels.length - 1] = `!${labels[labels.length - 1]}`;
+
+    let node = root;
+    for (const label of labels) {
+      if (!node.children.has(label)) node.children.set(label, { isRule: false, children: new Map() });
+      node = node.children.get(label);
+    }
+    node.isRule = true;
+  }
+  return root;
+};
+
+/**
+ * Packs the trie as `label(children)`, siblings separated by commas and labels that are
+ * not a rule themselves followed by `~`. TLDs without children are left out, they are
+ * public suffixes through the default `*` rule of the list.
+ */
+const pack = (node, isRoot = false) => Array.from(node.children.keys())
+  .sort()
+  .filter(label => !isRoot || node.children.get(label).children.size > 0)
+  .map(label => {
+    const child = node.children.get(label);
+    const children = child.children.size > 0 ? `(${pack(child)})` : '';
+    return `${label}${child.isRule ? '' : '~'}${children}`;
+  })
+  .join(',');
+
+/**
+ * Packed rules split onto concatenated lines, after a comma when possible
+ */
+const toLines = (packed) => {
+  const lines = [];
+  let rest = packed;
+  while (rest.length > LINE_WIDTH - 6) {
+    const comma = rest.lastIndexOf(',', LINE_WIDTH - 7);
+    const end = comma > 0 ? comma + 1 : LINE_WIDTH - 6;
+    lines.push(rest.slice(0, end));
+    rest = rest.slice(end);
+  }
+  lines.push(rest);
+  return lines.map(line => `  '${line}'`).join(' +\n');
+};
+
+const list = await readList(source);
+const rules = list
+  .split('\n')
+  // Rules end at the first whitespace, the rest of the line is ignored
+  .map(line => line.trim().split(/\s/)[0])
+  .filter(rule => rule && !rule.startsWith('//'))
+  .map(toASCIIRule);
+
+const version = versionLabel ?? [readHeader(list, 'VERSION'), readHeader(list, 'COMMIT')].filter(Boolean).join(', commit ');
+if (!version) throw new Error('The list has no VERSION header, label it with --version');
+
+const packed = pack(toTrie(rules), true);
+
+await writeFile(outputFile, `/**
+ * Public Suffix List (https://publicsuffix.org/list/) used to find the registrable
+ * domain (eTLD+1) of a hostname. Internationalized rules are in punycode, like hostnames.
+ *
+ * Generated by scripts/generate-public-suffixes.mjs, do not edit: run \`pnpm public-suffixes\`.
+ */
+
+/** Version of the Public Suffix List the rules were generated from */
+export const PUBLIC_SUFFIX_LIST_VERSION = '${version}';
+
+/**
+ * Rules packed as a trie of labels from the TLD down, parsed on first use: \`label(children)\`,
+ * siblings separated by commas. \`*\` children are wildcard rules, \`!label\` children their
+ * exceptions, and \`~\` follows labels that are not a rule themselves. TLDs without children
+ * are left out, they are public suffixes through the default \`*\` rule of the list.
+ */
+export const PACKED_PUBLIC_SUFFIXES =
+${toLines(packed)};
+`);
+
+console.log(`Packed ${rules.length} public suffix rules (${version}) into ${packed.length} characters in ${outputFile}`);
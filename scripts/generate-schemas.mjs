@@ -0,0 +1,34 @@
+/**
+ * Writes the JSON Schema of every serialized report into schemas/.
+ * Usage: pnpm schemas
+ */
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createJiti } from 'jiti';
+
+const rootDir = resolve(dirname(fileURLToPath(import.meta.url)), '..');
+const outputDir = resolve(rootDir, 'schemas');
+
+const jiti = createJiti(import.meta.url, {
+  alias: { '@': resolve(rootDir, 'src') },
+});
+
+const {
+  REPORT_JSON_SCHEMA,
+  REPORT_JSON_SCHEMAS,
+  REPORT_SCHEMA_FILE_NAME,
+  schemaFileName,
+} = await jiti.import(resolve(rootDir, 'src/schemas/reportSchemas.ts'));
+
+const toFileContent = (schema) => `${JSON.stringify(schema, null, 2)}\n`;
+
+await rm(outputDir, { recursive: true, force: true });
+await mkdir(outputDir, { recursive: true });
+
+await writeFile(resolve(outputDir, REPORT_SCHEMA_FILE_NAME), toFileContent(REPORT_JSON_SCHEMA));
+for (const [kind, schema] of Object.entries(REPORT_JSON_SCHEMAS)) {
+  await writeFile(resolve(outputDir, schemaFileName(kind)), toFileContent(schema));
+}
+
+console.log(`Generated ${Object.keys(REPORT_JSON_SCHEMAS).length + 1} schemas in ${outputDir}`);
@@ -0,0 +1,554 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { beaconAPIHelper } from '@/test/helpers/BeaconAPIHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { PerformancePaintTimingMother } from '@/test/mothers/PerformancePaintTimingMother';
+import { PromiseRejectionEventMother } from '@/test/mothers/PromiseRejectionEventMother';
+import { BeaconTransport } from '@/transport/BeaconTransport';
+import { LayoutShiftEntryMother } from '@/test/mothers/LayoutShiftEntryMother';
+import { LargestContentfulPaintMother } from '@/test/mothers/LargestContentfulPaintMother';
+import { FCPReport } from '@/reports/web-vitals/FCPReport';
+import { CLSCollection } from '@/reports/web-vitals/CLSCollection';
+import { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
+import { BackForwardCacheReport } from '@/reports/performance/BackForwardCacheReport';
+import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import { UnsupportedMetricException } from '@/exceptions/UnsupportedExceptions';
+import { EnricherException } from '@/exceptions/ClientExceptions';
+import { MiddlewareException } from '@/exceptions/PipelineExceptions';
+import { MIDDLEWARE_RESULT } from '@/pipeline/ReportPipeline';
+import { observeFCP, resetFCP } from '@/metrics/web-vitals/FCP';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+
+import { type Rumora, RUMORA_OBSERVERS, createRumora } from './Rumora';
+
+const ENDPOINT = 'https://collector.example.com/rum';
+
+describe('Rumora', () => {
+  let rumora: Rumora;
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+    beaconAPIHelper.mock();
+    windowLocationHelper.mock();
+  });
+
+  afterEach(async () => {
+    await rumora?.shutdown();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+    beaconAPIHelper.unmock();
+    windowLocationHelper.unmock();
+    vi.restoreAllMocks();
+  });
+
+  describe('lifecycle', () => {
+    it('should start every observer by default', () => {
+      // Given
+      rumora = createRumora();
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(rumora.isRunning).toBe(true);
+      expect(rumora.activeObservers).toEqual(RUMORA_OBSERVERS);
+      expect(performanceObserverHelper.observedEntryTypes()).toContain('paint');
+    });
+
+    it('should only start the selected observers', () => {
+      // Given
+      rumora = createRumora({ observers: ['fcp', 'javascriptErrors'] });
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(rumora.activeObservers).toEqual(['fcp', 'javascriptErrors']);
+      expect(performanceObserverHelper.observedEntryTypes()).toEqual(['paint']);
+    });
+
+    it('should dispose every observer on shutdown', async () => {
+      // Given
+      const removeEventListener = vi.spyOn(window, 'removeEventListener');
+      rumora = createRumora({ observers: ['fcp', 'lcp', 'javascriptErrors'] }).start();
+
+      // When
+      await rumora.shutdown();
+
+      // Then
+      expect(rumora.isRunning).toBe(false);
+      expect(rumora.activeObservers).toEqual([]);
+      expect(performanceObserverHelper.observedEntryTypes()).toEqual([]);
+      expect(removeEventListener).toHaveBeenCalledWith('error', expect.any(Function), true);
+    });
+
+    it('should pass the observer options to its own observer instances', () => {
+      // Given
+      rumora = createRumora({
+        observers: ['inp'],
+        observerOptions: { inp: { durationThreshold: 40, buffered: false } },
+      });
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(performanceObserverHelper.observedOptions()).toEqual([
+        { type: 'event', buffered: false, durationThreshold: 40 },
+      ]);
+    });
+
+    it('should not dispose the shared observer instances on shutdown', async () => {
+      // Given
+      const onShared = vi.fn();
+      observeFCP().onSuccess(onShared);
+      rumora = createRumora({ observers: ['fcp'] }).start();
+
+      // When
+      await rumora.shutdown();
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+      resetFCP();
+
+      // Then
+      expect(onShared).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not start again after shutdown', async () => {
+      // Given
+      rumora = createRumora({ observers: ['fcp'] }).start();
+      await rumora.shutdown();
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(rumora.isRunning).toBe(false);
+      expect(performanceObserverHelper.observedEntryTypes()).toEqual([]);
+    });
+
+    it('should not start observers when the page view is not sampled', () => {
+      // Given
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      rumora = createRumora({ sampleRate: 0.1 });
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(rumora.isSampled).toBe(false);
+      expect(rumora.activeObservers).toEqual([]);
+      expect(performanceObserverHelper.observedEntryTypes()).toEqual([]);
+    });
+  });
+
+  describe('streams', () => {
+    it('should emit reports of every observer through onReport', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({ observers: ['fcp', 'promiseRejections'] }).onReport(onReport).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+      window.dispatchEvent(PromiseRejectionEventMother.aDefault());
+
+      // Then
+      expect(onReport).toHaveBeenCalledTimes(2);
+      expect(onReport.mock.calls[0][0]).toBeInstanceOf(FCPReport);
+      expect(onReport.mock.calls[1][0].kind).toBe('error.promise-rejection');
+    });
+
+    it('should emit observer failures through onError', () => {
+      // Given
+      performanceObserverHelper.mock({ supportedEntryTypes: [] });
+      const onError = vi.fn();
+      rumora = createRumora({ observers: ['fcp'] }).onError(onError);
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(onError).toHaveBeenCalledWith(expect.any(UnsupportedMetricException));
+    });
+  });
+
+  describe('thresholds', () => {
+    it('should drop web vitals below the minimum rating', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({
+        observers: ['fcp'],
+        thresholds: { webVitalRating: 'NEEDS_IMPROVEMENT' },
+      }).onReport(onReport).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // Then
+      expect(onReport).not.toHaveBeenCalled();
+    });
+
+    it('should keep web vitals at or above the minimum rating', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({
+        observers: ['fcp'],
+        thresholds: { webVitalRating: 'POOR' },
+      }).onReport(onReport).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withSlowFCP()]);
+
+      // Then
+      expect(onReport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should rate LCP collections by their last candidate', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({
+        observers: ['lcp'],
+        thresholds: { webVitalRating: 'NEEDS_IMPROVEMENT' },
+      }).onReport(onReport).start();
+
+      // When
+      performanceObserverHelper.emit('largest-contentful-paint', [
+        LargestContentfulPaintMother.withCustomValues({ startTime: 4500 }),
+        LargestContentfulPaintMother.withCustomValues({ startTime: 1000 }),
+      ]);
+
+      // Then
+      expect(onReport).not.toHaveBeenCalled();
+    });
+
+    it('should drop errors below the minimum severity', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({
+        observers: ['promiseRejections'],
+        thresholds: { errorSeverity: 'critical' },
+      }).onReport(onReport).start();
+
+      // When
+      window.dispatchEvent(PromiseRejectionEventMother.aDefault());
+
+      // Then
+      expect(onReport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('middleware', () => {
+    it('should run the middleware after the enrichers', async () => {
+      // Given
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      rumora = createRumora({
+        observers: ['fcp'],
+        transport,
+        enrichers: [() => ({ release: '1.2.3', user: 'jane' })],
+        middleware: [(item) => { delete item.context.user; }],
+      }).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+      await rumora.flush();
+
+      // Then
+      expect(beaconAPIHelper.beaconBodies()).toEqual([[expect.objectContaining({
+        context: { release: '1.2.3' },
+      })]]);
+    });
+
+    it('should not run the middleware for reports below the thresholds', () => {
+      // Given
+      const middleware = vi.fn();
+      rumora = createRumora({
+        observers: ['fcp'],
+        thresholds: { webVitalRating: 'POOR' },
+        middleware: [middleware],
+      }).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // Then
+      expect(middleware).not.toHaveBeenCalled();
+    });
+
+    it('should drop reports from onReport and the transport when a middleware drops them', async () => {
+      // Given
+      const onReport = vi.fn();
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      rumora = createRumora({ observers: ['fcp'], transport })
+        .use(() => MIDDLEWARE_RESULT.DROP)
+        .onReport(onReport)
+        .start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+      await rumora.flush();
+
+      // Then
+      expect(onReport).not.toHaveBeenCalled();
+      expect(beaconAPIHelper.sendBeacon).not.toHaveBeenCalled();
+    });
+
+    it('should emit failing middleware through onError', () => {
+      // Given
+      const onError = vi.fn();
+      rumora = createRumora({
+        observers: ['fcp'],
+        middleware: [function redact() { throw new Error('boom'); }],
+      }).onError(onError).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // Then
+      expect(onError).toHaveBeenCalledWith(expect.any(MiddlewareException));
+      expect(onError.mock.calls[0][0].middleware).toBe('redact');
+    });
+  });
+
+  describe('transport', () => {
+    it('should send reports with the enricher context', async () => {
+      // Given
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      rumora = createRumora({
+        observers: ['fcp'],
+        transport,
+        enrichers: [
+          () => ({ release: '1.2.3' }),
+          (report) => ({ reportKind: report.kind }),
+        ],
+      }).start();
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // When
+      await rumora.flush();
+
+      // Then
+      expect(beaconAPIHelper.beaconBodies()).toEqual([[expect.objectContaining({
+        kind: 'web-vital.fcp',
+        context: { release: '1.2.3', reportKind: 'web-vital.fcp' },
+      })]]);
+    });
+
+    it('should report failing enrichers and still send the report', async () => {
+      // Given
+      const onError = vi.fn();
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      rumora = createRumora({
+        observers: ['fcp'],
+        transport,
+        enrichers: [
+          () => { throw new Error('boom'); },
+          () => ({ release: '1.2.3' }),
+        ],
+      }).onError(onError).start();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+      await rumora.flush();
+
+      // Then
+      expect(onError).toHaveBeenCalledWith(expect.any(EnricherException));
+      expect(beaconAPIHelper.beaconBodies()).toEqual([[expect.objectContaining({
+        context: { release: '1.2.3' },
+      })]]);
+    });
+
+    it('should deliver queued reports and dispose the transport on shutdown', async () => {
+      // Given
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      const dispose = vi.spyOn(transport, 'dispose');
+      rumora = createRumora({ observers: ['fcp'], transport }).start();
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // When
+      await rumora.shutdown();
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).toHaveBeenCalledTimes(1);
+      expect(dispose).toHaveBeenCalled();
+    });
+  });
+
+  describe('soft navigations', () => {
+    const navigateTo = (pathname: string, startTime: number) => {
+      windowLocationHelper.mock({ href: `https://example.com${pathname}`, pathname });
+      vi.mocked(performance.now).mockReturnValue(startTime);
+      history.pushState(null, '', pathname);
+    };
+
+    afterEach(() => {
+      history.replaceState(null, '', '/');
+    });
+
+    it('should measure the web vitals of each route separately', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({ observers: ['cls'], softNavigation: true }).onReport(onReport).start();
+      performanceObserverHelper.emit('layout-shift', [LayoutShiftEntryMother.withCustomValues({ startTime: 1000, value: 0.2 })]);
+
+      // When
+      navigateTo('/checkout', 2000);
+      performanceObserverHelper.emit('layout-shift', [LayoutShiftEntryMother.withCustomValues({ startTime: 2500, value: 0.02 })]);
+
+      // Then
+      const [[previousRoute], [navigation], [currentRoute]] = onReport.mock.calls;
+      expect(previousRoute).toBeInstanceOf(CLSCollection);
+      expect(navigation).toBeInstanceOf(SoftNavigationReport);
+      expect((navigation as SoftNavigationReport).route).toBe('/checkout');
+      expect((currentRoute as CLSCollection).reports.map(report => report.value)).toEqual([0.02]);
+    });
+
+    it('should measure the LCP of the route a click navigated to from the start of the route', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({ observers: ['lcp'], softNavigation: true }).onReport(onReport).start();
+      performanceObserverHelper.emit('largest-contentful-paint', [
+        LargestContentfulPaintMother.withCustomValues({ startTime: 1200, url: '' }),
+      ]);
+      const link = document.createElement('a');
+      link.addEventListener('click', () => navigateTo('/checkout', 2000));
+      document.body.append(link);
+
+      // When
+      link.click();
+      performanceObserverHelper.emit('largest-contentful-paint', [
+        LargestContentfulPaintMother.withCustomValues({ startTime: 2600, url: '' }),
+      ]);
+      link.remove();
+
+      // Then
+      const routeLCP = onReport.mock.calls.at(-1)?.[0] as LCPCollection;
+      expect(routeLCP).toBeInstanceOf(LCPCollection);
+      expect(routeLCP.reports.map(report => report.value)).toEqual([600]);
+    });
+
+    it('should add the current route view to the context of sent reports', async () => {
+      // Given
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      rumora = createRumora({
+        observers: ['fcp'],
+        transport,
+        softNavigation: { resolveRoute: url => url.pathname.replace(/^\/products\/\w+$/, '/products/:id') },
+      }).start();
+      navigateTo('/products/42', 2000);
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // When
+      await rumora.flush();
+
+      // Then
+      const [[navigation, fcp]] = beaconAPIHelper.beaconBodies() as Array<Array<Record<string, unknown>>>;
+      expect(navigation).toMatchObject({
+        kind: 'performance.soft-navigation',
+        context: { route: '/products/:id', navigationId: navigation.navigationId },
+      });
+      expect(fcp).toMatchObject({
+        kind: 'web-vital.fcp',
+        context: { route: '/products/:id', navigationId: navigation.navigationId },
+      });
+    });
+
+    it('should stop detecting soft navigations on shutdown', async () => {
+      // Given
+      const { pushState } = history;
+      rumora = createRumora({ observers: ['fcp'], softNavigation: true }).start();
+
+      // When
+      await rumora.shutdown();
+
+      // Then
+      expect(history.pushState).toBe(pushState);
+    });
+  });
+
+  describe('back/forward cache', () => {
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['requestAnimationFrame'] });
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should measure restored page views from the restore time', () => {
+      // Given
+      const onReport = vi.fn();
+      rumora = createRumora({ observers: ['fcp', 'lcp', 'cls', 'backForwardCache'] }).onReport(onReport).start();
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+      performanceObserverHelper.emit('layout-shift', [LayoutShiftEntryMother.withCustomValues({ startTime: 1000, value: 0.2 })]);
+      onReport.mockClear();
+
+      // When
+      vi.mocked(performance.now).mockReturnValue(5000);
+      window.dispatchEvent(new PageTransitionEvent('pageshow', { persisted: true }));
+      vi.mocked(performance.now).mockReturnValue(5040);
+      vi.advanceTimersToNextFrame();
+      vi.advanceTimersToNextFrame();
+      performanceObserverHelper.emit('layout-shift', [LayoutShiftEntryMother.withCustomValues({ startTime: 5100, value: 0.01 })]);
+
+      // Then
+      const [[restore], [fcp], [lcp], [cls]] = onReport.mock.calls;
+      expect(restore).toBeInstanceOf(BackForwardCacheReport);
+      expect(fcp).toBeInstanceOf(FCPReport);
+      expect((fcp as FCPReport).value).toBe(40);
+      expect((lcp as LCPCollection).lastReport?.value).toBe(40);
+      expect((cls as CLSCollection).reports.map(report => report.value)).toEqual([0.01]);
+    });
+
+    it('should tag the reports of restored page views', async () => {
+      // Given
+      const transport = new BeaconTransport({ endpoint: ENDPOINT });
+      rumora = createRumora({ observers: ['fcp', 'backForwardCache'], transport }).start();
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withFastFCP()]);
+
+      // When
+      window.dispatchEvent(new PageTransitionEvent('pageshow', { persisted: true }));
+      vi.advanceTimersToNextFrame();
+      vi.advanceTimersToNextFrame();
+      await rumora.flush();
+
+      // Then
+      const [[loaded, restore, restored]] = beaconAPIHelper.beaconBodies() as Array<Array<Record<string, unknown>>>;
+      expect(loaded).not.toHaveProperty('context');
+      expect(restore).toMatchObject({ kind: 'performance.back-forward-cache', context: { navigationType: 'back-forward-cache' } });
+      expect(restored).toMatchObject({ kind: 'web-vital.fcp', context: { navigationType: 'back-forward-cache' } });
+    });
+  });
+
+  describe('origins', () => {
+    afterEach(() => {
+      OriginClassifier.resetInstance();
+    });
+
+    it('should classify the configured first-party domains on start', () => {
+      // Given
+      rumora = createRumora({ observers: ['fcp'], origins: { firstPartyDomains: ['example-cdn.net'] } });
+
+      // When
+      rumora.start();
+
+      // Then
+      expect(OriginClassifier.getInstance().isThirdParty('https://static.example-cdn.net/app.js')).toBe(false);
+    });
+
+    it('should restore the previous configuration of the shared classifier on shutdown', async () => {
+      // Given
+      OriginClassifier.getInstance().configure({ firstPartyDomains: ['example-assets.com'] });
+      rumora = createRumora({ observers: ['fcp'], origins: { firstPartyDomains: ['example-cdn.net'] } }).start();
+
+      // When
+      await rumora.shutdown();
+
+      // Then
+      const classifier = OriginClassifier.getInstance();
+      expect(classifier.isThirdParty('https://static.example-cdn.net/app.js')).toBe(true);
+      expect(classifier.isThirdParty('https://static.example-assets.com/app.css')).toBe(false);
+    });
+  });
+});
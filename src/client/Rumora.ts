@@ -0,0 +1,459 @@
+import type { Report } from '@/reports/Report';
+import type { ReportCollection } from '@/reports/ReportCollection';
+import type { SeverityLevel } from '@/reports/errors/ErrorReport';
+import type { WebVitalRating } from '@/reports/web-vitals/WebVitalReport';
+import { INPCollection } from '@/reports/web-vitals/INPCollection';
+import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import type { BeaconTransport } from '@/transport/BeaconTransport';
+import type { ErrorCallback, SuccessCallback } from '@/shared/FallibleObserver';
+import { FallibleObserver } from '@/shared/FallibleObserver';
+import { OriginClassifier, type OriginClassifierOptions } from '@/shared/OriginClassifier';
+import { PageLifecycle } from '@/shared/PageLifecycle';
+import { EnricherException } from '@/exceptions/ClientExceptions';
+import {
+  MIDDLEWARE_RESULT,
+  ReportPipeline,
+  type MiddlewareResult,
+  type PipelineReport,
+  type ProcessedReport,
+  type ReportMiddleware
+} from '@/pipeline/ReportPipeline';
+import { CLS, type CLSOptions } from '@/metrics/web-vitals/CLS';
+import { FCP, type FCPOptions } from '@/metrics/web-vitals/FCP';
+import { FID, type FIDOptions } from '@/metrics/web-vitals/FID';
+import { INP, type INPOptions } from '@/metrics/web-vitals/INP';
+import { LCP, type LCPOptions } from '@/metrics/web-vitals/LCP';
+import { TTFB, type TTFBOptions } from '@/metrics/web-vitals/TTFB';
+import {
+  BackForwardCache,
+  type BackForwardCacheOptions
+} from '@/metrics/performance/BackForwardCache';
+import {
+  ConnectionQuality,
+  type ConnectionQualityOptions
+} from '@/metrics/performance/ConnectionQuality';
+import { DOMTiming, type DOMTimingOptions } from '@/metrics/performance/DOMTiming';
+import { ElementTiming, type ElementTimingOptions } from '@/metrics/performance/ElementTiming';
+import {
+  LongAnimationFrame,
+  type LongAnimationFrameOptions
+} from '@/metrics/performance/LongAnimationFrame';
+import { LongTask, type LongTaskOptions } from '@/metrics/performance/LongTask';
+import { Memory, type MemoryOptions } from '@/metrics/performance/Memory';
+import { NetworkTiming, type NetworkTimingOptions } from '@/metrics/performance/NetworkTiming';
+import { ResourceTiming, type ResourceTimingOptions } from '@/metrics/performance/ResourceTiming';
+import {
+  SoftNavigation,
+  type SoftNavigationAware,
+  type SoftNavigationOptions
+} from '@/metrics/performance/SoftNavigation';
+import type { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
+import {
+  TotalBlockingTime,
+  type TotalBlockingTimeOptions
+} from '@/metrics/performance/TotalBlockingTime';
+import { UserTiming, type UserTimingOptions } from '@/metrics/performance/UserTiming';
+import {
+  CSPViolationObserver,
+  type CSPViolationObserverOptions
+} from '@/metrics/errors/CSPViolationObserver';
+import {
+  ResourceErrorObserver,
+  type ResourceErrorObserverOptions
+} from '@/metrics/errors/ResourceErrorObserver';
+import {
+  UnhandledJavaScriptErrorObserver,
+  type UnhandledJavaScriptErrorObserverOptions
+} from '@/metrics/errors/UnhandledJavaScriptErrorObserver';
+import {
+  UnhandledPromiseRejectionObserver,
+  type UnhandledPromiseRejectionObserverOptions
+} from '@/metrics/errors/UnhandledPromiseRejectionObserver';
+
+/**
+ * Any report or collection emitted through the client.
+ */
+export type RumoraReport = Report | ReportCollection<Report>;
+
+/**
+ * Observer managed by the client: every PerformanceMetricObserver and WindowEventObserver.
+ */
+export interface RumoraObserver {
+  onSuccess(callback: SuccessCallback<RumoraReport>): unknown;
+  onError(callback: ErrorCallback): unknown;
+  removeSuccessCallback(callback: SuccessCallback<RumoraReport>): void;
+  removeErrorCallback(callback: ErrorCallback): void;
+  dispose(): void;
+}
+
+/**
+ * Creates the client's own observer instances, independent from the shared observeX() ones.
+ */
+const OBSERVER_FACTORIES = {
+  // Web Vitals
+  lcp: (options?: LCPOptions) => new LCP(options),
+  fcp: (options?: FCPOptions) => new FCP(options),
+  cls: (options?: CLSOptions) => new CLS(options),
+  fid: (options?: FIDOptions) => new FID(options),
+  inp: (options?: INPOptions) => new INP(options),
+  ttfb: (options?: TTFBOptions) => new TTFB(options),
+
+  // Performance
+  resourceTiming: (options?: ResourceTimingOptions) => new ResourceTiming(options),
+  networkTiming: (options?: NetworkTimingOptions) => new NetworkTiming(options),
+  domTiming: (options?: DOMTimingOptions) => new DOMTiming(options),
+  longTask: (options?: LongTaskOptions) => new LongTask(options),
+  totalBlockingTime: (options?: TotalBlockingTimeOptions) => new TotalBlockingTime(options),
+  longAnimationFrame: (options?: LongAnimationFrameOptions) => new LongAnimationFrame(options),
+  elementTiming: (options?: ElementTimingOptions) => new ElementTiming(options),
+  userTiming: (options?: UserTimingOptions) => new UserTiming(options),
+  memory: (options?: MemoryOptions) => new Memory(options),
+  connectionQuality: (options?: ConnectionQualityOptions) => new ConnectionQuality(options),
+  backForwardCache: (options?: BackForwardCacheOptions) => new BackForwardCache(options),
+
+  // Errors
+  javascriptErrors: (options?: UnhandledJavaScriptErrorObserverOptions) => new UnhandledJavaScriptErrorObserver(options),
+  promiseRejections: (options?: UnhandledPromiseRejectionObserverOptions) => new UnhandledPromiseRejectionObserver(options),
+  resourceErrors: (options?: ResourceErrorObserverOptions) => new ResourceErrorObserver(options),
+  cspViolations: (options?: CSPViolationObserverOptions) => new CSPViolationObserver(options),
+} satisfies Record<string, (options?: never) => RumoraObserver>;
+
+export type RumoraObserverName = keyof typeof OBSERVER_FACTORIES;
+
+/**
+ * Every observer that can be enabled, in start order.
+ */
+export const RUMORA_OBSERVERS = Object.keys(OBSERVER_FACTORIES) as RumoraObserverName[];
+
+/**
+ * Options of each observer, e.g. `{ inp: { durationThreshold: 40 } }`.
+ */
+export type RumoraObserverOptions = {
+  [K in RumoraObserverName]?: Parameters<(typeof OBSERVER_FACTORIES)[K]>[0];
+};
+
+/**
+ * Returns context attached to the serialized payload of a report before it is sent.
+ */
+export type RumoraEnricher = (report: RumoraReport) => Record<string, unknown>;
+
+export interface RumoraThresholds {
+  /** Minimum rating a web vital must have to be reported (default: 'GOOD', every value) */
+  webVitalRating?: WebVitalRating;
+  /** Minimum severity an error must have to be reported (default: 'low', every error) */
+  errorSeverity?: SeverityLevel;
+}
+
+export interface RumoraConfig {
+  /** Observers to enable (default: every observer in RUMORA_OBSERVERS) */
+  observers?: RumoraObserverName[];
+  /** Options passed to the enabled observers */
+  observerOptions?: RumoraObserverOptions;
+  /** Fraction of page views that are observed, between 0 and 1 (default: 1) */
+  sampleRate?: number;
+  /** Transport receiving every report that passes the thresholds */
+  transport?: BeaconTransport;
+  /** Functions whose results are merged into the `context` field of sent payloads */
+  enrichers?: RumoraEnricher[];
+  /** Minimum rating and severity of the reported web vitals and errors */
+  thresholds?: RumoraThresholds;
+  /** Middleware run after the thresholds and enrichers, in order */
+  middleware?: ReportMiddleware[];
+  /**
+   * Detects the route changes of single page applications (default: false). CLS, INP and LCP are
+   * then measured per route, soft navigations are reported, and the `route` and `navigationId`
+   * of the current route view are added to the context of every report.
+   */
+  softNavigation?: boolean | SoftNavigationOptions;
+  /**
+   * First-party domains and additional vendors used to classify third parties. Applied to
+   * the shared OriginClassifier on start(), so it affects every report of the page, and the
+   * previous configuration is restored on shutdown().
+   */
+  origins?: OriginClassifierOptions;
+}
+
+const RATING_ORDER: Record<WebVitalRating, number> = {
+  GOOD: 0,
+  NEEDS_IMPROVEMENT: 1,
+  POOR: 2,
+};
+
+const SEVERITY_ORDER: Record<SeverityLevel, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+  critical: 3,
+};
+
+/**
+ * Rating of a web vital report or collection. INP collections take the rating of
+ * their selected interaction and LCP collections the rating of their last candidate,
+ * the one that supersedes the others. Other collections without their own rating
+ * take the worst rating of their reports.
+ */
+const ratingOf = (report: RumoraReport): WebVitalRating | null => {
+  if ('rating' in report) return report.rating as WebVitalRating;
+  if (report instanceof INPCollection) return report.selectedInteraction?.rating ?? null;
+  if (report instanceof LCPCollection) return report.lastReport?.rating ?? null;
+  if (!('reports' in report)) return null;
+
+  const ratings = report.reports.map(ratingOf).filter(rating => rating !== null);
+  if (ratings.length === 0) return null;
+  return ratings.reduce((worst, rating) => RATING_ORDER[rating] > RATING_ORDER[worst] ? rating : worst);
+};
+
+const isSoftNavigationAware = (observer: RumoraObserver): observer is RumoraObserver & SoftNavigationAware =>
+  'startSoftNavigation' in observer;
+
+type ClientState = 'idle' | 'started' | 'shutdown';
+
+/**
+ * Single entry point that wires the enabled observers, the transport and the
+ * shared options together.
+ *
+ * Reports of every observer go through a ReportPipeline (thresholds, then the
+ * navigation context, enrichers, then the configured middleware). Reports that
+ * leave the pipeline are emitted through onReport() and their processed payload
+ * is sent to the transport. Failures of every observer, middleware and of the
+ * transport are emitted through onError().
+ *
+ * Each client creates its own observer instances, so several clients (e.g. a
+ * micro-frontend and its shell) can observe with different options and shutting
+ * one down does not affect the others or the shared observeX() instances.
+ *
+ * Sampling is decided once per client: an unsampled client never starts its observers.
+ */
+export class Rumora extends FallibleObserver<RumoraReport> {
+  /** Whether this page view was selected by the sample rate */
+  public readonly isSampled: boolean;
+
+  private readonly observerNames: readonly RumoraObserverName[];
+  private readonly observerOptions: RumoraObserverOptions;
+  private readonly transport: BeaconTransport | null;
+  private readonly enrichers: readonly RumoraEnricher[];
+  private readonly softNavigationOptions: SoftNavigationOptions | null;
+  private readonly originOptions: OriginClassifierOptions | null;
+  /** Configuration of the shared OriginClassifier replaced on start() */
+  private previousOriginOptions: OriginClassifierOptions | null = null;
+  private readonly minimumRating: number;
+  private readonly minimumSeverity: number;
+
+  private readonly pipeline: ReportPipeline;
+  private readonly observers = new Map<RumoraObserverName, RumoraObserver>();
+  private softNavigation: SoftNavigation | null = null;
+  private state: ClientState = 'idle';
+
+  private readonly boundHandleReport: (report: RumoraReport) => void;
+  private readonly boundHandleError: (error: Error) => void;
+  private readonly boundHandleProcessedReport: (processed: ProcessedReport) => void;
+  private readonly boundHandleSoftNavigation: (navigation: SoftNavigationReport) => void;
+
+  constructor(config: RumoraConfig = {}) {
+    super();
+    this.observerNames = Array.from(new Set(config.observers ?? RUMORA_OBSERVERS));
+    this.observerOptions = config.observerOptions ?? {};
+    this.transport = config.transport ?? null;
+    this.enrichers = config.enrichers ?? [];
+    this.softNavigationOptions = config.softNavigation === true ? {} : config.softNavigation || null;
+    this.originOptions = config.origins ?? null;
+    this.minimumRating = RATING_ORDER[config.thresholds?.webVitalRating ?? 'GOOD'];
+    this.minimumSeverity = SEVERITY_ORDER[config.thresholds?.errorSeverity ?? 'low'];
+    this.isSampled = Math.random() < (config.sampleRate ?? 1);
+    this.boundHandleReport = this.handleReport.bind(this);
+    this.boundHandleError = this.handleError.bind(this);
+    this.boundHandleProcessedReport = this.handleProcessedReport.bind(this);
+    this.boundHandleSoftNavigation = this.handleSoftNavigation.bind(this);
+
+    this.pipeline = new ReportPipeline()
+      .use(this.applyThresholds.bind(this), 'thresholds')
+      .onSuccess(this.boundHandleProcessedReport)
+      .onError(this.boundHandleError);
+    if (this.softNavigationOptions || this.observerNames.includes('backForwardCache')) {
+      this.pipeline.use(this.applyNavigation.bind(this), 'navigation');
+    }
+    if (this.enrichers.length > 0) {
+      this.pipeline.use(this.applyEnrichers.bind(this), 'enrichers');
+    }
+    config.middleware?.forEach(middleware => this.pipeline.use(middleware));
+  }
+
+  /**
+   * Whether the client has been started and not shut down.
+   */
+  public get isRunning(): boolean {
+    return this.state === 'started';
+  }
+
+  /**
+   * Names of the observers currently subscribed to.
+   */
+  public get activeObservers(): RumoraObserverName[] {
+    return Array.from(this.observers.keys());
+  }
+
+  /**
+   * Subscribes to every report emitted by the enabled observers.
+   */
+  public onReport(callback: SuccessCallback<RumoraReport>): this {
+    return this.onSuccess(callback);
+  }
+
+  /**
+   * Appends a middleware to the pipeline, after the configured ones.
+   */
+  public use(middleware: ReportMiddleware, name?: string): this {
+    this.pipeline.use(middleware, name);
+    return this;
+  }
+
+  /**
+   * Starts every enabled observer. Calling it again, or after shutdown(), does nothing.
+   */
+  public start(): this {
+    if (this.state !== 'idle') return this;
+    this.state = 'started';
+    if (!this.isSampled) return this;
+
+    // Created before the observers, so a page hidden from the start is known
+    PageLifecycle.getInstance();
+
+    if (this.originOptions) {
+      const classifier = OriginClassifier.getInstance();
+      this.previousOriginOptions = classifier.options;
+      classifier.configure(this.originOptions);
+    }
+
+    this.transport?.onError(this.boundHandleError);
+    if (this.softNavigationOptions) {
+      this.softNavigation = new SoftNavigation(this.softNavigationOptions);
+      this.softNavigation.onError(this.boundHandleError);
+      this.softNavigation.onSuccess(this.boundHandleSoftNavigation);
+    }
+    for (const name of this.observerNames) {
+      const observer = this.createObserver(name);
+      this.observers.set(name, observer);
+      observer.onError(this.boundHandleError);
+      observer.onSuccess(this.boundHandleReport);
+    }
+    return this;
+  }
+
+  /**
+   * Sends every report queued in the transport.
+   */
+  public flush(): Promise<void> {
+    return this.transport?.flush() ?? Promise.resolve();
+  }
+
+  /**
+   * Disposes every observer, delivers the queued reports and disposes the transport.
+   * The client cannot be started again afterwards.
+   */
+  public shutdown(): Promise<void> {
+    if (this.state === 'shutdown') return Promise.resolve();
+    this.state = 'shutdown';
+
+    for (const observer of this.observers.values()) {
+      observer.removeSuccessCallback(this.boundHandleReport);
+      observer.removeErrorCallback(this.boundHandleError);
+      observer.dispose();
+    }
+    this.observers.clear();
+    this.softNavigation?.dispose();
+    this.softNavigation = null;
+    if (this.previousOriginOptions) {
+      OriginClassifier.getInstance().configure(this.previousOriginOptions);
+      this.previousOriginOptions = null;
+    }
+
+    return this.flush().finally(() => {
+      this.transport?.removeErrorCallback(this.boundHandleError);
+      this.transport?.dispose();
+      this.pipeline.dispose();
+      this.clearSubscribers();
+    });
+  }
+
+  private createObserver<K extends RumoraObserverName>(name: K): RumoraObserver {
+    // Indexing by a generic key loses the pairing between a factory and its options
+    const factory = OBSERVER_FACTORIES[name] as (options?: RumoraObserverOptions[K]) => RumoraObserver;
+    return factory(this.observerOptions[name]);
+  }
+
+  private handleReport(report: RumoraReport): void {
+    this.pipeline.process(report);
+  }
+
+  /**
+   * Observers measuring per route are reset before the navigation itself is reported.
+   */
+  private handleSoftNavigation(navigation: SoftNavigationReport): void {
+    for (const observer of this.observers.values()) {
+      if (isSoftNavigationAware(observer)) observer.startSoftNavigation(navigation);
+    }
+    this.pipeline.process(navigation);
+  }
+
+  private handleProcessedReport(processed: ProcessedReport): void {
+    this.notifySuccess(processed.report);
+    this.transport?.enqueue(processed);
+  }
+
+  private handleError(error: Error): void {
+    this.notifyError(error);
+  }
+
+  private applyThresholds({ report }: PipelineReport): MiddlewareResult {
+    if (report.kind.startsWith('web-vital.')) {
+      const rating = ratingOf(report);
+      const meetsRating = rating === null || RATING_ORDER[rating] >= this.minimumRating;
+      return meetsRating ? MIDDLEWARE_RESULT.CONTINUE : MIDDLEWARE_RESULT.DROP;
+    }
+    if (report.kind.startsWith('error.') && 'severity' in report) {
+      const meetsSeverity = SEVERITY_ORDER[report.severity as SeverityLevel] >= this.minimumSeverity;
+      return meetsSeverity ? MIDDLEWARE_RESULT.CONTINUE : MIDDLEWARE_RESULT.DROP;
+    }
+    return MIDDLEWARE_RESULT.CONTINUE;
+  }
+
+  /**
+   * Tags reports of page views restored from the back/forward cache, and reports of
+   * the current route view when soft navigations are enabled.
+   */
+  private applyNavigation({ context }: PipelineReport): void {
+    const backForwardCache = this.observers.get('backForwardCache');
+    if (backForwardCache instanceof BackForwardCache && backForwardCache.isRestored) {
+      context.navigationType = 'back-forward-cache';
+    }
+
+    const navigation = this.softNavigation?.currentNavigation;
+    if (!navigation) return;
+
+    context.route = navigation.route;
+    context.navigationId = navigation.navigationId;
+  }
+
+  /**
+   * Failing enrichers are reported without dropping the report.
+   */
+  private applyEnrichers(item: PipelineReport): void {
+    for (const enricher of this.enrichers) {
+      try {
+        Object.assign(item.context, enricher(item.report));
+      }
+      catch (error) {
+        this.notifyError(new EnricherException(error));
+      }
+    }
+  }
+}
+
+/**
+ * Creates a client for the given configuration. Call start() to begin observing.
+ *
+ * @example
+ * const rumora = createRumora({ transport: new BeaconTransport({ endpoint: '/rum' }) });
+ * rumora.onReport(report => console.log(report.toString())).start();
+ */
+export const createRumora = (config: RumoraConfig = {}): Rumora => new Rumora(config);
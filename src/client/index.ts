@@ -0,0 +1,12 @@
+export {
+  Rumora,
+  createRumora,
+  RUMORA_OBSERVERS,
+  type RumoraConfig,
+  type RumoraEnricher,
+  type RumoraObserver,
+  type RumoraObserverName,
+  type RumoraObserverOptions,
+  type RumoraReport,
+  type RumoraThresholds
+} from './Rumora';
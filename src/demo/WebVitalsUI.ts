@@ -1,4 +1,4 @@
-import { observeLCP, observeFCP, observeCLS, observeFID, observeINP } from '@/metrics/web-vitals';
+import { observeLCP, observeFCP, observeCLS, observeFID, observeINP, observeTTFB } from '@/metrics/web-vitals';
 import { ActivityLogger } from './ActivityLogger';
 import { updateElement, updateRating } from './helpers';
 
@@ -43,7 +43,7 @@ export function initFCP(): void {
 export function initCLS(): void {
   observeCLS()
     .onSuccess((collection) => {
-      const cls = collection.cumulativeShiftScore;
+      const cls = collection.value;
       updateElement('cls-value', cls.toFixed(3));
       updateRating('cls-rating', cls, 0.1, 0.25);
       logger.success(`CLS: ${cls.toFixed(3)}`);
@@ -89,14 +89,29 @@ export function initFID(): void {
 export function initINP(): void {
   observeINP()
     .onSuccess((collection) => {
-      const inp = collection.percentile98;
+      const inp = collection.selectedInteraction;
       if (!inp) return;
       
       updateElement('inp-value', `${inp.value.toFixed(0)}ms`);
       updateRating('inp-rating', inp.value, 200, 500);
-      logger.info(`INP updated: ${inp.value.toFixed(0)}ms (p98)`);
+      logger.info(`INP updated: ${inp.value.toFixed(0)}ms (${collection.interactionCount} interactions)`);
     })
     .onError((error) => {
       logger.error(`INP error: ${error.message}`);
     });
 }
+
+/**
+ * Initialize TTFB observer
+ */
+export function initTTFB(): void {
+  observeTTFB()
+    .onSuccess((report) => {
+      updateElement('ttfb-value', `${report.value.toFixed(0)}ms`);
+      updateRating('ttfb-rating', report.value, 800, 1800);
+      logger.success(`TTFB: ${report.value.toFixed(0)}ms`);
+    })
+    .onError((error) => {
+      logger.error(`TTFB error: ${error.message}`);
+    });
+}
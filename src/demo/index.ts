@@ -1,5 +1,5 @@
 import { ActivityLogger } from './ActivityLogger';
-import { initLCP, initFCP, initCLS, initFID, initINP } from './WebVitalsUI';
+import { initLCP, initFCP, initCLS, initFID, initINP, initTTFB } from './WebVitalsUI';
 import { initDOMTiming } from './DOMTimingUI';
 import { initNetworkTiming } from './NetworkTimingUI';
 import { initResourceTiming } from './ResourcesUI';
@@ -19,6 +19,7 @@ function initDemo(): void {
   initCLS();
   initFID();
   initINP();
+  initTTFB();
 
   // Performance
   initDOMTiming();
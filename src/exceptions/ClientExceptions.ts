@@ -0,0 +1,9 @@
+import { RumoraException } from './RumoraException';
+
+export class ClientException extends RumoraException {};
+
+export class EnricherException extends ClientException {
+  constructor(cause?: unknown) {
+    super('Error occurred in report enricher', { cause });
+  }
+}
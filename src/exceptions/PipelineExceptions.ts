@@ -0,0 +1,21 @@
+import { RumoraException } from './RumoraException';
+
+export class PipelineException extends RumoraException {};
+
+export class MiddlewareException extends PipelineException {
+  public readonly middleware: string;
+
+  constructor(middleware: string, cause?: unknown) {
+    super(`Error occurred in report middleware "${middleware}"`, { cause });
+    this.middleware = middleware;
+  }
+}
+
+export class ReportSerializationException extends PipelineException {
+  public readonly kind: string;
+
+  constructor(kind: string, cause?: unknown) {
+    super(`Failed to serialize report "${kind}"`, { cause });
+    this.kind = kind;
+  }
+}
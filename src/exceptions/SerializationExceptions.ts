@@ -0,0 +1,42 @@
+import { RumoraException } from './RumoraException';
+
+export class SerializationException extends RumoraException {};
+
+export class InvalidPayloadException extends SerializationException {
+  constructor(expected: string) {
+    super(`Invalid payload: expected ${expected}`);
+  }
+}
+
+export class InvalidFieldException extends SerializationException {
+  public readonly field: string;
+
+  constructor(field: string, expected: string, cause?: unknown) {
+    super(`Invalid field "${field}": expected ${expected}`, { cause });
+    this.field = field;
+  }
+}
+
+export class ReportKindMismatchException extends SerializationException {
+  constructor(expected: string, actual: unknown) {
+    super(`Report kind mismatch: expected "${expected}" but received "${String(actual)}"`);
+  }
+}
+
+export class UnknownReportKindException extends SerializationException {
+  public readonly kind: unknown;
+
+  constructor(kind: unknown) {
+    super(`Unknown report kind: "${String(kind)}"`);
+    this.kind = kind;
+  }
+}
+
+export class UnsupportedSchemaVersionException extends SerializationException {
+  public readonly schemaVersion: unknown;
+
+  constructor(schemaVersion: unknown, supported: number) {
+    super(`Unsupported schema version: "${String(schemaVersion)}" (supported: ${supported})`);
+    this.schemaVersion = schemaVersion;
+  }
+}
@@ -0,0 +1,33 @@
+import { RumoraException } from './RumoraException';
+
+export class TransportException extends RumoraException {};
+
+export class TransportFlushException extends TransportException {
+  public readonly reports: readonly unknown[];
+
+  constructor(reports: readonly unknown[], cause?: unknown) {
+    super(`Failed to deliver ${reports.length} report(s)`, { cause });
+    this.reports = reports;
+  }
+}
+
+export class TransportResponseException extends TransportException {
+  public readonly status: number;
+
+  constructor(status: number) {
+    super(`Endpoint responded with status ${status}`);
+    this.status = status;
+  }
+}
+
+export class PayloadTooLargeException extends TransportException {
+  constructor(size: number, limit: number) {
+    super(`Report of ${size} bytes exceeds the ${limit} bytes payload limit`);
+  }
+}
+
+export class QueueStorageException extends TransportException {
+  constructor(cause?: unknown) {
+    super('Failed to access the persistent report queue', { cause });
+  }
+}
@@ -19,3 +19,9 @@ export class UnsupportedSSRException extends UnsupportedException {
     super('SSR (Server-Side Rendering) is not supported in this environment.');
   }
 }
+
+export class UnsupportedTransportException extends UnsupportedException {
+  constructor() {
+    super('Neither navigator.sendBeacon nor fetch is available in this environment.');
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+
+import { toAnyValue, toAttributes, toHexId, toUnixNano } from './OTLPEncoding';
+
+describe('OTLPEncoding', () => {
+  describe('toUnixNano', () => {
+    it('should convert epoch milliseconds into a nanoseconds string', () => {
+      // Given
+      const epochMillis = 1700000000123;
+
+      // When
+      const result = toUnixNano(epochMillis);
+
+      // Then
+      expect(result).toBe('1700000000123000000');
+    });
+
+    it('should keep sub-millisecond precision', () => {
+      // Given
+      const epochMillis = 1700000000123.456;
+
+      // When
+      const result = toUnixNano(epochMillis);
+
+      // Then
+      expect(result).toBe('1700000000123456000');
+    });
+  });
+
+  describe('toAnyValue', () => {
+    it('should encode each primitive with its OTLP value type', () => {
+      // Then
+      expect(toAnyValue('text')).toEqual({ stringValue: 'text' });
+      expect(toAnyValue(true)).toEqual({ boolValue: true });
+      expect(toAnyValue(42)).toEqual({ intValue: '42' });
+      expect(toAnyValue(0.25)).toEqual({ doubleValue: 0.25 });
+      expect(toAnyValue(['a', 1])).toEqual({
+        arrayValue: { values: [{ stringValue: 'a' }, { intValue: '1' }] }
+      });
+    });
+  });
+
+  describe('toAttributes', () => {
+    it('should skip null, undefined and non-finite values', () => {
+      // Given
+      const record = { kept: 'value', missing: undefined, empty: null, invalid: Number.NaN };
+
+      // When
+      const attributes = toAttributes(record);
+
+      // Then
+      expect(attributes).toEqual([{ key: 'kept', value: { stringValue: 'value' } }]);
+    });
+  });
+
+  describe('toHexId', () => {
+    it('should derive hex ids of the requested length', () => {
+      // When
+      const traceId = toHexId('report-id', 32);
+      const spanId = toHexId('report-id', 16);
+
+      // Then
+      expect(traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(spanId).toMatch(/^[0-9a-f]{16}$/);
+    });
+
+    it('should be deterministic and depend on the seed', () => {
+      // Then
+      expect(toHexId('report-id', 16)).toBe(toHexId('report-id', 16));
+      expect(toHexId('report-id', 16)).not.toBe(toHexId('other-id', 16));
+    });
+  });
+});
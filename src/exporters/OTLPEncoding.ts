@@ -0,0 +1,70 @@
+import type { OTLPAnyValue, OTLPAttributeValue, OTLPKeyValue } from '@/types/OTLP';
+
+const NANOS_PER_MILLISECOND = 1_000_000n;
+
+/**
+ * Converts an epoch timestamp in milliseconds into the decimal nanoseconds
+ * string used by OTLP/JSON. The fraction is rounded to microseconds, the best
+ * precision a double epoch timestamp (and high resolution time) can carry.
+ */
+export const toUnixNano = (epochMillis: number): string => {
+  const wholeMillis = Math.floor(epochMillis);
+  const fractionNanos = Math.round((epochMillis - wholeMillis) * 1000) * 1000;
+  return (BigInt(wholeMillis) * NANOS_PER_MILLISECOND + BigInt(fractionNanos)).toString();
+};
+
+/**
+ * Converts a primitive (or array of primitives) into an OTLP AnyValue.
+ * Integers are encoded as intValue and other numbers as doubleValue.
+ */
+export const toAnyValue = (value: OTLPAttributeValue): OTLPAnyValue => {
+  if (Array.isArray(value)) {
+    return { arrayValue: { values: value.map(toAnyValue) } };
+  }
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  if (Number.isSafeInteger(value)) return { intValue: String(value) };
+  return { doubleValue: value as number };
+};
+
+/**
+ * Converts a record into OTLP attributes, skipping null, undefined and non-finite values.
+ */
+export const toAttributes = (
+  record: Record<string, OTLPAttributeValue | null | undefined>
+): OTLPKeyValue[] => {
+  const attributes: OTLPKeyValue[] = [];
+  for (const [key, value] of Object.entries(record)) {
+    if (value === null || value === undefined) continue;
+    if (typeof value === 'number' && !Number.isFinite(value)) continue;
+    attributes.push({ key, value: toAnyValue(value) });
+  }
+  return attributes;
+};
+
+/**
+ * 32-bit FNV-1a hash of a string.
+ */
+const fnv1a = (input: string): number => {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < input.length; index++) {
+    hash ^= input.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Derives a deterministic, non-zero hex identifier from a seed.
+ * Used to build trace (32 chars) and span (16 chars) ids from report ids,
+ * so re-exporting the same report yields the same ids.
+ */
+export const toHexId = (seed: string, length: 16 | 32): string => {
+  let hex = '';
+  for (let block = 0; hex.length < length; block++) {
+    hex += fnv1a(`${block}:${seed}`).toString(16).padStart(8, '0');
+  }
+  hex = hex.slice(0, length);
+  // All-zero ids are invalid in OTLP
+  return /^0+$/.test(hex) ? `${hex.slice(0, -1)}1` : hex;
+};
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+
+import { LCPReportMothers } from '@/test/mothers/LCPReportMothers';
+import { INPReportMothers } from '@/test/mothers/INPReportMothers';
+import { LongTaskReportMothers } from '@/test/mothers/LongTaskReportMothers';
+import { NetworkTimingReportMothers } from '@/test/mothers/NetworkTimingReportMothers';
+import { ResourceTimingReportMothers } from '@/test/mothers/ResourceTimingReportMothers';
+import { UnhandledJavaScriptErrorReportMothers } from '@/test/mothers/UnhandledJavaScriptErrorReportMothers';
+import { UnhandledPromiseRejectionReportMothers } from '@/test/mothers/UnhandledPromiseRejectionReportMothers';
+import { INPCollection } from '@/reports/web-vitals/INPCollection';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { NetworkTimingReport } from '@/reports/performance/NetworkTimingReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+import type {
+  OTLPGaugeMetric,
+  OTLPHistogramMetric,
+  OTLPKeyValue
+} from '@/types/OTLP';
+import { SEVERITY_NUMBER, SPAN_KIND } from '@/types/OTLP';
+
+import { OTLPExporter } from './OTLPExporter';
+import { toUnixNano } from './OTLPEncoding';
+
+const attribute = (attributes: OTLPKeyValue[], key: string) => (
+  attributes.find(entry => entry.key === key)?.value
+);
+
+describe('OTLPExporter', () => {
+  describe('resource', () => {
+    it('should describe the service and the SDK in the resource attributes', () => {
+      // Given
+      const exporter = new OTLPExporter({
+        serviceName: 'storefront',
+        resourceAttributes: { 'service.version': '1.2.3' }
+      });
+
+      // When
+      const request = exporter.toMetrics([LCPReportMothers.good()]);
+
+      // Then
+      const { resource, scopeMetrics } = request.resourceMetrics[0];
+      expect(attribute(resource.attributes, 'service.name')).toEqual({ stringValue: 'storefront' });
+      expect(attribute(resource.attributes, 'service.version')).toEqual({ stringValue: '1.2.3' });
+      expect(attribute(resource.attributes, 'telemetry.sdk.name')).toEqual({ stringValue: 'rumora' });
+      expect(scopeMetrics[0].scope.name).toBe('rumora');
+    });
+  });
+
+  describe('metrics', () => {
+    it('should convert a web vital into a gauge with rating attributes', () => {
+      // Given
+      const report = LCPReportMothers.poor();
+      const exporter = new OTLPExporter();
+
+      // When
+      const [metric] = exporter.toMetrics([report]).resourceMetrics[0].scopeMetrics[0].metrics as OTLPGaugeMetric[];
+
+      // Then
+      const [dataPoint] = metric.gauge.dataPoints;
+      expect(metric.name).toBe('web_vitals.lcp');
+      expect(metric.unit).toBe('ms');
+      expect(dataPoint.asDouble).toBe(report.value);
+      expect(dataPoint.timeUnixNano).toBe(toUnixNano(report.occurredAt.absoluteTime));
+      expect(attribute(dataPoint.attributes, 'rating')).toEqual({ stringValue: 'POOR' });
+      expect(attribute(dataPoint.attributes, 'goodThreshold')).toEqual({ intValue: '2500' });
+      expect(attribute(dataPoint.attributes, 'poorThreshold')).toEqual({ intValue: '4000' });
+    });
+
+    it('should convert a web vital collection into a gauge and a histogram bucketed by rating', () => {
+      // Given
+      const collection = INPCollection.create('inp-collection', [
+        INPReportMothers.withValue(100),
+        INPReportMothers.withValue(150),
+        INPReportMothers.withValue(300),
+        INPReportMothers.withValue(700),
+      ]);
+      const exporter = new OTLPExporter();
+
+      // When
+      const [gauge, histogram] = exporter.toMetrics([collection])
+        .resourceMetrics[0].scopeMetrics[0].metrics as [OTLPGaugeMetric, OTLPHistogramMetric];
+
+      // Then
+      expect(gauge.name).toBe('web_vitals.inp');
+      expect(gauge.gauge.dataPoints[0].asDouble).toBe(collection.selectedInteraction?.value);
+      expect(histogram.name).toBe('web_vitals.inp.distribution');
+
+      const [dataPoint] = histogram.histogram.dataPoints;
+      expect(dataPoint.count).toBe('4');
+      expect(dataPoint.sum).toBe(1250);
+      expect(dataPoint.min).toBe(100);
+      expect(dataPoint.max).toBe(700);
+      expect(dataPoint.explicitBounds).toEqual([200, 500]);
+      expect(dataPoint.bucketCounts).toEqual(['2', '1', '1']);
+    });
+
+    it('should skip empty collections', () => {
+      // Given
+      const collection = INPCollection.create('empty', []);
+
+      // When
+      const request = new OTLPExporter().toMetrics([collection]);
+
+      // Then
+      expect(request.resourceMetrics).toEqual([]);
+    });
+  });
+
+  describe('logs', () => {
+    it('should convert errors into log records with mapped severity', () => {
+      // Given
+      const critical = UnhandledJavaScriptErrorReportMothers.critical();
+      const low = UnhandledPromiseRejectionReportMothers.low();
+      const exporter = new OTLPExporter();
+
+      // When
+      const [criticalRecord, lowRecord] = exporter.toLogs([critical, low])
+        .resourceLogs[0].scopeLogs[0].logRecords;
+
+      // Then
+      expect(criticalRecord.severityNumber).toBe(SEVERITY_NUMBER.FATAL);
+      expect(criticalRecord.severityText).toBe('critical');
+      expect(criticalRecord.body).toEqual({ stringValue: critical.toString() });
+      expect(criticalRecord.timeUnixNano).toBe(toUnixNano(critical.occurredAt.absoluteTime));
+      expect(attribute(criticalRecord.attributes, 'exception.message'))
+        .toEqual({ stringValue: critical.errorMessage });
+      expect(attribute(criticalRecord.attributes, 'event.name'))
+        .toEqual({ stringValue: 'rumora.unhandled_javascript_error' });
+      expect(lowRecord.severityNumber).toBe(SEVERITY_NUMBER.WARN);
+      expect(lowRecord.severityText).toBe('low');
+    });
+  });
+
+  describe('traces', () => {
+    it('should convert a resource timing into a client span with a child span per segment', () => {
+      // Given
+      const report = ResourceTimingReport.create(ResourceTimingReportMothers.fastScript());
+      const exporter = new OTLPExporter();
+
+      // When
+      const spans = exporter.toTraces([report]).resourceSpans[0].scopeSpans[0].spans;
+
+      // Then
+      const [root, ...children] = spans;
+      expect(root.name).toBe('resource.script');
+      expect(root.kind).toBe(SPAN_KIND.CLIENT);
+      expect(root.traceId).toMatch(/^[0-9a-f]{32}$/);
+      expect(root.spanId).toMatch(/^[0-9a-f]{16}$/);
+      expect(root.startTimeUnixNano).toBe(toUnixNano(report.occurredAt.absoluteTime));
+      expect(root.endTimeUnixNano).toBe(toUnixNano(report.endTime.absoluteTime));
+      expect(attribute(root.attributes, 'url.full')).toEqual({ stringValue: report.name });
+
+      expect(children.map(span => span.name)).toEqual([
+        'dns_lookup', 'tcp_connect', 'tls_handshake', 'server_processing', 'content_download'
+      ]);
+      expect(children.every(span => span.traceId === root.traceId)).toBe(true);
+      expect(children.every(span => span.parentSpanId === root.spanId)).toBe(true);
+    });
+
+    it('should skip empty segments', () => {
+      // Given
+      const report = NetworkTimingReport.create(NetworkTimingReportMothers.fastNetwork());
+
+      // When
+      const spans = new OTLPExporter().toTraces([report]).resourceSpans[0].scopeSpans[0].spans;
+
+      // Then
+      expect(spans[0].name).toBe('navigation');
+      expect(spans.map(span => span.name)).not.toContain('redirects');
+    });
+
+    it('should convert every report of a resource timing collection', () => {
+      // Given
+      const collection = ResourceTimingCollection.fromResourceTimingReports('resources', [
+        ResourceTimingReport.create(ResourceTimingReportMothers.fastScript()),
+        ResourceTimingReport.create(ResourceTimingReportMothers.compressedCSS()),
+      ]);
+
+      // When
+      const spans = new OTLPExporter().toTraces([collection]).resourceSpans[0].scopeSpans[0].spans;
+
+      // Then
+      const rootSpans = spans.filter(span => span.parentSpanId === undefined);
+      expect(rootSpans.map(span => span.name)).toEqual(['resource.script', 'resource.link']);
+    });
+
+    it('should convert a long task into an internal span', () => {
+      // Given
+      const report = LongTaskReport.create(LongTaskReportMothers.highSeverity());
+
+      // When
+      const [span] = new OTLPExporter().toTraces([report]).resourceSpans[0].scopeSpans[0].spans;
+
+      // Then
+      expect(span.name).toBe('longtask');
+      expect(span.kind).toBe(SPAN_KIND.INTERNAL);
+      expect(span.endTimeUnixNano).toBe(toUnixNano(report.endTime.absoluteTime));
+    });
+
+    it('should derive the same ids when exporting the same report twice', () => {
+      // Given
+      const report = LongTaskReport.create(LongTaskReportMothers.lowSeverity());
+      const exporter = new OTLPExporter();
+
+      // When
+      const [first] = exporter.toTraces([report]).resourceSpans[0].scopeSpans[0].spans;
+      const [second] = exporter.toTraces([report]).resourceSpans[0].scopeSpans[0].spans;
+
+      // Then
+      expect(second.traceId).toBe(first.traceId);
+      expect(second.spanId).toBe(first.spanId);
+    });
+  });
+
+  describe('export', () => {
+    it('should split reports by signal and return null for signals without reports', () => {
+      // Given
+      const exporter = new OTLPExporter();
+
+      // When
+      const requests = exporter.export([
+        LCPReportMothers.good(),
+        UnhandledJavaScriptErrorReportMothers.high()
+      ]);
+
+      // Then
+      expect(requests.metrics?.resourceMetrics).toHaveLength(1);
+      expect(requests.logs?.resourceLogs).toHaveLength(1);
+      expect(requests.traces).toBeNull();
+    });
+
+    it('should produce plain JSON', () => {
+      // Given
+      const report = ResourceTimingReport.create(ResourceTimingReportMothers.fastScript());
+      const requests = new OTLPExporter().export([report, LCPReportMothers.good()]);
+
+      // When
+      const roundTrip = JSON.parse(JSON.stringify(requests));
+
+      // Then
+      expect(roundTrip).toEqual(requests);
+    });
+  });
+});
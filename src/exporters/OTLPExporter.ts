@@ -0,0 +1,519 @@
+import type { Report } from '@/reports/Report';
+import type { ReportCollection } from '@/reports/ReportCollection';
+import type { SeverityLevel } from '@/reports/errors/ErrorReport';
+import type { Serialized } from '@/types/Serialized';
+import type { TimeSegment } from '@/value-objects/TimeSegment';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { WebVitalReport } from '@/reports/web-vitals/WebVitalReport';
+import type { WebVitalRatingInfo } from '@/reports/web-vitals/WebVitalReport';
+import { CLSReport } from '@/reports/web-vitals/CLSReport';
+import { CLSCollection } from '@/reports/web-vitals/CLSCollection';
+import { INPCollection } from '@/reports/web-vitals/INPCollection';
+import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import { DOMTimingReport } from '@/reports/performance/DOMTimingReport';
+import { ElementTimingReport } from '@/reports/performance/ElementTimingReport';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { NetworkTimingReport } from '@/reports/performance/NetworkTimingReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+import { UnhandledJavaScriptErrorReport } from '@/reports/errors/UnhandledJavaScriptErrorReport';
+import { UnhandledPromiseRejectionReport } from '@/reports/errors/UnhandledPromiseRejectionReport';
+import { ResourceErrorReport } from '@/reports/errors/ResourceErrorReport';
+import { CSPViolationErrorReport } from '@/reports/errors/CSPViolationErrorReport';
+import {
+  AGGREGATION_TEMPORALITY,
+  SEVERITY_NUMBER,
+  SPAN_KIND,
+  type OTLPAttributeValue,
+  type OTLPExportLogsServiceRequest,
+  type OTLPExportMetricsServiceRequest,
+  type OTLPExportTraceServiceRequest,
+  type OTLPInstrumentationScope,
+  type OTLPKeyValue,
+  type OTLPLogRecord,
+  type OTLPMetric,
+  type OTLPResource,
+  type OTLPSpan,
+  type SpanKind
+} from '@/types/OTLP';
+import { toAttributes, toHexId, toUnixNano } from './OTLPEncoding';
+
+/**
+ * Any report or collection emitted by a Rumora observer.
+ */
+export type ExportableReport = Report | ReportCollection<Report>;
+
+/**
+ * Default OTLP/HTTP paths, relative to the collector base URL.
+ */
+export const OTLP_PATHS = {
+  METRICS: '/v1/metrics',
+  LOGS: '/v1/logs',
+  TRACES: '/v1/traces',
+} as const;
+
+export interface OTLPExporterOptions {
+  /** Value of the service.name resource attribute (default: 'unknown_service') */
+  serviceName?: string;
+  /** Additional resource attributes (service.version, deployment.environment.name, ...) */
+  resourceAttributes?: Record<string, OTLPAttributeValue>;
+  /** Version reported in the instrumentation scope */
+  scopeVersion?: string;
+}
+
+/**
+ * OTLP requests for every signal, or null when no report maps to that signal.
+ */
+export interface OTLPExportRequests {
+  metrics: OTLPExportMetricsServiceRequest | null;
+  logs: OTLPExportLogsServiceRequest | null;
+  traces: OTLPExportTraceServiceRequest | null;
+}
+
+interface MetricDescriptor {
+  name: string;
+  description: string;
+  unit: string;
+}
+
+const WEB_VITAL_METRICS: Record<string, MetricDescriptor> = {
+  CUMULATIVE_LAYOUT_SHIFT: { name: 'web_vitals.cls', description: 'Cumulative Layout Shift', unit: '1' },
+  FIRST_CONTENTFUL_PAINT: { name: 'web_vitals.fcp', description: 'First Contentful Paint', unit: 'ms' },
+  FIRST_INPUT_DELAY: { name: 'web_vitals.fid', description: 'First Input Delay', unit: 'ms' },
+  INTERACTION_TO_NEXT_PAINT: { name: 'web_vitals.inp', description: 'Interaction to Next Paint', unit: 'ms' },
+  LARGEST_CONTENTFUL_PAINT: { name: 'web_vitals.lcp', description: 'Largest Contentful Paint', unit: 'ms' },
+  TIME_TO_FIRST_BYTE: { name: 'web_vitals.ttfb', description: 'Time to First Byte', unit: 'ms' },
+};
+
+const getWebVitalMetric = (name: string): MetricDescriptor => (
+  WEB_VITAL_METRICS[name] ?? { name: `web_vitals.${name.toLowerCase()}`, description: name, unit: 'ms' }
+);
+
+/**
+ * Maps Rumora severities onto the OTLP severity number ranges.
+ * High errors use ERROR3 so they sort above medium ones within the ERROR range.
+ */
+const SEVERITY_NUMBERS: Record<SeverityLevel, number> = {
+  low: SEVERITY_NUMBER.WARN,
+  medium: SEVERITY_NUMBER.ERROR,
+  high: SEVERITY_NUMBER.ERROR + 2,
+  critical: SEVERITY_NUMBER.FATAL,
+};
+
+const ratingAttributes = (info: WebVitalRatingInfo) => ({
+  rating: info.rating,
+  goodThreshold: info.goodThreshold,
+  poorThreshold: info.poorThreshold,
+});
+
+type SerializedSegment = Serialized<TimeSegment>;
+
+/**
+ * Converts Rumora reports into OpenTelemetry OTLP/JSON requests.
+ *
+ * - Web vitals become gauge metrics carrying rating, goodThreshold and poorThreshold
+ *   attributes. Web vital collections also produce a histogram of their individual
+ *   values, bucketed by the rating thresholds.
+ * - DOM and element timings become gauge metrics.
+ * - Errors become log records, with the severity mapped from their SeverityLevel.
+ * - Resource timings, navigation timings and long tasks become spans; each
+ *   non-empty TimeSegment (DNS, TCP, TLS, ...) becomes a child span.
+ *
+ * The output is plain JSON that can be posted to any OTLP/HTTP endpoint.
+ * Trace and span ids are derived from report ids, so exporting the same report
+ * twice produces the same ids.
+ */
+export class OTLPExporter {
+  private readonly resource: OTLPResource;
+  private readonly scope: OTLPInstrumentationScope;
+
+  constructor(options: OTLPExporterOptions = {}) {
+    this.resource = {
+      attributes: toAttributes({
+        'service.name': options.serviceName ?? 'unknown_service',
+        'telemetry.sdk.name': 'rumora',
+        'telemetry.sdk.language': 'webjs',
+        ...options.resourceAttributes,
+      }),
+    };
+    this.scope = { name: 'rumora', version: options.scopeVersion };
+  }
+
+  /**
+   * Converts reports into requests for every OTLP signal.
+   */
+  public export(reports: readonly ExportableReport[]): OTLPExportRequests {
+    const metrics = this.toMetrics(reports);
+    const logs = this.toLogs(reports);
+    const traces = this.toTraces(reports);
+
+    return {
+      metrics: metrics.resourceMetrics.length > 0 ? metrics : null,
+      logs: logs.resourceLogs.length > 0 ? logs : null,
+      traces: traces.resourceSpans.length > 0 ? traces : null,
+    };
+  }
+
+  /**
+   * Converts web vitals and DOM/element timings into an ExportMetricsServiceRequest.
+   */
+  public toMetrics(reports: readonly ExportableReport[]): OTLPExportMetricsServiceRequest {
+    const metrics = reports.flatMap(report => this.createMetrics(report));
+    if (metrics.length === 0) return { resourceMetrics: [] };
+
+    return {
+      resourceMetrics: [{
+        resource: this.resource,
+        scopeMetrics: [{ scope: this.scope, metrics }],
+      }],
+    };
+  }
+
+  /**
+   * Converts error reports into an ExportLogsServiceRequest.
+   */
+  public toLogs(reports: readonly ExportableReport[]): OTLPExportLogsServiceRequest {
+    const logRecords = reports.flatMap(report => this.createLogRecords(report));
+    if (logRecords.length === 0) return { resourceLogs: [] };
+
+    return {
+      resourceLogs: [{
+        resource: this.resource,
+        scopeLogs: [{ scope: this.scope, logRecords }],
+      }],
+    };
+  }
+
+  /**
+   * Converts resource timings, navigation timings and long tasks into an ExportTraceServiceRequest.
+   */
+  public toTraces(reports: readonly ExportableReport[]): OTLPExportTraceServiceRequest {
+    const spans = reports.flatMap(report => this.createSpans(report));
+    if (spans.length === 0) return { resourceSpans: [] };
+
+    return {
+      resourceSpans: [{
+        resource: this.resource,
+        scopeSpans: [{ scope: this.scope, spans }],
+      }],
+    };
+  }
+
+  // ===== METRICS =====
+
+  private createMetrics(report: ExportableReport): OTLPMetric[] {
+    if (report instanceof WebVitalReport) {
+      const descriptor = getWebVitalMetric(report.name);
+      return [this.createGauge(descriptor, report.value, report.occurredAt, {
+        reportId: report.id,
+        ...ratingAttributes(report),
+      })];
+    }
+
+    if (report instanceof CLSCollection) {
+      if (report.isEmpty) return [];
+      const descriptor = getWebVitalMetric('CUMULATIVE_LAYOUT_SHIFT');
+      return [
+        this.createGauge(descriptor, report.value, report.createdAt, {
+          reportId: report.id,
+          ...ratingAttributes(report),
+        }),
+        this.createHistogram(descriptor, report.reports.map(shift => shift.value), report, report),
+      ];
+    }
+
+    if (report instanceof LCPCollection || report instanceof INPCollection) {
+      const representative = report instanceof LCPCollection ? report.lastReport : report.selectedInteraction;
+      if (!representative) return [];
+      const descriptor = getWebVitalMetric(representative.name);
+      return [
+        this.createGauge(descriptor, representative.value, report.createdAt, {
+          reportId: report.id,
+          ...ratingAttributes(representative),
+        }),
+        this.createHistogram(descriptor, report.reports.map(entry => entry.value), report, representative),
+      ];
+    }
+
+    if (report instanceof CLSReport) {
+      return [this.createGauge(
+        { name: 'web_vitals.layout_shift', description: 'Individual layout shift score', unit: '1' },
+        report.value,
+        report.occurredAt,
+        { reportId: report.id }
+      )];
+    }
+
+    if (report instanceof DOMTimingReport) {
+      const attributes = { reportId: report.id };
+      const milestones: Array<[string, string, number]> = [
+        ['time_to_interactive', 'Time until the DOM became interactive', report.timeToInteractive],
+        ['time_to_content_loaded', 'Time until DOMContentLoaded completed', report.timeToContentLoaded],
+        ['time_to_dom_complete', 'Time until DOM parsing completed', report.timeToDOMComplete],
+        ['time_to_full_load', 'Time until the load event completed', report.timeToFullLoad],
+        ['dom_content_loaded_duration', 'Time spent in DOMContentLoaded handlers', report.domContentLoadedDuration],
+        ['load_event_duration', 'Time spent in load event handlers', report.loadEventDuration],
+      ];
+      return milestones.map(([name, description, value]) => this.createGauge(
+        { name: `dom_timing.${name}`, description, unit: 'ms' },
+        value,
+        report.occurredAt,
+        attributes
+      ));
+    }
+
+    if (report instanceof ElementTimingReport) {
+      return [this.createGauge(
+        { name: 'element_timing.render_time', description: 'Time until the element was rendered', unit: 'ms' },
+        report.effectiveRenderTime,
+        report.occurredAt,
+        {
+          reportId: report.id,
+          identifier: report.identifier,
+          elementId: report.elementId,
+          'url.full': report.url,
+          isImage: report.isImage,
+        }
+      )];
+    }
+
+    return [];
+  }
+
+  private createGauge(
+    descriptor: MetricDescriptor,
+    value: number,
+    time: PerformanceTime,
+    attributes: Record<string, OTLPAttributeValue | null | undefined>
+  ): OTLPMetric {
+    return {
+      ...descriptor,
+      gauge: {
+        dataPoints: [{
+          attributes: toAttributes(attributes),
+          timeUnixNano: toUnixNano(time.absoluteTime),
+          asDouble: value,
+        }],
+      },
+    };
+  }
+
+  /**
+   * Histogram of the collection values, with one bucket per rating
+   * (good, needs improvement, poor). Collections hold every entry observed
+   * since navigation start, so the temporality is cumulative.
+   */
+  private createHistogram(
+    descriptor: MetricDescriptor,
+    values: number[],
+    collection: ReportCollection<Report>,
+    thresholds: Pick<WebVitalRatingInfo, 'goodThreshold' | 'poorThreshold'>
+  ): OTLPMetric {
+    const explicitBounds = [thresholds.goodThreshold, thresholds.poorThreshold];
+    // OTLP buckets are upper-inclusive, while ratings treat the thresholds as exclusive
+    const bucketCounts = [
+      values.filter(value => value < thresholds.goodThreshold).length,
+      values.filter(value => value >= thresholds.goodThreshold && value < thresholds.poorThreshold).length,
+      values.filter(value => value >= thresholds.poorThreshold).length,
+    ];
+
+    return {
+      name: `${descriptor.name}.distribution`,
+      description: `Distribution of ${descriptor.description} entries`,
+      unit: descriptor.unit,
+      histogram: {
+        aggregationTemporality: AGGREGATION_TEMPORALITY.CUMULATIVE,
+        dataPoints: [{
+          attributes: toAttributes({ reportId: collection.id, ...thresholds }),
+          startTimeUnixNano: toUnixNano(PerformanceTime.fromRelativeTime(0).absoluteTime),
+          timeUnixNano: toUnixNano(collection.createdAt.absoluteTime),
+          count: String(values.length),
+          sum: values.reduce((total, value) => total + value, 0),
+          min: Math.min(...values),
+          max: Math.max(...values),
+          bucketCounts: bucketCounts.map(String),
+          explicitBounds,
+        }],
+      },
+    };
+  }
+
+  // ===== LOGS =====
+
+  private createLogRecords(report: ExportableReport): OTLPLogRecord[] {
+    if (report instanceof UnhandledJavaScriptErrorReport) {
+      return [this.createLogRecord(report, report.severity, 'unhandled_javascript_error', {
+        'exception.type': report.errorName,
+        'exception.message': report.errorMessage,
+        'exception.stacktrace': report.stack,
+        'code.filepath': report.filename,
+        'code.lineno': report.lineNumber,
+        'code.column': report.columnNumber,
+        isThirdPartyScript: report.isThirdPartyScript,
+        isProgrammingError: report.isProgrammingError,
+      })];
+    }
+
+    if (report instanceof UnhandledPromiseRejectionReport) {
+      return [this.createLogRecord(report, report.severity, 'unhandled_promise_rejection', {
+        'exception.type': report.errorName,
+        'exception.message': report.errorMessage,
+        'exception.stacktrace': report.stack,
+        isNetworkRelated: report.isNetworkRelated,
+        isJavaScriptError: report.isJavaScriptError,
+      })];
+    }
+
+    if (report instanceof ResourceErrorReport) {
+      return [this.createLogRecord(report, report.severity, 'resource_error', {
+        'url.full': report.resourceUrl,
+        resourceType: report.resourceType,
+        isThirdParty: report.isThirdParty,
+        isCriticalResource: report.isCriticalResource,
+      })];
+    }
+
+    if (report instanceof CSPViolationErrorReport) {
+      return [this.createLogRecord(report, report.severity, 'csp_violation', {
+        directive: report.directive,
+        blockedURI: report.blockedURI,
+        'code.filepath': report.sourceFile,
+        'code.lineno': report.lineNumber,
+        'code.column': report.columnNumber,
+        isInlineViolation: report.isInlineViolation,
+        isThirdPartyViolation: report.isThirdPartyViolation,
+      })];
+    }
+
+    return [];
+  }
+
+  private createLogRecord(
+    report: Report,
+    severity: SeverityLevel,
+    eventName: string,
+    attributes: Record<string, OTLPAttributeValue | null | undefined>
+  ): OTLPLogRecord {
+    return {
+      timeUnixNano: toUnixNano(report.occurredAt.absoluteTime),
+      observedTimeUnixNano: toUnixNano(report.createdAt.absoluteTime),
+      severityNumber: SEVERITY_NUMBERS[severity],
+      severityText: severity,
+      body: { stringValue: report.toString() },
+      attributes: toAttributes({
+        'event.name': `rumora.${eventName}`,
+        reportId: report.id,
+        ...attributes,
+      }),
+    };
+  }
+
+  // ===== TRACES =====
+
+  private createSpans(report: ExportableReport): OTLPSpan[] {
+    if (report instanceof ResourceTimingCollection) {
+      return report.reports.flatMap(resource => this.createSpans(resource));
+    }
+
+    if (report instanceof ResourceTimingReport) {
+      const serialized = report.toJSON();
+      return this.createSpanTree(report.id, `resource.${report.type}`, SPAN_KIND.CLIENT, {
+        start: report.occurredAt.absoluteTime,
+        end: report.endTime.absoluteTime,
+      }, {
+        reportId: report.id,
+        'url.full': report.name,
+        'server.address': report.domain,
+        resourceType: report.type,
+        transferSize: report.transferSize,
+        encodedSize: report.encodedSize,
+        decodedSize: report.decodedSize,
+        isThirdParty: report.isThirdParty,
+        primaryBottleneck: report.primaryBottleneck,
+      }, {
+        dns_lookup: serialized.dnsLookup,
+        tcp_connect: serialized.tcpConnect,
+        tls_handshake: serialized.tlsHandshake,
+        server_processing: serialized.serverProcessing,
+        content_download: serialized.contentDownload,
+      });
+    }
+
+    if (report instanceof NetworkTimingReport) {
+      const segments = {
+        redirects: report.redirects.toJSON(),
+        dns_lookup: report.dnsLookup.toJSON(),
+        tcp_connect: report.tcpConnect.toJSON(),
+        tls_handshake: report.tlsHandshake?.toJSON(),
+        server_processing: report.serverProcessing.toJSON(),
+        content_download: report.contentDownload.toJSON(),
+      };
+      return this.createSpanTree(report.id, 'navigation', SPAN_KIND.CLIENT, {
+        start: report.occurredAt.absoluteTime,
+        end: Math.max(report.occurredAt.absoluteTime, segments.content_download.end),
+      }, {
+        reportId: report.id,
+        transferSize: report.transferSize,
+        encodedSize: report.encodedSize,
+        decodedSize: report.decodedSize,
+        totalNetworkTime: report.totalNetworkTime,
+        primaryBottleneck: report.primaryBottleneck,
+      }, segments);
+    }
+
+    if (report instanceof LongTaskReport) {
+      const [attribution] = report.attribution ?? [];
+      return this.createSpanTree(report.id, 'longtask', SPAN_KIND.INTERNAL, {
+        start: report.occurredAt.absoluteTime,
+        end: report.endTime.absoluteTime,
+      }, {
+        reportId: report.id,
+        severity: report.severity,
+        containerType: attribution?.containerType,
+        containerName: attribution?.containerName,
+        containerSrc: attribution?.containerSrc,
+        containerId: attribution?.containerId,
+      }, {});
+    }
+
+    return [];
+  }
+
+  /**
+   * Creates a root span for the report and one child span per non-empty segment.
+   */
+  private createSpanTree(
+    reportId: string,
+    name: string,
+    kind: SpanKind,
+    timing: { start: number; end: number },
+    attributes: Record<string, OTLPAttributeValue | null | undefined>,
+    segments: Record<string, SerializedSegment | null | undefined>
+  ): OTLPSpan[] {
+    const traceId = toHexId(reportId, 32);
+    const root: OTLPSpan = {
+      traceId,
+      spanId: toHexId(reportId, 16),
+      name,
+      kind,
+      startTimeUnixNano: toUnixNano(timing.start),
+      endTimeUnixNano: toUnixNano(timing.end),
+      attributes: toAttributes(attributes),
+    };
+
+    const children = Object.entries(segments)
+      .filter((entry): entry is [string, SerializedSegment] => !!entry[1] && entry[1].duration > 0)
+      .map(([segmentName, segment]) => ({
+        traceId,
+        spanId: toHexId(`${reportId}:${segmentName}`, 16),
+        parentSpanId: root.spanId,
+        name: segmentName,
+        kind: SPAN_KIND.INTERNAL,
+        startTimeUnixNano: toUnixNano(segment.start),
+        endTimeUnixNano: toUnixNano(segment.end),
+        attributes: [] as OTLPKeyValue[],
+      }));
+
+    return [root, ...children];
+  }
+}
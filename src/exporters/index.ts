@@ -0,0 +1,22 @@
+export {
+  OTLPExporter,
+  OTLP_PATHS,
+  type ExportableReport,
+  type OTLPExporterOptions,
+  type OTLPExportRequests
+} from './OTLPExporter';
+export { toUnixNano, toHexId } from './OTLPEncoding';
+export {
+  AGGREGATION_TEMPORALITY,
+  SEVERITY_NUMBER,
+  SPAN_KIND,
+  type OTLPAnyValue,
+  type OTLPAttributeValue,
+  type OTLPKeyValue,
+  type OTLPMetric,
+  type OTLPLogRecord,
+  type OTLPSpan,
+  type OTLPExportMetricsServiceRequest,
+  type OTLPExportLogsServiceRequest,
+  type OTLPExportTraceServiceRequest
+} from '@/types/OTLP';
@@ -1,59 +1,161 @@
+// Client
+export * from '@/client';
+
 // Web Vitals
-export { LCP, observeLCP, resetLCP } from '@/metrics/web-vitals/LCP';
-export { FCP, observeFCP, resetFCP } from '@/metrics/web-vitals/FCP';
-export { CLS, observeCLS, resetCLS } from '@/metrics/web-vitals/CLS';
-export { FID, observeFID, resetFID } from '@/metrics/web-vitals/FID';
-export { INP, observeINP, resetINP } from '@/metrics/web-vitals/INP';
+export { LCP, observeLCP, resetLCP, type LCPOptions } from '@/metrics/web-vitals/LCP';
+export { FCP, observeFCP, resetFCP, type FCPOptions } from '@/metrics/web-vitals/FCP';
+export { CLS, observeCLS, resetCLS, type CLSOptions } from '@/metrics/web-vitals/CLS';
+export { FID, observeFID, resetFID, type FIDOptions } from '@/metrics/web-vitals/FID';
+export { INP, observeINP, resetINP, type INPOptions } from '@/metrics/web-vitals/INP';
+export { TTFB, observeTTFB, resetTTFB, type TTFBOptions } from '@/metrics/web-vitals/TTFB';
+export { 
+  PageLifecycle, 
+  SUPPRESSION_REASONS,
+  type SuppressionReason 
+} from '@/shared/PageLifecycle';
 
 // Performance Metrics
 export { 
   ResourceTiming, 
   observeResourceTiming, 
-  resetResourceTiming 
+  resetResourceTiming,
+  type ResourceTimingOptions,
+  DEFAULT_IGNORED_RESOURCES 
 } from '@/metrics/performance/ResourceTiming';
 export { 
   NetworkTiming, 
   observeNetworkTiming, 
-  resetNetworkTiming 
+  resetNetworkTiming,
+  type NetworkTimingOptions 
 } from '@/metrics/performance/NetworkTiming';
 export { 
   DOMTiming, 
   observeDOMTiming, 
-  resetDOMTiming 
+  resetDOMTiming,
+  type DOMTimingOptions 
 } from '@/metrics/performance/DOMTiming';
 export { 
   LongTask, 
   observeLongTask, 
-  resetLongTask 
+  resetLongTask,
+  type LongTaskOptions 
 } from '@/metrics/performance/LongTask';
+export { 
+  TotalBlockingTime, 
+  observeTotalBlockingTime, 
+  resetTotalBlockingTime,
+  type TotalBlockingTimeOptions 
+} from '@/metrics/performance/TotalBlockingTime';
+export { 
+  LongAnimationFrame, 
+  observeLongAnimationFrame, 
+  resetLongAnimationFrame,
+  type LongAnimationFrameOptions 
+} from '@/metrics/performance/LongAnimationFrame';
+export { 
+  UserTiming, 
+  observeUserTiming, 
+  resetUserTiming,
+  type UserTimingOptions 
+} from '@/metrics/performance/UserTiming';
+export { 
+  Memory, 
+  observeMemory, 
+  resetMemory,
+  type MemoryOptions 
+} from '@/metrics/performance/Memory';
+export { 
+  BackForwardCache, 
+  observeBackForwardCache, 
+  resetBackForwardCache,
+  type BackForwardCacheOptions 
+} from '@/metrics/performance/BackForwardCache';
+export { 
+  ConnectionQuality, 
+  observeConnectionQuality, 
+  resetConnectionQuality,
+  type ConnectionQualityOptions 
+} from '@/metrics/performance/ConnectionQuality';
 export { 
   ElementTiming, 
   observeElementTiming, 
-  resetElementTiming 
+  resetElementTiming,
+  type ElementTimingOptions 
 } from '@/metrics/performance/ElementTiming';
+export { 
+  SoftNavigation, 
+  observeSoftNavigation, 
+  resetSoftNavigation,
+  type RouteView,
+  type SoftNavigationAware,
+  type SoftNavigationOptions 
+} from '@/metrics/performance/SoftNavigation';
 
 // Error Metrics
 export { 
   UnhandledJavaScriptErrorObserver, 
   observeUnhandledJavaScriptError,
-  resetUnhandledJavaScriptError
+  resetUnhandledJavaScriptError,
+  type UnhandledJavaScriptErrorObserverOptions
 } from '@/metrics/errors/UnhandledJavaScriptErrorObserver';
 export { 
   UnhandledPromiseRejectionObserver, 
   observeUnhandledPromiseRejection,
-  resetUnhandledPromiseRejection
+  resetUnhandledPromiseRejection,
+  type UnhandledPromiseRejectionObserverOptions
 } from '@/metrics/errors/UnhandledPromiseRejectionObserver';
 export { 
   ResourceErrorObserver, 
   observeResourceError,
-  resetResourceError
+  resetResourceError,
+  type ResourceErrorObserverOptions
 } from '@/metrics/errors/ResourceErrorObserver';
 export { 
   CSPViolationObserver, 
   observeCSPViolation,
-  resetCSPViolation
+  resetCSPViolation,
+  type CSPViolationObserverOptions
 } from '@/metrics/errors/CSPViolationObserver';
 
+// Origin Classification
+export {
+  OriginClassifier,
+  type FirstPartyPattern,
+  type OriginClassification,
+  type OriginClassifierOptions
+} from '@/shared/OriginClassifier';
+export { registrableDomain } from '@/shared/registrableDomain';
+export {
+  VENDOR_CATALOG,
+  VENDOR_CATEGORIES,
+  type Vendor,
+  type VendorCategory
+} from '@/shared/vendorCatalog';
+
+// Transport
+export {
+  BeaconTransport,
+  BEACON_PAYLOAD_LIMIT,
+  type BeaconTransportOptions,
+  type ReportSource,
+  type SerializableReport,
+  type TransportFlushResult,
+  PersistentQueue,
+  type PersistentQueueOptions,
+  type QueueReplayResult,
+  type QueueStorage,
+  type StoredReport,
+  InMemoryQueueStorage,
+  IndexedDBQueueStorage,
+  isIndexedDBAvailable
+} from '@/transport';
+
+// Pipeline
+export * from '@/pipeline';
+
+// Exporters
+export * from '@/exporters';
+
 // Exceptions
 export { RumoraException } from '@/exceptions/RumoraException';
 export {
@@ -68,7 +170,8 @@ export {
 export {
   UnsupportedException,
   UnsupportedMetricException,
-  UnsupportedPerformanceAPIException
+  UnsupportedPerformanceAPIException,
+  UnsupportedTransportException
 } from '@/exceptions/UnsupportedExceptions';
 export {
   PerformanceObserverException,
@@ -78,6 +181,30 @@ export {
   EventObserverException,
   EventObserverHandlerException,
 } from '@/exceptions/EventObserverExceptions';
+export {
+  TransportException,
+  TransportFlushException,
+  TransportResponseException,
+  PayloadTooLargeException,
+  QueueStorageException
+} from '@/exceptions/TransportExceptions';
+export {
+  ClientException,
+  EnricherException
+} from '@/exceptions/ClientExceptions';
+export {
+  PipelineException,
+  MiddlewareException,
+  ReportSerializationException
+} from '@/exceptions/PipelineExceptions';
+export {
+  SerializationException,
+  InvalidPayloadException,
+  InvalidFieldException,
+  ReportKindMismatchException,
+  UnknownReportKindException,
+  UnsupportedSchemaVersionException
+} from '@/exceptions/SerializationExceptions';
 
 // Reports
 export * from '@/reports';
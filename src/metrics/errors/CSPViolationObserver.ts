@@ -1,6 +1,9 @@
 import { generateId } from '@/shared/generateId';
 import { CSPViolationErrorReport } from '@/reports/errors/CSPViolationErrorReport';
 import { WindowEventObserver } from '@/shared/WindowEventObserver';
+import type { WindowEventObserverOptions } from '@/shared/WindowEventObserver';
+
+export type CSPViolationObserverOptions = WindowEventObserverOptions<'securitypolicyviolation'>;
 
 /**
  * Observer for capturing Content Security Policy (CSP) violation errors.
@@ -10,15 +13,15 @@ import { WindowEventObserver } from '@/shared/WindowEventObserver';
 export class CSPViolationObserver extends WindowEventObserver<'securitypolicyviolation', CSPViolationErrorReport> {
   private static instance: CSPViolationObserver | null = null;
 
-  private constructor() {
-    super('securitypolicyviolation');
+  constructor(options: CSPViolationObserverOptions = {}) {
+    super('securitypolicyviolation', options);
   }
 
   /**
    * Get the singleton instance of the CSP Violation observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeCSPViolation() factory function instead.
+   * **Note:** Use observeCSPViolation() instead, or `new CSPViolationObserver(options)` for an independent instance.
    *
    * @returns Singleton instance of the CSP Violation observer.
    */
@@ -1,6 +1,9 @@
 import { generateId } from '@/shared/generateId';
 import { ResourceErrorReport } from '@/reports/errors/ResourceErrorReport';
 import { WindowEventObserver } from '@/shared/WindowEventObserver';
+import type { WindowEventObserverOptions } from '@/shared/WindowEventObserver';
+
+export type ResourceErrorObserverOptions = WindowEventObserverOptions<'error'>;
 
 /**
  * Observer for capturing resource loading errors.
@@ -11,15 +14,15 @@ import { WindowEventObserver } from '@/shared/WindowEventObserver';
 export class ResourceErrorObserver extends WindowEventObserver<'error', ResourceErrorReport> {
   private static instance: ResourceErrorObserver | null = null;
 
-  private constructor() {
-    super('error');
+  constructor(options: ResourceErrorObserverOptions = {}) {
+    super('error', options);
   }
 
   /**
    * Get the singleton instance of the Resource Error observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeResourceError() factory function instead.
+   * **Note:** Use observeResourceError() instead, or `new ResourceErrorObserver(options)` for an independent instance.
    *
    * @returns Singleton instance of the Resource Error observer.
    */
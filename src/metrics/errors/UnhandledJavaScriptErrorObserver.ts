@@ -1,6 +1,9 @@
 import { generateId } from '@/shared/generateId';
 import { UnhandledJavaScriptErrorReport } from '@/reports/errors/UnhandledJavaScriptErrorReport';
 import { WindowEventObserver } from '@/shared/WindowEventObserver';
+import type { WindowEventObserverOptions } from '@/shared/WindowEventObserver';
+
+export type UnhandledJavaScriptErrorObserverOptions = WindowEventObserverOptions<'error'>;
 
 /**
  * Observer for capturing unhandled JavaScript errors.
@@ -12,15 +15,15 @@ import { WindowEventObserver } from '@/shared/WindowEventObserver';
 export class UnhandledJavaScriptErrorObserver extends WindowEventObserver<'error', UnhandledJavaScriptErrorReport> {
   private static instance: UnhandledJavaScriptErrorObserver | null = null;
 
-  private constructor() {
-    super('error');
+  constructor(options: UnhandledJavaScriptErrorObserverOptions = {}) {
+    super('error', options);
   }
 
   /**
    * Get the singleton instance of the Unhandled JavaScript Error observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeUnhandledJavaScriptError() factory function instead.
+   * **Note:** Use observeUnhandledJavaScriptError() instead, or `new UnhandledJavaScriptErrorObserver(options)` for an independent instance.
    *
    * @returns Singleton instance of the Unhandled JavaScript Error observer.
    */
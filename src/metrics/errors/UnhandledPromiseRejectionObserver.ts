@@ -1,6 +1,9 @@
 import { generateId } from '@/shared/generateId';
 import { UnhandledPromiseRejectionReport } from '@/reports/errors/UnhandledPromiseRejectionReport';
 import { WindowEventObserver } from '@/shared/WindowEventObserver';
+import type { WindowEventObserverOptions } from '@/shared/WindowEventObserver';
+
+export type UnhandledPromiseRejectionObserverOptions = WindowEventObserverOptions<'unhandledrejection'>;
 
 /**
  * Observer for capturing unhandled promise rejections.
@@ -11,15 +14,15 @@ import { WindowEventObserver } from '@/shared/WindowEventObserver';
 export class UnhandledPromiseRejectionObserver extends WindowEventObserver<'unhandledrejection', UnhandledPromiseRejectionReport> {
   private static instance: UnhandledPromiseRejectionObserver | null = null;
 
-  private constructor() {
-    super('unhandledrejection');
+  constructor(options: UnhandledPromiseRejectionObserverOptions = {}) {
+    super('unhandledrejection', options);
   }
 
   /**
    * Get the singleton instance of the Unhandled Promise Rejection observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeUnhandledPromiseRejection() factory function instead.
+   * **Note:** Use observeUnhandledPromiseRejection() instead, or `new UnhandledPromiseRejectionObserver(options)` for an independent instance.
    *
    * @returns Singleton instance of the Unhandled Promise Rejection observer.
    */
@@ -1,20 +1,24 @@
 export {
   UnhandledJavaScriptErrorObserver,
   observeUnhandledJavaScriptError,
-  resetUnhandledJavaScriptError
+  resetUnhandledJavaScriptError,
+  type UnhandledJavaScriptErrorObserverOptions
 } from './UnhandledJavaScriptErrorObserver';
 export {
   UnhandledPromiseRejectionObserver,
   observeUnhandledPromiseRejection,
-  resetUnhandledPromiseRejection
+  resetUnhandledPromiseRejection,
+  type UnhandledPromiseRejectionObserverOptions
 } from './UnhandledPromiseRejectionObserver';
 export {
   ResourceErrorObserver,
   observeResourceError,
-  resetResourceError
+  resetResourceError,
+  type ResourceErrorObserverOptions
 } from './ResourceErrorObserver';
 export {
   CSPViolationObserver,
   observeCSPViolation,
-  resetCSPViolation
+  resetCSPViolation,
+  type CSPViolationObserverOptions
 } from './CSPViolationObserver';
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { PerformanceNavigationTimingMother } from '@/test/mothers/PerformanceNavigationTimingMother';
+import { BackForwardCacheReportMothers } from '@/test/mothers/BackForwardCacheReportMothers';
+import type { BackForwardCacheReport } from '@/reports/performance/BackForwardCacheReport';
+import type { NotRestoredReasons } from '@/types/PerformanceEntryTypes';
+
+import { BackForwardCache, observeBackForwardCache, resetBackForwardCache } from './BackForwardCache';
+
+const navigationEntry = (type: NavigationTimingType, notRestoredReasons: NotRestoredReasons | null) => ({
+  ...PerformanceNavigationTimingMother.custom({ type }),
+  notRestoredReasons,
+});
+
+const restoreFromBFCache = (persisted = true) => {
+  window.dispatchEvent(new PageTransitionEvent('pageshow', { persisted }));
+};
+
+describe('BackForwardCache', () => {
+  const observers: BackForwardCache[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof BackForwardCache>) => {
+    const observer = new BackForwardCache(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetBackForwardCache();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should share a single instance through observeBackForwardCache', () => {
+    // Then
+    expect(observeBackForwardCache()).toBe(observeBackForwardCache());
+    expect(createObserver()).not.toBe(observeBackForwardCache());
+  });
+
+  it('should report why a back/forward navigation was not restored', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('navigation', [
+      navigationEntry('back_forward', BackForwardCacheReportMothers.notRestoredReasons()),
+    ]);
+
+    // Then
+    const report: BackForwardCacheReport = onSuccess.mock.calls[0][0];
+    expect(report.isRestored).toBe(false);
+    expect(report.reasons).toEqual(['unload-listener', 'websocket']);
+    expect(performanceObserverHelper.observedEntryTypes()).toEqual([]);
+  });
+
+  it('should not report navigations without not restored reasons', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('navigation', [
+      navigationEntry('navigate', BackForwardCacheReportMothers.notRestoredReasons()),
+      navigationEntry('back_forward', null),
+    ]);
+
+    // Then
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should report every restore from the back/forward cache', () => {
+    // Given
+    const onSuccess = vi.fn();
+    const observer = createObserver().onSuccess(onSuccess);
+    performanceObserverHelper.emit('navigation', [navigationEntry('navigate', null)]);
+    vi.mocked(performance.now).mockReturnValue(5000);
+
+    // When
+    restoreFromBFCache(false);
+    restoreFromBFCache();
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    const report: BackForwardCacheReport = onSuccess.mock.calls[0][0];
+    expect(report.isRestored).toBe(true);
+    expect(report.occurredAt.relativeTime).toBe(5000);
+    expect(observer.isRestored).toBe(true);
+    expect(observer.restoredAt).toBe(report.occurredAt);
+  });
+
+  it('should stop listening for restores on dispose', () => {
+    // Given
+    const onSuccess = vi.fn();
+    const observer = createObserver().onSuccess(onSuccess);
+
+    // When
+    observer.dispose();
+    restoreFromBFCache();
+
+    // Then
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(observer.isRestored).toBe(false);
+  });
+});
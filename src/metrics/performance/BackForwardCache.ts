@@ -0,0 +1,103 @@
+import { BackForwardCacheReport } from '@/reports/performance/BackForwardCacheReport';
+import { generateId } from '@/shared/generateId';
+import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export type BackForwardCacheOptions = PerformanceMetricObserverOptions<PerformanceNavigationTimingEntry>;
+
+/**
+ * Observer for the back/forward cache (bfcache) outcome of the page.
+ *
+ * Emits a BackForwardCacheReport every time the page is restored from the
+ * bfcache, and once for back/forward navigations that could not use it when
+ * the navigation entry provides notRestoredReasons.
+ *
+ * FCP, LCP, CLS and INP start a new measurement from the restore time on their
+ * own. Metrics of the document load (TTFB, FID, network and DOM timing) have
+ * no equivalent for a restored page: its restore report stands for them.
+ */
+export class BackForwardCache extends PerformanceMetricObserver<BackForwardCacheReport, PerformanceNavigationTimingEntry> {
+  private static instance: BackForwardCache | null = null;
+  private lastRestoredAt: PerformanceTime | null = null;
+
+  constructor(options: BackForwardCacheOptions = {}) {
+    super('navigation', {}, options);
+  }
+
+  /**
+   * Get the singleton instance of the Back/Forward Cache observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeBackForwardCache() instead, or `new BackForwardCache(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the Back/Forward Cache observer.
+   */
+  public static getInstance(): BackForwardCache {
+    if (!BackForwardCache.instance) {
+      BackForwardCache.instance = new BackForwardCache();
+    }
+    return BackForwardCache.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the Back/Forward Cache observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    BackForwardCache.getInstance()?.dispose();
+    BackForwardCache.instance = null;
+  }
+
+  /**
+   * When the current page view was restored from the bfcache, null when it was loaded.
+   */
+  public get restoredAt(): PerformanceTime | null {
+    return this.lastRestoredAt;
+  }
+
+  /**
+   * Whether the current page view was restored from the bfcache.
+   */
+  public get isRestored(): boolean {
+    return this.lastRestoredAt !== null;
+  }
+
+  public override dispose(): void {
+    super.dispose();
+    this.lastRestoredAt = null;
+  }
+
+  protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
+    const entries = entryList.getEntries() as PerformanceNavigationTimingEntry[];
+    for (const entry of entries) {
+      if (entry.type !== 'back_forward' || !entry.notRestoredReasons) continue;
+
+      const report = BackForwardCacheReport.fromNotRestoredReasons(
+        generateId(),
+        PerformanceTime.fromRelativeTime(entry.startTime),
+        entry.notRestoredReasons
+      );
+      this.notifySuccess(report);
+    }
+    // The navigation entry is delivered once, restores are detected through pageshow
+    this.stop();
+  }
+
+  protected override onBFCacheRestore(restoredAt: PerformanceTime): void {
+    this.lastRestoredAt = restoredAt;
+    this.notifySuccess(BackForwardCacheReport.fromRestore(generateId(), restoredAt));
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the Back/Forward Cache observer.
+ */
+export const observeBackForwardCache = () => BackForwardCache.getInstance();
+
+/**
+ * Reset the singleton instance of the Back/Forward Cache observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetBackForwardCache = () => BackForwardCache.resetInstance();
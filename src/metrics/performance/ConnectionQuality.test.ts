@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { ConnectionQualityReportMothers } from '@/test/mothers/ConnectionQualityReportMothers';
+import { PerformanceResourceTimingMother } from '@/test/mothers/PerformanceResourceTimingMother';
+import type { ConnectionQualityReport } from '@/reports/performance/ConnectionQualityReport';
+import type { NetworkInformation } from '@/types/PerformanceEntryTypes';
+
+import { ConnectionQuality, observeConnectionQuality, resetConnectionQuality } from './ConnectionQuality';
+
+const givenConnection = (connection: NetworkInformation | undefined) => {
+  Object.defineProperty(navigator, 'connection', { value: connection, configurable: true });
+};
+
+const givenOnline = (online: boolean) => {
+  vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+};
+
+/** 500KB downloaded in 175ms: ~22.9Mbps */
+const largeFastDownload = () => PerformanceResourceTimingMother.withCustomValues({ transferSize: 500_000 });
+
+/** 45KB downloaded in 175ms: ~2.1Mbps */
+const moderateDownload = () => PerformanceResourceTimingMother.fastScript();
+
+const qualities = (onSuccess: ReturnType<typeof vi.fn>) => (
+  onSuccess.mock.calls.map(([report]) => (report as ConnectionQualityReport).quality)
+);
+
+describe('ConnectionQuality', () => {
+  const observers: ConnectionQuality[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof ConnectionQuality>) => {
+    const observer = new ConnectionQuality(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+    windowLocationHelper.mock();
+    givenOnline(true);
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetConnectionQuality();
+    givenConnection(undefined);
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+    windowLocationHelper.unmock();
+    vi.restoreAllMocks();
+  });
+
+  it('should share a single instance through observeConnectionQuality', () => {
+    // Then
+    expect(observeConnectionQuality()).toBe(observeConnectionQuality());
+    expect(createObserver()).not.toBe(observeConnectionQuality());
+  });
+
+  it('should report the Network Information signals when the first subscriber arrives', () => {
+    // Given
+    givenConnection(ConnectionQualityReportMothers.networkInformation({ effectiveType: '3g', rtt: 300, downlink: 1.5 }));
+    const onSuccess = vi.fn();
+
+    // When
+    createObserver().onSuccess(onSuccess);
+
+    // Then
+    const report: ConnectionQualityReport = onSuccess.mock.calls[0][0];
+    expect(report.quality).toBe('moderate');
+    expect(report.effectiveType).toBe('3g');
+    expect(report.rtt).toBe(300);
+    expect(report.measuredThroughput).toBeNull();
+  });
+
+  it('should estimate the throughput from large resources only', () => {
+    // Given
+    givenConnection(undefined);
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('resource', [
+      largeFastDownload(),
+      PerformanceResourceTimingMother.withCustomValues({ transferSize: 2_000 }),
+    ]);
+
+    // Then
+    const report: ConnectionQualityReport = onSuccess.mock.calls[1][0];
+    expect(report.quality).toBe('fast');
+    expect(report.sampleCount).toBe(1);
+    expect(report.measuredThroughput).toBeCloseTo(22.857, 3);
+  });
+
+  it('should only notify when the quality class changes', () => {
+    // Given
+    givenConnection(undefined);
+    const onSuccess = vi.fn();
+    createObserver({ sampleSize: 3 }).onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('resource', [largeFastDownload()]);
+    performanceObserverHelper.emit('resource', [largeFastDownload()]);
+    performanceObserverHelper.emit('resource', [moderateDownload(), moderateDownload()]);
+
+    // Then
+    expect(qualities(onSuccess)).toEqual(['moderate', 'fast', 'moderate']);
+  });
+
+  it('should update on connection change and online/offline events until disposed', () => {
+    // Given
+    const connection = ConnectionQualityReportMothers.networkInformation();
+    givenConnection(connection);
+    const onSuccess = vi.fn();
+    const observer = createObserver().onSuccess(onSuccess);
+
+    // When
+    Object.assign(connection, { effectiveType: '2g', rtt: 1200, downlink: 0.2 });
+    connection.dispatchEvent(new Event('change'));
+    givenOnline(false);
+    window.dispatchEvent(new Event('offline'));
+    observer.dispose();
+    givenOnline(true);
+    window.dispatchEvent(new Event('online'));
+
+    // Then
+    expect(qualities(onSuccess)).toEqual(['fast', 'slow', 'offline']);
+  });
+
+  it('should keep following connection events where Resource Timing is unsupported', () => {
+    // Given
+    performanceObserverHelper.mock({ supportedEntryTypes: [] });
+    givenConnection(ConnectionQualityReportMothers.networkInformation());
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+
+    // When
+    createObserver().onSuccess(onSuccess).onError(onError);
+    givenOnline(false);
+    window.dispatchEvent(new Event('offline'));
+
+    // Then
+    expect(qualities(onSuccess)).toEqual(['fast', 'offline']);
+  });
+});
@@ -0,0 +1,170 @@
+import { ConnectionQualityReport } from '@/reports/performance/ConnectionQualityReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { generateId } from '@/shared/generateId';
+import { isSSR } from '@/shared/isSSR';
+import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import type { NavigatorWithConnection, NetworkInformation } from '@/types/PerformanceEntryTypes';
+
+export interface ConnectionQualityOptions extends PerformanceMetricObserverOptions<PerformanceResourceTiming> {
+  /** Number of recent resources the throughput is estimated from (default: 20) */
+  sampleSize?: number;
+  /** Minimum transfer size in bytes for a resource to be a throughput sample (default: 10KB) */
+  minTransferSize?: number;
+}
+
+export const DEFAULT_THROUGHPUT_SAMPLE_SIZE = 20;
+export const DEFAULT_MIN_TRANSFER_SIZE = 10 * 1024;
+
+const median = (values: readonly number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle];
+};
+
+/**
+ * Observer for the quality of the network connection.
+ *
+ * Combines navigator.connection (effective type, RTT, downlink and data saving)
+ * with the median download throughput of the resources loaded by the page.
+ * Small resources are ignored as their download time is dominated by latency.
+ *
+ * A report is emitted when the first subscriber arrives and then every time
+ * the quality class or the data saving preference changes: on connection
+ * change events, online/offline events and new resource measurements.
+ */
+export class ConnectionQuality extends PerformanceMetricObserver<ConnectionQualityReport, PerformanceResourceTiming> {
+  private static instance: ConnectionQuality | null = null;
+
+  private readonly sampleSize: number;
+  private readonly minTransferSize: number;
+  private throughputSamples: number[] = [];
+  private lastReport: ConnectionQualityReport | null = null;
+  private isWatching = false;
+  private readonly boundHandleConnectionChange: () => void;
+
+  constructor(options: ConnectionQualityOptions = {}) {
+    super('resource', {}, options);
+    this.sampleSize = options.sampleSize ?? DEFAULT_THROUGHPUT_SAMPLE_SIZE;
+    this.minTransferSize = options.minTransferSize ?? DEFAULT_MIN_TRANSFER_SIZE;
+    this.boundHandleConnectionChange = this.handleConnectionChange.bind(this);
+  }
+
+  /**
+   * Get the singleton instance of the Connection Quality observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeConnectionQuality() instead, or `new ConnectionQuality(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the Connection Quality observer.
+   */
+  public static getInstance(): ConnectionQuality {
+    if (!ConnectionQuality.instance) {
+      ConnectionQuality.instance = new ConnectionQuality();
+    }
+    return ConnectionQuality.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the Connection Quality observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    ConnectionQuality.getInstance()?.dispose();
+    ConnectionQuality.instance = null;
+  }
+
+  public override dispose(): void {
+    super.dispose();
+    if (this.isWatching) {
+      this.connection()?.removeEventListener('change', this.boundHandleConnectionChange);
+      window.removeEventListener('online', this.boundHandleConnectionChange);
+      window.removeEventListener('offline', this.boundHandleConnectionChange);
+    }
+    this.isWatching = false;
+    this.throughputSamples = [];
+    this.lastReport = null;
+  }
+
+  /**
+   * Starts observing resources and, even where Resource Timing is not
+   * supported, the connection events.
+   */
+  protected override onSubscribe(): void {
+    super.onSubscribe();
+    if (this.isWatching || isSSR()) return;
+
+    this.isWatching = true;
+    this.connection()?.addEventListener('change', this.boundHandleConnectionChange);
+    window.addEventListener('online', this.boundHandleConnectionChange);
+    window.addEventListener('offline', this.boundHandleConnectionChange);
+    this.handleConnectionChange();
+  }
+
+  /**
+   * Adds the download throughput of the new resources to the samples.
+   */
+  protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
+    const entries = entryList.getEntries() as PerformanceResourceTiming[];
+
+    for (const entry of entries) {
+      const report = ResourceTimingReport.fromPerformanceResourceTiming(generateId(), entry);
+      const throughput = report.downloadThroughput;
+      if (throughput === null || report.transferSize < this.minTransferSize) continue;
+      this.throughputSamples.push(throughput);
+    }
+
+    this.throughputSamples = this.throughputSamples.slice(-this.sampleSize);
+    this.update();
+  }
+
+  private handleConnectionChange(): void {
+    try {
+      this.update();
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+    }
+  }
+
+  /**
+   * Notifies a new report when the quality class or the data saving preference changed.
+   */
+  private update(): void {
+    const connection = this.connection();
+    const report = ConnectionQualityReport.fromSignals(generateId(), {
+      online: navigator.onLine,
+      effectiveType: connection?.effectiveType ?? null,
+      rtt: connection?.rtt ?? null,
+      downlink: connection?.downlink ?? null,
+      saveData: connection?.saveData ?? false,
+      measuredThroughput: median(this.throughputSamples),
+      sampleCount: this.throughputSamples.length,
+    });
+
+    const previous = this.lastReport;
+    if (previous && previous.quality === report.quality && previous.saveData === report.saveData) return;
+
+    this.lastReport = report;
+    this.notifySuccess(report);
+  }
+
+  private connection(): NetworkInformation | null {
+    return (navigator as NavigatorWithConnection).connection ?? null;
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the Connection Quality observer.
+ */
+export const observeConnectionQuality = () => ConnectionQuality.getInstance();
+
+/**
+ * Reset the singleton instance of the Connection Quality observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetConnectionQuality = () => ConnectionQuality.resetInstance();
@@ -1,6 +1,9 @@
 import { DOMTimingReport } from '@/reports/performance/DOMTimingReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+
+export type DOMTimingOptions = PerformanceMetricObserverOptions<PerformanceNavigationTiming>;
 
 /**
  * Observer for capturing DOM timing metrics using PerformanceNavigationTiming.
@@ -10,18 +13,18 @@ import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
  * **Single Event**: This observer automatically stops after emitting the first DOM timing report.
  * Use dispose() only for cleanup if needed before the event occurs.
  */
-export class DOMTiming extends PerformanceMetricObserver<DOMTimingReport> {
+export class DOMTiming extends PerformanceMetricObserver<DOMTimingReport, PerformanceNavigationTiming> {
   private static instance: DOMTiming | null = null;
 
-  private constructor() {
-    super('navigation');
+  constructor(options: DOMTimingOptions = {}) {
+    super('navigation', {}, options);
   }
 
   /**
    * Get the singleton instance of the DOM Timing observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeDOMTiming() factory function instead.
+   * **Note:** Use observeDOMTiming() instead, or `new DOMTiming(options)` for an independent instance.
    *
    * @returns Singleton instance of the DOM Timing observer.
    */
@@ -1,8 +1,11 @@
 import { ElementTimingReport } from '@/reports/performance/ElementTimingReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
 import type { PerformanceElementTiming } from '@/types/PerformanceEntryTypes';
 
+export type ElementTimingOptions = PerformanceMetricObserverOptions<PerformanceElementTiming>;
+
 /**
  * Observer for Element Timing performance entries.
  * 
@@ -13,21 +16,18 @@ import type { PerformanceElementTiming } from '@/types/PerformanceEntryTypes';
  * Usage: Add elementtiming="identifier" to elements you want to track.
  * Example: <img src="hero.jpg" elementtiming="hero-image" />
  */
-export class ElementTiming extends PerformanceMetricObserver<ElementTimingReport> {
+export class ElementTiming extends PerformanceMetricObserver<ElementTimingReport, PerformanceElementTiming> {
   private static instance: ElementTiming | null = null;
 
-  private constructor() {
-    super('element', {
-      type: 'element',
-      buffered: true
-    });
+  constructor(options: ElementTimingOptions = {}) {
+    super('element', {}, options);
   }
 
   /**
    * Get the singleton instance of the Element Timing observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeElementTiming() factory function instead.
+   * **Note:** Use observeElementTiming() instead, or `new ElementTiming(options)` for an independent instance.
    *
    * @returns Singleton instance of the Element Timing observer.
    */
@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { LongAnimationFrameReportMothers } from '@/test/mothers/LongAnimationFrameReportMothers';
+import { UnsupportedMetricException } from '@/exceptions/UnsupportedExceptions';
+import type { LongAnimationFrameCollection } from '@/reports/performance/LongAnimationFrameCollection';
+
+import { LongAnimationFrame, observeLongAnimationFrame, resetLongAnimationFrame } from './LongAnimationFrame';
+
+describe('LongAnimationFrame', () => {
+  const observers: LongAnimationFrame[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof LongAnimationFrame>) => {
+    const observer = new LongAnimationFrame(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetLongAnimationFrame();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should share a single instance through observeLongAnimationFrame', () => {
+    // Then
+    expect(observeLongAnimationFrame()).toBe(observeLongAnimationFrame());
+    expect(createObserver()).not.toBe(observeLongAnimationFrame());
+  });
+
+  it('should emit every frame observed so far', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('long-animation-frame', [LongAnimationFrameReportMothers.entry()]);
+    performanceObserverHelper.emit('long-animation-frame', [
+      LongAnimationFrameReportMothers.entry({ startTime: 3000, blockingDuration: 150 }),
+    ]);
+
+    // Then
+    const collections: LongAnimationFrameCollection[] = onSuccess.mock.calls.map(([collection]) => collection);
+    expect(collections.map(collection => collection.totalReports)).toEqual([1, 2]);
+    expect(collections[1].totalBlockingDuration).toBe(220);
+    expect(collections[1].worstFrame?.occurredAt.relativeTime).toBe(3000);
+  });
+
+  it('should skip frames rejected by the entry filter', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver({ entryFilter: entry => entry.blockingDuration > 100 }).onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('long-animation-frame', [LongAnimationFrameReportMothers.entry()]);
+
+    // Then
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should notify an UnsupportedMetricException outside Chromium', () => {
+    // Given
+    performanceObserverHelper.unmock();
+    performanceObserverHelper.mock({ supportedEntryTypes: ['longtask'] });
+    const onError = vi.fn();
+
+    // When
+    createObserver().onError(onError).onSuccess(vi.fn());
+
+    // Then
+    expect(onError).toHaveBeenCalledWith(expect.any(UnsupportedMetricException));
+  });
+});
@@ -0,0 +1,95 @@
+import { LongAnimationFrameCollection } from '@/reports/performance/LongAnimationFrameCollection';
+import { LongAnimationFrameReport } from '@/reports/performance/LongAnimationFrameReport';
+import { generateId } from '@/shared/generateId';
+import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceLongAnimationFrameTimingEntry } from '@/types/PerformanceEntryTypes';
+
+export type LongAnimationFrameOptions = PerformanceMetricObserverOptions<PerformanceLongAnimationFrameTimingEntry>;
+
+/**
+ * Observer for Long Animation Frames (LoAF) performance entries.
+ *
+ * A long animation frame is a frame that took 50ms or more to render. Unlike
+ * long tasks, each frame lists the scripts that ran in it (source URL, function,
+ * invoker and forced style/layout time), so blocking time can be attributed to
+ * scripts and third-party origins. Currently supported by Chromium only.
+ *
+ * **Cumulative Pattern**: Each emission contains every long animation frame
+ * recorded since observer initialization. Use dispose() to free memory
+ * when monitoring is complete.
+ */
+export class LongAnimationFrame extends PerformanceMetricObserver<
+  LongAnimationFrameCollection,
+  PerformanceLongAnimationFrameTimingEntry
+> {
+  private static instance: LongAnimationFrame | null = null;
+  private reports: LongAnimationFrameReport[] = [];
+
+  constructor(options: LongAnimationFrameOptions = {}) {
+    super('long-animation-frame', {}, options);
+  }
+
+  /**
+   * Get the singleton instance of the Long Animation Frame observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeLongAnimationFrame() instead, or `new LongAnimationFrame(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the Long Animation Frame observer.
+   */
+  public static getInstance(): LongAnimationFrame {
+    if (!LongAnimationFrame.instance) {
+      LongAnimationFrame.instance = new LongAnimationFrame();
+    }
+    return LongAnimationFrame.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the Long Animation Frame observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    LongAnimationFrame.getInstance()?.dispose();
+    LongAnimationFrame.instance = null;
+  }
+
+  public override dispose(): void {
+    super.dispose();
+    this.reports = [];
+  }
+
+  /**
+   * Creates a LongAnimationFrameReport for each entry and notifies the updated collection.
+   */
+  protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
+    const entries = entryList.getEntries() as PerformanceLongAnimationFrameTimingEntry[];
+    const frames = entries.filter(entry => entry.entryType === 'long-animation-frame');
+    if (frames.length === 0) return;
+
+    for (const entry of frames) {
+      const report = LongAnimationFrameReport.fromPerformanceLongAnimationFrameTimingEntry(
+        generateId(),
+        entry
+      );
+      this.reports.push(report);
+    }
+
+    const collection = LongAnimationFrameCollection.fromLongAnimationFrameReports(
+      generateId(),
+      this.reports
+    );
+    this.notifySuccess(collection);
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the Long Animation Frame observer.
+ */
+export const observeLongAnimationFrame = () => LongAnimationFrame.getInstance();
+
+/**
+ * Reset the singleton instance of the Long Animation Frame observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetLongAnimationFrame = () => LongAnimationFrame.resetInstance();
@@ -1,25 +1,28 @@
 import { LongTaskReport } from '@/reports/performance/LongTaskReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
 import type { PerformanceLongTaskTimingEntry } from '@/types/PerformanceEntryTypes';
 
+export type LongTaskOptions = PerformanceMetricObserverOptions<PerformanceLongTaskTimingEntry>;
+
 /**
  * Observer for capturing long task performance metrics using PerformanceLongTaskTiming.
  * Long tasks are tasks that block the main thread for 50ms or more,
  * potentially causing poor user experience by delaying user interactions.
  */
-export class LongTask extends PerformanceMetricObserver<LongTaskReport> {
+export class LongTask extends PerformanceMetricObserver<LongTaskReport, PerformanceLongTaskTimingEntry> {
   private static instance: LongTask | null = null;
 
-  private constructor() {
-    super('longtask');
+  constructor(options: LongTaskOptions = {}) {
+    super('longtask', {}, options);
   }
 
   /**
    * Get the singleton instance of the Long Task observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeLongTask() factory function instead.
+   * **Note:** Use observeLongTask() instead, or `new LongTask(options)` for an independent instance.
    *
    * @returns Singleton instance of the Long Task observer.
    */
@@ -0,0 +1,148 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { MemoryReportMothers } from '@/test/mothers/MemoryReportMothers';
+import { UnsupportedMetricException } from '@/exceptions/UnsupportedExceptions';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import type { MemoryReport } from '@/reports/performance/MemoryReport';
+import type { MemoryMeasurement, PerformanceMemoryInfo } from '@/types/PerformanceEntryTypes';
+
+import { Memory, observeMemory, resetMemory } from './Memory';
+
+const INTERVAL = 1000;
+
+const givenPerformanceMemory = (memory: PerformanceMemoryInfo) => {
+  Object.assign(performance, { memory });
+};
+
+const givenUserAgentSpecificMemory = (measure: () => Promise<MemoryMeasurement>) => {
+  vi.stubGlobal('crossOriginIsolated', true);
+  Object.assign(performance, { measureUserAgentSpecificMemory: measure });
+};
+
+describe('Memory', () => {
+  const observers: Memory[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof Memory>) => {
+    const observer = new Memory(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    // Exponential delay of exactly the mean interval
+    vi.spyOn(Math, 'random').mockReturnValue(1 - Math.exp(-1));
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetMemory();
+    performanceAPIHelper.unmock();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should share a single instance through observeMemory', () => {
+    // Then
+    expect(observeMemory()).toBe(observeMemory());
+    expect(createObserver()).not.toBe(observeMemory());
+  });
+
+  it('should notify an UnsupportedMetricException when no memory API is available', () => {
+    // Given
+    const onError = vi.fn();
+
+    // When
+    createObserver().onError(onError);
+
+    // Then
+    expect(onError).toHaveBeenCalledWith(expect.any(UnsupportedMetricException));
+  });
+
+  it('should measure with measureUserAgentSpecificMemory when cross-origin isolated', async () => {
+    // Given
+    const measure = vi.fn(() => Promise.resolve(MemoryReportMothers.measurement()));
+    givenUserAgentSpecificMemory(measure);
+    givenPerformanceMemory(MemoryReportMothers.performanceMemory());
+    const onSuccess = vi.fn();
+
+    // When
+    createObserver({ interval: INTERVAL }).onSuccess(onSuccess);
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Then
+    const report: MemoryReport = onSuccess.mock.calls[0][0];
+    expect(report.source).toBe('user-agent-specific');
+    expect(report.bytes).toBe(60_000_000);
+  });
+
+  it('should fall back to performance.memory when not cross-origin isolated', () => {
+    // Given
+    vi.stubGlobal('crossOriginIsolated', false);
+    Object.assign(performance, { measureUserAgentSpecificMemory: vi.fn() });
+    givenPerformanceMemory(MemoryReportMothers.performanceMemory());
+    const onSuccess = vi.fn();
+
+    // When
+    createObserver().onSuccess(onSuccess);
+
+    // Then
+    expect(onSuccess.mock.calls[0][0].source).toBe('js-heap');
+  });
+
+  it('should measure again at jittered intervals until disposed', async () => {
+    // Given
+    givenPerformanceMemory(MemoryReportMothers.performanceMemory());
+    const onSuccess = vi.fn();
+    const observer = createObserver({ interval: INTERVAL }).onSuccess(onSuccess);
+
+    // When
+    await vi.advanceTimersByTimeAsync(INTERVAL * 2);
+    observer.dispose();
+    await vi.advanceTimersByTimeAsync(INTERVAL * 2);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(3);
+  });
+
+  it('should flag memory that grows on every measurement', async () => {
+    // Given
+    const heapSizes = [10, 12, 14, 13, 15, 17, 19].map(megabytes => megabytes * 1_000_000);
+    givenPerformanceMemory(MemoryReportMothers.performanceMemory(heapSizes[0]));
+    const onSuccess = vi.fn();
+    createObserver({ interval: INTERVAL, growthSamples: 3 }).onSuccess(onSuccess);
+
+    // When
+    for (const heapSize of heapSizes.slice(1)) {
+      givenPerformanceMemory(MemoryReportMothers.performanceMemory(heapSize));
+      await vi.advanceTimersByTimeAsync(INTERVAL);
+    }
+
+    // Then
+    const reports: MemoryReport[] = onSuccess.mock.calls.map(([report]) => report);
+    expect(reports.map(report => report.trend.consecutiveIncreases)).toEqual([0, 1, 2, 0, 1, 2, 3]);
+    expect(reports.map(report => report.isLikelyLeak)).toEqual([false, false, false, false, false, false, true]);
+    expect(reports[6].trend.growth).toBe(6_000_000);
+  });
+
+  it('should notify failed measurements and keep measuring', async () => {
+    // Given
+    const measure = vi.fn()
+      .mockReturnValueOnce(Promise.reject(new Error('SecurityError')))
+      .mockReturnValue(Promise.resolve(MemoryReportMothers.measurement()));
+    givenUserAgentSpecificMemory(measure);
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+
+    // When
+    createObserver({ interval: INTERVAL }).onError(onError).onSuccess(onSuccess);
+    await vi.advanceTimersByTimeAsync(INTERVAL);
+
+    // Then
+    expect(onError).toHaveBeenCalledWith(expect.any(PerformanceHandlerException));
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,202 @@
+import { MemoryReport, type MemoryTrend } from '@/reports/performance/MemoryReport';
+import { FallibleObserver } from '@/shared/FallibleObserver';
+import { generateId } from '@/shared/generateId';
+import { isSSR } from '@/shared/isSSR';
+import { UnsupportedMetricException, UnsupportedSSRException } from '@/exceptions/UnsupportedExceptions';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import type { MemoryMeasurement, PerformanceWithMemory } from '@/types/PerformanceEntryTypes';
+
+export interface MemoryOptions {
+  /** Mean time between measurements in milliseconds (default: 5 minutes) */
+  interval?: number;
+  /** Consecutive increases after which the growth is flagged as monotonic (default: 5) */
+  growthSamples?: number;
+}
+
+export const DEFAULT_MEMORY_INTERVAL = 5 * 60 * 1000;
+export const DEFAULT_GROWTH_SAMPLES = 5;
+
+/**
+ * Random delay following an exponential distribution with the given mean, so
+ * measurements follow a Poisson process as the measureUserAgentSpecificMemory
+ * specification recommends. Capped at 10 times the mean.
+ */
+const jitteredInterval = (mean: number): number => (
+  Math.min(-Math.log(1 - Math.random()) * mean, mean * 10)
+);
+
+/**
+ * Observer measuring the memory used by the page.
+ *
+ * Uses performance.measureUserAgentSpecificMemory() when the page is
+ * cross-origin isolated, or the non-standard performance.memory otherwise.
+ * Measurements are taken when the first subscriber arrives and then at
+ * jittered intervals. Each report carries the growth trend across the
+ * measurements: memory that keeps growing in a long-lived SPA session is
+ * likely leaking.
+ */
+export class Memory extends FallibleObserver<MemoryReport> {
+  private static instance: Memory | null = null;
+
+  private readonly interval: number;
+  private readonly growthSamples: number;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private isListening = false;
+  private isMeasuring = false;
+
+  private lastBytes: number | null = null;
+  private streakStartBytes = 0;
+  private consecutiveIncreases = 0;
+
+  constructor(options: MemoryOptions = {}) {
+    super();
+    this.interval = options.interval ?? DEFAULT_MEMORY_INTERVAL;
+    this.growthSamples = options.growthSamples ?? DEFAULT_GROWTH_SAMPLES;
+  }
+
+  /**
+   * Get the singleton instance of the Memory observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeMemory() instead, or `new Memory(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the Memory observer.
+   */
+  public static getInstance(): Memory {
+    if (!Memory.instance) {
+      Memory.instance = new Memory();
+    }
+    return Memory.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the Memory observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    Memory.getInstance()?.dispose();
+    Memory.instance = null;
+  }
+
+  public dispose(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+    this.isListening = false;
+    this.lastBytes = null;
+    this.consecutiveIncreases = 0;
+    this.clearSubscribers();
+  }
+
+  protected override onSubscribe(): void {
+    if (this.isListening) return;
+    this.start();
+  }
+
+  private start(): void {
+    if (isSSR()) {
+      this.notifyError(new UnsupportedSSRException());
+      return;
+    }
+
+    if (!this.isSupported()) {
+      this.notifyError(new UnsupportedMetricException('measureUserAgentSpecificMemory'));
+      return;
+    }
+
+    this.isListening = true;
+    this.measure();
+  }
+
+  private measure(): void {
+    if (!this.isListening || this.isMeasuring) return;
+
+    const measureUserAgentSpecificMemory = this.userAgentSpecificMemoryAPI();
+    if (measureUserAgentSpecificMemory) {
+      this.isMeasuring = true;
+      measureUserAgentSpecificMemory()
+        .then(
+          measurement => this.handleMeasurement(measurement),
+          error => this.notifyError(new PerformanceHandlerException(error))
+        )
+        .finally(() => {
+          this.isMeasuring = false;
+          this.scheduleMeasurement();
+        });
+      return;
+    }
+
+    try {
+      const memory = (performance as PerformanceWithMemory).memory;
+      if (memory) {
+        const report = MemoryReport.fromPerformanceMemory(generateId(), memory, this.nextTrend(memory.usedJSHeapSize));
+        this.notifySuccess(report);
+      }
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+    }
+    this.scheduleMeasurement();
+  }
+
+  private handleMeasurement(measurement: MemoryMeasurement): void {
+    if (!this.isListening) return;
+    try {
+      const report = MemoryReport.fromMemoryMeasurement(generateId(), measurement, this.nextTrend(measurement.bytes));
+      this.notifySuccess(report);
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+    }
+  }
+
+  private scheduleMeasurement(): void {
+    if (!this.isListening) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.measure();
+    }, jitteredInterval(this.interval));
+  }
+
+  /**
+   * Counts consecutive increases of the measured bytes.
+   */
+  private nextTrend(bytes: number): MemoryTrend {
+    if (this.lastBytes !== null && bytes > this.lastBytes) {
+      this.consecutiveIncreases += 1;
+    } else {
+      this.consecutiveIncreases = 0;
+      this.streakStartBytes = bytes;
+    }
+    this.lastBytes = bytes;
+
+    return {
+      consecutiveIncreases: this.consecutiveIncreases,
+      growth: bytes - this.streakStartBytes,
+      isMonotonicGrowth: this.consecutiveIncreases >= this.growthSamples,
+    };
+  }
+
+  /**
+   * measureUserAgentSpecificMemory, only exposed to cross-origin isolated pages.
+   */
+  private userAgentSpecificMemoryAPI(): (() => Promise<MemoryMeasurement>) | null {
+    const { measureUserAgentSpecificMemory } = performance as PerformanceWithMemory;
+    if (!window.crossOriginIsolated || typeof measureUserAgentSpecificMemory !== 'function') return null;
+    return measureUserAgentSpecificMemory.bind(performance);
+  }
+
+  private isSupported(): boolean {
+    return this.userAgentSpecificMemoryAPI() !== null || (performance as PerformanceWithMemory).memory !== undefined;
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the Memory observer.
+ */
+export const observeMemory = () => Memory.getInstance();
+
+/**
+ * Reset the singleton instance of the Memory observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetMemory = () => Memory.resetInstance();
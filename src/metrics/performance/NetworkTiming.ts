@@ -1,6 +1,9 @@
 import { NetworkTimingReport } from '@/reports/performance/NetworkTimingReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+
+export type NetworkTimingOptions = PerformanceMetricObserverOptions<PerformanceNavigationTiming>;
 
 /**
  * Observer for capturing network timing metrics using PerformanceNavigationTiming.
@@ -10,18 +13,18 @@ import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
  * **Single Event**: This observer automatically stops after emitting the first Network timing report.
  * Use dispose() only for cleanup if needed before the event occurs.
  */
-export class NetworkTiming extends PerformanceMetricObserver<NetworkTimingReport> {
+export class NetworkTiming extends PerformanceMetricObserver<NetworkTimingReport, PerformanceNavigationTiming> {
   private static instance: NetworkTiming | null = null;
 
-  private constructor() {
-    super('navigation');
+  constructor(options: NetworkTimingOptions = {}) {
+    super('navigation', {}, options);
   }
 
   /**
    * Get the singleton instance of the Network Timing observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeNetworkTiming() factory function instead.
+   * **Note:** Use observeNetworkTiming() instead, or `new NetworkTiming(options)` for an independent instance.
    *
    * @returns Singleton instance of the Network Timing observer.
    */
@@ -0,0 +1,101 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { PerformanceResourceTimingMother } from '@/test/mothers/PerformanceResourceTimingMother';
+import type { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+
+import { ResourceTiming, observeResourceTiming, resetResourceTiming } from './ResourceTiming';
+
+const resourceNames = (collection: ResourceTimingCollection) => collection.reports.map(report => report.name);
+
+describe('ResourceTiming', () => {
+  const observers: ResourceTiming[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof ResourceTiming>) => {
+    const observer = new ResourceTiming(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+    windowLocationHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetResourceTiming();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+    windowLocationHelper.unmock();
+  });
+
+  it('should share a single instance through observeResourceTiming', () => {
+    // Then
+    expect(observeResourceTiming()).toBe(observeResourceTiming());
+    expect(createObserver()).not.toBe(observeResourceTiming());
+  });
+
+  it('should ignore resources matching the default prefixes', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('resource', [
+      PerformanceResourceTimingMother.fastScript(),
+      PerformanceResourceTimingMother.withCustomValues({ name: 'data:image/png;base64,AAAA' }),
+    ]);
+
+    // Then
+    expect(resourceNames(onSuccess.mock.calls[0][0])).toEqual(['https://example.com/js/main.js']);
+  });
+
+  it('should apply options independently to each instance', () => {
+    // Given
+    const ignoringScripts = vi.fn();
+    const keepingEverything = vi.fn();
+    createObserver({ ignoredPrefixes: ['https://example.com/js/'] }).onSuccess(ignoringScripts);
+    createObserver({ ignoredPrefixes: [] }).onSuccess(keepingEverything);
+
+    // When
+    performanceObserverHelper.emit('resource', [
+      PerformanceResourceTimingMother.fastScript(),
+      PerformanceResourceTimingMother.withCustomValues({ name: 'data:image/png;base64,AAAA' }),
+    ]);
+
+    // Then
+    expect(resourceNames(ignoringScripts.mock.calls[0][0])).toEqual(['data:image/png;base64,AAAA']);
+    expect(resourceNames(keepingEverything.mock.calls[0][0])).toHaveLength(2);
+  });
+
+  it('should skip entries rejected by the entry filter', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver({ entryFilter: entry => entry.initiatorType !== 'script' }).onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('resource', [
+      PerformanceResourceTimingMother.fastScript(),
+      PerformanceResourceTimingMother.withCustomValues({ name: 'https://example.com/logo.png', initiatorType: 'img' }),
+    ]);
+
+    // Then
+    expect(resourceNames(onSuccess.mock.calls[0][0])).toEqual(['https://example.com/logo.png']);
+  });
+
+  it('should observe buffered entries unless disabled', () => {
+    // When
+    createObserver().onSuccess(vi.fn());
+    createObserver({ buffered: false }).onSuccess(vi.fn());
+
+    // Then
+    expect(performanceObserverHelper.observedOptions()).toEqual([
+      { type: 'resource', buffered: true },
+      { type: 'resource', buffered: false },
+    ]);
+  });
+});
@@ -2,6 +2,22 @@ import { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCo
 import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+
+/**
+ * Resource prefixes ignored by default - browser internal resources and extensions.
+ */
+export const DEFAULT_IGNORED_RESOURCES: readonly string[] = [
+  'data:',
+  'blob:',
+  'chrome-extension:',
+  'moz-extension:'
+];
+
+export interface ResourceTimingOptions extends PerformanceMetricObserverOptions<PerformanceResourceTiming> {
+  /** URL prefixes of resources that are not reported (default: DEFAULT_IGNORED_RESOURCES) */
+  ignoredPrefixes?: readonly string[];
+}
 
 /**
  * Observer for Resource Timing performance entries.
@@ -14,32 +30,22 @@ import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
  * resources loaded since observer initialization. Use dispose() to free memory
  * when monitoring is complete.
  */
-export class ResourceTiming extends PerformanceMetricObserver<ResourceTimingCollection> {
+export class ResourceTiming extends PerformanceMetricObserver<ResourceTimingCollection, PerformanceResourceTiming> {
   private static instance: ResourceTiming | null = null;
   private reports: ResourceTimingReport[] = [];
 
-  /**
-   * Resource prefixes to ignore - browser internal resources and extensions.
-   */
-  private readonly IGNORED_RESOURCES = [
-    'data:',
-    'blob:',
-    'chrome-extension:',
-    'moz-extension:'
-  ] as const;
-
-  private constructor() {
-    super('resource', {
-      type: 'resource',
-      buffered: true
-    });
+  private readonly ignoredPrefixes: readonly string[];
+
+  constructor(options: ResourceTimingOptions = {}) {
+    super('resource', {}, options);
+    this.ignoredPrefixes = options.ignoredPrefixes ?? DEFAULT_IGNORED_RESOURCES;
   }
 
   /**
    * Get the singleton instance of the Resource Timing observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeResourceTiming() factory function instead.
+   * **Note:** Use observeResourceTiming() instead, or `new ResourceTiming(options)` for an independent instance.
    *
    * @returns Singleton instance of the Resource Timing observer.
    */
@@ -94,7 +100,7 @@ export class ResourceTiming extends PerformanceMetricObserver<ResourceTimingColl
    */
   private isValidResource(entry: PerformanceResourceTiming): boolean {
     // Skip browser extensions and data URLs
-    if (this.IGNORED_RESOURCES.some(prefix => entry.name.startsWith(prefix))) {
+    if (this.ignoredPrefixes.some(prefix => entry.name.startsWith(prefix))) {
       return false;
     }
 
@@ -0,0 +1,166 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import type { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+
+import { SoftNavigation, observeSoftNavigation, resetSoftNavigation } from './SoftNavigation';
+
+const softNavigationEntry = (url: string, startTime: number): PerformanceEntry => ({
+  name: url,
+  entryType: 'soft-navigation',
+  startTime,
+  duration: 0,
+  toJSON: () => ({}),
+});
+
+const productRoute = (url: URL) => url.pathname.replace(/^\/products\/\w+$/, '/products/:id');
+
+describe('SoftNavigation', () => {
+  const observers: SoftNavigation[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof SoftNavigation>) => {
+    const observer = new SoftNavigation(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetSoftNavigation();
+    history.replaceState(null, '', '/');
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should share a single instance through observeSoftNavigation', () => {
+    // Then
+    expect(observeSoftNavigation()).toBe(observeSoftNavigation());
+    expect(createObserver()).not.toBe(observeSoftNavigation());
+  });
+
+  it('should start with the route view of the current page', () => {
+    // Given
+    history.replaceState(null, '', '/products/42');
+    const observer = createObserver({ resolveRoute: productRoute });
+
+    // When
+    observer.onSuccess(vi.fn());
+
+    // Then
+    expect(observer.currentNavigation).toEqual({
+      navigationId: expect.any(String),
+      route: '/products/:id',
+    });
+  });
+
+  it('should report pushState route changes as soft navigations', () => {
+    // Given
+    const onSuccess = vi.fn();
+    const observer = createObserver().onSuccess(onSuccess);
+    const initialNavigation = observer.currentNavigation;
+    vi.mocked(performance.now).mockReturnValue(2500);
+
+    // When
+    history.pushState(null, '', '/checkout?step=payment');
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    const report: SoftNavigationReport = onSuccess.mock.calls[0][0];
+    expect(report.source).toBe('push-state');
+    expect(report.route).toBe('/checkout');
+    expect(report.previousRoute).toBe('/');
+    expect(report.url).toBe(location.href);
+    expect(report.occurredAt.relativeTime).toBe(2500);
+    expect(report.navigationId).not.toBe(initialNavigation?.navigationId);
+    expect(observer.currentNavigation).toEqual({ navigationId: report.navigationId, route: '/checkout' });
+  });
+
+  it('should ignore URL changes within the same route', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver({ resolveRoute: productRoute }).onSuccess(onSuccess);
+    history.pushState(null, '', '/products/42');
+
+    // When
+    history.pushState(null, '', '/products/7');
+    history.replaceState(null, '', '/products/7?color=red');
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report popstate route changes', () => {
+    // Given
+    let route = '/';
+    const onSuccess = vi.fn();
+    createObserver({ resolveRoute: () => route }).onSuccess(onSuccess);
+
+    // When
+    route = '/cart';
+    window.dispatchEvent(new PopStateEvent('popstate'));
+
+    // Then
+    const report: SoftNavigationReport = onSuccess.mock.calls[0][0];
+    expect(report.source).toBe('popstate');
+    expect(report.route).toBe('/cart');
+  });
+
+  it('should use soft-navigation entries instead of the History API when supported', () => {
+    // Given
+    performanceObserverHelper.mock({ supportedEntryTypes: ['soft-navigation'] });
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    history.pushState(null, '', '/checkout');
+    performanceObserverHelper.emit('soft-navigation', [softNavigationEntry('https://example.com/checkout', 1800)]);
+
+    // Then
+    expect(performanceObserverHelper.observedOptions()).toEqual([{ type: 'soft-navigation', buffered: false }]);
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    const report: SoftNavigationReport = onSuccess.mock.calls[0][0];
+    expect(report.source).toBe('soft-navigation-entry');
+    expect(report.url).toBe('https://example.com/checkout');
+    expect(report.occurredAt.relativeTime).toBe(1800);
+  });
+
+  it('should notify failing route resolvers without reporting a navigation', () => {
+    // Given
+    const onSuccess = vi.fn();
+    const onError = vi.fn();
+    createObserver({
+      resolveRoute: (url) => {
+        if (url.pathname === '/broken') throw new Error('Unknown route');
+        return url.pathname;
+      },
+    }).onSuccess(onSuccess).onError(onError);
+
+    // When
+    history.pushState(null, '', '/broken');
+
+    // Then
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(onError).toHaveBeenCalledWith(expect.any(PerformanceHandlerException));
+  });
+
+  it('should restore the History API on dispose', () => {
+    // Given
+    const { pushState, replaceState } = history;
+    const observer = createObserver().onSuccess(vi.fn());
+
+    // When
+    observer.dispose();
+
+    // Then
+    expect(history.pushState).toBe(pushState);
+    expect(history.replaceState).toBe(replaceState);
+    expect(observer.currentNavigation).toBeNull();
+  });
+});
@@ -0,0 +1,191 @@
+import {
+  SOFT_NAVIGATION_SOURCES,
+  SoftNavigationReport,
+  type SoftNavigationSource
+} from '@/reports/performance/SoftNavigationReport';
+import { FallibleObserver } from '@/shared/FallibleObserver';
+import { generateId } from '@/shared/generateId';
+import { isSSR } from '@/shared/isSSR';
+import { onHistoryChange } from '@/shared/onHistoryChange';
+import { UnsupportedSSRException } from '@/exceptions/UnsupportedExceptions';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export interface SoftNavigationOptions {
+  /** Resolves the route identifier of a URL, e.g. its route pattern (default: the URL pathname) */
+  resolveRoute?: (url: URL) => string;
+}
+
+/**
+ * Route the page currently shows.
+ */
+export interface RouteView {
+  /** Identifier of the route view, changes at every soft navigation */
+  navigationId: string;
+  route: string;
+}
+
+/**
+ * Observer whose accumulated state belongs to a single route view, such as the
+ * CLS, INP and LCP observers.
+ */
+export interface SoftNavigationAware {
+  /** Discards the state accumulated for the previous route and starts measuring the new one */
+  startSoftNavigation(navigation: SoftNavigationReport): void;
+}
+
+const defaultResolveRoute = (url: URL): string => url.pathname;
+
+const supportsSoftNavigationEntries = (): boolean => (
+  'PerformanceObserver' in window &&
+  (PerformanceObserver.supportedEntryTypes ?? []).includes('soft-navigation')
+);
+
+/**
+ * Observer for the route changes of single page applications.
+ *
+ * Uses soft-navigation performance entries where the browser supports them,
+ * and the History API (pushState, replaceState and popstate) otherwise. A
+ * SoftNavigationReport is emitted whenever the resolved route changes: URL
+ * changes within the same route, such as query updates, are not navigations.
+ *
+ * The route view of the page when the first subscriber arrives is available
+ * through currentNavigation. Navigations that happened before are not replayed:
+ * the route view already is their outcome.
+ */
+export class SoftNavigation extends FallibleObserver<SoftNavigationReport> {
+  private static instance: SoftNavigation | null = null;
+
+  private readonly resolveRoute: (url: URL) => string;
+  private routeView: RouteView | null = null;
+  private performanceObserver: PerformanceObserver | null = null;
+  private removeHistoryListener: (() => void) | null = null;
+  private isListening = false;
+
+  constructor(options: SoftNavigationOptions = {}) {
+    super();
+    this.resolveRoute = options.resolveRoute ?? defaultResolveRoute;
+  }
+
+  /**
+   * Get the singleton instance of the Soft Navigation observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeSoftNavigation() instead, or `new SoftNavigation(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the Soft Navigation observer.
+   */
+  public static getInstance(): SoftNavigation {
+    if (!SoftNavigation.instance) {
+      SoftNavigation.instance = new SoftNavigation();
+    }
+    return SoftNavigation.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the Soft Navigation observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    SoftNavigation.getInstance()?.dispose();
+    SoftNavigation.instance = null;
+  }
+
+  /**
+   * Route view the page currently shows, null until the observer started.
+   */
+  public get currentNavigation(): RouteView | null {
+    return this.routeView;
+  }
+
+  public dispose(): void {
+    this.performanceObserver?.disconnect();
+    this.performanceObserver = null;
+    this.removeHistoryListener?.();
+    this.removeHistoryListener = null;
+    this.routeView = null;
+    this.isListening = false;
+    this.clearSubscribers();
+  }
+
+  protected override onSubscribe(): void {
+    if (this.isListening) return;
+    this.start();
+  }
+
+  private start(): void {
+    if (isSSR()) {
+      this.notifyError(new UnsupportedSSRException());
+      return;
+    }
+
+    this.isListening = true;
+    this.routeView = {
+      navigationId: generateId(),
+      route: this.routeOf(location.href) ?? location.pathname,
+    };
+
+    if (supportsSoftNavigationEntries()) {
+      this.performanceObserver = new PerformanceObserver((entryList) => {
+        for (const entry of entryList.getEntries()) {
+          this.navigate(entry.name, SOFT_NAVIGATION_SOURCES.SOFT_NAVIGATION_ENTRY, entry.startTime);
+        }
+      });
+      // Buffered entries are navigations to routes the page already left
+      this.performanceObserver.observe({ type: 'soft-navigation', buffered: false });
+      return;
+    }
+
+    this.removeHistoryListener = onHistoryChange((change) => {
+      this.navigate(location.href, change, performance.now());
+    });
+  }
+
+  private navigate(url: string, source: SoftNavigationSource, startTime: number): void {
+    const route = this.routeOf(url);
+    const previous = this.routeView;
+    if (route === null || route === previous?.route) return;
+
+    try {
+      const report = SoftNavigationReport.create({
+        id: generateId(),
+        createdAt: PerformanceTime.now(),
+        occurredAt: PerformanceTime.fromRelativeTime(startTime),
+        navigationId: generateId(),
+        route,
+        url,
+        previousRoute: previous?.route ?? null,
+        source,
+      });
+      this.routeView = { navigationId: report.navigationId, route };
+      this.notifySuccess(report);
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+    }
+  }
+
+  /**
+   * Resolves the route of a URL. Failures of resolveRoute are notified and return null.
+   */
+  private routeOf(url: string): string | null {
+    try {
+      return this.resolveRoute(new URL(url, location.href));
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+      return null;
+    }
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the Soft Navigation observer.
+ */
+export const observeSoftNavigation = () => SoftNavigation.getInstance();
+
+/**
+ * Reset the singleton instance of the Soft Navigation observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetSoftNavigation = () => SoftNavigation.resetInstance();
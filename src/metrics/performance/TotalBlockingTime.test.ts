@@ -0,0 +1,154 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { PerformanceLongTaskTimingEntryMother } from '@/test/mothers/PerformanceLongTaskTimingEntryMother';
+import { PerformancePaintTimingMother } from '@/test/mothers/PerformancePaintTimingMother';
+import { PerformanceResourceTimingMother } from '@/test/mothers/PerformanceResourceTimingMother';
+import type { LongTaskCollection } from '@/reports/performance/LongTaskCollection';
+
+import { TotalBlockingTime, observeTotalBlockingTime, resetTotalBlockingTime } from './TotalBlockingTime';
+
+const longTask = (startTime: number, duration: number) => ({
+  ...PerformanceLongTaskTimingEntryMother.lowSeverity(),
+  startTime,
+  duration,
+});
+
+const firstContentfulPaint = (startTime: number) => PerformancePaintTimingMother.withCustomValues({ startTime });
+
+const request = (startTime: number, responseEnd: number) => (
+  PerformanceResourceTimingMother.withCustomValues({ startTime, responseEnd })
+);
+
+const givenNow = (time: number) => {
+  vi.mocked(performance.now).mockReturnValue(time);
+};
+
+const lastCollection = (onSuccess: ReturnType<typeof vi.fn>): LongTaskCollection => onSuccess.mock.lastCall?.[0];
+
+describe('TotalBlockingTime', () => {
+  const observers: TotalBlockingTime[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof TotalBlockingTime>) => {
+    const observer = new TotalBlockingTime(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetTotalBlockingTime();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+    vi.useRealTimers();
+  });
+
+  it('should share a single instance through observeTotalBlockingTime', () => {
+    // Then
+    expect(observeTotalBlockingTime()).toBe(observeTotalBlockingTime());
+    expect(createObserver()).not.toBe(observeTotalBlockingTime());
+  });
+
+  it('should observe long tasks, paints and resources', () => {
+    // When
+    createObserver().onSuccess(vi.fn());
+
+    // Then
+    expect(performanceObserverHelper.observedEntryTypes()).toEqual(['longtask', 'paint', 'resource']);
+  });
+
+  it('should count blocking time from FCP on', () => {
+    // Given
+    givenNow(2500);
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('longtask', [longTask(500, 200)]);
+    performanceObserverHelper.emit('paint', [firstContentfulPaint(1000)]);
+    performanceObserverHelper.emit('longtask', [longTask(2000, 120)]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(3);
+    const collection = lastCollection(onSuccess);
+    expect(collection.totalReports).toBe(2);
+    expect(collection.totalBlockingTime).toBe(70);
+    expect(collection.timeToInteractive).toBeNull();
+  });
+
+  it('should settle TTI once a quiet window elapses without new entries', () => {
+    // Given
+    givenNow(2500);
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+    performanceObserverHelper.emit('paint', [firstContentfulPaint(1000)]);
+    performanceObserverHelper.emit('longtask', [longTask(2000, 120)]);
+
+    // When
+    givenNow(7500);
+    vi.advanceTimersByTime(5000);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(3);
+    expect(lastCollection(onSuccess).timeToInteractive?.relativeTime).toBe(2120);
+  });
+
+  it('should delay TTI while more than two requests are in flight', () => {
+    // Given
+    givenNow(9000);
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('resource', [request(3000, 8000), request(3000, 8000), request(3000, 8000)]);
+    performanceObserverHelper.emit('paint', [firstContentfulPaint(1000)]);
+    performanceObserverHelper.emit('longtask', [longTask(8500, 100)]);
+    givenNow(14_000);
+    vi.advanceTimersByTime(5000);
+
+    // Then
+    expect(lastCollection(onSuccess).timeToInteractive?.relativeTime).toBe(8600);
+    expect(lastCollection(onSuccess).totalBlockingTime).toBe(50);
+  });
+
+  it('should not count tasks after TTI nor notify resources alone', () => {
+    // Given
+    givenNow(7000);
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+    performanceObserverHelper.emit('paint', [firstContentfulPaint(1000)]);
+
+    // When
+    performanceObserverHelper.emit('resource', [request(7000, 7100)]);
+    performanceObserverHelper.emit('longtask', [longTask(7200, 300)]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+    const collection = lastCollection(onSuccess);
+    expect(collection.timeToInteractive?.relativeTime).toBe(1000);
+    expect(collection.totalBlockingTime).toBe(0);
+  });
+
+  it('should stop waiting for a quiet window when disposed', () => {
+    // Given
+    givenNow(2500);
+    const onSuccess = vi.fn();
+    const observer = createObserver().onSuccess(onSuccess);
+    performanceObserverHelper.emit('paint', [firstContentfulPaint(1000)]);
+
+    // When
+    observer.dispose();
+    givenNow(7500);
+    vi.advanceTimersByTime(5000);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+  });
+});
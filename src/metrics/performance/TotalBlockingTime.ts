@@ -0,0 +1,158 @@
+import {
+  LongTaskCollection,
+  QUIET_WINDOW_DURATION,
+  estimateTimeToInteractive
+} from '@/reports/performance/LongTaskCollection';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { generateId } from '@/shared/generateId';
+import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import type { PerformanceLongTaskTimingEntry } from '@/types/PerformanceEntryTypes';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
+
+export type TotalBlockingTimeOptions = PerformanceMetricObserverOptions;
+
+/**
+ * Observer for the main-thread health of the page load.
+ *
+ * Collects long tasks alongside First Contentful Paint and the network
+ * requests of the page to derive Total Blocking Time and a lab-style Time to
+ * Interactive estimate (see estimateTimeToInteractive). Once TTI is known it
+ * no longer changes, and TBT only counts the tasks before it.
+ *
+ * **Cumulative Pattern**: Each emission contains every long task observed since
+ * the observer started. A collection is emitted for new long tasks, FCP and
+ * when TTI is reached.
+ */
+export class TotalBlockingTime extends PerformanceMetricObserver<LongTaskCollection> {
+  private static instance: TotalBlockingTime | null = null;
+  private reports: LongTaskReport[] = [];
+  private requests: TimeSegment[] = [];
+  private firstContentfulPaint: PerformanceTime | null = null;
+  private timeToInteractive: PerformanceTime | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: TotalBlockingTimeOptions = {}) {
+    super(['longtask', 'paint', 'resource'], {}, options);
+  }
+
+  /**
+   * Get the singleton instance of the Total Blocking Time observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeTotalBlockingTime() instead, or `new TotalBlockingTime(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the Total Blocking Time observer.
+   */
+  public static getInstance(): TotalBlockingTime {
+    if (!TotalBlockingTime.instance) {
+      TotalBlockingTime.instance = new TotalBlockingTime();
+    }
+    return TotalBlockingTime.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the Total Blocking Time observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    TotalBlockingTime.getInstance()?.dispose();
+    TotalBlockingTime.instance = null;
+  }
+
+  public override dispose(): void {
+    super.dispose();
+    this.clearTimer();
+    this.reports = [];
+    this.requests = [];
+    this.firstContentfulPaint = null;
+    this.timeToInteractive = null;
+  }
+
+  protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
+    let hasChanged = false;
+
+    for (const entry of entryList.getEntries()) {
+      if (entry.entryType === 'longtask') {
+        this.reports.push(LongTaskReport.fromPerformanceLongTaskTimingEntry(
+          generateId(),
+          entry as PerformanceLongTaskTimingEntry
+        ));
+        hasChanged = true;
+      } else if (entry.entryType === 'paint' && entry.name === 'first-contentful-paint') {
+        this.firstContentfulPaint ??= PerformanceTime.fromRelativeTime(entry.startTime);
+        hasChanged = true;
+      } else if (entry.entryType === 'resource' && !this.timeToInteractive) {
+        const resource = entry as PerformanceResourceTiming;
+        this.requests.push(TimeSegment.fromTiming(resource.startTime, Math.max(resource.responseEnd, resource.startTime)));
+      }
+    }
+
+    if (this.updateTimeToInteractive()) hasChanged = true;
+    if (hasChanged) this.notifyCollection();
+  }
+
+  /**
+   * Looks for the quiet window marking TTI. Until it is found, checks again
+   * once a quiet window could have elapsed without new entries.
+   *
+   * @returns Whether TTI was reached
+   */
+  private updateTimeToInteractive(): boolean {
+    if (!this.firstContentfulPaint || this.timeToInteractive) return false;
+
+    this.clearTimer();
+    this.timeToInteractive = estimateTimeToInteractive({
+      firstContentfulPaint: this.firstContentfulPaint,
+      longTasks: this.reports,
+      requests: this.requests,
+      now: PerformanceTime.now(),
+    });
+
+    if (this.timeToInteractive) {
+      this.requests = [];
+      return true;
+    }
+
+    this.timer = setTimeout(() => this.handleQuietWindowElapsed(), QUIET_WINDOW_DURATION);
+    return false;
+  }
+
+  private handleQuietWindowElapsed(): void {
+    this.timer = null;
+    try {
+      if (this.updateTimeToInteractive()) this.notifyCollection();
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+    }
+  }
+
+  private notifyCollection(): void {
+    const collection = LongTaskCollection.fromLongTaskReports(
+      generateId(),
+      this.reports,
+      this.firstContentfulPaint,
+      this.timeToInteractive
+    );
+    this.notifySuccess(collection);
+  }
+
+  private clearTimer(): void {
+    if (this.timer !== null) clearTimeout(this.timer);
+    this.timer = null;
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the Total Blocking Time observer.
+ */
+export const observeTotalBlockingTime = () => TotalBlockingTime.getInstance();
+
+/**
+ * Reset the singleton instance of the Total Blocking Time observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetTotalBlockingTime = () => TotalBlockingTime.resetInstance();
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { UserTimingReportMothers } from '@/test/mothers/UserTimingReportMothers';
+import type { UserTimingCollection } from '@/reports/performance/UserTimingCollection';
+
+import { UserTiming, observeUserTiming, resetUserTiming } from './UserTiming';
+
+const reportedNames = (collection: UserTimingCollection) => collection.reports.map(report => report.name);
+
+describe('UserTiming', () => {
+  const observers: UserTiming[] = [];
+
+  const createObserver = (...args: ConstructorParameters<typeof UserTiming>) => {
+    const observer = new UserTiming(...args);
+    observers.push(observer);
+    return observer;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+  });
+
+  afterEach(() => {
+    observers.splice(0).forEach(observer => observer.dispose());
+    resetUserTiming();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should share a single instance through observeUserTiming', () => {
+    // Then
+    expect(observeUserTiming()).toBe(observeUserTiming());
+    expect(createObserver()).not.toBe(observeUserTiming());
+  });
+
+  it('should observe buffered marks and measures', () => {
+    // When
+    createObserver().onSuccess(vi.fn());
+
+    // Then
+    expect(performanceObserverHelper.observedOptions()).toEqual([
+      { type: 'mark', buffered: true },
+      { type: 'measure', buffered: true },
+    ]);
+  });
+
+  it('should emit every mark and measure recorded so far', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver().onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('mark', [UserTimingReportMothers.markEntry('checkout:start', 100)]);
+    performanceObserverHelper.emit('measure', [UserTimingReportMothers.measureEntry('checkout:render', 100, 250)]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+    const collection: UserTimingCollection = onSuccess.mock.calls[1][0];
+    expect(reportedNames(collection)).toEqual(['checkout:start', 'checkout:render']);
+    expect(collection.statsOf('checkout:render')?.max).toBe(250);
+  });
+
+  it('should only report names starting with the configured prefixes', () => {
+    // Given
+    const onSuccess = vi.fn();
+    createObserver({ namePrefixes: ['checkout:', 'search:'] }).onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('measure', [
+      UserTimingReportMothers.measureEntry('checkout:render', 100, 250),
+      UserTimingReportMothers.measureEntry('next-route-change', 400, 30),
+      UserTimingReportMothers.measureEntry('search:query', 900, 80),
+    ]);
+    performanceObserverHelper.emit('mark', [UserTimingReportMothers.markEntry('react:commit', 1000)]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    expect(reportedNames(onSuccess.mock.calls[0][0])).toEqual(['checkout:render', 'search:query']);
+  });
+});
@@ -0,0 +1,98 @@
+import { UserTimingCollection } from '@/reports/performance/UserTimingCollection';
+import { UserTimingReport } from '@/reports/performance/UserTimingReport';
+import { generateId } from '@/shared/generateId';
+import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import { USER_TIMING_ENTRY_TYPES } from '@/types/PerformanceEntryTypes';
+
+type UserTimingEntry = PerformanceMark | PerformanceMeasure;
+
+export interface UserTimingOptions extends PerformanceMetricObserverOptions<UserTimingEntry> {
+  /** Only marks and measures whose name starts with one of these prefixes are reported (default: every name) */
+  namePrefixes?: readonly string[];
+}
+
+const ENTRY_TYPES: readonly string[] = Object.values(USER_TIMING_ENTRY_TYPES);
+
+/**
+ * Observer for User Timing performance entries.
+ *
+ * Captures the marks and measures recorded by the application with
+ * performance.mark() and performance.measure(), including their `detail`.
+ *
+ * **Cumulative Pattern**: Each emission contains every mark and measure
+ * recorded since observer initialization. Use dispose() to free memory
+ * when monitoring is complete.
+ */
+export class UserTiming extends PerformanceMetricObserver<UserTimingCollection, UserTimingEntry> {
+  private static instance: UserTiming | null = null;
+  private reports: UserTimingReport[] = [];
+
+  private readonly namePrefixes: readonly string[] | null;
+
+  constructor(options: UserTimingOptions = {}) {
+    super(ENTRY_TYPES, {}, options);
+    this.namePrefixes = options.namePrefixes ?? null;
+  }
+
+  /**
+   * Get the singleton instance of the User Timing observer.
+   * If the instance does not exist, it creates a new one.
+   *
+   * **Note:** Use observeUserTiming() instead, or `new UserTiming(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the User Timing observer.
+   */
+  public static getInstance(): UserTiming {
+    if (!UserTiming.instance) {
+      UserTiming.instance = new UserTiming();
+    }
+    return UserTiming.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the User Timing observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    UserTiming.getInstance()?.dispose();
+    UserTiming.instance = null;
+  }
+
+  public override dispose(): void {
+    super.dispose();
+    this.reports = [];
+  }
+
+  /**
+   * Creates a UserTimingReport for each mark or measure and notifies the updated collection.
+   */
+  protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
+    const entries = (entryList.getEntries() as UserTimingEntry[])
+      .filter(entry => ENTRY_TYPES.includes(entry.entryType) && this.hasReportedName(entry));
+    if (entries.length === 0) return;
+
+    for (const entry of entries) {
+      this.reports.push(UserTimingReport.fromPerformanceEntry(generateId(), entry));
+    }
+
+    const collection = UserTimingCollection.fromUserTimingReports(generateId(), this.reports);
+    this.notifySuccess(collection);
+  }
+
+  private hasReportedName(entry: UserTimingEntry): boolean {
+    if (!this.namePrefixes) return true;
+    return this.namePrefixes.some(prefix => entry.name.startsWith(prefix));
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the User Timing observer.
+ */
+export const observeUserTiming = () => UserTiming.getInstance();
+
+/**
+ * Reset the singleton instance of the User Timing observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetUserTiming = () => UserTiming.resetInstance();
@@ -1,25 +1,79 @@
+export {
+  BackForwardCache,
+  observeBackForwardCache,
+  resetBackForwardCache,
+  type BackForwardCacheOptions
+} from './BackForwardCache';
+export {
+  ConnectionQuality,
+  observeConnectionQuality,
+  resetConnectionQuality,
+  type ConnectionQualityOptions,
+  DEFAULT_THROUGHPUT_SAMPLE_SIZE,
+  DEFAULT_MIN_TRANSFER_SIZE
+} from './ConnectionQuality';
 export {
   DOMTiming,
   observeDOMTiming,
-  resetDOMTiming
+  resetDOMTiming,
+  type DOMTimingOptions
 } from './DOMTiming';
 export {
   ElementTiming,
   observeElementTiming,
-  resetElementTiming
+  resetElementTiming,
+  type ElementTimingOptions
 } from './ElementTiming';
+export {
+  LongAnimationFrame,
+  observeLongAnimationFrame,
+  resetLongAnimationFrame,
+  type LongAnimationFrameOptions
+} from './LongAnimationFrame';
 export {
   LongTask,
   observeLongTask,
-  resetLongTask
+  resetLongTask,
+  type LongTaskOptions
 } from './LongTask';
+export {
+  Memory,
+  observeMemory,
+  resetMemory,
+  type MemoryOptions,
+  DEFAULT_MEMORY_INTERVAL,
+  DEFAULT_GROWTH_SAMPLES
+} from './Memory';
 export {
   NetworkTiming,
   observeNetworkTiming,
-  resetNetworkTiming
+  resetNetworkTiming,
+  type NetworkTimingOptions
 } from './NetworkTiming';
 export {
   ResourceTiming,
   observeResourceTiming,
-  resetResourceTiming
+  resetResourceTiming,
+  type ResourceTimingOptions,
+  DEFAULT_IGNORED_RESOURCES
 } from './ResourceTiming';
+export {
+  SoftNavigation,
+  observeSoftNavigation,
+  resetSoftNavigation,
+  type RouteView,
+  type SoftNavigationAware,
+  type SoftNavigationOptions
+} from './SoftNavigation';
+export {
+  TotalBlockingTime,
+  observeTotalBlockingTime,
+  resetTotalBlockingTime,
+  type TotalBlockingTimeOptions
+} from './TotalBlockingTime';
+export {
+  UserTiming,
+  observeUserTiming,
+  resetUserTiming,
+  type UserTimingOptions
+} from './UserTiming';
@@ -2,35 +2,46 @@ import { CLSCollection } from '@/reports/web-vitals/CLSCollection';
 import { CLSReport } from '@/reports/web-vitals/CLSReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import type { SoftNavigationAware } from '@/metrics/performance/SoftNavigation';
+import type { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
 import type { LayoutShiftEntry } from '@/types/PerformanceEntryTypes';
+import type { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export type CLSOptions = PerformanceMetricObserverOptions<LayoutShiftEntry>;
 
 /**
  * Observer for capturing Cumulative Layout Shift (CLS) metrics using LayoutShiftEntry.
- * CLS measures the sum of all unexpected layout shifts that occur during the lifespan of a page.
+ * CLS measures the largest burst of unexpected layout shifts that occur during the lifespan of a page.
  * This metric is crucial for assessing visual stability and user experience.
  * 
- * CLS is calculated as the sum of all individual layout shift scores throughout the page lifecycle.
- * The observer maintains a collection of individual layout shifts and emits updates only when
- * the cumulative score changes significantly to avoid excessive notifications.
+ * Shifts are grouped into session windows (1s gap, 5s max) and CLS is the score of the worst window.
+ * The observer maintains a collection of individual layout shifts and emits an updated collection
+ * every time new shifts are recorded.
+ * 
+ * On soft navigations (see startSoftNavigation) the shifts of the previous route are discarded,
+ * so CLS is measured per route. Shifts before a restore from the back/forward cache are
+ * discarded the same way.
  * 
  * Thresholds:
  * - Good: < 0.1
  * - Needs Improvement: 0.1 - 0.25
  * - Poor: >= 0.25
  */
-export class CLS extends PerformanceMetricObserver<CLSCollection> {
+export class CLS extends PerformanceMetricObserver<CLSCollection, LayoutShiftEntry> implements SoftNavigationAware {
   private static instance: CLS | null = null;
   private reports: CLSReport[] = [];
+  private navigationStart = 0;
 
-  private constructor() {
-    super('layout-shift');
+  constructor(options: CLSOptions = {}) {
+    super('layout-shift', {}, options);
   }
 
   /**
    * Get the singleton instance of the CLS observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeCLS() factory function instead.
+   * **Note:** Use observeCLS() instead, or `new CLS(options)` for an independent instance.
    *
    * @returns Singleton instance of the CLS observer.
    */
@@ -53,6 +64,23 @@ export class CLS extends PerformanceMetricObserver<CLSCollection> {
   public override dispose(): void {
     super.dispose();
     this.reports = [];
+    this.navigationStart = 0;
+  }
+
+  /**
+   * Starts measuring the route of the soft navigation: shifts recorded before it are discarded.
+   */
+  public startSoftNavigation(navigation: SoftNavigationReport): void {
+    this.startMeasurement(navigation.occurredAt);
+  }
+
+  protected override onBFCacheRestore(restoredAt: PerformanceTime): void {
+    this.startMeasurement(restoredAt);
+  }
+
+  private startMeasurement(start: PerformanceTime): void {
+    this.reports = [];
+    this.navigationStart = start.relativeTime;
   }
 
   protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
@@ -62,6 +90,8 @@ export class CLS extends PerformanceMetricObserver<CLSCollection> {
     for (const entry of entries) {
       // Skip layout shifts caused by user input (within 500ms)
       if (entry.hadRecentInput) continue;
+      // Skip layout shifts of a previous route
+      if (entry.startTime < this.navigationStart) continue;
       
       const report = CLSReport.fromLayoutShiftEntry(generateId(), entry);
       this.reports.push(report);
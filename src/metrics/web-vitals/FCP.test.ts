@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { documentLifecycleHelper } from '@/test/helpers/DocumentLifecycleHelper';
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { PerformanceNavigationTimingMother } from '@/test/mothers/PerformanceNavigationTimingMother';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import { PerformancePaintTimingMother } from '@/test/mothers/PerformancePaintTimingMother';
+import type { FCPReport } from '@/reports/web-vitals/FCPReport';
+import { PageLifecycle, SUPPRESSION_REASONS } from '@/shared/PageLifecycle';
+
+import { FCP } from './FCP';
+
+describe('FCP', () => {
+  let observer: FCP;
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+    documentLifecycleHelper.mock();
+    observer = new FCP();
+  });
+
+  afterEach(() => {
+    observer.dispose();
+    PageLifecycle.resetInstance();
+    documentLifecycleHelper.unmock();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should report the first contentful paint', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('paint', [
+      PerformancePaintTimingMother.withFirstPaint(),
+      PerformancePaintTimingMother.withCustomValues({ startTime: 1600 }),
+    ]);
+
+    // Then
+    const report: FCPReport = onSuccess.mock.calls[0][0];
+    expect(report.value).toBe(1600);
+    expect(observer.suppressionReason).toBeNull();
+  });
+
+  describe('when the page is prerendered', () => {
+    it('should observe once the page is activated', () => {
+      // Given
+      documentLifecycleHelper.mock({ visibilityState: 'hidden', prerendering: true });
+      observer.onSuccess(vi.fn());
+
+      // When
+      const observedBeforeActivation = performanceObserverHelper.observedEntryTypes();
+      documentLifecycleHelper.activate();
+
+      // Then
+      expect(observedBeforeActivation).toEqual([]);
+      expect(performanceObserverHelper.observedEntryTypes()).toEqual(['paint']);
+    });
+
+    it('should measure FCP from the activation', () => {
+      // Given
+      const navigation: PerformanceNavigationTimingEntry = {
+        ...PerformanceNavigationTimingMother.custom({}),
+        activationStart: 1200,
+      };
+      vi.mocked(performance.getEntriesByType).mockReturnValue([navigation]);
+      const onSuccess = vi.fn();
+      observer.onSuccess(onSuccess);
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withCustomValues({ startTime: 1600 })]);
+
+      // Then
+      const report: FCPReport = onSuccess.mock.calls[0][0];
+      expect(report.value).toBe(400);
+    });
+  });
+
+  describe('when the page was hidden before the first paint', () => {
+    it('should suppress FCP and record why', () => {
+      // Given
+      const onSuccess = vi.fn();
+      observer.onSuccess(onSuccess);
+      vi.mocked(performance.now).mockReturnValue(1000);
+      documentLifecycleHelper.hide();
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withCustomValues({ startTime: 1600 })]);
+
+      // Then
+      expect(onSuccess).not.toHaveBeenCalled();
+      expect(observer.suppressionReason).toBe(SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC);
+    });
+
+    it('should suppress FCP of pages loaded in a background tab', () => {
+      // Given
+      documentLifecycleHelper.mock({ visibilityState: 'hidden' });
+      const onSuccess = vi.fn();
+      observer.onSuccess(onSuccess);
+
+      // When
+      performanceObserverHelper.emit('paint', [PerformancePaintTimingMother.withCustomValues({ startTime: 400 })]);
+
+      // Then
+      expect(onSuccess).not.toHaveBeenCalled();
+      expect(observer.suppressionReason).toBe(SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC);
+    });
+  });
+});
@@ -1,6 +1,13 @@
 import { FCPReport } from '@/reports/web-vitals/FCPReport';
+import { afterNextPaint } from '@/shared/afterNextPaint';
 import { generateId } from '@/shared/generateId';
+import { PageLifecycle, type SuppressionReason } from '@/shared/PageLifecycle';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export type FCPOptions = PerformanceMetricObserverOptions<PerformancePaintTiming>;
 
 /**
  * Observer for capturing First Contentful Paint (FCP) metrics using PerformancePaintTiming.
@@ -9,19 +16,29 @@ import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
  * 
  * **Single Event**: This observer automatically stops after emitting the first FCP report.
  * Use dispose() only for cleanup if needed before the event occurs.
+ * 
+ * Pages restored from the back/forward cache emit one more report for the restored page view,
+ * measured from the restore until the next frame was painted.
+ * 
+ * Prerendered pages are observed once activated and FCP is measured from the activation.
+ * FCP is not reported when the page was hidden before the first paint (e.g. loaded in a
+ * background tab); suppressionReason records why.
  */
-export class FCP extends PerformanceMetricObserver<FCPReport> {
+export class FCP extends PerformanceMetricObserver<FCPReport, PerformancePaintTiming> {
   private static instance: FCP | null = null;
+  protected override readonly startsAfterActivation = true;
+  /** Why FCP was not reported, null unless it was suppressed */
+  public suppressionReason: SuppressionReason | null = null;
 
-  private constructor() {
-    super('paint');
+  constructor(options: FCPOptions = {}) {
+    super('paint', {}, options);
   }
 
   /**
    * Get the singleton instance of the FCP observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeFCP() factory function instead.
+   * **Note:** Use observeFCP() instead, or `new FCP(options)` for an independent instance.
    * 
    * @returns Singleton instance of the FCP observer.
    */
@@ -46,16 +63,33 @@ export class FCP extends PerformanceMetricObserver<FCPReport> {
     for (const entry of entries) {
       const fcpEntry = entry as PerformancePaintTiming;
       if (fcpEntry.name !== 'first-contentful-paint') continue;
-      const report = FCPReport.fromPerformancePaintTiming(
-        generateId(),
-        fcpEntry
-      );
-      this.notifySuccess(report);
+      const pageLifecycle = PageLifecycle.getInstance();
+      this.suppressionReason = pageLifecycle.suppressionReasonOf(fcpEntry.startTime);
+      if (!this.suppressionReason) {
+        const report = FCPReport.fromPerformancePaintTiming(
+          generateId(),
+          fcpEntry,
+          pageLifecycle.activationStart
+        );
+        this.notifySuccess(report);
+      }
       // FCP is a single-event metric - stop observing after first emission
       this.stop();
       break;
     }
   }
+
+  protected override onBFCacheRestore(restoredAt: PerformanceTime): void {
+    this.suppressionReason = null;
+    afterNextPaint(() => {
+      try {
+        this.notifySuccess(FCPReport.fromBFCacheRestore(generateId(), restoredAt, PerformanceTime.now()));
+      }
+      catch (error) {
+        this.notifyError(new PerformanceHandlerException(error));
+      }
+    });
+  }
 }
 
 /**
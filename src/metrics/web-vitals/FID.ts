@@ -1,6 +1,9 @@
 import { FIDReport } from '@/reports/web-vitals/FIDReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+
+export type FIDOptions = PerformanceMetricObserverOptions<PerformanceEventTiming>;
 
 /**
  * Observer for capturing First Input Delay (FID) metrics using PerformanceEventTiming.
@@ -11,18 +14,18 @@ import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
  * **Single Event**: This observer automatically stops after emitting the first FID report.
  * Use dispose() only for cleanup if needed before the event occurs.
  */
-export class FID extends PerformanceMetricObserver<FIDReport> {
+export class FID extends PerformanceMetricObserver<FIDReport, PerformanceEventTiming> {
   private static instance: FID | null = null;
 
-  private constructor() {
-    super('first-input');
+  constructor(options: FIDOptions = {}) {
+    super('first-input', {}, options);
   }
 
   /**
    * Get the singleton instance of the FID observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeFID() factory function instead.
+   * **Note:** Use observeFID() instead, or `new FID(options)` for an independent instance.
    *
    * @returns Singleton instance of the FID observer.
    */
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { PerformanceEventTimingMother } from '@/test/mothers/PerformanceEventTimingMother';
+import { SoftNavigationReportMothers } from '@/test/mothers/SoftNavigationReportMothers';
+import type { INPCollection } from '@/reports/web-vitals/INPCollection';
+
+import { INP } from './INP';
+
+const eventEntry = (interactionId: number, name: string, duration: number, startTime = 1000) =>
+  PerformanceEventTimingMother.withCustomValues({ interactionId, name, duration, startTime });
+
+describe('INP', () => {
+  let observer: INP;
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+    observer = new INP();
+  });
+
+  afterEach(() => {
+    observer.dispose();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should group the events of an interaction and keep the longest one', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('event', [
+      eventEntry(1, 'pointerdown', 40),
+      eventEntry(1, 'pointerup', 24),
+      eventEntry(1, 'click', 120),
+      eventEntry(2, 'keydown', 64),
+    ]);
+
+    // Then
+    const collection: INPCollection = onSuccess.mock.calls[0][0];
+    expect(collection.interactionCount).toBe(2);
+    expect(collection.reports.map(report => [report.interactionId, report.eventName, report.value])).toEqual([
+      [1, 'click', 120],
+      [2, 'keydown', 64],
+    ]);
+    expect(collection.selectedInteraction?.interactionId).toBe(1);
+  });
+
+  it('should measure the phases of an interaction across its events painted in the same frame', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('event', [
+      PerformanceEventTimingMother.withCustomValues({
+        interactionId: 1, name: 'keydown', startTime: 1000, processingStart: 1020, processingEnd: 1100, duration: 120,
+      }),
+      PerformanceEventTimingMother.withCustomValues({
+        interactionId: 1, name: 'keyup', startTime: 1040, processingStart: 1100, processingEnd: 1105, duration: 80,
+      }),
+    ]);
+
+    // Then
+    const report = (onSuccess.mock.calls[0][0] as INPCollection).selectedInteraction;
+    expect(report?.eventName).toBe('keydown');
+    expect(report?.inputDelay.duration).toBe(20);
+    expect(report?.processingTime.duration).toBe(85);
+    expect(report?.presentationDelay.duration).toBe(15);
+  });
+
+  it('should ignore events that are not part of an interaction', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('event', [eventEntry(0, 'mouseover', 200)]);
+
+    // Then
+    expect(onSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should only notify when the INP value changes', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+
+    // When
+    performanceObserverHelper.emit('event', [eventEntry(1, 'click', 300)]);
+    performanceObserverHelper.emit('event', [eventEntry(2, 'click', 80)]);
+    performanceObserverHelper.emit('event', [eventEntry(2, 'pointerup', 400)]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+    const collection: INPCollection = onSuccess.mock.calls[1][0];
+    expect(collection.totalReports).toBe(2);
+    expect(collection.selectedInteraction?.value).toBe(400);
+  });
+
+  it('should only measure the interactions of the current route after a soft navigation', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+    performanceObserverHelper.emit('event', [eventEntry(1, 'click', 300)]);
+
+    // When
+    observer.startSoftNavigation(SoftNavigationReportMothers.to('/checkout', 2000));
+    performanceObserverHelper.emit('event', [
+      eventEntry(2, 'keydown', 400, 1500),
+      eventEntry(3, 'click', 80, 2500),
+    ]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(2);
+    const collection: INPCollection = onSuccess.mock.calls[1][0];
+    expect(collection.reports.map(report => report.interactionId)).toEqual([3]);
+    expect(collection.selectedInteraction?.value).toBe(80);
+  });
+});
@@ -2,28 +2,55 @@ import { INPCollection } from '@/reports/web-vitals/INPCollection';
 import { INPReport } from '@/reports/web-vitals/INPReport';
 import { generateId } from '@/shared/generateId';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import type { SoftNavigationAware } from '@/metrics/performance/SoftNavigation';
+import type { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
 import type { PerformanceEventTimingEntry } from '@/types/PerformanceEntryTypes';
+import type { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export interface INPOptions extends PerformanceMetricObserverOptions<PerformanceEventTimingEntry> {
+  /** Minimum event duration in milliseconds delivered by the browser (default and minimum: 16) */
+  durationThreshold?: number;
+}
+
+/**
+ * Interactions on the page as counted by the browser, including those shorter than the
+ * duration threshold. Returns 0 when performance.interactionCount is not supported.
+ */
+const getInteractionCount = (): number =>
+  (performance as Performance & { interactionCount?: number }).interactionCount ?? 0;
 
 /**
  * Observer for capturing Interaction to Next Paint (INP) metrics using PerformanceEventTiming.
  * INP measures the responsiveness of a webpage by tracking the latency of user interactions,
  * providing insights into how quickly the page responds to user inputs.
  * 
- * INP is calculated as the 98th percentile of all interaction latencies over the entire lifespan of a page.
- * This means that it considers the latency of nearly all interactions, ensuring that occasional slow interactions do not skew the metric.
+ * Event entries are grouped by interactionId, so a pointerdown/pointerup/click sequence counts as a
+ * single interaction whose latency is the longest event duration and whose phases span the events painted in its frame.
+ * INP is the slowest interaction over the entire lifespan of the page, ignoring one outlier for every
+ * 50 interactions (see INPCollection).
+ * On soft navigations (see startSoftNavigation) the interactions of the previous route are discarded,
+ * so INP is measured per route. Interactions before a restore from the back/forward cache are
+ * discarded the same way.
  * The goal is to keep the INP value low, indicating that the page is responsive and provides a good user experience.
  */
-export class INP extends PerformanceMetricObserver<INPCollection> {
+export class INP extends PerformanceMetricObserver<INPCollection, PerformanceEventTimingEntry> implements SoftNavigationAware {
   private static instance: INP | null = null;
-  private reports: INPReport[] = [];
-  private lastPercentile98: number | null = null;
+  private interactions = new Map<number, INPReport>();
+  /** Event entries of each interaction, its phases are built from them */
+  private interactionEntries = new Map<number, [PerformanceEventTimingEntry, ...PerformanceEventTimingEntry[]]>();
+  private lastValue: number | null = null;
+  private navigationStart = 0;
+  /** Interactions counted by the browser before the current route */
+  private interactionCountOffset = 0;
 
-  private constructor() {
+  constructor(options: INPOptions = {}) {
     super(
       'event',
       {
-        durationThreshold: 16,
-      }
+        durationThreshold: Math.max(options.durationThreshold ?? 16, 16),
+      },
+      options
     );
   }
 
@@ -31,7 +58,7 @@ export class INP extends PerformanceMetricObserver<INPCollection> {
    * Get the singleton instance of the INP observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeINP() factory function instead.
+   * **Note:** Use observeINP() instead, or `new INP(options)` for an independent instance.
    *
    * @returns Singleton instance of the INP observer.
    */
@@ -53,45 +80,70 @@ export class INP extends PerformanceMetricObserver<INPCollection> {
 
   public override dispose(): void {
     super.dispose();
-    this.reports = [];
-    this.lastPercentile98 = null;
+    this.interactions = new Map();
+    this.interactionEntries = new Map();
+    this.lastValue = null;
+    this.navigationStart = 0;
+    this.interactionCountOffset = 0;
+  }
+
+  /**
+   * Starts measuring the route of the soft navigation: interactions before it are discarded.
+   */
+  public startSoftNavigation(navigation: SoftNavigationReport): void {
+    this.startMeasurement(navigation.occurredAt);
+  }
+
+  protected override onBFCacheRestore(restoredAt: PerformanceTime): void {
+    this.startMeasurement(restoredAt);
+  }
+
+  private startMeasurement(start: PerformanceTime): void {
+    this.interactions = new Map();
+    this.interactionEntries = new Map();
+    this.lastValue = null;
+    this.navigationStart = start.relativeTime;
+    this.interactionCountOffset = getInteractionCount();
   }
 
   protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
     const entries = entryList.getEntries() as PerformanceEventTimingEntry[];
-    const reportsSizeBefore = this.reports.length;
-    
+    let hasChanged = false;
+
     for (const entry of entries) {
       if (!entry.interactionId) continue;
-      const report = INPReport.fromPerformanceEventTimingEntry(
-        generateId(),
-        entry
+      if (entry.startTime < this.navigationStart) continue;
+
+      const interactionEntries = this.interactionEntries.get(entry.interactionId);
+      if (interactionEntries) interactionEntries.push(entry);
+      else this.interactionEntries.set(entry.interactionId, [entry]);
+
+      const report = INPReport.fromPerformanceEventTimingEntries(
+        this.interactions.get(entry.interactionId)?.id ?? generateId(),
+        interactionEntries ?? [entry]
       );
-      this.reports.push(report);
+      this.interactions.set(entry.interactionId, report);
+      hasChanged = true;
     }
 
-    // If no new reports were added, or if the 98th percentile hasn't changed, do not notify
-    if (this.reports.length === reportsSizeBefore) return;
+    if (!hasChanged) return;
 
-    // If the 98th percentile hasn't changed, do not notify
-    const currentPercentile98 = this.calculatePercentile98Value();
-    if (currentPercentile98 === this.lastPercentile98) return;
+    const inpCollection = INPCollection.create(
+      generateId(),
+      Array.from(this.interactions.values()),
+      getInteractionCount() - this.interactionCountOffset
+    );
 
-    const inpCollection = INPCollection.create(generateId(), this.reports);
-    this.lastPercentile98 = currentPercentile98;
-    this.notifySuccess(inpCollection);
-  }
+    // If the INP value hasn't changed, do not notify
+    const currentValue = inpCollection.selectedInteraction?.value ?? null;
+    if (currentValue === this.lastValue) return;
 
-  private calculatePercentile98Value(): number | null {
-    if (this.reports.length === 0) return null;
-    
-    const sorted = [...this.reports].sort((a, b) => a.value - b.value);
-    const index = Math.floor(sorted.length * 0.98);
-    const percentile98Report = sorted[index] || sorted[sorted.length - 1];
-    return percentile98Report.value;
+    this.lastValue = currentValue;
+    this.notifySuccess(inpCollection);
   }
 }
 
+
 /**
  * Get the singleton instance of the INP observer.
  * @returns Singleton instance of the INP observer.
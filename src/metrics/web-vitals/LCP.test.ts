@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { documentLifecycleHelper } from '@/test/helpers/DocumentLifecycleHelper';
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { LargestContentfulPaintMother } from '@/test/mothers/LargestContentfulPaintMother';
+import type { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import { PageLifecycle, SUPPRESSION_REASONS } from '@/shared/PageLifecycle';
+import { SoftNavigationReportMothers } from '@/test/mothers/SoftNavigationReportMothers';
+
+import { LCP } from './LCP';
+
+const candidate = (startTime: number) => LargestContentfulPaintMother.withCustomValues({ startTime, url: '' });
+
+describe('LCP', () => {
+  let observer: LCP;
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    performanceObserverHelper.mock();
+    documentLifecycleHelper.mock();
+    observer = new LCP();
+  });
+
+  afterEach(() => {
+    observer.dispose();
+    PageLifecycle.resetInstance();
+    documentLifecycleHelper.unmock();
+    performanceAPIHelper.unmock();
+    performanceObserverHelper.unmock();
+  });
+
+  it('should observe the candidates of soft navigations', () => {
+    // When
+    observer.onSuccess(vi.fn());
+
+    // Then
+    expect(performanceObserverHelper.observedOptions()).toEqual([
+      { type: 'largest-contentful-paint', buffered: true, includeSoftNavigationObservations: true },
+    ]);
+  });
+
+  it('should ignore candidates rendered after the page was hidden', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+    performanceObserverHelper.emit('largest-contentful-paint', [candidate(800)]);
+    vi.mocked(performance.now).mockReturnValue(1000);
+    documentLifecycleHelper.hide();
+
+    // When
+    performanceObserverHelper.emit('largest-contentful-paint', [candidate(1500)]);
+
+    // Then
+    expect(onSuccess).toHaveBeenCalledTimes(1);
+    const collection: LCPCollection = onSuccess.mock.calls[0][0];
+    expect(collection.reports.map(report => report.value)).toEqual([800]);
+    expect(observer.isFinalized).toBe(true);
+    expect(observer.suppressionReason).toBeNull();
+  });
+
+  it('should suppress LCP and record why when the page was hidden before the first candidate', () => {
+    // Given
+    const onSuccess = vi.fn();
+    observer.onSuccess(onSuccess);
+    vi.mocked(performance.now).mockReturnValue(300);
+    documentLifecycleHelper.hide();
+
+    // When
+    performanceObserverHelper.emit('largest-contentful-paint', [candidate(800), candidate(1500)]);
+
+    // Then
+    expect(onSuccess).not.toHaveBeenCalled();
+    expect(observer.suppressionReason).toBe(SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC);
+  });
+
+  describe('soft navigations', () => {
+    it('should measure the route from the first time the page was hidden since the navigation', () => {
+      // Given
+      const onSuccess = vi.fn();
+      observer.onSuccess(onSuccess);
+      vi.mocked(performance.now).mockReturnValue(300);
+      documentLifecycleHelper.hide();
+      documentLifecycleHelper.mock({ visibilityState: 'visible' });
+      observer.startSoftNavigation(SoftNavigationReportMothers.to('/checkout', 2000));
+
+      // When
+      performanceObserverHelper.emit('largest-contentful-paint', [candidate(2600)]);
+
+      // Then
+      expect(onSuccess).toHaveBeenCalledTimes(1);
+      expect(observer.suppressionReason).toBeNull();
+    });
+
+    it('should not reset the hidden time of the shared page lifecycle', () => {
+      // Given
+      const pageLifecycle = PageLifecycle.getInstance();
+      vi.mocked(performance.now).mockReturnValue(300);
+      documentLifecycleHelper.hide();
+      documentLifecycleHelper.mock({ visibilityState: 'visible' });
+
+      // When
+      observer.startSoftNavigation(SoftNavigationReportMothers.to('/checkout', 2000));
+
+      // Then
+      expect(pageLifecycle.firstHiddenTime).toBe(300);
+    });
+
+    it('should suppress the candidates of the route rendered after the page was hidden', () => {
+      // Given
+      const onSuccess = vi.fn();
+      observer.onSuccess(onSuccess);
+      observer.startSoftNavigation(SoftNavigationReportMothers.to('/checkout', 2000));
+      vi.mocked(performance.now).mockReturnValue(2200);
+      documentLifecycleHelper.hide();
+
+      // When
+      performanceObserverHelper.emit('largest-contentful-paint', [candidate(2600)]);
+
+      // Then
+      expect(onSuccess).not.toHaveBeenCalled();
+      expect(observer.suppressionReason).toBe(SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC);
+    });
+  });
+});
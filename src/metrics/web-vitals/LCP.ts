@@ -1,7 +1,22 @@
 import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
 import { LCPReport } from '@/reports/web-vitals/LCPReport';
+import { afterNextPaint } from '@/shared/afterNextPaint';
 import { generateId } from '@/shared/generateId';
+import { PageLifecycle, SUPPRESSION_REASONS, type SuppressionReason } from '@/shared/PageLifecycle';
 import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import type { SoftNavigationAware } from '@/metrics/performance/SoftNavigation';
+import type { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export type LCPOptions = PerformanceMetricObserverOptions<LargestContentfulPaint>;
+
+/**
+ * First user interactions, after which LCP is finalized.
+ */
+const FINALIZATION_EVENTS = ['click', 'keydown', 'scroll'] as const;
 
 /**
  * Observer for capturing Largest Contentful Paint (LCP) metrics using LargestContentfulPaint.
@@ -13,22 +28,56 @@ import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
  * should represent the loading performance as perceived by the user before they interact with the page.
  * 
  * Stopping LCP updates after user interaction helps to avoid skewing the metric with
+ * content rendered in response to the interaction.
+ * 
+ * Each report is correlated with the navigation entry and the resource entry of the LCP
+ * resource to break its value down (TTFB, resource load delay and duration, render delay).
+ * 
+ * On soft navigations (see startSoftNavigation) the candidates of the previous route are
+ * discarded and LCP is no longer finalized, so it is measured per route from the start of the
+ * navigation. The interaction that triggered the navigation does not finalize the new route.
+ * Per-route candidates depend on the browser emitting largest-contentful-paint entries after
+ * a soft navigation (includeSoftNavigationObservations).
+ * 
+ * Pages restored from the back/forward cache emit no candidates: a collection with a single
+ * report measured from the restore until the next frame was painted is emitted, and LCP is
+ * finalized for the restored page view.
+ * 
+ * Prerendered pages are observed once activated and LCP is measured from the activation.
+ * Candidates rendered after the page was hidden are ignored and finalize LCP; when the page
+ * was hidden before the first candidate (e.g. loaded in a background tab) LCP is not
+ * reported and suppressionReason records why. On the route of a soft navigation the page
+ * counts as hidden from the first time it was hidden since the navigation, tracked by the
+ * observer itself so other observers of the shared PageLifecycle are not affected.
  */
-export class LCP extends PerformanceMetricObserver<LCPCollection> {
+export class LCP extends PerformanceMetricObserver<LCPCollection, LargestContentfulPaint> implements SoftNavigationAware {
   private static instance: LCP | null = null;
   private reports: LCPReport[] = [];
+  private navigationStart = 0;
+  /** Start of the route of the last soft navigation, null on the initial page load */
+  private softNavigationStart: PerformanceTime | null = null;
+  /** First time the page was hidden since the start of the route of the last soft navigation */
+  private routeHiddenTime = Infinity;
   private finalizationListenersAdded = false;
+  private visibilityListenerAdded = false;
+  private readonly boundFinalize: () => void;
+  private readonly boundVisibilityChange: () => void;
+  protected override readonly startsAfterActivation = true;
   public isFinalized = false;
+  /** Why LCP was not reported, null unless it was suppressed */
+  public suppressionReason: SuppressionReason | null = null;
 
-  private constructor() {
-    super('largest-contentful-paint');
+  constructor(options: LCPOptions = {}) {
+    super('largest-contentful-paint', { includeSoftNavigationObservations: true }, options);
+    this.boundFinalize = this.finalize.bind(this);
+    this.boundVisibilityChange = this.handleVisibilityChange.bind(this);
   }
 
   /**
    * Get the singleton instance of the LCP observer.
    * If the instance does not exist, it creates a new one.
    * 
-   * **Note:** Use observeLCP() factory function instead.
+   * **Note:** Use observeLCP() instead, or `new LCP(options)` for an independent instance.
    *
    * @returns Singleton instance of the LCP observer.
    */
@@ -50,9 +99,38 @@ export class LCP extends PerformanceMetricObserver<LCPCollection> {
 
   public override dispose(): void {
     super.dispose();
+    this.removeFinalizationListeners();
+    this.removeVisibilityListener();
     this.reports = [];
+    this.navigationStart = 0;
+    this.softNavigationStart = null;
+    this.routeHiddenTime = Infinity;
     this.isFinalized = false;
-    this.finalizationListenersAdded = false;
+    this.suppressionReason = null;
+  }
+
+  /**
+   * Starts measuring the route of the soft navigation: candidates before it are discarded and
+   * observation resumes if the previous route finalized LCP.
+   */
+  public startSoftNavigation(navigation: SoftNavigationReport): void {
+    // Navigations through the History API happen while the triggering click or keydown is
+    // dispatched: removed listeners are not called, so it does not finalize the new route
+    this.removeFinalizationListeners();
+    this.reports = [];
+    this.navigationStart = navigation.occurredAt.relativeTime;
+    this.softNavigationStart = navigation.occurredAt;
+    this.suppressionReason = null;
+    this.routeHiddenTime = document.visibilityState === 'hidden' ? this.navigationStart : Infinity;
+    if (!this.visibilityListenerAdded) {
+      // Capture phase, so the hidden time is known before the candidates it suppresses
+      window.addEventListener('visibilitychange', this.boundVisibilityChange, true);
+      this.visibilityListenerAdded = true;
+    }
+    if (!this.isFinalized) return;
+
+    this.isFinalized = false;
+    this.resume();
   }
 
   protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
@@ -67,8 +145,27 @@ export class LCP extends PerformanceMetricObserver<LCPCollection> {
     const entries = entryList.getEntries() as LargestContentfulPaint[];
     const reportsSizeBefore = this.reports.length;
     
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTimingEntry | undefined;
+    const pageLifecycle = PageLifecycle.getInstance();
     for (const entry of entries) {
-      const report = LCPReport.fromLargestContentfulPaint(generateId(), entry);
+      // Skip candidates of a previous route, delivered again when observation resumes
+      if (entry.startTime < this.navigationStart) continue;
+
+      const suppressionReason = this.softNavigationStart
+        ? this.routeSuppressionReasonOf(entry.startTime)
+        : pageLifecycle.suppressionReasonOf(entry.startTime);
+      if (suppressionReason) {
+        if (this.reports.length === 0) this.suppressionReason = suppressionReason;
+        this.finalize();
+        break;
+      }
+
+      const resource = entry.url
+        ? performance.getEntriesByName(entry.url, 'resource')[0] as PerformanceResourceTiming | undefined
+        : undefined;
+      const report = this.softNavigationStart
+        ? LCPReport.fromSoftNavigationLargestContentfulPaint(generateId(), entry, this.softNavigationStart, resource)
+        : LCPReport.fromLargestContentfulPaint(generateId(), entry, { navigation, resource });
       this.reports.push(report);
     }
 
@@ -84,20 +181,59 @@ export class LCP extends PerformanceMetricObserver<LCPCollection> {
    * Once any of these interactions occur, LCP will stop updating and emit a final collection.
    */
   private setupFinalizationListeners(): void {
-    const finalizationEvents = ['click', 'keydown', 'scroll'] as const;
-
-    const finalizeHandler = () => {
-      this.isFinalized = true;
-      this.stop();
-    };
-    
-    finalizationEvents.forEach(eventType => {
-      document.addEventListener(eventType, finalizeHandler, { 
+    FINALIZATION_EVENTS.forEach(eventType => {
+      document.addEventListener(eventType, this.boundFinalize, { 
         once: true, 
         passive: true 
       });
     });
   }
+
+  private removeFinalizationListeners(): void {
+    if (!this.finalizationListenersAdded) return;
+    FINALIZATION_EVENTS.forEach(eventType => {
+      document.removeEventListener(eventType, this.boundFinalize);
+    });
+    this.finalizationListenersAdded = false;
+  }
+
+  private routeSuppressionReasonOf(time: number): SuppressionReason | null {
+    return time >= this.routeHiddenTime ? SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC : null;
+  }
+
+  private handleVisibilityChange(): void {
+    if (document.visibilityState !== 'hidden') return;
+    this.routeHiddenTime = Math.min(this.routeHiddenTime, performance.now());
+  }
+
+  private removeVisibilityListener(): void {
+    if (!this.visibilityListenerAdded) return;
+    window.removeEventListener('visibilitychange', this.boundVisibilityChange, true);
+    this.visibilityListenerAdded = false;
+  }
+
+  protected override onBFCacheRestore(restoredAt: PerformanceTime): void {
+    this.reports = [];
+    this.navigationStart = restoredAt.relativeTime;
+    this.softNavigationStart = null;
+    this.suppressionReason = null;
+    this.finalize();
+
+    afterNextPaint(() => {
+      try {
+        this.reports = [LCPReport.fromBFCacheRestore(generateId(), restoredAt, PerformanceTime.now())];
+        this.notifySuccess(LCPCollection.create(generateId(), this.reports));
+      }
+      catch (error) {
+        this.notifyError(new PerformanceHandlerException(error));
+      }
+    });
+  }
+
+  private finalize(): void {
+    this.isFinalized = true;
+    this.stop();
+  }
 }
 
 /**
@@ -0,0 +1,77 @@
+import { TTFBReport } from '@/reports/web-vitals/TTFBReport';
+import { generateId } from '@/shared/generateId';
+import { PerformanceMetricObserver } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceMetricObserverOptions } from '@/shared/PerformanceMetricObserver';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+
+export type TTFBOptions = PerformanceMetricObserverOptions<PerformanceNavigationTimingEntry>;
+
+/**
+ * Observer for capturing Time to First Byte (TTFB) metrics using PerformanceNavigationTiming.
+ * TTFB measures how long the browser waited for the first byte of the document,
+ * providing insight into server and network responsiveness.
+ * 
+ * On prerendered pages, TTFB is measured from the activation of the page (activationStart).
+ * 
+ * **Single Event**: This observer automatically stops after emitting the first TTFB report.
+ * Use dispose() only for cleanup if needed before the event occurs.
+ */
+export class TTFB extends PerformanceMetricObserver<TTFBReport, PerformanceNavigationTimingEntry> {
+  private static instance: TTFB | null = null;
+
+  constructor(options: TTFBOptions = {}) {
+    super('navigation', {}, options);
+  }
+
+  /**
+   * Get the singleton instance of the TTFB observer.
+   * If the instance does not exist, it creates a new one.
+   * 
+   * **Note:** Use observeTTFB() instead, or `new TTFB(options)` for an independent instance.
+   *
+   * @returns Singleton instance of the TTFB observer.
+   */
+  public static getInstance(): TTFB {
+    if (!TTFB.instance) {
+      TTFB.instance = new TTFB();
+    }
+    return TTFB.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the TTFB observer.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    TTFB.getInstance()?.dispose();
+    TTFB.instance = null;
+  }
+
+  protected override onPerformanceObserver(entryList: PerformanceObserverEntryList): void {
+    const entries = entryList.getEntries() as PerformanceNavigationTimingEntry[];
+    for (const entry of entries) {
+      // The first byte has not been received yet
+      if (entry.responseStart <= 0) continue;
+      const report = TTFBReport.fromPerformanceNavigationTiming(
+        generateId(),
+        entry
+      );
+      this.notifySuccess(report);
+      // TTFB is a single-event metric - stop observing after first emission
+      this.stop();
+      break;
+    }
+  }
+}
+
+/**
+ * Factory function to get the singleton instance of the TTFB observer.
+ * @returns Singleton instance of the TTFB observer.
+ */
+export const observeTTFB = () => TTFB.getInstance();
+
+/**
+ * Reset the singleton instance of the TTFB observer.
+ * This is useful for testing or re-initialization purposes.
+ */
+export const resetTTFB = () => TTFB.resetInstance();
@@ -2,24 +2,39 @@ export {
   CLS,
   observeCLS,
   resetCLS,
+  type CLSOptions
 } from './CLS';
 export {
   FCP,
   observeFCP,
   resetFCP,
+  type FCPOptions
 } from './FCP';
 export {
   FID,
   observeFID,
   resetFID,
+  type FIDOptions
 } from './FID';
 export {
   INP,
   observeINP,
   resetINP,
+  type INPOptions
 } from './INP';
 export {
   LCP,
   observeLCP,
   resetLCP,
+  type LCPOptions
 } from './LCP';
+export {
+  TTFB,
+  observeTTFB,
+  resetTTFB,
+  type TTFBOptions
+} from './TTFB';
+export {
+  SUPPRESSION_REASONS,
+  type SuppressionReason
+} from '@/shared/PageLifecycle';
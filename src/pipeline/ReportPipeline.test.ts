@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { beaconAPIHelper } from '@/test/helpers/BeaconAPIHelper';
+import { FakeObserver } from '@/test/helpers/FakeObserver';
+import { FCPReportMothers } from '@/test/mothers/FCPReportMothers';
+import { LCPReportMothers } from '@/test/mothers/LCPReportMothers';
+import type { RumoraReport } from '@/client/Rumora';
+import { BeaconTransport } from '@/transport/BeaconTransport';
+import { MiddlewareException, ReportSerializationException } from '@/exceptions/PipelineExceptions';
+
+import { MIDDLEWARE_RESULT, type ProcessedReport, ReportPipeline } from './ReportPipeline';
+
+describe('ReportPipeline', () => {
+  let pipeline: ReportPipeline;
+  let processed: ProcessedReport[];
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    processed = [];
+    pipeline = new ReportPipeline().onSuccess(report => processed.push(report));
+  });
+
+  afterEach(() => {
+    pipeline.dispose();
+    performanceAPIHelper.unmock();
+  });
+
+  it('should deliver the serialized report when there is no middleware', () => {
+    // Given
+    const report = FCPReportMothers.poor();
+
+    // When
+    pipeline.process(report);
+
+    // Then
+    expect(processed).toHaveLength(1);
+    expect(processed[0].report).toBe(report);
+    expect(processed[0].toJSON()).toEqual(report.toJSON());
+  });
+
+  it('should run middleware in registration order', () => {
+    // Given
+    const calls: string[] = [];
+    pipeline
+      .use(() => { calls.push('first'); })
+      .use(() => { calls.push('second'); })
+      .use(() => { calls.push('third'); });
+
+    // When
+    pipeline.process(FCPReportMothers.poor());
+
+    // Then
+    expect(calls).toEqual(['first', 'second', 'third']);
+  });
+
+  it('should drop reports filtered out by a middleware', () => {
+    // Given
+    const next = vi.fn();
+    pipeline
+      .use(({ report }) => report.kind === 'web-vital.fcp' ? MIDDLEWARE_RESULT.DROP : MIDDLEWARE_RESULT.CONTINUE)
+      .use(next);
+
+    // When
+    pipeline.process(FCPReportMothers.poor());
+    pipeline.process(LCPReportMothers.good());
+
+    // Then
+    expect(processed.map(item => item.report.kind)).toEqual(['web-vital.lcp']);
+    expect(next).toHaveBeenCalledTimes(1);
+  });
+
+  it('should mutate the serialized copy without touching the report', () => {
+    // Given
+    const report = FCPReportMothers.poor();
+    pipeline.use((item) => {
+      item.payload.name = '[redacted]';
+      delete item.payload.goodThreshold;
+    });
+
+    // When
+    pipeline.process(report);
+
+    // Then
+    expect(processed[0].toJSON()).toMatchObject({ name: '[redacted]' });
+    expect(processed[0].toJSON()).not.toHaveProperty('goodThreshold');
+    expect(report.name).toBe('FIRST_CONTENTFUL_PAINT');
+  });
+
+  it('should send the context alongside the payload', () => {
+    // Given
+    pipeline
+      .use((item) => { item.context.release = '1.2.3'; })
+      .use((item) => { item.context.route = '/checkout'; });
+
+    // When
+    pipeline.process(FCPReportMothers.poor());
+
+    // Then
+    expect(processed[0].toJSON().context).toEqual({ release: '1.2.3', route: '/checkout' });
+  });
+
+  it('should skip the remaining middleware when a middleware delivers early', () => {
+    // Given
+    const skipped = vi.fn();
+    pipeline
+      .use(() => MIDDLEWARE_RESULT.DELIVER)
+      .use(skipped);
+
+    // When
+    pipeline.process(FCPReportMothers.poor());
+
+    // Then
+    expect(processed).toHaveLength(1);
+    expect(skipped).not.toHaveBeenCalled();
+  });
+
+  it('should notify failing middleware as MiddlewareException and keep processing', () => {
+    // Given
+    const onError = vi.fn();
+    pipeline
+      .onError(onError)
+      .use(({ report }) => {
+        if (report.kind === 'web-vital.fcp') throw new Error('boom');
+      }, 'redact');
+
+    // When
+    pipeline.process(FCPReportMothers.poor());
+    pipeline.process(LCPReportMothers.good());
+
+    // Then
+    const [[error]] = onError.mock.calls;
+    expect(error).toBeInstanceOf(MiddlewareException);
+    expect(error.middleware).toBe('redact');
+    expect(error.cause).toEqual(new Error('boom'));
+    expect(processed.map(item => item.report.kind)).toEqual(['web-vital.lcp']);
+  });
+
+  it('should notify reports that cannot be serialized as ReportSerializationException', () => {
+    // Given
+    const source = new FakeObserver<RumoraReport>();
+    const onError = vi.fn();
+    const unserializable = Object.create(FCPReportMothers.poor(), {
+      toJSON: { value: () => { throw new Error('circular'); } },
+    }) as RumoraReport;
+    pipeline.onError(onError).observe(source);
+
+    // When
+    source.emit(unserializable);
+    source.emit(LCPReportMothers.good());
+
+    // Then
+    const [[error]] = onError.mock.calls;
+    expect(error).toBeInstanceOf(ReportSerializationException);
+    expect(error.kind).toBe('web-vital.fcp');
+    expect(error.cause).toEqual(new Error('circular'));
+    expect(processed.map(item => item.report.kind)).toEqual(['web-vital.lcp']);
+  });
+
+  it('should process reports and forward errors of the observed sources', () => {
+    // Given
+    const source = new FakeObserver<RumoraReport>();
+    const onError = vi.fn();
+    pipeline.onError(onError).observe(source);
+
+    // When
+    source.emit(FCPReportMothers.poor());
+    source.fail(new Error('unsupported'));
+    pipeline.unobserve(source);
+    source.emit(FCPReportMothers.poor());
+
+    // Then
+    expect(processed).toHaveLength(1);
+    expect(onError).toHaveBeenCalledWith(new Error('unsupported'));
+  });
+
+  it('should feed a transport with the processed payloads', async () => {
+    // Given
+    beaconAPIHelper.mock();
+    const transport = new BeaconTransport({ endpoint: 'https://collector.example.com/rum' });
+    pipeline.use((item) => { item.context.release = '1.2.3'; });
+    transport.observe(pipeline);
+
+    // When
+    pipeline.process(FCPReportMothers.poor());
+    await transport.flush();
+
+    // Then
+    expect(beaconAPIHelper.beaconBodies()).toEqual([[expect.objectContaining({
+      kind: 'web-vital.fcp',
+      context: { release: '1.2.3' },
+    })]]);
+    transport.dispose();
+    beaconAPIHelper.unmock();
+  });
+});
@@ -0,0 +1,188 @@
+import type { RumoraReport } from '@/client/Rumora';
+import type { ErrorCallback, SuccessCallback } from '@/shared/FallibleObserver';
+import type { SerializableReport } from '@/transport/BeaconTransport';
+import { FallibleObserver } from '@/shared/FallibleObserver';
+import { MiddlewareException, ReportSerializationException } from '@/exceptions/PipelineExceptions';
+
+/**
+ * Values a middleware can return to control the rest of the pipeline.
+ * Returning nothing is the same as CONTINUE.
+ */
+export const MIDDLEWARE_RESULT = {
+  /** Pass the report to the next middleware */
+  CONTINUE: 'continue',
+  /** Discard the report: it reaches no subscriber or transport */
+  DROP: 'drop',
+  /** Skip the remaining middleware and deliver the report as it is */
+  DELIVER: 'deliver',
+} as const;
+
+export type MiddlewareResult = (typeof MIDDLEWARE_RESULT)[keyof typeof MIDDLEWARE_RESULT];
+
+/**
+ * Report travelling through the pipeline.
+ */
+export interface PipelineReport {
+  /** Report emitted by the observer (immutable) */
+  readonly report: RumoraReport;
+  /** Serialized copy of the report, free to be mutated or replaced */
+  payload: Record<string, unknown>;
+  /** Context sent alongside the payload as its `context` field */
+  context: Record<string, unknown>;
+}
+
+/**
+ * Filters, transforms or enriches a report. Runs synchronously, in registration order.
+ */
+export type ReportMiddleware =
+  | ((report: PipelineReport) => MiddlewareResult)
+  | ((report: PipelineReport) => void);
+
+/**
+ * Report that went through every middleware. Its toJSON() output is the wire payload.
+ */
+export interface ProcessedReport extends SerializableReport {
+  readonly report: RumoraReport;
+  readonly payload: Readonly<Record<string, unknown>>;
+  readonly context: Readonly<Record<string, unknown>>;
+  toJSON(): Record<string, unknown>;
+}
+
+/**
+ * Observer emitting reports, such as any metric or error observer.
+ */
+export interface PipelineSource {
+  onSuccess(callback: SuccessCallback<RumoraReport>): unknown;
+  onError(callback: ErrorCallback): unknown;
+  removeSuccessCallback(callback: SuccessCallback<RumoraReport>): void;
+  removeErrorCallback(callback: ErrorCallback): void;
+}
+
+interface RegisteredMiddleware {
+  name: string;
+  middleware: ReportMiddleware;
+}
+
+const toProcessedReport = ({ report, payload, context }: PipelineReport): ProcessedReport => {
+  const wirePayload = Object.keys(context).length === 0 ? payload : { ...payload, context };
+  return Object.freeze({
+    report,
+    payload,
+    context,
+    toJSON: () => wirePayload,
+  });
+};
+
+/**
+ * Composable layer between observers and their subscribers or transports.
+ *
+ * Every report is serialized once and handed to each middleware in registration
+ * order. Middleware can drop it, mutate or replace the serialized copy, add
+ * context, or deliver it early, skipping the remaining middleware. Reports leave
+ * the pipeline in the order they entered it.
+ *
+ * A middleware that throws does not break the stream: the report it was handling
+ * is dropped and a MiddlewareException is notified through onError, as is a
+ * ReportSerializationException for a report that cannot be serialized. Errors of
+ * the observed sources are forwarded through onError as well.
+ *
+ * The pipeline is a valid transport source: `transport.observe(pipeline)` sends
+ * the processed payloads.
+ */
+export class ReportPipeline extends FallibleObserver<ProcessedReport> {
+  private readonly middleware: RegisteredMiddleware[] = [];
+  private readonly observed = new Set<PipelineSource>();
+
+  private readonly boundProcess: (report: RumoraReport) => void;
+  private readonly boundHandleSourceError: (error: Error) => void;
+
+  constructor(middleware: ReportMiddleware[] = []) {
+    super();
+    middleware.forEach(entry => this.use(entry));
+    this.boundProcess = this.process.bind(this);
+    this.boundHandleSourceError = this.handleSourceError.bind(this);
+  }
+
+  /**
+   * Appends a middleware. The name identifies it in MiddlewareException
+   * (default: the function name, or its position).
+   */
+  public use(middleware: ReportMiddleware, name?: string): this {
+    const position = this.middleware.length;
+    this.middleware.push({
+      name: name ?? (middleware.name || `#${position}`),
+      middleware,
+    });
+    return this;
+  }
+
+  /**
+   * Processes every report and error emitted by the given sources.
+   */
+  public observe(...sources: PipelineSource[]): this {
+    for (const source of sources) {
+      if (this.observed.has(source)) continue;
+
+      this.observed.add(source);
+      source.onSuccess(this.boundProcess);
+      source.onError(this.boundHandleSourceError);
+    }
+    return this;
+  }
+
+  /**
+   * Stops processing reports emitted by the given source.
+   */
+  public unobserve(source: PipelineSource): void {
+    if (!this.observed.delete(source)) return;
+
+    source.removeSuccessCallback(this.boundProcess);
+    source.removeErrorCallback(this.boundHandleSourceError);
+  }
+
+  /**
+   * Runs a report through the middleware and notifies the result, unless it is dropped.
+   */
+  public process(report: RumoraReport): void {
+    let payload: Record<string, unknown>;
+    try {
+      payload = JSON.parse(JSON.stringify(report));
+    }
+    catch (error) {
+      this.notifyError(new ReportSerializationException(report.kind, error));
+      return;
+    }
+
+    const item: PipelineReport = { report, payload, context: {} };
+
+    for (const { name, middleware } of this.middleware) {
+      let result: unknown;
+      try {
+        result = middleware(item);
+      }
+      catch (error) {
+        this.notifyError(new MiddlewareException(name, error));
+        return;
+      }
+
+      if (result === MIDDLEWARE_RESULT.DROP) return;
+      if (result === MIDDLEWARE_RESULT.DELIVER) break;
+    }
+
+    this.notifySuccess(toProcessedReport(item));
+  }
+
+  /**
+   * Unsubscribes from every source and removes every subscriber.
+   */
+  public dispose(): void {
+    for (const source of Array.from(this.observed)) {
+      this.unobserve(source);
+    }
+    this.clearSubscribers();
+  }
+
+  private handleSourceError(error: Error): void {
+    this.notifyError(error);
+  }
+}
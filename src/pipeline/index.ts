@@ -0,0 +1,9 @@
+export {
+  ReportPipeline,
+  MIDDLEWARE_RESULT,
+  type MiddlewareResult,
+  type PipelineReport,
+  type PipelineSource,
+  type ProcessedReport,
+  type ReportMiddleware
+} from './ReportPipeline';
@@ -1,7 +1,9 @@
 import type { Entity } from '../reports/Entity';
 import type { PerformanceTime } from '../value-objects/PerformanceTime';
+import type { ReportKind } from '../types/ReportKinds';
 
 export interface Report extends Entity {
+  readonly kind: ReportKind;
   readonly createdAt: PerformanceTime;
   readonly occurredAt: PerformanceTime;
 }
@@ -1,6 +1,7 @@
 
 import type { Report } from '@/reports/Report';
 import type { PerformanceTime } from '@/value-objects/PerformanceTime';
+import type { ReportKind } from '@/types/ReportKinds';
 
 export interface ReportCollectionData<T extends Report = Report> {  
   id: string;
@@ -16,6 +17,7 @@ export interface ReportCollectionData<T extends Report = Report> {
  * type-specific behavior and representations.
  */
 export abstract class ReportCollection<T extends Report> {
+  public abstract readonly kind: ReportKind;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly reports: readonly T[];
@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { LCPReportMothers } from '@/test/mothers/LCPReportMothers';
+import { FCPReportMothers } from '@/test/mothers/FCPReportMothers';
+import { INPReportMothers } from '@/test/mothers/INPReportMothers';
+import { SerializableReportMothers } from '@/test/mothers/SerializableReportMothers';
+import { INPCollection } from '@/reports/web-vitals/INPCollection';
+import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import { LCPReport } from '@/reports/web-vitals/LCPReport';
+import {
+  InvalidFieldException,
+  InvalidPayloadException,
+  ReportKindMismatchException,
+  UnknownReportKindException,
+  UnsupportedSchemaVersionException
+} from '@/exceptions/SerializationExceptions';
+
+import { deserializeReport } from './deserializeReport';
+
+const serialize = (report: { toJSON(): unknown }): unknown => JSON.parse(JSON.stringify(report));
+
+describe('deserializeReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    windowLocationHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+    windowLocationHelper.unmock();
+  });
+
+  describe('round trip', () => {
+    it.each(SerializableReportMothers.all())('should rehydrate a serialized %s', (className, report) => {
+      // When
+      const result = deserializeReport(serialize(report));
+
+      // Then
+      expect(result.constructor.name).toBe(className);
+      expect(result.kind).toBe(report.kind);
+      expect(serialize(result)).toEqual(serialize(report));
+    });
+
+    it('should rehydrate the reports of a collection', () => {
+      // Given
+      const collection = LCPCollection.create('lcp-collection', [LCPReportMothers.good(), LCPReportMothers.poor()]);
+
+      // When
+      const result = deserializeReport(serialize(collection)) as LCPCollection;
+
+      // Then
+      expect(result.reports).toHaveLength(2);
+      expect(result.reports.every(report => report instanceof LCPReport)).toBe(true);
+      expect(result.lastReport?.value).toBe(collection.lastReport?.value);
+    });
+  });
+
+  describe('validation', () => {
+    it('should throw InvalidPayloadException when the payload is not an object', () => {
+      // When & Then
+      expect(() => deserializeReport('lcp')).toThrow(InvalidPayloadException);
+      expect(() => deserializeReport([])).toThrow(InvalidPayloadException);
+    });
+
+    it('should throw UnknownReportKindException when the kind is not registered', () => {
+      // Given
+      const payload = { ...serialize(LCPReportMothers.good()) as object, kind: 'web-vital.unknown' };
+
+      // When & Then
+      expect(() => deserializeReport(payload)).toThrow(UnknownReportKindException);
+    });
+
+    it('should throw InvalidFieldException naming the invalid field', () => {
+      // Given
+      const payload = { ...serialize(LCPReportMothers.good()) as object, value: 'fast' };
+
+      // When
+      const error = (() => {
+        try {
+          deserializeReport(payload);
+        } catch (caught) {
+          return caught;
+        }
+      })();
+
+      // Then
+      expect(error).toBeInstanceOf(InvalidFieldException);
+      expect((error as InvalidFieldException).field).toBe('value');
+    });
+
+    it('should report the index of an invalid collection item', () => {
+      // Given
+      const payload = serialize(INPCollection.create('inp-collection', [INPReportMothers.withValue(100)])) as {
+        reports: Array<Record<string, unknown>>;
+      };
+      payload.reports[0].eventName = 42;
+
+      // When & Then
+      expect(() => deserializeReport(payload)).toThrow('Invalid field "reports[0]"');
+    });
+
+    it('should throw UnsupportedSchemaVersionException when the schema version differs', () => {
+      // Given
+      const payload = { ...serialize(LCPReportMothers.good()) as object, schemaVersion: 0 };
+
+      // When & Then
+      expect(() => deserializeReport(payload)).toThrow(UnsupportedSchemaVersionException);
+    });
+
+    it('should throw ReportKindMismatchException when a payload is given to the wrong class', () => {
+      // Given
+      const payload = serialize(FCPReportMothers.good());
+
+      // When & Then
+      expect(() => LCPReport.fromJSON(payload)).toThrow(ReportKindMismatchException);
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { CLSReport } from '@/reports/web-vitals/CLSReport';
+import { CLSCollection } from '@/reports/web-vitals/CLSCollection';
+import { FCPReport } from '@/reports/web-vitals/FCPReport';
+import { FIDReport } from '@/reports/web-vitals/FIDReport';
+import { INPReport } from '@/reports/web-vitals/INPReport';
+import { INPCollection } from '@/reports/web-vitals/INPCollection';
+import { LCPReport } from '@/reports/web-vitals/LCPReport';
+import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import { TTFBReport } from '@/reports/web-vitals/TTFBReport';
+import { BackForwardCacheReport } from '@/reports/performance/BackForwardCacheReport';
+import { ConnectionQualityReport } from '@/reports/performance/ConnectionQualityReport';
+import { DOMTimingReport } from '@/reports/performance/DOMTimingReport';
+import { ElementTimingReport } from '@/reports/performance/ElementTimingReport';
+import { LongAnimationFrameReport } from '@/reports/performance/LongAnimationFrameReport';
+import { LongAnimationFrameCollection } from '@/reports/performance/LongAnimationFrameCollection';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { LongTaskCollection } from '@/reports/performance/LongTaskCollection';
+import { MemoryReport } from '@/reports/performance/MemoryReport';
+import { NetworkTimingReport } from '@/reports/performance/NetworkTimingReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+import { SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
+import { ThirdPartyImpactReport } from '@/reports/performance/ThirdPartyImpactReport';
+import { UserTimingReport } from '@/reports/performance/UserTimingReport';
+import { UserTimingCollection } from '@/reports/performance/UserTimingCollection';
+import { CSPViolationErrorReport } from '@/reports/errors/CSPViolationErrorReport';
+import { ResourceErrorReport } from '@/reports/errors/ResourceErrorReport';
+import { UnhandledJavaScriptErrorReport } from '@/reports/errors/UnhandledJavaScriptErrorReport';
+import { UnhandledPromiseRejectionReport } from '@/reports/errors/UnhandledPromiseRejectionReport';
+import { REPORT_KINDS, type ReportKind } from '@/types/ReportKinds';
+import { readRecord } from '@/shared/deserialization';
+import { UnknownReportKindException } from '@/exceptions/SerializationExceptions';
+
+/**
+ * Any report or collection that can be rehydrated by deserializeReport.
+ */
+export type DeserializedReport =
+  | CLSReport
+  | CLSCollection
+  | FCPReport
+  | FIDReport
+  | INPReport
+  | INPCollection
+  | LCPReport
+  | LCPCollection
+  | TTFBReport
+  | BackForwardCacheReport
+  | ConnectionQualityReport
+  | DOMTimingReport
+  | ElementTimingReport
+  | LongAnimationFrameReport
+  | LongAnimationFrameCollection
+  | LongTaskReport
+  | LongTaskCollection
+  | MemoryReport
+  | NetworkTimingReport
+  | ResourceTimingReport
+  | ResourceTimingCollection
+  | SoftNavigationReport
+  | ThirdPartyImpactReport
+  | UserTimingReport
+  | UserTimingCollection
+  | CSPViolationErrorReport
+  | ResourceErrorReport
+  | UnhandledJavaScriptErrorReport
+  | UnhandledPromiseRejectionReport;
+
+type ReportDeserializer = (json: unknown) => DeserializedReport;
+
+const registry = new Map<ReportKind, ReportDeserializer>([
+  [REPORT_KINDS.CLS, CLSReport.fromJSON],
+  [REPORT_KINDS.CLS_COLLECTION, CLSCollection.fromJSON],
+  [REPORT_KINDS.FCP, FCPReport.fromJSON],
+  [REPORT_KINDS.FID, FIDReport.fromJSON],
+  [REPORT_KINDS.INP, INPReport.fromJSON],
+  [REPORT_KINDS.INP_COLLECTION, INPCollection.fromJSON],
+  [REPORT_KINDS.LCP, LCPReport.fromJSON],
+  [REPORT_KINDS.LCP_COLLECTION, LCPCollection.fromJSON],
+  [REPORT_KINDS.TTFB, TTFBReport.fromJSON],
+  [REPORT_KINDS.BACK_FORWARD_CACHE, BackForwardCacheReport.fromJSON],
+  [REPORT_KINDS.CONNECTION_QUALITY, ConnectionQualityReport.fromJSON],
+  [REPORT_KINDS.DOM_TIMING, DOMTimingReport.fromJSON],
+  [REPORT_KINDS.ELEMENT_TIMING, ElementTimingReport.fromJSON],
+  [REPORT_KINDS.LONG_ANIMATION_FRAME, LongAnimationFrameReport.fromJSON],
+  [REPORT_KINDS.LONG_ANIMATION_FRAME_COLLECTION, LongAnimationFrameCollection.fromJSON],
+  [REPORT_KINDS.LONG_TASK, LongTaskReport.fromJSON],
+  [REPORT_KINDS.LONG_TASK_COLLECTION, LongTaskCollection.fromJSON],
+  [REPORT_KINDS.MEMORY, MemoryReport.fromJSON],
+  [REPORT_KINDS.NETWORK_TIMING, NetworkTimingReport.fromJSON],
+  [REPORT_KINDS.RESOURCE_TIMING, ResourceTimingReport.fromJSON],
+  [REPORT_KINDS.RESOURCE_TIMING_COLLECTION, ResourceTimingCollection.fromJSON],
+  [REPORT_KINDS.SOFT_NAVIGATION, SoftNavigationReport.fromJSON],
+  [REPORT_KINDS.THIRD_PARTY_IMPACT, ThirdPartyImpactReport.fromJSON],
+  [REPORT_KINDS.USER_TIMING, UserTimingReport.fromJSON],
+  [REPORT_KINDS.USER_TIMING_COLLECTION, UserTimingCollection.fromJSON],
+  [REPORT_KINDS.CSP_VIOLATION, CSPViolationErrorReport.fromJSON],
+  [REPORT_KINDS.RESOURCE_ERROR, ResourceErrorReport.fromJSON],
+  [REPORT_KINDS.UNHANDLED_JAVASCRIPT_ERROR, UnhandledJavaScriptErrorReport.fromJSON],
+  [REPORT_KINDS.UNHANDLED_PROMISE_REJECTION, UnhandledPromiseRejectionReport.fromJSON],
+]);
+
+/**
+ * Rehydrates a report or collection from its toJSON() output
+ * (e.g. after JSON.parse on the server), dispatching on its `kind` discriminator.
+ *
+ * @throws InvalidPayloadException when the payload is not an object
+ * @throws UnknownReportKindException when `kind` is missing or not registered
+ * @throws InvalidFieldException when a field is missing or has the wrong type
+ */
+export const deserializeReport = (json: unknown): DeserializedReport => {
+  const record = readRecord(json, 'a serialized report');
+  const deserializer = registry.get(record.kind as ReportKind);
+  if (!deserializer) throw new UnknownReportKindException(record.kind);
+  return deserializer(record);
+};
@@ -153,6 +153,22 @@ describe('CSPViolationErrorReport', () => {
       expect(inlineReport.isThirdPartyViolation).toBe(false);
     });
 
+    it('should classify violations of the page subdomains as first party', () => {
+      // Given
+      const subdomainReport = CSPViolationErrorReportMothers.withCustom({
+        blockedURI: 'https://api.example.com/v1/config.js'
+      });
+      const vendorReport = CSPViolationErrorReportMothers.withCustom({
+        blockedURI: 'https://connect.facebook.net/en_US/fbevents.js'
+      });
+
+      // When & Then
+      expect(subdomainReport.isThirdPartyViolation).toBe(false);
+      expect(subdomainReport.vendor).toBeNull();
+      expect(vendorReport.isThirdPartyViolation).toBe(true);
+      expect(vendorReport.vendor?.name).toBe('Facebook');
+    });
+
     it('should detect special URIs correctly', () => {
       // Given
       const inlineReport = CSPViolationErrorReportMothers.critical(); // inline
@@ -258,6 +274,8 @@ describe('CSPViolationErrorReport', () => {
       // Then
       expect(result).toEqual({
         id: 'csp-high',
+        kind: 'error.csp',
+        schemaVersion: 1,
         createdAt: report.createdAt.absoluteTime,
         occurredAt: report.occurredAt.absoluteTime,
         directive: 'style-src',
@@ -270,6 +288,8 @@ describe('CSPViolationErrorReport', () => {
         isInlineViolation: false,
         isEvalBlocked: false,
         isThirdPartyViolation: true,
+        vendor: 'Google Fonts',
+        vendorCategory: 'cdn',
         isSpecialURI: false
       });
       expect(typeof result.createdAt).toBe('number');
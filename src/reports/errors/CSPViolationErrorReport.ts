@@ -1,5 +1,16 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import type { ErrorReport, SeverityLevel } from './ErrorReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedCSPViolationErrorReport } from '@/types/SerializedReports';
+import {
+  readOptionalNumber,
+  readOptionalString,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+import type { Vendor } from '@/shared/vendorCatalog';
 
 interface CSPViolationErrorData {
   id: string;
@@ -19,6 +30,7 @@ interface CSPViolationErrorData {
  * for monitoring and debugging CSP configurations.
  */
 export class CSPViolationErrorReport implements ErrorReport {
+  public readonly kind = REPORT_KINDS.CSP_VIOLATION;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -48,6 +60,23 @@ export class CSPViolationErrorReport implements ErrorReport {
     return new CSPViolationErrorReport(data);
   }
 
+  /**
+   * Rehydrates a CSPViolationErrorReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): CSPViolationErrorReport {
+    const record = readReportPayload(json, REPORT_KINDS.CSP_VIOLATION);
+    return new CSPViolationErrorReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      directive: readString(record, 'directive'),
+      blockedURI: readString(record, 'blockedURI'),
+      sourceFile: readOptionalString(record, 'sourceFile'),
+      lineNumber: readOptionalNumber(record, 'lineNumber'),
+      columnNumber: readOptionalNumber(record, 'columnNumber'),
+    });
+  }
+
   /**
    * Creates a CSPViolationErrorReport from a SecurityPolicyViolationEvent.
    */
@@ -112,14 +141,15 @@ export class CSPViolationErrorReport implements ErrorReport {
    */
   public get isThirdPartyViolation(): boolean {
     if (this.isSpecialURI) return false;
-    
-    try {
-      const blockedHost = new URL(this.blockedURI).hostname;
-      const currentHost = window.location.hostname;
-      return blockedHost !== currentHost;
-    } catch {
-      return false;
-    }
+    return OriginClassifier.getInstance().isThirdParty(this.blockedURI);
+  }
+
+  /**
+   * Known vendor of the blocked third-party resource.
+   */
+  public get vendor(): Vendor | null {
+    if (this.isSpecialURI) return null;
+    return OriginClassifier.getInstance().vendorOf(this.blockedURI);
   }
 
   /**
@@ -157,21 +187,25 @@ export class CSPViolationErrorReport implements ErrorReport {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedCSPViolationErrorReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       directive: this.directive,
       blockedURI: this.blockedURI,
       blockedDomain: this.blockedDomain,
-      sourceFile: this.sourceFile,
-      lineNumber: this.lineNumber,
-      columnNumber: this.columnNumber,
+      sourceFile: this.sourceFile ?? null,
+      lineNumber: this.lineNumber ?? null,
+      columnNumber: this.columnNumber ?? null,
       severity: this.severity,
       isInlineViolation: this.isInlineViolation,
       isEvalBlocked: this.isEvalBlocked,
       isThirdPartyViolation: this.isThirdPartyViolation,
+      vendor: this.vendor?.name ?? null,
+      vendorCategory: this.vendor?.category ?? null,
       isSpecialURI: this.isSpecialURI
     };
   }
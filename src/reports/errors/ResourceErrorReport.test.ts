@@ -4,6 +4,7 @@ import { ResourceErrorReportMothers } from '@/test/mothers/ResourceErrorReportMo
 import { ErrorEventMother } from '@/test/mothers/ErrorEventMother';
 import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { OriginClassifier } from '@/shared/OriginClassifier';
 
 import { ResourceErrorReport } from './ResourceErrorReport';
 
@@ -13,6 +14,7 @@ describe('ResourceErrorReport', () => {
   });
 
   afterEach(() => {
+    OriginClassifier.resetInstance();
     windowLocationHelper.unmock();
   });
 
@@ -141,6 +143,29 @@ describe('ResourceErrorReport', () => {
       expect(unknownResource.isThirdParty).toBe(false);
     });
 
+    it('should classify the configured first-party domains as first party', () => {
+      // Given
+      OriginClassifier.getInstance().configure({ firstPartyDomains: ['analytics.com'] });
+      const report = ResourceErrorReportMothers.highThirdPartyScript(); // cdn.analytics.com
+
+      // When & Then
+      expect(report.isThirdParty).toBe(false);
+    });
+
+    it('should name the vendor of known third-party resources', () => {
+      // Given
+      const report = ResourceErrorReportMothers.withCustom({
+        resourceUrl: 'https://www.googletagmanager.com/gtm.js?id=GTM-XXXX'
+      });
+
+      // When
+      const json = report.toJSON();
+
+      // Then
+      expect(report.vendor?.name).toBe('Google Tag Manager');
+      expect(json).toMatchObject({ vendor: 'Google Tag Manager', vendorCategory: 'tag-manager' });
+    });
+
     it('should handle invalid URLs gracefully', () => {
       // Given
       const invalidUrlReport = ResourceErrorReportMothers.withCustom({
@@ -229,6 +254,8 @@ describe('ResourceErrorReport', () => {
       // Then
       expect(result).toEqual({
         id: 'resource-critical-script',
+        kind: 'error.resource',
+        schemaVersion: 1,
         createdAt: report.createdAt.absoluteTime,
         occurredAt: report.occurredAt.absoluteTime,
         resourceUrl: 'https://example.com/app.js',
@@ -236,6 +263,8 @@ describe('ResourceErrorReport', () => {
         resourceDomain: 'example.com',
         severity: 'critical',
         isThirdParty: false,
+        vendor: null,
+        vendorCategory: null,
         isCriticalResource: true
       });
       expect(typeof result.createdAt).toBe('number');
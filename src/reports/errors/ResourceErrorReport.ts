@@ -1,5 +1,14 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import type { ErrorReport, SeverityLevel } from './ErrorReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedResourceErrorReport } from '@/types/SerializedReports';
+import {
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+import type { Vendor } from '@/shared/vendorCatalog';
 
 interface ResourceErrorData {
   id: string;
@@ -43,6 +52,7 @@ const getResourceURL = (errorEvent: ErrorEvent): string => {
  * and debugging failed resource loads.
  */
 export class ResourceErrorReport implements ErrorReport {
+  public readonly kind = REPORT_KINDS.RESOURCE_ERROR;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -66,6 +76,20 @@ export class ResourceErrorReport implements ErrorReport {
     return new ResourceErrorReport(data);
   }
 
+  /**
+   * Rehydrates a ResourceErrorReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): ResourceErrorReport {
+    const record = readReportPayload(json, REPORT_KINDS.RESOURCE_ERROR);
+    return new ResourceErrorReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      resourceUrl: readString(record, 'resourceUrl'),
+      resourceType: readString(record, 'resourceType'),
+    });
+  }
+
   /**
    * Creates a ResourceErrorReport from an ErrorEvent.
    */
@@ -106,15 +130,14 @@ export class ResourceErrorReport implements ErrorReport {
    * Checks if resource is from a different domain.
    */
   public get isThirdParty(): boolean {
-    if (this.resourceUrl === 'Unknown resource') return false;
+    return OriginClassifier.getInstance().isThirdParty(this.resourceUrl);
+  }
 
-    try {
-      const resourceHost = new URL(this.resourceUrl).hostname;
-      const currentHost = window.location.hostname;
-      return resourceHost !== currentHost;
-    } catch {
-      return false;
-    }
+  /**
+   * Known vendor serving the third-party resource.
+   */
+  public get vendor(): Vendor | null {
+    return OriginClassifier.getInstance().vendorOf(this.resourceUrl);
   }
 
   /**
@@ -146,9 +169,11 @@ export class ResourceErrorReport implements ErrorReport {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedResourceErrorReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       resourceUrl: this.resourceUrl,
@@ -156,6 +181,8 @@ export class ResourceErrorReport implements ErrorReport {
       resourceDomain: this.resourceDomain,
       severity: this.severity,
       isThirdParty: this.isThirdParty,
+      vendor: this.vendor?.name ?? null,
+      vendorCategory: this.vendor?.category ?? null,
       isCriticalResource: this.isCriticalResource,
     };
   }
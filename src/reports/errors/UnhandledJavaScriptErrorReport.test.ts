@@ -135,6 +135,21 @@ describe('UnhandledJavaScriptErrorReport', () => {
       expect(noFilenameReport.isThirdPartyScript).toBe(false);
     });
 
+    it('should classify scripts of the page subdomains as first party', () => {
+      // Given
+      const subdomainReport = UnhandledJavaScriptErrorReportMothers.withCustom({
+        filename: 'https://static.example.com/js/app.js'
+      });
+      const vendorReport = UnhandledJavaScriptErrorReportMothers.withCustom({
+        filename: 'https://browser.sentry-cdn.com/bundle.min.js'
+      });
+
+      // When & Then
+      expect(subdomainReport.isThirdPartyScript).toBe(false);
+      expect(vendorReport.isThirdPartyScript).toBe(true);
+      expect(vendorReport.vendor?.category).toBe('monitoring');
+    });
+
     it('should handle invalid URLs as third-party', () => {
       // Given
       const invalidUrlReport = UnhandledJavaScriptErrorReportMothers.withCustom({
@@ -210,6 +225,8 @@ describe('UnhandledJavaScriptErrorReport', () => {
       // Then
       expect(result).toEqual({
         id: 'error-high',
+        kind: 'error.javascript',
+        schemaVersion: 1,
         createdAt: report.createdAt.absoluteTime,
         occurredAt: report.occurredAt.absoluteTime,
         errorMessage: 'Cannot read property \'length\' of undefined',
@@ -220,6 +237,8 @@ describe('UnhandledJavaScriptErrorReport', () => {
         columnNumber: 5,
         severity: 'high',
         isThirdPartyScript: false,
+        vendor: null,
+        vendorCategory: null,
         isProgrammingError: true
       });
       expect(typeof result.createdAt).toBe('number');
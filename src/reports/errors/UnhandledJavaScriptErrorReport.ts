@@ -1,5 +1,16 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import type { ErrorReport, SeverityLevel } from './ErrorReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedUnhandledJavaScriptErrorReport } from '@/types/SerializedReports';
+import {
+  readOptionalNumber,
+  readOptionalString,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+import type { Vendor } from '@/shared/vendorCatalog';
 
 interface JavaScriptErrorData {
   id: string;
@@ -42,6 +53,7 @@ const extractErrorMessage = (errorEvent: ErrorEvent): string => {
  * for error monitoring and debugging.
  */
 export class UnhandledJavaScriptErrorReport implements ErrorReport {
+  public readonly kind = REPORT_KINDS.UNHANDLED_JAVASCRIPT_ERROR;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -73,6 +85,24 @@ export class UnhandledJavaScriptErrorReport implements ErrorReport {
     return new UnhandledJavaScriptErrorReport(data);
   }
 
+  /**
+   * Rehydrates an UnhandledJavaScriptErrorReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): UnhandledJavaScriptErrorReport {
+    const record = readReportPayload(json, REPORT_KINDS.UNHANDLED_JAVASCRIPT_ERROR);
+    return new UnhandledJavaScriptErrorReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      errorMessage: readString(record, 'errorMessage'),
+      errorName: readOptionalString(record, 'errorName'),
+      stack: readOptionalString(record, 'stack'),
+      filename: readOptionalString(record, 'filename'),
+      lineNumber: readOptionalNumber(record, 'lineNumber'),
+      columnNumber: readOptionalNumber(record, 'columnNumber'),
+    });
+  }
+
   /**
    * Creates a JavaScriptErrorReport from an ErrorEvent.
    */
@@ -121,14 +151,16 @@ export class UnhandledJavaScriptErrorReport implements ErrorReport {
    */
   public get isThirdPartyScript(): boolean {
     if (!this.filename) return false;
-    
-    try {
-      const scriptUrl = new URL(this.filename);
-      const currentOrigin = window.location.origin;
-      return scriptUrl.origin !== currentOrigin;
-    } catch {
-      return true; // Assume third-party if URL parsing fails
-    }
+    // Assume third-party if URL parsing fails
+    return OriginClassifier.getInstance().classify(this.filename)?.isThirdParty ?? true;
+  }
+
+  /**
+   * Known vendor of the third-party script where the error originated.
+   */
+  public get vendor(): Vendor | null {
+    if (!this.filename) return null;
+    return OriginClassifier.getInstance().vendorOf(this.filename);
   }
 
   /**
@@ -151,19 +183,23 @@ export class UnhandledJavaScriptErrorReport implements ErrorReport {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedUnhandledJavaScriptErrorReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       errorMessage: this.errorMessage,
-      errorName: this.errorName,
-      stack: this.stack,
-      filename: this.filename,
-      lineNumber: this.lineNumber,
-      columnNumber: this.columnNumber,
+      errorName: this.errorName ?? null,
+      stack: this.stack ?? null,
+      filename: this.filename ?? null,
+      lineNumber: this.lineNumber ?? null,
+      columnNumber: this.columnNumber ?? null,
       severity: this.severity,
       isThirdPartyScript: this.isThirdPartyScript,
+      vendor: this.vendor?.name ?? null,
+      vendorCategory: this.vendor?.category ?? null,
       isProgrammingError: this.isProgrammingError,
     };
   }
@@ -206,6 +206,8 @@ describe('UnhandledPromiseRejectionReport', () => {
       // Then
       expect(result).toEqual({
         id: 'promise-high',
+        kind: 'error.promise-rejection',
+        schemaVersion: 1,
         createdAt: report.createdAt.absoluteTime,
         occurredAt: report.occurredAt.absoluteTime,
         errorMessage: 'Failed to fetch',
@@ -1,5 +1,13 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import type { ErrorReport, SeverityLevel } from './ErrorReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedUnhandledPromiseRejectionReport } from '@/types/SerializedReports';
+import {
+  readOptionalString,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
 
 interface PromiseErrorData {
   id: string;
@@ -51,6 +59,7 @@ const extractErrorMessage = (promiseError: PromiseRejectionEvent): string => {
  * and debugging asynchronous operations.
  */
 export class UnhandledPromiseRejectionReport implements ErrorReport {
+  public readonly kind = REPORT_KINDS.UNHANDLED_PROMISE_REJECTION;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -76,6 +85,21 @@ export class UnhandledPromiseRejectionReport implements ErrorReport {
     return new UnhandledPromiseRejectionReport(data);
   }
 
+  /**
+   * Rehydrates an UnhandledPromiseRejectionReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): UnhandledPromiseRejectionReport {
+    const record = readReportPayload(json, REPORT_KINDS.UNHANDLED_PROMISE_REJECTION);
+    return new UnhandledPromiseRejectionReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      errorMessage: readString(record, 'errorMessage'),
+      errorName: readOptionalString(record, 'errorName'),
+      stack: readOptionalString(record, 'stack'),
+    });
+  }
+
   /**
    * Creates a PromiseErrorReport from a PromiseRejectionEvent.
    */
@@ -162,14 +186,16 @@ export class UnhandledPromiseRejectionReport implements ErrorReport {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedUnhandledPromiseRejectionReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       errorMessage: this.errorMessage,
-      errorName: this.errorName,
-      stack: this.stack,
+      errorName: this.errorName ?? null,
+      stack: this.stack ?? null,
       severity: this.severity,
       isNetworkRelated: this.isNetworkRelated,
       isJavaScriptError: this.isJavaScriptError,
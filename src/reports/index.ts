@@ -4,17 +4,97 @@ export { FCPReport } from './web-vitals/FCPReport';
 export { FIDReport } from './web-vitals/FIDReport';
 export { CLSReport } from './web-vitals/CLSReport';
 export { INPReport } from './web-vitals/INPReport';
+export { TTFBReport } from './web-vitals/TTFBReport';
+export { LCPCollection } from './web-vitals/LCPCollection';
+export { CLSCollection, type CLSSessionWindow } from './web-vitals/CLSCollection';
+export { INPCollection } from './web-vitals/INPCollection';
+export {
+  INP_PHASES,
+  INTERACTION_TYPES,
+  type INPPhase,
+  type InteractionType
+} from '@/types/WebVitals';
 
 // Performance Reports
+export {
+  BackForwardCacheReport,
+  flattenNotRestoredReasons,
+  type NotRestoredReason
+} from './performance/BackForwardCacheReport';
+export {
+  ConnectionQualityReport,
+  CONNECTION_QUALITIES,
+  CONNECTION_QUALITY_THRESHOLDS,
+  classifyConnection,
+  type ConnectionQualityClass,
+  type ConnectionSignals
+} from './performance/ConnectionQualityReport';
 export { DOMTimingReport } from './performance/DOMTimingReport';
 export { ElementTimingReport } from './performance/ElementTimingReport';
+export { LongAnimationFrameReport, type LongAnimationFrameScript } from './performance/LongAnimationFrameReport';
+export {
+  LongAnimationFrameCollection,
+  type LongAnimationFrameScriptSummary,
+  type LongAnimationFrameOriginSummary
+} from './performance/LongAnimationFrameCollection';
 export { LongTaskReport } from './performance/LongTaskReport';
+export {
+  LongTaskCollection,
+  estimateTimeToInteractive,
+  BLOCKING_TIME_THRESHOLD,
+  QUIET_WINDOW_DURATION,
+  MAX_QUIET_WINDOW_REQUESTS
+} from './performance/LongTaskCollection';
+export {
+  MemoryReport,
+  MEMORY_SOURCES,
+  type MemorySource,
+  type MemoryTrend
+} from './performance/MemoryReport';
 export { NetworkTimingReport } from './performance/NetworkTimingReport';
 export { ResourceTimingReport } from './performance/ResourceTimingReport';
-export { ResourceTimingCollection } from './performance/ResourceTimingCollection';
+export { ResourceTimingCollection, type ServerTimingStats } from './performance/ResourceTimingCollection';
+export {
+  CDN_CACHE_STATUSES,
+  CDN_CACHE_METRIC_NAMES,
+  cdnCacheStatusOf,
+  type CDNCacheStatus,
+  type ServerTimingMetric
+} from './performance/ServerTiming';
+export {
+  SoftNavigationReport,
+  SOFT_NAVIGATION_SOURCES,
+  type SoftNavigationSource
+} from './performance/SoftNavigationReport';
+export {
+  ThirdPartyImpactReport,
+  type ThirdPartyImpactSources,
+  type ThirdPartyImpactTotals,
+  type ThirdPartyOriginImpact
+} from './performance/ThirdPartyImpactReport';
+export { UserTimingReport } from './performance/UserTimingReport';
+export { UserTimingCollection, type UserTimingStats } from './performance/UserTimingCollection';
+export {
+  RENDER_BLOCKING_STATUSES,
+  USER_TIMING_ENTRY_TYPES,
+  type RenderBlockingStatus,
+  type UserTimingEntryType
+} from '@/types/PerformanceEntryTypes';
 
 // Error Reports
 export { UnhandledJavaScriptErrorReport } from './errors/UnhandledJavaScriptErrorReport';
 export { UnhandledPromiseRejectionReport } from './errors/UnhandledPromiseRejectionReport';
 export { ResourceErrorReport } from './errors/ResourceErrorReport';
 export { CSPViolationErrorReport } from './errors/CSPViolationErrorReport';
+
+// Deserialization
+export { deserializeReport, type DeserializedReport } from './deserializeReport';
+export { REPORT_KINDS, SCHEMA_VERSION, type ReportKind } from '@/types/ReportKinds';
+
+// Wire Schema
+export type * from '@/types/SerializedReports';
+export {
+  REPORT_JSON_SCHEMA,
+  REPORT_JSON_SCHEMAS,
+  type JSONSchema
+} from '@/schemas/reportSchemas';
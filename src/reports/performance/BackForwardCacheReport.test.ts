@@ -0,0 +1,67 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { BackForwardCacheReportMothers } from '@/test/mothers/BackForwardCacheReportMothers';
+import { InvalidFieldException } from '@/exceptions/SerializationExceptions';
+
+import { BackForwardCacheReport } from './BackForwardCacheReport';
+
+describe('BackForwardCacheReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should describe restored page views', () => {
+    // When
+    const report = BackForwardCacheReportMothers.restored();
+
+    // Then
+    expect(report.isRestored).toBe(true);
+    expect(report.notRestoredReasons).toEqual([]);
+    expect(report.toString()).toBe('BFCache: restored at 5000ms');
+  });
+
+  it('should flatten the not restored reasons of every frame', () => {
+    // When
+    const report = BackForwardCacheReportMothers.notRestored();
+
+    // Then
+    expect(report.isRestored).toBe(false);
+    expect(report.notRestoredReasons).toEqual([
+      { reason: 'unload-listener', frameUrl: 'https://example.com/checkout' },
+      { reason: 'websocket', frameUrl: 'https://chat.vendor.com/widget' },
+      { reason: 'unload-listener', frameUrl: 'https://chat.vendor.com/widget' },
+    ]);
+    expect(report.reasons).toEqual(['unload-listener', 'websocket']);
+    expect(report.toString()).toBe('BFCache: not restored (unload-listener, websocket)');
+  });
+
+  it('should serialize the reasons and rehydrate an equal report', () => {
+    // Given
+    const report = BackForwardCacheReportMothers.notRestored();
+
+    // When
+    const json = JSON.parse(JSON.stringify(report));
+    const rehydrated = BackForwardCacheReport.fromJSON(json);
+
+    // Then
+    expect(json).toMatchObject({
+      kind: 'performance.back-forward-cache',
+      isRestored: false,
+      notRestoredReasons: report.notRestoredReasons,
+    });
+    expect(rehydrated.toJSON()).toEqual(report.toJSON());
+  });
+
+  it('should reject payloads with malformed reasons', () => {
+    // Given
+    const json = { ...BackForwardCacheReportMothers.notRestored().toJSON(), notRestoredReasons: [{ frameUrl: null }] };
+
+    // Then
+    expect(() => BackForwardCacheReport.fromJSON(json)).toThrow(InvalidFieldException);
+  });
+});
@@ -0,0 +1,161 @@
+import type { Report } from '@/reports/Report';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedBackForwardCacheReport } from '@/types/SerializedReports';
+import type { NotRestoredReasons } from '@/types/PerformanceEntryTypes';
+import {
+  type JSONRecord,
+  readArray,
+  readBoolean,
+  readOptionalString,
+  readRecord,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+
+/**
+ * Reason a frame of the page blocked the back/forward cache.
+ */
+export interface NotRestoredReason {
+  /** Reason reported by the browser, e.g. 'unload-listener' */
+  reason: string;
+  /** URL of the blocking frame (null for cross-origin frames) */
+  frameUrl: string | null;
+}
+
+interface BackForwardCacheData {
+  id: string;
+  createdAt: PerformanceTime;
+  /** When the page was restored, or the start of the navigation that was not restored */
+  occurredAt: PerformanceTime;
+  isRestored: boolean;
+  notRestoredReasons: NotRestoredReason[];
+}
+
+/**
+ * Flattens the frame tree of notRestoredReasons into the reasons of every frame.
+ */
+export const flattenNotRestoredReasons = (frame: NotRestoredReasons): NotRestoredReason[] => [
+  ...(frame.reasons ?? []).map(({ reason }) => ({ reason, frameUrl: frame.url ?? frame.src ?? null })),
+  ...(frame.children ?? []).flatMap(flattenNotRestoredReasons),
+];
+
+const readNotRestoredReason = (json: unknown): NotRestoredReason => {
+  const record: JSONRecord = readRecord(json, 'a not restored reason');
+  return {
+    reason: readString(record, 'reason'),
+    frameUrl: readOptionalString(record, 'frameUrl') ?? null,
+  };
+};
+
+/**
+ * Report for the back/forward cache (bfcache) outcome of a page view.
+ *
+ * A restored report marks a page view restored from the bfcache: the page is
+ * shown again without loading, so the metrics emitted afterwards are measured
+ * from the restore time. A report that was not restored is emitted for
+ * back/forward navigations that could not use the bfcache, with the reasons
+ * the browser gives through notRestoredReasons.
+ */
+export class BackForwardCacheReport implements Report {
+  public readonly kind = REPORT_KINDS.BACK_FORWARD_CACHE;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  public readonly isRestored: boolean;
+  public readonly notRestoredReasons: readonly NotRestoredReason[];
+
+  private constructor(data: BackForwardCacheData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.occurredAt;
+    this.isRestored = data.isRestored;
+    this.notRestoredReasons = Object.freeze(data.notRestoredReasons.map(reason => Object.freeze({ ...reason })));
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a BackForwardCacheReport from provided data.
+   */
+  public static create(data: BackForwardCacheData): BackForwardCacheReport {
+    return new BackForwardCacheReport(data);
+  }
+
+  /**
+   * Rehydrates a BackForwardCacheReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): BackForwardCacheReport {
+    const record = readReportPayload(json, REPORT_KINDS.BACK_FORWARD_CACHE);
+    return new BackForwardCacheReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      isRestored: readBoolean(record, 'isRestored'),
+      notRestoredReasons: readArray(record, 'notRestoredReasons', readNotRestoredReason),
+    });
+  }
+
+  /**
+   * Creates a report for a page view restored from the bfcache.
+   */
+  public static fromRestore(id: string, restoredAt: PerformanceTime): BackForwardCacheReport {
+    return new BackForwardCacheReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: restoredAt,
+      isRestored: true,
+      notRestoredReasons: [],
+    });
+  }
+
+  /**
+   * Creates a report for a back/forward navigation that was not restored from the bfcache.
+   */
+  public static fromNotRestoredReasons(
+    id: string,
+    navigationStart: PerformanceTime,
+    notRestoredReasons: NotRestoredReasons
+  ): BackForwardCacheReport {
+    return new BackForwardCacheReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: navigationStart,
+      isRestored: false,
+      notRestoredReasons: flattenNotRestoredReasons(notRestoredReasons),
+    });
+  }
+
+  /**
+   * Distinct reasons that blocked the bfcache, in the order they were reported.
+   */
+  public get reasons(): string[] {
+    return Array.from(new Set(this.notRestoredReasons.map(({ reason }) => reason)));
+  }
+
+  /**
+   * String representation of the bfcache outcome.
+   */
+  public toString(): string {
+    if (this.isRestored) return `BFCache: restored at ${this.occurredAt.relativeTime}ms`;
+
+    const reasons = this.reasons.length > 0 ? this.reasons.join(', ') : 'unknown reasons';
+    return `BFCache: not restored (${reasons})`;
+  }
+
+  /**
+   * JSON representation for serialization.
+   */
+  public toJSON(): SerializedBackForwardCacheReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      isRestored: this.isRestored,
+      notRestoredReasons: this.notRestoredReasons.map(reason => ({ ...reason })),
+    };
+  }
+}
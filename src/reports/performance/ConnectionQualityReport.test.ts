@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { ConnectionQualityReportMothers } from '@/test/mothers/ConnectionQualityReportMothers';
+
+import { ConnectionQualityReport, classifyConnection } from './ConnectionQualityReport';
+
+describe('ConnectionQualityReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  describe('classifyConnection', () => {
+    it('should classify an offline browser as offline regardless of the other signals', () => {
+      // Then
+      expect(classifyConnection(ConnectionQualityReportMothers.signals({
+        online: false,
+        measuredThroughput: 50,
+      }))).toBe('offline');
+    });
+
+    it('should classify 2g connections, high latency or low throughput as slow', () => {
+      // Given
+      const scenarios = [
+        ConnectionQualityReportMothers.signals({ effectiveType: '2g' }),
+        ConnectionQualityReportMothers.signals({ effectiveType: 'slow-2g' }),
+        ConnectionQualityReportMothers.signals({ rtt: 600 }),
+        ConnectionQualityReportMothers.signals({ measuredThroughput: 0.8 }),
+      ];
+
+      // Then
+      scenarios.forEach(signals => expect(classifyConnection(signals)).toBe('slow'));
+    });
+
+    it('should prefer the measured throughput over the reported downlink', () => {
+      // Given
+      const measuredFast = ConnectionQualityReportMothers.signals({ downlink: 2, measuredThroughput: 8 });
+      const measuredModerate = ConnectionQualityReportMothers.signals({ downlink: 10, measuredThroughput: 3 });
+
+      // Then
+      expect(classifyConnection(measuredFast)).toBe('fast');
+      expect(classifyConnection(measuredModerate)).toBe('moderate');
+    });
+
+    it('should require a low latency to classify a connection as fast', () => {
+      // Then
+      expect(classifyConnection(ConnectionQualityReportMothers.signals({ rtt: 150 }))).toBe('moderate');
+    });
+
+    it('should fall back to moderate without throughput or latency signals', () => {
+      // Then
+      expect(classifyConnection(ConnectionQualityReportMothers.signals({
+        effectiveType: null,
+        rtt: null,
+        downlink: null,
+      }))).toBe('moderate');
+    });
+  });
+
+  it('should flag slow connections and data saving as constrained', () => {
+    // Given
+    const fast = ConnectionQualityReportMothers.fast();
+    const savingData = ConnectionQualityReport.fromSignals('connection', ConnectionQualityReportMothers.signals({
+      saveData: true,
+    }));
+
+    // Then
+    expect(fast.quality).toBe('fast');
+    expect(fast.isConstrained).toBe(false);
+    expect(savingData.quality).toBe('fast');
+    expect(savingData.isConstrained).toBe(true);
+    expect(ConnectionQualityReportMothers.slow().isConstrained).toBe(true);
+  });
+
+  it('should describe the connection in its string representation', () => {
+    // Then
+    expect(ConnectionQualityReportMothers.slow().toString())
+      .toBe('ConnectionQuality: slow (3g, 300ms RTT, 0.6Mbps measured, save-data)');
+  });
+
+  it('should serialize only the coarse class and rehydrate an equal report', () => {
+    // Given
+    const report = ConnectionQualityReportMothers.slow();
+
+    // When
+    const json = JSON.parse(JSON.stringify(report));
+    const rehydrated = ConnectionQualityReport.fromJSON(json);
+
+    // Then
+    expect(json).toEqual(expect.objectContaining({
+      quality: 'slow',
+      effectiveType: '3g',
+      saveData: true,
+      isConstrained: true,
+    }));
+    expect(json).not.toHaveProperty('rtt');
+    expect(json).not.toHaveProperty('downlink');
+    expect(json).not.toHaveProperty('measuredThroughput');
+    expect(json).not.toHaveProperty('sampleCount');
+    expect(rehydrated.toJSON()).toEqual(report.toJSON());
+    expect(rehydrated.rtt).toBeNull();
+  });
+});
@@ -0,0 +1,224 @@
+import type { Report } from '@/reports/Report';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedConnectionQualityReport } from '@/types/SerializedReports';
+import {
+  readBoolean,
+  readOneOf,
+  readOptionalString,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+
+/**
+ * Coarse network class of the connection.
+ */
+export const CONNECTION_QUALITIES = {
+  FAST: 'fast',
+  MODERATE: 'moderate',
+  SLOW: 'slow',
+  OFFLINE: 'offline',
+} as const;
+
+export type ConnectionQualityClass = (typeof CONNECTION_QUALITIES)[keyof typeof CONNECTION_QUALITIES];
+
+/**
+ * Throughput (Mbps) and round-trip time (ms) bounds of the quality classes.
+ */
+export const CONNECTION_QUALITY_THRESHOLDS = {
+  FAST_THROUGHPUT: 5,
+  SLOW_THROUGHPUT: 1,
+  FAST_RTT: 150,
+  SLOW_RTT: 600,
+} as const;
+
+const SLOW_EFFECTIVE_TYPES: readonly string[] = ['slow-2g', '2g'];
+
+/**
+ * Network conditions a connection quality is classified from.
+ */
+export interface ConnectionSignals {
+  /** navigator.onLine */
+  online: boolean;
+  /** navigator.connection.effectiveType, null when the Network Information API is unavailable */
+  effectiveType: string | null;
+  /** navigator.connection.rtt in milliseconds */
+  rtt: number | null;
+  /** navigator.connection.downlink in Mbps */
+  downlink: number | null;
+  /** Whether the user asked for reduced data usage */
+  saveData: boolean;
+  /** Median download throughput of the observed resources in Mbps */
+  measuredThroughput: number | null;
+  /** Number of resources the measured throughput is estimated from */
+  sampleCount: number;
+}
+
+interface ConnectionQualityData extends Omit<ConnectionSignals, 'online'> {
+  id: string;
+  createdAt: PerformanceTime;
+  occurredAt: PerformanceTime;
+  quality: ConnectionQualityClass;
+}
+
+/**
+ * Classifies the network conditions into a coarse quality class.
+ *
+ * The measured throughput is preferred over navigator.connection.downlink,
+ * which browsers round and cap. Without any throughput or latency signal the
+ * connection is considered moderate.
+ */
+export const classifyConnection = (signals: ConnectionSignals): ConnectionQualityClass => {
+  if (!signals.online) return CONNECTION_QUALITIES.OFFLINE;
+
+  const throughput = signals.measuredThroughput ?? signals.downlink;
+  const { rtt, effectiveType } = signals;
+
+  if (
+    (effectiveType !== null && SLOW_EFFECTIVE_TYPES.includes(effectiveType)) ||
+    (rtt !== null && rtt >= CONNECTION_QUALITY_THRESHOLDS.SLOW_RTT) ||
+    (throughput !== null && throughput < CONNECTION_QUALITY_THRESHOLDS.SLOW_THROUGHPUT)
+  ) {
+    return CONNECTION_QUALITIES.SLOW;
+  }
+
+  if (
+    throughput !== null &&
+    throughput >= CONNECTION_QUALITY_THRESHOLDS.FAST_THROUGHPUT &&
+    (rtt === null || rtt < CONNECTION_QUALITY_THRESHOLDS.FAST_RTT)
+  ) {
+    return CONNECTION_QUALITIES.FAST;
+  }
+
+  return CONNECTION_QUALITIES.MODERATE;
+};
+
+/**
+ * Report for the quality of the network connection of the user.
+ *
+ * Combines the Network Information API with the throughput measured from the
+ * resources loaded by the page into a coarse class that vitals can be
+ * segmented by, without exposing fingerprintable details: the exact signals
+ * (rtt, downlink, measured throughput) stay on the page, and only the quality
+ * class, effectiveType and saveData are serialized.
+ */
+export class ConnectionQualityReport implements Report {
+  public readonly kind = REPORT_KINDS.CONNECTION_QUALITY;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  public readonly quality: ConnectionQualityClass;
+  public readonly effectiveType: string | null;
+  /** Round-trip time in milliseconds, not serialized */
+  public readonly rtt: number | null;
+  /** Downlink in Mbps, not serialized */
+  public readonly downlink: number | null;
+  public readonly saveData: boolean;
+  /** Median download throughput of the observed resources in Mbps, not serialized */
+  public readonly measuredThroughput: number | null;
+  /** Number of resources the measured throughput is estimated from, not serialized */
+  public readonly sampleCount: number;
+
+  private constructor(data: ConnectionQualityData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.occurredAt;
+    this.quality = data.quality;
+    this.effectiveType = data.effectiveType;
+    this.rtt = data.rtt;
+    this.downlink = data.downlink;
+    this.saveData = data.saveData;
+    this.measuredThroughput = data.measuredThroughput;
+    this.sampleCount = data.sampleCount;
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a ConnectionQualityReport from provided data.
+   */
+  public static create(data: ConnectionQualityData): ConnectionQualityReport {
+    return new ConnectionQualityReport(data);
+  }
+
+  /**
+   * Rehydrates a ConnectionQualityReport from its toJSON() output, without the exact
+   * signals, which are not serialized.
+   */
+  public static fromJSON(json: unknown): ConnectionQualityReport {
+    const record = readReportPayload(json, REPORT_KINDS.CONNECTION_QUALITY);
+    return new ConnectionQualityReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      quality: readOneOf(record, 'quality', Object.values(CONNECTION_QUALITIES)),
+      effectiveType: readOptionalString(record, 'effectiveType') ?? null,
+      rtt: null,
+      downlink: null,
+      saveData: readBoolean(record, 'saveData'),
+      measuredThroughput: null,
+      sampleCount: 0,
+    });
+  }
+
+  /**
+   * Creates a ConnectionQualityReport classifying the given network conditions.
+   */
+  public static fromSignals(id: string, signals: ConnectionSignals): ConnectionQualityReport {
+    const now = PerformanceTime.now();
+    return new ConnectionQualityReport({
+      id,
+      createdAt: now,
+      occurredAt: now,
+      quality: classifyConnection(signals),
+      effectiveType: signals.effectiveType,
+      rtt: signals.rtt,
+      downlink: signals.downlink,
+      saveData: signals.saveData,
+      measuredThroughput: signals.measuredThroughput,
+      sampleCount: signals.sampleCount,
+    });
+  }
+
+  /**
+   * Whether the page should reduce the data it loads: the connection is slow
+   * or offline, or the user enabled data saving.
+   */
+  public get isConstrained(): boolean {
+    return this.saveData ||
+      this.quality === CONNECTION_QUALITIES.SLOW ||
+      this.quality === CONNECTION_QUALITIES.OFFLINE;
+  }
+
+  /**
+   * String representation of the connection quality.
+   */
+  public toString(): string {
+    const details = [
+      this.effectiveType,
+      this.rtt !== null ? `${this.rtt}ms RTT` : null,
+      this.measuredThroughput !== null ? `${this.measuredThroughput.toFixed(1)}Mbps measured` : null,
+      this.saveData ? 'save-data' : null,
+    ].filter(detail => detail !== null);
+    const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+    return `ConnectionQuality: ${this.quality}${suffix}`;
+  }
+
+  /**
+   * JSON representation for serialization, with the coarse quality class only.
+   */
+  public toJSON(): SerializedConnectionQualityReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      quality: this.quality,
+      effectiveType: this.effectiveType,
+      saveData: this.saveData,
+      isConstrained: this.isConstrained,
+    };
+  }
+}
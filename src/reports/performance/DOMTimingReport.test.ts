@@ -76,6 +76,23 @@ describe('DOMTimingReport', () => {
       expect(report.domContentLoadedDuration).toBe(0);
       expect(report.loadEventDuration).toBe(1);
     });
+
+    it('should measure the milestones of prerendered pages from their activation', () => {
+      // Given
+      const navigation = DOMTimingReportMothers.createPerformanceNavigationTiming('fast');
+      const entry = { ...navigation, activationStart: navigation.fetchStart + 500 };
+
+      // When
+      const report = DOMTimingReport.fromPerformanceEntry('test-prerendered', entry);
+
+      // Then
+      expect(report.timeToInteractive).toBe(300);
+      expect(report.timeToContentLoaded).toBe(400);
+      expect(report.timeToDOMComplete).toBe(500);
+      expect(report.timeToFullLoad).toBe(530);
+      expect(report.domContentLoadedDuration).toBe(50);
+      expect(report.loadEventDuration).toBe(30);
+    });
   });
 
   describe('calculated getters', () => {
@@ -145,6 +162,8 @@ describe('DOMTimingReport', () => {
       expect(jsonRepresentation).toEqual({
         // Metadata
         id: 'slow-dom-timing-002',
+        kind: 'performance.dom-timing',
+        schemaVersion: 1,
         createdAt: data.createdAt.absoluteTime,
         occurredAt: data.occurredAt.absoluteTime,
         
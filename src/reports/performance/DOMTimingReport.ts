@@ -1,5 +1,15 @@
 import type { Report } from '@/reports/Report';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedDOMTimingReport } from '@/types/SerializedReports';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import {
+  readNumber,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { relativeToActivation } from '@/shared/PageLifecycle';
 
 interface DOMTimingData {
   id: string;
@@ -29,6 +39,7 @@ interface DOMTimingData {
  *              (DOM ready)       (Initial scripts)  (Parsing done) (All resources)
  */
 export class DOMTimingReport implements Report {
+  public readonly kind = REPORT_KINDS.DOM_TIMING;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -90,23 +101,43 @@ export class DOMTimingReport implements Report {
     return new DOMTimingReport(data);
   }
 
+  /**
+   * Rehydrates a DOMTimingReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): DOMTimingReport {
+    const record = readReportPayload(json, REPORT_KINDS.DOM_TIMING);
+    return new DOMTimingReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      timeToInteractive: readNumber(record, 'timeToInteractive'),
+      timeToContentLoaded: readNumber(record, 'timeToContentLoaded'),
+      timeToDOMComplete: readNumber(record, 'timeToDOMComplete'),
+      timeToFullLoad: readNumber(record, 'timeToFullLoad'),
+      domContentLoadedDuration: readNumber(record, 'domContentLoadedDuration'),
+      loadEventDuration: readNumber(record, 'loadEventDuration'),
+    });
+  }
+
   /**
    * Creates a DOMTimingReport from PerformanceNavigationTiming entry.
+   * Milestones of a prerendered page are measured from its activation.
    */
   public static fromPerformanceEntry(
     id: string, 
-    entry: PerformanceNavigationTiming
+    entry: PerformanceNavigationTimingEntry
   ): DOMTimingReport {
+    const start = Math.max(entry.fetchStart, entry.activationStart ?? 0);
     return new DOMTimingReport({
       id,
       createdAt: PerformanceTime.now(),
       occurredAt: PerformanceTime.fromRelativeTime(entry.startTime),
       
-      // Milestones from navigation start
-      timeToInteractive: Math.max(0, entry.domInteractive - entry.fetchStart),
-      timeToContentLoaded: Math.max(0, entry.domContentLoadedEventEnd - entry.fetchStart),
-      timeToDOMComplete: Math.max(0, entry.domComplete - entry.fetchStart),
-      timeToFullLoad: Math.max(0, entry.loadEventEnd - entry.fetchStart),
+      // Milestones from navigation start (or prerender activation)
+      timeToInteractive: relativeToActivation(entry.domInteractive, start),
+      timeToContentLoaded: relativeToActivation(entry.domContentLoadedEventEnd, start),
+      timeToDOMComplete: relativeToActivation(entry.domComplete, start),
+      timeToFullLoad: relativeToActivation(entry.loadEventEnd, start),
       
       // Event execution durations
       domContentLoadedDuration: Math.max(0, 
@@ -177,10 +208,12 @@ export class DOMTimingReport implements Report {
   /**
    * JSON representation for serialization and analysis.
    */
-  public toJSON() {
+  public toJSON(): SerializedDOMTimingReport {
     return {
       // Metadata
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       
@@ -205,6 +205,8 @@ describe('ElementTimingReport', () => {
       expect(jsonRepresentation).toEqual({
         // Basic metadata
         id: 'hero-element-timing-001',
+        kind: 'performance.element-timing',
+        schemaVersion: 1,
         createdAt: data.createdAt.absoluteTime,
         occurredAt: data.occurredAt.absoluteTime,
 
@@ -224,7 +226,7 @@ describe('ElementTimingReport', () => {
       });
     });
 
-    it('should handle undefined properties correctly', () => {
+    it('should emit null for undefined properties', () => {
       // Given
       const data = ElementTimingReportMothers.minimal();
       const report = ElementTimingReport.create(data);
@@ -233,10 +235,10 @@ describe('ElementTimingReport', () => {
       const jsonRepresentation = report.toJSON();
 
       // Then
-      expect(jsonRepresentation.elementId).toBeUndefined();
-      expect(jsonRepresentation.naturalWidth).toBeUndefined();
-      expect(jsonRepresentation.naturalHeight).toBeUndefined();
-      expect(jsonRepresentation.url).toBeUndefined();
+      expect(jsonRepresentation.elementId).toBeNull();
+      expect(jsonRepresentation.naturalWidth).toBeNull();
+      expect(jsonRepresentation.naturalHeight).toBeNull();
+      expect(jsonRepresentation.url).toBeNull();
       expect(jsonRepresentation.isImage).toBe(false);
       expect(jsonRepresentation.hasCustomIdentifier).toBe(true);
     });
@@ -1,6 +1,16 @@
 import type { Report } from '@/reports/Report';
 import type { PerformanceElementTiming } from '@/types/PerformanceEntryTypes';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedElementTimingReport } from '@/types/SerializedReports';
+import {
+  readNumber,
+  readOptionalNumber,
+  readOptionalString,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
 
 interface ElementTimingData {
   id: string;
@@ -23,6 +33,7 @@ interface ElementTimingData {
  * or other key page elements.
  */
 export class ElementTimingReport implements Report {
+  public readonly kind = REPORT_KINDS.ELEMENT_TIMING;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -56,6 +67,25 @@ export class ElementTimingReport implements Report {
     return new ElementTimingReport(data);
   }
 
+  /**
+   * Rehydrates an ElementTimingReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): ElementTimingReport {
+    const record = readReportPayload(json, REPORT_KINDS.ELEMENT_TIMING);
+    return new ElementTimingReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      elementId: readOptionalString(record, 'elementId'),
+      identifier: readString(record, 'identifier'),
+      loadTime: readNumber(record, 'loadTime'),
+      renderTime: readNumber(record, 'renderTime'),
+      naturalWidth: readOptionalNumber(record, 'naturalWidth'),
+      naturalHeight: readOptionalNumber(record, 'naturalHeight'),
+      url: readOptionalString(record, 'url'),
+    });
+  }
+
   /**
    * Creates an ElementTimingReport from a PerformanceElementTiming entry.
    */
@@ -120,19 +150,21 @@ export class ElementTimingReport implements Report {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedElementTimingReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
-      elementId: this.elementId,
+      elementId: this.elementId ?? null,
       identifier: this.identifier,
       loadTime: this.loadTime,
       renderTime: this.renderTime,
       effectiveRenderTime: this.effectiveRenderTime,
-      naturalWidth: this.naturalWidth,
-      naturalHeight: this.naturalHeight,
-      url: this.url,
+      naturalWidth: this.naturalWidth ?? null,
+      naturalHeight: this.naturalHeight ?? null,
+      url: this.url ?? null,
       isImage: this.isImage,
       hasCustomIdentifier: this.hasCustomIdentifier,
     };
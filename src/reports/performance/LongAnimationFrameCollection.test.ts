@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { LongAnimationFrameReportMothers } from '@/test/mothers/LongAnimationFrameReportMothers';
+
+import { LongAnimationFrameCollection } from './LongAnimationFrameCollection';
+
+const { script, withScripts } = LongAnimationFrameReportMothers;
+
+const ANALYTICS = 'https://cdn.analytics.com/tag.js';
+const ADS = 'https://ads.network.com/ad.js';
+
+describe('LongAnimationFrameCollection', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    windowLocationHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+    windowLocationHelper.unmock();
+  });
+
+  it('should report nothing when there are no frames', () => {
+    // When
+    const collection = LongAnimationFrameCollection.fromLongAnimationFrameReports('loaf', []);
+
+    // Then
+    expect(collection.totalBlockingDuration).toBe(0);
+    expect(collection.worstFrame).toBeNull();
+    expect(collection.worstScripts).toEqual([]);
+    expect(collection.worstThirdPartyOrigins).toEqual([]);
+  });
+
+  it('should rank scripts by the blocking duration accumulated across frames', () => {
+    // Given
+    const reports = [
+      withScripts('frame-1', 60, [script({ duration: 30 }), script({ sourceURL: ANALYTICS, duration: 30 })]),
+      withScripts('frame-2', 40, [script({ sourceURL: ANALYTICS, duration: 100 })]),
+      withScripts('frame-3', 20, [script({ duration: 100 })]),
+    ];
+
+    // When
+    const collection = LongAnimationFrameCollection.fromLongAnimationFrameReports('loaf', reports);
+
+    // Then
+    expect(collection.totalBlockingDuration).toBe(120);
+    expect(collection.worstFrame?.id).toBe('frame-1');
+    expect(collection.worstScripts.map(({ source, blockingDuration, count }) => ({ source, blockingDuration, count })))
+      .toEqual([
+        { source: ANALYTICS, blockingDuration: 70, count: 2 },
+        { source: 'https://example.com/js/main.js', blockingDuration: 50, count: 2 },
+      ]);
+    expect(collection.worstScripts[0].reports.map(report => report.id)).toEqual(['frame-1', 'frame-2']);
+  });
+
+  it('should group scripts without URL by their invoker', () => {
+    // Given
+    const reports = [
+      withScripts('frame-1', 50, [script({ sourceURL: '', invoker: 'DIV.onclick' })]),
+    ];
+
+    // When
+    const collection = LongAnimationFrameCollection.fromLongAnimationFrameReports('loaf', reports);
+
+    // Then
+    expect(collection.worstScripts[0]).toMatchObject({ source: 'DIV.onclick', origin: null, isThirdParty: false });
+    expect(collection.worstThirdPartyOrigins).toEqual([]);
+  });
+
+  it('should rank third-party origins by the blocking duration of their scripts', () => {
+    // Given
+    const reports = [
+      withScripts('frame-1', 90, [
+        script({ duration: 30 }),
+        script({ sourceURL: ANALYTICS, duration: 30 }),
+        script({ sourceURL: 'https://cdn.analytics.com/plugin.js', duration: 30 }),
+      ]),
+      withScripts('frame-2', 50, [script({ sourceURL: ADS, duration: 50 })]),
+    ];
+
+    // When
+    const collection = LongAnimationFrameCollection.fromLongAnimationFrameReports('loaf', reports);
+
+    // Then
+    expect(collection.worstThirdPartyOrigins.map(({ origin, blockingDuration, count }) => ({ origin, blockingDuration, count })))
+      .toEqual([
+        { origin: 'https://cdn.analytics.com', blockingDuration: 60, count: 2 },
+        { origin: 'https://ads.network.com', blockingDuration: 50, count: 1 },
+      ]);
+  });
+
+  it('should serialize the rankings by report id and recompute them when rehydrated', () => {
+    // Given
+    const collection = LongAnimationFrameCollection.fromLongAnimationFrameReports('loaf', [
+      LongAnimationFrameReportMothers.withThirdPartyScript(),
+    ]);
+
+    // When
+    const json = JSON.parse(JSON.stringify(collection));
+    const rehydrated = LongAnimationFrameCollection.fromJSON(json);
+
+    // Then
+    expect(json.worstFrameId).toBe('loaf-third-party');
+    expect(json.worstScripts[0]).toEqual({
+      source: ANALYTICS,
+      origin: 'https://cdn.analytics.com',
+      isThirdParty: true,
+      blockingDuration: 60,
+      duration: 80,
+      forcedStyleAndLayoutDuration: 15,
+      count: 1,
+      reportIds: ['loaf-third-party'],
+    });
+    expect(json.worstThirdPartyOrigins).toEqual([{
+      origin: 'https://cdn.analytics.com',
+      blockingDuration: 60,
+      duration: 80,
+      count: 1,
+      reportIds: ['loaf-third-party'],
+    }]);
+    expect(rehydrated.toJSON()).toEqual(collection.toJSON());
+  });
+});
@@ -0,0 +1,194 @@
+import {
+  LongAnimationFrameReport,
+  isThirdPartyScript,
+  scriptOrigin
+} from '@/reports/performance/LongAnimationFrameReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedLongAnimationFrameCollection } from '@/types/SerializedReports';
+import { readArray, readReportPayload, readString, readTime } from '@/shared/deserialization';
+
+type LongAnimationFrameCollectionData = ReportCollectionData<LongAnimationFrameReport>;
+
+/**
+ * Time a script, or every script of an origin, blocked the main thread across the collected frames.
+ */
+interface BlockingSummary {
+  /** Blocking duration attributed to the scripts (see LongAnimationFrameReport.blockingDurationOf) */
+  blockingDuration: number;
+  /** Total time the scripts ran */
+  duration: number;
+  /** Number of script executions */
+  count: number;
+  /** Frames in which the scripts ran */
+  reports: LongAnimationFrameReport[];
+}
+
+/**
+ * Script ranked by the time it blocked the main thread.
+ */
+export interface LongAnimationFrameScriptSummary extends BlockingSummary {
+  /** Script URL, or its invoker for scripts without URL (e.g. inline scripts) */
+  source: string;
+  origin: string | null;
+  isThirdParty: boolean;
+  forcedStyleAndLayoutDuration: number;
+}
+
+/**
+ * Third-party origin ranked by the time its scripts blocked the main thread.
+ */
+export interface LongAnimationFrameOriginSummary extends BlockingSummary {
+  origin: string;
+}
+
+const addTo = (summary: BlockingSummary, report: LongAnimationFrameReport, blockingDuration: number, duration: number) => {
+  summary.blockingDuration += blockingDuration;
+  summary.duration += duration;
+  summary.count += 1;
+  if (!summary.reports.includes(report)) summary.reports.push(report);
+};
+
+const byBlockingDuration = (a: BlockingSummary, b: BlockingSummary) => (
+  b.blockingDuration - a.blockingDuration || b.duration - a.duration
+);
+
+/**
+ * Collection and aggregator for LongAnimationFrameReport instances.
+ *
+ * Attributes the blocking time of every frame to the scripts that ran in it,
+ * and ranks scripts and third-party origins by the time they blocked the main thread.
+ */
+export class LongAnimationFrameCollection extends ReportCollection<LongAnimationFrameReport> {
+  public readonly kind = REPORT_KINDS.LONG_ANIMATION_FRAME_COLLECTION;
+
+  private constructor(data: LongAnimationFrameCollectionData) {
+    super(data);
+    Object.freeze(this);
+  }
+
+  public static create(data: LongAnimationFrameCollectionData): LongAnimationFrameCollection {
+    return new LongAnimationFrameCollection(data);
+  }
+
+  /**
+   * Rehydrates a LongAnimationFrameCollection and its reports from its toJSON() output.
+   * Rankings are recomputed from the reports.
+   */
+  public static fromJSON(json: unknown): LongAnimationFrameCollection {
+    const record = readReportPayload(json, REPORT_KINDS.LONG_ANIMATION_FRAME_COLLECTION);
+    return new LongAnimationFrameCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', LongAnimationFrameReport.fromJSON),
+    });
+  }
+
+  public static fromLongAnimationFrameReports(
+    id: string,
+    reports: LongAnimationFrameReport[]
+  ): LongAnimationFrameCollection {
+    return new LongAnimationFrameCollection({
+      id,
+      createdAt: PerformanceTime.now(),
+      reports,
+    });
+  }
+
+  /**
+   * Total blocking duration of every frame.
+   */
+  public get totalBlockingDuration(): number {
+    return this.reports.reduce((total, report) => total + report.blockingDuration, 0);
+  }
+
+  /**
+   * Frame with the longest blocking duration.
+   */
+  public get worstFrame(): LongAnimationFrameReport | null {
+    if (this.isEmpty) return null;
+    return this.reports.reduce((worst, current) =>
+      current.blockingDuration > worst.blockingDuration ? current : worst
+    );
+  }
+
+  /**
+   * Scripts ranked by blocking duration, worst first.
+   */
+  public get worstScripts(): LongAnimationFrameScriptSummary[] {
+    const bySource = new Map<string, LongAnimationFrameScriptSummary>();
+
+    for (const report of this.reports) {
+      for (const script of report.scripts) {
+        const source = script.sourceURL || script.invoker;
+        let summary = bySource.get(source);
+        if (!summary) {
+          summary = {
+            source,
+            origin: scriptOrigin(script.sourceURL),
+            isThirdParty: isThirdPartyScript(script.sourceURL),
+            blockingDuration: 0,
+            duration: 0,
+            forcedStyleAndLayoutDuration: 0,
+            count: 0,
+            reports: [],
+          };
+          bySource.set(source, summary);
+        }
+        summary.forcedStyleAndLayoutDuration += script.forcedStyleAndLayoutDuration;
+        addTo(summary, report, report.blockingDurationOf(script), script.duration);
+      }
+    }
+
+    return Array.from(bySource.values()).sort(byBlockingDuration);
+  }
+
+  /**
+   * Third-party origins ranked by the blocking duration of their scripts, worst first.
+   */
+  public get worstThirdPartyOrigins(): LongAnimationFrameOriginSummary[] {
+    const byOrigin = new Map<string, LongAnimationFrameOriginSummary>();
+
+    for (const report of this.reports) {
+      for (const script of report.scripts) {
+        const origin = scriptOrigin(script.sourceURL);
+        if (!origin || !isThirdPartyScript(script.sourceURL)) continue;
+
+        let summary = byOrigin.get(origin);
+        if (!summary) {
+          summary = { origin, blockingDuration: 0, duration: 0, count: 0, reports: [] };
+          byOrigin.set(origin, summary);
+        }
+        addTo(summary, report, report.blockingDurationOf(script), script.duration);
+      }
+    }
+
+    return Array.from(byOrigin.values()).sort(byBlockingDuration);
+  }
+
+  toString(): string {
+    return `LongAnimationFrameCollection: ${this.totalReports} frames, ${Math.round(this.totalBlockingDuration)}ms blocking`;
+  }
+
+  toJSON(): SerializedLongAnimationFrameCollection {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      totalReports: this.totalReports,
+      totalBlockingDuration: this.totalBlockingDuration,
+      reports: this.reports.map(report => report.toJSON()),
+      worstFrameId: this.worstFrame?.id ?? null,
+      worstScripts: this.worstScripts.map(({ reports, ...summary }) => ({
+        ...summary,
+        reportIds: reports.map(report => report.id),
+      })),
+      worstThirdPartyOrigins: this.worstThirdPartyOrigins.map(({ reports, ...summary }) => ({
+        ...summary,
+        reportIds: reports.map(report => report.id),
+      })),
+    };
+  }
+}
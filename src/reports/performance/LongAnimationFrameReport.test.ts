@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { LongAnimationFrameReportMothers } from '@/test/mothers/LongAnimationFrameReportMothers';
+
+import { LongAnimationFrameReport } from './LongAnimationFrameReport';
+
+describe('LongAnimationFrameReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should keep the script attribution of the frame', () => {
+    // Given
+    const entry = LongAnimationFrameReportMothers.entry();
+
+    // When
+    const report = LongAnimationFrameReport.fromPerformanceLongAnimationFrameTimingEntry('loaf', entry);
+
+    // Then
+    expect(report.duration).toBe(120);
+    expect(report.blockingDuration).toBe(70);
+    expect(report.scripts).toHaveLength(1);
+    expect(report.scripts[0]).toMatchObject({
+      sourceURL: 'https://example.com/js/main.js',
+      sourceFunctionName: 'onBuy',
+      invoker: 'BUTTON#buy.onclick',
+      invokerType: 'event-listener',
+      duration: 60,
+    });
+    expect(report.scripts[0].startTime.relativeTime).toBe(1010);
+    expect(Object.isFrozen(report)).toBe(true);
+  });
+
+  it('should compute the script, forced layout and render durations', () => {
+    // Given
+    const entry = LongAnimationFrameReportMothers.entry({
+      scripts: [
+        LongAnimationFrameReportMothers.script({ duration: 30, forcedStyleAndLayoutDuration: 5 }),
+        LongAnimationFrameReportMothers.script({ duration: 50, forcedStyleAndLayoutDuration: 10 }),
+      ],
+    });
+
+    // When
+    const report = LongAnimationFrameReport.fromPerformanceLongAnimationFrameTimingEntry('loaf', entry);
+
+    // Then
+    expect(report.scriptDuration).toBe(80);
+    expect(report.forcedStyleAndLayoutDuration).toBe(15);
+    expect(report.renderDuration).toBe(30);
+    expect(report.longestScript?.duration).toBe(50);
+  });
+
+  it('should not report a render when the frame did not render', () => {
+    // Given
+    const entry = LongAnimationFrameReportMothers.entry({ renderStart: 0, styleAndLayoutStart: 0 });
+
+    // When
+    const report = LongAnimationFrameReport.fromPerformanceLongAnimationFrameTimingEntry('loaf', entry);
+
+    // Then
+    expect(report.renderStart).toBeNull();
+    expect(report.styleAndLayoutStart).toBeNull();
+    expect(report.renderDuration).toBe(0);
+  });
+
+  it('should attribute the blocking duration to scripts proportionally to their duration', () => {
+    // Given
+    const report = LongAnimationFrameReportMothers.withThirdPartyScript();
+
+    // When
+    const [firstParty, thirdParty] = report.scripts.map(script => report.blockingDurationOf(script));
+
+    // Then
+    expect(firstParty).toBe(30);
+    expect(thirdParty).toBe(60);
+  });
+
+  it('should not attribute blocking duration in frames without scripts', () => {
+    // Given
+    const report = LongAnimationFrameReportMothers.withScripts('loaf', 70, []);
+
+    // Then
+    expect(report.longestScript).toBeNull();
+    expect(report.scriptDuration).toBe(0);
+  });
+
+  it('should serialize the scripts and rehydrate an equal report', () => {
+    // Given
+    const report = LongAnimationFrameReportMothers.withThirdPartyScript();
+
+    // When
+    const json = JSON.parse(JSON.stringify(report));
+    const rehydrated = LongAnimationFrameReport.fromJSON(json);
+
+    // Then
+    expect(json.scripts[1]).toMatchObject({
+      sourceURL: 'https://cdn.analytics.com/tag.js',
+      startTime: report.scripts[1].startTime.absoluteTime,
+      forcedStyleAndLayoutDuration: 15,
+    });
+    expect(json.scriptDuration).toBe(120);
+    expect(rehydrated.toJSON()).toEqual(report.toJSON());
+  });
+});
@@ -0,0 +1,267 @@
+import type { Report } from '@/reports/Report';
+import type {
+  PerformanceLongAnimationFrameTimingEntry,
+  PerformanceScriptTimingEntry
+} from '@/types/PerformanceEntryTypes';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type {
+  SerializedLongAnimationFrameReport,
+  SerializedLongAnimationFrameScript
+} from '@/types/SerializedReports';
+import {
+  type JSONRecord,
+  readArray,
+  readNumber,
+  readOptionalTime,
+  readRecord,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+
+/**
+ * Script that ran during a long animation frame (PerformanceScriptTiming).
+ */
+export interface LongAnimationFrameScript {
+  /** URL of the script, empty for inline scripts and some browser callbacks */
+  sourceURL: string;
+  sourceFunctionName: string;
+  sourceCharPosition: number;
+  /** What started the script, e.g. "BUTTON#buy.onclick" or "TimerHandler:setTimeout" */
+  invoker: string;
+  /** e.g. "event-listener", "user-callback", "classic-script", "resolve-promise" */
+  invokerType: string;
+  /** Relationship of the window running the script: "self", "descendant", "ancestor", "same-page" or "other" */
+  windowAttribution: string;
+  startTime: PerformanceTime;
+  duration: number;
+  /** Time spent recalculating style and layout synchronously */
+  forcedStyleAndLayoutDuration: number;
+  /** Time spent in synchronous pauses, such as alert() or sync XHR */
+  pauseDuration: number;
+}
+
+interface LongAnimationFrameData {
+  id: string;
+  createdAt: PerformanceTime;
+  occurredAt: PerformanceTime;
+  duration: number;
+  blockingDuration: number;
+  renderStart: PerformanceTime | null;
+  styleAndLayoutStart: PerformanceTime | null;
+  scripts: LongAnimationFrameScript[];
+}
+
+const toScript = (entry: PerformanceScriptTimingEntry): LongAnimationFrameScript => ({
+  sourceURL: entry.sourceURL,
+  sourceFunctionName: entry.sourceFunctionName,
+  sourceCharPosition: entry.sourceCharPosition,
+  invoker: entry.invoker,
+  invokerType: entry.invokerType,
+  windowAttribution: entry.windowAttribution,
+  startTime: PerformanceTime.fromRelativeTime(entry.startTime),
+  duration: entry.duration,
+  forcedStyleAndLayoutDuration: entry.forcedStyleAndLayoutDuration,
+  pauseDuration: entry.pauseDuration,
+});
+
+const readScript = (json: unknown): LongAnimationFrameScript => {
+  const record: JSONRecord = readRecord(json, 'a script timing');
+  return {
+    sourceURL: readString(record, 'sourceURL'),
+    sourceFunctionName: readString(record, 'sourceFunctionName'),
+    sourceCharPosition: readNumber(record, 'sourceCharPosition'),
+    invoker: readString(record, 'invoker'),
+    invokerType: readString(record, 'invokerType'),
+    windowAttribution: readString(record, 'windowAttribution'),
+    startTime: readTime(record, 'startTime'),
+    duration: readNumber(record, 'duration'),
+    forcedStyleAndLayoutDuration: readNumber(record, 'forcedStyleAndLayoutDuration'),
+    pauseDuration: readNumber(record, 'pauseDuration'),
+  };
+};
+
+/**
+ * Renders and style/layout starts are 0 when the frame did not render.
+ */
+const toOptionalTime = (relativeTime: number): PerformanceTime | null => (
+  relativeTime > 0 ? PerformanceTime.fromRelativeTime(relativeTime) : null
+);
+
+/**
+ * Origin of a script URL, or null for inline scripts and unparsable URLs.
+ */
+export const scriptOrigin = (sourceURL: string): string | null => {
+  if (!sourceURL) return null;
+  try {
+    return new URL(sourceURL).origin;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Whether a script was loaded from a third party, see OriginClassifier.
+ */
+export const isThirdPartyScript = (sourceURL: string): boolean => (
+  !!sourceURL && OriginClassifier.getInstance().isThirdParty(sourceURL)
+);
+
+/**
+ * Report for Long Animation Frames API performance entries.
+ *
+ * A long animation frame is a frame whose work, from the first task until the
+ * next paint, took 50ms or more. Unlike long tasks, each frame carries the
+ * scripts that ran during it, with their source and invoker.
+ */
+export class LongAnimationFrameReport implements Report {
+  public readonly kind = REPORT_KINDS.LONG_ANIMATION_FRAME;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  public readonly duration: number;
+  /** Sum of the time each long task of the frame ran over 50ms, plus the render time if over 50ms */
+  public readonly blockingDuration: number;
+  public readonly renderStart: PerformanceTime | null;
+  public readonly styleAndLayoutStart: PerformanceTime | null;
+  public readonly scripts: readonly LongAnimationFrameScript[];
+
+  private constructor(data: LongAnimationFrameData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.occurredAt;
+    this.duration = data.duration;
+    this.blockingDuration = data.blockingDuration;
+    this.renderStart = data.renderStart;
+    this.styleAndLayoutStart = data.styleAndLayoutStart;
+    this.scripts = Object.freeze(Array.from(data.scripts));
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a LongAnimationFrameReport from provided data.
+   */
+  public static create(data: LongAnimationFrameData): LongAnimationFrameReport {
+    return new LongAnimationFrameReport(data);
+  }
+
+  /**
+   * Rehydrates a LongAnimationFrameReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): LongAnimationFrameReport {
+    const record = readReportPayload(json, REPORT_KINDS.LONG_ANIMATION_FRAME);
+    return new LongAnimationFrameReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      duration: readNumber(record, 'duration'),
+      blockingDuration: readNumber(record, 'blockingDuration'),
+      renderStart: readOptionalTime(record, 'renderStart') ?? null,
+      styleAndLayoutStart: readOptionalTime(record, 'styleAndLayoutStart') ?? null,
+      scripts: readArray(record, 'scripts', readScript),
+    });
+  }
+
+  /**
+   * Creates a LongAnimationFrameReport from a PerformanceLongAnimationFrameTiming entry.
+   */
+  public static fromPerformanceLongAnimationFrameTimingEntry(
+    id: string,
+    entry: PerformanceLongAnimationFrameTimingEntry
+  ): LongAnimationFrameReport {
+    return new LongAnimationFrameReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: PerformanceTime.fromRelativeTime(entry.startTime),
+      duration: entry.duration,
+      blockingDuration: entry.blockingDuration,
+      renderStart: toOptionalTime(entry.renderStart),
+      styleAndLayoutStart: toOptionalTime(entry.styleAndLayoutStart),
+      scripts: (entry.scripts ?? []).map(toScript),
+    });
+  }
+
+  /**
+   * Gets the end time of the frame.
+   */
+  public get endTime(): PerformanceTime {
+    return this.occurredAt.add(this.duration);
+  }
+
+  /**
+   * Total time spent running scripts during the frame.
+   */
+  public get scriptDuration(): number {
+    return this.scripts.reduce((total, script) => total + script.duration, 0);
+  }
+
+  /**
+   * Total time scripts spent forcing synchronous style and layout.
+   */
+  public get forcedStyleAndLayoutDuration(): number {
+    return this.scripts.reduce((total, script) => total + script.forcedStyleAndLayoutDuration, 0);
+  }
+
+  /**
+   * Time from the start of the rendering update until the end of the frame (0 when it did not render).
+   */
+  public get renderDuration(): number {
+    if (!this.renderStart) return 0;
+    return Math.max(this.endTime.relativeTime - this.renderStart.relativeTime, 0);
+  }
+
+  /**
+   * Script that ran the longest during the frame.
+   */
+  public get longestScript(): LongAnimationFrameScript | null {
+    if (this.scripts.length === 0) return null;
+    return this.scripts.reduce((longest, current) =>
+      current.duration > longest.duration ? current : longest
+    );
+  }
+
+  /**
+   * Share of the frame's blocking duration attributed to a script, proportional
+   * to the time it ran compared to every script of the frame.
+   */
+  public blockingDurationOf(script: LongAnimationFrameScript): number {
+    const scriptDuration = this.scriptDuration;
+    if (scriptDuration === 0) return 0;
+    return this.blockingDuration * (script.duration / scriptDuration);
+  }
+
+  /**
+   * String representation of the long animation frame.
+   */
+  public toString(): string {
+    return `Long Animation Frame: ${this.duration}ms (${this.blockingDuration}ms blocking) at ${this.occurredAt.relativeTime}ms, ${this.scripts.length} scripts`;
+  }
+
+  /**
+   * JSON representation for serialization.
+   */
+  public toJSON(): SerializedLongAnimationFrameReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      duration: this.duration,
+      endTime: this.endTime.absoluteTime,
+      blockingDuration: this.blockingDuration,
+      renderStart: this.renderStart?.absoluteTime ?? null,
+      styleAndLayoutStart: this.styleAndLayoutStart?.absoluteTime ?? null,
+      renderDuration: this.renderDuration,
+      scriptDuration: this.scriptDuration,
+      forcedStyleAndLayoutDuration: this.forcedStyleAndLayoutDuration,
+      scripts: this.scripts.map((script): SerializedLongAnimationFrameScript => ({
+        ...script,
+        startTime: script.startTime.absoluteTime,
+      })),
+    };
+  }
+}
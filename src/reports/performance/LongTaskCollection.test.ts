@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { LongTaskCollectionMothers } from '@/test/mothers/LongTaskCollectionMothers';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
+
+import { LongTaskCollection, estimateTimeToInteractive } from './LongTaskCollection';
+
+const at = (time: number) => PerformanceTime.fromRelativeTime(time);
+
+describe('LongTaskCollection', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  describe('estimateTimeToInteractive', () => {
+    it('should end at the last long task before the first 5s quiet window after FCP', () => {
+      // When
+      const tti = estimateTimeToInteractive({
+        firstContentfulPaint: at(1000),
+        longTasks: LongTaskCollectionMothers.pageLoadTasks(),
+        requests: [],
+        now: at(20_000),
+      });
+
+      // Then
+      expect(tti?.relativeTime).toBe(3060);
+    });
+
+    it('should not consider windows with more than two requests in flight as quiet', () => {
+      // Given
+      const requests = [
+        TimeSegment.fromTiming(4000, 8500),
+        TimeSegment.fromTiming(4000, 8500),
+        TimeSegment.fromTiming(4000, 8500),
+        TimeSegment.fromTiming(5000, 6000),
+      ];
+
+      // When
+      const tti = estimateTimeToInteractive({
+        firstContentfulPaint: at(1000),
+        longTasks: LongTaskCollectionMothers.pageLoadTasks(),
+        requests,
+        now: at(20_000),
+      });
+
+      // Then
+      expect(tti?.relativeTime).toBe(9300);
+    });
+
+    it('should be null until a quiet window has elapsed', () => {
+      // When
+      const tti = estimateTimeToInteractive({
+        firstContentfulPaint: at(1000),
+        longTasks: LongTaskCollectionMothers.pageLoadTasks().slice(0, 3),
+        requests: [],
+        now: at(8000),
+      });
+
+      // Then
+      expect(tti).toBeNull();
+    });
+
+    it('should be FCP when no long task follows it', () => {
+      // When
+      const tti = estimateTimeToInteractive({
+        firstContentfulPaint: at(1000),
+        longTasks: [LongTaskCollectionMothers.task('before-fcp', 200, 300)],
+        requests: [],
+        now: at(6000),
+      });
+
+      // Then
+      expect(tti?.relativeTime).toBe(1000);
+    });
+  });
+
+  it('should sum the blocking time of the tasks between FCP and TTI', () => {
+    // Given
+    const collection = LongTaskCollection.create(LongTaskCollectionMothers.pageLoad());
+    const [straddlingFCP, , , afterTTI] = collection.reports;
+
+    // Then
+    expect(collection.blockingTimeOf(straddlingFCP)).toBe(100);
+    expect(collection.blockingTimeOf(afterTTI)).toBe(0);
+    expect(collection.totalBlockingTime).toBe(180);
+    expect(collection.totalDuration).toBe(680);
+    expect(collection.longestTask?.id).toBe('task-after-tti');
+  });
+
+  it('should count every task after FCP until TTI is known', () => {
+    // Given
+    const collection = LongTaskCollection.fromLongTaskReports(
+      'collection',
+      LongTaskCollectionMothers.pageLoadTasks(),
+      at(1000)
+    );
+
+    // Then
+    expect(collection.totalBlockingTime).toBe(430);
+  });
+
+  it('should not count blocking time before FCP', () => {
+    // Given
+    const collection = LongTaskCollection.fromLongTaskReports('collection', LongTaskCollectionMothers.pageLoadTasks());
+
+    // Then
+    expect(collection.totalBlockingTime).toBe(0);
+    expect(collection.toString()).toBe('LongTaskCollection: 4 tasks, TBT 0ms');
+  });
+
+  it('should serialize the blocking time window and rehydrate an equal collection', () => {
+    // Given
+    const collection = LongTaskCollection.create(LongTaskCollectionMothers.pageLoad());
+
+    // When
+    const json = JSON.parse(JSON.stringify(collection));
+    const rehydrated = LongTaskCollection.fromJSON(json);
+
+    // Then
+    expect(json).toMatchObject({
+      totalReports: 4,
+      totalBlockingTime: 180,
+      firstContentfulPaint: performanceAPIHelper.toAbsoluteTime(1000),
+      timeToInteractive: performanceAPIHelper.toAbsoluteTime(3060),
+      longestTaskId: 'task-after-tti',
+    });
+    expect(rehydrated.toJSON()).toEqual(collection.toJSON());
+  });
+});
@@ -0,0 +1,224 @@
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import type { TimeSegment } from '@/value-objects/TimeSegment';
+import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedLongTaskCollection } from '@/types/SerializedReports';
+import {
+  readArray,
+  readOptionalTime,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+
+/**
+ * Tasks longer than this many milliseconds block the main thread for the excess.
+ */
+export const BLOCKING_TIME_THRESHOLD = 50;
+
+/**
+ * Duration of the quiet window that marks the page as interactive.
+ */
+export const QUIET_WINDOW_DURATION = 5000;
+
+/**
+ * Maximum number of network requests in flight during a quiet window.
+ */
+export const MAX_QUIET_WINDOW_REQUESTS = 2;
+
+interface LongTaskCollectionData extends ReportCollectionData<LongTaskReport> {
+  /** First Contentful Paint, the start of the blocking time window. Null until the page painted */
+  firstContentfulPaint: PerformanceTime | null;
+  /** Estimated Time to Interactive, the end of the blocking time window. Null until a quiet window was observed */
+  timeToInteractive: PerformanceTime | null;
+}
+
+interface TimeToInteractiveInput {
+  firstContentfulPaint: PerformanceTime;
+  longTasks: readonly LongTaskReport[];
+  /** Network requests, from request start to response end */
+  requests: readonly TimeSegment[];
+  /** End of the observed timeline: a quiet window must have elapsed before it */
+  now: PerformanceTime;
+}
+
+type Interval = [start: number, end: number];
+
+/**
+ * Periods during which more than MAX_QUIET_WINDOW_REQUESTS requests were in flight.
+ */
+const busyNetworkIntervals = (requests: readonly TimeSegment[]): Interval[] => {
+  const changes = requests
+    .flatMap((request): Array<[number, number]> => [
+      [request.start.relativeTime, 1],
+      [request.end.relativeTime, -1],
+    ])
+    // Requests ending at a given time are no longer in flight for requests starting then
+    .sort(([timeA, deltaA], [timeB, deltaB]) => timeA - timeB || deltaA - deltaB);
+
+  const intervals: Interval[] = [];
+  let inFlight = 0;
+  let busySince: number | null = null;
+  for (const [time, delta] of changes) {
+    inFlight += delta;
+    if (inFlight > MAX_QUIET_WINDOW_REQUESTS && busySince === null) {
+      busySince = time;
+    } else if (inFlight <= MAX_QUIET_WINDOW_REQUESTS && busySince !== null) {
+      intervals.push([busySince, time]);
+      busySince = null;
+    }
+  }
+  return intervals;
+};
+
+/**
+ * Estimates Time to Interactive the way lab tools do: starting at FCP, finds
+ * the first window of QUIET_WINDOW_DURATION without long tasks and with at most
+ * MAX_QUIET_WINDOW_REQUESTS requests in flight. TTI is the end of the last long
+ * task before that window, or FCP when there is none.
+ *
+ * Returns null while no quiet window has elapsed before `now`. In the field,
+ * resource timing entries are only available once a request finished, so
+ * requests still in flight at `now` are not taken into account.
+ */
+export const estimateTimeToInteractive = (input: TimeToInteractiveInput): PerformanceTime | null => {
+  const { firstContentfulPaint, longTasks, requests, now } = input;
+  const fcp = firstContentfulPaint.relativeTime;
+
+  const taskIntervals = longTasks.map((task): Interval => [task.occurredAt.relativeTime, task.endTime.relativeTime]);
+  const busyIntervals = [...taskIntervals, ...busyNetworkIntervals(requests)]
+    .sort(([startA], [startB]) => startA - startB);
+
+  let quietSince = fcp;
+  for (const [start, end] of busyIntervals) {
+    if (end <= quietSince) continue;
+    if (start - quietSince >= QUIET_WINDOW_DURATION) break;
+    quietSince = Math.max(quietSince, end);
+  }
+  if (now.relativeTime - quietSince < QUIET_WINDOW_DURATION) return null;
+
+  const lastTaskEnd = taskIntervals
+    .map(([, end]) => end)
+    .filter(end => end <= quietSince)
+    .reduce((latest, end) => Math.max(latest, end), fcp);
+
+  return PerformanceTime.fromRelativeTime(lastTaskEnd);
+};
+
+/**
+ * Collection and aggregator for LongTaskReport instances.
+ *
+ * Derives the main-thread health of the page load from its long tasks:
+ * Total Blocking Time (TBT) is the sum of the time each task blocked the main
+ * thread beyond BLOCKING_TIME_THRESHOLD between First Contentful Paint and
+ * Time to Interactive. While TTI is unknown, every task after FCP is counted.
+ */
+export class LongTaskCollection extends ReportCollection<LongTaskReport> {
+  public readonly kind = REPORT_KINDS.LONG_TASK_COLLECTION;
+  public readonly firstContentfulPaint: PerformanceTime | null;
+  public readonly timeToInteractive: PerformanceTime | null;
+
+  private constructor(data: LongTaskCollectionData) {
+    super(data);
+    this.firstContentfulPaint = data.firstContentfulPaint;
+    this.timeToInteractive = data.timeToInteractive;
+    Object.freeze(this);
+  }
+
+  public static create(data: LongTaskCollectionData): LongTaskCollection {
+    return new LongTaskCollection(data);
+  }
+
+  /**
+   * Rehydrates a LongTaskCollection and its reports from its toJSON() output.
+   * Derived statistics are recomputed from the reports.
+   */
+  public static fromJSON(json: unknown): LongTaskCollection {
+    const record = readReportPayload(json, REPORT_KINDS.LONG_TASK_COLLECTION);
+    return new LongTaskCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', LongTaskReport.fromJSON),
+      firstContentfulPaint: readOptionalTime(record, 'firstContentfulPaint') ?? null,
+      timeToInteractive: readOptionalTime(record, 'timeToInteractive') ?? null,
+    });
+  }
+
+  public static fromLongTaskReports(
+    id: string,
+    reports: LongTaskReport[],
+    firstContentfulPaint: PerformanceTime | null = null,
+    timeToInteractive: PerformanceTime | null = null
+  ): LongTaskCollection {
+    return new LongTaskCollection({
+      id,
+      createdAt: PerformanceTime.now(),
+      reports,
+      firstContentfulPaint,
+      timeToInteractive,
+    });
+  }
+
+  /**
+   * Total time spent in long tasks.
+   */
+  public get totalDuration(): number {
+    return this.reports.reduce((total, report) => total + report.duration, 0);
+  }
+
+  /**
+   * Longest task in the collection.
+   */
+  public get longestTask(): LongTaskReport | null {
+    if (this.isEmpty) return null;
+    return this.reports.reduce((longest, current) =>
+      current.duration > longest.duration ? current : longest
+    );
+  }
+
+  /**
+   * Time the task blocked the main thread between FCP and TTI. Tasks partially
+   * outside the window only count the part of their blocking time inside it.
+   * 0 until the page painted.
+   */
+  public blockingTimeOf(report: LongTaskReport): number {
+    if (!this.firstContentfulPaint) return 0;
+
+    const windowStart = this.firstContentfulPaint.relativeTime;
+    const windowEnd = this.timeToInteractive?.relativeTime ?? Infinity;
+    const start = Math.max(report.occurredAt.relativeTime, windowStart);
+    const end = Math.min(report.endTime.relativeTime, windowEnd);
+    if (end <= start) return 0;
+
+    return Math.max(0, Math.min(end - start, report.duration - BLOCKING_TIME_THRESHOLD));
+  }
+
+  /**
+   * Total Blocking Time between FCP and TTI.
+   */
+  public get totalBlockingTime(): number {
+    return this.reports.reduce((total, report) => total + this.blockingTimeOf(report), 0);
+  }
+
+  toString(): string {
+    const tti = this.timeToInteractive ? `, TTI ${Math.round(this.timeToInteractive.relativeTime)}ms` : '';
+    return `LongTaskCollection: ${this.totalReports} tasks, TBT ${Math.round(this.totalBlockingTime)}ms${tti}`;
+  }
+
+  toJSON(): SerializedLongTaskCollection {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      totalReports: this.totalReports,
+      totalDuration: this.totalDuration,
+      totalBlockingTime: this.totalBlockingTime,
+      firstContentfulPaint: this.firstContentfulPaint?.absoluteTime ?? null,
+      timeToInteractive: this.timeToInteractive?.absoluteTime ?? null,
+      reports: this.reports.map(report => report.toJSON()),
+      longestTaskId: this.longestTask?.id ?? null,
+    };
+  }
+}
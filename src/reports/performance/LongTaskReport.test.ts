@@ -185,6 +185,8 @@ describe('LongTaskReport', () => {
       expect(jsonRepresentation).toEqual({
         // Basic metadata
         id: 'high-long-task-003',
+        kind: 'performance.long-task',
+        schemaVersion: 1,
         createdAt: data.createdAt.absoluteTime,
         occurredAt: data.occurredAt.absoluteTime,
 
@@ -209,7 +211,7 @@ describe('LongTaskReport', () => {
       const jsonRepresentation = report.toJSON();
 
       // Then
-      expect(jsonRepresentation.attribution).toBeUndefined();
+      expect(jsonRepresentation.attribution).toBeNull();
       expect(jsonRepresentation.hasAttribution).toBe(false);
       expect(jsonRepresentation.severity).toBe('medium'); // 120ms
     });
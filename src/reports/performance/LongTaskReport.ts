@@ -1,6 +1,17 @@
 import type { Report } from '@/reports/Report';
 import type { PerformanceLongTaskTimingEntry } from '@/types/PerformanceEntryTypes';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedLongTaskReport } from '@/types/SerializedReports';
+import {
+  type JSONRecord,
+  readArray,
+  readNumber,
+  readRecord,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
 
 interface TaskAttributionTiming {
   containerType: string;
@@ -18,6 +29,16 @@ interface LongTaskData {
   attribution?: TaskAttributionTiming[];
 }
 
+const readTaskAttribution = (json: unknown): TaskAttributionTiming => {
+  const record: JSONRecord = readRecord(json, 'a task attribution');
+  return {
+    containerType: readString(record, 'containerType'),
+    containerName: readString(record, 'containerName'),
+    containerSrc: readString(record, 'containerSrc'),
+    containerId: readString(record, 'containerId'),
+  };
+};
+
  /**
  * Report for Long Tasks API performance entries.
  * 
@@ -25,6 +46,7 @@ interface LongTaskData {
  * potentially blocking user interactions and causing poor user experience.
  */
 export class LongTaskReport implements Report {
+  public readonly kind = REPORT_KINDS.LONG_TASK;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -50,6 +72,22 @@ export class LongTaskReport implements Report {
     return new LongTaskReport(data);
   }
 
+  /**
+   * Rehydrates a LongTaskReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): LongTaskReport {
+    const record = readReportPayload(json, REPORT_KINDS.LONG_TASK);
+    return new LongTaskReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      duration: readNumber(record, 'duration'),
+      name: readString(record, 'name'),
+      attribution: record.attribution === undefined || record.attribution === null
+        ? undefined
+        : readArray(record, 'attribution', readTaskAttribution),
+    });
+  }
   /**
    * Creates a LongTaskReport from a PerformanceLongTaskTimingEntry.
    */
@@ -104,15 +142,17 @@ export class LongTaskReport implements Report {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedLongTaskReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       duration: this.duration,
       endTime: this.endTime.absoluteTime,
       name: this.name,
-      attribution: this.attribution,
+      attribution: this.attribution ?? null,
       severity: this.severity,
       hasAttribution: this.hasAttribution,
     };
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { MemoryReportMothers } from '@/test/mothers/MemoryReportMothers';
+
+import { MemoryReport } from './MemoryReport';
+
+describe('MemoryReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should break a user agent specific measurement down by type and attribution', () => {
+    // When
+    const report = MemoryReportMothers.userAgentSpecific();
+
+    // Then
+    expect(report.source).toBe('user-agent-specific');
+    expect(report.bytes).toBe(60_000_000);
+    expect(report.jsHeapSizeLimit).toBeNull();
+    expect(report.bytesByType).toEqual({
+      JavaScript: 47_000_000,
+      DOM: 8_000_000,
+      unknown: 5_000_000,
+    });
+    expect(report.bytesByAttribution).toEqual({
+      'https://example.com/': 48_000_000,
+      'https://example.com/worker.js': 7_000_000,
+      'cross-origin-aggregated': 5_000_000,
+    });
+  });
+
+  it('should key memory shared by several realms or types as shared', () => {
+    // Given
+    const report = MemoryReport.fromMemoryMeasurement('memory', {
+      bytes: 3_000,
+      breakdown: [{
+        bytes: 3_000,
+        attribution: [
+          { url: 'https://example.com/', scope: 'Window' },
+          { url: 'https://example.com/worker.js', scope: 'DedicatedWorkerGlobalScope' },
+        ],
+        types: ['JavaScript', 'DOM'],
+      }],
+    }, { consecutiveIncreases: 0, growth: 0, isMonotonicGrowth: false });
+
+    // Then
+    expect(report.bytesByAttribution).toEqual({ shared: 3_000 });
+    expect(report.bytesByType).toEqual({ 'JavaScript+DOM': 3_000 });
+  });
+
+  it('should sum the bytes of keys named like Object.prototype properties', () => {
+    // Given
+    const report = MemoryReport.fromMemoryMeasurement('memory', {
+      bytes: 3_000,
+      breakdown: [
+        { bytes: 1_000, attribution: [{ url: '', scope: '__proto__' }], types: ['constructor'] },
+        { bytes: 2_000, attribution: [{ url: '', scope: 'constructor' }], types: ['__proto__'] },
+      ],
+    }, { consecutiveIncreases: 0, growth: 0, isMonotonicGrowth: false });
+
+    // Then
+    expect(Object.entries(report.bytesByAttribution)).toEqual([['__proto__', 1_000], ['constructor', 2_000]]);
+    expect(Object.entries(report.bytesByType)).toEqual([['constructor', 1_000], ['__proto__', 2_000]]);
+  });
+
+  it('should report the JavaScript heap of performance.memory without breakdown', () => {
+    // When
+    const report = MemoryReportMothers.jsHeap();
+
+    // Then
+    expect(report.source).toBe('js-heap');
+    expect(report.bytes).toBe(30_000_000);
+    expect(report.jsHeapSizeLimit).toBe(4_294_705_152);
+    expect(report.breakdown).toEqual([]);
+  });
+
+  it('should flag monotonic growth as a likely leak', () => {
+    // When
+    const report = MemoryReportMothers.jsHeap({ consecutiveIncreases: 5, growth: 12_000_000, isMonotonicGrowth: true });
+
+    // Then
+    expect(report.isLikelyLeak).toBe(true);
+    expect(report.toString()).toContain('(growing)');
+  });
+
+  it('should serialize the breakdown and trend and rehydrate an equal report', () => {
+    // Given
+    const report = MemoryReportMothers.userAgentSpecific();
+
+    // When
+    const json = JSON.parse(JSON.stringify(report));
+    const rehydrated = MemoryReport.fromJSON(json);
+
+    // Then
+    expect(json.breakdown[3].attribution).toEqual([{
+      url: '',
+      scope: 'cross-origin-aggregated',
+      container: { id: 'ads', src: 'https://ads.network.com/frame.html' },
+    }]);
+    expect(json.trend).toEqual({ consecutiveIncreases: 0, growth: 0, isMonotonicGrowth: false });
+    expect(rehydrated.toJSON()).toEqual(report.toJSON());
+  });
+});
@@ -0,0 +1,275 @@
+import type { Report } from '@/reports/Report';
+import type {
+  MemoryAttribution,
+  MemoryBreakdownEntry,
+  MemoryMeasurement,
+  PerformanceMemoryInfo
+} from '@/types/PerformanceEntryTypes';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedMemoryReport } from '@/types/SerializedReports';
+import {
+  type JSONRecord,
+  readArray,
+  readBoolean,
+  readNumber,
+  readOneOf,
+  readOptionalNumber,
+  readRecord,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { InvalidPayloadException } from '@/exceptions/SerializationExceptions';
+
+/**
+ * API a memory measurement was taken with.
+ */
+export const MEMORY_SOURCES = {
+  /** performance.measureUserAgentSpecificMemory(), requires cross-origin isolation */
+  USER_AGENT_SPECIFIC: 'user-agent-specific',
+  /** Non-standard performance.memory: JavaScript heap of the page only */
+  JS_HEAP: 'js-heap',
+} as const;
+
+export type MemorySource = (typeof MEMORY_SOURCES)[keyof typeof MEMORY_SOURCES];
+
+/**
+ * Growth of the measured memory across consecutive measurements.
+ */
+export interface MemoryTrend {
+  /** Consecutive measurements that were larger than the previous one */
+  consecutiveIncreases: number;
+  /** Bytes gained since the current growth streak started */
+  growth: number;
+  /** Whether memory grew on every one of the last N measurements (N being the observer's growthSamples) */
+  isMonotonicGrowth: boolean;
+}
+
+interface MemoryData {
+  id: string;
+  createdAt: PerformanceTime;
+  occurredAt: PerformanceTime;
+  source: MemorySource;
+  bytes: number;
+  /** Heap size limit, only known for JS_HEAP measurements */
+  jsHeapSizeLimit: number | null;
+  breakdown: MemoryBreakdownEntry[];
+  trend: MemoryTrend;
+}
+
+const SHARED_ATTRIBUTION = 'shared';
+const UNKNOWN_TYPE = 'unknown';
+
+const readAttribution = (json: unknown): MemoryAttribution => {
+  const record: JSONRecord = readRecord(json, 'a memory attribution');
+  const container = record.container === undefined || record.container === null
+    ? undefined
+    : readRecord(record.container, 'a memory attribution container');
+  return {
+    url: readString(record, 'url'),
+    scope: readString(record, 'scope'),
+    container: container && {
+      id: readString(container, 'id'),
+      src: readString(container, 'src'),
+    },
+  };
+};
+
+const readMemoryType = (json: unknown): string => {
+  if (typeof json !== 'string') throw new InvalidPayloadException('a memory type');
+  return json;
+};
+
+const readBreakdownEntry = (json: unknown): MemoryBreakdownEntry => {
+  const record: JSONRecord = readRecord(json, 'a memory breakdown entry');
+  return {
+    bytes: readNumber(record, 'bytes'),
+    attribution: readArray(record, 'attribution', readAttribution),
+    types: readArray(record, 'types', readMemoryType),
+  };
+};
+
+const readTrend = (json: unknown): MemoryTrend => {
+  const record: JSONRecord = readRecord(json, 'a memory trend');
+  return {
+    consecutiveIncreases: readNumber(record, 'consecutiveIncreases'),
+    growth: readNumber(record, 'growth'),
+    isMonotonicGrowth: readBoolean(record, 'isMonotonicGrowth'),
+  };
+};
+
+/**
+ * Keys come from the page and from serialized reports, so the bytes are summed in a Map:
+ * keys such as `constructor` or `__proto__` must not collide with Object.prototype.
+ */
+const sumBytesBy = (
+  breakdown: readonly MemoryBreakdownEntry[],
+  keyOf: (entry: MemoryBreakdownEntry) => string
+): Record<string, number> => {
+  const byKey = new Map<string, number>();
+  breakdown.forEach(entry => {
+    if (entry.bytes === 0) return;
+    const key = keyOf(entry);
+    byKey.set(key, (byKey.get(key) ?? 0) + entry.bytes);
+  });
+  return Object.fromEntries(byKey);
+};
+
+/**
+ * Report for a memory measurement of the page.
+ *
+ * Measurements taken with measureUserAgentSpecificMemory() cover every realm of
+ * the page (iframes, workers) and break the memory down by attribution and type.
+ * The non-standard performance.memory fallback only reports the JavaScript heap.
+ */
+export class MemoryReport implements Report {
+  public readonly kind = REPORT_KINDS.MEMORY;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  public readonly source: MemorySource;
+  public readonly bytes: number;
+  public readonly jsHeapSizeLimit: number | null;
+  public readonly breakdown: readonly MemoryBreakdownEntry[];
+  public readonly trend: MemoryTrend;
+
+  private constructor(data: MemoryData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.occurredAt;
+    this.source = data.source;
+    this.bytes = data.bytes;
+    this.jsHeapSizeLimit = data.jsHeapSizeLimit;
+    this.breakdown = Object.freeze(Array.from(data.breakdown));
+    this.trend = Object.freeze({ ...data.trend });
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a MemoryReport from provided data.
+   */
+  public static create(data: MemoryData): MemoryReport {
+    return new MemoryReport(data);
+  }
+
+  /**
+   * Rehydrates a MemoryReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): MemoryReport {
+    const record = readReportPayload(json, REPORT_KINDS.MEMORY);
+    return new MemoryReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      source: readOneOf(record, 'source', Object.values(MEMORY_SOURCES)),
+      bytes: readNumber(record, 'bytes'),
+      jsHeapSizeLimit: readOptionalNumber(record, 'jsHeapSizeLimit') ?? null,
+      breakdown: readArray(record, 'breakdown', readBreakdownEntry),
+      trend: readTrend(record.trend),
+    });
+  }
+
+  /**
+   * Creates a MemoryReport from the result of performance.measureUserAgentSpecificMemory().
+   */
+  public static fromMemoryMeasurement(id: string, measurement: MemoryMeasurement, trend: MemoryTrend): MemoryReport {
+    const now = PerformanceTime.now();
+    return new MemoryReport({
+      id,
+      createdAt: now,
+      occurredAt: now,
+      source: MEMORY_SOURCES.USER_AGENT_SPECIFIC,
+      bytes: measurement.bytes,
+      jsHeapSizeLimit: null,
+      breakdown: measurement.breakdown,
+      trend,
+    });
+  }
+
+  /**
+   * Creates a MemoryReport from the non-standard performance.memory.
+   */
+  public static fromPerformanceMemory(id: string, memory: PerformanceMemoryInfo, trend: MemoryTrend): MemoryReport {
+    const now = PerformanceTime.now();
+    return new MemoryReport({
+      id,
+      createdAt: now,
+      occurredAt: now,
+      source: MEMORY_SOURCES.JS_HEAP,
+      bytes: memory.usedJSHeapSize,
+      jsHeapSizeLimit: memory.jsHeapSizeLimit,
+      breakdown: [],
+      trend,
+    });
+  }
+
+  /**
+   * Bytes by memory type (e.g. "JavaScript", "DOM"). Memory shared by several
+   * types is keyed by the joined types (e.g. "JavaScript+DOM").
+   */
+  public get bytesByType(): Record<string, number> {
+    return sumBytesBy(this.breakdown, entry => (
+      entry.types.length === 0 ? UNKNOWN_TYPE : entry.types.join('+')
+    ));
+  }
+
+  /**
+   * Bytes by attribution URL (or scope, for cross-origin aggregated memory).
+   * Memory shared by several realms is keyed as "shared".
+   */
+  public get bytesByAttribution(): Record<string, number> {
+    return sumBytesBy(this.breakdown, (entry) => {
+      const [attribution] = entry.attribution;
+      if (entry.attribution.length !== 1) return SHARED_ATTRIBUTION;
+      return attribution.url || attribution.scope;
+    });
+  }
+
+  /**
+   * Whether memory grew monotonically across the last measurements, a likely leak.
+   */
+  public get isLikelyLeak(): boolean {
+    return this.trend.isMonotonicGrowth;
+  }
+
+  /**
+   * String representation of the memory measurement.
+   */
+  public toString(): string {
+    const megabytes = (this.bytes / (1024 * 1024)).toFixed(1);
+    return `Memory [${this.source}]: ${megabytes}MB${this.isLikelyLeak ? ' (growing)' : ''}`;
+  }
+
+  /**
+   * JSON representation for serialization.
+   */
+  public toJSON(): SerializedMemoryReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      source: this.source,
+      bytes: this.bytes,
+      jsHeapSizeLimit: this.jsHeapSizeLimit,
+      breakdown: this.breakdown.map(entry => ({
+        bytes: entry.bytes,
+        types: [...entry.types],
+        attribution: entry.attribution.map(attribution => ({
+          url: attribution.url,
+          scope: attribution.scope,
+          container: attribution.container
+            ? { id: attribution.container.id, src: attribution.container.src }
+            : null,
+        })),
+      })),
+      bytesByType: this.bytesByType,
+      bytesByAttribution: this.bytesByAttribution,
+      trend: { ...this.trend },
+      isLikelyLeak: this.isLikelyLeak,
+    };
+  }
+}
@@ -304,6 +304,36 @@ describe('NetworkTimingReport', () => {
     });
   });
 
+  describe('Server-Timing', () => {
+    it('should capture the Server-Timing metrics of the document', () => {
+      // Given
+      const entry = {
+        ...NetworkTimingReportMothers.createPerformanceNavigationTiming('fast'),
+        serverTiming: [{ name: 'cdn-cache', duration: 0, description: 'TCP_HIT', toJSON: () => ({}) }],
+      };
+
+      // When
+      const report = NetworkTimingReport.fromPerformanceEntry('server-timing', entry);
+
+      // Then
+      expect(report.serverTiming).toEqual([{ name: 'cdn-cache', duration: 0, description: 'TCP_HIT' }]);
+      expect(report.isCDNCacheHit).toBe(true);
+    });
+
+    it('should serialize and rehydrate the Server-Timing metrics', () => {
+      // Given
+      const report = NetworkTimingReport.create(NetworkTimingReportMothers.withServerTiming());
+
+      // When
+      const json = report.toJSON();
+      const rehydrated = NetworkTimingReport.fromJSON(JSON.parse(JSON.stringify(json)));
+
+      // Then
+      expect(json.cdnCacheStatus).toBe('miss');
+      expect(rehydrated.serverTimingOf('app')).toEqual({ name: 'app', duration: 38, description: 'render' });
+    });
+  });
+
   describe('toString', () => {
     it('should return simplified formatted string with total network time', () => {
       // Given
@@ -349,6 +379,8 @@ describe('NetworkTimingReport', () => {
       expect(jsonRepresentation).toEqual({
         // Basic metadata
         id: 'slow-network-timing-002',
+        kind: 'performance.network-timing',
+        schemaVersion: 1,
         createdAt: data.createdAt.absoluteTime,
         occurredAt: data.occurredAt.absoluteTime,
 
@@ -396,7 +428,11 @@ describe('NetworkTimingReport', () => {
           duration: data.tlsHandshake.duration,
           start: data.tlsHandshake.start.absoluteTime,
           end: data.tlsHandshake.end.absoluteTime
-        }
+        },
+
+        // Server-Timing header
+        serverTiming: [],
+        cdnCacheStatus: null
       });
     });
 
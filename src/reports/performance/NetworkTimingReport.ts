@@ -1,6 +1,25 @@
 import type { Report } from '@/reports/Report';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { TimeSegment } from '@/value-objects/TimeSegment';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedNetworkTimingReport } from '@/types/SerializedReports';
+import {
+  readArray,
+  readNumber,
+  readOptionalSegment,
+  readReportPayload,
+  readSegment,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import {
+  CDN_CACHE_STATUSES,
+  cdnCacheStatusOf,
+  readServerTimingMetric,
+  toServerTimingMetrics,
+  type CDNCacheStatus,
+  type ServerTimingMetric
+} from '@/reports/performance/ServerTiming';
 
 /**
  * Grouped network timing segments for navigation timing analysis
@@ -34,6 +53,9 @@ interface NetworkTimingData {
   tlsHandshake?: TimeSegment;
   serverProcessing: TimeSegment;
   contentDownload: TimeSegment;
+
+  // Server-Timing header of the document (none by default)
+  serverTiming?: ServerTimingMetric[];
 }
 
 /**
@@ -45,8 +67,12 @@ interface NetworkTimingData {
  * 
  * Timeline:
  * Redirects → DNS → TCP → TLS → Server Processing → Content Download
+ * 
+ * Metrics of the `Server-Timing` header of the document response are kept,
+ * e.g. to break server processing down or to detect CDN cache hits.
  */
 export class NetworkTimingReport implements Report {
+  public readonly kind = REPORT_KINDS.NETWORK_TIMING;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -78,6 +104,9 @@ export class NetworkTimingReport implements Report {
   /** Content download time */
   public readonly contentDownload: TimeSegment;
 
+  /** Metrics of the Server-Timing header of the document response */
+  public readonly serverTiming: readonly ServerTimingMetric[];
+
   private constructor(data: NetworkTimingData) {
     this.id = data.id;
     this.createdAt = data.createdAt;
@@ -91,6 +120,7 @@ export class NetworkTimingReport implements Report {
     this.tlsHandshake = data.tlsHandshake;
     this.serverProcessing = data.serverProcessing;
     this.contentDownload = data.contentDownload;
+    this.serverTiming = Object.freeze((data.serverTiming ?? []).map(metric => Object.freeze({ ...metric })));
 
     Object.freeze(this);
   }
@@ -102,6 +132,28 @@ export class NetworkTimingReport implements Report {
     return new NetworkTimingReport(data);
   }
 
+  /**
+   * Rehydrates a NetworkTimingReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): NetworkTimingReport {
+    const record = readReportPayload(json, REPORT_KINDS.NETWORK_TIMING);
+    return new NetworkTimingReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      transferSize: readNumber(record, 'transferSize'),
+      encodedSize: readNumber(record, 'encodedSize'),
+      decodedSize: readNumber(record, 'decodedSize'),
+      redirects: readSegment(record, 'redirects'),
+      dnsLookup: readSegment(record, 'dnsLookup'),
+      tcpConnect: readSegment(record, 'tcpConnect'),
+      tlsHandshake: readOptionalSegment(record, 'tlsHandshake'),
+      serverProcessing: readSegment(record, 'serverProcessing'),
+      contentDownload: readSegment(record, 'contentDownload'),
+      serverTiming: readArray(record, 'serverTiming', readServerTimingMetric),
+    });
+  }
+
   /**
    * Creates a NetworkTimingReport from PerformanceNavigationTiming data.
    */
@@ -124,6 +176,7 @@ export class NetworkTimingReport implements Report {
       tlsHandshake: segments.tlsHandshake,
       serverProcessing: segments.serverProcessing,
       contentDownload: segments.contentDownload,
+      serverTiming: toServerTimingMetrics(entry.serverTiming),
     });
   }
 
@@ -205,6 +258,27 @@ export class NetworkTimingReport implements Report {
     ).name;
   }
 
+  /**
+   * CDN cache status reported by the Server-Timing header, null when it is not reported.
+   */
+  public get cdnCacheStatus(): CDNCacheStatus | null {
+    return cdnCacheStatusOf(this.serverTiming);
+  }
+
+  /**
+   * Checks if the CDN served the document from its cache.
+   */
+  public get isCDNCacheHit(): boolean {
+    return this.cdnCacheStatus === CDN_CACHE_STATUSES.HIT;
+  }
+
+  /**
+   * Gets the first Server-Timing metric with the given name.
+   */
+  public serverTimingOf(name: string): ServerTimingMetric | null {
+    return this.serverTiming.find(metric => metric.name === name) ?? null;
+  }
+
   /**
    * String representation of network timing metrics.
    */
@@ -216,10 +290,12 @@ export class NetworkTimingReport implements Report {
   /**
    * JSON representation for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedNetworkTimingReport {
     return {
       // Metadata
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       
@@ -242,6 +318,10 @@ export class NetworkTimingReport implements Report {
       serverProcessing: this.serverProcessing.toJSON(),
       contentDownload: this.contentDownload.toJSON(),
       tlsHandshake: this.tlsHandshake?.toJSON() ?? null,
+
+      // Server-Timing header
+      serverTiming: this.serverTiming.map(metric => ({ ...metric })),
+      cdnCacheStatus: this.cdnCacheStatus,
     };
   }
 }
\ No newline at end of file
@@ -236,7 +236,7 @@ describe('ResourceTimingCollection', () => {
       const thirdPartyResources = collection.thirdPartyResources;
 
       // Then
-      expect(thirdPartyResources).toHaveLength(3); // compressedCSS, slowThirdPartyImage, httpFont
+      expect(thirdPartyResources).toHaveLength(2); // compressedCSS, slowThirdPartyImage (fonts.example.com is first party)
       expect(thirdPartyResources.every(r => r.isThirdParty)).toBe(true);
     });
 
@@ -289,6 +289,123 @@ describe('ResourceTimingCollection', () => {
     });
   });
 
+  describe('response metadata', () => {
+    it('should group resources by network protocol', () => {
+      // Given
+      const data = ResourceTimingCollectionMothers.withResponseMetadata();
+
+      // When
+      const collection = ResourceTimingCollection.create(data);
+
+      // Then
+      expect(collection.resourcesByProtocol).toEqual({
+        'http/1.1': [data.reports[0]],
+        h3: [data.reports[1]],
+        h2: [data.reports[2]],
+        unknown: [data.reports[3]],
+      });
+    });
+
+    it('should compute the share of resources served from the browser cache', () => {
+      // Then
+      expect(ResourceTimingCollection.create(ResourceTimingCollectionMothers.withResponseMetadata()).cacheHitRatio).toBe(0.25);
+      expect(ResourceTimingCollection.create(ResourceTimingCollectionMothers.empty()).cacheHitRatio).toBe(0);
+    });
+
+    it('should list render-blocking, failed and service worker resources', () => {
+      // Given
+      const data = ResourceTimingCollectionMothers.withResponseMetadata();
+
+      // When
+      const collection = ResourceTimingCollection.create(data);
+
+      // Then
+      expect(collection.renderBlockingResources).toEqual([data.reports[0]]);
+      expect(collection.failedResources).toEqual([data.reports[1]]);
+      expect(collection.serviceWorkerResources).toEqual([data.reports[2]]);
+    });
+
+    it('should order render-blocking resources by their cost', () => {
+      // Given
+      const short = ResourceTimingReport.create({ ...ResourceTimingReportMothers.renderBlockingStylesheet(), id: 'short', duration: 40 });
+      const long = ResourceTimingReport.create({ ...ResourceTimingReportMothers.renderBlockingStylesheet(), id: 'long', duration: 400 });
+
+      // When
+      const collection = ResourceTimingCollection.fromResourceTimingReports('blocking', [short, long]);
+
+      // Then
+      expect(collection.toJSON().renderBlockingResourceIds).toEqual(['long', 'short']);
+    });
+  });
+
+  describe('Server-Timing', () => {
+    it('should aggregate the Server-Timing durations by name', () => {
+      // Given
+      const data = ResourceTimingCollectionMothers.withServerTiming();
+
+      // When
+      const collection = ResourceTimingCollection.create(data);
+
+      // Then
+      const edge = collection.serverTimingStatsOf('edge');
+      expect(edge).toMatchObject({ count: 2, total: 10, min: 4, max: 6, mean: 5 });
+      expect(edge?.reports).toEqual([data.reports[0], data.reports[1]]);
+      expect(collection.serverTimingStatsOf('db')).toMatchObject({ count: 1, total: 53 });
+      expect(collection.serverTimingStatsOf('app')).toBeNull();
+    });
+
+    it('should aggregate metrics named like Object.prototype properties', () => {
+      // Given
+      const collection = ResourceTimingCollection.create({
+        ...ResourceTimingCollectionMothers.empty(),
+        reports: [ResourceTimingReport.create({
+          ...ResourceTimingReportMothers.fastScript(),
+          serverTiming: [
+            { name: 'constructor', duration: 5, description: null },
+            { name: '__proto__', duration: 2, description: null },
+          ],
+        })],
+      });
+
+      // When
+      const json = collection.toJSON();
+
+      // Then
+      expect(collection.serverTimingStatsOf('constructor')).toMatchObject({ count: 1, total: 5 });
+      expect(collection.serverTimingStatsOf('toString')).toBeNull();
+      expect(Object.keys(json.serverTimingByName)).toEqual(['constructor', '__proto__']);
+    });
+
+    it('should compute the CDN cache hit ratio of the resources reporting it', () => {
+      // When
+      const collection = ResourceTimingCollection.create(ResourceTimingCollectionMothers.withServerTiming());
+
+      // Then
+      expect(collection.cdnCacheHitRatio).toBe(0.5);
+      expect(ResourceTimingCollection.create(ResourceTimingCollectionMothers.mixedTypes()).cdnCacheHitRatio).toBeNull();
+    });
+
+    it('should serialize the Server-Timing statistics with report ids', () => {
+      // Given
+      const data = ResourceTimingCollectionMothers.withServerTiming();
+      const collection = ResourceTimingCollection.create(data);
+
+      // When
+      const jsonRepresentation = collection.toJSON();
+
+      // Then
+      expect(jsonRepresentation.serverTimingByName.db).toEqual({
+        count: 1,
+        total: 53,
+        min: 53,
+        max: 53,
+        mean: 53,
+        reportIds: [data.reports[1].id],
+      });
+      expect(jsonRepresentation.cdnCacheHitRatio).toBe(0.5);
+    });
+  });
+
   describe('toString', () => {
     it('should return formatted string with resource count and total size', () => {
       // Given
@@ -328,6 +445,8 @@ describe('ResourceTimingCollection', () => {
       expect(jsonRepresentation).toEqual({
         // Collection metadata
         id: data.id,
+        kind: 'performance.resource-collection',
+        schemaVersion: 1,
         createdAt: data.createdAt.absoluteTime,
         
         // Basic aggregation metrics
@@ -339,12 +458,24 @@ describe('ResourceTimingCollection', () => {
         averageLoadTime: 508,
 
         // Collections and groupings  
-        reports: data.reports,
-        resourcesByType: collection.resourcesByType,
-        resourcesByDomain: collection.resourcesByDomain,
-        thirdPartyResources: collection.thirdPartyResources,
-        slowestResource: collection.slowestResource,
-        lastResource: collection.lastResource
+        reports: data.reports.map(report => report.toJSON()),
+        resourcesByType: {
+          script: [data.reports[0].id],
+          link: [data.reports[1].id],
+          img: [data.reports[2].id],
+          css: [data.reports[3].id],
+        },
+        resourcesByDomain: expect.any(Object),
+        thirdPartyResourceIds: collection.thirdPartyResources.map(report => report.id),
+        slowestResourceId: collection.slowestResource?.id,
+        lastResourceId: data.reports[3].id,
+        serverTimingByName: {},
+        cdnCacheHitRatio: null,
+        resourcesByProtocol: { unknown: data.reports.map(report => report.id) },
+        cacheHitRatio: 0,
+        renderBlockingResourceIds: [],
+        failedResourceIds: [],
+        serviceWorkerResourceIds: []
       });
     });
 
@@ -360,13 +491,13 @@ describe('ResourceTimingCollection', () => {
       expect(jsonRepresentation.totalReports).toBe(0);
       expect(jsonRepresentation.totalTransferSize).toBe(0);
       expect(jsonRepresentation.averageLoadTime).toBe(0);
-      expect(jsonRepresentation.slowestResource).toBeNull();
-      expect(jsonRepresentation.lastResource).toBeNull();
+      expect(jsonRepresentation.slowestResourceId).toBeNull();
+      expect(jsonRepresentation.lastResourceId).toBeNull();
       expect(jsonRepresentation.reports).toEqual([]);
-      expect(jsonRepresentation.thirdPartyResources).toEqual([]);
+      expect(jsonRepresentation.thirdPartyResourceIds).toEqual([]);
     });
 
-    it('should use reports property in toJSON output', () => {
+    it('should serialize each report once and reference it by id elsewhere', () => {
       // Given
       const data = ResourceTimingCollectionMothers.mixedTypes();
       const collection = ResourceTimingCollection.create(data);
@@ -375,8 +506,10 @@ describe('ResourceTimingCollection', () => {
       const jsonRepresentation = collection.toJSON();
 
       // Then
-      expect(jsonRepresentation.reports).toEqual(collection.reports);
+      expect(jsonRepresentation.reports).toEqual(collection.reports.map(report => report.toJSON()));
       expect(jsonRepresentation.reports).toHaveLength(collection.totalReports);
+      expect(Object.values(jsonRepresentation.resourcesByDomain).flat())
+        .toEqual(expect.arrayContaining(collection.reports.map(report => report.id)));
     });
   });
 
@@ -428,8 +561,8 @@ describe('ResourceTimingCollection', () => {
       const jsonRepresentation = collection.toJSON();
 
       // Then
-      expect(jsonRepresentation.lastResource).toBe(collection.lastResource);
-      expect(jsonRepresentation.lastResource).toBe(data.reports[data.reports.length - 1]);
+      expect(jsonRepresentation.lastResourceId).toBe(collection.lastResource?.id);
+      expect(jsonRepresentation.lastResourceId).toBe(data.reports[data.reports.length - 1].id);
     });
   });
 
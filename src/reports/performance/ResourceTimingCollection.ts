@@ -1,9 +1,32 @@
-import type { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedResourceTimingCollection } from '@/types/SerializedReports';
+import { readArray, readReportPayload, readString, readTime } from '@/shared/deserialization';
+import { CDN_CACHE_STATUSES } from '@/reports/performance/ServerTiming';
 
 type ResourceTimingCollectionData = ReportCollectionData<ResourceTimingReport>;
 
+/**
+ * Duration statistics of a Server-Timing metric across the resources reporting it.
+ */
+export interface ServerTimingStats {
+  count: number;
+  total: number;
+  min: number;
+  max: number;
+  mean: number;
+  /** Resources reporting the metric, once per occurrence */
+  reports: ResourceTimingReport[];
+}
+
+const toReportIds = (groups: Record<string, ResourceTimingReport[]>): Record<string, string[]> => (
+  Object.fromEntries(
+    Object.entries(groups).map(([key, reports]) => [key, reports.map(report => report.id)])
+  )
+);
+
 /**
  * Collection and aggregator for ResourceTimingReport instances.
  * 
@@ -13,6 +36,8 @@ type ResourceTimingCollectionData = ReportCollectionData<ResourceTimingReport>;
  * about resource loading performance.
  */
 export class ResourceTimingCollection extends ReportCollection<ResourceTimingReport> {
+  public readonly kind = REPORT_KINDS.RESOURCE_TIMING_COLLECTION;
+
   /**
    * Creates a new ResourceTimingCollection instance.
    */
@@ -25,6 +50,19 @@ export class ResourceTimingCollection extends ReportCollection<ResourceTimingRep
     return new ResourceTimingCollection(data);
   }
 
+  /**
+   * Rehydrates a ResourceTimingCollection and its reports from its toJSON() output.
+   * Derived statistics are recomputed from the reports.
+   */
+  public static fromJSON(json: unknown): ResourceTimingCollection {
+    const record = readReportPayload(json, REPORT_KINDS.RESOURCE_TIMING_COLLECTION);
+    return new ResourceTimingCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', ResourceTimingReport.fromJSON),
+    });
+  }
+
   public static fromResourceTimingReports(
     id: string,
     reports: ResourceTimingReport[]
@@ -123,6 +161,104 @@ export class ResourceTimingCollection extends ReportCollection<ResourceTimingRep
     return byDomain;
   }
 
+  /**
+   * Groups resources by their network protocol (e.g. http/1.1, h2, h3), under
+   * "unknown" when the protocol is not exposed (opaque cross-origin resources).
+   */
+  public get resourcesByProtocol(): Record<string, ResourceTimingReport[]> {
+    const byProtocol: Record<string, ResourceTimingReport[]> = {};
+    this.reports.forEach(resource => {
+      const protocol = resource.protocol ?? 'unknown';
+      if (!byProtocol[protocol]) {
+        byProtocol[protocol] = [];
+      }
+      byProtocol[protocol].push(resource);
+    });
+    return byProtocol;
+  }
+
+  /**
+   * Gets the share (0-1) of the resources served from the browser cache
+   */
+  public get cacheHitRatio(): number {
+    return this.isEmpty ? 0 :
+      this.reports.filter(resource => resource.isCacheHit).length / this.totalReports;
+  }
+
+  /**
+   * Gets the resources that blocked rendering, the longest first
+   */
+  public get renderBlockingResources(): ResourceTimingReport[] {
+    return this.reports
+      .filter(resource => resource.isRenderBlocking)
+      .sort((a, b) => b.duration - a.duration);
+  }
+
+  /**
+   * Gets the resources answered with a 4xx or 5xx status
+   */
+  public get failedResources(): ResourceTimingReport[] {
+    return this.reports.filter(resource => resource.isFailed);
+  }
+
+  /**
+   * Gets the resources requested through a service worker
+   */
+  public get serviceWorkerResources(): ResourceTimingReport[] {
+    return this.reports.filter(resource => resource.isServiceWorkerServed);
+  }
+
+  /**
+   * Aggregates the durations of the Server-Timing metrics by name, e.g. the
+   * total and mean `db` time across the resources reporting it.
+   */
+  public get serverTimingByName(): Record<string, ServerTimingStats> {
+    return Object.fromEntries(this.serverTimingStats());
+  }
+
+  /**
+   * Gets the Server-Timing statistics of a metric, null when no resource reports it.
+   */
+  public serverTimingStatsOf(name: string): ServerTimingStats | null {
+    return this.serverTimingStats().get(name) ?? null;
+  }
+
+  /**
+   * Metric names come from response headers, so they are grouped in a Map: names such
+   * as `constructor` or `__proto__` must not collide with Object.prototype.
+   */
+  private serverTimingStats(): Map<string, ServerTimingStats> {
+    const byName = new Map<string, ServerTimingStats>();
+    this.reports.forEach(resource => {
+      resource.serverTiming.forEach(({ name, duration }) => {
+        const stats = byName.get(name);
+        if (!stats) {
+          byName.set(name, { count: 1, total: duration, min: duration, max: duration, mean: duration, reports: [resource] });
+          return;
+        }
+        stats.count += 1;
+        stats.total += duration;
+        stats.min = Math.min(stats.min, duration);
+        stats.max = Math.max(stats.max, duration);
+        stats.mean = stats.total / stats.count;
+        stats.reports.push(resource);
+      });
+    });
+    return byName;
+  }
+
+  /**
+   * Share (0-1) of the resources reporting a CDN cache status that were served
+   * from the CDN cache, null when no resource reports it.
+   */
+  public get cdnCacheHitRatio(): number | null {
+    const statuses = this.reports
+      .map(resource => resource.cdnCacheStatus)
+      .filter(status => status !== null);
+    if (statuses.length === 0) return null;
+    return statuses.filter(status => status === CDN_CACHE_STATUSES.HIT).length / statuses.length;
+  }
+
   /**
    * Gets the last added resource in the collection.
    * Alias for lastReport from base class for semantic clarity.
@@ -135,10 +271,12 @@ export class ResourceTimingCollection extends ReportCollection<ResourceTimingRep
     return `ResourceTimingCollection: ${this.totalReports} resources, ${Math.round(this.totalTransferSize / 1024)}KB total`;
   }
 
-  toJSON() {
+  toJSON(): SerializedResourceTimingCollection {
     return {
       // Collection metadata
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       
       // Summary statistics
@@ -150,12 +288,24 @@ export class ResourceTimingCollection extends ReportCollection<ResourceTimingRep
       averageLoadTime: this.averageLoadTime,
       
       // Detailed analysis
-      reports: this.reports,
-      resourcesByType: this.resourcesByType,
-      resourcesByDomain: this.resourcesByDomain,
-      thirdPartyResources: this.thirdPartyResources,
-      slowestResource: this.slowestResource,
-      lastResource: this.lastResource,
+      reports: this.reports.map(report => report.toJSON()),
+      resourcesByType: toReportIds(this.resourcesByType),
+      resourcesByDomain: toReportIds(this.resourcesByDomain),
+      thirdPartyResourceIds: this.thirdPartyResources.map(report => report.id),
+      slowestResourceId: this.slowestResource?.id ?? null,
+      lastResourceId: this.lastResource?.id ?? null,
+      serverTimingByName: Object.fromEntries(
+        Object.entries(this.serverTimingByName).map(([name, { reports, ...stats }]) => [
+          name,
+          { ...stats, reportIds: reports.map(report => report.id) },
+        ])
+      ),
+      cdnCacheHitRatio: this.cdnCacheHitRatio,
+      resourcesByProtocol: toReportIds(this.resourcesByProtocol),
+      cacheHitRatio: this.cacheHitRatio,
+      renderBlockingResourceIds: this.renderBlockingResources.map(report => report.id),
+      failedResourceIds: this.failedResources.map(report => report.id),
+      serviceWorkerResourceIds: this.serviceWorkerResources.map(report => report.id),
     };
   }
 }
\ No newline at end of file
@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 import { ResourceTimingReportMothers } from '@/test/mothers/ResourceTimingReportMothers';
+import { PerformanceResourceTimingMother } from '@/test/mothers/PerformanceResourceTimingMother';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { TimeSegment } from '@/value-objects/TimeSegment';
 import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
 
+import { RENDER_BLOCKING_STATUSES, type PerformanceResourceTimingEntry } from '@/types/PerformanceEntryTypes';
+import { CDN_CACHE_STATUSES } from './ServerTiming';
 import { ResourceTimingReport } from './ResourceTimingReport';
 
 describe('ResourceTimingReport', () => {
@@ -103,6 +106,31 @@ describe('ResourceTimingReport', () => {
       expect(thirdParty.isThirdParty).toBe(true);   // cdn.thirdparty.com
     });
 
+    it('should classify subdomains of the page as first party', () => {
+      // Given
+      const report = ResourceTimingReport.create({
+        ...ResourceTimingReportMothers.fastScript(),
+        name: 'https://static.example.com/js/app.js'
+      });
+
+      // When & Then
+      expect(report.isThirdParty).toBe(false);
+      expect(report.vendor).toBeNull();
+    });
+
+    it('should name the vendor of known third-party resources', () => {
+      // Given
+      const report = ResourceTimingReport.create(ResourceTimingReportMothers.compressedCSS()); // fonts.googleapis.com
+
+      // When
+      const json = report.toJSON();
+
+      // Then
+      expect(report.vendor?.name).toBe('Google Fonts');
+      expect(json.vendor).toBe('Google Fonts');
+      expect(json.vendorCategory).toBe('cdn');
+    });
+
     it('should detect compression correctly', () => {
       // Given
       const compressed = ResourceTimingReport.create(ResourceTimingReportMothers.compressedCSS());
@@ -125,6 +153,16 @@ describe('ResourceTimingReport', () => {
       expect(ratio).toBeCloseTo(0.367, 3); // (150000 - 95000) / 150000 ≈ 0.367
     });
 
+    it('should estimate the download throughput from the transfer size', () => {
+      // Given
+      const fastScript = ResourceTimingReport.create(ResourceTimingReportMothers.fastScript());
+      const cached = ResourceTimingReport.create(ResourceTimingReportMothers.cached());
+
+      // When & Then
+      expect(fastScript.downloadThroughput).toBeCloseTo(2.057, 3); // 45000 bytes in 175ms
+      expect(cached.downloadThroughput).toBeNull();                // Nothing transferred
+    });
+
     it('should identify primary bottleneck correctly for each scenario', () => {
       // Given
       const scenarios = [
@@ -174,6 +212,121 @@ describe('ResourceTimingReport', () => {
     });
   });
 
+  describe('response metadata', () => {
+    it('should capture the response metadata of the entry', () => {
+      // Given
+      const entry: PerformanceResourceTimingEntry = {
+        ...PerformanceResourceTimingMother.withCustomValues({ nextHopProtocol: 'h3', responseStatus: 503, workerStart: 90 }),
+        renderBlockingStatus: 'blocking',
+        deliveryType: '',
+        contentType: 'text/css',
+      };
+
+      // When
+      const report = ResourceTimingReport.fromPerformanceResourceTiming('metadata', entry);
+
+      // Then
+      expect(report.protocol).toBe('h3');
+      expect(report.renderBlockingStatus).toBe(RENDER_BLOCKING_STATUSES.BLOCKING);
+      expect(report.responseStatus).toBe(503);
+      expect(report.deliveryType).toBeNull();
+      expect(report.contentType).toBe('text/css');
+      expect(report.workerStart).toBe(90);
+      expect(report.isRenderBlocking).toBe(true);
+      expect(report.isFailed).toBe(true);
+      expect(report.isServiceWorkerServed).toBe(true);
+    });
+
+    it('should treat metadata the browser does not expose as unknown', () => {
+      // Given
+      const entry = PerformanceResourceTimingMother.withCustomValues({ nextHopProtocol: '', responseStatus: 0 });
+
+      // When
+      const report = ResourceTimingReport.fromPerformanceResourceTiming('opaque', entry);
+
+      // Then
+      expect(report.protocol).toBeNull();
+      expect(report.renderBlockingStatus).toBeNull();
+      expect(report.responseStatus).toBeNull();
+      expect(report.isFailed).toBe(false);
+    });
+
+    it('should detect resources served from the browser cache', () => {
+      // Given
+      const cached = PerformanceResourceTimingMother.cached();
+      const opaque = PerformanceResourceTimingMother.withCustomValues({ transferSize: 0, decodedBodySize: 0 });
+      const prefetched: PerformanceResourceTimingEntry = { ...PerformanceResourceTimingMother.fastScript(), deliveryType: 'cache' };
+
+      // Then
+      expect(ResourceTimingReport.fromPerformanceResourceTiming('cached', cached).isCacheHit).toBe(true);
+      expect(ResourceTimingReport.fromPerformanceResourceTiming('opaque', opaque).isCacheHit).toBe(false);
+      expect(ResourceTimingReport.fromPerformanceResourceTiming('prefetched', prefetched).isCacheHit).toBe(true);
+    });
+
+    it('should serialize and rehydrate the response metadata', () => {
+      // Given
+      const report = ResourceTimingReport.create(ResourceTimingReportMothers.serviceWorkerCached());
+
+      // When
+      const rehydrated = ResourceTimingReport.fromJSON(JSON.parse(JSON.stringify(report)));
+
+      // Then
+      expect(rehydrated.toJSON()).toEqual(report.toJSON());
+      expect(rehydrated.isServiceWorkerServed).toBe(true);
+    });
+  });
+
+  describe('Server-Timing', () => {
+    it('should capture the Server-Timing metrics of the entry', () => {
+      // Given
+      const entry = PerformanceResourceTimingMother.withCustomValues({
+        serverTiming: [
+          { name: 'cdn-cache', duration: 0, description: 'HIT', toJSON: () => ({}) },
+          { name: 'db', duration: 53, description: '', toJSON: () => ({}) },
+        ],
+      });
+
+      // When
+      const report = ResourceTimingReport.fromPerformanceResourceTiming('server-timing', entry);
+
+      // Then
+      expect(report.serverTiming).toEqual([
+        { name: 'cdn-cache', duration: 0, description: 'HIT' },
+        { name: 'db', duration: 53, description: null },
+      ]);
+      expect(report.serverTimingOf('db')?.duration).toBe(53);
+      expect(report.serverTimingOf('cache')).toBeNull();
+    });
+
+    it('should detect CDN cache hits and misses', () => {
+      // Given
+      const hit = ResourceTimingReport.create(ResourceTimingReportMothers.cdnCacheHit());
+      const miss = ResourceTimingReport.create(ResourceTimingReportMothers.cdnCacheMiss());
+      const unknown = ResourceTimingReport.create(ResourceTimingReportMothers.fastScript());
+
+      // Then
+      expect(hit.cdnCacheStatus).toBe(CDN_CACHE_STATUSES.HIT);
+      expect(hit.isCDNCacheHit).toBe(true);
+      expect(miss.cdnCacheStatus).toBe(CDN_CACHE_STATUSES.MISS);
+      expect(miss.isCDNCacheHit).toBe(false);
+      expect(unknown.cdnCacheStatus).toBeNull();
+    });
+
+    it('should serialize and rehydrate the Server-Timing metrics', () => {
+      // Given
+      const report = ResourceTimingReport.create(ResourceTimingReportMothers.cdnCacheMiss());
+
+      // When
+      const json = report.toJSON();
+      const rehydrated = ResourceTimingReport.fromJSON(JSON.parse(JSON.stringify(json)));
+
+      // Then
+      expect(json.serverTiming).toEqual(ResourceTimingReportMothers.cdnCacheMiss().serverTiming);
+      expect(json.cdnCacheStatus).toBe(CDN_CACHE_STATUSES.MISS);
+      expect(rehydrated.serverTiming).toEqual(report.serverTiming);
+    });
+  });
+
   describe('toString', () => {
     it('should return formatted string with bottleneck when not none', () => {
       // Given
@@ -224,6 +377,8 @@ describe('ResourceTimingReport', () => {
       expect(jsonRepresentation).toEqual({
         // Basic metadata
         id: 'compressed-css-resource-003',
+        kind: 'performance.resource',
+        schemaVersion: 1,
         createdAt: data.createdAt.absoluteTime,
         occurredAt: data.occurredAt.absoluteTime,
 
@@ -245,6 +400,8 @@ describe('ResourceTimingReport', () => {
 
         // Analysis
         isThirdParty: true,
+        vendor: 'Google Fonts',
+        vendorCategory: 'cdn',
         primaryBottleneck: 'download',
         hasDetailedTiming: true,
 
@@ -253,7 +410,23 @@ describe('ResourceTimingReport', () => {
         tcpConnect: data.tcpConnect.toJSON(),
         serverProcessing: data.serverProcessing.toJSON(),
         contentDownload: data.contentDownload.toJSON(),
-        tlsHandshake: data.tlsHandshake?.toJSON()
+        tlsHandshake: data.tlsHandshake?.toJSON(),
+
+        // Server-Timing header
+        serverTiming: [],
+        cdnCacheStatus: null,
+
+        // Response metadata
+        protocol: null,
+        renderBlockingStatus: null,
+        responseStatus: null,
+        deliveryType: null,
+        contentType: null,
+        workerStart: 0,
+        isCacheHit: false,
+        isRenderBlocking: false,
+        isFailed: false,
+        isServiceWorkerServed: false
       });
     });
 
@@ -1,6 +1,35 @@
 import type { Report } from '@/reports/Report';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { TimeSegment } from '@/value-objects/TimeSegment';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedResourceTimingReport } from '@/types/SerializedReports';
+import {
+  RENDER_BLOCKING_STATUSES,
+  type PerformanceResourceTimingEntry,
+  type RenderBlockingStatus
+} from '@/types/PerformanceEntryTypes';
+import {
+  readArray,
+  readNumber,
+  readOneOf,
+  readOptionalNumber,
+  readOptionalSegment,
+  readOptionalString,
+  readReportPayload,
+  readSegment,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+import type { Vendor } from '@/shared/vendorCatalog';
+import {
+  CDN_CACHE_STATUSES,
+  cdnCacheStatusOf,
+  readServerTimingMetric,
+  toServerTimingMetrics,
+  type CDNCacheStatus,
+  type ServerTimingMetric
+} from '@/reports/performance/ServerTiming';
 
 /**
  * Grouped network timing segments for easier analysis
@@ -51,16 +80,42 @@ interface ResourceTimingData {
   serverProcessing: TimeSegment;
   /** Content download time */
   contentDownload: TimeSegment;
+
+  /** Metrics of the Server-Timing header of the response (none by default) */
+  serverTiming?: ServerTimingMetric[];
+
+  // Response metadata (unknown by default)
+  /** Network protocol, e.g. "http/1.1", "h2" or "h3" */
+  protocol?: string | null;
+  /** Whether the resource blocked rendering */
+  renderBlockingStatus?: RenderBlockingStatus | null;
+  /** HTTP status code of the response */
+  responseStatus?: number | null;
+  /** How the resource was delivered, e.g. "cache" or "navigational-prefetch" */
+  deliveryType?: string | null;
+  /** MIME type of the response */
+  contentType?: string | null;
+  /** When the service worker handling the request started, 0 without service worker */
+  workerStart?: number;
 }
 
+/**
+ * Reads a string property of an entry, empty strings (unknown or unsupported) being null.
+ */
+const knownOrNull = (value: string | undefined): string | null => value || null;
+
 /**
  * Report for Resource Timing API performance entries.
  * 
  * Resource timing provides detailed network timing information for loading
  * resources such as stylesheets, scripts, images, and fonts. This report
  * organizes timing data into logical segments for easier bottleneck identification.
+ * 
+ * Metrics of the `Server-Timing` response header are kept, which requires the
+ * `Timing-Allow-Origin` header for cross-origin resources.
  */
 export class ResourceTimingReport implements Report {
+  public readonly kind = REPORT_KINDS.RESOURCE_TIMING;
   /** Unique identifier for the report */
   public readonly id: string;
   
@@ -103,6 +158,27 @@ export class ResourceTimingReport implements Report {
   /** Content download time */
   private readonly contentDownload: TimeSegment;
 
+  /** Metrics of the Server-Timing header of the response */
+  public readonly serverTiming: readonly ServerTimingMetric[];
+
+  /** Network protocol, e.g. "http/1.1", "h2" or "h3" (null when unknown) */
+  public readonly protocol: string | null;
+
+  /** Whether the resource blocked rendering (null when unsupported) */
+  public readonly renderBlockingStatus: RenderBlockingStatus | null;
+
+  /** HTTP status code of the response (null when unknown or opaque) */
+  public readonly responseStatus: number | null;
+
+  /** How the resource was delivered, e.g. "cache" (null from the network or unsupported) */
+  public readonly deliveryType: string | null;
+
+  /** MIME type of the response (null when unknown or opaque) */
+  public readonly contentType: string | null;
+
+  /** When the service worker handling the request started, 0 without service worker */
+  public readonly workerStart: number;
+
   /**
    * Creates a new ResourceTimingReport instance.
    */
@@ -121,6 +197,13 @@ export class ResourceTimingReport implements Report {
     this.tlsHandshake = data.tlsHandshake;
     this.serverProcessing = data.serverProcessing;
     this.contentDownload = data.contentDownload;
+    this.serverTiming = Object.freeze((data.serverTiming ?? []).map(metric => Object.freeze({ ...metric })));
+    this.protocol = data.protocol ?? null;
+    this.renderBlockingStatus = data.renderBlockingStatus ?? null;
+    this.responseStatus = data.responseStatus ?? null;
+    this.deliveryType = data.deliveryType ?? null;
+    this.contentType = data.contentType ?? null;
+    this.workerStart = data.workerStart ?? 0;
 
     Object.freeze(this);
   }
@@ -132,12 +215,44 @@ export class ResourceTimingReport implements Report {
     return new ResourceTimingReport(data);
   }
 
+  /**
+   * Rehydrates a ResourceTimingReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): ResourceTimingReport {
+    const record = readReportPayload(json, REPORT_KINDS.RESOURCE_TIMING);
+    return new ResourceTimingReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      name: readString(record, 'name'),
+      type: readString(record, 'type'),
+      duration: readNumber(record, 'duration'),
+      transferSize: readNumber(record, 'transferSize'),
+      encodedSize: readNumber(record, 'encodedSize'),
+      decodedSize: readNumber(record, 'decodedSize'),
+      dnsLookup: readSegment(record, 'dnsLookup'),
+      tcpConnect: readSegment(record, 'tcpConnect'),
+      tlsHandshake: readOptionalSegment(record, 'tlsHandshake'),
+      serverProcessing: readSegment(record, 'serverProcessing'),
+      contentDownload: readSegment(record, 'contentDownload'),
+      serverTiming: readArray(record, 'serverTiming', readServerTimingMetric),
+      protocol: readOptionalString(record, 'protocol') ?? null,
+      renderBlockingStatus: record.renderBlockingStatus === null
+        ? null
+        : readOneOf(record, 'renderBlockingStatus', Object.values(RENDER_BLOCKING_STATUSES)),
+      responseStatus: readOptionalNumber(record, 'responseStatus') ?? null,
+      deliveryType: readOptionalString(record, 'deliveryType') ?? null,
+      contentType: readOptionalString(record, 'contentType') ?? null,
+      workerStart: readNumber(record, 'workerStart'),
+    });
+  }
+
   /**
    * Creates a ResourceTimingReport from a PerformanceResourceTiming entry.
    */
   public static fromPerformanceResourceTiming(
     id: string,
-    entry: PerformanceResourceTiming
+    entry: PerformanceResourceTimingEntry
   ): ResourceTimingReport {
     const networkSegments = this.calculateNetworkSegments(entry);
     return new ResourceTimingReport({
@@ -155,6 +270,14 @@ export class ResourceTimingReport implements Report {
       tlsHandshake: networkSegments.tlsHandshake,
       serverProcessing: networkSegments.serverProcessing,
       contentDownload: networkSegments.contentDownload,
+      serverTiming: toServerTimingMetrics(entry.serverTiming),
+      protocol: knownOrNull(entry.nextHopProtocol),
+      renderBlockingStatus: entry.renderBlockingStatus ?? null,
+      // 0 for opaque cross-origin responses and in browsers without responseStatus
+      responseStatus: entry.responseStatus || null,
+      deliveryType: knownOrNull(entry.deliveryType),
+      contentType: knownOrNull(entry.contentType),
+      workerStart: entry.workerStart || 0,
     });
   }
 
@@ -215,15 +338,17 @@ export class ResourceTimingReport implements Report {
 
   /**
    * Determines if this resource is from a third-party domain.
+   * Subdomains of the page's registrable domain and the configured first-party domains are first party.
    */
   public get isThirdParty(): boolean {
-    try {
-      const resourceHost = new URL(this.name).hostname;
-      const currentHost = window.location.hostname;
-      return resourceHost !== currentHost;
-    } catch {
-      return false;
-    }
+    return OriginClassifier.getInstance().isThirdParty(this.name);
+  }
+
+  /**
+   * Known vendor serving this third-party resource.
+   */
+  public get vendor(): Vendor | null {
+    return OriginClassifier.getInstance().vendorOf(this.name);
   }
 
   /**
@@ -241,6 +366,17 @@ export class ResourceTimingReport implements Report {
     return Math.max(0, (this.decodedSize - this.encodedSize) / this.decodedSize);
   }
 
+  /**
+   * Throughput of the content download in megabits per second.
+   * Null when nothing was transferred over the network (cached or opaque
+   * cross-origin resources) or the download duration is unknown.
+   */
+  public get downloadThroughput(): number | null {
+    const downloadDuration = this.contentDownload.duration;
+    if (this.transferSize <= 0 || downloadDuration <= 0) return null;
+    return (this.transferSize * 8) / (downloadDuration * 1000);
+  }
+
   /**
    * Identifies the primary network bottleneck.
    */
@@ -295,6 +431,56 @@ export class ResourceTimingReport implements Report {
     }
   }
 
+  /**
+   * Checks if the resource was served from the browser cache: nothing was transferred
+   * over the network although the body is known.
+   */
+  public get isCacheHit(): boolean {
+    return this.deliveryType === 'cache' || (this.transferSize === 0 && this.decodedSize > 0);
+  }
+
+  /**
+   * Checks if the resource blocked the rendering of the page.
+   */
+  public get isRenderBlocking(): boolean {
+    return this.renderBlockingStatus === RENDER_BLOCKING_STATUSES.BLOCKING;
+  }
+
+  /**
+   * Checks if the response was an HTTP error (4xx or 5xx).
+   */
+  public get isFailed(): boolean {
+    return this.responseStatus !== null && this.responseStatus >= 400;
+  }
+
+  /**
+   * Checks if the request went through a service worker.
+   */
+  public get isServiceWorkerServed(): boolean {
+    return this.workerStart > 0;
+  }
+
+  /**
+   * CDN cache status reported by the Server-Timing header, null when it is not reported.
+   */
+  public get cdnCacheStatus(): CDNCacheStatus | null {
+    return cdnCacheStatusOf(this.serverTiming);
+  }
+
+  /**
+   * Checks if the CDN served the resource from its cache.
+   */
+  public get isCDNCacheHit(): boolean {
+    return this.cdnCacheStatus === CDN_CACHE_STATUSES.HIT;
+  }
+
+  /**
+   * Gets the first Server-Timing metric with the given name.
+   */
+  public serverTimingOf(name: string): ServerTimingMetric | null {
+    return this.serverTiming.find(metric => metric.name === name) ?? null;
+  }
+
   /**
    * Creates a human-readable string representation of the resource timing report.
    */
@@ -306,10 +492,12 @@ export class ResourceTimingReport implements Report {
   /**
    * Converts the report to a JSON object suitable for serialization.
    */
-  public toJSON() {
+  public toJSON(): SerializedResourceTimingReport {
     return {
       // Basic report metadata
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
       occurredAt: this.occurredAt.absoluteTime,
       
@@ -330,6 +518,8 @@ export class ResourceTimingReport implements Report {
       hasCompression: this.hasCompression,
 
       isThirdParty: this.isThirdParty,
+      vendor: this.vendor?.name ?? null,
+      vendorCategory: this.vendor?.category ?? null,
       primaryBottleneck: this.primaryBottleneck,
       hasDetailedTiming: this.hasDetailedTiming,
 
@@ -339,6 +529,22 @@ export class ResourceTimingReport implements Report {
       serverProcessing: this.serverProcessing.toJSON(),
       contentDownload: this.contentDownload.toJSON(),
       tlsHandshake: this.tlsHandshake ? this.tlsHandshake.toJSON() : null,
+
+      // Server-Timing header
+      serverTiming: this.serverTiming.map(metric => ({ ...metric })),
+      cdnCacheStatus: this.cdnCacheStatus,
+
+      // Response metadata
+      protocol: this.protocol,
+      renderBlockingStatus: this.renderBlockingStatus,
+      responseStatus: this.responseStatus,
+      deliveryType: this.deliveryType,
+      contentType: this.contentType,
+      workerStart: this.workerStart,
+      isCacheHit: this.isCacheHit,
+      isRenderBlocking: this.isRenderBlocking,
+      isFailed: this.isFailed,
+      isServiceWorkerServed: this.isServiceWorkerServed,
     };
   }
 }
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+
+import { InvalidPayloadException } from '@/exceptions/SerializationExceptions';
+import {
+  CDN_CACHE_STATUSES,
+  cdnCacheStatusOf,
+  readServerTimingMetric,
+  toServerTimingMetrics
+} from './ServerTiming';
+
+const metric = (name: string, description: string | null = null, duration = 0) => ({ name, duration, description });
+
+describe('ServerTiming', () => {
+  describe('toServerTimingMetrics', () => {
+    it('should convert the serverTiming of an entry, empty descriptions being null', () => {
+      // Given
+      const serverTiming = [
+        { name: 'db', duration: 53, description: '', toJSON: () => ({}) },
+        { name: 'cdn-cache', duration: 0, description: 'HIT', toJSON: () => ({}) },
+      ];
+
+      // When
+      const metrics = toServerTimingMetrics(serverTiming);
+
+      // Then
+      expect(metrics).toEqual([metric('db', null, 53), metric('cdn-cache', 'HIT')]);
+    });
+
+    it('should return no metrics when the entry has no serverTiming', () => {
+      // Then
+      expect(toServerTimingMetrics(undefined)).toEqual([]);
+    });
+  });
+
+  describe('cdnCacheStatusOf', () => {
+    it.each([
+      ['cdn-cache', 'HIT', CDN_CACHE_STATUSES.HIT],
+      ['cdn-cache', 'TCP_MISS', CDN_CACHE_STATUSES.MISS],
+      ['cfCacheStatus', 'REVALIDATED', CDN_CACHE_STATUSES.HIT],
+      ['cfCacheStatus', 'DYNAMIC', CDN_CACHE_STATUSES.MISS],
+      ['x-cache', 'MISS, HIT', CDN_CACHE_STATUSES.HIT],
+      ['cache', 'expired', CDN_CACHE_STATUSES.MISS],
+    ])('should read the status of %s;desc=%s', (name, description, status) => {
+      // Then
+      expect(cdnCacheStatusOf([metric(name, description)])).toBe(status);
+    });
+
+    it('should read the status from the metric name', () => {
+      // Then
+      expect(cdnCacheStatusOf([metric('cdn-cache-hit')])).toBe(CDN_CACHE_STATUSES.HIT);
+      expect(cdnCacheStatusOf([metric('cdn-cache-miss')])).toBe(CDN_CACHE_STATUSES.MISS);
+    });
+
+    it('should be null when no metric reports the cache status', () => {
+      // Then
+      expect(cdnCacheStatusOf([])).toBeNull();
+      expect(cdnCacheStatusOf([metric('db', 'HIT', 53), metric('cdn-cache')])).toBeNull();
+      expect(cdnCacheStatusOf([metric('cdn-cache', 'unknown')])).toBeNull();
+      expect(cdnCacheStatusOf([metric('constructor'), metric('__proto__')])).toBeNull();
+    });
+  });
+
+  describe('readServerTimingMetric', () => {
+    it('should read a serialized metric', () => {
+      // Then
+      expect(readServerTimingMetric({ name: 'db', duration: 53, description: null })).toEqual(metric('db', null, 53));
+    });
+
+    it('should reject payloads that are not objects', () => {
+      // Then
+      expect(() => readServerTimingMetric('db;dur=53')).toThrow(InvalidPayloadException);
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  readNumber,
+  readOptionalString,
+  readRecord,
+  readString
+} from '@/shared/deserialization';
+
+/**
+ * Metric of a `Server-Timing` response header, e.g. `db;dur=53` or `cdn-cache;desc=HIT`.
+ */
+export interface ServerTimingMetric {
+  name: string;
+  /** Duration in milliseconds, 0 when the metric has none */
+  duration: number;
+  description: string | null;
+}
+
+/**
+ * Whether the CDN served the response from its cache.
+ */
+export const CDN_CACHE_STATUSES = {
+  HIT: 'hit',
+  MISS: 'miss',
+} as const;
+
+export type CDNCacheStatus = (typeof CDN_CACHE_STATUSES)[keyof typeof CDN_CACHE_STATUSES];
+
+/**
+ * Names (lowercase) of the metrics whose description carries the CDN cache status,
+ * e.g. `cdn-cache;desc=HIT` (Akamai) or `cfCacheStatus;desc="MISS"` (Cloudflare).
+ */
+export const CDN_CACHE_METRIC_NAMES: readonly string[] = ['cdn-cache', 'cfcachestatus', 'cache', 'x-cache'];
+
+/**
+ * Metrics whose name alone carries the CDN cache status.
+ */
+const CDN_CACHE_STATUS_METRICS: Record<string, CDNCacheStatus> = {
+  'cdn-cache-hit': CDN_CACHE_STATUSES.HIT,
+  'cdn-cache-miss': CDN_CACHE_STATUSES.MISS,
+};
+
+const HIT_STATUSES = ['HIT', 'STALE', 'REVALIDATED', 'UPDATING'];
+const MISS_STATUSES = ['MISS', 'EXPIRED', 'BYPASS', 'DYNAMIC', 'PASS'];
+
+/**
+ * Reads the cache status of a description such as `HIT`, `TCP_MISS` or `MISS, HIT`.
+ * With layered caches the last status is the one of the edge serving the response.
+ */
+const readCacheStatus = (description: string): CDNCacheStatus | null => {
+  const status = description.toUpperCase().split(/[\s,]+/).filter(Boolean).pop() ?? '';
+  if (HIT_STATUSES.some(hit => status.includes(hit))) return CDN_CACHE_STATUSES.HIT;
+  if (MISS_STATUSES.some(miss => status.includes(miss))) return CDN_CACHE_STATUSES.MISS;
+  return null;
+};
+
+/**
+ * Converts the serverTiming of a resource or navigation entry. Empty descriptions are null.
+ */
+export const toServerTimingMetrics = (
+  serverTiming: readonly PerformanceServerTiming[] | undefined
+): ServerTimingMetric[] => (
+  (serverTiming ?? []).map(({ name, duration, description }) => ({
+    name,
+    duration,
+    description: description || null,
+  }))
+);
+
+/**
+ * CDN cache status reported by the Server-Timing metrics, null when no metric reports it.
+ */
+export const cdnCacheStatusOf = (metrics: readonly ServerTimingMetric[]): CDNCacheStatus | null => {
+  for (const { name, description } of metrics) {
+    const metricName = name.toLowerCase();
+    if (Object.hasOwn(CDN_CACHE_STATUS_METRICS, metricName)) return CDN_CACHE_STATUS_METRICS[metricName];
+    if (!CDN_CACHE_METRIC_NAMES.includes(metricName) || !description) continue;
+
+    const status = readCacheStatus(description);
+    if (status) return status;
+  }
+  return null;
+};
+
+export const readServerTimingMetric = (json: unknown): ServerTimingMetric => {
+  const record = readRecord(json, 'a serialized Server-Timing metric');
+  return {
+    name: readString(record, 'name'),
+    duration: readNumber(record, 'duration'),
+    description: readOptionalString(record, 'description') ?? null,
+  };
+};
@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { SoftNavigationReportMothers } from '@/test/mothers/SoftNavigationReportMothers';
+import { InvalidFieldException } from '@/exceptions/SerializationExceptions';
+
+import { SoftNavigationReport } from './SoftNavigationReport';
+
+describe('SoftNavigationReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should describe the route change', () => {
+    // When
+    const report = SoftNavigationReportMothers.toProductPage();
+
+    // Then
+    expect(report.toString()).toBe('Soft Navigation [push-state]: / -> /products/:id at 3000ms');
+  });
+
+  it('should omit the previous route when there is none', () => {
+    // When
+    const report = SoftNavigationReportMothers.to('/checkout', 1200, null);
+
+    // Then
+    expect(report.toString()).toBe('Soft Navigation [push-state]: /checkout at 1200ms');
+  });
+
+  it('should serialize the route view and rehydrate an equal report', () => {
+    // Given
+    const report = SoftNavigationReportMothers.toProductPage();
+
+    // When
+    const json = JSON.parse(JSON.stringify(report));
+    const rehydrated = SoftNavigationReport.fromJSON(json);
+
+    // Then
+    expect(json).toMatchObject({
+      kind: 'performance.soft-navigation',
+      navigationId: 'navigation-3000',
+      route: '/products/:id',
+      url: 'https://example.com/products/42',
+      previousRoute: '/',
+      source: 'push-state',
+    });
+    expect(rehydrated.toJSON()).toEqual(report.toJSON());
+  });
+
+  it('should reject payloads with an unknown source', () => {
+    // Given
+    const json = { ...SoftNavigationReportMothers.toProductPage().toJSON(), source: 'hashchange' };
+
+    // Then
+    expect(() => SoftNavigationReport.fromJSON(json)).toThrow(InvalidFieldException);
+  });
+});
@@ -0,0 +1,120 @@
+import type { Report } from '@/reports/Report';
+import type { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedSoftNavigationReport } from '@/types/SerializedReports';
+import {
+  readOneOf,
+  readOptionalString,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+
+/**
+ * What a soft navigation was detected from.
+ */
+export const SOFT_NAVIGATION_SOURCES = {
+  PUSH_STATE: 'push-state',
+  REPLACE_STATE: 'replace-state',
+  POPSTATE: 'popstate',
+  /** Soft navigation performance entry (Chromium soft navigation heuristics) */
+  SOFT_NAVIGATION_ENTRY: 'soft-navigation-entry',
+} as const;
+
+export type SoftNavigationSource = (typeof SOFT_NAVIGATION_SOURCES)[keyof typeof SOFT_NAVIGATION_SOURCES];
+
+interface SoftNavigationData {
+  id: string;
+  createdAt: PerformanceTime;
+  /** When the navigation started */
+  occurredAt: PerformanceTime;
+  /** Identifier of the route view, shared by the reports tagged with it */
+  navigationId: string;
+  /** Route identifier resolved by the application */
+  route: string;
+  url: string;
+  previousRoute: string | null;
+  source: SoftNavigationSource;
+}
+
+/**
+ * Report for a client-side route change of a single page application.
+ *
+ * Soft navigations change the URL and the content without loading a new
+ * document, so the web vitals of the page keep accumulating across routes
+ * unless they are segmented at every soft navigation.
+ */
+export class SoftNavigationReport implements Report {
+  public readonly kind = REPORT_KINDS.SOFT_NAVIGATION;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  public readonly navigationId: string;
+  public readonly route: string;
+  public readonly url: string;
+  public readonly previousRoute: string | null;
+  public readonly source: SoftNavigationSource;
+
+  private constructor(data: SoftNavigationData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.occurredAt;
+    this.navigationId = data.navigationId;
+    this.route = data.route;
+    this.url = data.url;
+    this.previousRoute = data.previousRoute;
+    this.source = data.source;
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a SoftNavigationReport from provided data.
+   */
+  public static create(data: SoftNavigationData): SoftNavigationReport {
+    return new SoftNavigationReport(data);
+  }
+
+  /**
+   * Rehydrates a SoftNavigationReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): SoftNavigationReport {
+    const record = readReportPayload(json, REPORT_KINDS.SOFT_NAVIGATION);
+    return new SoftNavigationReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      navigationId: readString(record, 'navigationId'),
+      route: readString(record, 'route'),
+      url: readString(record, 'url'),
+      previousRoute: readOptionalString(record, 'previousRoute') ?? null,
+      source: readOneOf(record, 'source', Object.values(SOFT_NAVIGATION_SOURCES)),
+    });
+  }
+
+  /**
+   * String representation of the soft navigation.
+   */
+  public toString(): string {
+    const from = this.previousRoute !== null ? `${this.previousRoute} -> ` : '';
+    return `Soft Navigation [${this.source}]: ${from}${this.route} at ${this.occurredAt.relativeTime}ms`;
+  }
+
+  /**
+   * JSON representation for serialization.
+   */
+  public toJSON(): SerializedSoftNavigationReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      navigationId: this.navigationId,
+      route: this.route,
+      url: this.url,
+      previousRoute: this.previousRoute,
+      source: this.source,
+    };
+  }
+}
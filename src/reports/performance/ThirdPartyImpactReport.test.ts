@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { ThirdPartyImpactReportMothers } from '@/test/mothers/ThirdPartyImpactReportMothers';
+import { UnhandledJavaScriptErrorReportMothers } from '@/test/mothers/UnhandledJavaScriptErrorReportMothers';
+import { LongAnimationFrameReportMothers } from '@/test/mothers/LongAnimationFrameReportMothers';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+
+import { ThirdPartyImpactReport } from './ThirdPartyImpactReport';
+
+const GTM = 'https://www.googletagmanager.com';
+
+describe('ThirdPartyImpactReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    windowLocationHelper.mock();
+  });
+
+  afterEach(() => {
+    OriginClassifier.resetInstance();
+    windowLocationHelper.unmock();
+    performanceAPIHelper.unmock();
+  });
+
+  describe('fromReports', () => {
+    it('should attribute every source to its third-party origin', () => {
+      // When
+      const report = ThirdPartyImpactReportMothers.pageWithThirdParties();
+
+      // Then
+      expect(report.impactOf(GTM)).toEqual({
+        origin: GTM,
+        vendor: 'Google Tag Manager',
+        vendorCategory: 'tag-manager',
+        resourceCount: 1,
+        transferSize: 45000,
+        longTaskCount: 1,
+        longAnimationFrameCount: 0,
+        blockingTime: 130,
+        failedLoads: 0,
+        javascriptErrors: 0,
+        cspViolations: 0,
+      });
+      expect(report.impactOf('https://cdn.analytics.com')).toMatchObject({
+        vendor: null,
+        failedLoads: 1,
+        javascriptErrors: 1,
+      });
+      expect(report.impactOf('https://malicious.com')).toMatchObject({ cspViolations: 1 });
+    });
+
+    it('should ignore first-party subdomains, main window long tasks and special URIs', () => {
+      // When
+      const report = ThirdPartyImpactReportMothers.pageWithThirdParties();
+
+      // Then
+      expect(report.origins.map(impact => impact.origin)).toEqual([
+        GTM,
+        'https://cdn.thirdparty.com',
+        'https://cdn.analytics.com',
+        'https://malicious.com',
+      ]);
+      expect(report.impactOf('https://static.example.com')).toBeNull();
+      expect(report.totals).toEqual({
+        resourceCount: 2,
+        transferSize: 165000,
+        longTaskCount: 2,
+        longAnimationFrameCount: 0,
+        blockingTime: 170,
+        failedLoads: 1,
+        javascriptErrors: 1,
+        cspViolations: 1,
+      });
+    });
+
+    it('should not count the configured first-party domains', () => {
+      // Given
+      OriginClassifier.getInstance().configure({ firstPartyDomains: ['thirdparty.com'] });
+
+      // When
+      const report = ThirdPartyImpactReportMothers.pageWithThirdParties();
+
+      // Then
+      expect(report.impactOf('https://cdn.thirdparty.com')).toBeNull();
+      expect(report.totals.blockingTime).toBe(130);
+    });
+
+    it('should split the blocking time of a long task among its frames', () => {
+      // Given
+      const longTask = ThirdPartyImpactReportMothers.longTask(
+        'shared-long-task',
+        180,
+        'https://www.googletagmanager.com/ns.html',
+        'https://cdn.thirdparty.com/widget.html'
+      );
+
+      // When
+      const report = ThirdPartyImpactReport.fromReports('third-party-impact', { longTasks: [longTask] });
+
+      // Then
+      expect(report.impactOf(GTM)).toMatchObject({ longTaskCount: 1, blockingTime: 65 });
+      expect(report.impactOf('https://cdn.thirdparty.com')).toMatchObject({ longTaskCount: 1, blockingTime: 65 });
+      expect(report.totals.blockingTime).toBe(130);
+    });
+
+    it('should resolve relative containerSrc against the page URL', () => {
+      // Given
+      const longTasks = [
+        ThirdPartyImpactReportMothers.longTask('relative-long-task', 90, '/widgets/chat.html'),
+        ThirdPartyImpactReportMothers.longTask('protocol-relative-long-task', 90, '//cdn.thirdparty.com/widget.html'),
+      ];
+
+      // When
+      const report = ThirdPartyImpactReport.fromReports('third-party-impact', { longTasks });
+
+      // Then
+      expect(report.origins.map(impact => impact.origin)).toEqual(['https://cdn.thirdparty.com']);
+      expect(report.totals.blockingTime).toBe(40);
+    });
+
+    it('should attribute long animation frames to the origin of their scripts', () => {
+      // Given
+      const frame = LongAnimationFrameReportMothers.withThirdPartyScript();
+
+      // When
+      const report = ThirdPartyImpactReport.fromReports('third-party-impact', { longAnimationFrames: [frame] });
+
+      // Then
+      expect(report.origins).toHaveLength(1);
+      expect(report.impactOf('https://cdn.analytics.com')).toMatchObject({
+        longTaskCount: 0,
+        longAnimationFrameCount: 1,
+        blockingTime: 60, // 80ms of the 120ms of scripts of a frame blocking 90ms
+      });
+    });
+
+    it('should report no third parties without sources', () => {
+      // When
+      const report = ThirdPartyImpactReport.fromReports('third-party-impact', {});
+
+      // Then
+      expect(report.origins).toEqual([]);
+      expect(report.worstOrigin).toBeNull();
+      expect(report.totals.transferSize).toBe(0);
+      expect(report.toString()).toBe('ThirdPartyImpact: no third parties');
+    });
+  });
+
+  describe('ranking', () => {
+    it('should rank origins by blocking time, then transferred bytes, then failures', () => {
+      // When
+      const report = ThirdPartyImpactReportMothers.pageWithThirdParties();
+
+      // Then
+      expect(report.worstOrigin?.origin).toBe(GTM);
+      expect(report.origins[1].origin).toBe('https://cdn.thirdparty.com'); // 40ms blocking
+      expect(report.origins[2].origin).toBe('https://cdn.analytics.com'); // 2 failures
+      expect(report.toString()).toBe('ThirdPartyImpact: 4 origins, 170ms blocking, 165000 bytes (worst: Google Tag Manager)');
+    });
+
+    it('should sum the origins of a vendor', () => {
+      // Given
+      const sources = {
+        ...ThirdPartyImpactReportMothers.sources(),
+        javascriptErrors: [
+          UnhandledJavaScriptErrorReportMothers.withCustom({ filename: 'https://googletagmanager.com/gtag/js' }),
+        ],
+      };
+
+      // When
+      const report = ThirdPartyImpactReport.fromReports('third-party-impact', sources);
+
+      // Then
+      expect(report.impactOfVendor('Google Tag Manager')).toMatchObject({
+        transferSize: 45000,
+        blockingTime: 130,
+        javascriptErrors: 1,
+      });
+      expect(report.impactOfVendor('Hotjar')).toBeNull();
+    });
+  });
+
+  it('should serialize the ranked origins and totals and rehydrate from the summary', () => {
+    // Given
+    const report = ThirdPartyImpactReportMothers.pageWithThirdParties();
+
+    // When
+    const json = report.toJSON();
+    const rehydrated = ThirdPartyImpactReport.fromJSON(JSON.parse(JSON.stringify(json)));
+
+    // Then
+    expect(json).toMatchObject({
+      id: 'third-party-impact',
+      kind: 'performance.third-party-impact',
+      schemaVersion: 1,
+      totals: { blockingTime: 170, transferSize: 165000 },
+    });
+    expect(json.origins[0]).toMatchObject({ origin: GTM, vendor: 'Google Tag Manager' });
+    expect(rehydrated.toJSON()).toEqual(json);
+  });
+});
@@ -0,0 +1,326 @@
+import type { Report } from '@/reports/Report';
+import type { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+import type { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import type { LongAnimationFrameReport } from '@/reports/performance/LongAnimationFrameReport';
+import type { ResourceErrorReport } from '@/reports/errors/ResourceErrorReport';
+import type { UnhandledJavaScriptErrorReport } from '@/reports/errors/UnhandledJavaScriptErrorReport';
+import type { CSPViolationErrorReport } from '@/reports/errors/CSPViolationErrorReport';
+import { BLOCKING_TIME_THRESHOLD } from '@/reports/performance/LongTaskCollection';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedThirdPartyImpactReport } from '@/types/SerializedReports';
+import {
+  readArray,
+  readNumber,
+  readOneOf,
+  readOptionalString,
+  readRecord,
+  readReportPayload,
+  readString,
+  readTime
+} from '@/shared/deserialization';
+import { OriginClassifier } from '@/shared/OriginClassifier';
+import { VENDOR_CATEGORIES, type VendorCategory } from '@/shared/vendorCatalog';
+
+/**
+ * Cost of third parties: bytes they transferred, time they blocked the main
+ * thread and failures they caused.
+ */
+export interface ThirdPartyImpactTotals {
+  resourceCount: number;
+  /** Bytes transferred over the network */
+  transferSize: number;
+  longTaskCount: number;
+  /** Long animation frames in which scripts of the third party ran */
+  longAnimationFrameCount: number;
+  /**
+   * Time the main thread was blocked: the blocking time of long tasks beyond
+   * BLOCKING_TIME_THRESHOLD, plus the share of long animation frames blocked by its scripts
+   */
+  blockingTime: number;
+  /** Resources that failed to load */
+  failedLoads: number;
+  javascriptErrors: number;
+  cspViolations: number;
+}
+
+/**
+ * Cost of a third-party origin, with the known vendor serving it.
+ */
+export interface ThirdPartyOriginImpact extends ThirdPartyImpactTotals {
+  origin: string;
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+}
+
+/**
+ * Reports the impact of third parties is measured from. Every source is optional.
+ */
+export interface ThirdPartyImpactSources {
+  resources?: ResourceTimingCollection;
+  /** Long tasks attributed to a third-party frame through their containerSrc */
+  longTasks?: readonly LongTaskReport[];
+  /** Long animation frames attributed to third-party scripts through their sourceURL */
+  longAnimationFrames?: readonly LongAnimationFrameReport[];
+  resourceErrors?: readonly ResourceErrorReport[];
+  javascriptErrors?: readonly UnhandledJavaScriptErrorReport[];
+  cspViolations?: readonly CSPViolationErrorReport[];
+}
+
+interface ThirdPartyImpactData {
+  id: string;
+  createdAt: PerformanceTime;
+  occurredAt: PerformanceTime;
+  origins: ThirdPartyOriginImpact[];
+}
+
+const emptyTotals = (): ThirdPartyImpactTotals => ({
+  resourceCount: 0,
+  transferSize: 0,
+  longTaskCount: 0,
+  longAnimationFrameCount: 0,
+  blockingTime: 0,
+  failedLoads: 0,
+  javascriptErrors: 0,
+  cspViolations: 0,
+});
+
+const sumTotals = (impacts: readonly ThirdPartyImpactTotals[]): ThirdPartyImpactTotals => (
+  impacts.reduce<ThirdPartyImpactTotals>((totals, impact) => ({
+    resourceCount: totals.resourceCount + impact.resourceCount,
+    transferSize: totals.transferSize + impact.transferSize,
+    longTaskCount: totals.longTaskCount + impact.longTaskCount,
+    longAnimationFrameCount: totals.longAnimationFrameCount + impact.longAnimationFrameCount,
+    blockingTime: totals.blockingTime + impact.blockingTime,
+    failedLoads: totals.failedLoads + impact.failedLoads,
+    javascriptErrors: totals.javascriptErrors + impact.javascriptErrors,
+    cspViolations: totals.cspViolations + impact.cspViolations,
+  }), emptyTotals())
+);
+
+const failuresOf = (impact: ThirdPartyImpactTotals): number => (
+  impact.failedLoads + impact.javascriptErrors + impact.cspViolations
+);
+
+/**
+ * Ranks origins by blocking time, then transferred bytes, then failures.
+ */
+const byImpact = (a: ThirdPartyOriginImpact, b: ThirdPartyOriginImpact): number => (
+  b.blockingTime - a.blockingTime ||
+  b.transferSize - a.transferSize ||
+  failuresOf(b) - failuresOf(a) ||
+  a.origin.localeCompare(b.origin)
+);
+
+const readOriginImpact = (json: unknown): ThirdPartyOriginImpact => {
+  const record = readRecord(json, 'a third-party origin impact');
+  return {
+    origin: readString(record, 'origin'),
+    vendor: readOptionalString(record, 'vendor') ?? null,
+    vendorCategory: record.vendorCategory === undefined || record.vendorCategory === null
+      ? null
+      : readOneOf(record, 'vendorCategory', Object.values(VENDOR_CATEGORIES)),
+    resourceCount: readNumber(record, 'resourceCount'),
+    transferSize: readNumber(record, 'transferSize'),
+    longTaskCount: readNumber(record, 'longTaskCount'),
+    longAnimationFrameCount: readNumber(record, 'longAnimationFrameCount'),
+    blockingTime: readNumber(record, 'blockingTime'),
+    failedLoads: readNumber(record, 'failedLoads'),
+    javascriptErrors: readNumber(record, 'javascriptErrors'),
+    cspViolations: readNumber(record, 'cspViolations'),
+  };
+};
+
+/**
+ * Absolute URL of a frame, containerSrc is the src attribute and can be relative.
+ */
+const resolveContainerSrc = (containerSrc: string): string => {
+  if (!containerSrc) return '';
+  try {
+    return new URL(containerSrc, location.href).href;
+  } catch {
+    return containerSrc;
+  }
+};
+
+/**
+ * Report answering "how much does each third party cost us?".
+ *
+ * Attributes the resources, long tasks, resource errors, JavaScript errors and CSP
+ * violations of the page to the third-party origin they come from, as classified by
+ * the OriginClassifier, and ranks the origins by the time they blocked the main thread.
+ * Long tasks are attributed through the containerSrc of their attribution, so only
+ * tasks of third-party frames are counted, and a task attributed to several frames
+ * splits its blocking time among them. Long animation frames are attributed through
+ * the sourceURL of their scripts, each script taking its share of the blocking duration.
+ */
+export class ThirdPartyImpactReport implements Report {
+  public readonly kind = REPORT_KINDS.THIRD_PARTY_IMPACT;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  /** Third-party origins, ranked by impact */
+  public readonly origins: readonly ThirdPartyOriginImpact[];
+
+  private constructor(data: ThirdPartyImpactData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.occurredAt;
+    this.origins = Object.freeze(data.origins.map(impact => Object.freeze({ ...impact })).sort(byImpact));
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a ThirdPartyImpactReport from provided data.
+   */
+  public static create(data: ThirdPartyImpactData): ThirdPartyImpactReport {
+    return new ThirdPartyImpactReport(data);
+  }
+
+  /**
+   * Rehydrates a ThirdPartyImpactReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): ThirdPartyImpactReport {
+    const record = readReportPayload(json, REPORT_KINDS.THIRD_PARTY_IMPACT);
+    return new ThirdPartyImpactReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      origins: readArray(record, 'origins', readOriginImpact),
+    });
+  }
+
+  /**
+   * Creates a ThirdPartyImpactReport attributing the given reports to their third-party origin.
+   */
+  public static fromReports(id: string, sources: ThirdPartyImpactSources): ThirdPartyImpactReport {
+    const classifier = OriginClassifier.getInstance();
+    const byOrigin = new Map<string, ThirdPartyOriginImpact>();
+
+    const impactOf = (url: string): ThirdPartyOriginImpact | null => {
+      const classification = classifier.classify(url);
+      if (!classification?.isThirdParty) return null;
+
+      let impact = byOrigin.get(classification.origin);
+      if (!impact) {
+        impact = {
+          origin: classification.origin,
+          vendor: classification.vendor?.name ?? null,
+          vendorCategory: classification.vendor?.category ?? null,
+          ...emptyTotals(),
+        };
+        byOrigin.set(classification.origin, impact);
+      }
+      return impact;
+    };
+
+    for (const resource of sources.resources?.reports ?? []) {
+      const impact = impactOf(resource.name);
+      if (!impact) continue;
+      impact.resourceCount++;
+      impact.transferSize += resource.transferSize;
+    }
+
+    for (const longTask of sources.longTasks ?? []) {
+      // The main window is the container with an empty containerSrc
+      const containers = new Set((longTask.attribution ?? []).map(({ containerSrc }) => resolveContainerSrc(containerSrc)));
+      const blockingTime = Math.max(0, longTask.duration - BLOCKING_TIME_THRESHOLD) / Math.max(containers.size, 1);
+      for (const containerSrc of containers) {
+        const impact = containerSrc ? impactOf(containerSrc) : null;
+        if (!impact) continue;
+        impact.longTaskCount++;
+        impact.blockingTime += blockingTime;
+      }
+    }
+
+    for (const frame of sources.longAnimationFrames ?? []) {
+      const frameOrigins = new Set<ThirdPartyOriginImpact>();
+      for (const script of frame.scripts) {
+        const impact = script.sourceURL ? impactOf(script.sourceURL) : null;
+        if (!impact) continue;
+        impact.blockingTime += frame.blockingDurationOf(script);
+        frameOrigins.add(impact);
+      }
+      frameOrigins.forEach(impact => impact.longAnimationFrameCount++);
+    }
+
+    for (const error of sources.resourceErrors ?? []) {
+      const impact = impactOf(error.resourceUrl);
+      if (impact) impact.failedLoads++;
+    }
+
+    for (const error of sources.javascriptErrors ?? []) {
+      const impact = error.filename ? impactOf(error.filename) : null;
+      if (impact) impact.javascriptErrors++;
+    }
+
+    for (const violation of sources.cspViolations ?? []) {
+      const impact = violation.isSpecialURI ? null : impactOf(violation.blockedURI);
+      if (impact) impact.cspViolations++;
+    }
+
+    const now = PerformanceTime.now();
+    return new ThirdPartyImpactReport({
+      id,
+      createdAt: now,
+      occurredAt: now,
+      origins: Array.from(byOrigin.values()),
+    });
+  }
+
+  /**
+   * Sum of the impact of every third-party origin.
+   */
+  public get totals(): ThirdPartyImpactTotals {
+    return sumTotals(this.origins);
+  }
+
+  /**
+   * Third-party origin with the highest impact, null when no third party was found.
+   */
+  public get worstOrigin(): ThirdPartyOriginImpact | null {
+    return this.origins[0] ?? null;
+  }
+
+  /**
+   * Impact of a third-party origin, e.g. `https://www.googletagmanager.com`.
+   */
+  public impactOf(origin: string): ThirdPartyOriginImpact | null {
+    return this.origins.find(impact => impact.origin === origin) ?? null;
+  }
+
+  /**
+   * Impact of every origin of a vendor, e.g. `Google Analytics`, null when none was found.
+   */
+  public impactOfVendor(vendor: string): ThirdPartyImpactTotals | null {
+    const origins = this.origins.filter(impact => impact.vendor === vendor);
+    return origins.length > 0 ? sumTotals(origins) : null;
+  }
+
+  /**
+   * String representation of the third-party impact.
+   */
+  public toString(): string {
+    const worst = this.worstOrigin;
+    if (!worst) return 'ThirdPartyImpact: no third parties';
+
+    const { blockingTime, transferSize } = this.totals;
+    return `ThirdPartyImpact: ${this.origins.length} origins, ${Math.round(blockingTime)}ms blocking, ${transferSize} bytes (worst: ${worst.vendor ?? worst.origin})`;
+  }
+
+  /**
+   * JSON representation for serialization.
+   */
+  public toJSON(): SerializedThirdPartyImpactReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      origins: this.origins.map(impact => ({ ...impact })),
+      totals: this.totals,
+    };
+  }
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { UserTimingReportMothers } from '@/test/mothers/UserTimingReportMothers';
+
+import { UserTimingCollection } from './UserTimingCollection';
+
+const { measure, mark } = UserTimingReportMothers;
+
+describe('UserTimingCollection', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should compute count, min, max, mean and percentiles per measure name', () => {
+    // Given
+    const durations = [100, 40, 80, 60, 20, 90, 30, 70, 50, 10];
+    const reports = durations.map((duration, index) => measure('checkout:render', index * 1000, duration));
+
+    // When
+    const collection = UserTimingCollection.fromUserTimingReports('user-timing', reports);
+
+    // Then
+    const { reports: measured, ...stats } = collection.statsOf('checkout:render') ?? { reports: [] };
+    expect(stats).toEqual({ count: 10, min: 10, max: 100, mean: 55, p50: 50, p75: 80, p95: 100 });
+    expect(measured).toHaveLength(10);
+  });
+
+  it('should keep marks out of the statistics', () => {
+    // Given
+    const reports = [
+      mark('checkout:start', 100),
+      measure('checkout:render', 100, 250),
+      measure('search:query', 500, 80),
+    ];
+
+    // When
+    const collection = UserTimingCollection.fromUserTimingReports('user-timing', reports);
+
+    // Then
+    expect(collection.marks.map(report => report.name)).toEqual(['checkout:start']);
+    expect(Object.keys(collection.statsByName)).toEqual(['checkout:render', 'search:query']);
+    expect(collection.statsOf('checkout:start')).toBeNull();
+  });
+
+  it('should group measures named like Object.prototype properties', () => {
+    // Given
+    const reports = [
+      measure('constructor', 100, 40),
+      measure('constructor', 300, 60),
+      measure('__proto__', 500, 20),
+    ];
+
+    // When
+    const collection = UserTimingCollection.fromUserTimingReports('user-timing', reports);
+    const json = collection.toJSON();
+
+    // Then
+    expect(collection.statsOf('constructor')?.count).toBe(2);
+    expect(collection.statsOf('toString')).toBeNull();
+    expect(Object.keys(json.statsByName)).toEqual(['constructor', '__proto__']);
+    expect(json.statsByName.__proto__.reportIds).toHaveLength(1);
+  });
+
+  it('should serialize the statistics by report id and recompute them when rehydrated', () => {
+    // Given
+    const collection = UserTimingCollection.fromUserTimingReports('user-timing', [
+      mark('checkout:start', 100),
+      measure('checkout:render', 100, 250),
+    ]);
+
+    // When
+    const json = JSON.parse(JSON.stringify(collection));
+    const rehydrated = UserTimingCollection.fromJSON(json);
+
+    // Then
+    expect(json.statsByName).toEqual({
+      'checkout:render': {
+        count: 1, min: 250, max: 250, mean: 250, p50: 250, p75: 250, p95: 250,
+        reportIds: ['checkout:render-100'],
+      },
+    });
+    expect(rehydrated.toJSON()).toEqual(collection.toJSON());
+  });
+});
@@ -0,0 +1,140 @@
+import { UserTimingReport } from '@/reports/performance/UserTimingReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedUserTimingCollection } from '@/types/SerializedReports';
+import { readArray, readReportPayload, readString, readTime } from '@/shared/deserialization';
+
+type UserTimingCollectionData = ReportCollectionData<UserTimingReport>;
+
+/**
+ * Duration statistics of the measures sharing a name.
+ */
+export interface UserTimingStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  reports: UserTimingReport[];
+}
+
+/**
+ * Nearest-rank percentile of values sorted in ascending order.
+ */
+const percentile = (sorted: number[], rank: number): number => (
+  sorted[Math.max(Math.ceil((rank / 100) * sorted.length) - 1, 0)]
+);
+
+const toStats = (reports: UserTimingReport[]): UserTimingStats => {
+  const durations = reports.map(report => report.duration).sort((a, b) => a - b);
+  return {
+    count: durations.length,
+    min: durations[0],
+    max: durations[durations.length - 1],
+    mean: durations.reduce((sum, duration) => sum + duration, 0) / durations.length,
+    p50: percentile(durations, 50),
+    p75: percentile(durations, 75),
+    p95: percentile(durations, 95),
+    reports,
+  };
+};
+
+/**
+ * Collection and aggregator for UserTimingReport instances.
+ *
+ * Keeps every mark and measure and summarizes the duration of the measures by name.
+ */
+export class UserTimingCollection extends ReportCollection<UserTimingReport> {
+  public readonly kind = REPORT_KINDS.USER_TIMING_COLLECTION;
+
+  private constructor(data: UserTimingCollectionData) {
+    super(data);
+    Object.freeze(this);
+  }
+
+  public static create(data: UserTimingCollectionData): UserTimingCollection {
+    return new UserTimingCollection(data);
+  }
+
+  /**
+   * Rehydrates a UserTimingCollection and its reports from its toJSON() output.
+   * Statistics are recomputed from the reports.
+   */
+  public static fromJSON(json: unknown): UserTimingCollection {
+    const record = readReportPayload(json, REPORT_KINDS.USER_TIMING_COLLECTION);
+    return new UserTimingCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', UserTimingReport.fromJSON),
+    });
+  }
+
+  public static fromUserTimingReports(id: string, reports: UserTimingReport[]): UserTimingCollection {
+    return new UserTimingCollection({
+      id,
+      createdAt: PerformanceTime.now(),
+      reports,
+    });
+  }
+
+  public get marks(): UserTimingReport[] {
+    return this.reports.filter(report => !report.isMeasure);
+  }
+
+  public get measures(): UserTimingReport[] {
+    return this.reports.filter(report => report.isMeasure);
+  }
+
+  /**
+   * Duration statistics of the measures, by measure name.
+   */
+  public get statsByName(): Record<string, UserTimingStats> {
+    return Object.fromEntries(this.statsMap());
+  }
+
+  /**
+   * Duration statistics of the measures with the given name, or null if none was recorded.
+   */
+  public statsOf(name: string): UserTimingStats | null {
+    return this.statsMap().get(name) ?? null;
+  }
+
+  /**
+   * Measure names are set by the page, so they are grouped in a Map: names such as
+   * `constructor` or `__proto__` must not collide with Object.prototype.
+   */
+  private statsMap(): Map<string, UserTimingStats> {
+    const byName = new Map<string, UserTimingReport[]>();
+    this.measures.forEach(measure => {
+      const reports = byName.get(measure.name) ?? [];
+      reports.push(measure);
+      byName.set(measure.name, reports);
+    });
+
+    return new Map(Array.from(byName, ([name, reports]) => [name, toStats(reports)]));
+  }
+
+  toString(): string {
+    return `UserTimingCollection: ${this.marks.length} marks, ${this.measures.length} measures`;
+  }
+
+  toJSON(): SerializedUserTimingCollection {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      totalReports: this.totalReports,
+      reports: this.reports.map(report => report.toJSON()),
+      statsByName: Object.fromEntries(
+        Object.entries(this.statsByName).map(([name, { reports, ...stats }]) => [
+          name,
+          { ...stats, reportIds: reports.map(report => report.id) },
+        ])
+      ),
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { UserTimingReportMothers } from '@/test/mothers/UserTimingReportMothers';
+import { InvalidFieldException } from '@/exceptions/SerializationExceptions';
+
+import { UserTimingReport } from './UserTimingReport';
+
+describe('UserTimingReport', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should span a measure from its start to its end', () => {
+    // When
+    const report = UserTimingReportMothers.checkoutRender();
+
+    // Then
+    expect(report.name).toBe('checkout:render');
+    expect(report.entryType).toBe('measure');
+    expect(report.isMeasure).toBe(true);
+    expect(report.segment.start.relativeTime).toBe(1200);
+    expect(report.segment.end.relativeTime).toBe(1540);
+    expect(report.duration).toBe(340);
+    expect(report.occurredAt).toBe(report.segment.start);
+    expect(report.detail).toEqual({ step: 'payment', items: 3 });
+  });
+
+  it('should report marks as instants', () => {
+    // When
+    const report = UserTimingReportMothers.mark('checkout:start', 800);
+
+    // Then
+    expect(report.entryType).toBe('mark');
+    expect(report.duration).toBe(0);
+    expect(report.segment.isEmpty).toBe(true);
+  });
+
+  it('should clamp measures that end before they start', () => {
+    // When
+    const report = UserTimingReportMothers.measure('checkout:render', 1200, -50);
+
+    // Then
+    expect(report.duration).toBe(0);
+  });
+
+  it('should drop details that cannot be serialized', () => {
+    // Given
+    const detail: Record<string, unknown> = {};
+    detail.self = detail;
+
+    // When
+    const report = UserTimingReportMothers.measure('checkout:render', 1200, 10, detail);
+
+    // Then
+    expect(report.detail).toBeNull();
+    expect(() => JSON.stringify(report)).not.toThrow();
+  });
+
+  it('should serialize the segment and detail and rehydrate an equal report', () => {
+    // Given
+    const report = UserTimingReportMothers.checkoutRender();
+
+    // When
+    const json = JSON.parse(JSON.stringify(report));
+    const rehydrated = UserTimingReport.fromJSON(json);
+
+    // Then
+    expect(json).toMatchObject({
+      kind: 'performance.user-timing',
+      entryType: 'measure',
+      duration: 340,
+      segment: report.segment.toJSON(),
+      detail: { step: 'payment', items: 3 },
+    });
+    expect(rehydrated.toJSON()).toEqual(report.toJSON());
+  });
+
+  it('should reject payloads with an unknown entry type', () => {
+    // Given
+    const json = { ...UserTimingReportMothers.checkoutRender().toJSON(), entryType: 'resource' };
+
+    // Then
+    expect(() => UserTimingReport.fromJSON(json)).toThrow(InvalidFieldException);
+  });
+});
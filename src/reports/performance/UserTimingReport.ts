@@ -0,0 +1,143 @@
+import type { Report } from '@/reports/Report';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedUserTimingReport } from '@/types/SerializedReports';
+import { USER_TIMING_ENTRY_TYPES, type UserTimingEntryType } from '@/types/PerformanceEntryTypes';
+import { readOneOf, readReportPayload, readSegment, readString, readTime } from '@/shared/deserialization';
+
+interface UserTimingData {
+  id: string;
+  createdAt: PerformanceTime;
+  name: string;
+  entryType: UserTimingEntryType;
+  /** Time span of the measure, empty for marks */
+  segment: TimeSegment;
+  /** Value passed as `detail` to performance.mark() or performance.measure() */
+  detail?: unknown;
+}
+
+/**
+ * Copies the detail as a JSON value. Details that cannot be serialized
+ * (circular structures, BigInt) are dropped.
+ */
+const toJSONDetail = (detail: unknown): unknown => {
+  if (detail === undefined || detail === null) return null;
+  try {
+    return JSON.parse(JSON.stringify(detail)) ?? null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Report for User Timing API entries (performance.mark and performance.measure).
+ *
+ * Marks are instants and have an empty segment. Measures span from their start
+ * to their end mark; measures whose end precedes their start are clamped to an
+ * empty segment.
+ */
+export class UserTimingReport implements Report {
+  public readonly kind = REPORT_KINDS.USER_TIMING;
+  public readonly id: string;
+  public readonly createdAt: PerformanceTime;
+  public readonly occurredAt: PerformanceTime;
+  public readonly name: string;
+  public readonly entryType: UserTimingEntryType;
+  public readonly segment: TimeSegment;
+  public readonly detail: unknown;
+
+  private constructor(data: UserTimingData) {
+    this.id = data.id;
+    this.createdAt = data.createdAt;
+    this.occurredAt = data.segment.start;
+    this.name = data.name;
+    this.entryType = data.entryType;
+    this.segment = data.segment;
+    this.detail = toJSONDetail(data.detail);
+
+    Object.freeze(this);
+  }
+
+  /**
+   * Creates a UserTimingReport from provided data.
+   */
+  public static create(data: UserTimingData): UserTimingReport {
+    return new UserTimingReport(data);
+  }
+
+  /**
+   * Rehydrates a UserTimingReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): UserTimingReport {
+    const record = readReportPayload(json, REPORT_KINDS.USER_TIMING);
+    return new UserTimingReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      name: readString(record, 'name'),
+      entryType: readOneOf(record, 'entryType', Object.values(USER_TIMING_ENTRY_TYPES)),
+      segment: readSegment(record, 'segment'),
+      detail: record.detail,
+    });
+  }
+
+  /**
+   * Creates a UserTimingReport from a PerformanceMark or PerformanceMeasure entry.
+   */
+  public static fromPerformanceEntry(
+    id: string,
+    entry: PerformanceMark | PerformanceMeasure
+  ): UserTimingReport {
+    const entryType = entry.entryType === USER_TIMING_ENTRY_TYPES.MEASURE
+      ? USER_TIMING_ENTRY_TYPES.MEASURE
+      : USER_TIMING_ENTRY_TYPES.MARK;
+    const duration = entryType === USER_TIMING_ENTRY_TYPES.MEASURE ? Math.max(entry.duration, 0) : 0;
+
+    return new UserTimingReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      name: entry.name,
+      entryType,
+      segment: TimeSegment.fromTiming(entry.startTime, entry.startTime + duration),
+      detail: entry.detail,
+    });
+  }
+
+  /**
+   * Duration of the measure (0 for marks).
+   */
+  public get duration(): number {
+    return this.segment.duration;
+  }
+
+  public get isMeasure(): boolean {
+    return this.entryType === USER_TIMING_ENTRY_TYPES.MEASURE;
+  }
+
+  /**
+   * String representation of the user timing entry.
+   */
+  public toString(): string {
+    return this.isMeasure
+      ? `Measure "${this.name}": ${this.duration}ms at ${this.occurredAt.relativeTime}ms`
+      : `Mark "${this.name}" at ${this.occurredAt.relativeTime}ms`;
+  }
+
+  /**
+   * JSON representation for serialization.
+   */
+  public toJSON(): SerializedUserTimingReport {
+    return {
+      id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
+      createdAt: this.createdAt.absoluteTime,
+      occurredAt: this.occurredAt.absoluteTime,
+      name: this.name,
+      entryType: this.entryType,
+      duration: this.duration,
+      segment: this.segment.toJSON(),
+      detail: this.detail,
+    };
+  }
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { CLSReportMothers } from '@/test/mothers/CLSReportMothers';
+
+import { CLSCollection } from './CLSCollection';
+
+const windowIds = (collection: CLSCollection) =>
+  collection.sessionWindows.map(window => window.reports.map(report => report.id));
+
+describe('CLSCollection', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should report zero without session windows when there are no shifts', () => {
+    // When
+    const collection = CLSCollection.create('cls', []);
+
+    // Then
+    expect(collection.value).toBe(0);
+    expect(collection.sessionWindows).toEqual([]);
+    expect(collection.worstSessionWindow).toBeNull();
+    expect(collection.rating).toBe('GOOD');
+  });
+
+  it('should start a new session window after a gap of 1s', () => {
+    // Given
+    const reports = [
+      CLSReportMothers.shiftAt(100, 0.05),
+      CLSReportMothers.shiftAt(900, 0.05),
+      CLSReportMothers.shiftAt(1900, 0.02),
+    ];
+
+    // When
+    const collection = CLSCollection.create('cls', reports);
+
+    // Then
+    expect(windowIds(collection)).toEqual([['cls-100', 'cls-900'], ['cls-1900']]);
+  });
+
+  it('should close a session window once it spans 5s', () => {
+    // Given
+    const reports = [0, 800, 1600, 2400, 3200, 4000, 4800, 5600].map(time => CLSReportMothers.shiftAt(time, 0.01));
+
+    // When
+    const collection = CLSCollection.create('cls', reports);
+
+    // Then
+    expect(collection.sessionWindows.map(window => window.reports.length)).toEqual([7, 1]);
+    expect(collection.sessionWindows[0].span.duration).toBe(4800);
+  });
+
+  it('should report the worst session window as the CLS value', () => {
+    // Given
+    const reports = [
+      CLSReportMothers.shiftAt(100, 0.08),
+      CLSReportMothers.shiftAt(10_000, 0.06),
+      CLSReportMothers.shiftAt(10_500, 0.06),
+      CLSReportMothers.shiftAt(30_000, 0.09),
+    ];
+
+    // When
+    const collection = CLSCollection.create('cls', reports);
+
+    // Then
+    expect(collection.value).toBeCloseTo(0.12);
+    expect(collection.cumulativeShiftScore).toBeCloseTo(0.29);
+    expect(collection.worstSessionWindow).toBe(collection.sessionWindows[1]);
+    expect(collection.rating).toBe('NEEDS_IMPROVEMENT');
+    expect(collection.isPoor).toBe(false);
+  });
+
+  it('should group shifts in chronological order', () => {
+    // Given
+    const reports = [
+      CLSReportMothers.shiftAt(5000, 0.01),
+      CLSReportMothers.shiftAt(100, 0.01),
+      CLSReportMothers.shiftAt(600, 0.01),
+    ];
+
+    // When
+    const collection = CLSCollection.create('cls', reports);
+
+    // Then
+    expect(windowIds(collection)).toEqual([['cls-100', 'cls-600'], ['cls-5000']]);
+  });
+
+  it('should serialize the session windows and recompute them when rehydrated', () => {
+    // Given
+    const collection = CLSCollection.create('cls', [
+      CLSReportMothers.shiftAt(100, 0.05),
+      CLSReportMothers.shiftAt(3000, 0.2),
+    ]);
+
+    // When
+    const json = JSON.parse(JSON.stringify(collection));
+    const rehydrated = CLSCollection.fromJSON(json);
+
+    // Then
+    expect(json.value).toBe(0.2);
+    expect(json.worstSessionWindowIndex).toBe(1);
+    expect(json.sessionWindows).toEqual([
+      { value: 0.05, span: collection.sessionWindows[0].span.toJSON(), reportIds: ['cls-100'] },
+      { value: 0.2, span: collection.sessionWindows[1].span.toJSON(), reportIds: ['cls-3000'] },
+    ]);
+    expect(rehydrated.toJSON()).toEqual(collection.toJSON());
+  });
+});
@@ -1,15 +1,103 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
 import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
 import type { WebVitalRating, WebVitalRatingInfo } from './WebVitalReport';
-import type { CLSReport } from './CLSReport';
+import { CLSReport } from './CLSReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedCLSCollection, SerializedCLSSessionWindow } from '@/types/SerializedReports';
+import { readArray, readReportPayload, readString, readTime } from '@/shared/deserialization';
 
 export type CLSCollectionData = ReportCollectionData<CLSReport>;
 
+/**
+ * Maximum gap between two consecutive shifts of the same session window (ms).
+ */
+export const CLS_SESSION_GAP = 1000;
+
+/**
+ * Maximum duration of a session window, measured from its first shift (ms).
+ */
+export const CLS_SESSION_MAX_DURATION = 5000;
+
+/**
+ * Burst of layout shifts happening close to each other.
+ */
+export interface CLSSessionWindow {
+  /** Sum of the shift values in the window */
+  readonly value: number;
+  /** Shifts in the window, in chronological order */
+  readonly reports: readonly CLSReport[];
+  /** Span from the first to the last shift of the window */
+  readonly span: TimeSegment;
+}
+
+const createSessionWindow = (reports: CLSReport[]): CLSSessionWindow => Object.freeze({
+  value: reports.reduce((total, report) => total + report.value, 0),
+  reports: Object.freeze(reports),
+  span: TimeSegment.create({
+    start: reports[0].occurredAt,
+    end: reports[reports.length - 1].occurredAt,
+  }),
+});
+
+/**
+ * Groups shifts into session windows: a window ends when the next shift happens more
+ * than 1s after the previous one, or more than 5s after the first shift of the window.
+ */
+const toSessionWindows = (reports: readonly CLSReport[]): CLSSessionWindow[] => {
+  const chronological = [...reports].sort((a, b) => a.occurredAt.absoluteTime - b.occurredAt.absoluteTime);
+  const windows: CLSReport[][] = [];
+
+  for (const report of chronological) {
+    const current = windows.at(-1);
+    const time = report.occurredAt.absoluteTime;
+
+    if (
+      current
+      && time - current[current.length - 1].occurredAt.absoluteTime < CLS_SESSION_GAP
+      && time - current[0].occurredAt.absoluteTime < CLS_SESSION_MAX_DURATION
+    ) {
+      current.push(report);
+    }
+    else {
+      windows.push([report]);
+    }
+  }
+
+  return windows.map(createSessionWindow);
+};
+
+const toSerializedSessionWindow = (window: CLSSessionWindow): SerializedCLSSessionWindow => ({
+  value: window.value,
+  span: window.span.toJSON(),
+  reportIds: window.reports.map(report => report.id),
+});
+
+/**
+ * Layout shifts of a page, grouped into session windows as defined by Web Vitals.
+ */
 export class CLSCollection extends ReportCollection<CLSReport> implements WebVitalRatingInfo {
+  public readonly kind = REPORT_KINDS.CLS_COLLECTION;
+
+  /**
+   * The CLS value: score of the worst session window (0 when there are no shifts).
+   */
+  public readonly value: number;
+
   /**
-   * The cumulative layout shift score for the collection, calculated by summing the values of all CLS reports.
+   * Raw sum of every layout shift over the page lifetime, regardless of session windows.
    */
   public readonly cumulativeShiftScore: number;
+
+  /**
+   * Layout shifts grouped into session windows, in chronological order.
+   */
+  public readonly sessionWindows: readonly CLSSessionWindow[];
+
+  /**
+   * Session window with the highest score, the one that defines the CLS value.
+   */
+  public readonly worstSessionWindow: CLSSessionWindow | null;
   
   /**
    * Threshold below which the CLS score is considered "Good".
@@ -23,6 +111,12 @@ export class CLSCollection extends ReportCollection<CLSReport> implements WebVit
   private constructor(data: CLSCollectionData) {
     super(data);
     this.cumulativeShiftScore = this.reports.reduce((total, report) => total + report.value, 0);
+    this.sessionWindows = Object.freeze(toSessionWindows(this.reports));
+    this.worstSessionWindow = this.sessionWindows.reduce<CLSSessionWindow | null>(
+      (worst, window) => (worst && worst.value >= window.value ? worst : window),
+      null
+    );
+    this.value = this.worstSessionWindow?.value ?? 0;
     Object.freeze(this);
   }
 
@@ -35,14 +129,27 @@ export class CLSCollection extends ReportCollection<CLSReport> implements WebVit
   }
 
   /**
-   * The overall rating for the CLS collection based on the cumulative shift score.
+   * Rehydrates a CLSCollection and its reports from its toJSON() output.
+   * Session windows are recomputed from the reports.
+   */
+  public static fromJSON(json: unknown): CLSCollection {
+    const record = readReportPayload(json, REPORT_KINDS.CLS_COLLECTION);
+    return new CLSCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', CLSReport.fromJSON),
+    });
+  }
+
+  /**
+   * The overall rating for the CLS collection based on the worst session window.
    * - "GOOD" if the score is less than 0.1
    * - "NEEDS_IMPROVEMENT" if the score is between 0.1 and 0.25
    * - "POOR" if the score is 0.25 or higher
    */
   public get rating(): WebVitalRating {
-    if (this.cumulativeShiftScore < 0.1) return 'GOOD';
-    if (this.cumulativeShiftScore < 0.25) return 'NEEDS_IMPROVEMENT';
+    if (this.value < 0.1) return 'GOOD';
+    if (this.value < 0.25) return 'NEEDS_IMPROVEMENT';
     return 'POOR';
   }
 
@@ -50,7 +157,7 @@ export class CLSCollection extends ReportCollection<CLSReport> implements WebVit
    * Indicates if the CLS performance is considered "Good".
    */
   public get isGood(): boolean {
-    return this.cumulativeShiftScore < this.goodThreshold;
+    return this.value < this.goodThreshold;
   }
 
   /**
@@ -58,8 +165,8 @@ export class CLSCollection extends ReportCollection<CLSReport> implements WebVit
    */
   public get isNeedsImprovement(): boolean {
     return (
-      this.cumulativeShiftScore >= this.goodThreshold
-      && this.cumulativeShiftScore < this.poorThreshold
+      this.value >= this.goodThreshold
+      && this.value < this.poorThreshold
     );
   }
 
@@ -67,19 +174,26 @@ export class CLSCollection extends ReportCollection<CLSReport> implements WebVit
    * Indicates if the CLS performance is considered "Poor".
    */
   public get isPoor(): boolean {
-    return this.cumulativeShiftScore >= this.poorThreshold;
+    return this.value >= this.poorThreshold;
   }
 
   toString(): string {
-    return `CLSCollection: { id: ${this.id}, createdAt: ${this.createdAt.absoluteTime}, totalReports: ${this.totalReports} }`;
+    return `CLSCollection: { id: ${this.id}, createdAt: ${this.createdAt.absoluteTime}, totalReports: ${this.totalReports}, value: ${this.value} }`;
   }
 
-  toJSON() {
+  toJSON(): SerializedCLSCollection {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
-      reports: this.reports,
+      reports: this.reports.map(report => report.toJSON()),
+      value: this.value,
       cumulativeShiftScore: this.cumulativeShiftScore,
+      sessionWindows: this.sessionWindows.map(toSerializedSessionWindow),
+      worstSessionWindowIndex: this.worstSessionWindow
+        ? this.sessionWindows.indexOf(this.worstSessionWindow)
+        : null,
     };
   }
 }
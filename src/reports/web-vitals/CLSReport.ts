@@ -1,6 +1,10 @@
 import type { LayoutShiftAttributionEntry, LayoutShiftEntry } from '@/types/PerformanceEntryTypes';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import type { Report } from '../Report';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedCLSReport, SerializedRect } from '@/types/SerializedReports';
+import { readNumber, readReportPayload, readString, readTime } from '@/shared/deserialization';
+import { describeElement } from '@/shared/describeElement';
 
 export interface CLSReportData {
   id: string;
@@ -10,10 +14,15 @@ export interface CLSReportData {
   sources: LayoutShiftAttributionEntry[];
 }
 
+const toSerializedRect = ({ x, y, width, height }: DOMRectReadOnly): SerializedRect => ({
+  x, y, width, height
+});
+
 /**
  * Cumulative Layout Shift (CLS) report for measuring visual stability.
  */
 export class CLSReport implements Report {
+  public readonly kind = REPORT_KINDS.CLS;
   public readonly id: string;
   public readonly createdAt: PerformanceTime;
   public readonly occurredAt: PerformanceTime;
@@ -33,6 +42,21 @@ export class CLSReport implements Report {
     return new CLSReport(data);
   }
 
+  /**
+   * Rehydrates a CLSReport from its toJSON() output.
+   * Attribution sources reference DOM nodes that cannot be serialized, so they are not restored.
+   */
+  public static fromJSON(json: unknown): CLSReport {
+    const record = readReportPayload(json, REPORT_KINDS.CLS);
+    return new CLSReport({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      occurredAt: readTime(record, 'occurredAt'),
+      value: readNumber(record, 'value'),
+      sources: [],
+    });
+  }
+
   public static fromLayoutShiftEntry(id: string, entry: LayoutShiftEntry): CLSReport {
     const data: CLSReportData = {
       id,
@@ -48,13 +72,19 @@ export class CLSReport implements Report {
     return `${this.constructor.name}: ${this.value}`;
   }
 
-  public toJSON() {
+  public toJSON(): SerializedCLSReport {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
-      occurredAt: this.occurredAt.relativeTime,
+      occurredAt: this.occurredAt.absoluteTime,
       value: this.value,
-      sources: this.sources,
+      sources: this.sources.map(source => ({
+        node: describeElement(source.node),
+        previousRect: toSerializedRect(source.previousRect),
+        currentRect: toSerializedRect(source.currentRect),
+      })),
     };
   }
 }
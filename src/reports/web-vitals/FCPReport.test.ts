@@ -64,6 +64,31 @@ describe('FCPReport', () => {
         expect(report.createdAt.relativeTime).toBe(performance.timeOrigin);
       });
     });
+
+    describe('when the page was prerendered', () => {
+      it('should measure the value from the activation', () => {
+        // Given
+        const paintEntry = PerformancePaintTimingMother.withCustomValues({ startTime: 1600 });
+
+        // When
+        const report = FCPReport.fromPerformancePaintTiming('fcp-prerendered', paintEntry, 1200);
+
+        // Then
+        expect(report.value).toBe(400);
+        expect(report.occurredAt.relativeTime).toBe(1600);
+      });
+
+      it('should be 0 when the page was painted while prerendering', () => {
+        // Given
+        const paintEntry = PerformancePaintTimingMother.withCustomValues({ startTime: 900 });
+
+        // When
+        const report = FCPReport.fromPerformancePaintTiming('fcp-prerendered', paintEntry, 1200);
+
+        // Then
+        expect(report.value).toBe(0);
+      });
+    });
   });
 
   describe('rating system', () => {
@@ -108,6 +133,8 @@ describe('FCPReport', () => {
       // Then
       expect(result).toEqual({
         id: 'fcp-needs-improvement',
+        kind: 'web-vital.fcp',
+        schemaVersion: 1,
         name: WEB_VITALS.FIRST_CONTENTFUL_PAINT,
         value: 2400,
         createdAt: report.createdAt.absoluteTime,
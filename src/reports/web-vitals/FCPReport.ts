@@ -1,6 +1,9 @@
 import type { WebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
-import { WebVitalReport } from '@/reports/web-vitals/WebVitalReport';
+import { WebVitalReport, readWebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS } from '@/types/ReportKinds';
+import { readReportPayload } from '@/shared/deserialization';
+import { relativeToActivation } from '@/shared/PageLifecycle';
 
 /**
  * First Contentful Paint (FCP) report for measuring loading performance.
@@ -9,12 +12,15 @@ import { PerformanceTime } from '@/value-objects/PerformanceTime';
  * content is rendered on the screen. This includes text, images, SVG elements, or canvas
  * elements with non-white background colors.
  * 
+ * On prerendered pages FCP is measured from the activation of the page.
+ * 
  * Thresholds:
  * - Good: < 1.8s
  * - Needs Improvement: 1.8s - 3.0s  
  * - Poor: >= 3.0s
  */
 export class FCPReport extends WebVitalReport {
+  public readonly kind = REPORT_KINDS.FCP;
   public readonly name = 'FIRST_CONTENTFUL_PAINT';
   public readonly goodThreshold = 1800;
   public readonly poorThreshold = 3000;
@@ -28,13 +34,43 @@ export class FCPReport extends WebVitalReport {
     return new FCPReport(data);
   }
 
-  public static fromPerformancePaintTiming(id: string, entry: PerformancePaintTiming): FCPReport {
+  /**
+   * Rehydrates an FCPReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): FCPReport {
+    const record = readReportPayload(json, REPORT_KINDS.FCP);
+    return new FCPReport(readWebVitalReportDTO(record));
+  }
+
+  /**
+   * Creates a report from a first-contentful-paint entry.
+   *
+   * @param activationStart - Activation time of a prerendered page, the value is measured from it
+   */
+  public static fromPerformancePaintTiming(
+    id: string,
+    entry: PerformancePaintTiming,
+    activationStart = 0
+  ): FCPReport {
     const data: WebVitalReportDTO = {
       id,
       createdAt: PerformanceTime.now(),
       occurredAt: PerformanceTime.fromRelativeTime(entry.startTime),
-      value: entry.startTime,
+      value: relativeToActivation(entry.startTime, activationStart),
     };
     return new FCPReport(data);
   }
+
+  /**
+   * Creates a report for a page restored from the back/forward cache: FCP is the
+   * time from the restore until the next frame was painted.
+   */
+  public static fromBFCacheRestore(id: string, restoredAt: PerformanceTime, paintedAt: PerformanceTime): FCPReport {
+    return new FCPReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: paintedAt,
+      value: Math.max(paintedAt.relativeTime - restoredAt.relativeTime, 0),
+    });
+  }
 }
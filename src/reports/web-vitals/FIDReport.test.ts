@@ -113,6 +113,8 @@ describe('FIDReport', () => {
       // Then
       expect(result).toEqual({
         id: 'fid-needs-improvement',
+        kind: 'web-vital.fid',
+        schemaVersion: 1,
         name: WEB_VITALS.FIRST_INPUT_DELAY,
         value: 200,
         createdAt: report.createdAt.absoluteTime,
@@ -1,6 +1,8 @@
 import type { WebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
-import { WebVitalReport } from '@/reports/web-vitals/WebVitalReport';
+import { WebVitalReport, readWebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS } from '@/types/ReportKinds';
+import { readReportPayload } from '@/shared/deserialization';
 
 /**
  * First Input Delay (FID) report for measuring interactivity.
@@ -15,6 +17,7 @@ import { PerformanceTime } from '@/value-objects/PerformanceTime';
  * - Poor: >= 300ms
  */
 export class FIDReport extends WebVitalReport {
+  public readonly kind = REPORT_KINDS.FID;
   public readonly name = 'FIRST_INPUT_DELAY';
   public readonly goodThreshold = 100;
   public readonly poorThreshold = 300;
@@ -28,6 +31,14 @@ export class FIDReport extends WebVitalReport {
     return new FIDReport(data);
   }
 
+  /**
+   * Rehydrates an FIDReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): FIDReport {
+    const record = readReportPayload(json, REPORT_KINDS.FID);
+    return new FIDReport(readWebVitalReportDTO(record));
+  }
+
   public static fromPerformanceEventTiming(id: string, entry: PerformanceEventTiming): FIDReport {
     const data: WebVitalReportDTO = {
       id,
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { INPReportMothers } from '@/test/mothers/INPReportMothers';
+
+import { INPCollection } from './INPCollection';
+
+const interactions = (...values: number[]) =>
+  values.map((value, index) => INPReportMothers.withValue(value, 'click', index + 1));
+
+describe('INPCollection', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+  });
+
+  it('should not select an interaction when there are none', () => {
+    // When
+    const collection = INPCollection.create('inp', []);
+
+    // Then
+    expect(collection.selectedInteraction).toBeNull();
+    expect(collection.interactionCount).toBe(0);
+  });
+
+  it('should select the slowest interaction below 50 interactions', () => {
+    // When
+    const collection = INPCollection.create('inp', interactions(120, 480, 90));
+
+    // Then
+    expect(collection.selectedInteraction?.value).toBe(480);
+    expect(collection.percentile98).toBe(collection.selectedInteraction);
+  });
+
+  it('should ignore one of the slowest interactions per 50 interactions', () => {
+    // Given
+    const reports = interactions(900, 700, 300, ...Array<number>(97).fill(40));
+
+    // When
+    const collection = INPCollection.create('inp', reports);
+
+    // Then
+    expect(collection.interactionCount).toBe(100);
+    expect(collection.selectedInteraction?.value).toBe(300);
+  });
+
+  it('should count interactions that were not reported', () => {
+    // When
+    const collection = INPCollection.create('inp', interactions(900, 250), 60);
+
+    // Then
+    expect(collection.interactionCount).toBe(60);
+    expect(collection.selectedInteraction?.value).toBe(250);
+  });
+
+  it('should serialize the interaction count and the selected interaction', () => {
+    // Given
+    const collection = INPCollection.create('inp', interactions(900, 250), 60);
+
+    // When
+    const json = JSON.parse(JSON.stringify(collection));
+    const rehydrated = INPCollection.fromJSON(json);
+
+    // Then
+    expect(json).toMatchObject({ interactionCount: 60, selectedInteractionId: 'inp-2' });
+    expect(rehydrated.toJSON()).toEqual(collection.toJSON());
+  });
+
+  it('should report the phase with the largest total duration', () => {
+    // Given
+    const reports = [
+      INPReportMothers.withPhases(200, 40, 20, 1),
+      INPReportMothers.withPhases(10, 30, 150, 2),
+      INPReportMothers.withPhases(20, 40, 120, 3),
+    ];
+
+    // When
+    const collection = INPCollection.create('inp', reports);
+
+    // Then
+    expect(collection.dominantPhase).toBe('presentationDelay');
+    expect(collection.selectedInteraction?.dominantPhase).toBe('inputDelay');
+    expect(collection.toJSON().dominantPhase).toBe('presentationDelay');
+  });
+});
@@ -1,13 +1,44 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
-import type { INPReport } from './INPReport';
+import { INPReport } from './INPReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import { INP_PHASES, type INPPhase } from '@/types/WebVitals';
+import type { SerializedINPCollection } from '@/types/SerializedReports';
+import { readArray, readNumber, readReportPayload, readString, readTime } from '@/shared/deserialization';
 
-export type INPCollectionData = ReportCollectionData<INPReport>;
+export interface INPCollectionData extends ReportCollectionData<INPReport> {
+  /** Interactions on the page, including those too fast to be reported */
+  interactionCount: number;
+}
 
+/**
+ * One of the slowest interactions is ignored for every 50 interactions on the page.
+ */
+const INTERACTIONS_PER_IGNORED_OUTLIER = 50;
+
+/**
+ * Interactions of a page, one report per interaction.
+ *
+ * The INP value is the slowest interaction once outliers are ignored: for every 50
+ * interactions on the page, the slowest remaining one is skipped.
+ */
 export class INPCollection extends ReportCollection<INPReport> {
+  public readonly kind = REPORT_KINDS.INP_COLLECTION;
+
   /**
-   * The 98th percentile INP report in the collection.
-   * This provides a more stable measure of interaction performance by excluding outliers.
+   * Number of interactions on the page. It can be higher than totalReports when the
+   * browser exposes interactions shorter than the observed duration threshold.
+   */
+  public readonly interactionCount: number;
+
+  /**
+   * Interaction defining the INP value. Returns null if the collection is empty.
+   */
+  public readonly selectedInteraction: INPReport | null;
+
+  /**
+   * Interaction defining the INP value.
+   * @deprecated Use selectedInteraction instead, INP is no longer a raw 98th percentile.
    */
   public readonly percentile98: INPReport | null;
 
@@ -15,32 +46,70 @@ export class INPCollection extends ReportCollection<INPReport> {
    *  The worst INP report in the collection based on the highest value.
    *  Returns null if the collection is empty.
    * 
-   *  Note: For a more stable metric, consider using the 98th percentile report instead.
-   * @see percentile98
+   *  Note: For the INP value, use the selected interaction instead.
+   * @see selectedInteraction
    */
   public readonly worstReport: INPReport | null;
 
+  /**
+   * Phase with the largest total duration across every interaction, showing whether
+   * responsiveness is mostly limited by a busy main thread (input delay), slow
+   * event handlers (processing time) or slow rendering (presentation delay).
+   * Returns null if the collection is empty.
+   */
+  public readonly dominantPhase: INPPhase | null;
+
   private constructor(data: INPCollectionData) {
     super(data);
-    this.percentile98 = this.getPercentile98();
+    this.interactionCount = Math.max(data.interactionCount, this.totalReports);
+    this.selectedInteraction = this.getSelectedInteraction();
+    this.percentile98 = this.selectedInteraction;
+    this.dominantPhase = this.getDominantPhase();
     this.worstReport = this.getWorstReport();
     Object.freeze(this);
   }
 
-  public static create(id: string, reports: INPReport[]): INPCollection {
+  /**
+   * @param interactionCount - Interactions on the page (default: the number of reports)
+   */
+  public static create(id: string, reports: INPReport[], interactionCount = reports.length): INPCollection {
     return new INPCollection({
       id,
       createdAt: PerformanceTime.now(),
-      reports
+      reports,
+      interactionCount,
     });
   }
 
-  private getPercentile98(): INPReport | null {
+  /**
+   * Rehydrates an INPCollection and its reports from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): INPCollection {
+    const record = readReportPayload(json, REPORT_KINDS.INP_COLLECTION);
+    return new INPCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', INPReport.fromJSON),
+      interactionCount: readNumber(record, 'interactionCount'),
+    });
+  }
+
+  private getSelectedInteraction(): INPReport | null {
     if (this.isEmpty) return null;
-    
-    const sorted = this.reports.toSorted((a, b) => a.value - b.value);
-    const index = Math.floor(sorted.length * 0.98);
-    return sorted[index] || sorted[sorted.length - 1];
+
+    const slowestFirst = this.reports.toSorted((a, b) => b.value - a.value);
+    const ignoredOutliers = Math.floor(this.interactionCount / INTERACTIONS_PER_IGNORED_OUTLIER);
+    return slowestFirst[Math.min(ignoredOutliers, slowestFirst.length - 1)];
+  }
+
+  private getDominantPhase(): INPPhase | null {
+    if (this.isEmpty) return null;
+
+    const totalDuration = (phase: INPPhase) =>
+      this.reports.reduce((total, report) => total + report[phase].duration, 0);
+    return Object.values(INP_PHASES).reduce((dominant, phase) =>
+      totalDuration(phase) > totalDuration(dominant) ? phase : dominant
+    );
   }
 
   private getWorstReport(): INPReport | null {
@@ -52,14 +121,19 @@ export class INPCollection extends ReportCollection<INPReport> {
   }
 
   toString(): string {
-    return `INPCollection: { id: ${this.id}, createdAt: ${this.createdAt.absoluteTime}, totalReports: ${this.totalReports} }`;
+    return `INPCollection: { id: ${this.id}, createdAt: ${this.createdAt.absoluteTime}, totalReports: ${this.totalReports}, interactionCount: ${this.interactionCount} }`;
   }
 
-  toJSON() {
+  toJSON(): SerializedINPCollection {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
-      reports: this.reports,
+      reports: this.reports.map(report => report.toJSON()),
+      interactionCount: this.interactionCount,
+      selectedInteractionId: this.selectedInteraction?.id ?? null,
+      dominantPhase: this.dominantPhase,
     };
   }
 }
\ No newline at end of file
@@ -4,6 +4,7 @@ import { INPReportMothers } from '@/test/mothers/INPReportMothers';
 import { PerformanceEventTimingMother } from '@/test/mothers/PerformanceEventTimingMother';
 
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
 import { RATINGS, WEB_VITALS } from '@/types/WebVitals';
 import { INPReport } from './INPReport';
 
@@ -17,7 +18,14 @@ describe('INPReport', () => {
         const eventName = 'click';
         const occurredAt = PerformanceTime.fromRelativeTime(100);
         const createdAt = PerformanceTime.fromRelativeTime(200);
-        const data = { id, value, eventName, occurredAt, createdAt };
+        const interactionId = 7;
+        const inputDelay = TimeSegment.fromTiming(100, 140);
+        const processingTime = TimeSegment.fromTiming(140, 300);
+        const presentationDelay = TimeSegment.fromTiming(300, 350);
+        const data = {
+          id, value, eventName, interactionId, occurredAt, createdAt,
+          target: 'button#buy', inputDelay, processingTime, presentationDelay
+        };
 
         // When
         const report = INPReport.create(data);
@@ -26,6 +34,10 @@ describe('INPReport', () => {
         expect(report.id).toBe(id);
         expect(report.value).toBe(value);
         expect(report.eventName).toBe(eventName);
+        expect(report.interactionId).toBe(interactionId);
+        expect(report.interactionType).toBe('pointer');
+        expect(report.target).toBe('button#buy');
+        expect(report.processingTime).toBe(processingTime);
         expect(report.name).toBe(WEB_VITALS.INTERACTION_TO_NEXT_PAINT);
         expect(report.goodThreshold).toBe(200);
         expect(report.poorThreshold).toBe(500);
@@ -47,15 +59,16 @@ describe('INPReport', () => {
 
   describe('fromPerformanceEventTimingEntry factory method', () => {
     describe('when PerformanceEventTiming entry is valid', () => {
-      it('should calculate INP value from processingEnd minus startTime', () => {
+      it('should use the entry duration as the interaction latency', () => {
         // Given
         const id = 'test-inp';
         const startTime = 1000;
-        const processingEnd = 1350;
-        const expectedINP = 350;
+        const expectedINP = 360;
         const eventEntry = PerformanceEventTimingMother.withCustomValues({ 
           startTime, 
-          processingEnd,
+          processingEnd: 1300,
+          duration: expectedINP,
+          interactionId: 42,
           name: 'click'
         });
         vi.spyOn(PerformanceTime, 'now').mockReturnValue(
@@ -68,12 +81,126 @@ describe('INPReport', () => {
         // Then
         expect(report.value).toBe(expectedINP);
         expect(report.eventName).toBe('click');
+        expect(report.interactionId).toBe(42);
         expect(report.occurredAt.relativeTime).toBe(startTime);
         expect(report.createdAt.relativeTime).toBe(performance.timeOrigin);
       });
     });
   });
 
+  describe('phase breakdown', () => {
+    it('should split the latency into input delay, processing time and presentation delay', () => {
+      // Given
+      const entry = PerformanceEventTimingMother.withCustomValues({
+        startTime: 1000,
+        processingStart: 1040,
+        processingEnd: 1200,
+        duration: 280,
+      });
+
+      // When
+      const report = INPReport.fromPerformanceEventTimingEntry('inp', entry);
+
+      // Then
+      expect(report.inputDelay.duration).toBe(40);
+      expect(report.processingTime.duration).toBe(160);
+      expect(report.presentationDelay.duration).toBe(80);
+      expect(report.dominantPhase).toBe('processingTime');
+    });
+
+    it('should keep the phases in order when the rounded duration ends before the processing', () => {
+      // Given
+      const entry = PerformanceEventTimingMother.withCustomValues({
+        startTime: 1000,
+        processingStart: 1010,
+        processingEnd: 1203,
+        duration: 200,
+      });
+
+      // When
+      const report = INPReport.fromPerformanceEventTimingEntry('inp', entry);
+
+      // Then
+      expect(report.presentationDelay.duration).toBe(0);
+      expect(report.presentationDelay.start.relativeTime).toBe(1203);
+    });
+
+    it('should span the phases across the events painted in the same frame', () => {
+      // Given
+      const click = PerformanceEventTimingMother.withCustomValues({
+        name: 'click',
+        startTime: 1000,
+        processingStart: 1060,
+        processingEnd: 1180,
+        duration: 248,
+      });
+      const pointerup = PerformanceEventTimingMother.withCustomValues({
+        name: 'pointerup',
+        startTime: 1008,
+        processingStart: 1030,
+        processingEnd: 1050,
+        duration: 240,
+      });
+
+      // When
+      const report = INPReport.fromPerformanceEventTimingEntries('inp', [pointerup, click]);
+
+      // Then
+      expect(report.value).toBe(248);
+      expect(report.eventName).toBe('click');
+      expect(report.occurredAt.relativeTime).toBe(1000);
+      expect(report.inputDelay.duration).toBe(30);
+      expect(report.processingTime.duration).toBe(150);
+      expect(report.presentationDelay.duration).toBe(68);
+      expect(report.presentationDelay.end.relativeTime).toBe(1248);
+    });
+
+    it('should leave out the events painted in other frames', () => {
+      // Given
+      const keydown = PerformanceEventTimingMother.withCustomValues({
+        name: 'keydown',
+        startTime: 1000,
+        processingStart: 1010,
+        processingEnd: 1150,
+        duration: 200,
+      });
+      const keyup = PerformanceEventTimingMother.withCustomValues({
+        name: 'keyup',
+        startTime: 1400,
+        processingStart: 1420,
+        processingEnd: 1430,
+        duration: 48,
+      });
+
+      // When
+      const report = INPReport.fromPerformanceEventTimingEntries('inp', [keydown, keyup]);
+
+      // Then
+      expect(report.value).toBe(200);
+      expect(report.eventName).toBe('keydown');
+      expect(report.inputDelay.duration).toBe(10);
+      expect(report.processingTime.duration).toBe(140);
+      expect(report.presentationDelay.duration).toBe(50);
+      expect(report.inputDelay.duration + report.processingTime.duration + report.presentationDelay.duration)
+        .toBe(report.value);
+    });
+
+    it('should describe the target and the interaction type', () => {
+      // Given
+      const target = document.createElement('input');
+      target.id = 'search';
+      const entry = PerformanceEventTimingMother.withCustomValues({ name: 'keydown', target });
+
+      // When
+      const report = INPReport.fromPerformanceEventTimingEntry('inp', entry);
+
+      // Then
+      expect(report.target).toBe('input#search');
+      expect(report.interactionType).toBe('keyboard');
+      expect(report.toJSON()).toMatchObject({ target: 'input#search', interactionType: 'keyboard' });
+    });
+  });
+
   describe('rating system', () => {
     it('should classify performance according to INP thresholds', () => {
       // Given
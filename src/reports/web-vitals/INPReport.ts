@@ -1,18 +1,50 @@
 import type { WebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
-import { WebVitalReport } from '@/reports/web-vitals/WebVitalReport';
+import { WebVitalReport, readWebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
+import { REPORT_KINDS } from '@/types/ReportKinds';
+import { INP_PHASES, INTERACTION_TYPES, type INPPhase, type InteractionType } from '@/types/WebVitals';
+import type { SerializedINPReport } from '@/types/SerializedReports';
+import type { PerformanceEventTimingEntry } from '@/types/PerformanceEntryTypes';
+import {
+  readNumber,
+  readOptionalString,
+  readReportPayload,
+  readSegment,
+  readString
+} from '@/shared/deserialization';
+import { describeElement } from '@/shared/describeElement';
 
 export interface INPReportDTO extends WebVitalReportDTO {
   eventName: string;
+  interactionId: number;
+  /** Descriptor of the interaction target (e.g. `button#buy.primary`), if available */
+  target: string | null;
+  inputDelay: TimeSegment;
+  processingTime: TimeSegment;
+  presentationDelay: TimeSegment;
 }
 
+const KEYBOARD_EVENTS = new Set(['keydown', 'keyup', 'keypress']);
+
+const toInteractionType = (eventName: string): InteractionType =>
+  KEYBOARD_EVENTS.has(eventName) ? INTERACTION_TYPES.KEYBOARD : INTERACTION_TYPES.POINTER;
+
 /**
  * Interaction to Next Paint (INP) report for measuring responsiveness.
  * 
- * INP measures the latency of all interactions that occur throughout the lifespan of a page.
- * The final INP value is the longest interaction observed, ignoring outliers. This metric
- * captures the end-to-end latency of individual events and provides a more comprehensive
- * view of overall responsiveness.
+ * Each report is a single user interaction: the events sharing an interactionId
+ * (e.g. pointerdown, pointerup and click) are grouped, and the latency is the longest
+ * event duration, from input to the next paint. The final INP value is selected among
+ * every interaction of the page by INPCollection, ignoring outliers.
+ *
+ * The phases span the events of the interaction painted in the frame of the longest one,
+ * since their handlers run before the same paint.
+ * 
+ * The latency is split into three phases:
+ * - Input delay: from the input until its handlers start running
+ * - Processing time: while the event handlers run
+ * - Presentation delay: from the end of the handlers until the next frame is painted
  * 
  * Thresholds:
  * - Good: < 200ms
@@ -20,15 +52,35 @@ export interface INPReportDTO extends WebVitalReportDTO {
  * - Poor: >= 500ms
  */
 export class INPReport extends WebVitalReport {
+  public readonly kind = REPORT_KINDS.INP;
   public readonly name = 'INTERACTION_TO_NEXT_PAINT';
   public readonly goodThreshold = 200;
   public readonly poorThreshold = 500;
 
+  /** Name of the longest event of the interaction */
   public readonly eventName: string;
+  /** Identifier shared by every event of the interaction */
+  public readonly interactionId: number;
+  /** Whether the interaction came from a pointer (click, tap) or a keyboard */
+  public readonly interactionType: InteractionType;
+  /** Descriptor of the interaction target (e.g. `button#buy.primary`), if available */
+  public readonly target: string | null;
+  /** Time from the input until its event handlers start running */
+  public readonly inputDelay: TimeSegment;
+  /** Time spent running the event handlers */
+  public readonly processingTime: TimeSegment;
+  /** Time from the end of the event handlers until the next frame is painted */
+  public readonly presentationDelay: TimeSegment;
 
   private constructor(data: INPReportDTO) {
     super(data);
     this.eventName = data.eventName;
+    this.interactionId = data.interactionId;
+    this.interactionType = toInteractionType(data.eventName);
+    this.target = data.target;
+    this.inputDelay = data.inputDelay;
+    this.processingTime = data.processingTime;
+    this.presentationDelay = data.presentationDelay;
     Object.freeze(this);
   }
 
@@ -37,25 +89,97 @@ export class INPReport extends WebVitalReport {
     return new INPReport(data);
   }
 
-  public static fromPerformanceEventTimingEntry(id: string, entry: PerformanceEventTiming): INPReport {
-    const inpValue = entry.processingEnd - entry.startTime;
+  /**
+   * Rehydrates an INPReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): INPReport {
+    const record = readReportPayload(json, REPORT_KINDS.INP);
+    return new INPReport({
+      ...readWebVitalReportDTO(record),
+      eventName: readString(record, 'eventName'),
+      interactionId: readNumber(record, 'interactionId'),
+      target: readOptionalString(record, 'target') ?? null,
+      inputDelay: readSegment(record, 'inputDelay'),
+      processingTime: readSegment(record, 'processingTime'),
+      presentationDelay: readSegment(record, 'presentationDelay'),
+    });
+  }
+
+  /**
+   * Creates the report of an interaction from a single event entry.
+   */
+  public static fromPerformanceEventTimingEntry(id: string, entry: PerformanceEventTimingEntry): INPReport {
+    return INPReport.fromPerformanceEventTimingEntries(id, [entry]);
+  }
+
+  /**
+   * Creates the report of an interaction from every event entry sharing its interactionId.
+   * The latency, event name and target are those of the longest entry, while the phases
+   * span the entries painted in its frame: input delay until the first handler starts,
+   * processing time until the last handler ends, and presentation delay until the paint.
+   * Entries painted in other frames (e.g. the keyup of a keydown) are left out, so the
+   * phases add up to the latency.
+   */
+  public static fromPerformanceEventTimingEntries(
+    id: string,
+    entries: readonly [PerformanceEventTimingEntry, ...PerformanceEventTimingEntry[]]
+  ): INPReport {
+    const longest = entries.reduce((longest, entry) => entry.duration > longest.duration ? entry : longest);
+    const frameEndTime = longest.startTime + longest.duration;
+    const frameEntries = entries.filter(entry => entry.startTime + entry.duration === frameEndTime);
+    const startTime = Math.min(...frameEntries.map(entry => entry.startTime));
+
+    // The duration is rounded to 8ms, so the phases are clamped to stay in order
+    const processingStart = Math.max(Math.min(...frameEntries.map(entry => entry.processingStart)), startTime);
+    const processingEnd = Math.max(...frameEntries.map(entry => entry.processingEnd), processingStart);
+    const paintTime = Math.max(frameEndTime, processingEnd);
+
     const data: INPReportDTO = {
       id,
       createdAt: PerformanceTime.now(),
-      occurredAt: PerformanceTime.fromRelativeTime(entry.startTime),
-      value: inpValue,
-      eventName: entry.name
+      occurredAt: PerformanceTime.fromRelativeTime(startTime),
+      value: longest.duration,
+      eventName: longest.name,
+      interactionId: longest.interactionId ?? 0,
+      target: describeElement(longest.target as Element | null),
+      inputDelay: TimeSegment.fromTiming(startTime, processingStart),
+      processingTime: TimeSegment.fromTiming(processingStart, processingEnd),
+      presentationDelay: TimeSegment.fromTiming(processingEnd, paintTime),
     };
     return new INPReport(data);
   }
 
-  public override toJSON() {
+  /**
+   * Phase taking the largest share of the interaction latency.
+   */
+  public get dominantPhase(): INPPhase {
+    return Object.values(INP_PHASES).reduce((dominant, phase) =>
+      this[phase].duration > this[dominant].duration ? phase : dominant
+    );
+  }
+
+  public override toJSON(): SerializedINPReport {
     return {
       ...super.toJSON(),
       /**
        * Name of the event associated with this INP report
        */
       eventName: this.eventName,
+      /**
+       * Identifier shared by every event of the interaction
+       */
+      interactionId: this.interactionId,
+      /**
+       * Whether the interaction came from a pointer or a keyboard
+       */
+      interactionType: this.interactionType,
+      /**
+       * Descriptor of the interaction target, the DOM element itself is never serialized
+       */
+      target: this.target,
+      inputDelay: this.inputDelay.toJSON(),
+      processingTime: this.processingTime.toJSON(),
+      presentationDelay: this.presentationDelay.toJSON(),
     };
   }
 }
@@ -1,10 +1,15 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { type ReportCollectionData, ReportCollection } from '@/reports/ReportCollection';
-import type { LCPReport } from './LCPReport';
+import { LCPReport } from './LCPReport';
+import { REPORT_KINDS, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedLCPCollection } from '@/types/SerializedReports';
+import { readArray, readReportPayload, readString, readTime } from '@/shared/deserialization';
 
 export type LCPCollectionData = ReportCollectionData<LCPReport>;
 
 export class LCPCollection extends ReportCollection<LCPReport> {
+  public readonly kind = REPORT_KINDS.LCP_COLLECTION;
+
   private constructor(data: LCPCollectionData) {
     super(data);
     Object.freeze(this);
@@ -18,15 +23,29 @@ export class LCPCollection extends ReportCollection<LCPReport> {
     });
   }
 
+  /**
+   * Rehydrates an LCPCollection and its reports from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): LCPCollection {
+    const record = readReportPayload(json, REPORT_KINDS.LCP_COLLECTION);
+    return new LCPCollection({
+      id: readString(record, 'id'),
+      createdAt: readTime(record, 'createdAt'),
+      reports: readArray(record, 'reports', LCPReport.fromJSON),
+    });
+  }
+
   toString(): string {
     return `LCPCollection: { id: ${this.id}, createdAt: ${this.createdAt.absoluteTime}, totalReports: ${this.totalReports} }`;
   }
 
-  toJSON() {
+  toJSON(): SerializedLCPCollection {
     return {
       id: this.id,
+      kind: this.kind,
+      schemaVersion: SCHEMA_VERSION,
       createdAt: this.createdAt.absoluteTime,
-      reports: this.reports,
+      reports: this.reports.map(report => report.toJSON()),
     };
   }
 }
@@ -2,8 +2,11 @@ import { describe, it, expect, vi } from 'vitest';
 
 import { LCPReportMothers } from '@/test/mothers/LCPReportMothers';
 import { LargestContentfulPaintMother } from '@/test/mothers/LargestContentfulPaintMother';
+import { PerformanceNavigationTimingMother } from '@/test/mothers/PerformanceNavigationTimingMother';
+import { PerformanceResourceTimingMother } from '@/test/mothers/PerformanceResourceTimingMother';
 
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
 import { RATINGS, WEB_VITALS } from '@/types/WebVitals';
 import { LCPReport } from './LCPReport';
 
@@ -17,7 +20,16 @@ describe('LCPReport', () => {
         const occurredAt = PerformanceTime.fromRelativeTime(100);
         const createdAt = PerformanceTime.fromRelativeTime(200);
         const element = null;
-        const data = { id, value, occurredAt, createdAt, element };
+        const data = {
+          id, value, occurredAt, createdAt, element,
+          url: null,
+          isLazyLoaded: false,
+          fetchPriority: null,
+          timeToFirstByte: TimeSegment.fromTiming(0, 600),
+          resourceLoadDelay: TimeSegment.fromTiming(600, 600),
+          resourceLoadDuration: TimeSegment.fromTiming(600, 600),
+          elementRenderDelay: TimeSegment.fromTiming(600, 2000),
+        };
 
         // When
         const report = LCPReport.create(data);
@@ -26,6 +38,7 @@ describe('LCPReport', () => {
         expect(report.id).toBe(id);
         expect(report.value).toBe(value);
         expect(report.element).toBe(element);
+        expect(report.primaryBottleneck).toBe('renderDelay');
         expect(report.name).toBe(WEB_VITALS.LARGEST_CONTENTFUL_PAINT);
         expect(report.goodThreshold).toBe(2500);
         expect(report.poorThreshold).toBe(4000);
@@ -136,6 +149,8 @@ describe('LCPReport', () => {
       // Then
       expect(result).toEqual({
         id: 'lcp-needs-improvement',
+        kind: 'web-vital.lcp',
+        schemaVersion: 1,
         name: WEB_VITALS.LARGEST_CONTENTFUL_PAINT,
         value: 3200,
         createdAt: report.createdAt.absoluteTime,
@@ -143,23 +158,140 @@ describe('LCPReport', () => {
         rating: RATINGS.NEEDS_IMPROVEMENT,
         goodThreshold: 2500,
         poorThreshold: 4000,
-        element: null
+        element: null,
+        url: 'https://example.com/hero.jpg',
+        isLazyLoaded: false,
+        fetchPriority: null,
+        primaryBottleneck: 'loadDuration',
+        timeToFirstByte: report.timeToFirstByte.toJSON(),
+        resourceLoadDelay: report.resourceLoadDelay.toJSON(),
+        resourceLoadDuration: report.resourceLoadDuration.toJSON(),
+        elementRenderDelay: report.elementRenderDelay.toJSON(),
       });
       expect(typeof result.createdAt).toBe('number');
       expect(result.createdAt).toBeGreaterThan(performance.timeOrigin);
     });
 
-    it('should include element in JSON serialization when element is present', () => {
+    it('should serialize a descriptor of the element instead of the element itself', () => {
       // Given
-      const mockElement = { tagName: 'IMG', src: 'test.jpg' } as unknown as Element;
-      const report = LCPReportMothers.withElement(mockElement);
+      const element = document.createElement('img');
+      element.id = 'hero';
+      element.className = 'banner wide';
+      const report = LCPReportMothers.withElement(element);
 
       // When
       const result = report.toJSON();
 
       // Then
-      expect(result.element).toBe(mockElement);
-      expect(result.element).not.toBeNull();
+      expect(result.element).toBe('img#hero.banner.wide');
+    });
+  });
+
+  describe('attribution', () => {
+    it('should break the value down using the navigation and resource entries', () => {
+      // Given
+      const entry = LargestContentfulPaintMother.withCustomValues({ startTime: 2000 });
+      const navigation = PerformanceNavigationTimingMother.custom({ responseStart: 400 });
+      const resource = PerformanceResourceTimingMother.withCustomValues({
+        name: entry.url,
+        startTime: 900,
+        requestStart: 1000,
+        responseEnd: 1600,
+      });
+
+      // When
+      const report = LCPReport.fromLargestContentfulPaint('lcp', entry, { navigation, resource });
+
+      // Then
+      expect(report.url).toBe('https://example.com/image.jpg');
+      expect(report.timeToFirstByte.duration).toBe(400);
+      expect(report.resourceLoadDelay.duration).toBe(600);
+      expect(report.resourceLoadDuration.duration).toBe(600);
+      expect(report.elementRenderDelay.duration).toBe(400);
+      expect(report.primaryBottleneck).toBe('loadDelay');
+    });
+
+    it('should measure from the activation of prerendered pages', () => {
+      // Given
+      const entry = LargestContentfulPaintMother.withCustomValues({ startTime: 2000 });
+      const navigation = { ...PerformanceNavigationTimingMother.custom({ responseStart: 400 }), activationStart: 1500 };
+
+      // When
+      const report = LCPReport.fromLargestContentfulPaint('lcp', entry, { navigation });
+
+      // Then
+      expect(report.value).toBe(500);
+      expect(report.timeToFirstByte.duration).toBe(0);
+      expect(report.timeToFirstByte.end.relativeTime).toBe(1500);
+      expect(report.elementRenderDelay.duration).toBe(500);
+    });
+
+    it('should measure from the start of the route after a soft navigation', () => {
+      // Given
+      const entry = LargestContentfulPaintMother.withCustomValues({ startTime: 5200 });
+      const resource = PerformanceResourceTimingMother.withCustomValues({
+        name: entry.url,
+        startTime: 4500,
+        requestStart: 4600,
+        responseEnd: 5000,
+      });
+
+      // When
+      const report = LCPReport.fromSoftNavigationLargestContentfulPaint(
+        'lcp',
+        entry,
+        PerformanceTime.fromRelativeTime(4000),
+        resource
+      );
+
+      // Then
+      expect(report.value).toBe(1200);
+      expect(report.timeToFirstByte.duration).toBe(0);
+      expect(report.resourceLoadDelay.duration).toBe(600);
+      expect(report.resourceLoadDuration.duration).toBe(400);
+      expect(report.elementRenderDelay.duration).toBe(200);
+    });
+
+    it('should attribute the whole value to render delay for text elements', () => {
+      // Given
+      const entry = LargestContentfulPaintMother.withCustomValues({ startTime: 1200, url: '' });
+      const navigation = PerformanceNavigationTimingMother.custom({ responseStart: 300 });
+
+      // When
+      const report = LCPReport.fromLargestContentfulPaint('lcp', entry, { navigation });
+
+      // Then
+      expect(report.url).toBeNull();
+      expect(report.resourceLoadDelay.duration).toBe(0);
+      expect(report.resourceLoadDuration.duration).toBe(0);
+      expect(report.elementRenderDelay.duration).toBe(900);
+      expect(report.primaryBottleneck).toBe('renderDelay');
+    });
+
+    it('should flag lazy-loaded elements and their fetch priority', () => {
+      // Given
+      const element = document.createElement('img');
+      element.setAttribute('loading', 'lazy');
+      element.setAttribute('fetchpriority', 'low');
+      const entry = LargestContentfulPaintMother.withCustomValues({ element });
+
+      // When
+      const report = LCPReport.fromLargestContentfulPaint('lcp', entry);
+
+      // Then
+      expect(report.isLazyLoaded).toBe(true);
+      expect(report.fetchPriority).toBe('low');
+    });
+
+    it('should keep the attribution when rehydrated', () => {
+      // Given
+      const report = LCPReportMothers.poor();
+
+      // When
+      const rehydrated = LCPReport.fromJSON(JSON.parse(JSON.stringify(report)));
+
+      // Then
+      expect(rehydrated.toJSON()).toEqual(report.toJSON());
     });
   });
 
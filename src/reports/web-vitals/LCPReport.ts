@@ -1,11 +1,65 @@
 import type { WebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
-import { WebVitalReport } from '@/reports/web-vitals/WebVitalReport';
+import { WebVitalReport, readWebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
+import { REPORT_KINDS } from '@/types/ReportKinds';
+import type { SerializedLCPReport } from '@/types/SerializedReports';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import {
+  readBoolean,
+  readOptionalString,
+  readReportPayload,
+  readSegment
+} from '@/shared/deserialization';
+import { describeElement } from '@/shared/describeElement';
+import { relativeToActivation } from '@/shared/PageLifecycle';
 
 export interface LCPReportData extends WebVitalReportDTO {
   element: Element | null;
+  /** URL of the LCP resource (null for text elements) */
+  url: string | null;
+  /** Whether the LCP element was lazy-loaded (`loading="lazy"`) */
+  isLazyLoaded: boolean;
+  /** Value of the `fetchpriority` attribute of the LCP element, if any */
+  fetchPriority: string | null;
+  timeToFirstByte: TimeSegment;
+  resourceLoadDelay: TimeSegment;
+  resourceLoadDuration: TimeSegment;
+  elementRenderDelay: TimeSegment;
 }
 
+/**
+ * Entries correlated with the LCP entry to break its value down.
+ */
+export interface LCPAttributionEntries {
+  /** Navigation entry of the page */
+  navigation?: PerformanceNavigationTimingEntry;
+  /** Resource entry of the LCP resource (e.g. the hero image) */
+  resource?: PerformanceResourceTiming;
+}
+
+/**
+ * Splits the LCP time, measured from start, into its four consecutive parts. Each boundary
+ * is clamped to the previous one, so the parts never overlap and always add up to the LCP time.
+ */
+const calculateAttributionSegments = (
+  lcpTime: number,
+  start: number,
+  firstByte: number,
+  resource?: PerformanceResourceTiming
+) => {
+  const requestStart = Math.max(resource ? (resource.requestStart || resource.startTime) : 0, firstByte);
+  const responseEnd = Math.max(resource?.responseEnd ?? 0, requestStart);
+  const renderTime = Math.max(lcpTime, responseEnd);
+
+  return {
+    timeToFirstByte: TimeSegment.fromTiming(start, firstByte),
+    resourceLoadDelay: TimeSegment.fromTiming(firstByte, requestStart),
+    resourceLoadDuration: TimeSegment.fromTiming(requestStart, responseEnd),
+    elementRenderDelay: TimeSegment.fromTiming(responseEnd, renderTime),
+  };
+};
+
 /**
  * Largest Contentful Paint (LCP) report for measuring loading performance.
  * 
@@ -13,21 +67,53 @@ export interface LCPReportData extends WebVitalReportDTO {
  * or image element is rendered on the screen. This metric provides insight into when the
  * main content of a page has finished loading and is ready for user interaction.
  * 
+ * The value is broken down into four consecutive parts:
+ * - Time to first byte: until the first byte of the document is received
+ * - Resource load delay: until the LCP resource starts loading
+ * - Resource load duration: while the LCP resource loads
+ * - Element render delay: until the LCP element is rendered
+ * 
+ * On prerendered pages LCP is measured from the activation of the page, and after
+ * a soft navigation from the start of the route.
+ * 
  * Thresholds:
  * - Good: < 2.5s
  * - Needs Improvement: 2.5s - 4.0s
  * - Poor: >= 4.0s
  */
 export class LCPReport extends WebVitalReport {
+  public readonly kind = REPORT_KINDS.LCP;
   public readonly name = 'LARGEST_CONTENTFUL_PAINT';
   public readonly goodThreshold = 2500;
   public readonly poorThreshold = 4000;
 
   public readonly element: Element | null;
+  /** URL of the LCP resource (null for text elements) */
+  public readonly url: string | null;
+  /** Whether the LCP element was lazy-loaded (`loading="lazy"`) */
+  public readonly isLazyLoaded: boolean;
+  /** Value of the `fetchpriority` attribute of the LCP element, if any */
+  public readonly fetchPriority: string | null;
+
+  /** From the navigation start (or prerender activation) until the first byte of the document */
+  public readonly timeToFirstByte: TimeSegment;
+  /** From the first byte until the LCP resource starts loading */
+  public readonly resourceLoadDelay: TimeSegment;
+  /** Time spent loading the LCP resource */
+  public readonly resourceLoadDuration: TimeSegment;
+  /** From the end of the resource load until the LCP element is rendered */
+  public readonly elementRenderDelay: TimeSegment;
 
   private constructor(data: LCPReportData) {
     super(data);
     this.element = data.element;
+    this.url = data.url;
+    this.isLazyLoaded = data.isLazyLoaded;
+    this.fetchPriority = data.fetchPriority;
+    this.timeToFirstByte = data.timeToFirstByte;
+    this.resourceLoadDelay = data.resourceLoadDelay;
+    this.resourceLoadDuration = data.resourceLoadDuration;
+    this.elementRenderDelay = data.elementRenderDelay;
     Object.freeze(this);
   }
 
@@ -35,26 +121,131 @@ export class LCPReport extends WebVitalReport {
     return new LCPReport(data);
   }
 
-  public static fromLargestContentfulPaint(id: string, entry: LargestContentfulPaint): LCPReport {
+  /**
+   * Rehydrates an LCPReport from its toJSON() output.
+   * Only a descriptor of the element is serialized, so the element is always null.
+   */
+  public static fromJSON(json: unknown): LCPReport {
+    const record = readReportPayload(json, REPORT_KINDS.LCP);
+    return new LCPReport({
+      ...readWebVitalReportDTO(record),
+      element: null,
+      url: readOptionalString(record, 'url') ?? null,
+      isLazyLoaded: readBoolean(record, 'isLazyLoaded'),
+      fetchPriority: readOptionalString(record, 'fetchPriority') ?? null,
+      timeToFirstByte: readSegment(record, 'timeToFirstByte'),
+      resourceLoadDelay: readSegment(record, 'resourceLoadDelay'),
+      resourceLoadDuration: readSegment(record, 'resourceLoadDuration'),
+      elementRenderDelay: readSegment(record, 'elementRenderDelay'),
+    });
+  }
+
+  /**
+   * Creates a report from a LCP entry. The navigation entry and the resource entry of
+   * the LCP resource, when available, are used to break the value down; the value is
+   * measured from the activationStart of the navigation entry.
+   */
+  public static fromLargestContentfulPaint(
+    id: string,
+    entry: LargestContentfulPaint,
+    { navigation, resource }: LCPAttributionEntries = {}
+  ): LCPReport {
+    const activationStart = navigation?.activationStart ?? 0;
+    const firstByte = Math.max(navigation?.responseStart ?? 0, activationStart);
     const data: LCPReportData = {
       id,
       createdAt: PerformanceTime.now(),
       occurredAt: PerformanceTime.fromRelativeTime(entry.startTime),
-      value: entry.startTime,
+      value: relativeToActivation(entry.startTime, activationStart),
       element: entry.element,
+      url: entry.url || null,
+      isLazyLoaded: entry.element?.getAttribute('loading') === 'lazy',
+      fetchPriority: entry.element?.getAttribute('fetchpriority') ?? null,
+      ...calculateAttributionSegments(entry.startTime, activationStart, firstByte, resource),
     };
     return new LCPReport(data);
   }
 
-  public override toJSON() {
+  /**
+   * Creates a report from a LCP entry of the route of a soft navigation, measured from the
+   * start of the route. No document is fetched, so the time to first byte is always 0.
+   */
+  public static fromSoftNavigationLargestContentfulPaint(
+    id: string,
+    entry: LargestContentfulPaint,
+    navigationStart: PerformanceTime,
+    resource?: PerformanceResourceTiming
+  ): LCPReport {
+    const start = navigationStart.relativeTime;
+    return new LCPReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: PerformanceTime.fromRelativeTime(entry.startTime),
+      value: Math.max(entry.startTime - start, 0),
+      element: entry.element,
+      url: entry.url || null,
+      isLazyLoaded: entry.element?.getAttribute('loading') === 'lazy',
+      fetchPriority: entry.element?.getAttribute('fetchpriority') ?? null,
+      ...calculateAttributionSegments(entry.startTime, start, start, resource),
+    });
+  }
+
+  /**
+   * Creates a report for a page restored from the back/forward cache: nothing is
+   * loaded, so LCP is the time from the restore until the next frame was painted,
+   * spent entirely in element render delay.
+   */
+  public static fromBFCacheRestore(id: string, restoredAt: PerformanceTime, paintedAt: PerformanceTime): LCPReport {
+    const restoreTime = restoredAt.relativeTime;
+    const paintTime = Math.max(paintedAt.relativeTime, restoreTime);
+    return new LCPReport({
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: paintedAt,
+      value: paintTime - restoreTime,
+      element: null,
+      url: null,
+      isLazyLoaded: false,
+      fetchPriority: null,
+      timeToFirstByte: TimeSegment.fromTiming(restoreTime, restoreTime),
+      resourceLoadDelay: TimeSegment.fromTiming(restoreTime, restoreTime),
+      resourceLoadDuration: TimeSegment.fromTiming(restoreTime, restoreTime),
+      elementRenderDelay: TimeSegment.fromTiming(restoreTime, paintTime),
+    });
+  }
+
+  /**
+   * Identifies the part of the LCP value taking the longest.
+   */
+  public get primaryBottleneck(): 'ttfb' | 'loadDelay' | 'loadDuration' | 'renderDelay' {
+    const segments = [
+      { name: 'ttfb' as const, duration: this.timeToFirstByte.duration },
+      { name: 'loadDelay' as const, duration: this.resourceLoadDelay.duration },
+      { name: 'loadDuration' as const, duration: this.resourceLoadDuration.duration },
+      { name: 'renderDelay' as const, duration: this.elementRenderDelay.duration }
+    ];
+
+    return segments.reduce((bottleneck, segment) =>
+      segment.duration > bottleneck.duration ? segment : bottleneck
+    ).name;
+  }
+
+  public override toJSON(): SerializedLCPReport {
     return {
       ...super.toJSON(),
       /**
-       * The largest contentful element that was painted, if available
-       * This is the actual DOM element that triggered the LCP measurement
-       * @type {Element | null}
+       * Descriptor of the largest contentful element (e.g. `img#hero.banner`), if available
+       * The DOM element itself is never serialized
        */
-      element: this.element,
+      element: describeElement(this.element),
+      url: this.url,
+      isLazyLoaded: this.isLazyLoaded,
+      fetchPriority: this.fetchPriority,
+      primaryBottleneck: this.primaryBottleneck,
+      timeToFirstByte: this.timeToFirstByte.toJSON(),
+      resourceLoadDelay: this.resourceLoadDelay.toJSON(),
+      resourceLoadDuration: this.resourceLoadDuration.toJSON(),
+      elementRenderDelay: this.elementRenderDelay.toJSON(),
     };
   }
 }
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+
+import { TTFBReportMothers } from '@/test/mothers/TTFBReportMothers';
+import { PerformanceNavigationTimingMother } from '@/test/mothers/PerformanceNavigationTimingMother';
+
+import { RATINGS, WEB_VITALS } from '@/types/WebVitals';
+import { TTFBReport } from './TTFBReport';
+
+describe('TTFBReport', () => {
+  describe('fromPerformanceNavigationTiming factory method', () => {
+    it('should use the response start of the document as value', () => {
+      // Given
+      const entry = PerformanceNavigationTimingMother.custom({ responseStart: 420 });
+
+      // When
+      const report = TTFBReport.fromPerformanceNavigationTiming('ttfb', entry);
+
+      // Then
+      expect(report.value).toBe(420);
+      expect(report.occurredAt.relativeTime).toBe(420);
+      expect(report.name).toBe(WEB_VITALS.TIME_TO_FIRST_BYTE);
+    });
+
+    it('should measure prerendered pages from their activation', () => {
+      // Given
+      const entry = { ...PerformanceNavigationTimingMother.custom({ responseStart: 420 }), activationStart: 300 };
+
+      // When
+      const report = TTFBReport.fromPerformanceNavigationTiming('ttfb', entry);
+
+      // Then
+      expect(report.value).toBe(120);
+    });
+
+    it('should be 0 when the response arrived while prerendering', () => {
+      // Given
+      const entry = { ...PerformanceNavigationTimingMother.custom({ responseStart: 420 }), activationStart: 2000 };
+
+      // When
+      const report = TTFBReport.fromPerformanceNavigationTiming('ttfb', entry);
+
+      // Then
+      expect(report.value).toBe(0);
+    });
+  });
+
+  describe('rating system', () => {
+    it('should classify performance according to TTFB thresholds', () => {
+      // Then
+      expect(TTFBReportMothers.withValue(600).rating).toBe(RATINGS.GOOD);
+      expect(TTFBReportMothers.withValue(800).rating).toBe(RATINGS.NEEDS_IMPROVEMENT);
+      expect(TTFBReportMothers.withValue(1800).rating).toBe(RATINGS.POOR);
+    });
+  });
+
+  describe('toJSON', () => {
+    it('should serialize as a web vital and rehydrate from its output', () => {
+      // Given
+      const report = TTFBReportMothers.needsImprovement();
+
+      // When
+      const result = report.toJSON();
+
+      // Then
+      expect(result).toMatchObject({
+        kind: 'web-vital.ttfb',
+        name: WEB_VITALS.TIME_TO_FIRST_BYTE,
+        value: 1200,
+        rating: RATINGS.NEEDS_IMPROVEMENT,
+        goodThreshold: 800,
+        poorThreshold: 1800,
+      });
+      expect(TTFBReport.fromJSON(JSON.parse(JSON.stringify(report))).toJSON()).toEqual(result);
+    });
+  });
+});
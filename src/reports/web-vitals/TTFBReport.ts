@@ -0,0 +1,54 @@
+import type { WebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
+import { WebVitalReport, readWebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { REPORT_KINDS } from '@/types/ReportKinds';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import { readReportPayload } from '@/shared/deserialization';
+import { relativeToActivation } from '@/shared/PageLifecycle';
+
+/**
+ * Time to First Byte (TTFB) report for measuring server responsiveness.
+ * 
+ * TTFB measures the time from when the page starts loading to when the first byte of
+ * the document response is received, including redirects, connection setup and server
+ * processing. On prerendered pages it is measured from the activation of the page, so
+ * it is 0 when the response arrived while prerendering.
+ * 
+ * Thresholds:
+ * - Good: < 800ms
+ * - Needs Improvement: 800ms - 1800ms
+ * - Poor: >= 1800ms
+ */
+export class TTFBReport extends WebVitalReport {
+  public readonly kind = REPORT_KINDS.TTFB;
+  public readonly name = 'TIME_TO_FIRST_BYTE';
+  public readonly goodThreshold = 800;
+  public readonly poorThreshold = 1800;
+
+  private constructor(data: WebVitalReportDTO) {
+    super(data);
+    Object.freeze(this);
+  }
+
+  public static create(data: WebVitalReportDTO): TTFBReport {
+    return new TTFBReport(data);
+  }
+
+  /**
+   * Rehydrates a TTFBReport from its toJSON() output.
+   */
+  public static fromJSON(json: unknown): TTFBReport {
+    const record = readReportPayload(json, REPORT_KINDS.TTFB);
+    return new TTFBReport(readWebVitalReportDTO(record));
+  }
+
+  public static fromPerformanceNavigationTiming(id: string, entry: PerformanceNavigationTimingEntry): TTFBReport {
+    const data: WebVitalReportDTO = {
+      id,
+      createdAt: PerformanceTime.now(),
+      occurredAt: PerformanceTime.fromRelativeTime(entry.responseStart),
+      value: relativeToActivation(entry.responseStart, entry.activationStart),
+    };
+    return new TTFBReport(data);
+  }
+}
@@ -1,5 +1,8 @@
 import type { Report } from '@/reports/Report';
 import type { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { type ReportKind, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SerializedWebVitalReport } from '@/types/SerializedReports';
+import { type JSONRecord, readNumber, readString, readTime } from '@/shared/deserialization';
 
 /**
  * Rating classification for Web Vital metrics based on Google's Core Web Vitals thresholds.
@@ -20,6 +23,16 @@ export interface WebVitalReportDTO {
   value: number;
 }
 
+/**
+ * Reads the fields shared by every serialized web vital report.
+ */
+export const readWebVitalReportDTO = (record: JSONRecord): WebVitalReportDTO => ({
+  id: readString(record, 'id'),
+  createdAt: readTime(record, 'createdAt'),
+  occurredAt: readTime(record, 'occurredAt'),
+  value: readNumber(record, 'value'),
+});
+
 export interface WebVitalRatingInfo {
   readonly goodThreshold: number;
   readonly poorThreshold: number;
@@ -50,6 +63,9 @@ export abstract class WebVitalReport implements Report, WebVitalRatingInfo {
   /** The measured value of the web vital metric */
   public readonly value: number;
 
+  /** Serialization discriminator (must be implemented by subclasses) */
+  public abstract readonly kind: ReportKind;
+
   /** Name of the web vital metric (must be implemented by subclasses) */
   public abstract readonly name: string;
   
@@ -127,13 +143,21 @@ export abstract class WebVitalReport implements Report, WebVitalRatingInfo {
    * 
    * @returns An object containing the essential report data for serialization
    */
-  public toJSON() {
+  public toJSON(): SerializedWebVitalReport<this['kind']> {
     return {
       /**
        * Unique identifier for the report
        * This is typically a UUID or similar unique string
        */
       id: this.id,
+      /**
+       * Serialization discriminator, e.g. 'web-vital.lcp'
+       */
+      kind: this.kind,
+      /**
+       * Version of the wire format, see SerializedReports
+       */
+      schemaVersion: SCHEMA_VERSION,
       /**
        * Name of the web vital metric
        */
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+import { SerializableReportMothers } from '@/test/mothers/SerializableReportMothers';
+import { CLSCollection } from '@/reports/web-vitals/CLSCollection';
+import { REPORT_KINDS, type ReportKind } from '@/types/ReportKinds';
+
+import {
+  type JSONSchema,
+  REPORT_JSON_SCHEMA,
+  REPORT_JSON_SCHEMAS,
+  REPORT_SCHEMA_FILE_NAME,
+  schemaFileName
+} from './reportSchemas';
+
+const SCHEMAS_DIR = resolve(process.cwd(), 'schemas');
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+/**
+ * Minimal validator for the JSON Schema keywords used by the report schemas.
+ * Returns the paths that do not match.
+ */
+const validate = (schema: JSONSchema, value: unknown, path = '$'): string[] => {
+  if (schema.anyOf) {
+    const matches = schema.anyOf.some(option => validate(option, value, path).length === 0);
+    return matches ? [] : [`${path}: matches no anyOf option`];
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter(option => validate(option, value, path).length === 0);
+    return matches.length === 1 ? [] : [`${path}: matches ${matches.length} oneOf options`];
+  }
+  if (schema.const !== undefined && value !== schema.const) return [`${path}: expected ${schema.const}`];
+  if (schema.enum && !schema.enum.includes(value as string)) return [`${path}: not in enum`];
+
+  const types = [schema.type ?? []].flat();
+  if (types.length > 0 && !types.includes(typeOf(value))) return [`${path}: expected ${types.join('|')}`];
+  if (schema.minimum !== undefined && (value as number) < schema.minimum) return [`${path}: below minimum`];
+
+  if (Array.isArray(value) && schema.items) {
+    const items = schema.items;
+    return value.flatMap((item, index) => validate(items, item, `${path}[${index}]`));
+  }
+
+  if (typeOf(value) === 'object') {
+    const record = value as Record<string, unknown>;
+    const missing = (schema.required ?? [])
+      .filter(key => !(key in record))
+      .map(key => `${path}.${key}: required`);
+    const properties = Object.entries(schema.properties ?? {})
+      .filter(([key]) => key in record)
+      .flatMap(([key, property]) => validate(property, record[key], `${path}.${key}`));
+    const additional = schema.additionalProperties;
+    const additionalErrors = additional
+      ? Object.entries(record).flatMap(([key, entry]) => validate(additional, entry, `${path}.${key}`))
+      : [];
+    return [...missing, ...properties, ...additionalErrors];
+  }
+
+  return [];
+};
+
+const serialize = (report: { toJSON(): unknown }): Record<string, unknown> => JSON.parse(JSON.stringify(report));
+
+describe('reportSchemas', () => {
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    windowLocationHelper.mock();
+  });
+
+  afterEach(() => {
+    performanceAPIHelper.unmock();
+    windowLocationHelper.unmock();
+  });
+
+  it('should define a schema for every report kind', () => {
+    // Then
+    expect(Object.keys(REPORT_JSON_SCHEMAS).sort()).toEqual(Object.values(REPORT_KINDS).sort());
+  });
+
+  it.each(SerializableReportMothers.all())('should validate a serialized %s', (_className, report) => {
+    // Given
+    const payload = serialize(report);
+    const schema = REPORT_JSON_SCHEMAS[report.kind];
+
+    // When
+    const errors = validate(schema, payload);
+
+    // Then
+    expect(errors).toEqual([]);
+    expect(Object.keys(payload).sort()).toEqual(Object.keys(schema.properties ?? {}).sort());
+    expect(validate(REPORT_JSON_SCHEMA, payload)).toEqual([]);
+  });
+
+  it('should validate layout shift sources', () => {
+    // Given
+    const collection = CLSCollection.create('cls-collection', [SerializableReportMothers.clsReportWithSource()]);
+    const payload = serialize(collection);
+
+    // When
+    const errors = validate(REPORT_JSON_SCHEMAS[REPORT_KINDS.CLS_COLLECTION], payload);
+
+    // Then
+    expect(errors).toEqual([]);
+    expect(payload.reports).toEqual([expect.objectContaining({
+      sources: [{
+        node: 'div#banner',
+        previousRect: { x: 0, y: 0, width: 300, height: 100 },
+        currentRect: { x: 0, y: 40, width: 300, height: 100 },
+      }],
+    })]);
+  });
+
+  it('should reject payloads with a missing field or a wrong kind', () => {
+    // Given
+    const [, report] = SerializableReportMothers.all()[0];
+    const { value: _value, ...withoutValue } = serialize(report);
+    const wrongKind = { ...serialize(report), kind: REPORT_KINDS.FCP };
+
+    // Then
+    expect(validate(REPORT_JSON_SCHEMAS[report.kind], withoutValue)).toEqual(['$.value: required']);
+    expect(validate(REPORT_JSON_SCHEMAS[report.kind], wrongKind)).toEqual([`$.kind: expected ${report.kind}`]);
+  });
+
+  it('should match the generated files in schemas/ (run `pnpm schemas` after changing a schema)', () => {
+    // Given
+    const readSchema = (fileName: string) => JSON.parse(readFileSync(resolve(SCHEMAS_DIR, fileName), 'utf-8'));
+
+    // Then
+    expect(readSchema(REPORT_SCHEMA_FILE_NAME)).toEqual(REPORT_JSON_SCHEMA);
+    for (const [kind, schema] of Object.entries(REPORT_JSON_SCHEMAS)) {
+      expect(readSchema(schemaFileName(kind as ReportKind))).toEqual(schema);
+    }
+  });
+});
@@ -0,0 +1,551 @@
+import { REPORT_KINDS, SCHEMA_VERSION, type ReportKind } from '@/types/ReportKinds';
+import { INP_PHASES, INTERACTION_TYPES } from '@/types/WebVitals';
+import { USER_TIMING_ENTRY_TYPES } from '@/types/PerformanceEntryTypes';
+import { VENDOR_CATEGORIES } from '@/shared/vendorCatalog';
+
+/**
+ * Subset of JSON Schema (draft 2020-12) used to describe the serialized reports.
+ */
+export interface JSONSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: string | string[];
+  const?: string | number;
+  enum?: Array<string | number>;
+  minimum?: number;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  additionalProperties?: JSONSchema;
+  items?: JSONSchema;
+  anyOf?: JSONSchema[];
+  oneOf?: JSONSchema[];
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// ===== BUILDING BLOCKS =====
+
+const string: JSONSchema = { type: 'string' };
+const number: JSONSchema = { type: 'number' };
+const boolean: JSONSchema = { type: 'boolean' };
+const timestamp: JSONSchema = { type: 'number', minimum: 0, description: 'Unix epoch milliseconds' };
+const duration: JSONSchema = { type: 'number', minimum: 0, description: 'Milliseconds' };
+
+const nullable = (schema: JSONSchema): JSONSchema => ({ anyOf: [schema, { type: 'null' }] });
+
+const oneOf = (...values: string[]): JSONSchema => ({ type: 'string', enum: values });
+
+const vendorCategory = oneOf(...Object.values(VENDOR_CATEGORIES));
+
+const arrayOf = (items: JSONSchema): JSONSchema => ({ type: 'array', items });
+
+/**
+ * Every property is required: optional values are serialized as null.
+ */
+const object = (properties: Record<string, JSONSchema>): JSONSchema => ({
+  type: 'object',
+  properties,
+  required: Object.keys(properties),
+});
+
+const envelope = (kind: ReportKind): Record<string, JSONSchema> => ({
+  id: string,
+  kind: { const: kind },
+  schemaVersion: { const: SCHEMA_VERSION },
+  createdAt: timestamp,
+});
+
+const timeSegment = object({
+  duration,
+  start: timestamp,
+  end: timestamp,
+});
+
+const rect = object({
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+});
+
+const severity = oneOf('low', 'medium', 'high', 'critical');
+
+// ===== WEB VITALS =====
+
+const webVital = (kind: ReportKind, properties: Record<string, JSONSchema> = {}) => object({
+  ...envelope(kind),
+  occurredAt: timestamp,
+  name: string,
+  value: number,
+  rating: oneOf('GOOD', 'NEEDS_IMPROVEMENT', 'POOR'),
+  goodThreshold: number,
+  poorThreshold: number,
+  ...properties,
+});
+
+const lcpReport = webVital(REPORT_KINDS.LCP, {
+  element: nullable(string),
+  url: nullable(string),
+  isLazyLoaded: boolean,
+  fetchPriority: nullable(string),
+  primaryBottleneck: oneOf('ttfb', 'loadDelay', 'loadDuration', 'renderDelay'),
+  timeToFirstByte: timeSegment,
+  resourceLoadDelay: timeSegment,
+  resourceLoadDuration: timeSegment,
+  elementRenderDelay: timeSegment,
+});
+const inpPhase = oneOf(...Object.values(INP_PHASES));
+const inpReport = webVital(REPORT_KINDS.INP, {
+  eventName: string,
+  interactionId: number,
+  interactionType: oneOf(...Object.values(INTERACTION_TYPES)),
+  target: nullable(string),
+  inputDelay: timeSegment,
+  processingTime: timeSegment,
+  presentationDelay: timeSegment,
+});
+const clsReport = object({
+  ...envelope(REPORT_KINDS.CLS),
+  occurredAt: timestamp,
+  value: number,
+  sources: arrayOf(object({
+    node: nullable(string),
+    previousRect: rect,
+    currentRect: rect,
+  })),
+});
+
+// ===== PERFORMANCE =====
+
+const serverTiming = arrayOf(object({
+  name: string,
+  duration,
+  description: nullable(string),
+}));
+
+const cdnCacheStatus = nullable(oneOf('hit', 'miss'));
+
+const resourceTimingReport = object({
+  ...envelope(REPORT_KINDS.RESOURCE_TIMING),
+  occurredAt: timestamp,
+  name: string,
+  domain: string,
+  type: string,
+  duration,
+  endTime: timestamp,
+  transferSize: number,
+  encodedSize: number,
+  decodedSize: number,
+  compressionRatio: number,
+  hasCompression: boolean,
+  isThirdParty: boolean,
+  vendor: nullable(string),
+  vendorCategory: nullable(vendorCategory),
+  primaryBottleneck: oneOf('dns', 'tcp', 'tls', 'server', 'download', 'none'),
+  hasDetailedTiming: boolean,
+  dnsLookup: timeSegment,
+  tcpConnect: timeSegment,
+  serverProcessing: timeSegment,
+  contentDownload: timeSegment,
+  tlsHandshake: nullable(timeSegment),
+  serverTiming,
+  cdnCacheStatus,
+  protocol: nullable(string),
+  renderBlockingStatus: nullable(oneOf('blocking', 'non-blocking')),
+  responseStatus: nullable(number),
+  deliveryType: nullable(string),
+  contentType: nullable(string),
+  workerStart: number,
+  isCacheHit: boolean,
+  isRenderBlocking: boolean,
+  isFailed: boolean,
+  isServiceWorkerServed: boolean,
+});
+
+const longTaskReport = object({
+  ...envelope(REPORT_KINDS.LONG_TASK),
+  occurredAt: timestamp,
+  duration,
+  endTime: timestamp,
+  name: string,
+  attribution: nullable(arrayOf(object({
+    containerType: string,
+    containerName: string,
+    containerSrc: string,
+    containerId: string,
+  }))),
+  severity: oneOf('low', 'medium', 'high'),
+  hasAttribution: boolean,
+});
+
+const longAnimationFrameReport = object({
+  ...envelope(REPORT_KINDS.LONG_ANIMATION_FRAME),
+  occurredAt: timestamp,
+  duration,
+  endTime: timestamp,
+  blockingDuration: duration,
+  renderStart: nullable(timestamp),
+  styleAndLayoutStart: nullable(timestamp),
+  renderDuration: duration,
+  scriptDuration: duration,
+  forcedStyleAndLayoutDuration: duration,
+  scripts: arrayOf(object({
+    sourceURL: string,
+    sourceFunctionName: string,
+    sourceCharPosition: number,
+    invoker: string,
+    invokerType: string,
+    windowAttribution: string,
+    startTime: timestamp,
+    duration,
+    forcedStyleAndLayoutDuration: duration,
+    pauseDuration: duration,
+  })),
+});
+
+const userTimingReport = object({
+  ...envelope(REPORT_KINDS.USER_TIMING),
+  occurredAt: timestamp,
+  name: string,
+  entryType: oneOf(...Object.values(USER_TIMING_ENTRY_TYPES)),
+  duration,
+  segment: timeSegment,
+  detail: { description: 'detail of the entry as a JSON value, null when absent or not serializable' },
+});
+
+const thirdPartyImpactTotals: Record<string, JSONSchema> = {
+  resourceCount: number,
+  transferSize: number,
+  longTaskCount: number,
+  longAnimationFrameCount: number,
+  blockingTime: duration,
+  failedLoads: number,
+  javascriptErrors: number,
+  cspViolations: number,
+};
+
+const reportIdsByKey: JSONSchema = { type: 'object', additionalProperties: arrayOf(string) };
+
+const bytesByKey: JSONSchema = { type: 'object', additionalProperties: number };
+
+const schemas: Record<ReportKind, JSONSchema> = {
+  [REPORT_KINDS.CLS]: clsReport,
+  [REPORT_KINDS.CLS_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.CLS_COLLECTION),
+    reports: arrayOf(clsReport),
+    value: number,
+    cumulativeShiftScore: number,
+    sessionWindows: arrayOf(object({
+      value: number,
+      span: timeSegment,
+      reportIds: arrayOf(string),
+    })),
+    worstSessionWindowIndex: nullable({ type: 'number', minimum: 0, description: 'Index in sessionWindows' }),
+  }),
+  [REPORT_KINDS.FCP]: webVital(REPORT_KINDS.FCP),
+  [REPORT_KINDS.FID]: webVital(REPORT_KINDS.FID),
+  [REPORT_KINDS.INP]: inpReport,
+  [REPORT_KINDS.INP_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.INP_COLLECTION),
+    reports: arrayOf(inpReport),
+    interactionCount: number,
+    selectedInteractionId: nullable(string),
+    dominantPhase: nullable(inpPhase),
+  }),
+  [REPORT_KINDS.LCP]: lcpReport,
+  [REPORT_KINDS.LCP_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.LCP_COLLECTION),
+    reports: arrayOf(lcpReport),
+  }),
+  [REPORT_KINDS.TTFB]: webVital(REPORT_KINDS.TTFB),
+
+  [REPORT_KINDS.BACK_FORWARD_CACHE]: object({
+    ...envelope(REPORT_KINDS.BACK_FORWARD_CACHE),
+    occurredAt: timestamp,
+    isRestored: boolean,
+    notRestoredReasons: arrayOf(object({
+      reason: string,
+      frameUrl: nullable(string),
+    })),
+  }),
+  [REPORT_KINDS.CONNECTION_QUALITY]: object({
+    ...envelope(REPORT_KINDS.CONNECTION_QUALITY),
+    occurredAt: timestamp,
+    quality: oneOf('fast', 'moderate', 'slow', 'offline'),
+    effectiveType: nullable(string),
+    saveData: boolean,
+    isConstrained: boolean,
+  }),
+  [REPORT_KINDS.DOM_TIMING]: object({
+    ...envelope(REPORT_KINDS.DOM_TIMING),
+    occurredAt: timestamp,
+    timeToInteractive: duration,
+    timeToContentLoaded: duration,
+    timeToDOMComplete: duration,
+    timeToFullLoad: duration,
+    domContentLoadedDuration: duration,
+    loadEventDuration: duration,
+    totalEventHandlerTime: duration,
+    domParsingTime: duration,
+    resourceLoadTime: duration,
+    hasSlowEventHandlers: boolean,
+    slowestPhase: oneOf('dom-parsing', 'resource-loading', 'event-handlers', 'interactive'),
+  }),
+  [REPORT_KINDS.ELEMENT_TIMING]: object({
+    ...envelope(REPORT_KINDS.ELEMENT_TIMING),
+    occurredAt: timestamp,
+    elementId: nullable(string),
+    identifier: string,
+    loadTime: number,
+    renderTime: number,
+    effectiveRenderTime: number,
+    naturalWidth: nullable(number),
+    naturalHeight: nullable(number),
+    url: nullable(string),
+    isImage: boolean,
+    hasCustomIdentifier: boolean,
+  }),
+  [REPORT_KINDS.LONG_ANIMATION_FRAME]: longAnimationFrameReport,
+  [REPORT_KINDS.LONG_ANIMATION_FRAME_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.LONG_ANIMATION_FRAME_COLLECTION),
+    totalReports: number,
+    totalBlockingDuration: duration,
+    reports: arrayOf(longAnimationFrameReport),
+    worstFrameId: nullable(string),
+    worstScripts: arrayOf(object({
+      source: string,
+      origin: nullable(string),
+      isThirdParty: boolean,
+      blockingDuration: duration,
+      duration,
+      forcedStyleAndLayoutDuration: duration,
+      count: number,
+      reportIds: arrayOf(string),
+    })),
+    worstThirdPartyOrigins: arrayOf(object({
+      origin: string,
+      blockingDuration: duration,
+      duration,
+      count: number,
+      reportIds: arrayOf(string),
+    })),
+  }),
+  [REPORT_KINDS.LONG_TASK]: longTaskReport,
+  [REPORT_KINDS.LONG_TASK_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.LONG_TASK_COLLECTION),
+    totalReports: number,
+    totalDuration: duration,
+    totalBlockingTime: duration,
+    firstContentfulPaint: nullable(timestamp),
+    timeToInteractive: nullable(timestamp),
+    reports: arrayOf(longTaskReport),
+    longestTaskId: nullable(string),
+  }),
+  [REPORT_KINDS.MEMORY]: object({
+    ...envelope(REPORT_KINDS.MEMORY),
+    occurredAt: timestamp,
+    source: oneOf('user-agent-specific', 'js-heap'),
+    bytes: number,
+    jsHeapSizeLimit: nullable(number),
+    breakdown: arrayOf(object({
+      bytes: number,
+      types: arrayOf(string),
+      attribution: arrayOf(object({
+        url: string,
+        scope: string,
+        container: nullable(object({
+          id: string,
+          src: string,
+        })),
+      })),
+    })),
+    bytesByType: bytesByKey,
+    bytesByAttribution: bytesByKey,
+    trend: object({
+      consecutiveIncreases: number,
+      growth: number,
+      isMonotonicGrowth: boolean,
+    }),
+    isLikelyLeak: boolean,
+  }),
+  [REPORT_KINDS.NETWORK_TIMING]: object({
+    ...envelope(REPORT_KINDS.NETWORK_TIMING),
+    occurredAt: timestamp,
+    transferSize: number,
+    encodedSize: number,
+    decodedSize: number,
+    compressionRatio: number,
+    hasCompression: boolean,
+    totalNetworkTime: duration,
+    connectionSetupTime: duration,
+    primaryBottleneck: oneOf('redirects', 'dns', 'tcp', 'tls', 'server', 'download'),
+    redirects: timeSegment,
+    dnsLookup: timeSegment,
+    tcpConnect: timeSegment,
+    serverProcessing: timeSegment,
+    contentDownload: timeSegment,
+    tlsHandshake: nullable(timeSegment),
+    serverTiming,
+    cdnCacheStatus,
+  }),
+  [REPORT_KINDS.RESOURCE_TIMING]: resourceTimingReport,
+  [REPORT_KINDS.RESOURCE_TIMING_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.RESOURCE_TIMING_COLLECTION),
+    totalReports: number,
+    totalTransferSize: number,
+    totalDecodedSize: number,
+    totalEncodedSize: number,
+    compressionSavings: number,
+    averageLoadTime: number,
+    reports: arrayOf(resourceTimingReport),
+    resourcesByType: reportIdsByKey,
+    resourcesByDomain: reportIdsByKey,
+    thirdPartyResourceIds: arrayOf(string),
+    slowestResourceId: nullable(string),
+    lastResourceId: nullable(string),
+    serverTimingByName: {
+      type: 'object',
+      description: 'Duration statistics of the Server-Timing metrics, by name',
+      additionalProperties: object({
+        count: number,
+        total: duration,
+        min: duration,
+        max: duration,
+        mean: duration,
+        reportIds: arrayOf(string),
+      }),
+    },
+    cdnCacheHitRatio: nullable(number),
+    resourcesByProtocol: reportIdsByKey,
+    cacheHitRatio: number,
+    renderBlockingResourceIds: arrayOf(string),
+    failedResourceIds: arrayOf(string),
+    serviceWorkerResourceIds: arrayOf(string),
+  }),
+  [REPORT_KINDS.SOFT_NAVIGATION]: object({
+    ...envelope(REPORT_KINDS.SOFT_NAVIGATION),
+    occurredAt: timestamp,
+    navigationId: string,
+    route: string,
+    url: string,
+    previousRoute: nullable(string),
+    source: oneOf('push-state', 'replace-state', 'popstate', 'soft-navigation-entry'),
+  }),
+  [REPORT_KINDS.THIRD_PARTY_IMPACT]: object({
+    ...envelope(REPORT_KINDS.THIRD_PARTY_IMPACT),
+    occurredAt: timestamp,
+    origins: arrayOf(object({
+      origin: string,
+      vendor: nullable(string),
+      vendorCategory: nullable(vendorCategory),
+      ...thirdPartyImpactTotals,
+    })),
+    totals: object(thirdPartyImpactTotals),
+  }),
+  [REPORT_KINDS.USER_TIMING]: userTimingReport,
+  [REPORT_KINDS.USER_TIMING_COLLECTION]: object({
+    ...envelope(REPORT_KINDS.USER_TIMING_COLLECTION),
+    totalReports: number,
+    reports: arrayOf(userTimingReport),
+    statsByName: {
+      type: 'object',
+      description: 'Duration statistics of the measures, by name',
+      additionalProperties: object({
+        count: number,
+        min: duration,
+        max: duration,
+        mean: duration,
+        p50: duration,
+        p75: duration,
+        p95: duration,
+        reportIds: arrayOf(string),
+      }),
+    },
+  }),
+
+  [REPORT_KINDS.CSP_VIOLATION]: object({
+    ...envelope(REPORT_KINDS.CSP_VIOLATION),
+    occurredAt: timestamp,
+    directive: string,
+    blockedURI: string,
+    blockedDomain: string,
+    sourceFile: nullable(string),
+    lineNumber: nullable(number),
+    columnNumber: nullable(number),
+    severity,
+    isInlineViolation: boolean,
+    isEvalBlocked: boolean,
+    isThirdPartyViolation: boolean,
+    vendor: nullable(string),
+    vendorCategory: nullable(vendorCategory),
+    isSpecialURI: boolean,
+  }),
+  [REPORT_KINDS.RESOURCE_ERROR]: object({
+    ...envelope(REPORT_KINDS.RESOURCE_ERROR),
+    occurredAt: timestamp,
+    resourceUrl: string,
+    resourceType: string,
+    resourceDomain: string,
+    severity,
+    isThirdParty: boolean,
+    vendor: nullable(string),
+    vendorCategory: nullable(vendorCategory),
+    isCriticalResource: boolean,
+  }),
+  [REPORT_KINDS.UNHANDLED_JAVASCRIPT_ERROR]: object({
+    ...envelope(REPORT_KINDS.UNHANDLED_JAVASCRIPT_ERROR),
+    occurredAt: timestamp,
+    errorMessage: string,
+    errorName: nullable(string),
+    stack: nullable(string),
+    filename: nullable(string),
+    lineNumber: nullable(number),
+    columnNumber: nullable(number),
+    severity,
+    isThirdPartyScript: boolean,
+    vendor: nullable(string),
+    vendorCategory: nullable(vendorCategory),
+    isProgrammingError: boolean,
+  }),
+  [REPORT_KINDS.UNHANDLED_PROMISE_REJECTION]: object({
+    ...envelope(REPORT_KINDS.UNHANDLED_PROMISE_REJECTION),
+    occurredAt: timestamp,
+    errorMessage: string,
+    errorName: nullable(string),
+    stack: nullable(string),
+    severity,
+    isNetworkRelated: boolean,
+    isJavaScriptError: boolean,
+  }),
+};
+
+/**
+ * File name of the generated JSON Schema for a report kind.
+ */
+export const schemaFileName = (kind: ReportKind): string => `${kind}.schema.json`;
+
+export const REPORT_SCHEMA_FILE_NAME = 'report.schema.json';
+
+/**
+ * JSON Schema of every serialized report and collection, by kind.
+ */
+export const REPORT_JSON_SCHEMAS = Object.fromEntries(
+  Object.entries(schemas).map(([kind, schema]) => [kind, {
+    $schema: JSON_SCHEMA_DIALECT,
+    $id: schemaFileName(kind as ReportKind),
+    title: kind,
+    ...schema,
+  }])
+) as Record<ReportKind, JSONSchema>;
+
+/**
+ * JSON Schema matching any serialized report or collection (discriminated by `kind`).
+ */
+export const REPORT_JSON_SCHEMA: JSONSchema = {
+  $schema: JSON_SCHEMA_DIALECT,
+  $id: REPORT_SCHEMA_FILE_NAME,
+  title: `Rumora report (schema version ${SCHEMA_VERSION})`,
+  oneOf: Object.values(schemas),
+};
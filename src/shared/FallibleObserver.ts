@@ -1,5 +1,6 @@
-type SuccessCallback<T> = (value: T) => void;
-type ErrorCallback = (error: Error) => void;
+export type SuccessCallback<T> = (value: T) => void;
+export type ErrorCallback = (error: Error) => void;
+
 export abstract class FallibleObserver<T> {
   private successSubscribers = new Set<SuccessCallback<T>>();
   private errorSubscribers = new Set<ErrorCallback>();
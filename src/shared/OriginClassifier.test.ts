@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+
+import { windowLocationHelper } from '@/test/helpers/WindowLocationHelper';
+
+import { OriginClassifier } from './OriginClassifier';
+import { VENDOR_CATEGORIES } from './vendorCatalog';
+
+describe('OriginClassifier', () => {
+  beforeEach(() => {
+    windowLocationHelper.mock({ hostname: 'www.example.com', origin: 'https://www.example.com' });
+  });
+
+  afterEach(() => {
+    OriginClassifier.resetInstance();
+    windowLocationHelper.unmock();
+  });
+
+  it('should share a single instance through getInstance', () => {
+    // Then
+    expect(OriginClassifier.getInstance()).toBe(OriginClassifier.getInstance());
+  });
+
+  describe('first party', () => {
+    it('should classify subdomains of the page registrable domain as first party', () => {
+      // Given
+      const classifier = new OriginClassifier();
+
+      // Then
+      expect(classifier.isThirdParty('https://static.example.com/app.js')).toBe(false);
+      expect(classifier.isThirdParty('https://api.example.com/v1/users')).toBe(false);
+      expect(classifier.isThirdParty('https://example.com/')).toBe(false);
+      expect(classifier.isThirdParty('https://cdn.thirdparty.com/lib.js')).toBe(true);
+    });
+
+    it('should not share a registrable domain across a public suffix', () => {
+      // Given
+      windowLocationHelper.mock({ hostname: 'my-app.github.io', origin: 'https://my-app.github.io' });
+      const classifier = new OriginClassifier();
+
+      // Then
+      expect(classifier.isThirdParty('https://my-app.github.io/assets/app.js')).toBe(false);
+      expect(classifier.isThirdParty('https://other-app.github.io/widget.js')).toBe(true);
+    });
+
+    it('should classify the configured first-party domains as first party', () => {
+      // Given
+      const classifier = new OriginClassifier({
+        firstPartyDomains: ['example-cdn.net', '*.example-assets.com', /^img\d+\.media\.org$/],
+      });
+
+      // Then
+      expect(classifier.isThirdParty('https://example-cdn.net/app.js')).toBe(false);
+      expect(classifier.isThirdParty('https://eu.example-cdn.net/app.js')).toBe(false);
+      expect(classifier.isThirdParty('https://static.example-assets.com/app.css')).toBe(false);
+      expect(classifier.isThirdParty('https://example-assets.com/app.css')).toBe(true);
+      expect(classifier.isThirdParty('https://img2.media.org/hero.jpg')).toBe(false);
+      expect(classifier.isThirdParty('https://video.media.org/intro.mp4')).toBe(true);
+    });
+
+    it('should replace the first-party domains when configured again', () => {
+      // Given
+      const classifier = new OriginClassifier({ firstPartyDomains: ['example-cdn.net'] });
+
+      // When
+      classifier.configure({});
+
+      // Then
+      expect(classifier.isThirdParty('https://example-cdn.net/app.js')).toBe(true);
+    });
+
+    it('should expose the configured options', () => {
+      // Given
+      const vendors = [{ name: 'Acme Chat', category: VENDOR_CATEGORIES.CUSTOMER_SUPPORT, domains: ['acme-chat.io'] }];
+      const classifier = new OriginClassifier({ firstPartyDomains: ['example-cdn.net'], vendors });
+
+      // Then
+      expect(classifier.options).toEqual({ firstPartyDomains: ['example-cdn.net'], vendors });
+    });
+
+    it('should not classify URLs without a host', () => {
+      // Given
+      const classifier = new OriginClassifier();
+
+      // Then
+      expect(classifier.classify('data:image/png;base64,AAAA')).toBeNull();
+      expect(classifier.classify('not-a-valid-url')).toBeNull();
+      expect(classifier.isThirdParty('not-a-valid-url')).toBe(false);
+    });
+  });
+
+  describe('vendors', () => {
+    it('should map third-party hosts to the known vendor', () => {
+      // Given
+      const classifier = new OriginClassifier();
+
+      // When
+      const classification = classifier.classify('https://www.google-analytics.com/analytics.js');
+
+      // Then
+      expect(classification).toMatchObject({
+        origin: 'https://www.google-analytics.com',
+        hostname: 'www.google-analytics.com',
+        registrableDomain: 'google-analytics.com',
+        isThirdParty: true,
+        vendor: { name: 'Google Analytics', category: VENDOR_CATEGORIES.ANALYTICS },
+      });
+      expect(classifier.vendorOf('https://securepubads.g.doubleclick.net/tag/js/gpt.js')?.category)
+        .toBe(VENDOR_CATEGORIES.ADVERTISING);
+      expect(classifier.vendorOf('https://cdn.jsdelivr.net/npm/lib.js')?.category).toBe(VENDOR_CATEGORIES.CDN);
+    });
+
+    it('should not map unknown and first-party hosts to a vendor', () => {
+      // Given
+      const classifier = new OriginClassifier();
+
+      // Then
+      expect(classifier.vendorOf('https://cdn.thirdparty.com/lib.js')).toBeNull();
+      expect(classifier.vendorOf('https://static.example.com/app.js')).toBeNull();
+    });
+
+    it('should match the configured vendors before the catalog', () => {
+      // Given
+      const classifier = new OriginClassifier({
+        vendors: [{ name: 'Acme Chat', category: VENDOR_CATEGORIES.CUSTOMER_SUPPORT, domains: ['acme-chat.io', 'segment.com'] }],
+      });
+
+      // Then
+      expect(classifier.vendorOf('https://widget.acme-chat.io/loader.js')?.name).toBe('Acme Chat');
+      expect(classifier.vendorOf('https://cdn.segment.com/analytics.js')?.name).toBe('Acme Chat');
+      expect(classifier.vendorOf('https://www.googletagmanager.com/gtm.js')?.name).toBe('Google Tag Manager');
+    });
+  });
+});
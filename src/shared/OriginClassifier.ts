@@ -0,0 +1,155 @@
+import { isSSR } from './isSSR';
+import { registrableDomain } from './registrableDomain';
+import { VENDOR_CATALOG, findVendor, matchesDomain, type Vendor } from './vendorCatalog';
+
+/**
+ * Domain served by the site, e.g. `example-cdn.net` (the domain and its subdomains)
+ * or `*.example-cdn.net` (its subdomains only). RegExps are tested against the hostname.
+ */
+export type FirstPartyPattern = string | RegExp;
+
+export interface OriginClassifierOptions {
+  /** Domains belonging to the site besides the registrable domain of the page */
+  firstPartyDomains?: FirstPartyPattern[];
+  /** Vendors matched before the bundled VENDOR_CATALOG */
+  vendors?: Vendor[];
+}
+
+/**
+ * Party serving a URL.
+ */
+export interface OriginClassification {
+  origin: string;
+  hostname: string;
+  /** eTLD+1 of the hostname, null when the hostname is a public suffix */
+  registrableDomain: string | null;
+  isThirdParty: boolean;
+  /** Known vendor of a third-party hostname */
+  vendor: Vendor | null;
+}
+
+const matchesPattern = (hostname: string, pattern: FirstPartyPattern): boolean => {
+  if (pattern instanceof RegExp) return pattern.test(hostname);
+
+  const domain = pattern.toLowerCase();
+  if (domain.startsWith('*.')) return hostname.endsWith(domain.slice(1));
+  return matchesDomain(hostname, domain);
+};
+
+const parseURL = (url: string): URL | null => {
+  try {
+    return new URL(url);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Classifies the URLs of resources, scripts and CSP violations as first or third party,
+ * shared by every report.
+ *
+ * A hostname is first party when it shares the registrable domain (eTLD+1) of the page,
+ * so `static.example.com` and `api.example.com` are first party on `www.example.com`,
+ * or when it matches one of the configured first-party domains. Third-party hostnames
+ * are mapped to the vendor serving them (analytics, ads, CDN...) when it is known.
+ */
+export class OriginClassifier {
+  private static instance: OriginClassifier | null = null;
+
+  private firstPartyDomains: readonly FirstPartyPattern[] = [];
+  private customVendors: readonly Vendor[] = [];
+  private vendors: readonly Vendor[] = VENDOR_CATALOG;
+
+  constructor(options: OriginClassifierOptions = {}) {
+    this.configure(options);
+  }
+
+  /**
+   * Get the singleton instance of the origin classifier, shared by the reports.
+   * If the instance does not exist, it creates a new one.
+   *
+   * @returns Singleton instance of the origin classifier.
+   */
+  public static getInstance(): OriginClassifier {
+    if (!OriginClassifier.instance) {
+      OriginClassifier.instance = new OriginClassifier();
+    }
+    return OriginClassifier.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the origin classifier.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    OriginClassifier.instance = null;
+  }
+
+  /**
+   * Current first-party domains and additional vendors, e.g. to restore them after a
+   * temporary configure().
+   */
+  public get options(): OriginClassifierOptions {
+    return {
+      firstPartyDomains: [...this.firstPartyDomains],
+      vendors: [...this.customVendors],
+    };
+  }
+
+  /**
+   * Replaces the first-party domains and the additional vendors.
+   */
+  public configure(options: OriginClassifierOptions): this {
+    this.firstPartyDomains = [...(options.firstPartyDomains ?? [])];
+    this.customVendors = [...(options.vendors ?? [])];
+    this.vendors = [...this.customVendors, ...VENDOR_CATALOG];
+    return this;
+  }
+
+  /**
+   * Whether a hostname belongs to the site of the page.
+   */
+  public isFirstPartyHost(hostname: string): boolean {
+    const host = hostname.toLowerCase();
+    if (this.firstPartyDomains.some(pattern => matchesPattern(host, pattern))) return true;
+    if (isSSR()) return false;
+
+    const pageHost = window.location.hostname.toLowerCase();
+    if (host === pageHost) return true;
+
+    const domain = registrableDomain(host);
+    return domain !== null && domain === registrableDomain(pageHost);
+  }
+
+  /**
+   * Party serving the URL, null for unparsable URLs and URLs without a host (data:, about:).
+   */
+  public classify(url: string): OriginClassification | null {
+    const parsed = parseURL(url);
+    if (!parsed?.hostname) return null;
+
+    const hostname = parsed.hostname.toLowerCase();
+    const isThirdParty = !this.isFirstPartyHost(hostname);
+    return {
+      origin: parsed.origin,
+      hostname,
+      registrableDomain: registrableDomain(hostname),
+      isThirdParty,
+      vendor: isThirdParty ? findVendor(hostname, this.vendors) : null,
+    };
+  }
+
+  /**
+   * Whether the URL is served by a third party, false when it cannot be classified.
+   */
+  public isThirdParty(url: string): boolean {
+    return this.classify(url)?.isThirdParty ?? false;
+  }
+
+  /**
+   * Known vendor serving the URL, null for first-party and unknown hosts.
+   */
+  public vendorOf(url: string): Vendor | null {
+    return this.classify(url)?.vendor ?? null;
+  }
+}
@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { documentLifecycleHelper } from '@/test/helpers/DocumentLifecycleHelper';
+import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
+import { performanceObserverHelper } from '@/test/helpers/PerformanceObserverHelper';
+import { PerformanceNavigationTimingMother } from '@/test/mothers/PerformanceNavigationTimingMother';
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+
+import { PageLifecycle, SUPPRESSION_REASONS, relativeToActivation } from './PageLifecycle';
+
+describe('PageLifecycle', () => {
+  const lifecycles: PageLifecycle[] = [];
+
+  const createLifecycle = () => {
+    const lifecycle = new PageLifecycle();
+    lifecycles.push(lifecycle);
+    return lifecycle;
+  };
+
+  beforeEach(() => {
+    performanceAPIHelper.mock();
+    documentLifecycleHelper.mock();
+  });
+
+  afterEach(() => {
+    lifecycles.splice(0).forEach(lifecycle => lifecycle.dispose());
+    PageLifecycle.resetInstance();
+    performanceObserverHelper.unmock();
+    documentLifecycleHelper.unmock();
+    performanceAPIHelper.unmock();
+  });
+
+  it('should share a single instance through getInstance', () => {
+    // Then
+    expect(PageLifecycle.getInstance()).toBe(PageLifecycle.getInstance());
+  });
+
+  describe('hidden time', () => {
+    it('should not suppress metrics while the page was never hidden', () => {
+      // When
+      const lifecycle = createLifecycle();
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(Infinity);
+      expect(lifecycle.suppressionReasonOf(5000)).toBeNull();
+    });
+
+    it('should consider pages hidden when created as hidden from the start without visibility-state entries', () => {
+      // Given
+      documentLifecycleHelper.mock({ visibilityState: 'hidden' });
+
+      // When
+      const lifecycle = createLifecycle();
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(0);
+      expect(lifecycle.suppressionReasonOf(800)).toBe(SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC);
+    });
+
+    it('should record the first time the page is hidden', () => {
+      // Given
+      const lifecycle = createLifecycle();
+      vi.mocked(performance.now).mockReturnValue(2000);
+
+      // When
+      documentLifecycleHelper.hide();
+      vi.mocked(performance.now).mockReturnValue(4000);
+      documentLifecycleHelper.hide();
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(2000);
+      expect(lifecycle.suppressionReasonOf(1500)).toBeNull();
+      expect(lifecycle.suppressionReasonOf(2500)).toBe(SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC);
+    });
+
+    it('should read the first hidden time from the buffered visibility-state entries', () => {
+      // Given
+      performanceObserverHelper.mock({ supportedEntryTypes: ['visibility-state'] });
+      vi.mocked(performance.getEntriesByType).mockImplementation(type => type === 'visibility-state'
+        ? [
+          { name: 'visible', entryType: 'visibility-state', startTime: 0 },
+          { name: 'hidden', entryType: 'visibility-state', startTime: 1800 },
+          { name: 'visible', entryType: 'visibility-state', startTime: 3000 },
+        ] as PerformanceEntry[]
+        : []);
+
+      // When
+      const lifecycle = createLifecycle();
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(1800);
+    });
+
+    it('should read the first hidden time from the buffered entries when created as hidden', () => {
+      // Given
+      performanceObserverHelper.mock({ supportedEntryTypes: ['visibility-state'] });
+      documentLifecycleHelper.mock({ visibilityState: 'hidden' });
+      vi.mocked(performance.getEntriesByType).mockImplementation(type => type === 'visibility-state'
+        ? [
+          { name: 'visible', entryType: 'visibility-state', startTime: 0 },
+          { name: 'hidden', entryType: 'visibility-state', startTime: 4200 },
+        ] as PerformanceEntry[]
+        : []);
+
+      // When
+      const lifecycle = createLifecycle();
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(4200);
+      expect(lifecycle.suppressionReasonOf(2500)).toBeNull();
+    });
+
+    it('should track the hidden time again when the page is restored from the back/forward cache', () => {
+      // Given
+      const lifecycle = createLifecycle();
+      documentLifecycleHelper.hide();
+      documentLifecycleHelper.mock({ visibilityState: 'visible' });
+
+      // When
+      window.dispatchEvent(new PageTransitionEvent('pageshow', { persisted: true }));
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(Infinity);
+    });
+
+    it('should not consider prerendering pages hidden', () => {
+      // Given
+      documentLifecycleHelper.mock({ visibilityState: 'hidden', prerendering: true });
+      const lifecycle = createLifecycle();
+
+      // When
+      documentLifecycleHelper.hide();
+
+      // Then
+      expect(lifecycle.firstHiddenTime).toBe(Infinity);
+    });
+  });
+
+  describe('activation', () => {
+    it('should read the activation of prerendered pages from the navigation entry', () => {
+      // Given
+      const navigation: PerformanceNavigationTimingEntry = {
+        ...PerformanceNavigationTimingMother.custom({}),
+        activationStart: 1200,
+      };
+      vi.mocked(performance.getEntriesByType).mockReturnValue([navigation]);
+
+      // When
+      const lifecycle = createLifecycle();
+
+      // Then
+      expect(lifecycle.wasPrerendered).toBe(true);
+      expect(lifecycle.activationStart).toBe(1200);
+      expect(lifecycle.toActivationTime(1500)).toBe(300);
+      expect(lifecycle.toActivationTime(900)).toBe(0);
+    });
+
+    it('should measure pages that were not prerendered from the time origin', () => {
+      // When
+      const lifecycle = createLifecycle();
+
+      // Then
+      expect(lifecycle.wasPrerendered).toBe(false);
+      expect(lifecycle.toActivationTime(1500)).toBe(1500);
+      expect(relativeToActivation(1500)).toBe(1500);
+    });
+
+    it('should call back immediately when the page is not prerendering', () => {
+      // Given
+      const callback = vi.fn();
+
+      // When
+      createLifecycle().whenActivated(callback);
+
+      // Then
+      expect(callback).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call back once a prerendering page is activated', () => {
+      // Given
+      documentLifecycleHelper.mock({ visibilityState: 'hidden', prerendering: true });
+      const lifecycle = createLifecycle();
+      const callback = vi.fn();
+      const cancelled = vi.fn();
+      lifecycle.whenActivated(callback);
+      lifecycle.whenActivated(cancelled)();
+
+      // When
+      documentLifecycleHelper.activate();
+
+      // Then
+      expect(lifecycle.isPrerendering).toBe(false);
+      expect(callback).toHaveBeenCalledTimes(1);
+      expect(cancelled).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,199 @@
+import type { PerformanceNavigationTimingEntry } from '@/types/PerformanceEntryTypes';
+import { isSSR } from './isSSR';
+import { onBFCacheRestore } from './onBFCacheRestore';
+
+/**
+ * Why a metric was not reported.
+ */
+export const SUPPRESSION_REASONS = {
+  /** The page was hidden (e.g. loaded in a background tab) before the metric occurred */
+  HIDDEN_BEFORE_METRIC: 'hidden-before-metric',
+} as const;
+
+export type SuppressionReason = (typeof SUPPRESSION_REASONS)[keyof typeof SUPPRESSION_REASONS];
+
+/**
+ * Document with the Speculation Rules prerendering state.
+ */
+interface PrerenderingDocument extends Document {
+  readonly prerendering?: boolean;
+}
+
+/**
+ * Time of an entry measured from the activation of a prerendered page instead of the
+ * time origin. Entries recorded while prerendering are clamped to the activation.
+ *
+ * @param activationStart - Activation time of the page, 0 when it was not prerendered
+ */
+export const relativeToActivation = (time: number, activationStart = 0): number => (
+  Math.max(time - activationStart, 0)
+);
+
+const isPrerendering = (): boolean => (document as PrerenderingDocument).prerendering === true;
+
+const supportsVisibilityStateEntries = (): boolean => (
+  typeof PerformanceObserver !== 'undefined' &&
+  (PerformanceObserver.supportedEntryTypes ?? []).includes('visibility-state')
+);
+
+/**
+ * Time of the first hidden visibility-state entry after the activation, Infinity when the
+ * page was never hidden or visibility-state entries are not supported.
+ */
+const bufferedHiddenTime = (activationStart: number): number => {
+  const hidden = performance.getEntriesByType('visibility-state')
+    .find(entry => entry.name === 'hidden' && entry.startTime >= activationStart);
+  return hidden?.startTime ?? Infinity;
+};
+
+/**
+ * Lifecycle of the page shared by the observers of its loading metrics.
+ *
+ * Tracks whether the page is being prerendered (Speculation Rules), when it was
+ * activated and when it was hidden for the first time:
+ * - Paint metrics of a prerendered page are measured from its activation, as
+ *   nothing was shown to the user before.
+ * - Paint metrics occurring after the page was hidden, such as pages loaded in a
+ *   background tab, do not reflect what the user saw and are suppressed.
+ *
+ * The first hidden time is read from the buffered visibility-state entries where
+ * supported, so a lifecycle created late in a background tab still knows the page was
+ * visible before. Elsewhere the page is considered hidden from the start when it was
+ * already hidden when the lifecycle was created, so the client creates it on start.
+ * A restore from the back/forward cache starts a new page view, whose hidden time is
+ * tracked again. Soft navigations do not reset it: observers measuring per route track
+ * the hidden time of the route themselves.
+ */
+export class PageLifecycle {
+  private static instance: PageLifecycle | null = null;
+
+  private hiddenTime = Infinity;
+  private readonly activationCallbacks = new Set<() => void>();
+  private readonly boundVisibilityChange: () => void;
+  private readonly boundPrerenderingChange: () => void;
+  private removeBFCacheRestoreListener: (() => void) | null = null;
+
+  constructor() {
+    this.boundVisibilityChange = this.handleVisibilityChange.bind(this);
+    this.boundPrerenderingChange = this.handlePrerenderingChange.bind(this);
+    if (isSSR()) return;
+
+    if (!isPrerendering()) this.hiddenTime = this.initialHiddenTime();
+    // Capture phase, so the hidden time is known before metric listeners run
+    window.addEventListener('visibilitychange', this.boundVisibilityChange, true);
+    document.addEventListener('prerenderingchange', this.boundPrerenderingChange, true);
+    this.removeBFCacheRestoreListener = onBFCacheRestore(restoredAt => this.handleBFCacheRestore(restoredAt.relativeTime));
+  }
+
+  /**
+   * Get the singleton instance of the page lifecycle, shared by the observers.
+   * If the instance does not exist, it creates a new one.
+   *
+   * @returns Singleton instance of the page lifecycle.
+   */
+  public static getInstance(): PageLifecycle {
+    if (!PageLifecycle.instance) {
+      PageLifecycle.instance = new PageLifecycle();
+    }
+    return PageLifecycle.instance;
+  }
+
+  /**
+   * Reset the singleton instance of the page lifecycle.
+   * This is useful for testing or re-initialization purposes.
+   */
+  public static resetInstance(): void {
+    PageLifecycle.instance?.dispose();
+    PageLifecycle.instance = null;
+  }
+
+  /**
+   * Whether the page is being prerendered and was not activated yet.
+   */
+  public get isPrerendering(): boolean {
+    return !isSSR() && isPrerendering();
+  }
+
+  /**
+   * Time when the prerendered page was activated, 0 when it was not prerendered.
+   */
+  public get activationStart(): number {
+    if (isSSR()) return 0;
+    const navigation = performance.getEntriesByType('navigation')[0] as PerformanceNavigationTimingEntry | undefined;
+    return navigation?.activationStart ?? 0;
+  }
+
+  public get wasPrerendered(): boolean {
+    return this.activationStart > 0;
+  }
+
+  /**
+   * Time when the page was hidden for the first time, Infinity while it was never hidden.
+   */
+  public get firstHiddenTime(): number {
+    return this.hiddenTime;
+  }
+
+  /**
+   * Time of an entry measured from the activation of the page.
+   */
+  public toActivationTime(time: number): number {
+    return relativeToActivation(time, this.activationStart);
+  }
+
+  /**
+   * Why a metric occurring at the given time must not be reported, null when it can be.
+   */
+  public suppressionReasonOf(time: number): SuppressionReason | null {
+    return time >= this.hiddenTime ? SUPPRESSION_REASONS.HIDDEN_BEFORE_METRIC : null;
+  }
+
+  /**
+   * Calls the callback once the page is activated, immediately when it is not prerendering.
+   *
+   * @returns Function cancelling the callback
+   */
+  public whenActivated(callback: () => void): () => void {
+    if (this.isPrerendering) this.activationCallbacks.add(callback);
+    else callback();
+
+    return () => {
+      this.activationCallbacks.delete(callback);
+    };
+  }
+
+  public dispose(): void {
+    if (!isSSR()) {
+      window.removeEventListener('visibilitychange', this.boundVisibilityChange, true);
+      document.removeEventListener('prerenderingchange', this.boundPrerenderingChange, true);
+    }
+    this.removeBFCacheRestoreListener?.();
+    this.removeBFCacheRestoreListener = null;
+    this.activationCallbacks.clear();
+    this.hiddenTime = Infinity;
+  }
+
+  private initialHiddenTime(): number {
+    if (supportsVisibilityStateEntries()) return bufferedHiddenTime(this.activationStart);
+    return document.visibilityState === 'hidden' ? 0 : Infinity;
+  }
+
+  /**
+   * Tracks the first hidden time again from the restore of the page from the back/forward cache.
+   */
+  private handleBFCacheRestore(restoredAt: number): void {
+    this.hiddenTime = document.visibilityState === 'hidden' ? restoredAt : Infinity;
+  }
+
+  private handleVisibilityChange(): void {
+    // Prerendered pages are hidden until activated, which is not seen by the user
+    if (document.visibilityState !== 'hidden' || isPrerendering()) return;
+    this.hiddenTime = Math.min(this.hiddenTime, performance.now());
+  }
+
+  private handlePrerenderingChange(): void {
+    const callbacks = [...this.activationCallbacks];
+    this.activationCallbacks.clear();
+    callbacks.forEach(callback => callback());
+  }
+}
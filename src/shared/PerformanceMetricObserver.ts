@@ -1,23 +1,52 @@
 import { FallibleObserver } from '@/shared/FallibleObserver';
 import type { PerformanceObserverConfig } from '@/types/PerformanceObserverTypes';
 import { isSSR } from './isSSR';
+import { onBFCacheRestore } from './onBFCacheRestore';
+import { PageLifecycle } from './PageLifecycle';
+import type { PerformanceTime } from '@/value-objects/PerformanceTime';
 import { UnsupportedMetricException, UnsupportedSSRException } from '@/exceptions/UnsupportedExceptions';
 import { PerformanceHandlerException } from '@/exceptions/PerformanceObserverExceptions';
 
-export abstract class PerformanceMetricObserver<T> extends FallibleObserver<T> {
+/**
+ * Options shared by every performance metric observer.
+ */
+export interface PerformanceMetricObserverOptions<E extends PerformanceEntry = PerformanceEntry> {
+  /** Whether entries recorded before the observer started are delivered (default: true) */
+  buffered?: boolean;
+  /** Entries for which this returns false are ignored */
+  entryFilter?: (entry: E) => boolean;
+}
+
+export abstract class PerformanceMetricObserver<T, E extends PerformanceEntry = PerformanceEntry> extends FallibleObserver<T> {
   private performanceObserver: PerformanceObserver | null = null;
   private readonly performanceObserverConfig: PerformanceObserverConfig;
-  private readonly entryType: string;
+  private readonly entryTypes: readonly string[];
+  private readonly entryFilter: ((entry: E) => boolean) | null;
   private isListening: boolean;
+  private removeBFCacheRestoreListener: (() => void) | null = null;
+  private cancelActivationWait: (() => void) | null = null;
+
+  /**
+   * Whether observation waits until a prerendered page is activated. Set by the observers
+   * of paint metrics, which are measured from the activation.
+   */
+  protected readonly startsAfterActivation: boolean = false;
 
-  constructor(entryType: string, performanceObserverConfig: PerformanceObserverConfig = {}) {
+  /**
+   * @param entryType - Entry type to observe, or several entry types observed by the same PerformanceObserver
+   */
+  constructor(
+    entryType: string | readonly string[],
+    performanceObserverConfig: PerformanceObserverConfig = {},
+    options: PerformanceMetricObserverOptions<E> = {}
+  ) {
     super();
-    this.entryType = entryType;
+    this.entryTypes = typeof entryType === 'string' ? [entryType] : entryType;
     this.performanceObserverConfig = {
-      type: this.entryType,
-      buffered: true,
+      buffered: options.buffered ?? true,
       ...performanceObserverConfig
     };
+    this.entryFilter = options.entryFilter ?? null;
     this.performanceObserver = new PerformanceObserver(
       this.handleOnPerformanceObserver.bind(this)
     );
@@ -25,7 +54,11 @@ export abstract class PerformanceMetricObserver<T> extends FallibleObserver<T> {
   }
 
   public dispose(): void {
+    this.cancelActivationWait?.();
+    this.cancelActivationWait = null;
     this.stop();
+    this.removeBFCacheRestoreListener?.();
+    this.removeBFCacheRestoreListener = null;
     this.clearSubscribers();
     this.performanceObserver = null;
   }
@@ -35,16 +68,47 @@ export abstract class PerformanceMetricObserver<T> extends FallibleObserver<T> {
     this.isListening = false;
   }
 
-  protected override onSubscribe(): void {
+  /**
+   * Observes again after stop(), delivering the buffered entries again when buffered.
+   */
+  protected resume(): void {
     if (this.isListening) return;
     this.start();
   }
 
+  protected override onSubscribe(): void {
+    if (!this.startsAfterActivation || !PageLifecycle.getInstance().isPrerendering) {
+      this.resume();
+      return;
+    }
+
+    this.cancelActivationWait ??= PageLifecycle.getInstance().whenActivated(() => {
+      this.cancelActivationWait = null;
+      this.resume();
+    });
+  }
+
   protected abstract onPerformanceObserver(entry: PerformanceObserverEntryList): void;
 
+  /**
+   * Called when the page is restored from the back/forward cache, even after stop().
+   * Observers measuring the page view implement it to start a new measurement epoch:
+   * the browser emits no new navigation or paint entries for a restored page.
+   */
+  protected onBFCacheRestore?(restoredAt: PerformanceTime): void;
+
+  private handleBFCacheRestore(restoredAt: PerformanceTime): void {
+    try {
+      this.onBFCacheRestore?.(restoredAt);
+    }
+    catch (error) {
+      this.notifyError(new PerformanceHandlerException(error));
+    }
+  }
+
   private handleOnPerformanceObserver(entryList: PerformanceObserverEntryList): void {
     try {
-      this.onPerformanceObserver(entryList);
+      this.onPerformanceObserver(this.filterEntryList(entryList));
     }
     catch (error) {
       const wrappedError = new PerformanceHandlerException(error);
@@ -52,6 +116,18 @@ export abstract class PerformanceMetricObserver<T> extends FallibleObserver<T> {
     }
   }
 
+  private filterEntryList(entryList: PerformanceObserverEntryList): PerformanceObserverEntryList {
+    const entryFilter = this.entryFilter;
+    if (!entryFilter) return entryList;
+
+    const accept = (entries: PerformanceEntryList) => entries.filter(entry => entryFilter(entry as E));
+    return {
+      getEntries: () => accept(entryList.getEntries()),
+      getEntriesByType: (type: string) => accept(entryList.getEntriesByType(type)),
+      getEntriesByName: (name: string, type?: string) => accept(entryList.getEntriesByName(name, type)),
+    };
+  }
+
   private start(): void {
     if (isSSR()) {
       const error = new UnsupportedSSRException();
@@ -60,7 +136,7 @@ export abstract class PerformanceMetricObserver<T> extends FallibleObserver<T> {
     }
 
     if (!this.isSupported()) {
-      const error = new UnsupportedMetricException(this.entryType);
+      const error = new UnsupportedMetricException(this.entryTypes.join(', '));
       this.notifyError(error);
       return;
     }
@@ -68,14 +144,20 @@ export abstract class PerformanceMetricObserver<T> extends FallibleObserver<T> {
     this.performanceObserver = new PerformanceObserver(
       this.handleOnPerformanceObserver.bind(this)
     );
-    this.performanceObserver.observe(this.performanceObserverConfig);
+    for (const type of this.entryTypes) {
+      this.performanceObserver.observe({ type, ...this.performanceObserverConfig });
+    }
     this.isListening = true;
+
+    if (this.onBFCacheRestore && !this.removeBFCacheRestoreListener) {
+      this.removeBFCacheRestoreListener = onBFCacheRestore(this.handleBFCacheRestore.bind(this));
+    }
   }
 
   private isSupported(): boolean {
     return (
       'PerformanceObserver' in window &&
-      PerformanceObserver.supportedEntryTypes.includes(this.entryType)
+      this.entryTypes.every(type => PerformanceObserver.supportedEntryTypes.includes(type))
     );
   }
 }
\ No newline at end of file
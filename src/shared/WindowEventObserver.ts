@@ -4,6 +4,14 @@ import { UnsupportedSSRException } from '@/exceptions/UnsupportedExceptions';
 import type { Report } from '@/reports/Report';
 import { EventObserverHandlerException } from '@/exceptions/EventObserverExceptions';
 
+/**
+ * Options shared by every window event observer.
+ */
+export interface WindowEventObserverOptions<K extends keyof WindowEventMap> {
+  /** Events for which this returns false are ignored */
+  eventFilter?: (event: WindowEventMap[K]) => boolean;
+}
+
 /**
   * Abstract observer for capturing window events.
   * Listens for specified events on the window and generates reports
@@ -13,11 +21,13 @@ import { EventObserverHandlerException } from '@/exceptions/EventObserverExcepti
 export abstract class WindowEventObserver<K extends keyof WindowEventMap, T extends Report> extends FallibleObserver<T> {
   private isListening = false;
   private readonly eventType: K;
+  private readonly eventFilter: ((event: WindowEventMap[K]) => boolean) | null;
   private readonly boundHandler: (event: WindowEventMap[K]) => void;
 
-  constructor(eventType: K) {
+  constructor(eventType: K, options: WindowEventObserverOptions<K> = {}) {
     super();
     this.eventType = eventType;
+    this.eventFilter = options.eventFilter ?? null;
     this.boundHandler = this.handleOnEvent.bind(this);
   }
 
@@ -32,6 +42,7 @@ export abstract class WindowEventObserver<K extends keyof WindowEventMap, T exte
 
   private handleOnEvent(event: WindowEventMap[K]): void {
     try {
+      if (this.eventFilter && !this.eventFilter(event)) return;
       this.onEvent(event);
     }
     catch (error) {
@@ -0,0 +1,7 @@
+/**
+ * Calls the callback once the next frame has been presented: the second
+ * animation frame callback only runs after the first frame was painted.
+ */
+export const afterNextPaint = (callback: () => void): void => {
+  requestAnimationFrame(() => requestAnimationFrame(callback));
+};
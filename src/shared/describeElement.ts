@@ -0,0 +1,18 @@
+const MAX_CLASSES = 3;
+
+/**
+ * Builds a short CSS-like descriptor for a DOM element (e.g. `img#hero.banner`).
+ * Serialized reports carry this descriptor instead of the element itself.
+ */
+export const describeElement = (element: Element | null | undefined): string | null => {
+  if (!element) return null;
+
+  const tagName = element.tagName.toLowerCase();
+  const id = element.id ? `#${element.id}` : '';
+  const classes = Array.from(element.classList)
+    .slice(0, MAX_CLASSES)
+    .map(className => `.${className}`)
+    .join('');
+
+  return `${tagName}${id}${classes}`;
+};
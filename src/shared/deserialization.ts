@@ -0,0 +1,134 @@
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
+import { type ReportKind, SCHEMA_VERSION } from '@/types/ReportKinds';
+import {
+  InvalidFieldException,
+  InvalidPayloadException,
+  ReportKindMismatchException,
+  UnsupportedSchemaVersionException
+} from '@/exceptions/SerializationExceptions';
+
+/**
+ * Parsed JSON object, as received by fromJSON factories.
+ */
+export type JSONRecord = Record<string, unknown>;
+
+export const isJSONRecord = (value: unknown): value is JSONRecord => (
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+);
+
+/**
+ * Ensures the payload is a JSON object.
+ */
+export const readRecord = (json: unknown, expected = 'an object'): JSONRecord => {
+  if (!isJSONRecord(json)) throw new InvalidPayloadException(expected);
+  return json;
+};
+
+/**
+ * Ensures the payload is a JSON object carrying the expected report kind
+ * and the supported schema version.
+ */
+export const readReportPayload = (json: unknown, kind: ReportKind): JSONRecord => {
+  const record = readRecord(json, `a serialized "${kind}" report`);
+  if (record.kind !== kind) throw new ReportKindMismatchException(kind, record.kind);
+  if (record.schemaVersion !== SCHEMA_VERSION) {
+    throw new UnsupportedSchemaVersionException(record.schemaVersion, SCHEMA_VERSION);
+  }
+  return record;
+};
+
+export const readString = (record: JSONRecord, field: string): string => {
+  const value = record[field];
+  if (typeof value !== 'string') throw new InvalidFieldException(field, 'a string');
+  return value;
+};
+
+export const readOptionalString = (record: JSONRecord, field: string): string | undefined => {
+  if (record[field] === undefined || record[field] === null) return undefined;
+  return readString(record, field);
+};
+
+export const readNumber = (record: JSONRecord, field: string): number => {
+  const value = record[field];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new InvalidFieldException(field, 'a finite number');
+  }
+  return value;
+};
+
+export const readOptionalNumber = (record: JSONRecord, field: string): number | undefined => {
+  if (record[field] === undefined || record[field] === null) return undefined;
+  return readNumber(record, field);
+};
+
+export const readBoolean = (record: JSONRecord, field: string): boolean => {
+  const value = record[field];
+  if (typeof value !== 'boolean') throw new InvalidFieldException(field, 'a boolean');
+  return value;
+};
+
+/**
+ * Reads a string field restricted to the given values.
+ */
+export const readOneOf = <T extends string>(record: JSONRecord, field: string, values: readonly T[]): T => {
+  const value = record[field];
+  if (typeof value !== 'string' || !values.some(allowed => allowed === value)) {
+    throw new InvalidFieldException(field, `one of ${values.join(', ')}`);
+  }
+  return value as T;
+};
+
+/**
+ * Reads an array field, converting each item with the given reader.
+ * Errors raised by the reader are reported against the item path (e.g. "reports[2]").
+ */
+export const readArray = <T>(
+  record: JSONRecord,
+  field: string,
+  readItem: (item: unknown) => T
+): T[] => {
+  const value = record[field];
+  if (!Array.isArray(value)) throw new InvalidFieldException(field, 'an array');
+
+  return value.map((item: unknown, index) => {
+    try {
+      return readItem(item);
+    } catch (error) {
+      throw new InvalidFieldException(`${field}[${index}]`, 'a valid item', error);
+    }
+  });
+};
+
+/**
+ * Reads an epoch timestamp (as emitted by toJSON) into a PerformanceTime.
+ */
+export const readTime = (record: JSONRecord, field: string): PerformanceTime => {
+  const value = readNumber(record, field);
+  try {
+    return PerformanceTime.fromEpochTime(value);
+  } catch (error) {
+    throw new InvalidFieldException(field, 'a non-negative epoch timestamp', error);
+  }
+};
+
+export const readOptionalTime = (record: JSONRecord, field: string): PerformanceTime | undefined => {
+  if (record[field] === undefined || record[field] === null) return undefined;
+  return readTime(record, field);
+};
+
+/**
+ * Reads a serialized TimeSegment ({ duration, start, end }).
+ */
+export const readSegment = (record: JSONRecord, field: string): TimeSegment => {
+  try {
+    return TimeSegment.fromJSON(record[field]);
+  } catch (error) {
+    throw new InvalidFieldException(field, 'a serialized TimeSegment', error);
+  }
+};
+
+export const readOptionalSegment = (record: JSONRecord, field: string): TimeSegment | undefined => {
+  if (record[field] === undefined || record[field] === null) return undefined;
+  return readSegment(record, field);
+};
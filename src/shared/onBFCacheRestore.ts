@@ -0,0 +1,16 @@
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+/**
+ * Calls the listener whenever the page is restored from the back/forward cache
+ * (a pageshow event with persisted set), with the restore time.
+ *
+ * @returns Function removing the listener
+ */
+export const onBFCacheRestore = (listener: (restoredAt: PerformanceTime) => void): (() => void) => {
+  const handlePageShow = (event: PageTransitionEvent) => {
+    if (event.persisted) listener(PerformanceTime.now());
+  };
+
+  window.addEventListener('pageshow', handlePageShow);
+  return () => window.removeEventListener('pageshow', handlePageShow);
+};
@@ -0,0 +1,63 @@
+/**
+ * History API call or event that changed the URL.
+ */
+export const HISTORY_CHANGES = {
+  PUSH_STATE: 'push-state',
+  REPLACE_STATE: 'replace-state',
+  POPSTATE: 'popstate',
+} as const;
+
+export type HistoryChange = (typeof HISTORY_CHANGES)[keyof typeof HISTORY_CHANGES];
+
+type HistoryListener = (change: HistoryChange) => void;
+
+const listeners = new Set<HistoryListener>();
+let originalMethods: Pick<History, 'pushState' | 'replaceState'> | null = null;
+
+const notify = (change: HistoryChange) => {
+  listeners.forEach(listener => listener(change));
+};
+
+const handlePopState = () => notify(HISTORY_CHANGES.POPSTATE);
+
+const patchHistory = () => {
+  const { pushState, replaceState } = history;
+  originalMethods = { pushState, replaceState };
+
+  history.pushState = function (...args: Parameters<History['pushState']>) {
+    pushState.apply(this, args);
+    notify(HISTORY_CHANGES.PUSH_STATE);
+  };
+  history.replaceState = function (...args: Parameters<History['replaceState']>) {
+    replaceState.apply(this, args);
+    notify(HISTORY_CHANGES.REPLACE_STATE);
+  };
+  window.addEventListener('popstate', handlePopState);
+};
+
+const restoreHistory = () => {
+  if (!originalMethods) return;
+  history.pushState = originalMethods.pushState;
+  history.replaceState = originalMethods.replaceState;
+  originalMethods = null;
+  window.removeEventListener('popstate', handlePopState);
+};
+
+/**
+ * Calls the listener after every history.pushState(), history.replaceState()
+ * and popstate event, once the URL has changed.
+ *
+ * The History API is patched once for every listener and restored when the
+ * last one unsubscribes.
+ *
+ * @returns Function removing the listener
+ */
+export const onHistoryChange = (listener: HistoryListener): (() => void) => {
+  if (listeners.size === 0) patchHistory();
+  listeners.add(listener);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) restoreHistory();
+  };
+};
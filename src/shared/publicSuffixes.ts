@@ -0,0 +1,802 @@
+/**
+ * Public Suffix List (https://publicsuffix.org/list/) used to find the registrable
+ * domain (eTLD+1) of a hostname. Internationalized rules are in punycode, like hostnames.
+ *
+ * Generated by scripts/generate-public-suffixes.mjs, do not edit: run `pnpm public-suffixes`.
+ */
+
+/** Version of the Public Suffix List the rules were generated from */
+export const PUBLIC_SUFFIX_LIST_VERSION = 'psl@1.15.0 (2024-12-06)';
+
+/**
+ * Rules packed as a trie of labels from the TLD down, parsed on first use: `label(children)`,
+ * siblings separated by commas. `*` children are wildcard rules, `!label` children their
+ * exceptions, and `~` follows labels that are not a rule themselves. TLDs without children
+ * are left out, they are public suffixes through the default `*` rule of the list.
+ */
+export const PACKED_PUBLIC_SUFFIXES =
+  'ac(com,drr,edu,feedback,forms,gov,mil,net,org),academy(official),ae(ac,blogspot,co,gov,mil,' +
+  'net,org,sch),aero(accident-investigation,accident-prevention,aerobatic,aeroclub,aerodrome,' +
+  'agents,air-surveillance,air-traffic-control,aircraft,airline,airport,airtraffic,ambulance,' +
+  'association,author,ballooning,broker,caa,cargo,catering,certification,championship,charter,' +
+  'civilaviation,club,conference,consultant,consulting,control,council,crew,design,dgca,educator,' +
+  'emergency,engine,engineer,entertainment,equipment,exchange,express,federation,flight,freight,' +
+  'fuel,gliding,government,groundhandling,group,hanggliding,homebuilt,insurance,journal,' +
+  'journalist,leasing,logistics,magazine,maintenance,marketplace,media,microlight,modelling,' +
+  'navigation,parachuting,paragliding,passenger-association,pilot,press,production,recreation,' +
+  'repbody,res,research,rotorcraft,safety,scientist,services,show,skydiving,software,student,' +
+  'taxi,trader,trading,trainer,union,workinggroup,works),af(com,edu,gov,net,org),ag(co,com,net,' +
+  'nom,org),ai(com,framer,net,off,org,uwu),al(blogspot,com,edu,gov,mil,net,org),am(blogspot,co,' +
+  'com,commune,net,org,radio),ao(co,ed,edu,gov,gv,it,og,org,pb),app(adaptable,beget~(*),' +
+  'bookonline,clerk,clerkstage,csb(preview),deta,developer~(*),easypanel,edgecompute,encr,' +
+  'evervault~(relay),expo(staging),flutterflow,framer,hasura,hosted~(*),loginline,medusajs,' +
+  'messerli,netfy,netlify,ngrok,ngrok-free,noop,northflank~(*),nyat,ondigitalocean,platform0,' +
+  'replit(id),run~(*),snowflake~(*,privatelink~(*)),storipress,streamlit,telebit,typedream,' +
+  'upsun~(*),vercel,wdh,web,wnext,zeabur),ar(bet,com(blogspot),coop,edu,gob,gov,int,mil,musica,' +
+  'mutual,net,org,senasa,tur),arpa(e164,home,in-addr,ip6,iris,uri,urn),as(gov),asia(cloudns,' +
+  'daemon,dix),at(123webseite,12hp,2ix,4lima,ac(sth),biz,co(blogspot),funkfeuer~(wien),' +
+  'futurecms~(*,ex~(*),in~(*)),futurehosting,futuremailing,gv,info,lima-city,myspreadshop,or,' +
+  'ortsinfo~(ex~(*),kunden~(*)),priv),au(act,asn,com(blogspot,cloudlets~(mel),myspreadshop),conf,' +
+  'edu(act,catholic,nsw(schools),nt,qld,sa,tas,vic,wa),gov(qld,sa,tas,vic,wa),id,net,nsw,nt,org,' +
+  'oz,qld,sa,tas,vic,wa),aw(com),aws(repost~(private~(*)),sagemaker~(af-south-1~(notebook,' +
+  'studio),ap-east-1~(notebook,studio),ap-northeast-1~(labeling,notebook,studio),' +
+  'ap-northeast-2~(labeling,notebook,studio),ap-northeast-3~(notebook,studio),' +
+  'ap-south-1~(labeling,notebook,studio),ap-south-2~(notebook),ap-southeast-1~(labeling,notebook,' +
+  'studio),ap-southeast-2~(labeling,notebook,studio),ap-southeast-3~(notebook,studio),' +
+  'ap-southeast-4~(notebook),ca-central-1~(labeling,notebook,notebook-fips,studio),' +
+  'ca-west-1~(notebook,notebook-fips),eu-central-1~(labeling,notebook,studio),' +
+  'eu-central-2~(notebook),eu-north-1~(notebook,studio),eu-south-1~(notebook,studio),' +
+  'eu-south-2~(notebook,studio),eu-west-1~(labeling,notebook,studio),eu-west-2~(labeling,' +
+  'notebook,studio),eu-west-3~(notebook,studio),experiments~(*),il-central-1~(notebook,studio),' +
+  'me-central-1~(notebook,studio),me-south-1~(notebook,studio),sa-east-1~(notebook,studio),' +
+  'us-east-1~(labeling,notebook,notebook-fips,studio),us-east-2~(labeling,notebook,notebook-fips,' +
+  'studio),us-gov-east-1~(notebook,notebook-fips,studio,studio-fips),us-gov-west-1~(notebook,' +
+  'notebook-fips,studio,studio-fips),us-west-1~(notebook,notebook-fips,studio),' +
+  'us-west-2~(labeling,notebook,notebook-fips,studio))),az(biz,com,edu,gov,info,int,mil,name,net,' +
+  'org,pp,pro),ba(blogspot,com,edu,gov,mil,net,org,rs),basketball(aus,nz),bb(biz,co,com,edu,gov,' +
+  'info,net,org,store,tv),bd~(*),be(123website,ac,blogspot,cloudns,interhostsolutions~(cloud),' +
+  'kuleuven~(ezproxy),myspreadshop,transurl~(*),webhosting),bf(gov),bg(0,1,2,3,4,5,6,7,8,9,a,b,' +
+  'barsy,blogspot,c,d,e,f,g,h,i,j,k,l,m,n,o,p,q,r,s,t,u,v,w,x,y,z),bh(com,edu,gov,net,org),bi(co,' +
+  'com,edu,or,org),biz(activetrail,cloud-ip,cloudns,dscloud,dyndns,for-better,for-more,for-some,' +
+  'for-the,jozi,mmafan,myftp,no-ip,orx,selfip,webhop),bj(africa,agro,architectes,assur,avocats,' +
+  'blogspot,co,com,eco,econo,edu,info,loisirs,money,net,org,ote,restaurant,resto,tourism,univ),' +
+  'bm(com,edu,gov,net,org),bn(co,com,edu,gov,net,org),bo(academia,agro,arte,blog,bolivia,ciencia,' +
+  'com,cooperativa,democracia,deporte,ecologia,economia,edu,empresa,gob,indigena,industria,info,' +
+  'int,medicina,mil,movimiento,musica,natural,net,nombre,noticias,org,patria,plurinacional,' +
+  'politica,profesional,pueblo,revista,salud,tecnologia,tksat,transporte,tv,web,wiki),br(9guacu,' +
+  'abc,adm,adv,agr,aju,am,anani,aparecida,app,arq,art,ato,b,barueri,belem,bet,bhz,bib,bio,blog,' +
+  'bmd,boavista,bsb,campinagrande,campinas,caxias,cim,cng,cnt,com(blogspot,simplesite),contagem,' +
+  'coop,coz,cri,cuiaba,curitiba,def,des,det,dev,ecn,eco,edu,emp,enf,eng,esp,etc,eti,far,feira,' +
+  'flog,floripa,fm,fnd,fortal,fot,foz,fst,g12,geo,ggf,goiania,gov(ac,al,am,ap,ba,ce,df,es,go,ma,' +
+  'mg,ms,mt,pa,pb,pe,pi,pr,rj,rn,ro,rr,rs,sc,se,sp,to),gru,imb,ind,inf,jab,jampa,jdf,joinville,' +
+  'jor,jus,leg(ac,al,am,ap,ba,ce,df,es,go,ma,mg,ms,mt,pa,pb,pe,pi,pr,rj,rn,ro,rr,rs,sc,se,sp,to),' +
+  'leilao,lel,log,londrina,macapa,maceio,manaus,maringa,mat,med,mil,morena,mp,mus,natal,net,' +
+  'niteroi,nom~(*),not,ntr,odo,ong,org,osasco,palmas,poa,ppg,pro,psc,psi,pvh,qsl,radio,rec,' +
+  'recife,rep,ribeirao,rio,riobranco,riopreto,salvador,sampa,santamaria,santoandre,saobernardo,' +
+  'saogonca,seg,sjc,slg,slz,sorocaba,srv,taxi,tc,tec,teo,the,tmp,trd,tur,tv,udi,vet,vix,vlog,' +
+  'wiki,zlg),bs(com,edu,gov,net,org,we),bt(com,edu,gov,net,org),build(v0),builders(cloudsite),' +
+  'business(co),bw(co,org),by(com(blogspot),gov,mediatech,mil,of),bz(co,com,edu,gov,gsj,mydns,' +
+  'net,org,za),ca(ab,awdev~(*),barsy,bc,blogspot,box,co,gc,mb,myspreadshop,nb,nf,nl,no-ip,ns,nt,' +
+  'nu,on,pe,qc,sk,yk),camp(emf~(at)),casa(nabu~(ui)),cc(cleverapps,cloudns,csx,fantasyleague,' +
+  'ftpaccess,game-server,myphotos,scrapping,spawn~(instances),twmail),cd(gov),cf(blogspot),' +
+  'ch(123website,12hp,2ix,4lima,blogspot,cloudns,cloudscale~(cust,lpg~(objects),rma~(objects)),' +
+  'dnsking,firenet~(*,svc~(*)),flow~(ae~(alp1),appengine),gotdns,lima-city,linkyard-cloud,' +
+  'myspreadshop,square7),ci(ac,asso,co,com,ed,edu,fin,go,gouv,int,net,or,org,xn--aroport-bya),' +
+  'ck~(!www,*),cl(blogspot,cloudns,co,gob,gov,mil),cloud(axarnet~(es-1),diadem,elementor,' +
+  'encoway~(eu),jelastic~(vip),jele,jenv-aruba~(aruba~(eur~(it1)),it1),jotelulu,keliweb(cs),' +
+  'kuleuven,linkyard,magentosite~(*),matlab,observablehq,on-rancher~(*),onstackit~(runs),oxa(tn,' +
+  'uk),perspecta,primetel(uk),ravendb,reclaim~(ca,uk,us),scw~(baremetal~(fr-par-1,fr-par-2,' +
+  'nl-ams-1),fr-par~(cockpit,fnc(functions),k8s(nodes),s3,s3-website,whm),instances~(priv,pub),' +
+  'k8s,nl-ams~(cockpit,k8s(nodes),s3,s3-website,whm),pl-waw~(cockpit,k8s(nodes),s3,s3-website),' +
+  'scalebook,smartlabeling),servebolt,statics~(*),trafficplex,trendhosting~(ch,de),' +
+  'unison-services,urown,vapor,voorloper,zap),club(barsy,cloudns,jele),cm(co,com,gov,net),cn(ac,' +
+  'ah,bj,canva-apps,canvasite~(my~(*)),com(amazonaws~(airflow~(cn-north-1~(*),' +
+  'cn-northwest-1~(*)),cn-north-1~(dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,' +
+  'emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,s3-deprecated,s3-object-lambda,' +
+  's3-website),cn-northwest-1~(dualstack~(s3,s3-accesspoint),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),compute~(*),' +
+  'eb~(cn-north-1,cn-northwest-1),elb~(*)),sagemaker~(cn-north-1~(notebook,studio),' +
+  'cn-northwest-1~(notebook,studio))),cq,edu,fj,gd,gov,gs,gx,gz,ha,hb,he,hi,hk,hl,hn,jl,js,jx,ln,' +
+  'mil,mo,myqnapcloud,net,nm,nx,org,qh,quickconnect~(direct),sc,sd,sh(as),sn,sx,tj,tw,xj,' +
+  'xn--55qx5d,xn--io0a7i,xn--od0alg,xz,yn,zj),co(carrd,com(blogspot),crd,edu,' +
+  'firewalledreplit(id),gov,leadpages,lpages,mil,mypi,n4t,net,nom,org,otap~(*),repl(id),supabase,' +
+  'xmit~(*)),codes(owo~(*)),com(001www,0emm~(*),180r,1kapp,3utilities,4u,a2hosted,' +
+  'adobeaemcloud(dev~(*)),africa,airkitapps,airkitapps-au,aivencloud,aliases121,' +
+  'alpha-myqnapcloud,amazonaws~(af-south-1~(aws-cloud9~(webview-assets),cloud9~(vfs,' +
+  'webview-assets),dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),' +
+  'airflow~(af-south-1~(*),ap-east-1~(*),ap-northeast-1~(*),ap-northeast-2~(*),' +
+  'ap-northeast-3~(*),ap-south-1~(*),ap-south-2~(*),ap-southeast-1~(*),ap-southeast-2~(*),' +
+  'ap-southeast-3~(*),ap-southeast-4~(*),ca-central-1~(*),ca-west-1~(*),eu-central-1~(*),' +
+  'eu-central-2~(*),eu-north-1~(*),eu-south-1~(*),eu-south-2~(*),eu-west-1~(*),eu-west-2~(*),' +
+  'eu-west-3~(*),il-central-1~(*),me-central-1~(*),me-south-1~(*),sa-east-1~(*),us-east-1~(*),' +
+  'us-east-2~(*),us-west-1~(*),us-west-2~(*)),ap-east-1~(aws-cloud9~(webview-assets),cloud9~(vfs,' +
+  'webview-assets),dualstack~(s3,s3-accesspoint),emrappui-prod,emrnotebooks-prod,emrstudio-prod,' +
+  'execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),ap-northeast-1~(analytics-gateway,' +
+  'aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,s3-accesspoint,' +
+  's3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),ap-northeast-2~(analytics-gateway,aws-cloud9~(webview-assets),' +
+  'cloud9~(vfs,webview-assets),dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,' +
+  'emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),' +
+  'ap-northeast-3~(aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,' +
+  's3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,' +
+  's3-accesspoint,s3-object-lambda,s3-website),ap-south-1~(analytics-gateway,' +
+  'aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,s3-accesspoint,' +
+  's3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),ap-south-2~(dualstack~(s3,s3-accesspoint,s3-website),' +
+  'emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,' +
+  's3-website),ap-southeast-1~(analytics-gateway,aws-cloud9~(webview-assets),cloud9~(vfs,' +
+  'webview-assets),dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),' +
+  'ap-southeast-2~(analytics-gateway,aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),' +
+  'dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,' +
+  'execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),ap-southeast-3~(dualstack~(s3,' +
+  's3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,' +
+  's3-accesspoint,s3-object-lambda,s3-website),ap-southeast-4~(dualstack~(s3,s3-accesspoint,' +
+  's3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),ap-southeast-5~(dualstack~(s3,s3-accesspoint,s3-website),' +
+  'execute-api,s3,s3-accesspoint,s3-deprecated,s3-object-lambda,s3-website),' +
+  'ca-central-1~(aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,' +
+  's3-accesspoint,s3-accesspoint-fips,s3-fips,s3-website),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-accesspoint-fips,s3-fips,s3-object-lambda,' +
+  's3-website),ca-west-1~(dualstack~(s3,s3-accesspoint,s3-accesspoint-fips,s3-fips,s3-website),' +
+  'emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-accesspoint-fips,s3-fips,s3-object-lambda,s3-website),compute~(*),compute-1~(*),elb~(*),' +
+  'eu-central-1~(analytics-gateway,aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),' +
+  'dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,' +
+  'execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),eu-central-2~(dualstack~(s3,' +
+  's3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,' +
+  's3-accesspoint,s3-object-lambda,s3-website),eu-north-1~(aws-cloud9~(webview-assets),' +
+  'cloud9~(vfs,webview-assets),dualstack~(s3,s3-accesspoint),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),' +
+  'eu-south-1~(aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,' +
+  's3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,' +
+  's3-accesspoint,s3-object-lambda,s3-website),eu-south-2~(dualstack~(s3,s3-accesspoint,' +
+  's3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),eu-west-1~(analytics-gateway,aws-cloud9~(webview-assets),' +
+  'cloud9~(vfs,webview-assets),dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,' +
+  'emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,s3-deprecated,s3-object-lambda,' +
+  's3-website),eu-west-2~(aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,' +
+  's3-accesspoint),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),eu-west-3~(aws-cloud9~(webview-assets),cloud9~(vfs,' +
+  'webview-assets),dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),' +
+  'il-central-1~(aws-cloud9~(webview-assets),cloud9~(vfs),dualstack~(s3,s3-accesspoint,' +
+  's3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),me-central-1~(dualstack~(s3,s3-accesspoint,s3-website),' +
+  'emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,' +
+  's3-website),me-south-1~(aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,' +
+  's3-accesspoint),emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-object-lambda,s3-website),s3,s3-1,s3-ap-east-1,s3-ap-northeast-1,s3-ap-northeast-2,' +
+  's3-ap-northeast-3,s3-ap-south-1,s3-ap-southeast-1,s3-ap-southeast-2,s3-ca-central-1,' +
+  's3-eu-central-1,s3-eu-north-1,s3-eu-west-1,s3-eu-west-2,s3-eu-west-3,s3-external-1,' +
+  's3-fips-us-gov-east-1,s3-fips-us-gov-west-1,s3-global~(accesspoint~(mrap)),s3-me-south-1,' +
+  's3-sa-east-1,s3-us-east-2,s3-us-gov-east-1,s3-us-gov-west-1,s3-us-west-1,s3-us-west-2,' +
+  's3-website-ap-northeast-1,s3-website-ap-southeast-1,s3-website-ap-southeast-2,' +
+  's3-website-eu-west-1,s3-website-sa-east-1,s3-website-us-east-1,s3-website-us-gov-west-1,' +
+  's3-website-us-west-1,s3-website-us-west-2,sa-east-1~(aws-cloud9~(webview-assets),cloud9~(vfs,' +
+  'webview-assets),dualstack~(s3,s3-accesspoint,s3-website),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-object-lambda,s3-website),' +
+  'us-east-1(analytics-gateway,aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),' +
+  'dualstack~(s3,s3-accesspoint,s3-accesspoint-fips,s3-fips,s3-website),emrappui-prod,' +
+  'emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,s3-accesspoint-fips,' +
+  's3-deprecated,s3-fips,s3-object-lambda,s3-website),us-east-2~(analytics-gateway,' +
+  'aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,s3-accesspoint,' +
+  's3-accesspoint-fips,s3-fips,s3-website),emrappui-prod,emrnotebooks-prod,emrstudio-prod,' +
+  'execute-api,s3,s3-accesspoint,s3-accesspoint-fips,s3-deprecated,s3-fips,s3-object-lambda,' +
+  's3-website),us-gov-east-1~(dualstack~(s3,s3-accesspoint,s3-accesspoint-fips,s3-fips),' +
+  'emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-accesspoint-fips,s3-fips,s3-object-lambda,s3-website),us-gov-west-1~(dualstack~(s3,' +
+  's3-accesspoint,s3-accesspoint-fips,s3-fips),emrappui-prod,emrnotebooks-prod,emrstudio-prod,' +
+  'execute-api,s3,s3-accesspoint,s3-accesspoint-fips,s3-fips,s3-object-lambda,s3-website),' +
+  'us-west-1~(aws-cloud9~(webview-assets),cloud9~(vfs,webview-assets),dualstack~(s3,' +
+  's3-accesspoint,s3-accesspoint-fips,s3-fips,s3-website),emrappui-prod,emrnotebooks-prod,' +
+  'emrstudio-prod,execute-api,s3,s3-accesspoint,s3-accesspoint-fips,s3-fips,s3-object-lambda,' +
+  's3-website),us-west-2~(analytics-gateway,aws-cloud9~(webview-assets),cloud9~(vfs,' +
+  'webview-assets),dualstack~(s3,s3-accesspoint,s3-accesspoint-fips,s3-fips,s3-website),' +
+  'emrappui-prod,emrnotebooks-prod,emrstudio-prod,execute-api,s3,s3-accesspoint,' +
+  's3-accesspoint-fips,s3-deprecated,s3-fips,s3-object-lambda,s3-website)),' +
+  'amazoncognito~(af-south-1~(auth),ap-east-1~(auth),ap-northeast-1~(auth),ap-northeast-2~(auth),' +
+  'ap-northeast-3~(auth),ap-south-1~(auth),ap-south-2~(auth),ap-southeast-1~(auth),' +
+  'ap-southeast-2~(auth),ap-southeast-3~(auth),ap-southeast-4~(auth),ca-central-1~(auth),' +
+  'ca-west-1~(auth),eu-central-1~(auth),eu-central-2~(auth),eu-north-1~(auth),eu-south-1~(auth),' +
+  'eu-south-2~(auth),eu-west-1~(auth),eu-west-2~(auth),eu-west-3~(auth),il-central-1~(auth),' +
+  'me-central-1~(auth),me-south-1~(auth),sa-east-1~(auth),us-east-1~(auth,auth-fips),' +
+  'us-east-2~(auth,auth-fips),us-gov-west-1~(auth-fips),us-west-1~(auth,auth-fips),' +
+  'us-west-2~(auth,auth-fips)),amplifyapp,appchizi,applinzi,apps-1and1,appspacehosted,' +
+  'appspaceusercontent,appspot(r~(*)),atmeta,authgear-staging,authgearapps,awsapprunner~(*),' +
+  'awsapps,awsglobalaccelerator,balena-devices,barsycenter,barsyonline,blogdns,blogspot,blogsyte,' +
+  'boutir,bplaced,br,builtwithdark,cafjs,canva-apps,cdn77-storage,cechire,cf-ipfs,ciscofreak,' +
+  'clever-cloud~(services~(*)),cloudflare-ipfs,cn,co,code~(builder~(*),dev-builder~(*),' +
+  'stg-builder~(*)),codespot,cprapid,cpserver,customer-oci~(*,oci~(*),ocp~(*),ocs~(*)),' +
+  'damnserver,datadetect~(demo,instance),dattolocal,dattorelay,dattoweb,ddnsfree,ddnsgeek,' +
+  'ddnsking,de,dev-myqnapcloud,digitaloceanspaces~(*),discordsays,discordsez,ditchyourip,dnsabr,' +
+  'dnsalias,dnsdojo,dnsiskinky,doesntexist,dojin,dontexist,doomdns,dopaas,drayddns,dreamhosters,' +
+  'dsmynas,durumis,dyn-o-saur,dynalias,dyndns-at-home,dyndns-at-work,dyndns-blog,dyndns-free,' +
+  'dyndns-home,dyndns-ip,dyndns-mail,dyndns-office,dyndns-pics,dyndns-remote,dyndns-server,' +
+  'dyndns-web,dyndns-wiki,dyndns-work,dynns,elasticbeanstalk(af-south-1,ap-east-1,ap-northeast-1,' +
+  'ap-northeast-2,ap-northeast-3,ap-south-1,ap-southeast-1,ap-southeast-2,ap-southeast-3,' +
+  'ca-central-1,eu-central-1,eu-north-1,eu-south-1,eu-west-1,eu-west-2,eu-west-3,il-central-1,' +
+  'me-south-1,sa-east-1,us-east-1,us-east-2,us-gov-east-1,us-gov-west-1,us-west-1,us-west-2),' +
+  'encoreapi,est-a-la-maison,est-a-la-masion,est-le-patron,est-mon-blogueur,eu,evennode~(eu-1,' +
+  'eu-2,eu-3,eu-4,us-1,us-2,us-3,us-4),familyds,fastly-edge,fastly-terrarium,fastvps-server,' +
+  'fbsbx~(apps),firebaseapp,firewall-gateway,fldrv,forgeblocks,framercanvas,freebox-os,freeboxos,' +
+  'freemyip,from-ak,from-al,from-ar,from-ca,from-ct,from-dc,from-de,from-fl,from-ga,from-hi,' +
+  'from-ia,from-id,from-il,from-in,from-ks,from-ky,from-ma,from-md,from-mi,from-mn,from-mo,' +
+  'from-ms,from-mt,from-nc,from-nd,from-ne,from-nh,from-nj,from-nm,from-nv,from-oh,from-ok,' +
+  'from-or,from-pa,from-pr,from-ri,from-sc,from-sd,from-tn,from-tx,from-ut,from-va,from-vt,' +
+  'from-wa,from-wi,from-wv,from-wy,geekgalaxy,gentapps,gentlentapis,getmyip,giize,' +
+  'githubusercontent,gleeze,googleapis,googlecode,gotdns,gotpantheon,gr,grayjayleagues,' +
+  'hatenablog,hatenadiary,health-carereform,herokuapp,herokussl,hk,hobby-site,homelinux,' +
+  'homesecuritymac,homesecuritypc,homeunix,hosted-by-previder~(paas),hostedpi,hosteur~(rag-cloud,' +
+  'rag-cloud-ch),hotelwithflight,iamallama,ik-server~(jcloud,jcloud-ver-jpc),ip-ddns,' +
+  'is-a-anarchist,is-a-blogger,is-a-bookkeeper,is-a-bulls-fan,is-a-caterer,is-a-chef,' +
+  'is-a-conservative,is-a-cpa,is-a-cubicle-slave,is-a-democrat,is-a-designer,is-a-doctor,' +
+  'is-a-financialadvisor,is-a-geek,is-a-green,is-a-guru,is-a-hard-worker,is-a-hunter,' +
+  'is-a-landscaper,is-a-lawyer,is-a-liberal,is-a-libertarian,is-a-llama,is-a-musician,' +
+  'is-a-nascarfan,is-a-nurse,is-a-painter,is-a-personaltrainer,is-a-photographer,is-a-player,' +
+  'is-a-republican,is-a-rockstar,is-a-socialist,is-a-student,is-a-teacher,is-a-techie,' +
+  'is-a-therapist,is-an-accountant,is-an-actor,is-an-actress,is-an-anarchist,is-an-artist,' +
+  'is-an-engineer,is-an-entertainer,is-certified,is-gone,is-into-anime,is-into-cars,' +
+  'is-into-cartoons,is-into-games,is-leet,is-not-certified,is-slick,is-uberleet,is-with-theband,' +
+  'isa-geek,isa-hockeynut,issmarterthanyou,it,jdevcloud,jelastic~(demo),joyent~(cns~(*)),jpn,' +
+  'kasserver,kozow,ladesk,likes-pie,likescandy,linode~(members,nodebalancer~(*)),' +
+  'linodeobjects~(*),linodeusercontent~(ip),live-website,logoip,loseyourip,lpusercontent,' +
+  'massivegrid~(paas),mazeplay,messwithdns,meteorapp(eu),mex,miniserver,modelscape,' +
+  'mwcloudnonprod,myactivedirectory,myasustor,mycloudnas,mydatto,mydbserver,mydobiss,mydrobo,' +
+  'myiphost,mynascloud,myqnapcloud,mysecuritycamera,myshopblocks,myshopify,myspreadshop,mytabit,' +
+  'mythic-beasts~(caracal,customer,fentiger,lynx,ocelot,oncilla,onza,sphinx,vs,x,yali),mytuleap,' +
+  'myvnc,neat-url,net-freaks,nfshost,nospamproxy~(cloud),observableusercontent~(static),' +
+  'on-aptible,onfabrica,onrender,onthewifi,ooguy,operaunite,oraclecloudapps~(*),' +
+  'oraclegovcloudapps~(*),orsites,outsystemscloud,ownprovider,pagespeedmobilizer,pagexl,' +
+  'paywhirl~(*),pgfog,pixolino,platter-app,playstation-cloud,pleskns,point2this,polyspace,' +
+  'postman-echo,prgmr~(xen),pythonanywhere(eu),qa2,qbuser,qualifioapp,quicksytes,' +
+  'quipelements~(*),rackmaze,readthedocs-hosted,remotewd,render~(app),reservd,reserve-online,' +
+  'rhcloud,routingthecloud,ru,sa,sakuratan,sakuraweb,' +
+  'salesforce~(platform~(code-builder-stg~(test~(001~(*))))),saves-the-whales,scrysec,' +
+  'securitytactics,selfip,sells-for-less,sells-for-u,servebbs,servebeer,servecounterstrike,' +
+  'serveexchange,serveftp,servegame,servehalflife,servehttp,servehumour,serveirc,servemp3,' +
+  'servep2p,servepics,servequake,servesarcasm,shopitsite,siiites,simple-url,simplesite,sinaapp,' +
+  'skygearapp,smushcdn,space-to-rent,stackhero-network,stdlib~(api),strapiapp(media),streak-link,' +
+  'streaklinks,streakusercontent,streamlitapp,stufftoread,taveusercontent,tb-hosting~(site),' +
+  'teaches-yoga,temp-dns,theworkpc,thingdustdata,townnews-staging,try-snowplow,trycloudflare,' +
+  'tuleap-partners,typeform~(pro),uk,unusualperson,upsunapp,us,vipsinaapp,vultrobjects~(*),' +
+  'w-corp-staticblitz,w-credentialless-staticblitz,w-staticblitz,wafaicloud~(jed,ryd),wafflecell,' +
+  'webadorsite,wiardweb~(pages),withgoogle,withyoutube,wixsite,wixstudio,woltlab-demo,' +
+  'workisboring,wpdevcloud,wpenginepowered(js),wphostedmail,wpmucdn,writesthisblog,x0,xnbay(u2,' +
+  'u2-local),yolasite,za),community(myforum,nog,ravendb),cool(de,elementor),cr(ac,co,ed,fi,go,or,' +
+  'sa),cu(com,edu,gob,inf,nat,net,org),cv(blogspot,com,edu,id,int,net,nome,org,publ),cw(com,edu,' +
+  'net,org),cx(assessments,ath,calculators,cloudns,funnels,gov,info,paynow,quizzes,researched,' +
+  'tests),cy(ac,biz,com(blogspot,scaleforce~(j)),ekloges,gov,ltd,mil,net,org,press,pro,tm),' +
+  'cz(blogspot,co,contentproxy9~(rsc),e4,metacentrum~(cloud~(*),custom),muni~(cloud~(flt,usr)),' +
+  'realm),de(123webseite,12hp,2ix,4lima,barsy,blogspot,bplaced,com,community-pro,cosidns~(dyn),' +
+  'dd-dns,ddnss(dyn,dyndns),diskussionsbereich,dnshome,dnsupdater,dray-dns,draydns,dyn-berlin,' +
+  'dyn-ip24,dyn-vpn,dynamisches-dns,dyndns1,dynvpn,firewall-gateway,frusky~(*),fuettertdasnetz,' +
+  'git-repos,goip,home-webserver(dyn),hs-heilbronn~(it~(pages,pages-research)),in-berlin,in-brb,' +
+  'in-butter,in-dsl,in-vpn,internet-dns,iservschule,isteingeek,istmein,keymachine,l-o-g-i-n,' +
+  'lcube-server,lebtimnetz,leitungsen,lima-city,logoip,mein-iserv,mein-vigor,my-gateway,' +
+  'my-router,my-vigor,my-wan,myhome-server,myspreadshop,rub,ruhr-uni-bochum(noc~(io)),' +
+  'schulplattform,schulserver,spdns,speedpartner~(customer),square7,svn-repos,syno-ds,' +
+  'synology-diskstation,synology-ds,taifun-dns,test-iserv,traeumtgerade,uberspace~(*),' +
+  'virtual-user,virtualuser,webspaceconfig,xn--gnstigbestellen-zvb,xn--gnstigliefern-wob),' +
+  'design(bss,graphic),dev(12chars,barsy,crm~(d~(*),w~(*),wa~(*),wb~(*),wc~(*),wd~(*),we~(*),' +
+  'wf~(*)),curv,deno,deno-staging,deta,evervault~(relay),fly,gateway~(*),githubpreview,hrsn,is-a,' +
+  'is-a-fullstack,is-a-good,is-cool,is-not-a,iserv,lcl~(*),lclstage~(*),localcert~(user~(*)),' +
+  'localplayer,loginline,mediatech,modx,ngrok,ngrok-free,pages,panel,platter-app,r2,' +
+  'replit(archer,bones,canary,global,hacker,id,janeway,kim,kira,kirk,odo,paris,picard,pike,' +
+  'prerelease,reed,riker,sisko,spock,staging,sulu,tarpit,teams,tucker,wesley,worf),runcontainers,' +
+  'stg~(*),stgstage~(*),vercel,webhare~(*),workers,xmit),digital(cloudapps(london)),' +
+  'direct(libp2p),dk(123hjemmeside,biz,blogspot,co,firm,myspreadshop,reg,store),dm(co,com,edu,' +
+  'gov,net,org),do(art,com,edu,gob,gov,mil,net,org,sld,web),dz(art,asso,com,edu,gov,net,org,pol,' +
+  'soc,tm),ec(base,com,edu,fin,gob,gov,info,k12,med,mil,net,official,org,pro),' +
+  'edu(rit~(git-pages)),education(co),ee(aip,com(blogspot),edu,fie,gov,lib,med,org,pri,riik),' +
+  'eg(ac,com(blogspot),edu,eun,gov,info,me,mil,name,net,org,sci,sport,tv),email(crisp~(on),' +
+  'tawk~(p),tawkto~(p)),er~(*),es(123miweb,com(blogspot),edu,gob,myspreadshop,nom,org),' +
+  'estate(compute~(*)),et(biz,com,edu,gov,info,name,net,org),eu(airkitapps,barsy,cloudns,' +
+  'diskstation,dogado~(jelastic),spdns,transurl~(*)),eus(party~(user)),events(co,koobin),' +
+  'farm(storj),fi(123kotisivu,aland,blogspot,cloudplatform~(fi),datacenter~(demo,paas),dy,iki,' +
+  'kapsi,myspreadshop,xn--hkkinen-5wa),financial(co),fj(ac,biz,com,gov,info,mil,name,net,org,' +
+  'pro),fk~(*),fm(com,edu,net,org,radio,user~(*)),fr(123siteweb,aeroport,asso,avocat,avoues,' +
+  'blogspot,cci,chambagri,chirurgiens-dentistes,chirurgiens-dentistes-en-france,com,dedibox,' +
+  'en-root,experts-comptables,fbx-os,fbxos,freebox-os,freeboxos,goupile,gouv,greta,' +
+  'huissier-justice,medecin,myspreadshop,nom,notaires,on-web,pharmacien,port,prd,tm,veterinaire,' +
+  'ynh),games(pley,sheezy),gay(pages),gd(edu,gov),gdn(cnpy),ge(com,edu,gov,net,org,pvt,school),' +
+  'gg(co,kaas,net,org,panel(daemon),stackit),gh(com,edu,gov,mil,org),gi(com,edu,gov,ltd,mod,org),' +
+  'gl(biz,co,com,edu,net,org),gn(ac,com,edu,gov,net,org),goog(cloud,translate,usercontent~(*)),' +
+  'gp(asso,com,edu,mobi,net,org),gr(barsy,blogspot,com,edu,gov,net,org,simplesite),' +
+  'group(discourse),gt(com,edu,gob,ind,mil,net,org),gu(com,edu,gov,guam,info,net,org,web),gy(co,' +
+  'com,edu,gov,net,org),health(hra),hk(blogspot,com,edu,gov,idv,inc,ltd,net,org,secaas,' +
+  'xn--55qx5d,xn--ciqpn,xn--gmq050i,xn--gmqw5a,xn--io0a7i,xn--lcvr32d,xn--mk0axi,xn--mxtq1m,' +
+  'xn--od0alg,xn--od0aq3b,xn--tn0ag,xn--uc0atv,xn--uc0ay4a,xn--wcvs22d,xn--zf0avx),hn(com,edu,' +
+  'gob,mil,net,org),host(cloudaccess,easypanel,fastvps,freesite,half,jele,mircloud,myfast,' +
+  'tempurl,wp2,wpmudev),hosting(opencraft),hr(blogspot,brendly~(shop),com,free,from,iz,name),' +
+  'ht(adult,art,asso,com,coop,edu,firm,gouv,info,med,net,org,perso,pol,pro,rel,rt,shop),hu(2000,' +
+  'agrar,blogspot,bolt,casino,city,co,erotica,erotika,film,forum,games,hotel,info,ingatlan,' +
+  'jogasz,konyvelo,lakas,media,news,org,priv,reklam,sex,shop,sport,suli,szex,tm,tozsde,utazas,' +
+  'video),id(ac,biz,co(blogspot),desa,go,mil,my(rss),net,or,ponpes,sch,web),ie(blogspot,gov,' +
+  'myspreadshop),il(ac,co(blogspot,mytabit,ravpage,tabitorder),gov,idf,k12,muni,net,org),im(ac,' +
+  'co(ltd,plc),com,net,org,tt,tv),in(5g,6g,ac,ai,am,barsy,bihar,biz,blogspot,business,ca,cloudns,' +
+  'cn,co,com,coop,cs,delhi,dr,edu,er,firm,gen,gov,gujarat,ind,info,int,internet,io,me,mil,net,' +
+  'nic,org,pg,post,pro,res,supabase,travel,tv,uk,up,us,web),info(barrel-of-knowledge,' +
+  'barrell-of-knowledge,barsy,cloudns,dnsupdate,dvrcam,dynamic-dns,dyndns,for-our,forumz,' +
+  'groks-the,groks-this,here-for-more,ilovecollege,knowsitall,mayfirst,mittwald,mittwaldserver,' +
+  'no-ip,nsupdate,selfip,typo3server,v-info,webhop),int(eu),io(2038,apigee,azurecontainer~(*),' +
+  'b-data,barsy,basicserver,beagleboard,beebyte~(paas),beebyteapp~(sekd1),bigv~(uk0),bitbucket,' +
+  'bluebite,boxfuse,brave~(s~(*)),browsersafetymark,cleverapps,co,com,dappnode~(dyndns),darklang,' +
+  'dedyn,definima,drud,editorx,edu,edugit,fh-muenster,forgerock~(id),github,gitlab,gov,' +
+  'hasura-app,hostyhosting,hypernode,hzc,jele,lair~(apps),loginline,lolipop,mil,mo-siemens,' +
+  'moonscale~(*),musician,myrdbx,net,ngrok(ap,au,eu,in,jp,sa,us),nodeart~(stage),nom,' +
+  'on-acorn~(*),on-k3s~(*),on-rio~(*),org,pantheonsite,protonet,pstmn(mock),qcx(sys~(*)),qoto,' +
+  'rb-hosting~(site),readthedocs,resindevice,resinstaging~(devices),sandcats,scrypted~(client),' +
+  'shiftedit,shw,spacekit,stolos~(*),telebit,thingdust~(dev~(cust,reservd),disrec~(cust,reservd),' +
+  'prod~(cust),testing~(cust,reservd)),tickets,upli,utwente,vaporcloud,virtualserver,webflow,' +
+  'webflowtest,webthings,wixstudio),iq(com,edu,gov,mil,net,org),ir(ac,arvanedge,co,gov,id,net,' +
+  'org,sch,xn--mgba3a4f16a,xn--mgba3a4fra),is(blogspot),it(123homepage,12chars,16-b,32-b,64-b,' +
+  'abr,abruzzo,ag,agrigento,al,alessandria,alto-adige,altoadige,an,ancona,andria-barletta-trani,' +
+  'andria-trani-barletta,andriabarlettatrani,andriatranibarletta,ao,aosta,aosta-valley,' +
+  'aostavalley,aoste,ap,aq,aquila,ar,arezzo,ascoli-piceno,ascolipiceno,asti,at,av,avellino,ba,' +
+  'balsan,balsan-sudtirol,balsan-suedtirol,bari,barletta-trani-andria,barlettatraniandria,bas,' +
+  'basilicata,belluno,benevento,bergamo,bg,bi,biella,bl,blogspot,bn,bo,bologna,bolzano,' +
+  'bolzano-altoadige,bozen,bozen-sudtirol,bozen-suedtirol,br,brescia,brindisi,bs,bt,bulsan,' +
+  'bulsan-sudtirol,bulsan-suedtirol,bz,ca,cagliari,cal,calabria,caltanissetta,cam,campania,' +
+  'campidano-medio,campidanomedio,campobasso,carbonia-iglesias,carboniaiglesias,carrara-massa,' +
+  'carraramassa,caserta,catania,catanzaro,cb,ce,cesena-forli,cesenaforli,ch,chieti,ci,cl,cn,co,' +
+  'como,cosenza,cr,cremona,crotone,cs,ct,cuneo,cz,dell-ogliastra,dellogliastra,edu,' +
+  'emilia-romagna,emiliaromagna,emr,en,enna,fc,fe,fermo,ferrara,fg,fi,firenze,florence,fm,foggia,' +
+  'forli-cesena,forlicesena,fr,friuli-v-giulia,friuli-ve-giulia,friuli-vegiulia,' +
+  'friuli-venezia-giulia,friuli-veneziagiulia,friuli-vgiulia,friuliv-giulia,friulive-giulia,' +
+  'friulivegiulia,friulivenezia-giulia,friuliveneziagiulia,friulivgiulia,frosinone,fvg,ge,genoa,' +
+  'genova,go,gorizia,gov,gr,grosseto,ibxos,iglesias-carbonia,iglesiascarbonia,iliadboxos,im,' +
+  'imperia,is,isernia,kr,la-spezia,laquila,laspezia,latina,laz,lazio,lc,le,lecce,lecco,li,lig,' +
+  'liguria,livorno,lo,lodi,lom,lombardia,lombardy,lt,lu,lucania,lucca,macerata,mantova,mar,' +
+  'marche,massa-carrara,massacarrara,matera,mb,mc,me,medio-campidano,mediocampidano,messina,mi,' +
+  'milan,milano,mn,mo,modena,mol,molise,monza,monza-brianza,monza-e-della-brianza,monzabrianza,' +
+  'monzaebrianza,monzaedellabrianza,ms,mt,myspreadshop,na,naples,napoli,neen~(jc),no,novara,nu,' +
+  'nuoro,og,ogliastra,olbia-tempio,olbiatempio,or,oristano,ot,pa,padova,padua,palermo,parma,' +
+  'pavia,pc,pd,pe,perugia,pesaro-urbino,pesarourbino,pescara,pg,pi,piacenza,piedmont,piemonte,' +
+  'pisa,pistoia,pmn,pn,po,pordenone,potenza,pr,prato,pt,pu,pug,puglia,pv,pz,ra,ragusa,ravenna,rc,' +
+  're,reggio-calabria,reggio-emilia,reggiocalabria,reggioemilia,rg,ri,rieti,rimini,rm,rn,ro,roma,' +
+  'rome,rovigo,sa,salerno,sar,sardegna,sardinia,sassari,savona,si,sic,sicilia,sicily,siena,' +
+  'siracusa,so,sondrio,sp,sr,ss,suedtirol,sv,syncloud,ta,taa,taranto,te,tempio-olbia,tempioolbia,' +
+  'teramo,terni,tn,to,torino,tos,toscana,tp,tr,trani-andria-barletta,trani-barletta-andria,' +
+  'traniandriabarletta,tranibarlettaandria,trapani,trentin-sud-tirol,trentin-sudtirol,' +
+  'trentin-sued-tirol,trentin-suedtirol,trentino,trentino-a-adige,trentino-aadige,' +
+  'trentino-alto-adige,trentino-altoadige,trentino-s-tirol,trentino-stirol,trentino-sud-tirol,' +
+  'trentino-sudtirol,trentino-sued-tirol,trentino-suedtirol,trentinoa-adige,trentinoaadige,' +
+  'trentinoalto-adige,trentinoaltoadige,trentinos-tirol,trentinostirol,trentinosud-tirol,' +
+  'trentinosudtirol,trentinosued-tirol,trentinosuedtirol,trentinsud-tirol,trentinsudtirol,' +
+  'trentinsued-tirol,trentinsuedtirol,trento,treviso,trieste,ts,turin,tuscany,tv,ud,udine,umb,' +
+  'umbria,urbino-pesaro,urbinopesaro,va,val-d-aosta,val-daosta,vald-aosta,valdaosta,valle-aosta,' +
+  'valle-d-aosta,valle-daosta,valleaosta,valled-aosta,valledaosta,vallee-aoste,vallee-d-aoste,' +
+  'valleeaoste,valleedaoste,vao,varese,vb,vc,vda,ve,ven,veneto,venezia,venice,verbania,vercelli,' +
+  'verona,vi,vibo-valentia,vibovalentia,vicenza,viterbo,vr,vs,vt,vv,xn--balsan-sdtirol-nsb,' +
+  'xn--bozen-sdtirol-2ob,xn--bulsan-sdtirol-nsb,xn--cesena-forl-mcb,xn--cesenaforl-i8a,' +
+  'xn--forl-cesena-fcb,xn--forlcesena-c8a,xn--sdtirol-n2a,xn--trentin-sd-tirol-rzb,' +
+  'xn--trentin-sdtirol-7vb,xn--trentino-sd-tirol-c3b,xn--trentino-sdtirol-szb,' +
+  'xn--trentinosd-tirol-rzb,xn--trentinosdtirol-7vb,xn--trentinsd-tirol-6vb,' +
+  'xn--trentinsdtirol-nsb,xn--valle-aoste-ebb,xn--valle-d-aoste-ehb,xn--valleaoste-e7a,' +
+  'xn--valledaoste-ebb),je(co,net,of,org),jm~(*),jo(agri,ai,com,edu,eng,fm,gov,mil,net,org,per,' +
+  'phd,sch,tv),jp(0am,0g0,0j0,0t0,2-d,ac,ad,aichi(aisai,ama,anjo,asuke,chiryu,chita,fuso,' +
+  'gamagori,handa,hazu,hekinan,higashiura,ichinomiya,inazawa,inuyama,isshiki,iwakura,kanie,' +
+  'kariya,kasugai,kira,kiyosu,komaki,konan,kota,mihama,miyoshi,nishio,nisshin,obu,oguchi,oharu,' +
+  'okazaki,owariasahi,seto,shikatsu,shinshiro,shitara,tahara,takahama,tobishima,toei,togo,tokai,' +
+  'tokoname,toyoake,toyohashi,toyokawa,toyone,toyota,tsushima,yatomi),akita(akita,daisen,' +
+  'fujisato,gojome,hachirogata,happou,higashinaruse,honjo,honjyo,ikawa,kamikoani,kamioka,' +
+  'katagami,kazuno,kitaakita,kosaka,kyowa,misato,mitane,moriyoshi,nikaho,noshiro,odate,oga,ogata,' +
+  'semboku,yokote,yurihonjo),angry,aomori(aomori,gonohe,hachinohe,hashikami,hiranai,hirosaki,' +
+  'itayanagi,kuroishi,misawa,mutsu,nakadomari,noheji,oirase,owani,rokunohe,sannohe,shichinohe,' +
+  'shingo,takko,towada,tsugaru,tsuruta),babyblue,babymilk,backdrop,bambina,bitter,blogspot,blush,' +
+  'bona,boo,boy,boyfriend,but,buyshop,candypop,capoo,catfood,cheap,chiba(abiko,asahi,chonan,' +
+  'chosei,choshi,chuo,funabashi,futtsu,hanamigawa,ichihara,ichikawa,ichinomiya,inzai,isumi,' +
+  'kamagaya,kamogawa,kashiwa,katori,katsuura,kimitsu,kisarazu,kozaki,kujukuri,kyonan,matsudo,' +
+  'midori,mihama,minamiboso,mobara,mutsuzawa,nagara,nagareyama,narashino,narita,noda,' +
+  'oamishirasato,omigawa,onjuku,otaki,sakae,sakura,shimofusa,shirako,shiroi,shisui,sodegaura,' +
+  'sosa,tako,tateyama,togane,tohnosho,tomisato,urayasu,yachimata,yachiyo,yokaichiba,' +
+  'yokoshibahikari,yotsukaido),chicappa,chillout,chips,chowder,chu,ciao,co,cocotte,coolblog,' +
+  'cranky,crap,cutegirl,daa,daynight,deca,deci,digick,ed,eek,egoism,ehime(ainan,honai,ikata,' +
+  'imabari,iyo,kamijima,kihoku,kumakogen,masaki,matsuno,matsuyama,namikata,niihama,ozu,saijo,' +
+  'seiyo,shikokuchuo,tobe,toon,uchiko,uwajima,yawatahama),fakefur,fashionstore,fem,flier,flop,' +
+  'floppy,fool,frenchkiss,fukui(echizen,eiheiji,fukui,ikeda,katsuyama,mihama,minamiechizen,obama,' +
+  'ohi,ono,sabae,sakai,takahama,tsuruga,wakasa),fukuoka(ashiya,buzen,chikugo,chikuho,chikujo,' +
+  'chikushino,chikuzen,chuo,dazaifu,fukuchi,hakata,higashi,hirokawa,hisayama,iizuka,inatsuki,' +
+  'kaho,kasuga,kasuya,kawara,keisen,koga,kurate,kurogi,kurume,minami,miyako,miyama,miyawaka,' +
+  'mizumaki,munakata,nakagawa,nakama,nishi,nogata,ogori,okagaki,okawa,oki,omuta,onga,onojo,oto,' +
+  'saigawa,sasaguri,shingu,shinyoshitomi,shonai,soeda,sue,tachiarai,tagawa,takata,toho,toyotsu,' +
+  'tsuiki,ukiha,umi,usui,yamada,yame,yanagawa,yukuhashi),fukushima(aizubange,aizumisato,' +
+  'aizuwakamatsu,asakawa,bandai,date,fukushima,furudono,futaba,hanawa,higashi,hirata,hirono,' +
+  'iitate,inawashiro,ishikawa,iwaki,izumizaki,kagamiishi,kaneyama,kawamata,kitakata,kitashiobara,' +
+  'koori,koriyama,kunimi,miharu,mishima,namie,nango,nishiaizu,nishigo,okuma,omotego,ono,otama,' +
+  'samegawa,shimogo,shirakawa,showa,soma,sukagawa,taishin,tamakawa,tanagura,tenei,yabuki,yamato,' +
+  'yamatsuri,yanaizu,yugawa),gifu(anpachi,ena,gifu,ginan,godo,gujo,hashima,hichiso,hida,' +
+  'higashishirakawa,ibigawa,ikeda,kakamigahara,kani,kasahara,kasamatsu,kawaue,kitagata,mino,' +
+  'minokamo,mitake,mizunami,motosu,nakatsugawa,ogaki,sakahogi,seki,sekigahara,shirakawa,tajimi,' +
+  'takayama,tarui,toki,tomika,wanouchi,yamagata,yaotsu,yoro),girlfriend,girly,gloomy,go,gonna,gr,' +
+  'greater,gunma(annaka,chiyoda,fujioka,higashiagatsuma,isesaki,itakura,kanna,kanra,katashina,' +
+  'kawaba,kiryu,kusatsu,maebashi,meiwa,midori,minakami,naganohara,nakanojo,nanmoku,numata,oizumi,' +
+  'ora,ota,shibukawa,shimonita,shinto,showa,takasaki,takayama,tamamura,tatebayashi,tomioka,' +
+  'tsukiyono,tsumagoi,ueno,yoshioka),hacca,halfmoon,handcrafted,hateblo,hatenablog,hatenadiary,' +
+  'heavy,her,hiho,hippy,hiroshima(asaminami,daiwa,etajima,fuchu,fukuyama,hatsukaichi,' +
+  'higashihiroshima,hongo,jinsekikogen,kaita,kui,kumano,kure,mihara,miyoshi,naka,onomichi,' +
+  'osakikamijima,otake,saka,sera,seranishi,shinichi,shobara,takehara),hokkaido(abashiri,abira,' +
+  'aibetsu,akabira,akkeshi,asahikawa,ashibetsu,ashoro,assabu,atsuma,bibai,biei,bifuka,bihoro,' +
+  'biratori,chippubetsu,chitose,date,ebetsu,embetsu,eniwa,erimo,esan,esashi,fukagawa,fukushima,' +
+  'furano,furubira,haboro,hakodate,hamatonbetsu,hidaka,higashikagura,higashikawa,hiroo,hokuryu,' +
+  'hokuto,honbetsu,horokanai,horonobe,ikeda,imakane,ishikari,iwamizawa,iwanai,kamifurano,' +
+  'kamikawa,kamishihoro,kamisunagawa,kamoenai,kayabe,kembuchi,kikonai,kimobetsu,kitahiroshima,' +
+  'kitami,kiyosato,koshimizu,kunneppu,kuriyama,kuromatsunai,kushiro,kutchan,kyowa,mashike,' +
+  'matsumae,mikasa,minamifurano,mombetsu,moseushi,mukawa,muroran,naie,nakagawa,nakasatsunai,' +
+  'nakatombetsu,nanae,nanporo,nayoro,nemuro,niikappu,niki,nishiokoppe,noboribetsu,numata,obihiro,' +
+  'obira,oketo,okoppe,otaru,otobe,otofuke,otoineppu,oumu,ozora,pippu,rankoshi,rebun,rikubetsu,' +
+  'rishiri,rishirifuji,saroma,sarufutsu,shakotan,shari,shibecha,shibetsu,shikabe,shikaoi,' +
+  'shimamaki,shimizu,shimokawa,shinshinotsu,shintoku,shiranuka,shiraoi,shiriuchi,sobetsu,' +
+  'sunagawa,taiki,takasu,takikawa,takinoue,teshikaga,tobetsu,tohma,tomakomai,tomari,toya,toyako,' +
+  'toyotomi,toyoura,tsubetsu,tsukigata,urakawa,urausu,uryu,utashinai,wakkanai,wassamu,yakumo,' +
+  'yoichi),holy,hungry,hyogo(aioi,akashi,ako,amagasaki,aogaki,asago,ashiya,awaji,fukusaki,' +
+  'goshiki,harima,himeji,ichikawa,inagawa,itami,kakogawa,kamigori,kamikawa,kasai,kasuga,' +
+  'kawanishi,miki,minamiawaji,nishinomiya,nishiwaki,ono,sanda,sannan,sasayama,sayo,shingu,' +
+  'shinonsen,shiso,sumoto,taishi,taka,takarazuka,takasago,takino,tamba,tatsuno,toyooka,yabu,' +
+  'yashiro,yoka,yokawa),ibaraki(ami,asahi,bando,chikusei,daigo,fujishiro,hitachi,hitachinaka,' +
+  'hitachiomiya,hitachiota,ibaraki,ina,inashiki,itako,iwama,joso,kamisu,kasama,kashima,' +
+  'kasumigaura,koga,miho,mito,moriya,naka,namegata,oarai,ogawa,omitama,ryugasaki,sakai,' +
+  'sakuragawa,shimodate,shimotsuma,shirosato,sowa,suifu,takahagi,tamatsukuri,tokai,tomobe,tone,' +
+  'toride,tsuchiura,tsukuba,uchihara,ushiku,yachiyo,yamagata,yawara,yuki),icurus,' +
+  'ishikawa(anamizu,hakui,hakusan,kaga,kahoku,kanazawa,kawakita,komatsu,nakanoto,nanao,nomi,' +
+  'nonoichi,noto,shika,suzu,tsubata,tsurugi,uchinada,wajima),itigo,iwate(fudai,fujisawa,hanamaki,' +
+  'hiraizumi,hirono,ichinohe,ichinoseki,iwaizumi,iwate,joboji,kamaishi,kanegasaki,karumai,kawai,' +
+  'kitakami,kuji,kunohe,kuzumaki,miyako,mizusawa,morioka,ninohe,noda,ofunato,oshu,otsuchi,' +
+  'rikuzentakata,shiwa,shizukuishi,sumita,tanohata,tono,yahaba,yamada),jeez,jellybean,' +
+  'kagawa(ayagawa,higashikagawa,kanonji,kotohira,manno,marugame,mitoyo,naoshima,sanuki,tadotsu,' +
+  'takamatsu,tonosho,uchinomi,utazu,zentsuji),kagoshima(akune,amami,hioki,isa,isen,izumi,' +
+  'kagoshima,kanoya,kawanabe,kinko,kouyama,makurazaki,matsumoto,minamitane,nakatane,nishinoomote,' +
+  'satsumasendai,soo,tarumizu,yusui),kanagawa(aikawa,atsugi,ayase,chigasaki,ebina,fujisawa,' +
+  'hadano,hakone,hiratsuka,isehara,kaisei,kamakura,kiyokawa,matsuda,minamiashigara,miura,nakai,' +
+  'ninomiya,odawara,oi,oiso,sagamihara,samukawa,tsukui,yamakita,yamato,yokosuka,yugawara,zama,' +
+  'zushi),kawaiishop,kawasaki~(!city,*),kikirara,kill,kilo,kitakyushu~(!city,*),kobe~(!city,*),' +
+  'kochi(aki,geisei,hidaka,higashitsuno,ino,kagami,kami,kitagawa,kochi,mihara,motoyama,muroto,' +
+  'nahari,nakamura,nankoku,nishitosa,niyodogawa,ochi,okawa,otoyo,otsuki,sakawa,sukumo,susaki,' +
+  'tosa,tosashimizu,toyo,tsuno,umaji,yasuda,yusuhara),kumamoto(amakusa,arao,aso,choyo,gyokuto,' +
+  'kamiamakusa,kikuchi,kumamoto,mashiki,mifune,minamata,minamioguni,nagasu,nishihara,oguni,ozu,' +
+  'sumoto,takamori,uki,uto,yamaga,yamato,yatsushiro),kuron,kyoto(ayabe,fukuchiyama,higashiyama,' +
+  'ide,ine,joyo,kameoka,kamo,kita,kizu,kumiyama,kyotamba,kyotanabe,kyotango,maizuru,minami,' +
+  'minamiyamashiro,miyazu,muko,nagaokakyo,nakagyo,nantan,oyamazaki,sakyo,seika,tanabe,uji,' +
+  'ujitawara,wazuka,yamashina,yawata),lg,littlestar,lolipopmc,lolitapunk,lomo,lovepop,lovesick,' +
+  'main,matrix,mie(asahi,inabe,ise,kameyama,kawagoe,kiho,kisosaki,kiwa,komono,kumano,kuwana,' +
+  'matsusaka,meiwa,mihama,minamiise,misugi,miyama,nabari,shima,suzuka,tado,taiki,taki,tamaki,' +
+  'toba,tsu,udono,ureshino,watarai,yokkaichi),mimoza,miyagi(furukawa,higashimatsushima,' +
+  'ishinomaki,iwanuma,kakuda,kami,kawasaki,marumori,matsushima,minamisanriku,misato,murata,' +
+  'natori,ogawara,ohira,onagawa,osaki,rifu,semine,shibata,shichikashuku,shikama,shiogama,' +
+  'shiroishi,tagajo,taiwa,tome,tomiya,wakuya,watari,yamamoto,zao),miyazaki(aya,ebino,gokase,' +
+  'hyuga,kadogawa,kawaminami,kijo,kitagawa,kitakata,kitaura,kobayashi,kunitomi,kushima,mimata,' +
+  'miyakonojo,miyazaki,morotsuka,nichinan,nishimera,nobeoka,saito,shiiba,shintomi,takaharu,' +
+  'takanabe,takazaki,tsuno),mods,mond,mongolian,moo,mydns,nagano(achi,agematsu,anan,aoki,asahi,' +
+  'azumino,chikuhoku,chikuma,chino,fujimi,hakuba,hara,hiraya,iida,iijima,iiyama,iizuna,ikeda,' +
+  'ikusaka,ina,karuizawa,kawakami,kiso,kisofukushima,kitaaiki,komagane,komoro,matsukawa,' +
+  'matsumoto,miasa,minamiaiki,minamimaki,minamiminowa,minowa,miyada,miyota,mochizuki,nagano,' +
+  'nagawa,nagiso,nakagawa,nakano,nozawaonsen,obuse,ogawa,okaya,omachi,omi,ookuwa,ooshika,otaki,' +
+  'otari,sakae,sakaki,saku,sakuho,shimosuwa,shinanomachi,shiojiri,suwa,suzaka,takagi,takamori,' +
+  'takayama,tateshina,tatsuno,togakushi,togura,tomi,ueda,wada,yamagata,yamanouchi,yasaka,' +
+  'yasuoka),nagasaki(chijiwa,futsu,goto,hasami,hirado,iki,isahaya,kawatana,kuchinotsu,matsuura,' +
+  'nagasaki,obama,omura,oseto,saikai,sasebo,seihi,shimabara,shinkamigoto,togitsu,tsushima,unzen),' +
+  'nagoya~(!city,*),namaste,nara(ando,gose,heguri,higashiyoshino,ikaruga,ikoma,kamikitayama,' +
+  'kanmaki,kashiba,kashihara,katsuragi,kawai,kawakami,kawanishi,koryo,kurotaki,mitsue,miyake,' +
+  'nara,nosegawa,oji,ouda,oyodo,sakurai,sango,shimoichi,shimokitayama,shinjo,soni,takatori,' +
+  'tawaramoto,tenkawa,tenri,uda,yamatokoriyama,yamatotakada,yamazoe,yoshino),ne(aseinet~(user),' +
+  'gehirn,ivory,mail-box,mints,mokuren,opal,sakura,sumomo,topaz),netgamers,niigata(aga,agano,' +
+  'gosen,itoigawa,izumozaki,joetsu,kamo,kariwa,kashiwazaki,minamiuonuma,mitsuke,muika,murakami,' +
+  'myoko,nagaoka,niigata,ojiya,omi,sado,sanjo,seiro,seirou,sekikawa,shibata,tagami,tainai,tochio,' +
+  'tokamachi,tsubame,tsunan,uonuma,yahiko,yoita,yuzawa),nikita,nobushi,noor,nyanta,o0o0,' +
+  'oita(beppu,bungoono,bungotakada,hasama,hiji,himeshima,hita,kamitsue,kokonoe,kuju,kunisaki,' +
+  'kusu,oita,saiki,taketa,tsukumi,usa,usuki,yufu),okayama(akaiwa,asakuchi,bizen,hayashima,ibara,' +
+  'kagamino,kasaoka,kibichuo,kumenan,kurashiki,maniwa,misaki,nagi,niimi,nishiawakura,okayama,' +
+  'satosho,setouchi,shinjo,shoo,soja,takahashi,tamano,tsuyama,wake,yakage),okinawa(aguni,ginowan,' +
+  'ginoza,gushikami,haebaru,higashi,hirara,iheya,ishigaki,ishikawa,itoman,izena,kadena,kin,' +
+  'kitadaito,kitanakagusuku,kumejima,kunigami,minamidaito,motobu,nago,naha,nakagusuku,nakijin,' +
+  'nanjo,nishihara,ogimi,okinawa,onna,shimoji,taketomi,tarama,tokashiki,tomigusuku,tonaki,urasoe,' +
+  'uruma,yaese,yomitan,yonabaru,yonaguni,zamami),oops,or,osaka(abeno,chihayaakasaka,chuo,daito,' +
+  'fujiidera,habikino,hannan,higashiosaka,higashisumiyoshi,higashiyodogawa,hirakata,ibaraki,' +
+  'ikeda,izumi,izumiotsu,izumisano,kadoma,kaizuka,kanan,kashiwara,katano,kawachinagano,kishiwada,' +
+  'kita,kumatori,matsubara,minato,minoh,misaki,moriguchi,neyagawa,nishi,nose,osakasayama,sakai,' +
+  'sayama,sennan,settsu,shijonawate,shimamoto,suita,tadaoka,taishi,tajiri,takaishi,takatsuki,' +
+  'tondabayashi,toyonaka,toyono,yao),parallel,parasite,pecori,peewee,penne,pepper,perma,pgw,' +
+  'pigboat,pinoko,punyu,pupu,pussycat,pya,raindrop,rdy,readymade,rgr,rulez,sadist,saga(ariake,' +
+  'arita,fukudomi,genkai,hamatama,hizen,imari,kamimine,kanzaki,karatsu,kashima,kitagata,kitahata,' +
+  'kiyama,kouhoku,kyuragi,nishiarita,ogi,omachi,ouchi,saga,shiroishi,taku,tara,tosu,yoshinogari),' +
+  'saitama(arakawa,asaka,chichibu,fujimi,fujimino,fukaya,hanno,hanyu,hasuda,hatogaya,hatoyama,' +
+  'hidaka,higashichichibu,higashimatsuyama,honjo,ina,iruma,iwatsuki,kamiizumi,kamikawa,kamisato,' +
+  'kasukabe,kawagoe,kawaguchi,kawajima,kazo,kitamoto,koshigaya,kounosu,kuki,kumagaya,matsubushi,' +
+  'minano,misato,miyashiro,miyoshi,moroyama,nagatoro,namegawa,niiza,ogano,ogawa,ogose,okegawa,' +
+  'omiya,otaki,ranzan,ryokami,saitama,sakado,satte,sayama,shiki,shiraoka,soka,sugito,toda,' +
+  'tokigawa,tokorozawa,tsurugashima,urawa,warabi,yashio,yokoze,yono,yorii,yoshida,yoshikawa,' +
+  'yoshimi),sakurastorage~(isk01~(s3),isk02~(s3)),saloon,sapporo~(!city,*),sblo,schoolbus,secret,' +
+  'sendai~(!city,*),shiga(aisho,gamo,higashiomi,hikone,koka,konan,kosei,koto,kusatsu,maibara,' +
+  'moriyama,nagahama,nishiazai,notogawa,omihachiman,otsu,ritto,ryuoh,takashima,takatsuki,' +
+  'torahime,toyosato,yasu),shimane(akagi,ama,gotsu,hamada,higashiizumo,hikawa,hikimi,izumo,' +
+  'kakinoki,masuda,matsue,misato,nishinoshima,ohda,okinoshima,okuizumo,shimane,tamayu,tsuwano,' +
+  'unnan,yakumo,yasugi,yatsuka),shizuoka(arai,atami,fuji,fujieda,fujikawa,fujinomiya,fukuroi,' +
+  'gotemba,haibara,hamamatsu,higashiizu,ito,iwata,izu,izunokuni,kakegawa,kannami,kawanehon,' +
+  'kawazu,kikugawa,kosai,makinohara,matsuzaki,minamiizu,mishima,morimachi,nishiizu,numazu,' +
+  'omaezaki,shimada,shimizu,shimoda,shizuoka,susono,yaizu,yoshida),skr,staba,stripper,sub,' +
+  'sunnyday,supersale,tank,theshop,thick,tochigi(ashikaga,bato,haga,ichikai,iwafune,kaminokawa,' +
+  'kanuma,karasuyama,kuroiso,mashiko,mibu,moka,motegi,nasu,nasushiobara,nikko,nishikata,nogi,' +
+  'ohira,ohtawara,oyama,sakura,sano,shimotsuke,shioya,takanezawa,tochigi,tsuga,ujiie,utsunomiya,' +
+  'yaita),tokushima(aizumi,anan,ichiba,itano,kainan,komatsushima,matsushige,mima,minami,miyoshi,' +
+  'mugi,nakagawa,naruto,sanagochi,shishikui,tokushima,wajiki),tokyo(adachi,akiruno,akishima,' +
+  'aogashima,arakawa,bunkyo,chiyoda,chofu,chuo,edogawa,fuchu,fussa,hachijo,hachioji,hamura,' +
+  'higashikurume,higashimurayama,higashiyamato,hino,hinode,hinohara,inagi,itabashi,katsushika,' +
+  'kita,kiyose,kodaira,koganei,kokubunji,komae,koto,kouzushima,kunitachi,machida,meguro,minato,' +
+  'mitaka,mizuho,musashimurayama,musashino,nakano,nerima,ogasawara,okutama,ome,oshima,ota,' +
+  'setagaya,shibuya,shinagawa,shinjuku,suginami,sumida,tachikawa,taito,tama,toshima),tonkotsu,' +
+  'tottori(chizu,hino,kawahara,koge,kotoura,misasa,nanbu,nichinan,sakaiminato,tottori,wakasa,' +
+  'yazu,yonago),toyama(asahi,fuchu,fukumitsu,funahashi,himi,imizu,inami,johana,kamiichi,kurobe,' +
+  'nakaniikawa,namerikawa,nanto,nyuzen,oyabe,taira,takaoka,tateyama,toga,tonami,toyama,unazuki,' +
+  'uozu,yamada),uh-oh,under,undo,upper,usercontent,velvet,verse,versus,vivian,wakayama(arida,' +
+  'aridagawa,gobo,hashimoto,hidaka,hirogawa,inami,iwade,kainan,kamitonda,katsuragi,kimino,' +
+  'kinokawa,kitayama,koya,koza,kozagawa,kudoyama,kushimoto,mihama,misato,nachikatsuura,shingu,' +
+  'shirahama,taiji,tanabe,wakayama,yuasa,yura),watson,webaccel~(rs,user),weblike,websozai,' +
+  'whitesnow,wjg,xii,xn--0trq7p7nn,xn--1ctwo,xn--1lqs03n,xn--1lqs71d,xn--2m4a15e,xn--32vp30h,' +
+  'xn--4it168d,xn--4it797k,xn--4pvxs,xn--5js045d,xn--5rtp49c,xn--5rtq34k,xn--6btw5a,xn--6orx2r,' +
+  'xn--7t0a264c,xn--8ltr62k,xn--8pvr4u,xn--c3s14m,xn--d5qv7z876c,xn--djrs72d6uy,xn--djty4k,' +
+  'xn--efvn9s,xn--ehqz56n,xn--elqq16h,xn--f6qx53a,xn--k7yn95e,xn--kbrq7o,xn--klt787d,xn--kltp7d,' +
+  'xn--kltx9a,xn--klty5x,xn--mkru45i,xn--nit225k,xn--ntso0iqx3a,xn--ntsq17g,xn--pssu33l,' +
+  'xn--qqqt11m,xn--rht27z,xn--rht3d,xn--rht61e,xn--rny31h,xn--tor131o,xn--uist22h,xn--uisz3g,' +
+  'xn--uuwu58a,xn--vgu402c,xn--zbx025d,yamagata(asahi,funagata,higashine,iide,kahoku,kaminoyama,' +
+  'kaneyama,kawanishi,mamurogawa,mikawa,murayama,nagai,nakayama,nanyo,nishikawa,obanazawa,oe,' +
+  'oguni,ohkura,oishida,sagae,sakata,sakegawa,shinjo,shirataka,shonai,takahata,tendo,tozawa,' +
+  'tsuruoka,yamagata,yamanobe,yonezawa,yuza),yamaguchi(abu,hagi,hikari,hofu,iwakuni,kudamatsu,' +
+  'mitou,nagato,oshima,shimonoseki,shunan,tabuse,tokuyama,toyota,ube,yuu),yamanashi(chuo,doshi,' +
+  'fuefuki,fujikawa,fujikawaguchiko,fujiyoshida,hayakawa,hokuto,ichikawamisato,kai,kofu,koshu,' +
+  'kosuge,minami-alps,minobu,nakamichi,nanbu,narusawa,nirasaki,nishikatsura,oshino,otsuki,showa,' +
+  'tabayama,tsuru,uenohara,yamanakako,yamanashi),yokohama~(!city,*),zombie),ke(ac,co(blogspot),' +
+  'go,info,me,mobi,ne,or,sc),kg(com,edu,gov,mil,net,org,us),kh~(*),ki(biz,com,edu,gov,info,net,' +
+  'org),km(ass,asso,com,coop,edu,gouv,gov,medecin,mil,nom,notaires,org,pharmaciens,prd,presse,tm,' +
+  'veterinaire),kn(edu,gov,net,org),kp(com,edu,gov,org,rep,tra),kr(ac,blogspot,busan,chungbuk,' +
+  'chungnam,co,daegu,daejeon,es,gangwon,go,gwangju,gyeongbuk,gyeonggi,gyeongnam,hs,incheon,jeju,' +
+  'jeonbuk,jeonnam,kg,mil,ms,ne,or,pe,re,sc,seoul,ulsan),krd(co,edu),kw(com,edu,emb,gov,ind,net,' +
+  'org),ky(com,edu,net,org),kz(com,edu,gov,jcloud,mil,net,org),la(bnr,com,edu,gov,info,int,net,' +
+  'org,per),lb(com,edu,gov,net,org),lc(co,com,edu,gov,net,org,oy),li(blogspot,caa),link(cyon,' +
+  'dweb~(*),myfritz,mypep,nftstorage~(ipfs)),live(aem,ewp~(*),hlx),lk(ac,assn,com,edu,gov,grp,' +
+  'hotel,int,ltd,net,ngo,org,sch,soc,web),lol(omg),lr(com,edu,gov,net,org),ls(ac,biz,co,edu,gov,' +
+  'info,net,org,sc),lt(blogspot,gov),lu(123website,blogspot),lv(asn,com,conf,edu,gov,id,mil,net,' +
+  'org),ly(com,edu,gov,id,med,net,org,plc,sch),ma(ac,co,gov,net,org,press),management(router),' +
+  'mc(asso,tm),md(blogspot,ir),me(ac,barsy,brasilia,c66,co,craft,ddns,diskstation,dnsfor,dscloud,' +
+  'edgestack,edu,filegear,filegear-sg,glitch,gov,hopto,i234,its,loginto,lohmus,mcdir,myds,net,' +
+  'nohost,noip,org,priv,soundcast,synology,tcp4,transip~(site),vp4,webhop,yombo),media(framer),' +
+  'menu(barsy,barsyonline),mg(co,com,edu,gov,mil,nom,org,prd),mk(blogspot,com,edu,gov,inf,name,' +
+  'net,org),ml(com,edu,gouv,gov,net,org,presse),mm~(*),mn(edu,gov,nyc,org),mo(com,edu,gov,net,' +
+  'org),mobi(barsy,dscloud),mom(ind),mp(ju),mr(gov),ms(com,edu,gov,lab,minisite,net,org),' +
+  'mt(com(blogspot),edu,net,org),mu(ac,co,com,gov,net,or,org),mv(aero,biz,com,coop,edu,gov,info,' +
+  'int,mil,museum,name,net,org,pro),mw(ac,biz,co,com,coop,edu,gov,int,net,org),mx(blogspot,com,' +
+  'edu,gob,net,org),my(biz,blogspot,com,edu,gov,mil,name,net,org),mz(ac,adv,co,edu,gov,mil,net,' +
+  'org),na(alt,co,com,gov,net,org),name(her~(forgot),his~(forgot)),nc(asso,nom),' +
+  'net(adobeaemcloud,adobeio-static,adobeioruntime,akadns,akamai,akamai-staging,akamaiedge,' +
+  'akamaiedge-staging,akamaihd,akamaihd-staging,akamaiorigin,akamaiorigin-staging,akamaized,' +
+  'akamaized-staging,alwaysdata,apps-1and1,appudo,at-band-camp,atlassian-dev~(prod~(cdn)),' +
+  'azure-api,azure-mobile,azureedge,azurefd,azurestaticapps(1,2,3,4,5,6,7,centralus,eastasia,' +
+  'eastus2,westeurope,westus2),azurewebsites,barsy,blackbaudcdn,blogdns,boomla,bounceme,bplaced,' +
+  'broke-it,buyshouses,casacam,cdn-edges,cdn77~(r),cdn77-ssl,channelsdvr(u),clickrising,' +
+  'cloudaccess,cloudapp,cloudflare(cdn),cloudflareanycast~(cdn),cloudflarecn~(cdn),' +
+  'cloudflareglobal~(cdn),cloudfront,cloudfunctions,cloudjiffy(fra1-de,west1-us),cloudycluster,' +
+  'community-pro,cryptonomic~(*),ctfcloud,dattolocal,ddns,ddns-ip,debian,definima,dns-cloud,' +
+  'dns-dynamic,dnsalias,dnsdojo,dnsup,does-it,dontexist,dsmynas,dynalias,dynathome,dynu,dynv6,' +
+  'eating-organic,edgeapp,edgekey,edgekey-staging,edgesuite,edgesuite-staging,elastx~(jls-sto1,' +
+  'jls-sto2,jls-sto3),endofinternet,familyds,fastly~(freetls,map,prod~(a,global),ssl~(a,b,' +
+  'global)),fastlylb(map),feste-ip,firewall-gateway,from-az,from-co,from-la,from-ny,gb,gets-it,' +
+  'ggff,grafana-dev,ham-radio-op,heteml,hicam,homeftp,homeip,homelinux,homeunix,hu,in,in-dsl,' +
+  'in-the-band,in-vpn,iobb,ipifony,is-a-chef,is-a-geek,isa-geek,jp,keyword-on,kicks-ass,kinghost,' +
+  'knx-server,krellian,live-on,localcert,localhostcert,mafelo,massivegrid~(paas~(fr-1,lon-1,' +
+  'lon-2,ny-1,ny-2,sg-1)),meinforum,memset,moonscale,myamaze,mydatto,mydissent,myeffect,myfritz,' +
+  'mymediapc,mynetname~(sn),mypsx,myradweb,mysecuritycamera,myspreadshop,nhlfan,no-ip,now-dns,' +
+  'office-on-the,onavstack,ovh~(hosting~(*),webpaas~(*)),ownip,pgafan,podzone,' +
+  'privatizehealthinsurance,rackmaze,redirectme,reserve-online,routingthecloud,ru,' +
+  'saveincloud~(jelastic,nordeste-idc),scaleforce~(j),schokokeks,scrapper-site,se,seidat,selfip,' +
+  'sells-it,senseering,servebbs,serveblog,serveftp,serveminecraft,server-on,shopselect,siteleaf,' +
+  'square7,squares,srcf~(soc,user),static-access,supabase,sytes,thruhere,torproject(pages),' +
+  'trafficmanager,ts(c~(*)),twmail,uk,uni5,vpndns,vps-host(jelastic~(atl,njs,ric)),vusercontent,' +
+  'webhop,windows~(core~(blob),servicebus),yandexcloud(storage,website),za),network(alces~(*),' +
+  'arvo,azimuth,co,tlon),news(noticeable),nf(arts,com,firm,info,net,other,per,rec,store,web),' +
+  'ng(biz(co,dl,go,lg,on),col,com(blogspot),edu,firm,gen,gov,i,ltd,mil,mobi,name,net,ngo,org,plc,' +
+  'sch),ni(ac,biz,co,com,edu,gob,in,info,int,mil,net,nom,org,web),nl(123website,blogspot,cistron,' +
+  'co,demon,gov,hosting-cluster,khplay,myspreadshop,transurl~(*)),no(123hjemmeside,aa(gs),' +
+  'aarborte,aejrie,afjord,agdenes,ah(gs),akershus~(nes),aknoluokta,akrehamn,al,alaheadju,alesund,' +
+  'algard,alstahaug,alta,alvdal,amli,amot,andasuolo,andebu,andoy,ardal,aremark,arendal,arna,' +
+  'aseral,asker,askim,askoy,askvoll,asnes,audnedaln,aukra,aure,aurland,aurskog-holand,austevoll,' +
+  'austrheim,averoy,badaddja,bahcavuotna,bahccavuotna,baidar,bajddar,balat,balestrand,ballangen,' +
+  'balsfjord,bamble,bardu,barum,batsfjord,bearalvahki,beardu,beiarn,berg,bergen,berlevag,bievat,' +
+  'bindal,birkenes,bjarkoy,bjerkreim,bjugn,blogspot,bodo,bokn,bomlo,bremanger,bronnoy,' +
+  'bronnoysund,brumunddal,bryne,bu(gs),budejju,buskerud~(nes),bygland,bykle,cahcesuolo,co,' +
+  'davvenjarga,davvesiida,deatnu,dep,dielddanuorri,divtasvuodna,divttasvuotna,donna,dovre,' +
+  'drammen,drangedal,drobak,dyroy,egersund,eid,eidfjord,eidsberg,eidskog,eidsvoll,eigersund,' +
+  'elverum,enebakk,engerdal,etne,etnedal,evenassi,evenes,evje-og-hornnes,farsund,fauske,fedje,' +
+  'fet,fetsund,fhs,finnoy,fitjar,fjaler,fjell,fla,flakstad,flatanger,flekkefjord,flesberg,flora,' +
+  'floro,fm(gs),folkebibl,folldal,forde,forsand,fosnes,frana,fredrikstad,frei,frogn,froland,' +
+  'frosta,froya,fuoisku,fuossko,fusa,fylkesbibl,fyresdal,gaivuotna,galsa,gamvik,gangaviika,' +
+  'gaular,gausdal,giehtavuoatna,gildeskal,giske,gjemnes,gjerdrum,gjerstad,gjesdal,gjovik,gloppen,' +
+  'gol,gran,grane,granvin,gratangen,grimstad,grong,grue,gulen,guovdageaidnu,ha,habmer,hadsel,' +
+  'hagebostad,halden,halsa,hamar,hamaroy,hammarfeasta,hammerfest,hapmir,haram,hareid,harstad,' +
+  'hasvik,hattfjelldal,haugesund,hedmark~(os,valer,xn--vler-qoa),hemne,hemnes,hemsedal,herad,' +
+  'hitra,hjartdal,hjelmeland,hl(gs),hm(gs),hobol,hof,hokksund,hol,hole,holmestrand,holtalen,' +
+  'honefoss,hordaland~(os),hornindal,horten,hoyanger,hoylandet,hurdal,hurum,hvaler,hyllestad,' +
+  'ibestad,idrett,inderoy,iveland,ivgu,jan-mayen(gs),jessheim,jevnaker,jolster,jondal,jorpeland,' +
+  'kafjord,karasjohka,karasjok,karlsoy,karmoy,kautokeino,kirkenes,klabu,klepp,kommune,kongsberg,' +
+  'kongsvinger,kopervik,kraanghke,kragero,kristiansand,kristiansund,krodsherad,krokstadelva,' +
+  'kvafjord,kvalsund,kvam,kvanangen,kvinesdal,kvinnherad,kviteseid,kvitsoy,laakesvuemie,lahppi,' +
+  'langevag,lardal,larvik,lavagis,lavangen,leangaviika,lebesby,leikanger,leirfjord,leirvik,leka,' +
+  'leksvik,lenvik,lerdal,lesja,levanger,lier,lierne,lillehammer,lillesand,lindas,lindesnes,' +
+  'loabat,lodingen,lom,loppa,lorenskog,loten,lund,lunner,luroy,luster,lyngdal,lyngen,malatvuopmi,' +
+  'malselv,malvik,mandal,marker,marnardal,masfjorden,masoy,matta-varjjat,meland,meldal,melhus,' +
+  'meloy,meraker,midsund,midtre-gauldal,mil,mjondalen,mo-i-rana,moareke,modalen,modum,molde,' +
+  'more-og-romsdal~(heroy,sande),mosjoen,moskenes,moss,mosvik,mr(gs),muosat,museum,myspreadshop,' +
+  'naamesjevuemie,namdalseid,namsos,namsskogan,nannestad,naroy,narviika,narvik,naustdal,navuotna,' +
+  'nedre-eiker,nesna,nesodden,nesoddtangen,nesseby,nesset,nissedal,nittedal,nl(gs),nord-aurdal,' +
+  'nord-fron,nord-odal,norddal,nordkapp,nordland~(bo,heroy,xn--b-5ga,xn--hery-ira),nordre-land,' +
+  'nordreisa,nore-og-uvdal,notodden,notteroy,nt(gs),odda,of(gs),oksnes,ol(gs),omasvuotna,oppdal,' +
+  'oppegard,orkanger,orkdal,orland,orskog,orsta,osen,oslo(gs),osoyro,osteroy,ostfold~(valer),' +
+  'ostre-toten,overhalla,ovre-eiker,oyer,oygarden,oystre-slidre,porsanger,porsangu,porsgrunn,' +
+  'priv,rade,radoy,rahkkeravju,raholt,raisa,rakkestad,ralingen,rana,randaberg,rauma,rendalen,' +
+  'rennebu,rennesoy,rindal,ringebu,ringerike,ringsaker,risor,rissa,rl(gs),roan,rodoy,rollag,' +
+  'romsa,romskog,roros,rost,royken,royrvik,ruovat,rygge,salangen,salat,saltdal,samnanger,' +
+  'sandefjord,sandnes,sandnessjoen,sandoy,sarpsborg,sauda,sauherad,sel,selbu,selje,seljord,' +
+  'sf(gs),siellak,sigdal,siljan,sirdal,skanit,skanland,skaun,skedsmo,skedsmokorset,ski,skien,' +
+  'skierva,skiptvet,skjak,skjervoy,skodje,slattum,smola,snaase,snasa,snillfjord,snoasa,sogndal,' +
+  'sogne,sokndal,sola,solund,somna,sondre-land,songdalen,sor-aurdal,sor-fron,sor-odal,' +
+  'sor-varanger,sorfold,sorreisa,sortland,sorum,spjelkavik,spydeberg,st(gs),stange,stat,' +
+  'stathelle,stavanger,stavern,steigen,steinkjer,stjordal,stjordalshalsen,stokke,stor-elvdal,' +
+  'stord,stordal,storfjord,strand,stranda,stryn,sula,suldal,sund,sunndal,surnadal,svalbard(gs),' +
+  'sveio,svelvik,sykkylven,tana,tananger,telemark~(bo,xn--b-5ga),time,tingvoll,tinn,tjeldsund,' +
+  'tjome,tm(gs),tokke,tolga,tonsberg,torsken,tr(gs),trana,tranby,tranoy,troandin,trogstad,tromsa,' +
+  'tromso,trondheim,trysil,tvedestrand,tydal,tynset,tysfjord,tysnes,tysvar,ullensaker,ullensvang,' +
+  'ulvik,unjarga,utsira,va(gs),vaapste,vadso,vaga,vagan,vagsoy,vaksdal,valle,vang,vanylven,vardo,' +
+  'varggat,varoy,vefsn,vega,vegarshei,vennesla,verdal,verran,vestby,vestfold~(sande),vestnes,' +
+  'vestre-slidre,vestre-toten,vestvagoy,vevelstad,vf(gs),vgs,vik,vikna,vindafjord,voagat,volda,' +
+  'voss,vossevangen,xn--andy-ira,xn--asky-ira,xn--aurskog-hland-jnb,xn--avery-yua,' +
+  'xn--bdddj-mrabd,xn--bearalvhki-y4a,xn--berlevg-jxa,xn--bhcavuotna-s4a,xn--bhccavuotna-k7a,' +
+  'xn--bidr-5nac,xn--bievt-0qa,xn--bjarky-fya,xn--bjddar-pta,xn--blt-elab,xn--bmlo-gra,' +
+  'xn--bod-2na,xn--brnny-wuac,xn--brnnysund-m8ac,xn--brum-voa,xn--btsfjord-9za,' +
+  'xn--davvenjrga-y4a,xn--dnna-gra,xn--drbak-wua,xn--dyry-ira,xn--eveni-0qa01ga,xn--finny-yua,' +
+  'xn--fjord-lra,xn--fl-zia,xn--flor-jra,xn--frde-gra,xn--frna-woa,xn--frya-hra,' +
+  'xn--ggaviika-8ya47h,xn--gildeskl-g0a,xn--givuotna-8ya,xn--gjvik-wua,xn--gls-elac,xn--h-2fa,' +
+  'xn--hbmer-xqa,xn--hcesuolo-7ya35b,xn--hgebostad-g3a,xn--hmmrfeasta-s4ac,xn--hnefoss-q1a,' +
+  'xn--hobl-ira,xn--holtlen-hxa,xn--hpmir-xqa,xn--hyanger-q1a,xn--hylandet-54a,xn--indery-fya,' +
+  'xn--jlster-bya,xn--jrpeland-54a,xn--karmy-yua,xn--kfjord-iua,xn--klbu-woa,xn--koluokta-7ya57h,' +
+  'xn--krager-gya,xn--kranghke-b0a,xn--krdsherad-m8a,xn--krehamn-dxa,xn--krjohka-hwab49j,' +
+  'xn--ksnes-uua,xn--kvfjord-nxa,xn--kvitsy-fya,xn--kvnangen-k0a,xn--l-1fa,xn--laheadju-7ya,' +
+  'xn--langevg-jxa,xn--ldingen-q1a,xn--leagaviika-52b,xn--lesund-hua,xn--lgrd-poac,xn--lhppi-xqa,' +
+  'xn--linds-pra,xn--loabt-0qa,xn--lrdal-sra,xn--lrenskog-54a,xn--lt-liac,xn--lten-gra,' +
+  'xn--lury-ira,xn--mely-ira,xn--merker-kua,xn--mjndalen-64a,xn--mlatvuopmi-s4a,xn--mli-tla,' +
+  'xn--mlselv-iua,xn--moreke-jua,xn--mosjen-eya,xn--mot-tla,xn--mre-og-romsdal-qqb~(sande,' +
+  'xn--hery-ira),xn--msy-ula0h,xn--mtta-vrjjat-k7af,xn--muost-0qa,xn--nmesjevuemie-tcba,' +
+  'xn--nry-yla5g,xn--nttery-byae,xn--nvuotna-hwa,xn--oppegrd-ixa,xn--ostery-fya,xn--osyro-wua,' +
+  'xn--porsgu-sta26f,xn--rady-ira,xn--rdal-poa,xn--rde-ula,xn--rdy-0nab,xn--rennesy-v1a,' +
+  'xn--rhkkervju-01af,xn--rholt-mra,xn--risa-5na,xn--risr-ira,xn--rland-uua,xn--rlingen-mxa,' +
+  'xn--rmskog-bya,xn--rros-gra,xn--rskog-uua,xn--rst-0na,xn--rsta-fra,xn--ryken-vua,' +
+  'xn--ryrvik-bya,xn--s-1fa,xn--sandnessjen-ogb,xn--sandy-yua,xn--seral-lra,xn--sgne-gra,' +
+  'xn--skierv-uta,xn--skjervy-v1a,xn--skjk-soa,xn--sknit-yqa,xn--sknland-fxa,xn--slat-5na,' +
+  'xn--slt-elab,xn--smla-hra,xn--smna-gra,xn--snase-nra,xn--sndre-land-0cb,xn--snes-poa,' +
+  'xn--snsa-roa,xn--sr-aurdal-l8a,xn--sr-fron-q1a,xn--sr-odal-q1a,xn--sr-varanger-ggb,' +
+  'xn--srfold-bya,xn--srreisa-q1a,xn--srum-gra,xn--stfold-9xa~(xn--vler-qoa),xn--stjrdal-s1a,' +
+  'xn--stjrdalshalsen-sqb,xn--stre-toten-zcb,xn--tjme-hra,xn--tnsberg-q1a,xn--trany-yua,' +
+  'xn--trgstad-r1a,xn--trna-woa,xn--troms-zua,xn--tysvr-vra,xn--unjrga-rta,xn--vads-jra,' +
+  'xn--vard-jra,xn--vegrshei-c0a,xn--vestvgy-ixa6o,xn--vg-yiab,xn--vgan-qoa,xn--vgsy-qoa0j,' +
+  'xn--vre-eiker-k8a,xn--vrggt-xqad,xn--vry-yla5g,xn--yer-zna,xn--ygarden-p1a,' +
+  'xn--ystre-slidre-ujb),np~(*),nr(biz,com,edu,gov,info,net,org),nu(enterprisecloud,merseine,' +
+  'mine,shacknet),nz(ac,cloudns,co(blogspot),cri,geek,gen,govt,health,iwi,kiwi,maori,mil,net,org,' +
+  'parliament,school,xn--mori-qsa),om(co,com,edu,gov,med,museum,net,org,pro),one(kin~(*),' +
+  'service),ong(obl),online(barsy,eero,eero-stage,websitebuilder),orange(tech),org(accesscam,ae,' +
+  'altervista,barsy,blogdns,blogsite,bmoattachments,boldlygoingnowhere,cable-modem,camdvr,' +
+  'cdn77~(c,rsc),cdn77-secure~(origin~(ssl)),cloudns,collegefan,couchpotatofries,ddnss,' +
+  'diskstation,dnsalias,dnsdojo,doesntexist,dontexist,doomdns,dsmynas,duckdns,dvrdns,dynalias,' +
+  'dyndns(go,home),dynserv,endofinternet,endoftheinternet,eu(al,asso,at,au,be,bg,ca,cd,ch,cn,cy,' +
+  'cz,de,dk,edu,ee,es,fi,fr,gr,hr,hu,ie,il,in,int,is,it,jp,kr,lt,lu,lv,me,mk,mt,my,net,ng,nl,no,' +
+  'nz,pl,pt,ro,ru,se,si,sk,tr,uk,us),familyds,fedorainfracloud,fedorapeople,fedoraproject~(cloud,' +
+  'os~(app),stg~(os~(app))),freeddns,freedesktop,from-me,game-host,gotdns,hatenadiary,hepforge,' +
+  'hk,hobby-site,homedns,homeftp,homelinux,homeunix,hopto,httpbin,in-dsl,in-vpn,ip-dynamic,' +
+  'is-a-bruinsfan,is-a-candidate,is-a-celticsfan,is-a-chef,is-a-geek,is-a-knight,is-a-linux-user,' +
+  'is-a-patsfan,is-a-soxfan,is-found,is-local,is-lost,is-saved,is-very-bad,is-very-evil,' +
+  'is-very-good,is-very-nice,is-very-sweet,isa-geek,jpn,js,kicks-ass,mayfirst,misconfused,mlbfan,' +
+  'my-firewall,myfirewall,myftp,mysecuritycamera,mywire,nflfan,no-ip,now-dns,pimienta,podzone,' +
+  'poivron,potager,pubtls,read-books,readmyblog,routingthecloud,selfip,sellsyourhome,servebbs,' +
+  'serveftp,servegame,small-web,spdns,stuff-4-sale,sweetpepper,teckids~(s3),toolforge,tunk,' +
+  'tuxfamily,twmail,ufcfan,us,webhop,webredirect,wmcloud,wmflabs,za,zapto),ovh(nerdpol),pa(abo,' +
+  'ac,com,edu,gob,ing,med,net,nom,org,sld),page(aem,codeberg,heyflow,hlx,hlx3,pdns,plesk,prvcy,' +
+  'rocky,translated),pe(blogspot,com,edu,gob,mil,net,nom,org),pf(com,edu,org),pg~(*),ph(cloudns,' +
+  'com,edu,gov,i,mil,net,ngo,org),photos(framer),pictures(1337),pizza(ngrok),pk(ac,biz,com,edu,' +
+  'fam,gkp,gob,gog,gok,gon,gop,gos,gov,net,org,web),pl(agro,aid,art,atm,augustow,auto,babia-gora,' +
+  'bedzin,beep,beskidy,bialowieza,bialystok,bielawa,bielsko,bieszczady,biz,boleslawiec,bydgoszcz,' +
+  'bytom,cfolks,cieszyn,co,com,czeladz,czest,dfirma,dkonto,dlugoleka,ecommerce-shop,edu,elblag,' +
+  'elk,gda,gdansk,gdynia,gliwice,glogow,gmina,gniezno,gorlice,gov(ap,griw,ic,is,kmpsp,konsulat,' +
+  'kppsp,kwp,kwpsp,mup,mw,oia,oirm,oke,oow,oschr,oum,pa,pinb,piw,po,pr,psp,psse,pup,rzgw,sa,sdn,' +
+  'sko,so,sr,starostwo,ug,ugim,um,umig,upow,uppo,us,uw,uzs,wif,wiih,winb,wios,witd,wiw,wkz,wsa,' +
+  'wskr,wsse,wuoz,wzmiuw,zp,zpisdn),grajewo,gsm,homesklep,ilawa,info,jaworzno,jelenia-gora,jgora,' +
+  'kalisz,karpacz,kartuzy,kaszuby,katowice,kazimierz-dolny,kepno,ketrzyn,klodzko,kobierzyce,' +
+  'kolobrzeg,konin,konskowola,krakow,krasnik,kutno,lapy,lebork,leczna,legnica,lezajsk,limanowa,' +
+  'lodz,lomza,lowicz,lubartow,lubin,lublin,lukow,mail,malbork,malopolska,mazowsze,mazury,med,' +
+  'media,miasta,mielec,mielno,mil,mragowo,myspreadshop,naklo,net,nieruchomosci,nom,nowaruda,nysa,' +
+  'olawa,olecko,olkusz,olsztyn,opoczno,opole,org,ostroda,ostroleka,ostrowiec,ostrowwlkp,' +
+  'pabianice,pc,pila,pisz,plock,podhale,podlasie,polkowice,pomorskie,pomorze,poniatowa,powiat,' +
+  'poznan,priv,prochowice,pruszkow,przeworsk,pulawy,radom,rawa-maz,realestate,rel,rybnik,rzeszow,' +
+  'sanok,sdscloud,sejny,sex,shop,shoparena,sieradz,simplesite,skierniewice,sklep,skoczow,slask,' +
+  'slupsk,sopot,sos,sosnowiec,stalowa-wola,starachowice,stargard,suwalki,swidnica,swidnik,' +
+  'swiebodzin,swinoujscie,szczecin,szczytno,szkola,targi,tarnobrzeg,tgory,tm,torun,tourism,' +
+  'travel,turek,turystyka,tychy,unicloud,ustka,walbrzych,warmia,warszawa,waw,wegrow,wielun,wlocl,' +
+  'wloclawek,wodzislaw,wolomin,wroc,wroclaw,you2,zachpomor,zagan,zakopane,zarow,zgierz,zgora,' +
+  'zgorzelec),place(co),pm(name,own),pn(co,edu,gov,net,org),pr(ac,biz,com,edu,est,gov,info,isla,' +
+  'name,net,org,pro,prof),pro(12chars,aaa,aca,acct,avocat,bar,barsy,cloudns,cpa,eng,jur,law,med,' +
+  'ngrok,recht),ps(com,edu,gov,net,org,plo,sec),pt(123paginaweb,blogspot,com,edu,gov,int,net,' +
+  'nome,org,publ),pub(barsy,id~(*),kin~(*)),pw(belau,cloudns,co,ed,go,or,x443),py(com,coop,edu,' +
+  'gov,mil,net,org),qa(blogspot,com,edu,gov,mil,name,net,org,sch),re(asso,blogspot,can,com),' +
+  'rip(clan),ro(arts,barsy,blogspot,co,com,firm,info,nom,nt,org,rec,shop,store,tm,www),' +
+  'rocks(lima-city,myddns,stackit,webspace),rs(ac,barsy,blogspot,brendly~(shop),co,edu,gov,in,' +
+  'org,ox,ua),ru(ac,adygeya,bashkiria,bir,blogspot,cbg,cldmail~(hb),com,dagestan,edu,eurodir,gov,' +
+  'grozny,int,kalmykia,kustanai,lk3,marine,mcdir(vps),mcpre,mil,mircloud,mordovia,msk,' +
+  'myjino(hosting~(*),landing~(*),spectrum~(*),vps~(*)),mytis,na4u,nalchik,net,nov,org,pp,' +
+  'pyatigorsk,ras,spb,test,vladikavkaz,vladimir),run(build~(*),code~(*),database~(*),development,' +
+  'migration~(*),onporter,ravendb,repl,servers,stackit,val~(express,web),wix),rw(ac,co,coop,gov,' +
+  'mil,net,org),sa(com,edu,gov,med,net,org,pub,sch),sb(com,edu,gov,net,org),sc(com,edu,gov,net,' +
+  'org),scot(gov(service)),sd(com,edu,gov,info,med,net,org,tv),se(123minsida,a,ac,b,bd,blogspot,' +
+  'brand,c,com,conf,d,e,f,fh,fhsk,fhv,g,h,i,iopsys,itcouldbewor,k,komforb,kommunalforbund,komvux,' +
+  'l,lanbib,m,myspreadshop,n,naturbruksgymn,o,org,p,parti,pp,press,r,s,t,tm,u,w,x,y,z),' +
+  'services(loginline),sg(blogspot,com,edu,enscaled,gov,net,org),sh(com,gov,hashbang,mil,net,now,' +
+  'org,platform~(ent,eu,us)),shop(barsy,barsyonline,base,hoplix,shopware),si(blogspot,f5,gitapp,' +
+  'gitpage),site(barsy,byen,canva~(my~(*)),cloudera~(*),convex,cyon,fastvps,fnwk,folionetwork,' +
+  'heyflow,jele,jouwweb,lelux,loginline,madethis,notion,novecore,omniwe,opensocial,' +
+  'platformsh~(*),srht,tst~(*),wpsquared),sk(blogspot),sl(com,edu,gov,net,org),sn(art,blogspot,' +
+  'com,edu,gouv,org,perso,univ),so(com,edu,gov,me,net,org,surveys),solutions(diher),' +
+  'space(app-ionos,heiyu,hf(static),myfast,project,uber,xs4all),ss(biz,co,com,edu,gov,me,net,org,' +
+  'sch),st(co,com,consulado,edu,embaixada,helioho,kirara,mil,net,noho,org,principe,saotome,' +
+  'store),store(barsy,sellfy,shopware,storebase),su(abkhazia,adygeya,aktyubinsk,arkhangelsk,' +
+  'armenia,ashgabad,azerbaijan,balashov,bashkiria,bryansk,bukhara,chimkent,dagestan,' +
+  'east-kazakhstan,exnet,georgia,grozny,ivanovo,jambyl,kalmykia,kaluga,karacol,karaganda,karelia,' +
+  'khakassia,krasnodar,kurgan,kustanai,lenug,mangyshlak,mordovia,msk,murmansk,nalchik,navoi,' +
+  'north-kazakhstan,nov,obninsk,penza,pokrovsk,sochi,spb,tashkent,termez,togliatti,troitsk,' +
+  'tselinograd,tula,tuva,vladikavkaz,vladimir,vologda),support(barsy),sv(com,edu,gob,org,red),' +
+  'sx(gov),sy(com,edu,gov,mil,net,org),systems(knightpoint),sz(ac,co,org),td(blogspot),' +
+  'team(discourse,jelastic),tech(cleverapps),technology(co),tf(sch),th(ac,co,go,in,mi,net,online,' +
+  'or,shop),tj(ac,biz,co,com,edu,go,gov,int,mil,name,net,nic,org,test,web),tl(gov),tm(co,com,edu,' +
+  'gov,mil,net,nom,org),tn(com,ens,fin,gov,ind,info,intl,mincom,nat,net,orangecloud,org,perso,' +
+  'tourism),to(611,com,edu,gov,mil,net,org,oya,quickconnect~(direct),vpnplus,x0),' +
+  'today(prequalifyme),top(now-dns,ntdll,wadl~(*)),tr(av,bbs,bel,biz,com(blogspot),dr,edu,gen,' +
+  'gov,info,k12,kep,mil,name,nc(gov),net,org,pol,tel,tsk,tv,web),tt(biz,co,com,edu,gov,info,mil,' +
+  'name,net,org,pro),tv(better-than,dyndns,from,on-the-web,sakura,worse-than),tw(blogspot,club,' +
+  'com(mymailer),ebiz,edu,game,gov,idv,mil,mydns,net,org,url),tz(ac,co,go,hotel,info,me,mil,mobi,' +
+  'ne,or,sc,tv),ua(biz,cc,cherkassy,cherkasy,chernigov,chernihiv,chernivtsi,chernovtsy,ck,cn,co,' +
+  'com,cr,crimea,cv,cx,dn,dnepropetrovsk,dnipropetrovsk,donetsk,dp,edu,gov,ie,if,in,inf,' +
+  'ivano-frankivsk,kh,kharkiv,kharkov,kherson,khmelnitskiy,khmelnytskyi,kiev,kirovograd,km,kr,' +
+  'kropyvnytskyi,krym,ks,kv,kyiv,lg,lt,ltd,lugansk,luhansk,lutsk,lv,lviv,mk,mykolaiv,net,' +
+  'nikolaev,od,odesa,odessa,org,pl,poltava,pp,rivne,rovno,rv,sb,sebastopol,sevastopol,sm,sumy,te,' +
+  'ternopil,uz,uzhgorod,uzhhorod,v,vinnica,vinnytsia,vn,volyn,yalta,zakarpattia,zaporizhzhe,' +
+  'zaporizhzhia,zhitomir,zhytomyr,zp,zt),ug(ac,blogspot,co,com,go,ne,or,org,sc),uk(ac,barsy,' +
+  'co(adimo,barsy,barsyonline,blogspot,bytemark~(dh,vm),layershift~(j),myspreadshop,nh-serv,' +
+  'no-ip,retrosnub~(cust)),conn,copro,gov(api,campaign,service),hosp,independent-commission,' +
+  'independent-inquest,independent-inquiry,independent-panel,independent-review,ltd,me,net,nhs,' +
+  'nimsite,oraclegovcloudapps~(*),org(affinitylottery,glug,lug,lugs,raffleentry,weeklylottery),' +
+  'plc,police,public-inquiry,pymnt,royal-commission,sch~(*)),us(ak(cc,k12,lib),al(cc,k12,lib),' +
+  'ar(cc,k12,lib),as(cc,k12,lib),az(cc,k12,lib),ca(cc,k12,lib),cloudns,co(cc,k12,lib),ct(cc,k12,' +
+  'lib),dc(cc,k12,lib),de(cc,lib),dni,drud,enscaled~(phx),fed,fl(cc,k12,lib),freeddns,ga(cc,k12,' +
+  'lib),golffan,gu(cc,k12,lib),heliohost,hi(cc,lib),ia(cc,k12,lib),id(cc,k12,lib),il(cc,k12,lib),' +
+  'in(cc,k12,lib),is-by,isa,kids,ks(cc,k12,lib),ky(cc,k12,lib),la(cc,k12,lib),land-4-sale,ma(cc,' +
+  'k12(chtr,paroch,pvt),lib),md(cc,k12,lib),me(cc,k12,lib),mi(ann-arbor,cc,cog,dst,eaton,gen,k12,' +
+  'lib,mus,tec,washtenaw),mircloud,mn(cc,k12,lib),mo(cc,k12,lib),ms(cc,k12,lib),mt(cc,k12,lib),' +
+  'nc(cc,k12,lib),nd(cc,lib),ne(cc,k12,lib),ngo,nh(cc,k12,lib),nj(cc,k12,lib),nm(cc,k12,lib),' +
+  'noip,nsn,nv(cc,k12,lib),ny(cc,k12,lib),oh(cc,k12,lib),ok(cc,k12,lib),or(cc,k12,lib),pa(cc,k12,' +
+  'lib),platterp,pointto,pr(cc,k12,lib),ri(cc,lib),sc(cc,k12,lib),sd(cc,lib),servername,srv(gh,' +
+  'gl),stuff-4-sale,tn(cc,k12,lib),tx(cc,k12,lib),ut(cc,k12,lib),va(cc,k12,lib),vi(cc,k12,lib),' +
+  'vt(cc,k12,lib),wa(cc,k12,lib),wi(cc,k12,lib),wv(cc),wy(cc,k12,lib)),uy(com(blogspot),edu,gub,' +
+  'mil,net,org),uz(co,com,net,org),vc(0e,com,edu,gov,gv(d),mil,mydns,net,org),ve(arts,bib,co,com,' +
+  'e12,edu,firm,gob,gov,info,int,mil,net,nom,org,rar,rec,store,tec,web),vi(co,com,k12,net,org),' +
+  'vn(ac,ai,angiang,bacgiang,backan,baclieu,bacninh,baria-vungtau,bentre,binhdinh,binhduong,' +
+  'binhphuoc,binhthuan,biz,blogspot,camau,cantho,caobang,com,daklak,daknong,danang,dienbien,' +
+  'dongnai,dongthap,edu,gialai,gov,hagiang,haiduong,haiphong,hanam,hanoi,hatinh,haugiang,health,' +
+  'hoabinh,hungyen,id,info,int,io,khanhhoa,kiengiang,kontum,laichau,lamdong,langson,laocai,' +
+  'longan,namdinh,name,net,nghean,ninhbinh,ninhthuan,org,phutho,phuyen,pro,quangbinh,quangnam,' +
+  'quangngai,quangninh,quangtri,soctrang,sonla,tayninh,thaibinh,thainguyen,thanhhoa,' +
+  'thanhphohochiminh,thuathienhue,tiengiang,travinh,tuyenquang,vinhlong,vinhphuc,yenbai),' +
+  'vodka(aaa),vu(com,edu,net,org),website(framer),wf(biz,sch),wiki(framer),ws(advisor~(*),' +
+  'cloud66,com,dyndns,edu,gov,mypets,net,org),xn--4dbrk0ce(xn--4dbgdty6c,xn--5dbhl8d,xn--8dbq2a,' +
+  'xn--hebda8b),xn--90a3ac(xn--80au,xn--90azh,xn--c1avg,xn--d1at,xn--o1ac,xn--o1ach),' +
+  'xn--j6w193g(xn--55qx5d,xn--gmqw5a,xn--mxtq1m,xn--od0alg,xn--uc0atv,xn--wcvs22d),' +
+  'xn--o3cw4h(xn--12c1fe0br,xn--12cfi8ixb8l,xn--12co0c3b4eva,xn--h3cuzk1di,xn--m3ch0j3a,' +
+  'xn--o3cyx2a),xn--p1acf(xn--41a,xn--80aaa0cvac,xn--90a1af,xn--90amc,xn--c1avg,xn--h1ahn,' +
+  'xn--h1aliz,xn--j1adp,xn--j1aef,xn--j1ael8b),xyz(telebit~(*)),ye(com,edu,gov,mil,net,org),' +
+  'yt(org),za~(ac,agric,alt,co(blogspot),edu,gov,grondar,law,mil,net,ngo,nic,nis,nom,org,school,' +
+  'tm,web),zm(ac,biz,co,com,edu,gov,info,mil,net,org,sch),zone(cloud66,lima,stackit,triton~(*)),' +
+  'zw(ac,co,gov,mil,org)';
@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+
+import { registrableDomain } from './registrableDomain';
+
+describe('registrableDomain', () => {
+  it('should keep the label before a single-label public suffix', () => {
+    // Then
+    expect(registrableDomain('example.com')).toBe('example.com');
+    expect(registrableDomain('static.example.com')).toBe('example.com');
+    expect(registrableDomain('a.b.example.dev')).toBe('example.dev');
+  });
+
+  it('should keep the label before a multi-label public suffix', () => {
+    // Then
+    expect(registrableDomain('shop.example.co.uk')).toBe('example.co.uk');
+    expect(registrableDomain('www.example.com.br')).toBe('example.com.br');
+    expect(registrableDomain('portal.example.gov.in')).toBe('example.gov.in');
+    expect(registrableDomain('www.example.ac.za')).toBe('example.ac.za');
+    expect(registrableDomain('www.example.aichi.jp')).toBe('example.aichi.jp');
+  });
+
+  it('should treat hosting platforms as public suffixes', () => {
+    // Then
+    expect(registrableDomain('my-app.github.io')).toBe('my-app.github.io');
+    expect(registrableDomain('d111111abcdef8.cloudfront.net')).toBe('d111111abcdef8.cloudfront.net');
+    expect(registrableDomain('cdn.my-store.myshopify.com')).toBe('my-store.myshopify.com');
+    expect(registrableDomain('assets.azureedge.net')).toBe('assets.azureedge.net');
+  });
+
+  it('should apply wildcard rules and their exceptions', () => {
+    // Then
+    expect(registrableDomain('www.example.gov.bd')).toBe('example.gov.bd');
+    expect(registrableDomain('www.ck')).toBe('www.ck');
+    expect(registrableDomain('www.example.nakahara.kawasaki.jp')).toBe('example.nakahara.kawasaki.jp');
+    expect(registrableDomain('www.city.kawasaki.jp')).toBe('city.kawasaki.jp');
+  });
+
+  it('should apply the rules of internationalized suffixes in punycode', () => {
+    // Then
+    expect(registrableDomain('www.example.xn--55qx5d.cn')).toBe('example.xn--55qx5d.cn');
+  });
+
+  it('should return null for public suffixes', () => {
+    // Then
+    expect(registrableDomain('co.uk')).toBeNull();
+    expect(registrableDomain('github.io')).toBeNull();
+    expect(registrableDomain('')).toBeNull();
+  });
+
+  it('should keep IP addresses and single-label hosts', () => {
+    // Then
+    expect(registrableDomain('localhost')).toBe('localhost');
+    expect(registrableDomain('192.168.0.1')).toBe('192.168.0.1');
+    expect(registrableDomain('[::1]')).toBe('[::1]');
+  });
+
+  it('should ignore case and the trailing dot', () => {
+    // Then
+    expect(registrableDomain('CDN.Example.COM.')).toBe('example.com');
+  });
+});
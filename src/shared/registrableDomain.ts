@@ -0,0 +1,97 @@
+import { PACKED_PUBLIC_SUFFIXES } from './publicSuffixes';
+
+interface SuffixNode {
+  /** Whether the labels from the TLD down to this node are a rule of the list */
+  isRule: boolean;
+  children: Map<string, SuffixNode>;
+}
+
+const createNode = (isRule: boolean): SuffixNode => ({ isRule, children: new Map() });
+
+/**
+ * Parses the packed trie of publicSuffixes.ts: `label(children)`, siblings separated by
+ * commas and labels that are not a rule followed by `~`.
+ */
+const parseSuffixTrie = (packed: string): SuffixNode => {
+  const root = createNode(false);
+  const parents: SuffixNode[] = [];
+  let node = root;
+  let last: SuffixNode | null = null;
+  let label = '';
+
+  const addLabel = () => {
+    if (!label) return;
+    const isRule = !label.endsWith('~');
+    last = createNode(isRule);
+    node.children.set(isRule ? label : label.slice(0, -1), last);
+    label = '';
+  };
+
+  for (const char of packed) {
+    if (char === '(') {
+      addLabel();
+      parents.push(node);
+      node = last ?? node;
+    } else if (char === ')') {
+      addLabel();
+      node = parents.pop() ?? root;
+    } else if (char === ',') {
+      addLabel();
+    } else {
+      label += char;
+    }
+  }
+  addLabel();
+  return root;
+};
+
+let suffixTrie: SuffixNode | null = null;
+
+/**
+ * Rules of the list, parsed on first use so importing the module has no cost.
+ */
+const getSuffixTrie = (): SuffixNode => {
+  suffixTrie ??= parseSuffixTrie(PACKED_PUBLIC_SUFFIXES);
+  return suffixTrie;
+};
+
+const isIPAddress = (hostname: string): boolean => (
+  hostname.includes(':') || hostname.startsWith('[') || /^\d+(\.\d+){3}$/.test(hostname)
+);
+
+/**
+ * Number of labels of the public suffix of a hostname, following the rules of the
+ * Public Suffix List: exceptions win, then the longest matching rule, then `*`.
+ */
+const publicSuffixLength = (labels: string[]): number => {
+  let node = getSuffixTrie();
+  let length = 1;
+  for (let depth = 1; depth <= labels.length; depth++) {
+    const label = labels[labels.length - depth];
+    if (node.children.has(`!${label}`)) return depth - 1;
+    if (node.children.get('*')?.isRule) length = depth;
+
+    const child = node.children.get(label);
+    if (!child) break;
+    if (child.isRule) length = depth;
+    node = child;
+  }
+  return length;
+};
+
+/**
+ * Registrable domain (eTLD+1) of a hostname, e.g. `static.example.co.uk` → `example.co.uk`.
+ *
+ * IP addresses and single-label hosts such as `localhost` are their own registrable
+ * domain. Returns null for empty hostnames and public suffixes (`co.uk`, `github.io`).
+ */
+export const registrableDomain = (hostname: string): string | null => {
+  const host = hostname.toLowerCase().replace(/\.$/, '');
+  if (!host) return null;
+  if (isIPAddress(host) || !host.includes('.')) return host;
+
+  const labels = host.split('.');
+  const suffixLength = publicSuffixLength(labels);
+  if (suffixLength >= labels.length) return null;
+  return labels.slice(-(suffixLength + 1)).join('.');
+};
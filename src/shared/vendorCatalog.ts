@@ -0,0 +1,94 @@
+/**
+ * What a third-party vendor provides to the page.
+ */
+export const VENDOR_CATEGORIES = {
+  ANALYTICS: 'analytics',
+  ADVERTISING: 'advertising',
+  CDN: 'cdn',
+  SOCIAL: 'social',
+  TAG_MANAGER: 'tag-manager',
+  MONITORING: 'monitoring',
+  CUSTOMER_SUPPORT: 'customer-support',
+  PAYMENTS: 'payments',
+  VIDEO: 'video',
+} as const;
+
+export type VendorCategory = (typeof VENDOR_CATEGORIES)[keyof typeof VENDOR_CATEGORIES];
+
+/**
+ * Named third party and the domains it serves from. A domain also matches its subdomains.
+ */
+export interface Vendor {
+  name: string;
+  category: VendorCategory;
+  domains: readonly string[];
+}
+
+/**
+ * Known third parties, matched against the hostname of resources, scripts and CSP violations.
+ */
+export const VENDOR_CATALOG: readonly Vendor[] = [
+  // ===== Analytics =====
+  { name: 'Google Analytics', category: VENDOR_CATEGORIES.ANALYTICS, domains: ['google-analytics.com', 'analytics.google.com'] },
+  { name: 'Hotjar', category: VENDOR_CATEGORIES.ANALYTICS, domains: ['hotjar.com', 'hotjar.io'] },
+  { name: 'Segment', category: VENDOR_CATEGORIES.ANALYTICS, domains: ['segment.com', 'segment.io'] },
+  { name: 'Mixpanel', category: VENDOR_CATEGORIES.ANALYTICS, domains: ['mixpanel.com', 'mxpnl.com'] },
+  { name: 'Amplitude', category: VENDOR_CATEGORIES.ANALYTICS, domains: ['amplitude.com'] },
+  { name: 'Microsoft Clarity', category: VENDOR_CATEGORIES.ANALYTICS, domains: ['clarity.ms'] },
+
+  // ===== Advertising =====
+  { name: 'Google Ads', category: VENDOR_CATEGORIES.ADVERTISING, domains: ['doubleclick.net', 'googlesyndication.com', 'googleadservices.com', 'adservice.google.com'] },
+  { name: 'Criteo', category: VENDOR_CATEGORIES.ADVERTISING, domains: ['criteo.com', 'criteo.net'] },
+  { name: 'Taboola', category: VENDOR_CATEGORIES.ADVERTISING, domains: ['taboola.com'] },
+  { name: 'Outbrain', category: VENDOR_CATEGORIES.ADVERTISING, domains: ['outbrain.com'] },
+  { name: 'LinkedIn Ads', category: VENDOR_CATEGORIES.ADVERTISING, domains: ['licdn.com', 'ads.linkedin.com'] },
+  { name: 'TikTok Ads', category: VENDOR_CATEGORIES.ADVERTISING, domains: ['analytics.tiktok.com'] },
+
+  // ===== CDN =====
+  { name: 'cdnjs', category: VENDOR_CATEGORIES.CDN, domains: ['cdnjs.cloudflare.com'] },
+  { name: 'jsDelivr', category: VENDOR_CATEGORIES.CDN, domains: ['jsdelivr.net'] },
+  { name: 'unpkg', category: VENDOR_CATEGORIES.CDN, domains: ['unpkg.com'] },
+  { name: 'jQuery CDN', category: VENDOR_CATEGORIES.CDN, domains: ['code.jquery.com'] },
+  { name: 'Google Hosted Libraries', category: VENDOR_CATEGORIES.CDN, domains: ['ajax.googleapis.com'] },
+  { name: 'Google Fonts', category: VENDOR_CATEGORIES.CDN, domains: ['fonts.googleapis.com', 'fonts.gstatic.com'] },
+  { name: 'Adobe Fonts', category: VENDOR_CATEGORIES.CDN, domains: ['use.typekit.net'] },
+
+  // ===== Social =====
+  { name: 'Facebook', category: VENDOR_CATEGORIES.SOCIAL, domains: ['facebook.net', 'facebook.com', 'fbcdn.net'] },
+  { name: 'X (Twitter)', category: VENDOR_CATEGORIES.SOCIAL, domains: ['platform.twitter.com', 'ads-twitter.com', 'twimg.com'] },
+
+  // ===== Tag managers =====
+  { name: 'Google Tag Manager', category: VENDOR_CATEGORIES.TAG_MANAGER, domains: ['googletagmanager.com'] },
+  { name: 'Tealium', category: VENDOR_CATEGORIES.TAG_MANAGER, domains: ['tiqcdn.com'] },
+
+  // ===== Monitoring =====
+  { name: 'Sentry', category: VENDOR_CATEGORIES.MONITORING, domains: ['sentry.io', 'sentry-cdn.com'] },
+  { name: 'New Relic', category: VENDOR_CATEGORIES.MONITORING, domains: ['newrelic.com', 'nr-data.net'] },
+  { name: 'Datadog', category: VENDOR_CATEGORIES.MONITORING, domains: ['datadoghq.com', 'datadoghq-browser-agent.com'] },
+
+  // ===== Customer support =====
+  { name: 'Intercom', category: VENDOR_CATEGORIES.CUSTOMER_SUPPORT, domains: ['intercom.io', 'intercomcdn.com'] },
+  { name: 'Zendesk', category: VENDOR_CATEGORIES.CUSTOMER_SUPPORT, domains: ['zendesk.com', 'zdassets.com'] },
+
+  // ===== Payments =====
+  { name: 'Stripe', category: VENDOR_CATEGORIES.PAYMENTS, domains: ['stripe.com', 'stripe.network'] },
+  { name: 'PayPal', category: VENDOR_CATEGORIES.PAYMENTS, domains: ['paypal.com', 'paypalobjects.com'] },
+
+  // ===== Video =====
+  { name: 'YouTube', category: VENDOR_CATEGORIES.VIDEO, domains: ['youtube.com', 'youtube-nocookie.com', 'ytimg.com'] },
+  { name: 'Vimeo', category: VENDOR_CATEGORIES.VIDEO, domains: ['vimeo.com', 'vimeocdn.com'] },
+];
+
+/**
+ * Whether a hostname is the domain or one of its subdomains.
+ */
+export const matchesDomain = (hostname: string, domain: string): boolean => (
+  hostname === domain || hostname.endsWith(`.${domain}`)
+);
+
+/**
+ * First vendor serving from the hostname, null when no vendor does.
+ */
+export const findVendor = (hostname: string, vendors: readonly Vendor[]): Vendor | null => (
+  vendors.find(vendor => vendor.domains.some(domain => matchesDomain(hostname, domain))) ?? null
+);
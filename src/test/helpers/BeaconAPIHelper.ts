@@ -0,0 +1,86 @@
+import { vi, type Mock } from 'vitest';
+import { WebApiMock } from './WebApiMock';
+
+interface MockBeaconConfig {
+  /** Value returned by navigator.sendBeacon, or null to remove the API */
+  beaconResult?: boolean | null;
+  /** Status returned by fetch, or null to remove the API */
+  fetchStatus?: number | null;
+}
+
+class BeaconAPIHelper extends WebApiMock {
+  private originalSendBeacon: Navigator['sendBeacon'] | undefined;
+  private originalFetch: typeof fetch | undefined;
+
+  public sendBeacon: Mock<(url: string, data?: BodyInit | null) => boolean> = vi.fn();
+  public fetch: Mock<(input: RequestInfo | URL, init?: RequestInit) => Promise<Response>> = vi.fn();
+
+  /**
+   * Mock navigator.sendBeacon and fetch with predictable results
+   */
+  mock(config: MockBeaconConfig = {}) {
+    if (!this.hasBeenMocked) {
+      this.originalSendBeacon = navigator.sendBeacon;
+      this.originalFetch = globalThis.fetch;
+    }
+
+    const { beaconResult = true, fetchStatus = 200 } = config;
+
+    this.sendBeacon = vi.fn(() => beaconResult ?? false);
+    this.fetch = vi.fn(() => Promise.resolve({
+      ok: fetchStatus !== null && fetchStatus >= 200 && fetchStatus < 300,
+      status: fetchStatus ?? 0,
+    } as Response));
+
+    Object.defineProperty(navigator, 'sendBeacon', {
+      value: beaconResult === null ? undefined : this.sendBeacon,
+      writable: true,
+      configurable: true
+    });
+
+    Object.defineProperty(globalThis, 'fetch', {
+      value: fetchStatus === null ? undefined : this.fetch,
+      writable: true,
+      configurable: true
+    });
+
+    this.hasBeenMocked = true;
+  }
+
+  /**
+   * Restore original navigator.sendBeacon and fetch
+   */
+  unmock() {
+    if (!this.hasBeenMocked) return;
+
+    Object.defineProperty(navigator, 'sendBeacon', {
+      value: this.originalSendBeacon,
+      writable: true,
+      configurable: true
+    });
+
+    Object.defineProperty(globalThis, 'fetch', {
+      value: this.originalFetch,
+      writable: true,
+      configurable: true
+    });
+
+    this.hasBeenMocked = false;
+  }
+
+  /**
+   * Parses the JSON bodies sent through sendBeacon
+   */
+  beaconBodies(): unknown[] {
+    return this.sendBeacon.mock.calls.map(([, data]) => JSON.parse(data as string));
+  }
+
+  /**
+   * Parses the JSON bodies sent through fetch
+   */
+  fetchBodies(): unknown[] {
+    return this.fetch.mock.calls.map(([, init]) => JSON.parse(init?.body as string));
+  }
+}
+
+export const beaconAPIHelper = new BeaconAPIHelper();
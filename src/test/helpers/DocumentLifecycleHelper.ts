@@ -0,0 +1,54 @@
+/**
+ * Helper utilities for mocking the visibility and prerendering state of the document in tests
+ */
+
+import { WebApiMock } from './WebApiMock';
+
+interface MockDocumentLifecycleConfig {
+  visibilityState?: DocumentVisibilityState;
+  prerendering?: boolean;
+}
+
+class DocumentLifecycleHelper extends WebApiMock {
+  /**
+   * Mock document.visibilityState and document.prerendering
+   */
+  mock(config: MockDocumentLifecycleConfig = {}) {
+    this.setState({ visibilityState: 'visible', prerendering: false, ...config });
+    this.hasBeenMocked = true;
+  }
+
+  /**
+   * Restore the document state of the environment
+   */
+  unmock() {
+    if (!this.hasBeenMocked) return;
+    Reflect.deleteProperty(document, 'visibilityState');
+    Reflect.deleteProperty(document, 'prerendering');
+    this.hasBeenMocked = false;
+  }
+
+  /**
+   * Hides the page, dispatching visibilitychange
+   */
+  hide() {
+    this.setState({ visibilityState: 'hidden' });
+    document.dispatchEvent(new Event('visibilitychange'));
+  }
+
+  /**
+   * Activates a prerendered page, dispatching prerenderingchange
+   */
+  activate() {
+    this.setState({ visibilityState: 'visible', prerendering: false });
+    document.dispatchEvent(new Event('prerenderingchange'));
+  }
+
+  private setState(config: MockDocumentLifecycleConfig) {
+    Object.entries(config).forEach(([property, value]) => {
+      Object.defineProperty(document, property, { value, configurable: true });
+    });
+  }
+}
+
+export const documentLifecycleHelper = new DocumentLifecycleHelper();
@@ -0,0 +1,151 @@
+/**
+ * In-memory implementation of the parts of IndexedDB used by IndexedDBQueueStorage.
+ * Requests and transactions complete asynchronously, and values are stored as
+ * structured clones, like in browsers.
+ */
+
+type ObjectStoreData = Map<IDBValidKey, unknown>;
+
+interface FakeIndexedDBConfig {
+  /** Whether opening a database fails */
+  failOpen?: boolean;
+}
+
+class FakeRequest<T> {
+  public result = undefined as T;
+  public error: DOMException | null = null;
+  public onsuccess: (() => void) | null = null;
+  public onerror: (() => void) | null = null;
+  public onupgradeneeded: (() => void) | null = null;
+
+  public succeed(result: T): void {
+    queueMicrotask(() => {
+      this.result = result;
+      this.onsuccess?.();
+    });
+  }
+
+  public fail(message: string): void {
+    queueMicrotask(() => {
+      this.error = new DOMException(message);
+      this.onerror?.();
+    });
+  }
+}
+
+class FakeObjectStore {
+  private readonly data: ObjectStoreData;
+  private readonly keyPath: string;
+
+  constructor(data: ObjectStoreData, keyPath: string) {
+    this.data = data;
+    this.keyPath = keyPath;
+  }
+
+  public getAll(): FakeRequest<unknown[]> {
+    const request = new FakeRequest<unknown[]>();
+    request.succeed(Array.from(this.data.values(), value => structuredClone(value)));
+    return request;
+  }
+
+  public put(value: Record<string, unknown>): void {
+    this.data.set(value[this.keyPath] as IDBValidKey, structuredClone(value));
+  }
+
+  public delete(key: IDBValidKey): void {
+    this.data.delete(key);
+  }
+}
+
+class FakeTransaction {
+  public oncomplete: (() => void) | null = null;
+  public onerror: (() => void) | null = null;
+  public onabort: (() => void) | null = null;
+  public error: DOMException | null = null;
+  private readonly store: FakeObjectStore;
+
+  constructor(store: FakeObjectStore) {
+    this.store = store;
+    // Completes once the operations requested synchronously were applied
+    queueMicrotask(() => this.oncomplete?.());
+  }
+
+  public objectStore(): FakeObjectStore {
+    return this.store;
+  }
+}
+
+class FakeDatabase {
+  public isClosed = false;
+  private readonly stores = new Map<string, { data: ObjectStoreData; keyPath: string }>();
+
+  public readonly objectStoreNames = {
+    contains: (name: string) => this.stores.has(name),
+  };
+
+  public createObjectStore(name: string, options: { keyPath: string }): void {
+    this.stores.set(name, { data: new Map(), keyPath: options.keyPath });
+  }
+
+  public transaction(storeName: string): FakeTransaction {
+    const store = this.stores.get(storeName);
+    if (!store || this.isClosed) throw new DOMException('The database connection is closing.');
+    return new FakeTransaction(new FakeObjectStore(store.data, store.keyPath));
+  }
+
+  public close(): void {
+    this.isClosed = true;
+  }
+
+  /**
+   * Connection to the same data, as returned by a later open()
+   */
+  public reopen(): FakeDatabase {
+    const connection = new FakeDatabase();
+    this.stores.forEach((store, name) => connection.stores.set(name, store));
+    return connection;
+  }
+}
+
+class FakeIndexedDB {
+  /** Number of open() calls */
+  public openCount = 0;
+  private readonly databases = new Map<string, FakeDatabase>();
+  private readonly failOpen: boolean;
+
+  constructor(config: FakeIndexedDBConfig = {}) {
+    this.failOpen = config.failOpen ?? false;
+  }
+
+  public open(name: string): FakeRequest<FakeDatabase> {
+    this.openCount++;
+    const request = new FakeRequest<FakeDatabase>();
+    if (this.failOpen) {
+      request.fail('The database could not be opened.');
+      return request;
+    }
+
+    const existing = this.databases.get(name);
+    if (existing) {
+      request.succeed(existing.reopen());
+      return request;
+    }
+
+    const database = new FakeDatabase();
+    this.databases.set(name, database);
+    queueMicrotask(() => {
+      request.result = database;
+      request.onupgradeneeded?.();
+    });
+    request.succeed(database);
+    return request;
+  }
+}
+
+/**
+ * Creates an empty IndexedDB factory, to be passed to IndexedDBQueueStorage
+ */
+export const createFakeIndexedDB = (config: FakeIndexedDBConfig = {}) => {
+  const fake = new FakeIndexedDB(config);
+  return { fake, factory: fake as unknown as IDBFactory };
+};
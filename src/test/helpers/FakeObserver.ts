@@ -0,0 +1,14 @@
+import { FallibleObserver } from '@/shared/FallibleObserver';
+
+/**
+ * Observer whose notifications are triggered manually from tests
+ */
+export class FakeObserver<T> extends FallibleObserver<T> {
+  public emit(value: T): void {
+    this.notifySuccess(value);
+  }
+
+  public fail(error: Error): void {
+    this.notifyError(error);
+  }
+}
@@ -0,0 +1,142 @@
+import { WebApiMock } from './WebApiMock';
+
+interface MockPerformanceObserverConfig {
+  /** Entry types reported by PerformanceObserver.supportedEntryTypes */
+  supportedEntryTypes?: string[];
+}
+
+class FakePerformanceObserver {
+  public static supportedEntryTypes: readonly string[] = [];
+
+  /** Options of every observe() call since the last disconnect */
+  public options: PerformanceObserverInit[] = [];
+  private readonly callback: PerformanceObserverCallback;
+  private readonly onObserve: (observer: FakePerformanceObserver) => void;
+  private readonly onDisconnect: (observer: FakePerformanceObserver) => void;
+
+  constructor(
+    callback: PerformanceObserverCallback,
+    onObserve: (observer: FakePerformanceObserver) => void,
+    onDisconnect: (observer: FakePerformanceObserver) => void
+  ) {
+    this.callback = callback;
+    this.onObserve = onObserve;
+    this.onDisconnect = onDisconnect;
+  }
+
+  public observe(options: PerformanceObserverInit): void {
+    this.options.push(options);
+    this.onObserve(this);
+  }
+
+  public disconnect(): void {
+    this.options = [];
+    this.onDisconnect(this);
+  }
+
+  public takeRecords(): PerformanceEntryList {
+    return [];
+  }
+
+  public deliver(entries: PerformanceEntry[]): void {
+    const entryList = {
+      getEntries: () => entries,
+      getEntriesByType: (type: string) => entries.filter(entry => entry.entryType === type),
+      getEntriesByName: (name: string) => entries.filter(entry => entry.name === name),
+    } as PerformanceObserverEntryList;
+    this.callback(entryList, this as unknown as PerformanceObserver);
+  }
+}
+
+class PerformanceObserverHelper extends WebApiMock {
+  private originalPerformanceObserver: typeof PerformanceObserver | undefined;
+  private readonly observing = new Set<FakePerformanceObserver>();
+
+  /**
+   * Mock PerformanceObserver with an implementation whose entries are emitted from tests
+   */
+  mock(config: MockPerformanceObserverConfig = {}) {
+    if (!this.hasBeenMocked) {
+      this.originalPerformanceObserver = globalThis.PerformanceObserver;
+    }
+
+    const observing = this.observing;
+    const MockPerformanceObserver = class extends FakePerformanceObserver {
+      constructor(callback: PerformanceObserverCallback) {
+        super(
+          callback,
+          observer => observing.add(observer),
+          observer => observing.delete(observer)
+        );
+      }
+    };
+    MockPerformanceObserver.supportedEntryTypes = config.supportedEntryTypes ?? [
+      'element',
+      'event',
+      'first-input',
+      'largest-contentful-paint',
+      'layout-shift',
+      'long-animation-frame',
+      'longtask',
+      'mark',
+      'measure',
+      'navigation',
+      'paint',
+      'resource',
+    ];
+
+    Object.defineProperty(globalThis, 'PerformanceObserver', {
+      value: MockPerformanceObserver,
+      writable: true,
+      configurable: true
+    });
+
+    this.observing.clear();
+    this.hasBeenMocked = true;
+  }
+
+  /**
+   * Restore the original PerformanceObserver
+   */
+  unmock() {
+    if (!this.hasBeenMocked) return;
+
+    Object.defineProperty(globalThis, 'PerformanceObserver', {
+      value: this.originalPerformanceObserver,
+      writable: true,
+      configurable: true
+    });
+    this.observing.clear();
+    this.hasBeenMocked = false;
+  }
+
+  /**
+   * Delivers entries to every connected observer of the given entry type
+   */
+  emit(entryType: string, entries: PerformanceEntry[]): void {
+    for (const observer of this.observedBy(entryType)) {
+      observer.deliver(entries);
+    }
+  }
+
+  /**
+   * Entry types with at least one connected observer
+   */
+  observedEntryTypes(): string[] {
+    return this.observedOptions().map(options => options.type ?? '');
+  }
+
+  /**
+   * Options passed to observe() by every connected observer
+   */
+  observedOptions(): PerformanceObserverInit[] {
+    return Array.from(this.observing).flatMap(observer => observer.options);
+  }
+
+  private observedBy(entryType: string): FakePerformanceObserver[] {
+    return Array.from(this.observing).filter(observer => observer.options.some(options => options.type === entryType));
+  }
+}
+
+// Singleton instance
+export const performanceObserverHelper = new PerformanceObserverHelper();
@@ -0,0 +1,62 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { BackForwardCacheReport } from '@/reports/performance/BackForwardCacheReport';
+import type { NotRestoredReasons } from '@/types/PerformanceEntryTypes';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+/**
+ * Object Mother for BackForwardCacheReport test scenarios
+ */
+export class BackForwardCacheReportMothers {
+  /**
+   * notRestoredReasons of a page with an unload listener and a blocking third-party iframe
+   */
+  static notRestoredReasons(): NotRestoredReasons {
+    return {
+      url: 'https://example.com/checkout',
+      src: null,
+      id: null,
+      name: null,
+      blocked: true,
+      reasons: [{ reason: 'unload-listener' }],
+      children: [
+        {
+          url: null,
+          src: 'https://chat.vendor.com/widget',
+          id: 'chat',
+          name: null,
+          blocked: true,
+          reasons: [{ reason: 'websocket' }, { reason: 'unload-listener' }],
+          children: [],
+        },
+        {
+          url: 'https://example.com/ads',
+          src: 'https://example.com/ads',
+          id: null,
+          name: null,
+          blocked: false,
+          reasons: null,
+          children: null,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Page view restored from the bfcache 5s after the time origin
+   */
+  static restored(): BackForwardCacheReport {
+    return BackForwardCacheReport.fromRestore('bfcache-restore', PerformanceTime.fromRelativeTime(5000));
+  }
+
+  /**
+   * Back/forward navigation blocked by an unload listener and a third-party iframe
+   */
+  static notRestored(): BackForwardCacheReport {
+    return BackForwardCacheReport.fromNotRestoredReasons(
+      'bfcache-not-restored',
+      PerformanceTime.fromRelativeTime(0),
+      BackForwardCacheReportMothers.notRestoredReasons()
+    );
+  }
+}
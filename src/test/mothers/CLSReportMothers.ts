@@ -0,0 +1,19 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { CLSReport } from '@/reports/web-vitals/CLSReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+export class CLSReportMothers {
+  /**
+   * Layout shift with the given score, happening at the given time (ms since time origin)
+   */
+  static shiftAt(occurredAt: number, value: number): CLSReport {
+    return CLSReport.create({
+      id: `cls-${occurredAt}`,
+      createdAt: PerformanceTime.fromRelativeTime(occurredAt),
+      occurredAt: PerformanceTime.fromRelativeTime(occurredAt),
+      value,
+      sources: [],
+    });
+  }
+}
@@ -0,0 +1,65 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import {
+  ConnectionQualityReport,
+  type ConnectionSignals
+} from '@/reports/performance/ConnectionQualityReport';
+import type { NetworkInformation } from '@/types/PerformanceEntryTypes';
+
+/**
+ * Object Mother for ConnectionQualityReport test scenarios
+ */
+export class ConnectionQualityReportMothers {
+  /**
+   * Signals of a 4g connection without throughput measurements
+   */
+  static signals(overrides: Partial<ConnectionSignals> = {}): ConnectionSignals {
+    return {
+      online: true,
+      effectiveType: '4g',
+      rtt: 50,
+      downlink: 10,
+      saveData: false,
+      measuredThroughput: null,
+      sampleCount: 0,
+      ...overrides,
+    };
+  }
+
+  /**
+   * navigator.connection with the given properties, dispatching "change" events
+   */
+  static networkInformation(properties: Partial<NetworkInformation> = {}): NetworkInformation {
+    return Object.assign(new EventTarget(), {
+      effectiveType: '4g',
+      rtt: 50,
+      downlink: 10,
+      saveData: false,
+      ...properties,
+    });
+  }
+
+  /**
+   * Fast connection confirmed by resource measurements
+   */
+  static fast(): ConnectionQualityReport {
+    return ConnectionQualityReport.fromSignals('connection-fast', ConnectionQualityReportMothers.signals({
+      measuredThroughput: 12.5,
+      sampleCount: 8,
+    }));
+  }
+
+  /**
+   * 3g connection whose resources download at less than 1Mbps, with data saving enabled
+   */
+  static slow(): ConnectionQualityReport {
+    return ConnectionQualityReport.fromSignals('connection-slow', ConnectionQualityReportMothers.signals({
+      effectiveType: '3g',
+      rtt: 300,
+      downlink: 1.5,
+      saveData: true,
+      measuredThroughput: 0.6,
+      sampleCount: 5,
+    }));
+  }
+}
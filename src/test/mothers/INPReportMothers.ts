@@ -2,9 +2,30 @@
 
 import { INPReport } from '@/reports/web-vitals/INPReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
 import { RATINGS } from '@/types/WebVitals';
 import type { INPReportDTO } from '@/reports/web-vitals/INPReport';
 
+const INTERACTION_START = 100;
+
+/**
+ * Phases of an interaction starting at 100ms, split as 20% input delay,
+ * 50% processing time and 30% presentation delay unless specified
+ */
+const phasesOf = (
+  value: number,
+  inputDelay = value * 0.2,
+  processingTime = value * 0.5
+): Pick<INPReportDTO, 'inputDelay' | 'processingTime' | 'presentationDelay'> => {
+  const processingStart = INTERACTION_START + inputDelay;
+  const processingEnd = processingStart + processingTime;
+  return {
+    inputDelay: TimeSegment.fromTiming(INTERACTION_START, processingStart),
+    processingTime: TimeSegment.fromTiming(processingStart, processingEnd),
+    presentationDelay: TimeSegment.fromTiming(processingEnd, INTERACTION_START + value),
+  };
+};
+
 export class INPReportMothers {
   /**
    * Good INP performance (< 200ms)
@@ -13,9 +34,12 @@ export class INPReportMothers {
     const data: INPReportDTO = {
       id: `inp-${RATINGS.GOOD.toLowerCase()}`,
       value: 150, // Good performance
-      occurredAt: PerformanceTime.fromRelativeTime(100),
+      occurredAt: PerformanceTime.fromRelativeTime(INTERACTION_START),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      eventName: 'click'
+      eventName: 'click',
+      interactionId: 1,
+      target: 'button#submit',
+      ...phasesOf(150)
     };
     return INPReport.create(data);
   }
@@ -27,9 +51,12 @@ export class INPReportMothers {
     const data: INPReportDTO = {
       id: `inp-${RATINGS.NEEDS_IMPROVEMENT.toLowerCase().replace('_', '-')}`,
       value: 350, // Needs improvement
-      occurredAt: PerformanceTime.fromRelativeTime(100),
+      occurredAt: PerformanceTime.fromRelativeTime(INTERACTION_START),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      eventName: 'keydown'
+      eventName: 'keydown',
+      interactionId: 1,
+      target: 'input#search',
+      ...phasesOf(350)
     };
     return INPReport.create(data);
   }
@@ -41,9 +68,12 @@ export class INPReportMothers {
     const data: INPReportDTO = {
       id: `inp-${RATINGS.POOR.toLowerCase()}`,
       value: 750, // Poor performance
-      occurredAt: PerformanceTime.fromRelativeTime(100),
+      occurredAt: PerformanceTime.fromRelativeTime(INTERACTION_START),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      eventName: 'click'
+      eventName: 'click',
+      interactionId: 1,
+      target: 'button#submit',
+      ...phasesOf(750)
     };
     return INPReport.create(data);
   }
@@ -51,14 +81,40 @@ export class INPReportMothers {
   /**
    * Custom INP report with specific value and event
    */
-  static withValue(value: number, eventName = 'click'): INPReport {
+  static withValue(value: number, eventName = 'click', interactionId = 1): INPReport {
+    const data: INPReportDTO = {
+      id: `inp-${interactionId}`,
+      value,
+      occurredAt: PerformanceTime.fromRelativeTime(INTERACTION_START),
+      createdAt: PerformanceTime.fromRelativeTime(200),
+      eventName,
+      interactionId,
+      target: null,
+      ...phasesOf(value)
+    };
+    return INPReport.create(data);
+  }
+
+  /**
+   * Custom INP report with specific phase durations
+   */
+  static withPhases(
+    inputDelay: number,
+    processingTime: number,
+    presentationDelay: number,
+    interactionId = 1
+  ): INPReport {
+    const value = inputDelay + processingTime + presentationDelay;
     const data: INPReportDTO = {
-      id: 'inp-custom',
+      id: `inp-${interactionId}`,
       value,
-      occurredAt: PerformanceTime.fromRelativeTime(100),
+      occurredAt: PerformanceTime.fromRelativeTime(INTERACTION_START),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      eventName
+      eventName: 'click',
+      interactionId,
+      target: null,
+      ...phasesOf(value, inputDelay, processingTime)
     };
     return INPReport.create(data);
   }
-}
\ No newline at end of file
+}
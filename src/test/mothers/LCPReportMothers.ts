@@ -3,8 +3,29 @@
 import type { LCPReportData } from '@/reports/web-vitals/LCPReport';
 import { LCPReport } from '@/reports/web-vitals/LCPReport';
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { TimeSegment } from '@/value-objects/TimeSegment';
 import { RATINGS } from '@/types/WebVitals';
 
+type LCPAttributionData = Pick<
+  LCPReportData,
+  'url' | 'isLazyLoaded' | 'fetchPriority' | 'timeToFirstByte' | 'resourceLoadDelay' | 'resourceLoadDuration' | 'elementRenderDelay'
+>;
+
+/**
+ * Image LCP split as 20% TTFB, 10% load delay, 40% load duration and 30% render delay
+ */
+const attributionOf = (value: number): LCPAttributionData => {
+  const [firstByte, requestStart, responseEnd] = [0.2, 0.3, 0.7].map(share => Math.round(value * share));
+  return {
+    url: 'https://example.com/hero.jpg',
+    isLazyLoaded: false,
+    fetchPriority: null,
+    timeToFirstByte: TimeSegment.fromTiming(0, firstByte),
+    resourceLoadDelay: TimeSegment.fromTiming(firstByte, requestStart),
+    resourceLoadDuration: TimeSegment.fromTiming(requestStart, responseEnd),
+    elementRenderDelay: TimeSegment.fromTiming(responseEnd, value),
+  };
+};
 
 export class LCPReportMothers {
   /**
@@ -16,7 +37,8 @@ export class LCPReportMothers {
       value: 1800, // Good performance
       occurredAt: PerformanceTime.fromRelativeTime(100),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      element: null
+      element: null,
+      ...attributionOf(1800)
     };
     return LCPReport.create(data);
   }
@@ -30,7 +52,8 @@ export class LCPReportMothers {
       value: 3200, // Needs improvement
       occurredAt: PerformanceTime.fromRelativeTime(100),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      element: null
+      element: null,
+      ...attributionOf(3200)
     };
     return LCPReport.create(data);
   }
@@ -44,7 +67,8 @@ export class LCPReportMothers {
       value: 5500, // Poor performance
       occurredAt: PerformanceTime.fromRelativeTime(100),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      element: null
+      element: null,
+      ...attributionOf(5500)
     };
     return LCPReport.create(data);
   }
@@ -58,7 +82,8 @@ export class LCPReportMothers {
       value,
       occurredAt: PerformanceTime.fromRelativeTime(100),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      element: null
+      element: null,
+      ...attributionOf(value)
     };
     return LCPReport.create(data);
   }
@@ -72,7 +97,8 @@ export class LCPReportMothers {
       value: 2000,
       occurredAt: PerformanceTime.fromRelativeTime(100),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      element
+      element,
+      ...attributionOf(2000)
     };
     return LCPReport.create(data);
   }
@@ -86,7 +112,8 @@ export class LCPReportMothers {
       value: 2000,
       occurredAt: PerformanceTime.fromRelativeTime(100),
       createdAt: PerformanceTime.fromRelativeTime(200),
-      element: null
+      element: null,
+      ...attributionOf(2000)
     };
     return LCPReport.create(data);
   }
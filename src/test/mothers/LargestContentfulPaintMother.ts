@@ -40,13 +40,9 @@ export class LargestContentfulPaintMother {
    * LCP entry with a mock image element
    */
   static withImageElement(): LargestContentfulPaint {
-    const mockElement = {
-      tagName: 'IMG',
-      src: 'https://example.com/hero-image.jpg',
-      alt: 'Hero image',
-      clientWidth: 800,
-      clientHeight: 450
-    } as unknown as Element;
+    const mockElement = document.createElement('img');
+    mockElement.src = 'https://example.com/hero-image.jpg';
+    mockElement.alt = 'Hero image';
 
     return LargestContentfulPaintMother.withCustomValues({
       element: mockElement,
@@ -0,0 +1,87 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { LongAnimationFrameReport } from '@/reports/performance/LongAnimationFrameReport';
+import type {
+  PerformanceLongAnimationFrameTimingEntry,
+  PerformanceScriptTimingEntry
+} from '@/types/PerformanceEntryTypes';
+
+/**
+ * Object Mother for LongAnimationFrameReport test scenarios
+ */
+export class LongAnimationFrameReportMothers {
+  /**
+   * Script timing entry, first-party by default (page host is example.com)
+   */
+  static script(overrides: Partial<PerformanceScriptTimingEntry> = {}): PerformanceScriptTimingEntry {
+    return {
+      name: 'script',
+      entryType: 'script',
+      startTime: 1010,
+      duration: 60,
+      invoker: 'BUTTON#buy.onclick',
+      invokerType: 'event-listener',
+      executionStart: 1010,
+      sourceURL: 'https://example.com/js/main.js',
+      sourceFunctionName: 'onBuy',
+      sourceCharPosition: 120,
+      forcedStyleAndLayoutDuration: 0,
+      pauseDuration: 0,
+      windowAttribution: 'self',
+      toJSON: () => ({}),
+      ...overrides,
+    };
+  }
+
+  /**
+   * Long animation frame entry of 120ms starting at 1000ms
+   */
+  static entry(
+    overrides: Partial<PerformanceLongAnimationFrameTimingEntry> = {}
+  ): PerformanceLongAnimationFrameTimingEntry {
+    return {
+      name: 'long-animation-frame',
+      entryType: 'long-animation-frame',
+      startTime: 1000,
+      duration: 120,
+      blockingDuration: 70,
+      renderStart: 1090,
+      styleAndLayoutStart: 1100,
+      firstUIEventTimestamp: 0,
+      scripts: [LongAnimationFrameReportMothers.script()],
+      toJSON: () => ({}),
+      ...overrides,
+    };
+  }
+
+  /**
+   * Frame with the given blocking duration and scripts
+   */
+  static withScripts(
+    id: string,
+    blockingDuration: number,
+    scripts: PerformanceScriptTimingEntry[]
+  ): LongAnimationFrameReport {
+    return LongAnimationFrameReport.fromPerformanceLongAnimationFrameTimingEntry(
+      id,
+      LongAnimationFrameReportMothers.entry({ blockingDuration, scripts })
+    );
+  }
+
+  /**
+   * Frame blocked by a first-party and a third-party script
+   */
+  static withThirdPartyScript(): LongAnimationFrameReport {
+    return LongAnimationFrameReportMothers.withScripts('loaf-third-party', 90, [
+      LongAnimationFrameReportMothers.script({ duration: 40 }),
+      LongAnimationFrameReportMothers.script({
+        sourceURL: 'https://cdn.analytics.com/tag.js',
+        sourceFunctionName: 'track',
+        invoker: 'TimerHandler:setTimeout',
+        invokerType: 'user-callback',
+        duration: 80,
+        forcedStyleAndLayoutDuration: 15,
+      }),
+    ]);
+  }
+}
@@ -0,0 +1,50 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+
+/**
+ * Object Mother for LongTaskCollection test scenarios
+ */
+export class LongTaskCollectionMothers {
+  /**
+   * Long task starting at the given time (relative to navigation start)
+   */
+  static task(id: string, startTime: number, duration: number): LongTaskReport {
+    return LongTaskReport.create({
+      id,
+      createdAt: PerformanceTime.fromAbsoluteTime(performance.timeOrigin),
+      occurredAt: PerformanceTime.fromRelativeTime(startTime),
+      duration,
+      name: 'self',
+    });
+  }
+
+  /**
+   * Tasks of a page load with FCP at 1000ms:
+   * - 900ms-1100ms, straddling FCP (100ms blocking after FCP)
+   * - 2000ms-2120ms (70ms blocking)
+   * - 3000ms-3060ms (10ms blocking), the last task before a 5s quiet window
+   * - 9000ms-9300ms, after TTI
+   */
+  static pageLoadTasks(): LongTaskReport[] {
+    return [
+      LongTaskCollectionMothers.task('task-straddling-fcp', 900, 200),
+      LongTaskCollectionMothers.task('task-2000', 2000, 120),
+      LongTaskCollectionMothers.task('task-3000', 3000, 60),
+      LongTaskCollectionMothers.task('task-after-tti', 9000, 300),
+    ];
+  }
+
+  /**
+   * Page load with FCP at 1000ms and TTI at 3060ms (TBT 180ms)
+   */
+  static pageLoad() {
+    return {
+      id: 'long-task-collection-001',
+      createdAt: PerformanceTime.fromAbsoluteTime(performance.timeOrigin + 10_000),
+      reports: LongTaskCollectionMothers.pageLoadTasks(),
+      firstContentfulPaint: PerformanceTime.fromRelativeTime(1000),
+      timeToInteractive: PerformanceTime.fromRelativeTime(3060),
+    };
+  }
+}
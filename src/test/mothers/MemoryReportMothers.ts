@@ -0,0 +1,72 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { MemoryReport, type MemoryTrend } from '@/reports/performance/MemoryReport';
+import type { MemoryMeasurement, PerformanceMemoryInfo } from '@/types/PerformanceEntryTypes';
+
+const STABLE: MemoryTrend = { consecutiveIncreases: 0, growth: 0, isMonotonicGrowth: false };
+
+/**
+ * Object Mother for MemoryReport test scenarios
+ */
+export class MemoryReportMothers {
+  /**
+   * measureUserAgentSpecificMemory() result of a page with a cross-origin iframe and a worker
+   */
+  static measurement(bytes = 60_000_000): MemoryMeasurement {
+    return {
+      bytes,
+      breakdown: [
+        {
+          bytes: bytes - 20_000_000,
+          attribution: [{ url: 'https://example.com/', scope: 'Window' }],
+          types: ['JavaScript'],
+        },
+        {
+          bytes: 8_000_000,
+          attribution: [{ url: 'https://example.com/', scope: 'Window' }],
+          types: ['DOM'],
+        },
+        {
+          bytes: 7_000_000,
+          attribution: [{ url: 'https://example.com/worker.js', scope: 'DedicatedWorkerGlobalScope' }],
+          types: ['JavaScript'],
+        },
+        {
+          bytes: 5_000_000,
+          attribution: [{
+            url: '',
+            scope: 'cross-origin-aggregated',
+            container: { id: 'ads', src: 'https://ads.network.com/frame.html' },
+          }],
+          types: [],
+        },
+        { bytes: 0, attribution: [], types: [] },
+      ],
+    };
+  }
+
+  /**
+   * Non-standard performance.memory
+   */
+  static performanceMemory(usedJSHeapSize = 30_000_000): PerformanceMemoryInfo {
+    return {
+      usedJSHeapSize,
+      totalJSHeapSize: usedJSHeapSize + 10_000_000,
+      jsHeapSizeLimit: 4_294_705_152,
+    };
+  }
+
+  /**
+   * Report of a measureUserAgentSpecificMemory() result
+   */
+  static userAgentSpecific(trend: MemoryTrend = STABLE): MemoryReport {
+    return MemoryReport.fromMemoryMeasurement('memory-001', MemoryReportMothers.measurement(), trend);
+  }
+
+  /**
+   * Report of a performance.memory sample
+   */
+  static jsHeap(trend: MemoryTrend = STABLE): MemoryReport {
+    return MemoryReport.fromPerformanceMemory('memory-002', MemoryReportMothers.performanceMemory(), trend);
+  }
+}
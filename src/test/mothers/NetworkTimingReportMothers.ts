@@ -27,6 +27,20 @@ export class NetworkTimingReportMothers {
     };
   }
 
+  /**
+   * Document served by the origin after missing the CDN cache
+   */
+  static withServerTiming() {
+    return {
+      ...NetworkTimingReportMothers.fastNetwork(),
+      id: 'server-timing-network-timing-010',
+      serverTiming: [
+        { name: 'cdn-cache', duration: 0, description: 'MISS' },
+        { name: 'app', duration: 38, description: 'render' },
+      ]
+    };
+  }
+
   /**
    * Slow network scenario - poor connectivity with bottlenecks
    */
@@ -230,4 +230,14 @@ export class PerformanceResourceTimingMother {
       toJSON: () => ({})
     } as PerformanceResourceTiming;
   }
-}
\ No newline at end of file
+
+  /**
+   * Fast script entry with overrides
+   */
+  static withCustomValues(overrides: Partial<PerformanceResourceTiming>): PerformanceResourceTiming {
+    return {
+      ...PerformanceResourceTimingMother.fastScript(),
+      ...overrides
+    };
+  }
+}
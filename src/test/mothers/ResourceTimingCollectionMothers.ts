@@ -31,6 +31,39 @@ export class ResourceTimingCollectionMothers {
     };
   }
 
+  /**
+   * Resources with Server-Timing metrics: a CDN cache hit, a CDN cache miss
+   * and a resource without Server-Timing header
+   */
+  static withServerTiming() {
+    return {
+      id: 'server-timing-collection-010',
+      createdAt: PerformanceTime.fromAbsoluteTime(performance.timeOrigin + 500),
+      reports: [
+        ResourceTimingReport.create(ResourceTimingReportMothers.cdnCacheHit()),
+        ResourceTimingReport.create(ResourceTimingReportMothers.cdnCacheMiss()),
+        ResourceTimingReport.create(ResourceTimingReportMothers.compressedCSS())
+      ]
+    };
+  }
+
+  /**
+   * Resources with response metadata: a render-blocking stylesheet, a failed image,
+   * a script served by a service worker from the cache and a resource without metadata
+   */
+  static withResponseMetadata() {
+    return {
+      id: 'response-metadata-collection-011',
+      createdAt: PerformanceTime.fromAbsoluteTime(performance.timeOrigin + 500),
+      reports: [
+        ResourceTimingReport.create(ResourceTimingReportMothers.renderBlockingStylesheet()),
+        ResourceTimingReport.create(ResourceTimingReportMothers.notFoundImage()),
+        ResourceTimingReport.create(ResourceTimingReportMothers.serviceWorkerCached()),
+        ResourceTimingReport.create(ResourceTimingReportMothers.fastScript())
+      ]
+    };
+  }
+
   /**
    * Mixed resource types - typical page load
    */
@@ -145,6 +145,81 @@ export class ResourceTimingReportMothers {
     };
   }
 
+  /**
+   * Script served from the CDN cache, with the origin timing of the response
+   */
+  static cdnCacheHit() {
+    return {
+      ...ResourceTimingReportMothers.fastScript(),
+      id: 'cdn-cache-hit-resource-007',
+      serverTiming: [
+        { name: 'cdn-cache', duration: 0, description: 'HIT' },
+        { name: 'edge', duration: 4, description: null },
+      ]
+    };
+  }
+
+  /**
+   * API response missing the CDN cache, with the database time of the origin
+   */
+  static cdnCacheMiss() {
+    return {
+      ...ResourceTimingReportMothers.fastScript(),
+      id: 'cdn-cache-miss-resource-008',
+      name: 'https://example.com/api/products',
+      type: 'fetch',
+      serverTiming: [
+        { name: 'cdn-cache', duration: 0, description: 'MISS' },
+        { name: 'edge', duration: 6, description: null },
+        { name: 'db', duration: 53, description: 'products query' },
+      ]
+    };
+  }
+
+  /**
+   * Render-blocking stylesheet served over HTTP/1.1
+   */
+  static renderBlockingStylesheet() {
+    return {
+      ...ResourceTimingReportMothers.compressedCSS(),
+      id: 'render-blocking-resource-009',
+      protocol: 'http/1.1',
+      renderBlockingStatus: 'blocking' as const,
+      responseStatus: 200,
+      contentType: 'text/css',
+    };
+  }
+
+  /**
+   * Image answered with a 404 over HTTP/3
+   */
+  static notFoundImage() {
+    return {
+      ...ResourceTimingReportMothers.slowThirdPartyImage(),
+      id: 'not-found-resource-010',
+      protocol: 'h3',
+      renderBlockingStatus: 'non-blocking' as const,
+      responseStatus: 404,
+      contentType: 'text/html',
+    };
+  }
+
+  /**
+   * Script served from the browser cache through a service worker
+   */
+  static serviceWorkerCached() {
+    return {
+      ...ResourceTimingReportMothers.cached(),
+      id: 'service-worker-resource-011',
+      protocol: 'h2',
+      renderBlockingStatus: 'non-blocking' as const,
+      responseStatus: 200,
+      deliveryType: 'cache',
+      contentType: 'text/javascript',
+      workerStart: 48,
+    };
+  }
+
   /**
    * Creates a PerformanceResourceTiming for testing fromPerformanceResourceTiming
    */
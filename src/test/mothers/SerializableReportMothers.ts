@@ -0,0 +1,122 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import type { DeserializedReport } from '@/reports/deserializeReport';
+import { CLSReport } from '@/reports/web-vitals/CLSReport';
+import { CLSCollection } from '@/reports/web-vitals/CLSCollection';
+import { INPCollection } from '@/reports/web-vitals/INPCollection';
+import { LCPCollection } from '@/reports/web-vitals/LCPCollection';
+import { DOMTimingReport } from '@/reports/performance/DOMTimingReport';
+import { ElementTimingReport } from '@/reports/performance/ElementTimingReport';
+import { LongAnimationFrameCollection } from '@/reports/performance/LongAnimationFrameCollection';
+import { UserTimingCollection } from '@/reports/performance/UserTimingCollection';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { LongTaskCollection } from '@/reports/performance/LongTaskCollection';
+import { NetworkTimingReport } from '@/reports/performance/NetworkTimingReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+import { LCPReportMothers } from './LCPReportMothers';
+import { FCPReportMothers } from './FCPReportMothers';
+import { TTFBReportMothers } from './TTFBReportMothers';
+import { FIDReportMothers } from './FIDReportMothers';
+import { INPReportMothers } from './INPReportMothers';
+import { BackForwardCacheReportMothers } from './BackForwardCacheReportMothers';
+import { ConnectionQualityReportMothers } from './ConnectionQualityReportMothers';
+import { DOMTimingReportMothers } from './DOMTimingReportMothers';
+import { ElementTimingReportMothers } from './ElementTimingReportMothers';
+import { LongAnimationFrameReportMothers } from './LongAnimationFrameReportMothers';
+import { UserTimingReportMothers } from './UserTimingReportMothers';
+import { MemoryReportMothers } from './MemoryReportMothers';
+import { LongTaskReportMothers } from './LongTaskReportMothers';
+import { LongTaskCollectionMothers } from './LongTaskCollectionMothers';
+import { NetworkTimingReportMothers } from './NetworkTimingReportMothers';
+import { ResourceTimingReportMothers } from './ResourceTimingReportMothers';
+import { ResourceTimingCollectionMothers } from './ResourceTimingCollectionMothers';
+import { SoftNavigationReportMothers } from './SoftNavigationReportMothers';
+import { ThirdPartyImpactReportMothers } from './ThirdPartyImpactReportMothers';
+import { CSPViolationErrorReportMothers } from './CSPViolationErrorReportMothers';
+import { ResourceErrorReportMothers } from './ResourceErrorReportMothers';
+import { UnhandledJavaScriptErrorReportMothers } from './UnhandledJavaScriptErrorReportMothers';
+import { UnhandledPromiseRejectionReportMothers } from './UnhandledPromiseRejectionReportMothers';
+
+/**
+ * Object Mother with one instance of every serializable report and collection,
+ * for wire format tests.
+ */
+export class SerializableReportMothers {
+  /**
+   * CLS report without attribution sources (DOM nodes are not restored by fromJSON)
+   */
+  static clsReport(): CLSReport {
+    return CLSReport.create({
+      id: 'cls-001',
+      createdAt: PerformanceTime.fromRelativeTime(10),
+      occurredAt: PerformanceTime.fromRelativeTime(500),
+      value: 0.05,
+      sources: [],
+    });
+  }
+
+  /**
+   * CLS report with a layout shift source
+   */
+  static clsReportWithSource(): CLSReport {
+    const node = document.createElement('div');
+    node.id = 'banner';
+
+    return CLSReport.create({
+      id: 'cls-002',
+      createdAt: PerformanceTime.fromRelativeTime(10),
+      occurredAt: PerformanceTime.fromRelativeTime(500),
+      value: 0.12,
+      sources: [{
+        node,
+        previousRect: DOMRectReadOnly.fromRect({ x: 0, y: 0, width: 300, height: 100 }),
+        currentRect: DOMRectReadOnly.fromRect({ x: 0, y: 40, width: 300, height: 100 }),
+      }],
+    });
+  }
+
+  /**
+   * Every report and collection, keyed by class name
+   */
+  static all(): Array<[string, DeserializedReport]> {
+    return [
+      ['LCPReport', LCPReportMothers.good()],
+      ['FCPReport', FCPReportMothers.poor()],
+      ['TTFBReport', TTFBReportMothers.needsImprovement()],
+      ['FIDReport', FIDReportMothers.needsImprovement()],
+      ['INPReport', INPReportMothers.withValue(250)],
+      ['CLSReport', SerializableReportMothers.clsReport()],
+      ['LCPCollection', LCPCollection.create('lcp-collection', [LCPReportMothers.good(), LCPReportMothers.poor()])],
+      ['INPCollection', INPCollection.create('inp-collection', [INPReportMothers.withValue(100)])],
+      ['CLSCollection', CLSCollection.create('cls-collection', [SerializableReportMothers.clsReport()])],
+      ['BackForwardCacheReport', BackForwardCacheReportMothers.notRestored()],
+      ['ConnectionQualityReport', ConnectionQualityReportMothers.slow()],
+      ['DOMTimingReport', DOMTimingReport.create(DOMTimingReportMothers.slowPageLoad())],
+      ['ElementTimingReport', ElementTimingReport.create(ElementTimingReportMothers.heroImage())],
+      ['LongAnimationFrameReport', LongAnimationFrameReportMothers.withThirdPartyScript()],
+      ['LongAnimationFrameCollection', LongAnimationFrameCollection.create({
+        id: 'loaf-collection',
+        createdAt: PerformanceTime.fromAbsoluteTime(performance.timeOrigin),
+        reports: [LongAnimationFrameReportMothers.withThirdPartyScript()],
+      })],
+      ['LongTaskReport', LongTaskReport.create(LongTaskReportMothers.highSeverity())],
+      ['LongTaskCollection', LongTaskCollection.create(LongTaskCollectionMothers.pageLoad())],
+      ['MemoryReport', MemoryReportMothers.userAgentSpecific()],
+      ['NetworkTimingReport', NetworkTimingReport.create(NetworkTimingReportMothers.withServerTiming())],
+      ['ResourceTimingReport', ResourceTimingReport.create(ResourceTimingReportMothers.cdnCacheMiss())],
+      ['ResourceTimingCollection', ResourceTimingCollection.create(ResourceTimingCollectionMothers.withResponseMetadata())],
+      ['SoftNavigationReport', SoftNavigationReportMothers.toProductPage()],
+      ['ThirdPartyImpactReport', ThirdPartyImpactReportMothers.pageWithThirdParties()],
+      ['UserTimingReport', UserTimingReportMothers.checkoutRender()],
+      ['UserTimingCollection', UserTimingCollection.fromUserTimingReports('user-timing-collection', [
+        UserTimingReportMothers.mark('checkout:start', 1200),
+        UserTimingReportMothers.checkoutRender(),
+      ])],
+      ['CSPViolationErrorReport', CSPViolationErrorReportMothers.high()],
+      ['ResourceErrorReport', ResourceErrorReportMothers.criticalScript()],
+      ['UnhandledJavaScriptErrorReport', UnhandledJavaScriptErrorReportMothers.critical()],
+      ['UnhandledPromiseRejectionReport', UnhandledPromiseRejectionReportMothers.low()],
+    ];
+  }
+}
@@ -0,0 +1,37 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { SOFT_NAVIGATION_SOURCES, SoftNavigationReport } from '@/reports/performance/SoftNavigationReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+
+/**
+ * Object Mother for SoftNavigationReport test scenarios
+ */
+export class SoftNavigationReportMothers {
+  /**
+   * Navigation to the given route starting at the given relative time
+   */
+  static to(
+    route: string,
+    startTime: number,
+    previousRoute: string | null = '/',
+    url = `https://example.com${route}`
+  ): SoftNavigationReport {
+    return SoftNavigationReport.create({
+      id: `soft-navigation-${startTime}`,
+      createdAt: PerformanceTime.fromRelativeTime(startTime),
+      occurredAt: PerformanceTime.fromRelativeTime(startTime),
+      navigationId: `navigation-${startTime}`,
+      route,
+      url,
+      previousRoute,
+      source: SOFT_NAVIGATION_SOURCES.PUSH_STATE,
+    });
+  }
+
+  /**
+   * pushState navigation from the home page to a product page
+   */
+  static toProductPage(): SoftNavigationReport {
+    return SoftNavigationReportMothers.to('/products/:id', 3000, '/', 'https://example.com/products/42');
+  }
+}
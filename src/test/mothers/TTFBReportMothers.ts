@@ -0,0 +1,27 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { TTFBReport } from '@/reports/web-vitals/TTFBReport';
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import type { WebVitalReportDTO } from '@/reports/web-vitals/WebVitalReport';
+
+export class TTFBReportMothers {
+  /**
+   * Needs improvement TTFB performance (800ms - 1800ms)
+   */
+  static needsImprovement(): TTFBReport {
+    return TTFBReportMothers.withValue(1200);
+  }
+
+  /**
+   * Custom TTFB report with specific value
+   */
+  static withValue(value: number): TTFBReport {
+    const data: WebVitalReportDTO = {
+      id: 'ttfb-custom',
+      value,
+      occurredAt: PerformanceTime.fromRelativeTime(value),
+      createdAt: PerformanceTime.fromRelativeTime(value + 100)
+    };
+    return TTFBReport.create(data);
+  }
+}
@@ -0,0 +1,93 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+import { PerformanceTime } from '@/value-objects/PerformanceTime';
+import { LongTaskReport } from '@/reports/performance/LongTaskReport';
+import { ResourceTimingReport } from '@/reports/performance/ResourceTimingReport';
+import { ResourceTimingCollection } from '@/reports/performance/ResourceTimingCollection';
+import {
+  ThirdPartyImpactReport,
+  type ThirdPartyImpactSources
+} from '@/reports/performance/ThirdPartyImpactReport';
+import { ResourceTimingReportMothers } from './ResourceTimingReportMothers';
+import { LongTaskReportMothers } from './LongTaskReportMothers';
+import { ResourceErrorReportMothers } from './ResourceErrorReportMothers';
+import { UnhandledJavaScriptErrorReportMothers } from './UnhandledJavaScriptErrorReportMothers';
+import { CSPViolationErrorReportMothers } from './CSPViolationErrorReportMothers';
+
+const GTM_SCRIPT = 'https://www.googletagmanager.com/gtm.js?id=GTM-XXXX';
+const GTM_FRAME = 'https://www.googletagmanager.com/ns.html?id=GTM-XXXX';
+
+/**
+ * Object Mother for ThirdPartyImpactReport test scenarios, on a page served from example.com
+ */
+export class ThirdPartyImpactReportMothers {
+  /**
+   * Long task of the main window (empty containerSrc) or of the frames loaded from containerSrcs
+   */
+  static longTask(id: string, duration: number, ...containerSrcs: string[]): LongTaskReport {
+    return LongTaskReport.create({
+      ...LongTaskReportMothers.lowSeverity(),
+      id,
+      duration,
+      attribution: containerSrcs.map(containerSrc => ({
+        containerType: containerSrc ? 'iframe' : 'window',
+        containerName: '',
+        containerSrc,
+        containerId: '',
+      })),
+    });
+  }
+
+  /**
+   * Reports of a page with first-party resources and errors, and three third parties:
+   * - Google Tag Manager: 45000 bytes, a 180ms long task (130ms blocking)
+   * - cdn.thirdparty.com: 120000 bytes, a 90ms long task (40ms blocking)
+   * - cdn.analytics.com: a failed load and a JavaScript error
+   * - malicious.com: a CSP violation
+   */
+  static sources(): ThirdPartyImpactSources {
+    return {
+      resources: ResourceTimingCollection.create({
+        id: 'third-party-resources',
+        createdAt: PerformanceTime.fromAbsoluteTime(performance.timeOrigin),
+        reports: [
+          ResourceTimingReport.create(ResourceTimingReportMothers.fastScript()),
+          ResourceTimingReport.create({
+            ...ResourceTimingReportMothers.fastScript(),
+            id: 'static-script-resource',
+            name: 'https://static.example.com/js/vendor.js',
+          }),
+          ResourceTimingReport.create({
+            ...ResourceTimingReportMothers.fastScript(),
+            id: 'gtm-script-resource',
+            name: GTM_SCRIPT,
+          }),
+          ResourceTimingReport.create(ResourceTimingReportMothers.slowThirdPartyImage()),
+        ],
+      }),
+      longTasks: [
+        ThirdPartyImpactReportMothers.longTask('gtm-long-task', 180, GTM_FRAME),
+        ThirdPartyImpactReportMothers.longTask('image-cdn-long-task', 90, 'https://cdn.thirdparty.com/widget.html'),
+        ThirdPartyImpactReportMothers.longTask('main-long-task', 300, ''),
+      ],
+      resourceErrors: [
+        ResourceErrorReportMothers.criticalScript(),
+        ResourceErrorReportMothers.highThirdPartyScript(),
+      ],
+      javascriptErrors: [
+        UnhandledJavaScriptErrorReportMothers.high(),
+        UnhandledJavaScriptErrorReportMothers.thirdParty(),
+      ],
+      cspViolations: [
+        CSPViolationErrorReportMothers.critical(),
+        CSPViolationErrorReportMothers.thirdParty(),
+      ],
+    };
+  }
+
+  /**
+   * Impact of the third parties of sources()
+   */
+  static pageWithThirdParties(): ThirdPartyImpactReport {
+    return ThirdPartyImpactReport.fromReports('third-party-impact', ThirdPartyImpactReportMothers.sources());
+  }
+}
@@ -0,0 +1,63 @@
+/* eslint-disable @typescript-eslint/no-extraneous-class */
+
+import { UserTimingReport } from '@/reports/performance/UserTimingReport';
+
+/**
+ * Object Mother for UserTimingReport test scenarios
+ */
+export class UserTimingReportMothers {
+  /**
+   * PerformanceMark entry
+   */
+  static markEntry(name: string, startTime: number, detail: unknown = null): PerformanceMark {
+    return {
+      name,
+      entryType: 'mark',
+      startTime,
+      duration: 0,
+      detail,
+      toJSON: () => ({}),
+    };
+  }
+
+  /**
+   * PerformanceMeasure entry
+   */
+  static measureEntry(name: string, startTime: number, duration: number, detail: unknown = null): PerformanceMeasure {
+    return {
+      name,
+      entryType: 'measure',
+      startTime,
+      duration,
+      detail,
+      toJSON: () => ({}),
+    };
+  }
+
+  /**
+   * Measure report with id `${name}-${startTime}`
+   */
+  static measure(name: string, startTime: number, duration: number, detail: unknown = null): UserTimingReport {
+    return UserTimingReport.fromPerformanceEntry(
+      `${name}-${startTime}`,
+      UserTimingReportMothers.measureEntry(name, startTime, duration, detail)
+    );
+  }
+
+  /**
+   * Mark report with id `${name}-${startTime}`
+   */
+  static mark(name: string, startTime: number): UserTimingReport {
+    return UserTimingReport.fromPerformanceEntry(
+      `${name}-${startTime}`,
+      UserTimingReportMothers.markEntry(name, startTime)
+    );
+  }
+
+  /**
+   * Checkout render measure with a detail
+   */
+  static checkoutRender(): UserTimingReport {
+    return UserTimingReportMothers.measure('checkout:render', 1200, 340, { step: 'payment', items: 3 });
+  }
+}
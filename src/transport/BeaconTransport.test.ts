@@ -0,0 +1,329 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { beaconAPIHelper } from '@/test/helpers/BeaconAPIHelper';
+import { FakeObserver } from '@/test/helpers/FakeObserver';
+import {
+  PayloadTooLargeException,
+  TransportFlushException,
+  TransportResponseException
+} from '@/exceptions/TransportExceptions';
+import { UnsupportedSSRException } from '@/exceptions/UnsupportedExceptions';
+
+import { BeaconTransport, type SerializableReport } from './BeaconTransport';
+
+const ENDPOINT = 'https://collector.example.com/rum';
+
+const aReport = (id: string, extra: Record<string, unknown> = {}): SerializableReport => ({
+  toJSON: () => ({ id, ...extra })
+});
+
+describe('BeaconTransport', () => {
+  let transport: BeaconTransport;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    beaconAPIHelper.mock();
+  });
+
+  afterEach(() => {
+    transport?.dispose();
+    beaconAPIHelper.unmock();
+    vi.useRealTimers();
+  });
+
+  describe('batching', () => {
+    it('should flush immediately when the batch size is reached', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT, maxBatchSize: 2 });
+
+      // When
+      transport.enqueue(aReport('a'));
+      transport.enqueue(aReport('b'));
+      await vi.runAllTimersAsync();
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).toHaveBeenCalledTimes(1);
+      expect(beaconAPIHelper.beaconBodies()).toEqual([[{ id: 'a' }, { id: 'b' }]]);
+      expect(transport.pendingReports).toBe(0);
+    });
+
+    it('should flush after the flush interval elapses', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT, flushInterval: 1000 });
+      transport.enqueue(aReport('a'));
+
+      // When
+      await vi.advanceTimersByTimeAsync(999);
+      const callsBeforeInterval = beaconAPIHelper.sendBeacon.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+
+      // Then
+      expect(callsBeforeInterval).toBe(0);
+      expect(beaconAPIHelper.sendBeacon).toHaveBeenCalledTimes(1);
+      expect(beaconAPIHelper.sendBeacon.mock.calls[0][0]).toBe(ENDPOINT);
+    });
+
+    it('should not send a request when the queue is empty', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+
+      // When
+      await transport.flush();
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).not.toHaveBeenCalled();
+      expect(beaconAPIHelper.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('payload limits', () => {
+    it('should split batches into chunks that respect the payload limit', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT, maxPayloadSize: 100 });
+      const padding = 'x'.repeat(20);
+
+      // When
+      transport.enqueue(aReport('a', { padding }));
+      transport.enqueue(aReport('b', { padding }));
+      transport.enqueue(aReport('c', { padding }));
+      await transport.flush();
+
+      // Then
+      const bodies = beaconAPIHelper.beaconBodies();
+      expect(bodies).toHaveLength(2);
+      expect(bodies[0]).toHaveLength(2);
+      expect(bodies[1]).toHaveLength(1);
+      const sentBodies = beaconAPIHelper.sendBeacon.mock.calls.map(([, data]) => data as string);
+      sentBodies.forEach(body => expect(body.length).toBeLessThanOrEqual(100));
+    });
+
+    it('should drop reports that exceed the payload limit on their own', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT, maxPayloadSize: 50 });
+      const onError = vi.fn();
+      transport.onError(onError);
+
+      // When
+      transport.enqueue(aReport('huge', { padding: 'x'.repeat(100) }));
+      transport.enqueue(aReport('small'));
+      await transport.flush();
+
+      // Then
+      expect(beaconAPIHelper.beaconBodies()).toEqual([[{ id: 'small' }]]);
+      const error = onError.mock.calls[0][0] as TransportFlushException;
+      expect(error).toBeInstanceOf(TransportFlushException);
+      expect(error.cause).toBeInstanceOf(PayloadTooLargeException);
+      expect(error.reports).toEqual([{ id: 'huge', padding: 'x'.repeat(100) }]);
+    });
+  });
+
+  describe('delivery', () => {
+    it('should notify success with the delivered reports', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      const onSuccess = vi.fn();
+      transport.onSuccess(onSuccess);
+
+      // When
+      transport.enqueue(aReport('a'));
+      await transport.flush();
+
+      // Then
+      expect(onSuccess).toHaveBeenCalledWith({
+        reports: [{ id: 'a' }],
+        size: JSON.stringify([{ id: 'a' }]).length,
+        method: 'beacon'
+      });
+    });
+
+    it('should fall back to keepalive fetch when the beacon is rejected', async () => {
+      // Given
+      beaconAPIHelper.mock({ beaconResult: false });
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      const onSuccess = vi.fn();
+      transport.onSuccess(onSuccess);
+
+      // When
+      transport.enqueue(aReport('a'));
+      await transport.flush();
+
+      // Then
+      expect(beaconAPIHelper.fetch).toHaveBeenCalledWith(ENDPOINT, expect.objectContaining({
+        method: 'POST',
+        keepalive: true,
+        body: JSON.stringify([{ id: 'a' }])
+      }));
+      expect(onSuccess.mock.calls[0][0].method).toBe('fetch');
+    });
+
+    it('should fall back to fetch when sendBeacon is not available', async () => {
+      // Given
+      beaconAPIHelper.mock({ beaconResult: null });
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+
+      // When
+      transport.enqueue(aReport('a'));
+      await transport.flush();
+
+      // Then
+      expect(beaconAPIHelper.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should notify an error with the undelivered reports when the endpoint fails', async () => {
+      // Given
+      beaconAPIHelper.mock({ beaconResult: false, fetchStatus: 503 });
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      const onError = vi.fn();
+      const onSuccess = vi.fn();
+      transport.onSuccess(onSuccess).onError(onError);
+
+      // When
+      transport.enqueue(aReport('a'));
+      await transport.flush();
+
+      // Then
+      const error = onError.mock.calls[0][0] as TransportFlushException;
+      expect(error).toBeInstanceOf(TransportFlushException);
+      expect(error.cause).toBeInstanceOf(TransportResponseException);
+      expect(error.reports).toEqual([{ id: 'a' }]);
+      expect(onSuccess).not.toHaveBeenCalled();
+    });
+
+    it('should send keepalive requests one after another', async () => {
+      // Given
+      beaconAPIHelper.mock({ beaconResult: false });
+      let respond: (response: Response) => void = () => undefined;
+      beaconAPIHelper.fetch.mockImplementationOnce(() => new Promise((resolve) => {
+        respond = resolve;
+      }));
+      transport = new BeaconTransport({ endpoint: ENDPOINT, maxPayloadSize: 100 });
+      const padding = 'x'.repeat(20);
+      transport.enqueue(aReport('a', { padding }));
+      transport.enqueue(aReport('b', { padding }));
+      transport.enqueue(aReport('c', { padding }));
+
+      // When
+      const flushed = transport.flush();
+      await vi.advanceTimersByTimeAsync(0);
+      const requestsBeforeResponse = beaconAPIHelper.fetch.mock.calls.length;
+      respond({ ok: true, status: 200 } as Response);
+      await flushed;
+
+      // Then
+      expect(requestsBeforeResponse).toBe(1);
+      expect(beaconAPIHelper.fetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('server-side rendering', () => {
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('should drop the reports without scheduling a flush', () => {
+      // Given
+      vi.useFakeTimers();
+      transport = new BeaconTransport({ endpoint: ENDPOINT, maxBatchSize: 1 });
+      const onEnqueue = vi.fn();
+      transport.onEnqueue(onEnqueue);
+      vi.stubGlobal('window', undefined);
+
+      // When
+      transport.enqueue(aReport('a'));
+      vi.unstubAllGlobals();
+      vi.runAllTimers();
+      vi.useRealTimers();
+
+      // Then
+      expect(onEnqueue).not.toHaveBeenCalled();
+      expect(beaconAPIHelper.sendBeacon).not.toHaveBeenCalled();
+      expect(beaconAPIHelper.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should notify the unsupported environment only once', () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      const onError = vi.fn();
+      transport.onError(onError);
+      vi.stubGlobal('window', undefined);
+
+      // When
+      transport.enqueue(aReport('a'));
+      transport.enqueue(aReport('b'));
+
+      // Then
+      expect(onError).toHaveBeenCalledTimes(1);
+      expect(onError.mock.calls[0][0]).toBeInstanceOf(UnsupportedSSRException);
+    });
+  });
+
+  describe('page lifecycle', () => {
+    it('should flush when the page becomes hidden', () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      transport.enqueue(aReport('a'));
+      vi.spyOn(document, 'visibilityState', 'get').mockReturnValue('hidden');
+
+      // When
+      document.dispatchEvent(new Event('visibilitychange'));
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush on pagehide', () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      transport.enqueue(aReport('a'));
+
+      // When
+      window.dispatchEvent(new Event('pagehide'));
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop listening to lifecycle events after dispose', () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      transport.enqueue(aReport('a'));
+
+      // When
+      transport.dispose();
+      window.dispatchEvent(new Event('pagehide'));
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).not.toHaveBeenCalled();
+      expect(transport.pendingReports).toBe(0);
+    });
+  });
+
+  describe('observers', () => {
+    it('should queue reports emitted by observed observers', () => {
+      // Given
+      const observer = new FakeObserver<SerializableReport>();
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      transport.observe(observer);
+
+      // When
+      observer.emit(aReport('a'));
+
+      // Then
+      expect(transport.pendingReports).toBe(1);
+    });
+
+    it('should stop queueing reports from unobserved observers', () => {
+      // Given
+      const observer = new FakeObserver<SerializableReport>();
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      transport.observe(observer);
+
+      // When
+      transport.unobserve(observer);
+      observer.emit(aReport('a'));
+
+      // Then
+      expect(transport.pendingReports).toBe(0);
+    });
+  });
+});
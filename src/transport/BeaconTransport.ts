@@ -0,0 +1,356 @@
+import { FallibleObserver } from '@/shared/FallibleObserver';
+import type { SuccessCallback } from '@/shared/FallibleObserver';
+import { isSSR } from '@/shared/isSSR';
+import { UnsupportedSSRException, UnsupportedTransportException } from '@/exceptions/UnsupportedExceptions';
+import {
+  PayloadTooLargeException,
+  TransportFlushException,
+  TransportResponseException
+} from '@/exceptions/TransportExceptions';
+
+/**
+ * Maximum body size accepted by navigator.sendBeacon and keepalive fetch requests.
+ */
+export const BEACON_PAYLOAD_LIMIT = 64 * 1024;
+
+/**
+ * Anything that can be turned into a wire payload (every Report and ReportCollection).
+ */
+export interface SerializableReport {
+  toJSON(): unknown;
+}
+
+/**
+ * Observer emitting serializable reports, such as any metric or error observer.
+ */
+export interface ReportSource {
+  onSuccess(callback: SuccessCallback<SerializableReport>): unknown;
+  removeSuccessCallback(callback: SuccessCallback<SerializableReport>): void;
+}
+
+export interface BeaconTransportOptions {
+  /** URL that receives the batched reports as a JSON array */
+  endpoint: string;
+  /** Number of queued reports that triggers an immediate flush (default: 20) */
+  maxBatchSize?: number;
+  /** Milliseconds to wait after the first queued report before flushing (default: 5000) */
+  flushInterval?: number;
+  /** Maximum size of a single request body in bytes (default: 64KB) */
+  maxPayloadSize?: number;
+}
+
+/**
+ * Result of a successfully delivered request.
+ */
+export interface TransportFlushResult {
+  /** Serialized reports contained in the request */
+  reports: readonly unknown[];
+  /** Size of the request body in bytes */
+  size: number;
+  /** Delivery mechanism used for the request */
+  method: 'beacon' | 'fetch';
+}
+
+interface PayloadChunk {
+  reports: unknown[];
+  body: string;
+  size: number;
+}
+
+/**
+ * Transport that queues serialized reports and delivers them in batches.
+ *
+ * Reports are flushed when the batch size is reached, when the flush interval
+ * elapses, and whenever the page is hidden or unloaded (visibilitychange/pagehide),
+ * which is the last reliable moment to send data on mobile browsers.
+ *
+ * Requests are sent with navigator.sendBeacon, falling back to fetch with
+ * keepalive when beacons are unavailable or rejected. Bodies are JSON arrays
+ * sent as text/plain so cross-origin endpoints do not require a CORS preflight.
+ * Batches are split into chunks that respect the 64KB beacon limit. In-flight
+ * keepalive requests share that limit, so fallback requests are sent one after
+ * another.
+ *
+ * Delivered chunks are notified through onSuccess and failed ones through
+ * onError as TransportFlushException, which carries the undelivered reports.
+ * A queued beacon counts as delivered: call requireConfirmedDelivery() to send
+ * with keepalive fetch instead, whose response confirms the delivery.
+ */
+export class BeaconTransport extends FallibleObserver<TransportFlushResult> {
+  private readonly endpoint: string;
+  private readonly maxBatchSize: number;
+  private readonly flushInterval: number;
+  private readonly maxPayloadSize: number;
+
+  private queue: unknown[] = [];
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private isListening = false;
+  private isUnsupported = false;
+  private confirmsDelivery = false;
+  private readonly enqueueListeners = new Set<(report: unknown) => void>();
+  /** Settles once the last keepalive fetch has settled */
+  private keepaliveRequests: Promise<void> = Promise.resolve();
+
+  private readonly encoder = new TextEncoder();
+  private readonly observed = new Map<ReportSource, SuccessCallback<SerializableReport>>();
+  private readonly boundHandleVisibilityChange: () => void;
+  private readonly boundHandlePageHide: () => void;
+
+  constructor(options: BeaconTransportOptions) {
+    super();
+    this.endpoint = options.endpoint;
+    this.maxBatchSize = options.maxBatchSize ?? 20;
+    this.flushInterval = options.flushInterval ?? 5000;
+    this.maxPayloadSize = Math.min(
+      options.maxPayloadSize ?? BEACON_PAYLOAD_LIMIT,
+      BEACON_PAYLOAD_LIMIT
+    );
+    this.boundHandleVisibilityChange = this.handleVisibilityChange.bind(this);
+    this.boundHandlePageHide = this.handlePageHide.bind(this);
+  }
+
+  /**
+   * Number of serialized reports waiting to be flushed.
+   */
+  public get pendingReports(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Subscribes to the given observers and queues every report they emit.
+   */
+  public observe(...observers: ReportSource[]): this {
+    for (const observer of observers) {
+      if (this.observed.has(observer)) continue;
+
+      const callback: SuccessCallback<SerializableReport> = (report) => this.enqueue(report);
+      this.observed.set(observer, callback);
+      observer.onSuccess(callback);
+    }
+    return this;
+  }
+
+  /**
+   * Stops queueing reports emitted by the given observer.
+   */
+  public unobserve(observer: ReportSource): void {
+    const callback = this.observed.get(observer);
+    if (!callback) return;
+
+    observer.removeSuccessCallback(callback);
+    this.observed.delete(observer);
+  }
+
+  /**
+   * Calls the listener with every serialized report as soon as it is queued, before it is sent.
+   *
+   * @returns Function removing the listener
+   */
+  public onEnqueue(listener: (report: unknown) => void): () => void {
+    this.enqueueListeners.add(listener);
+    return () => {
+      this.enqueueListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Sends requests with keepalive fetch instead of beacons, so every delivery is confirmed
+   * by the response of the endpoint. Beacons are still used when fetch is unavailable.
+   */
+  public requireConfirmedDelivery(required = true): void {
+    this.confirmsDelivery = required;
+  }
+
+  /**
+   * Serializes a report and adds it to the queue.
+   */
+  public enqueue(report: SerializableReport): void {
+    if (isSSR()) {
+      this.notifyUnsupported();
+      return;
+    }
+
+    this.start();
+    const payload = report.toJSON();
+    this.queue.push(payload);
+    this.enqueueListeners.forEach(listener => listener(payload));
+
+    if (this.queue.length >= this.maxBatchSize) {
+      void this.flush();
+      return;
+    }
+
+    this.scheduleFlush();
+  }
+
+  /**
+   * Sends every queued report. Resolves once all requests have settled.
+   */
+  public flush(): Promise<void> {
+    this.cancelScheduledFlush();
+    if (this.queue.length === 0) return Promise.resolve();
+
+    const reports = this.queue;
+    this.queue = [];
+
+    const requests = this.createChunks(reports).map(chunk => this.send(chunk));
+    return Promise.all(requests).then(() => undefined);
+  }
+
+  /**
+   * Stops listening to page lifecycle events, unsubscribes from every observer
+   * and discards queued reports. Call flush() first to deliver them.
+   */
+  public dispose(): void {
+    this.stop();
+    this.cancelScheduledFlush();
+
+    for (const [observer, callback] of this.observed) {
+      observer.removeSuccessCallback(callback);
+    }
+    this.observed.clear();
+    this.enqueueListeners.clear();
+    this.queue = [];
+    this.clearSubscribers();
+  }
+
+  /**
+   * Reports are dropped outside the browser, which is notified once.
+   */
+  private notifyUnsupported(): void {
+    if (this.isUnsupported) return;
+    this.isUnsupported = true;
+    this.notifyError(new UnsupportedSSRException());
+  }
+
+  private start(): void {
+    if (this.isListening) return;
+
+    document.addEventListener('visibilitychange', this.boundHandleVisibilityChange);
+    window.addEventListener('pagehide', this.boundHandlePageHide);
+    this.isListening = true;
+  }
+
+  private stop(): void {
+    if (!this.isListening) return;
+    document.removeEventListener('visibilitychange', this.boundHandleVisibilityChange);
+    window.removeEventListener('pagehide', this.boundHandlePageHide);
+    this.isListening = false;
+  }
+
+  private handleVisibilityChange(): void {
+    if (document.visibilityState !== 'hidden') return;
+    void this.flush();
+  }
+
+  private handlePageHide(): void {
+    void this.flush();
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer !== null) return;
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      void this.flush();
+    }, this.flushInterval);
+  }
+
+  private cancelScheduledFlush(): void {
+    if (this.flushTimer === null) return;
+    clearTimeout(this.flushTimer);
+    this.flushTimer = null;
+  }
+
+  /**
+   * Splits reports into JSON array bodies that fit within the payload limit.
+   * Reports that cannot fit on their own are dropped and notified as errors.
+   */
+  private createChunks(reports: unknown[]): PayloadChunk[] {
+    const chunks: PayloadChunk[] = [];
+    let current: unknown[] = [];
+    let currentSize = 2; // Array brackets
+
+    for (const report of reports) {
+      const size = this.encoder.encode(JSON.stringify(report)).length;
+
+      if (size + 2 > this.maxPayloadSize) {
+        const cause = new PayloadTooLargeException(size + 2, this.maxPayloadSize);
+        this.notifyError(new TransportFlushException([report], cause));
+        continue;
+      }
+
+      if (current.length > 0 && currentSize + 1 + size > this.maxPayloadSize) {
+        chunks.push(this.toChunk(current, currentSize));
+        current = [];
+        currentSize = 2;
+      }
+
+      currentSize += (current.length > 0 ? 1 : 0) + size;
+      current.push(report);
+    }
+
+    if (current.length > 0) {
+      chunks.push(this.toChunk(current, currentSize));
+    }
+
+    return chunks;
+  }
+
+  private toChunk(reports: unknown[], size: number): PayloadChunk {
+    return { reports, body: JSON.stringify(reports), size };
+  }
+
+  private send(chunk: PayloadChunk): Promise<void> {
+    const usesBeacon = !this.confirmsDelivery || typeof fetch !== 'function';
+    if (usesBeacon && this.sendBeacon(chunk.body)) {
+      this.notifySuccess({ reports: chunk.reports, size: chunk.size, method: 'beacon' });
+      return Promise.resolve();
+    }
+    return this.sendFetch(chunk);
+  }
+
+  private sendBeacon(body: string): boolean {
+    if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+      return false;
+    }
+
+    try {
+      return navigator.sendBeacon(this.endpoint, body);
+    }
+    catch {
+      return false;
+    }
+  }
+
+  /**
+   * Sends the chunk once the previous keepalive request has settled, so the
+   * bodies in flight never exceed the shared keepalive quota.
+   */
+  private sendFetch(chunk: PayloadChunk): Promise<void> {
+    const request = this.keepaliveRequests.then(() => this.fetchChunk(chunk));
+    this.keepaliveRequests = request;
+    return request;
+  }
+
+  private fetchChunk(chunk: PayloadChunk): Promise<void> {
+    if (typeof fetch !== 'function') {
+      const cause = new UnsupportedTransportException();
+      this.notifyError(new TransportFlushException(chunk.reports, cause));
+      return Promise.resolve();
+    }
+
+    return fetch(this.endpoint, {
+      method: 'POST',
+      body: chunk.body,
+      keepalive: true,
+      headers: { 'Content-Type': 'text/plain;charset=UTF-8' },
+    })
+      .then((response) => {
+        if (!response.ok) throw new TransportResponseException(response.status);
+      })
+      .then(
+        () => this.notifySuccess({ reports: chunk.reports, size: chunk.size, method: 'fetch' }),
+        (error: unknown) => this.notifyError(new TransportFlushException(chunk.reports, error))
+      );
+  }
+}
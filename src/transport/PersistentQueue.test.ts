@@ -0,0 +1,307 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+import { beaconAPIHelper } from '@/test/helpers/BeaconAPIHelper';
+import { QueueStorageException } from '@/exceptions/TransportExceptions';
+
+import { BeaconTransport, type SerializableReport } from './BeaconTransport';
+import { PersistentQueue } from './PersistentQueue';
+import { InMemoryQueueStorage } from './storage/InMemoryQueueStorage';
+import type { QueueStorage, StoredReport } from './storage/QueueStorage';
+
+const ENDPOINT = 'https://collector.example.com/rum';
+
+const aReport = (id: string, extra: Record<string, unknown> = {}): SerializableReport => ({
+  toJSON: () => ({ id, ...extra })
+});
+
+const aStoredReport = (id: string, overrides: Partial<StoredReport> = {}): StoredReport => ({
+  id,
+  payload: { id },
+  size: 10,
+  attempts: 1,
+  storedAt: 0,
+  ...overrides
+});
+
+const storedPayloads = async (storage: QueueStorage) => (
+  (await storage.getAll()).map(entry => entry.payload)
+);
+
+describe('PersistentQueue', () => {
+  let transport: BeaconTransport;
+  let storage: InMemoryQueueStorage;
+  let queue: PersistentQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    beaconAPIHelper.mock({ beaconResult: false, fetchStatus: 503 });
+    transport = new BeaconTransport({ endpoint: ENDPOINT, maxBatchSize: 1 });
+    storage = new InMemoryQueueStorage();
+  });
+
+  afterEach(() => {
+    queue?.dispose();
+    transport.dispose();
+    beaconAPIHelper.unmock();
+    vi.useRealTimers();
+  });
+
+  describe('persistence', () => {
+    it('should store reports whose delivery failed', async () => {
+      // Given
+      queue = new PersistentQueue(transport, { storage, initialRetryDelay: 60000 });
+      await queue.start();
+
+      // When
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      const [entry] = await storage.getAll();
+      expect(entry.payload).toEqual({ id: 'a' });
+      expect(entry.attempts).toBe(1);
+      expect(entry.size).toBe(JSON.stringify({ id: 'a' }).length);
+    });
+
+    it('should store reports as soon as they are queued, before they are sent', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT });
+      queue = new PersistentQueue(transport, { storage });
+      await queue.start();
+
+      // When
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(beaconAPIHelper.fetch).not.toHaveBeenCalled();
+      const [entry] = await storage.getAll();
+      expect(entry.payload).toEqual({ id: 'a' });
+      expect(entry.attempts).toBe(0);
+    });
+
+    it('should send with keepalive fetch and remove reports once their delivery is confirmed', async () => {
+      // Given
+      beaconAPIHelper.mock();
+      queue = new PersistentQueue(transport, { storage });
+      await queue.start();
+
+      // When
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).not.toHaveBeenCalled();
+      expect(beaconAPIHelper.fetchBodies()).toEqual([[{ id: 'a' }]]);
+      expect(await storage.getAll()).toHaveLength(0);
+    });
+
+    it('should not store reports exceeding the payload limit', async () => {
+      // Given
+      transport = new BeaconTransport({ endpoint: ENDPOINT, maxBatchSize: 1, maxPayloadSize: 50 });
+      queue = new PersistentQueue(transport, { storage });
+      await queue.start();
+
+      // When
+      transport.enqueue(aReport('a', { padding: 'x'.repeat(100) }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(await storage.getAll()).toHaveLength(0);
+    });
+
+    it('should drop the oldest reports when exceeding the maximum entries', async () => {
+      // Given
+      await storage.put([aStoredReport('old', { storedAt: -2 }), aStoredReport('older', { storedAt: -3 })]);
+      beaconAPIHelper.mock({ beaconResult: false, fetchStatus: null });
+      queue = new PersistentQueue(transport, { storage, maxEntries: 2 });
+
+      // When
+      await queue.start();
+      await vi.advanceTimersByTimeAsync(0);
+      transport.enqueue(aReport('new'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(await storedPayloads(storage)).toEqual([{ id: 'old' }, { id: 'new' }]);
+    });
+
+    it('should drop the oldest reports when exceeding the maximum storage size', async () => {
+      // Given
+      await storage.put([aStoredReport('old', { size: 30, storedAt: -1 })]);
+      beaconAPIHelper.mock({ beaconResult: false, fetchStatus: null });
+      queue = new PersistentQueue(transport, { storage, maxStorageSize: 40 });
+
+      // When
+      await queue.start();
+      await vi.advanceTimersByTimeAsync(0);
+      transport.enqueue(aReport('new', { padding: 'x'.repeat(10) }));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(await storedPayloads(storage)).toEqual([{ id: 'new', padding: 'x'.repeat(10) }]);
+    });
+
+    it('should notify storage failures as QueueStorageException', async () => {
+      // Given
+      const failingStorage: QueueStorage = {
+        getAll: () => Promise.reject(new Error('quota')),
+        put: () => Promise.reject(new Error('quota')),
+        delete: () => Promise.reject(new Error('quota')),
+      };
+      queue = new PersistentQueue(transport, { storage: failingStorage });
+      const errorCallback = vi.fn();
+      queue.onError(errorCallback);
+
+      // When
+      await queue.start();
+
+      // Then
+      expect(errorCallback).toHaveBeenCalledWith(expect.any(QueueStorageException));
+    });
+  });
+
+  describe('replay', () => {
+    it('should replay stored reports on start and remove them once delivered', async () => {
+      // Given
+      await storage.put([aStoredReport('a'), aStoredReport('b', { storedAt: 1 })]);
+      beaconAPIHelper.mock();
+      queue = new PersistentQueue(transport, { storage });
+      const successCallback = vi.fn();
+      queue.onSuccess(successCallback);
+
+      // When
+      await queue.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(successCallback).toHaveBeenCalledWith({ reports: [{ id: 'a' }, { id: 'b' }] });
+      expect(beaconAPIHelper.fetchBodies()).toEqual([[{ id: 'a' }], [{ id: 'b' }]]);
+      expect(await storage.getAll()).toHaveLength(0);
+    });
+
+    it('should not replay while the browser is offline', async () => {
+      // Given
+      await storage.put([aStoredReport('a')]);
+      const onLine = vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      queue = new PersistentQueue(transport, { storage });
+
+      // When
+      await queue.start();
+
+      // Then
+      expect(beaconAPIHelper.sendBeacon).not.toHaveBeenCalled();
+      onLine.mockRestore();
+    });
+
+    it('should replay stored reports when the browser comes back online', async () => {
+      // Given
+      queue = new PersistentQueue(transport, { storage, initialRetryDelay: 60000 });
+      await queue.start();
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+      beaconAPIHelper.mock();
+
+      // When
+      window.dispatchEvent(new Event('online'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(beaconAPIHelper.fetchBodies().at(-1)).toEqual([{ id: 'a' }]);
+      expect(await storage.getAll()).toHaveLength(0);
+    });
+
+    it('should not replay reports whose removal after a confirmed delivery is pending', async () => {
+      // Given
+      const slowStorage = new (class extends InMemoryQueueStorage {
+        public override delete(ids: string[]): Promise<void> {
+          return new Promise(resolve => setTimeout(resolve, 100)).then(() => super.delete(ids));
+        }
+      })();
+      beaconAPIHelper.mock();
+      queue = new PersistentQueue(transport, { storage: slowStorage });
+      await queue.start();
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // When
+      window.dispatchEvent(new Event('online'));
+      await vi.advanceTimersByTimeAsync(100);
+
+      // Then
+      expect(beaconAPIHelper.fetchBodies()).toEqual([[{ id: 'a' }]]);
+      expect(await slowStorage.getAll()).toHaveLength(0);
+    });
+
+    it('should retry with exponential backoff', async () => {
+      // Given
+      queue = new PersistentQueue(transport, { storage, initialRetryDelay: 1000 });
+      await queue.start();
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+      beaconAPIHelper.fetch.mockClear();
+
+      // When
+      await vi.advanceTimersByTimeAsync(1000);
+      const callsAfterFirstDelay = beaconAPIHelper.fetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1999);
+      const callsBeforeSecondDelay = beaconAPIHelper.fetch.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(1);
+
+      // Then
+      expect(callsAfterFirstDelay).toBe(1);
+      expect(callsBeforeSecondDelay).toBe(1);
+      expect(beaconAPIHelper.fetch).toHaveBeenCalledTimes(2);
+      expect((await storage.getAll())[0].attempts).toBe(3);
+    });
+
+    it('should discard reports after the maximum number of attempts', async () => {
+      // Given
+      await storage.put([aStoredReport('a', { attempts: 2 })]);
+      queue = new PersistentQueue(transport, { storage, maxAttempts: 3 });
+
+      // When
+      await queue.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(beaconAPIHelper.fetch).toHaveBeenCalledTimes(1);
+      expect(await storage.getAll()).toHaveLength(0);
+    });
+  });
+
+  describe('dispose', () => {
+    it('should let the transport send beacons again', async () => {
+      // Given
+      beaconAPIHelper.mock();
+      queue = new PersistentQueue(transport, { storage });
+      await queue.start();
+
+      // When
+      queue.dispose();
+      transport.enqueue(aReport('a'));
+      await vi.advanceTimersByTimeAsync(0);
+
+      // Then
+      expect(beaconAPIHelper.beaconBodies()).toEqual([[{ id: 'a' }]]);
+      expect(beaconAPIHelper.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should stop persisting failures and keep stored reports', async () => {
+      // Given
+      await storage.put([aStoredReport('a')]);
+      beaconAPIHelper.mock({ beaconResult: false, fetchStatus: null });
+      queue = new PersistentQueue(transport, { storage });
+      await queue.start();
+      await vi.advanceTimersByTimeAsync(0);
+
+      // When
+      queue.dispose();
+      transport.enqueue(aReport('b'));
+      await vi.advanceTimersByTimeAsync(60000);
+
+      // Then
+      expect(await storedPayloads(storage)).toEqual([{ id: 'a' }]);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import { FallibleObserver } from '@/shared/FallibleObserver';
+import { generateId } from '@/shared/generateId';
+import { isSSR } from '@/shared/isSSR';
+import { UnsupportedSSRException } from '@/exceptions/UnsupportedExceptions';
+import {
+  PayloadTooLargeException,
+  QueueStorageException,
+  TransportFlushException
+} from '@/exceptions/TransportExceptions';
+import type { BeaconTransport, TransportFlushResult } from './BeaconTransport';
+import type { QueueStorage, StoredReport } from './storage/QueueStorage';
+import { InMemoryQueueStorage } from './storage/InMemoryQueueStorage';
+import { IndexedDBQueueStorage, isIndexedDBAvailable } from './storage/IndexedDBQueueStorage';
+
+export interface PersistentQueueOptions {
+  /** Storage backend (default: IndexedDB, or memory when IndexedDB is unavailable) */
+  storage?: QueueStorage;
+  /** Maximum number of stored reports; the oldest are dropped first (default: 500) */
+  maxEntries?: number;
+  /** Maximum total size of stored reports in bytes; the oldest are dropped first (default: 1MB) */
+  maxStorageSize?: number;
+  /** Delivery attempts after which a report is discarded (default: 10) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 1000) */
+  initialRetryDelay?: number;
+  /** Upper bound for the retry delay in milliseconds (default: 60000) */
+  maxRetryDelay?: number;
+}
+
+/**
+ * Reports handed back to the transport for another delivery attempt.
+ */
+export interface QueueReplayResult {
+  reports: readonly unknown[];
+}
+
+/**
+ * Offline-resilient queue for the reports of a BeaconTransport.
+ *
+ * Every report is persisted as soon as it is queued in the transport, before it
+ * is sent, and removed once its delivery is confirmed: while started, the transport
+ * sends with keepalive fetch instead of beacons, whose delivery cannot be confirmed.
+ * Reports whose delivery failed (network errors, captive portals, 5xx responses)
+ * or was never confirmed because the page unloaded are replayed when the queue starts
+ * (typically on the next page load), when the browser comes back online, and on a
+ * retry timer with exponential backoff. Entries are discarded after maxAttempts
+ * failures, and the oldest entries are dropped first when the storage limits are exceeded.
+ *
+ * Delivery is at-least-once: a report whose confirmation is lost to a page
+ * unload is sent again on the next replay.
+ */
+export class PersistentQueue extends FallibleObserver<QueueReplayResult> {
+  private readonly transport: BeaconTransport;
+  private readonly storage: QueueStorage;
+  private readonly maxEntries: number;
+  private readonly maxStorageSize: number;
+  private readonly maxAttempts: number;
+  private readonly initialRetryDelay: number;
+  private readonly maxRetryDelay: number;
+
+  /** Stored entries currently handed to the transport, keyed by payload identity */
+  private readonly inFlight = new Map<unknown, StoredReport>();
+  private readonly encoder = new TextEncoder();
+
+  private retryAttempt = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private isListening = false;
+  private isReplaying = false;
+  /** Settles once the last storage write has settled, so writes apply in order */
+  private writes: Promise<void> = Promise.resolve();
+  private removeEnqueueListener: (() => void) | null = null;
+
+  private readonly boundHandleFlushSuccess: (result: TransportFlushResult) => void;
+  private readonly boundHandleFlushError: (error: Error) => void;
+  private readonly boundHandleOnline: () => void;
+
+  constructor(transport: BeaconTransport, options: PersistentQueueOptions = {}) {
+    super();
+    this.transport = transport;
+    this.storage = options.storage ?? (
+      isIndexedDBAvailable() ? new IndexedDBQueueStorage() : new InMemoryQueueStorage()
+    );
+    this.maxEntries = options.maxEntries ?? 500;
+    this.maxStorageSize = options.maxStorageSize ?? 1024 * 1024;
+    this.maxAttempts = options.maxAttempts ?? 10;
+    this.initialRetryDelay = options.initialRetryDelay ?? 1000;
+    this.maxRetryDelay = options.maxRetryDelay ?? 60000;
+    this.boundHandleFlushSuccess = this.handleFlushSuccess.bind(this);
+    this.boundHandleFlushError = this.handleFlushError.bind(this);
+    this.boundHandleOnline = this.handleOnline.bind(this);
+  }
+
+  /**
+   * Starts persisting queued reports and replays reports stored by previous page loads.
+   */
+  public start(): Promise<void> {
+    if (this.isListening) return Promise.resolve();
+
+    if (isSSR()) {
+      const error = new UnsupportedSSRException();
+      this.notifyError(error);
+      return Promise.resolve();
+    }
+
+    this.transport.onSuccess(this.boundHandleFlushSuccess);
+    this.transport.onError(this.boundHandleFlushError);
+    this.transport.requireConfirmedDelivery();
+    this.removeEnqueueListener = this.transport.onEnqueue(payload => this.handleEnqueue(payload));
+    window.addEventListener('online', this.boundHandleOnline);
+    this.isListening = true;
+
+    return this.replay();
+  }
+
+  /**
+   * Hands every stored report that is not already in flight back to the transport.
+   * Stored reports are read once the pending writes have settled, so reports whose
+   * delivery was confirmed are not sent again. Does nothing while the browser reports
+   * being offline.
+   */
+  public replay(): Promise<void> {
+    if (this.isReplaying || !this.isOnline()) return Promise.resolve();
+    this.cancelScheduledRetry();
+    this.isReplaying = true;
+
+    return this.writes
+      .then(() => this.storage.getAll())
+      .then((entries) => {
+        const inFlightIds = new Set(Array.from(this.inFlight.values(), entry => entry.id));
+        const pending = entries.filter(entry => !inFlightIds.has(entry.id));
+        if (pending.length === 0) return;
+
+        for (const entry of pending) {
+          this.inFlight.set(entry.payload, entry);
+          this.transport.enqueue({ toJSON: () => entry.payload });
+        }
+        this.notifySuccess({ reports: pending.map(entry => entry.payload) });
+        return this.transport.flush();
+      })
+      .catch(error => this.notifyError(new QueueStorageException(error)))
+      .finally(() => {
+        this.isReplaying = false;
+      });
+  }
+
+  /**
+   * Stops persisting reports and replaying. Stored reports are kept for the next start.
+   */
+  public dispose(): void {
+    this.cancelScheduledRetry();
+    if (this.isListening) {
+      this.transport.removeSuccessCallback(this.boundHandleFlushSuccess);
+      this.transport.removeErrorCallback(this.boundHandleFlushError);
+      this.transport.requireConfirmedDelivery(false);
+      this.removeEnqueueListener?.();
+      this.removeEnqueueListener = null;
+      window.removeEventListener('online', this.boundHandleOnline);
+      this.isListening = false;
+    }
+    this.inFlight.clear();
+    this.retryAttempt = 0;
+    this.clearSubscribers();
+  }
+
+  /**
+   * Persists a report queued in the transport before it is sent. Replayed reports are already stored.
+   */
+  private handleEnqueue(payload: unknown): void {
+    if (this.inFlight.has(payload)) return;
+
+    const entry = this.createEntry(payload, 0);
+    this.inFlight.set(payload, entry);
+    this.write(() => this.storage.put([entry]).then(() => this.enforceLimits()));
+  }
+
+  private handleFlushSuccess(result: TransportFlushResult): void {
+    this.retryAttempt = 0;
+
+    const deliveredIds = this.takeInFlight(result.reports).map(entry => entry.id);
+    if (deliveredIds.length === 0) return;
+
+    this.write(() => this.storage.delete(deliveredIds));
+  }
+
+  private handleFlushError(error: Error): void {
+    if (!(error instanceof TransportFlushException)) return;
+
+    // Oversized reports can never be delivered, so retrying them is pointless
+    if (error.cause instanceof PayloadTooLargeException) {
+      const droppedIds = this.takeInFlight(error.reports).map(entry => entry.id);
+      if (droppedIds.length === 0) return;
+      this.write(() => this.storage.delete(droppedIds));
+      return;
+    }
+
+    // Reports queued before the queue started were not persisted yet
+    const retried = this.takeInFlight(error.reports)
+      .map(entry => ({ ...entry, attempts: entry.attempts + 1 }));
+    const retriedPayloads = new Set(retried.map(entry => entry.payload));
+    const created = error.reports
+      .filter(payload => !retriedPayloads.has(payload))
+      .map(payload => this.createEntry(payload, 1));
+
+    const exhausted = retried.filter(entry => entry.attempts >= this.maxAttempts);
+    const kept = [...created, ...retried.filter(entry => entry.attempts < this.maxAttempts)];
+
+    this.write(() => this.storage.put(kept)
+      .then(() => exhausted.length > 0 ? this.storage.delete(exhausted.map(entry => entry.id)) : undefined)
+      .then(() => this.enforceLimits())
+      .then(() => this.scheduleRetry()));
+  }
+
+  private handleOnline(): void {
+    this.retryAttempt = 0;
+    void this.replay();
+  }
+
+  private takeInFlight(payloads: readonly unknown[]): StoredReport[] {
+    const entries: StoredReport[] = [];
+    for (const payload of payloads) {
+      const entry = this.inFlight.get(payload);
+      if (!entry) continue;
+      this.inFlight.delete(payload);
+      entries.push(entry);
+    }
+    return entries;
+  }
+
+  private createEntry(payload: unknown, attempts: number): StoredReport {
+    return {
+      id: generateId(),
+      payload,
+      size: this.encoder.encode(JSON.stringify(payload)).length,
+      attempts,
+      storedAt: Date.now(),
+    };
+  }
+
+  /**
+   * Runs a storage operation once the previous ones have settled, notifying its failure.
+   */
+  private write(operation: () => Promise<void>): void {
+    this.writes = this.writes
+      .then(operation)
+      .catch(error => this.notifyError(new QueueStorageException(error)));
+  }
+
+  /**
+   * Drops the oldest entries until both the entry and size limits are met.
+   */
+  private enforceLimits(): Promise<void> {
+    return this.storage.getAll().then((entries) => {
+      let totalSize = entries.reduce((total, entry) => total + entry.size, 0);
+      let count = entries.length;
+      const droppedIds: string[] = [];
+
+      for (const entry of entries) {
+        if (count <= this.maxEntries && totalSize <= this.maxStorageSize) break;
+        droppedIds.push(entry.id);
+        totalSize -= entry.size;
+        count--;
+      }
+
+      if (droppedIds.length === 0) return;
+      return this.storage.delete(droppedIds);
+    });
+  }
+
+  private scheduleRetry(): void {
+    if (this.retryTimer !== null || !this.isListening) return;
+
+    const delay = Math.min(
+      this.initialRetryDelay * 2 ** this.retryAttempt,
+      this.maxRetryDelay
+    );
+    this.retryAttempt++;
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.replay();
+    }, delay);
+  }
+
+  private cancelScheduledRetry(): void {
+    if (this.retryTimer === null) return;
+    clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  private isOnline(): boolean {
+    return typeof navigator === 'undefined' || navigator.onLine !== false;
+  }
+}
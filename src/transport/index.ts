@@ -0,0 +1,16 @@
+export {
+  BeaconTransport,
+  BEACON_PAYLOAD_LIMIT,
+  type BeaconTransportOptions,
+  type ReportSource,
+  type SerializableReport,
+  type TransportFlushResult
+} from './BeaconTransport';
+export {
+  PersistentQueue,
+  type PersistentQueueOptions,
+  type QueueReplayResult
+} from './PersistentQueue';
+export { type QueueStorage, type StoredReport } from './storage/QueueStorage';
+export { InMemoryQueueStorage } from './storage/InMemoryQueueStorage';
+export { IndexedDBQueueStorage, isIndexedDBAvailable } from './storage/IndexedDBQueueStorage';
@@ -0,0 +1,31 @@
+import { type QueueStorage, type StoredReport, sortByStoredAt } from './QueueStorage';
+
+/**
+ * Queue storage kept in memory.
+ *
+ * Used as a fallback when IndexedDB is not available (private browsing modes,
+ * non-browser environments) and as a stand-in for IndexedDB in tests.
+ * Entries do not survive a page reload.
+ */
+export class InMemoryQueueStorage implements QueueStorage {
+  private readonly entries = new Map<string, StoredReport>();
+
+  public getAll(): Promise<StoredReport[]> {
+    const reports = Array.from(this.entries.values(), report => ({ ...report }));
+    return Promise.resolve(sortByStoredAt(reports));
+  }
+
+  public put(reports: StoredReport[]): Promise<void> {
+    for (const report of reports) {
+      this.entries.set(report.id, { ...report });
+    }
+    return Promise.resolve();
+  }
+
+  public delete(ids: string[]): Promise<void> {
+    for (const id of ids) {
+      this.entries.delete(id);
+    }
+    return Promise.resolve();
+  }
+}
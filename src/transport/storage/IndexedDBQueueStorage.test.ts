@@ -0,0 +1,97 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+
+import { createFakeIndexedDB } from '@/test/helpers/FakeIndexedDB';
+
+import { IndexedDBQueueStorage, isIndexedDBAvailable } from './IndexedDBQueueStorage';
+import type { StoredReport } from './QueueStorage';
+
+const aStoredReport = (id: string, overrides: Partial<StoredReport> = {}): StoredReport => ({
+  id,
+  payload: { id },
+  size: 10,
+  attempts: 0,
+  storedAt: 0,
+  ...overrides
+});
+
+describe('IndexedDBQueueStorage', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should return the stored entries oldest first', async () => {
+    // Given
+    const { factory } = createFakeIndexedDB();
+    const storage = new IndexedDBQueueStorage('rumora', 'reports', factory);
+
+    // When
+    await storage.put([aStoredReport('new', { storedAt: 2 }), aStoredReport('old', { storedAt: 1 })]);
+
+    // Then
+    expect((await storage.getAll()).map(entry => entry.id)).toEqual(['old', 'new']);
+  });
+
+  it('should replace the entries with the same id and delete entries by id', async () => {
+    // Given
+    const { factory } = createFakeIndexedDB();
+    const storage = new IndexedDBQueueStorage('rumora', 'reports', factory);
+    await storage.put([aStoredReport('a'), aStoredReport('b', { storedAt: 1 })]);
+
+    // When
+    await storage.put([aStoredReport('a', { attempts: 2 })]);
+    await storage.delete(['b']);
+
+    // Then
+    expect(await storage.getAll()).toEqual([aStoredReport('a', { attempts: 2 })]);
+  });
+
+  it('should keep the entries across connections', async () => {
+    // Given
+    const { fake, factory } = createFakeIndexedDB();
+    const storage = new IndexedDBQueueStorage('rumora', 'reports', factory);
+    await storage.put([aStoredReport('a')]);
+
+    // When
+    storage.close();
+    const entries = await new IndexedDBQueueStorage('rumora', 'reports', factory).getAll();
+
+    // Then
+    expect(entries.map(entry => entry.id)).toEqual(['a']);
+    expect(fake.openCount).toBe(2);
+  });
+
+  it('should open the database once for consecutive operations', async () => {
+    // Given
+    const { fake, factory } = createFakeIndexedDB();
+    const storage = new IndexedDBQueueStorage('rumora', 'reports', factory);
+
+    // When
+    await storage.put([aStoredReport('a')]);
+    await storage.getAll();
+    await storage.delete(['a']);
+
+    // Then
+    expect(fake.openCount).toBe(1);
+  });
+
+  it('should reject when the database cannot be opened and open it again on the next operation', async () => {
+    // Given
+    const { fake, factory } = createFakeIndexedDB({ failOpen: true });
+    const storage = new IndexedDBQueueStorage('rumora', 'reports', factory);
+
+    // When
+    await expect(storage.getAll()).rejects.toThrow('The database could not be opened.');
+    await expect(storage.put([aStoredReport('a')])).rejects.toThrow();
+
+    // Then
+    expect(fake.openCount).toBe(2);
+  });
+
+  it('should detect whether IndexedDB is available', () => {
+    // Given
+    vi.stubGlobal('indexedDB', undefined);
+
+    // Then
+    expect(isIndexedDBAvailable()).toBe(false);
+  });
+});
@@ -0,0 +1,94 @@
+import { type QueueStorage, type StoredReport, sortByStoredAt } from './QueueStorage';
+
+const DATABASE_VERSION = 1;
+
+export const isIndexedDBAvailable = (): boolean => (
+  typeof indexedDB !== 'undefined' && indexedDB !== null
+);
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> => (
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  })
+);
+
+const promisifyTransaction = (transaction: IDBTransaction): Promise<void> => (
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  })
+);
+
+/**
+ * Queue storage backed by IndexedDB, so undelivered reports survive
+ * page reloads and can be replayed on the next visit.
+ */
+export class IndexedDBQueueStorage implements QueueStorage {
+  private readonly databaseName: string;
+  private readonly storeName: string;
+  private readonly factory: IDBFactory;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName = 'rumora', storeName = 'reports', factory: IDBFactory = indexedDB) {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+    this.factory = factory;
+  }
+
+  public getAll(): Promise<StoredReport[]> {
+    return this.open()
+      .then((database) => {
+        const store = database
+          .transaction(this.storeName, 'readonly')
+          .objectStore(this.storeName);
+        return promisifyRequest(store.getAll() as IDBRequest<StoredReport[]>);
+      })
+      .then(sortByStoredAt);
+  }
+
+  public put(reports: StoredReport[]): Promise<void> {
+    return this.write(store => reports.forEach(report => store.put(report)));
+  }
+
+  public delete(ids: string[]): Promise<void> {
+    return this.write(store => ids.forEach(id => store.delete(id)));
+  }
+
+  /**
+   * Closes the database connection. It is reopened on the next operation.
+   */
+  public close(): void {
+    const database = this.database;
+    this.database = null;
+    void database?.then(connection => connection.close(), () => undefined);
+  }
+
+  private write(operation: (store: IDBObjectStore) => void): Promise<void> {
+    return this.open().then((database) => {
+      const transaction = database.transaction(this.storeName, 'readwrite');
+      operation(transaction.objectStore(this.storeName));
+      return promisifyTransaction(transaction);
+    });
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (this.database) return this.database;
+
+    const request = this.factory.open(this.databaseName, DATABASE_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(this.storeName)) {
+        database.createObjectStore(this.storeName, { keyPath: 'id' });
+      }
+    };
+
+    this.database = promisifyRequest(request);
+    // Allow a later operation to retry opening the database
+    this.database.catch(() => {
+      this.database = null;
+    });
+    return this.database;
+  }
+}
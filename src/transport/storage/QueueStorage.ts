@@ -0,0 +1,31 @@
+/**
+ * Serialized report persisted while waiting to be delivered.
+ */
+export interface StoredReport {
+  /** Unique identifier of the stored entry */
+  id: string;
+  /** Serialized report, as produced by toJSON() */
+  payload: unknown;
+  /** Size of the serialized payload in bytes */
+  size: number;
+  /** Number of failed delivery attempts */
+  attempts: number;
+  /** Epoch timestamp when the entry was first stored */
+  storedAt: number;
+}
+
+/**
+ * Storage backend used by PersistentQueue.
+ */
+export interface QueueStorage {
+  /** Returns every stored entry, oldest first */
+  getAll(): Promise<StoredReport[]>;
+  /** Inserts the given entries or replaces those with the same id */
+  put(reports: StoredReport[]): Promise<void>;
+  /** Removes the entries with the given ids */
+  delete(ids: string[]): Promise<void>;
+}
+
+export const sortByStoredAt = (reports: StoredReport[]): StoredReport[] => (
+  reports.toSorted((a, b) => a.storedAt - b.storedAt)
+);
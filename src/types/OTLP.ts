@@ -0,0 +1,158 @@
+/**
+ * Subset of the OpenTelemetry Protocol (OTLP) JSON encoding produced by OTLPExporter.
+ *
+ * Follows the OTLP/HTTP JSON mapping: 64-bit integers (timestamps, counts) are
+ * encoded as decimal strings, trace and span ids as lowercase hex strings and
+ * enums as their integer values.
+ *
+ * @see https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+
+export type OTLPAnyValue =
+  | { stringValue: string }
+  | { boolValue: boolean }
+  | { intValue: string }
+  | { doubleValue: number }
+  | { arrayValue: { values: OTLPAnyValue[] } };
+
+export interface OTLPKeyValue {
+  key: string;
+  value: OTLPAnyValue;
+}
+
+export type OTLPAttributeValue = string | number | boolean | ReadonlyArray<string | number | boolean>;
+
+export interface OTLPResource {
+  attributes: OTLPKeyValue[];
+}
+
+export interface OTLPInstrumentationScope {
+  name: string;
+  version?: string;
+}
+
+// ===== METRICS =====
+
+export const AGGREGATION_TEMPORALITY = {
+  DELTA: 1,
+  CUMULATIVE: 2,
+} as const;
+
+export type AggregationTemporality = (typeof AGGREGATION_TEMPORALITY)[keyof typeof AGGREGATION_TEMPORALITY];
+
+export interface OTLPNumberDataPoint {
+  attributes: OTLPKeyValue[];
+  startTimeUnixNano?: string;
+  timeUnixNano: string;
+  asDouble: number;
+}
+
+export interface OTLPHistogramDataPoint {
+  attributes: OTLPKeyValue[];
+  startTimeUnixNano: string;
+  timeUnixNano: string;
+  count: string;
+  sum: number;
+  min: number;
+  max: number;
+  bucketCounts: string[];
+  explicitBounds: number[];
+}
+
+interface OTLPMetricBase {
+  name: string;
+  description: string;
+  unit: string;
+}
+
+export interface OTLPGaugeMetric extends OTLPMetricBase {
+  gauge: {
+    dataPoints: OTLPNumberDataPoint[];
+  };
+}
+
+export interface OTLPHistogramMetric extends OTLPMetricBase {
+  histogram: {
+    aggregationTemporality: AggregationTemporality;
+    dataPoints: OTLPHistogramDataPoint[];
+  };
+}
+
+export type OTLPMetric = OTLPGaugeMetric | OTLPHistogramMetric;
+
+export interface OTLPExportMetricsServiceRequest {
+  resourceMetrics: Array<{
+    resource: OTLPResource;
+    scopeMetrics: Array<{
+      scope: OTLPInstrumentationScope;
+      metrics: OTLPMetric[];
+    }>;
+  }>;
+}
+
+// ===== LOGS =====
+
+/**
+ * OTLP severity numbers (first value of each range).
+ * Each range holds four levels, e.g. ERROR (17) to ERROR4 (20).
+ */
+export const SEVERITY_NUMBER = {
+  TRACE: 1,
+  DEBUG: 5,
+  INFO: 9,
+  WARN: 13,
+  ERROR: 17,
+  FATAL: 21,
+} as const;
+
+export interface OTLPLogRecord {
+  timeUnixNano: string;
+  observedTimeUnixNano: string;
+  severityNumber: number;
+  severityText: string;
+  body: OTLPAnyValue;
+  attributes: OTLPKeyValue[];
+}
+
+export interface OTLPExportLogsServiceRequest {
+  resourceLogs: Array<{
+    resource: OTLPResource;
+    scopeLogs: Array<{
+      scope: OTLPInstrumentationScope;
+      logRecords: OTLPLogRecord[];
+    }>;
+  }>;
+}
+
+// ===== TRACES =====
+
+export const SPAN_KIND = {
+  INTERNAL: 1,
+  SERVER: 2,
+  CLIENT: 3,
+  PRODUCER: 4,
+  CONSUMER: 5,
+} as const;
+
+export type SpanKind = (typeof SPAN_KIND)[keyof typeof SPAN_KIND];
+
+export interface OTLPSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: OTLPKeyValue[];
+}
+
+export interface OTLPExportTraceServiceRequest {
+  resourceSpans: Array<{
+    resource: OTLPResource;
+    scopeSpans: Array<{
+      scope: OTLPInstrumentationScope;
+      spans: OTLPSpan[];
+    }>;
+  }>;
+}
@@ -1,3 +1,31 @@
+/**
+ * Entry types of the User Timing API: performance.mark() and performance.measure().
+ */
+export const USER_TIMING_ENTRY_TYPES = {
+  MARK: 'mark',
+  MEASURE: 'measure',
+} as const;
+
+export type UserTimingEntryType = (typeof USER_TIMING_ENTRY_TYPES)[keyof typeof USER_TIMING_ENTRY_TYPES];
+
+/**
+ * Whether a resource blocked the rendering of the page.
+ */
+export const RENDER_BLOCKING_STATUSES = {
+  BLOCKING: 'blocking',
+  NON_BLOCKING: 'non-blocking',
+} as const;
+
+export type RenderBlockingStatus = (typeof RENDER_BLOCKING_STATUSES)[keyof typeof RENDER_BLOCKING_STATUSES];
+
+export interface PerformanceResourceTimingEntry extends PerformanceResourceTiming {
+  readonly renderBlockingStatus?: RenderBlockingStatus;
+  /** How the resource was delivered, e.g. "cache" or "navigational-prefetch" (empty from the network) */
+  readonly deliveryType?: string;
+  /** MIME type of the response (empty when unknown or opaque) */
+  readonly contentType?: string;
+}
+
 export interface PerformanceEventTimingEntry extends PerformanceEventTiming {
   interactionId?: number;
 }
@@ -34,4 +62,108 @@ export interface PerformanceElementTiming extends PerformanceEntry {
   readonly naturalWidth?: number;
   readonly naturalHeight?: number;
   readonly url?: string;
-}
\ No newline at end of file
+}
+/**
+ * Why a frame of the page was not restored from the back/forward cache.
+ */
+export interface NotRestoredReasonDetails {
+  readonly reason: string;
+}
+
+/**
+ * Tree of the frames of the page that blocked the back/forward cache.
+ */
+export interface NotRestoredReasons {
+  readonly url: string | null;
+  readonly src: string | null;
+  readonly id: string | null;
+  readonly name: string | null;
+  readonly blocked: boolean;
+  readonly reasons: NotRestoredReasonDetails[] | null;
+  readonly children: NotRestoredReasons[] | null;
+}
+
+export interface PerformanceNavigationTimingEntry extends PerformanceNavigationTiming {
+  /** Time when a prerendered page was activated (0 when the page was not prerendered) */
+  readonly activationStart?: number;
+  /** Why a back/forward navigation was not served from the back/forward cache (null otherwise) */
+  readonly notRestoredReasons?: NotRestoredReasons | null;
+}
+
+export interface PerformanceScriptTimingEntry extends PerformanceEntry {
+  readonly invoker: string;
+  readonly invokerType: string;
+  readonly executionStart: number;
+  readonly sourceURL: string;
+  readonly sourceFunctionName: string;
+  readonly sourceCharPosition: number;
+  readonly forcedStyleAndLayoutDuration: number;
+  readonly pauseDuration: number;
+  readonly windowAttribution: string;
+}
+
+export interface PerformanceLongAnimationFrameTimingEntry extends PerformanceEntry {
+  readonly blockingDuration: number;
+  readonly renderStart: number;
+  readonly styleAndLayoutStart: number;
+  readonly firstUIEventTimestamp: number;
+  readonly scripts: PerformanceScriptTimingEntry[];
+}
+
+export interface MemoryAttributionContainer {
+  readonly id: string;
+  readonly src: string;
+}
+
+export interface MemoryAttribution {
+  readonly url: string;
+  /** e.g. "Window", "DedicatedWorkerGlobalScope" or "cross-origin-aggregated" */
+  readonly scope: string;
+  readonly container?: MemoryAttributionContainer;
+}
+
+export interface MemoryBreakdownEntry {
+  readonly bytes: number;
+  readonly attribution: MemoryAttribution[];
+  /** Memory types, e.g. "JavaScript" or "DOM"; empty when unknown */
+  readonly types: string[];
+}
+
+/**
+ * Result of performance.measureUserAgentSpecificMemory().
+ */
+export interface MemoryMeasurement {
+  readonly bytes: number;
+  readonly breakdown: MemoryBreakdownEntry[];
+}
+
+/**
+ * Non-standard performance.memory (Chromium).
+ */
+export interface PerformanceMemoryInfo {
+  readonly usedJSHeapSize: number;
+  readonly totalJSHeapSize: number;
+  readonly jsHeapSizeLimit: number;
+}
+
+export interface PerformanceWithMemory extends Performance {
+  measureUserAgentSpecificMemory?: () => Promise<MemoryMeasurement>;
+  readonly memory?: PerformanceMemoryInfo;
+}
+
+/**
+ * Network Information API (navigator.connection), Chromium only.
+ */
+export interface NetworkInformation extends EventTarget {
+  /** "slow-2g", "2g", "3g" or "4g" */
+  readonly effectiveType?: string;
+  /** Estimated round-trip time in milliseconds, rounded to 25ms */
+  readonly rtt?: number;
+  /** Estimated bandwidth in megabits per second, rounded and capped at 10 */
+  readonly downlink?: number;
+  readonly saveData?: boolean;
+}
+
+export interface NavigatorWithConnection extends Navigator {
+  readonly connection?: NetworkInformation;
+}
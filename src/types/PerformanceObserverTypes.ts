@@ -1 +1,5 @@
-export type PerformanceObserverConfig = PerformanceObserverInit & { durationThreshold?: number };
+export type PerformanceObserverConfig = PerformanceObserverInit & {
+  durationThreshold?: number;
+  /** Also delivers the entries of soft navigations, ignored where soft navigations are not supported */
+  includeSoftNavigationObservations?: boolean;
+};
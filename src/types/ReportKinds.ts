@@ -0,0 +1,48 @@
+/**
+ * Discriminator emitted as `kind` by every serialized report and collection.
+ * Used by deserializeReport to pick the class that rehydrates a payload.
+ */
+export const REPORT_KINDS = {
+  // Web Vitals
+  CLS: 'web-vital.cls',
+  CLS_COLLECTION: 'web-vital.cls-collection',
+  FCP: 'web-vital.fcp',
+  FID: 'web-vital.fid',
+  INP: 'web-vital.inp',
+  INP_COLLECTION: 'web-vital.inp-collection',
+  LCP: 'web-vital.lcp',
+  LCP_COLLECTION: 'web-vital.lcp-collection',
+  TTFB: 'web-vital.ttfb',
+
+  // Performance
+  BACK_FORWARD_CACHE: 'performance.back-forward-cache',
+  CONNECTION_QUALITY: 'performance.connection-quality',
+  DOM_TIMING: 'performance.dom-timing',
+  ELEMENT_TIMING: 'performance.element-timing',
+  LONG_ANIMATION_FRAME: 'performance.long-animation-frame',
+  LONG_ANIMATION_FRAME_COLLECTION: 'performance.long-animation-frame-collection',
+  LONG_TASK: 'performance.long-task',
+  LONG_TASK_COLLECTION: 'performance.long-task-collection',
+  MEMORY: 'performance.memory',
+  NETWORK_TIMING: 'performance.network-timing',
+  RESOURCE_TIMING: 'performance.resource',
+  RESOURCE_TIMING_COLLECTION: 'performance.resource-collection',
+  SOFT_NAVIGATION: 'performance.soft-navigation',
+  THIRD_PARTY_IMPACT: 'performance.third-party-impact',
+  USER_TIMING: 'performance.user-timing',
+  USER_TIMING_COLLECTION: 'performance.user-timing-collection',
+
+  // Errors
+  CSP_VIOLATION: 'error.csp',
+  RESOURCE_ERROR: 'error.resource',
+  UNHANDLED_JAVASCRIPT_ERROR: 'error.javascript',
+  UNHANDLED_PROMISE_REJECTION: 'error.promise-rejection',
+} as const;
+
+export type ReportKind = (typeof REPORT_KINDS)[keyof typeof REPORT_KINDS];
+
+/**
+ * Version of the serialized report format, emitted as `schemaVersion`.
+ * Bumped on any breaking change to a toJSON() output.
+ */
+export const SCHEMA_VERSION = 1;
@@ -0,0 +1,536 @@
+import type { REPORT_KINDS, ReportKind, SCHEMA_VERSION } from '@/types/ReportKinds';
+import type { SeverityLevel } from '@/reports/errors/ErrorReport';
+import type { WebVitalRating } from '@/reports/web-vitals/WebVitalReport';
+import type { INPPhase, InteractionType } from '@/types/WebVitals';
+import type { RenderBlockingStatus, UserTimingEntryType } from '@/types/PerformanceEntryTypes';
+import type { MemorySource } from '@/reports/performance/MemoryReport';
+import type { ConnectionQualityClass } from '@/reports/performance/ConnectionQualityReport';
+import type { SoftNavigationSource } from '@/reports/performance/SoftNavigationReport';
+import type { CDNCacheStatus } from '@/reports/performance/ServerTiming';
+import type { VendorCategory } from '@/shared/vendorCatalog';
+
+/**
+ * Wire format emitted by the toJSON() method of every report and collection.
+ *
+ * Conventions (schema version 1):
+ * - Every payload starts with `id`, `kind` and `schemaVersion`.
+ * - Timestamps (`createdAt`, `occurredAt`, `endTime`, segment `start`/`end`) are
+ *   Unix epoch milliseconds.
+ * - Optional values are emitted as `null`, never omitted.
+ * - DOM nodes are replaced by a short CSS-like descriptor (e.g. `img#hero.banner`).
+ * - Collections embed each report once, in `reports`; derived groupings reference
+ *   reports by id.
+ *
+ * The JSON Schema files in `schemas/` are generated from the same definitions.
+ */
+
+export interface SerializedEnvelope<K extends ReportKind = ReportKind> {
+  id: string;
+  kind: K;
+  schemaVersion: typeof SCHEMA_VERSION;
+  createdAt: number;
+}
+
+export interface SerializedTimeSegment {
+  duration: number;
+  start: number;
+  end: number;
+}
+
+export interface SerializedRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ===== WEB VITALS =====
+
+export interface SerializedWebVitalReport<K extends ReportKind = ReportKind> extends SerializedEnvelope<K> {
+  occurredAt: number;
+  name: string;
+  value: number;
+  rating: WebVitalRating;
+  goodThreshold: number;
+  poorThreshold: number;
+}
+
+export type SerializedFCPReport = SerializedWebVitalReport<typeof REPORT_KINDS.FCP>;
+
+export type SerializedFIDReport = SerializedWebVitalReport<typeof REPORT_KINDS.FID>;
+
+export type SerializedTTFBReport = SerializedWebVitalReport<typeof REPORT_KINDS.TTFB>;
+
+export interface SerializedLCPReport extends SerializedWebVitalReport<typeof REPORT_KINDS.LCP> {
+  element: string | null;
+  url: string | null;
+  isLazyLoaded: boolean;
+  fetchPriority: string | null;
+  primaryBottleneck: 'ttfb' | 'loadDelay' | 'loadDuration' | 'renderDelay';
+  timeToFirstByte: SerializedTimeSegment;
+  resourceLoadDelay: SerializedTimeSegment;
+  resourceLoadDuration: SerializedTimeSegment;
+  elementRenderDelay: SerializedTimeSegment;
+}
+
+export interface SerializedINPReport extends SerializedWebVitalReport<typeof REPORT_KINDS.INP> {
+  eventName: string;
+  interactionId: number;
+  interactionType: InteractionType;
+  target: string | null;
+  inputDelay: SerializedTimeSegment;
+  processingTime: SerializedTimeSegment;
+  presentationDelay: SerializedTimeSegment;
+}
+
+export interface SerializedLayoutShiftSource {
+  node: string | null;
+  previousRect: SerializedRect;
+  currentRect: SerializedRect;
+}
+
+export interface SerializedCLSReport extends SerializedEnvelope<typeof REPORT_KINDS.CLS> {
+  occurredAt: number;
+  value: number;
+  sources: SerializedLayoutShiftSource[];
+}
+
+export interface SerializedLCPCollection extends SerializedEnvelope<typeof REPORT_KINDS.LCP_COLLECTION> {
+  reports: SerializedLCPReport[];
+}
+
+export interface SerializedINPCollection extends SerializedEnvelope<typeof REPORT_KINDS.INP_COLLECTION> {
+  reports: SerializedINPReport[];
+  interactionCount: number;
+  selectedInteractionId: string | null;
+  dominantPhase: INPPhase | null;
+}
+
+export interface SerializedCLSSessionWindow {
+  value: number;
+  span: SerializedTimeSegment;
+  reportIds: string[];
+}
+
+export interface SerializedCLSCollection extends SerializedEnvelope<typeof REPORT_KINDS.CLS_COLLECTION> {
+  reports: SerializedCLSReport[];
+  value: number;
+  cumulativeShiftScore: number;
+  sessionWindows: SerializedCLSSessionWindow[];
+  worstSessionWindowIndex: number | null;
+}
+
+// ===== PERFORMANCE =====
+
+export interface SerializedNotRestoredReason {
+  reason: string;
+  frameUrl: string | null;
+}
+
+export interface SerializedBackForwardCacheReport extends SerializedEnvelope<typeof REPORT_KINDS.BACK_FORWARD_CACHE> {
+  occurredAt: number;
+  isRestored: boolean;
+  notRestoredReasons: SerializedNotRestoredReason[];
+}
+
+export interface SerializedConnectionQualityReport extends SerializedEnvelope<typeof REPORT_KINDS.CONNECTION_QUALITY> {
+  occurredAt: number;
+  quality: ConnectionQualityClass;
+  effectiveType: string | null;
+  saveData: boolean;
+  isConstrained: boolean;
+}
+
+export interface SerializedDOMTimingReport extends SerializedEnvelope<typeof REPORT_KINDS.DOM_TIMING> {
+  occurredAt: number;
+  timeToInteractive: number;
+  timeToContentLoaded: number;
+  timeToDOMComplete: number;
+  timeToFullLoad: number;
+  domContentLoadedDuration: number;
+  loadEventDuration: number;
+  totalEventHandlerTime: number;
+  domParsingTime: number;
+  resourceLoadTime: number;
+  hasSlowEventHandlers: boolean;
+  slowestPhase: 'dom-parsing' | 'resource-loading' | 'event-handlers' | 'interactive';
+}
+
+export interface SerializedElementTimingReport extends SerializedEnvelope<typeof REPORT_KINDS.ELEMENT_TIMING> {
+  occurredAt: number;
+  elementId: string | null;
+  identifier: string;
+  loadTime: number;
+  renderTime: number;
+  effectiveRenderTime: number;
+  naturalWidth: number | null;
+  naturalHeight: number | null;
+  url: string | null;
+  isImage: boolean;
+  hasCustomIdentifier: boolean;
+}
+
+export interface SerializedTaskAttribution {
+  containerType: string;
+  containerName: string;
+  containerSrc: string;
+  containerId: string;
+}
+
+export interface SerializedLongTaskReport extends SerializedEnvelope<typeof REPORT_KINDS.LONG_TASK> {
+  occurredAt: number;
+  duration: number;
+  endTime: number;
+  name: string;
+  attribution: SerializedTaskAttribution[] | null;
+  severity: 'low' | 'medium' | 'high';
+  hasAttribution: boolean;
+}
+
+export interface SerializedLongTaskCollection extends SerializedEnvelope<typeof REPORT_KINDS.LONG_TASK_COLLECTION> {
+  totalReports: number;
+  totalDuration: number;
+  totalBlockingTime: number;
+  firstContentfulPaint: number | null;
+  timeToInteractive: number | null;
+  reports: SerializedLongTaskReport[];
+  longestTaskId: string | null;
+}
+
+export interface SerializedLongAnimationFrameScript {
+  sourceURL: string;
+  sourceFunctionName: string;
+  sourceCharPosition: number;
+  invoker: string;
+  invokerType: string;
+  windowAttribution: string;
+  startTime: number;
+  duration: number;
+  forcedStyleAndLayoutDuration: number;
+  pauseDuration: number;
+}
+
+export interface SerializedLongAnimationFrameReport
+  extends SerializedEnvelope<typeof REPORT_KINDS.LONG_ANIMATION_FRAME> {
+  occurredAt: number;
+  duration: number;
+  endTime: number;
+  blockingDuration: number;
+  renderStart: number | null;
+  styleAndLayoutStart: number | null;
+  renderDuration: number;
+  scriptDuration: number;
+  forcedStyleAndLayoutDuration: number;
+  scripts: SerializedLongAnimationFrameScript[];
+}
+
+export interface SerializedLongAnimationFrameScriptSummary {
+  source: string;
+  origin: string | null;
+  isThirdParty: boolean;
+  blockingDuration: number;
+  duration: number;
+  forcedStyleAndLayoutDuration: number;
+  count: number;
+  /** Ids of the frames in which the script ran */
+  reportIds: string[];
+}
+
+export interface SerializedLongAnimationFrameOriginSummary {
+  origin: string;
+  blockingDuration: number;
+  duration: number;
+  count: number;
+  /** Ids of the frames in which scripts of the origin ran */
+  reportIds: string[];
+}
+
+export interface SerializedLongAnimationFrameCollection
+  extends SerializedEnvelope<typeof REPORT_KINDS.LONG_ANIMATION_FRAME_COLLECTION> {
+  totalReports: number;
+  totalBlockingDuration: number;
+  reports: SerializedLongAnimationFrameReport[];
+  worstFrameId: string | null;
+  worstScripts: SerializedLongAnimationFrameScriptSummary[];
+  worstThirdPartyOrigins: SerializedLongAnimationFrameOriginSummary[];
+}
+
+export interface SerializedMemoryBreakdownEntry {
+  bytes: number;
+  types: string[];
+  attribution: Array<{
+    url: string;
+    scope: string;
+    container: { id: string; src: string } | null;
+  }>;
+}
+
+export interface SerializedMemoryReport extends SerializedEnvelope<typeof REPORT_KINDS.MEMORY> {
+  occurredAt: number;
+  source: MemorySource;
+  bytes: number;
+  jsHeapSizeLimit: number | null;
+  breakdown: SerializedMemoryBreakdownEntry[];
+  bytesByType: Record<string, number>;
+  bytesByAttribution: Record<string, number>;
+  trend: {
+    consecutiveIncreases: number;
+    growth: number;
+    isMonotonicGrowth: boolean;
+  };
+  isLikelyLeak: boolean;
+}
+
+export interface SerializedServerTimingMetric {
+  name: string;
+  duration: number;
+  description: string | null;
+}
+
+export interface SerializedNetworkTimingReport extends SerializedEnvelope<typeof REPORT_KINDS.NETWORK_TIMING> {
+  occurredAt: number;
+  transferSize: number;
+  encodedSize: number;
+  decodedSize: number;
+  compressionRatio: number;
+  hasCompression: boolean;
+  totalNetworkTime: number;
+  connectionSetupTime: number;
+  primaryBottleneck: 'redirects' | 'dns' | 'tcp' | 'tls' | 'server' | 'download';
+  redirects: SerializedTimeSegment;
+  dnsLookup: SerializedTimeSegment;
+  tcpConnect: SerializedTimeSegment;
+  serverProcessing: SerializedTimeSegment;
+  contentDownload: SerializedTimeSegment;
+  tlsHandshake: SerializedTimeSegment | null;
+  serverTiming: SerializedServerTimingMetric[];
+  cdnCacheStatus: CDNCacheStatus | null;
+}
+
+export interface SerializedResourceTimingReport extends SerializedEnvelope<typeof REPORT_KINDS.RESOURCE_TIMING> {
+  occurredAt: number;
+  name: string;
+  domain: string;
+  type: string;
+  duration: number;
+  endTime: number;
+  transferSize: number;
+  encodedSize: number;
+  decodedSize: number;
+  compressionRatio: number;
+  hasCompression: boolean;
+  isThirdParty: boolean;
+  /** Name of the known vendor serving a third-party resource */
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+  primaryBottleneck: 'dns' | 'tcp' | 'tls' | 'server' | 'download' | 'none';
+  hasDetailedTiming: boolean;
+  dnsLookup: SerializedTimeSegment;
+  tcpConnect: SerializedTimeSegment;
+  serverProcessing: SerializedTimeSegment;
+  contentDownload: SerializedTimeSegment;
+  tlsHandshake: SerializedTimeSegment | null;
+  serverTiming: SerializedServerTimingMetric[];
+  cdnCacheStatus: CDNCacheStatus | null;
+  protocol: string | null;
+  renderBlockingStatus: RenderBlockingStatus | null;
+  responseStatus: number | null;
+  deliveryType: string | null;
+  contentType: string | null;
+  workerStart: number;
+  isCacheHit: boolean;
+  isRenderBlocking: boolean;
+  isFailed: boolean;
+  isServiceWorkerServed: boolean;
+}
+
+export interface SerializedServerTimingStats {
+  count: number;
+  total: number;
+  min: number;
+  max: number;
+  mean: number;
+  reportIds: string[];
+}
+
+export interface SerializedResourceTimingCollection
+  extends SerializedEnvelope<typeof REPORT_KINDS.RESOURCE_TIMING_COLLECTION> {
+  totalReports: number;
+  totalTransferSize: number;
+  totalDecodedSize: number;
+  totalEncodedSize: number;
+  compressionSavings: number;
+  averageLoadTime: number;
+  reports: SerializedResourceTimingReport[];
+  /** Report ids grouped by resource type */
+  resourcesByType: Record<string, string[]>;
+  /** Report ids grouped by domain */
+  resourcesByDomain: Record<string, string[]>;
+  thirdPartyResourceIds: string[];
+  slowestResourceId: string | null;
+  lastResourceId: string | null;
+  /** Duration statistics of the Server-Timing metrics, by name */
+  serverTimingByName: Record<string, SerializedServerTimingStats>;
+  /** Share of the resources reporting a CDN cache status that were CDN cache hits */
+  cdnCacheHitRatio: number | null;
+  /** Report ids grouped by network protocol ("unknown" when not exposed) */
+  resourcesByProtocol: Record<string, string[]>;
+  /** Share of the resources served from the browser cache */
+  cacheHitRatio: number;
+  /** Ids of the render-blocking resources, the longest first */
+  renderBlockingResourceIds: string[];
+  /** Ids of the resources answered with a 4xx or 5xx status */
+  failedResourceIds: string[];
+  serviceWorkerResourceIds: string[];
+}
+
+export interface SerializedSoftNavigationReport extends SerializedEnvelope<typeof REPORT_KINDS.SOFT_NAVIGATION> {
+  occurredAt: number;
+  navigationId: string;
+  route: string;
+  url: string;
+  previousRoute: string | null;
+  source: SoftNavigationSource;
+}
+
+export interface SerializedThirdPartyImpactTotals {
+  resourceCount: number;
+  transferSize: number;
+  longTaskCount: number;
+  longAnimationFrameCount: number;
+  blockingTime: number;
+  failedLoads: number;
+  javascriptErrors: number;
+  cspViolations: number;
+}
+
+export interface SerializedThirdPartyOriginImpact extends SerializedThirdPartyImpactTotals {
+  origin: string;
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+}
+
+export interface SerializedThirdPartyImpactReport extends SerializedEnvelope<typeof REPORT_KINDS.THIRD_PARTY_IMPACT> {
+  occurredAt: number;
+  /** Third-party origins ranked by blocking time, then transferred bytes, then failures */
+  origins: SerializedThirdPartyOriginImpact[];
+  totals: SerializedThirdPartyImpactTotals;
+}
+
+export interface SerializedUserTimingReport extends SerializedEnvelope<typeof REPORT_KINDS.USER_TIMING> {
+  occurredAt: number;
+  name: string;
+  entryType: UserTimingEntryType;
+  duration: number;
+  segment: SerializedTimeSegment;
+  /** `detail` of the entry as a JSON value, null when absent or not serializable */
+  detail: unknown;
+}
+
+export interface SerializedUserTimingStats {
+  count: number;
+  min: number;
+  max: number;
+  mean: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  reportIds: string[];
+}
+
+export interface SerializedUserTimingCollection
+  extends SerializedEnvelope<typeof REPORT_KINDS.USER_TIMING_COLLECTION> {
+  totalReports: number;
+  reports: SerializedUserTimingReport[];
+  /** Duration statistics of the measures, by name */
+  statsByName: Record<string, SerializedUserTimingStats>;
+}
+
+// ===== ERRORS =====
+
+export interface SerializedErrorReport<K extends ReportKind = ReportKind> extends SerializedEnvelope<K> {
+  occurredAt: number;
+  severity: SeverityLevel;
+}
+
+export interface SerializedCSPViolationErrorReport extends SerializedErrorReport<typeof REPORT_KINDS.CSP_VIOLATION> {
+  directive: string;
+  blockedURI: string;
+  blockedDomain: string;
+  sourceFile: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  isInlineViolation: boolean;
+  isEvalBlocked: boolean;
+  isThirdPartyViolation: boolean;
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+  isSpecialURI: boolean;
+}
+
+export interface SerializedResourceErrorReport extends SerializedErrorReport<typeof REPORT_KINDS.RESOURCE_ERROR> {
+  resourceUrl: string;
+  resourceType: string;
+  resourceDomain: string;
+  isThirdParty: boolean;
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+  isCriticalResource: boolean;
+}
+
+export interface SerializedUnhandledJavaScriptErrorReport
+  extends SerializedErrorReport<typeof REPORT_KINDS.UNHANDLED_JAVASCRIPT_ERROR> {
+  errorMessage: string;
+  errorName: string | null;
+  stack: string | null;
+  filename: string | null;
+  lineNumber: number | null;
+  columnNumber: number | null;
+  isThirdPartyScript: boolean;
+  vendor: string | null;
+  vendorCategory: VendorCategory | null;
+  isProgrammingError: boolean;
+}
+
+export interface SerializedUnhandledPromiseRejectionReport
+  extends SerializedErrorReport<typeof REPORT_KINDS.UNHANDLED_PROMISE_REJECTION> {
+  errorMessage: string;
+  errorName: string | null;
+  stack: string | null;
+  isNetworkRelated: boolean;
+  isJavaScriptError: boolean;
+}
+
+/**
+ * Any serialized report or collection, discriminated by `kind`.
+ */
+export type SerializedReport =
+  | SerializedCLSReport
+  | SerializedCLSCollection
+  | SerializedFCPReport
+  | SerializedFIDReport
+  | SerializedTTFBReport
+  | SerializedINPReport
+  | SerializedINPCollection
+  | SerializedLCPReport
+  | SerializedLCPCollection
+  | SerializedBackForwardCacheReport
+  | SerializedConnectionQualityReport
+  | SerializedDOMTimingReport
+  | SerializedElementTimingReport
+  | SerializedLongAnimationFrameReport
+  | SerializedLongAnimationFrameCollection
+  | SerializedLongTaskReport
+  | SerializedLongTaskCollection
+  | SerializedMemoryReport
+  | SerializedNetworkTimingReport
+  | SerializedResourceTimingReport
+  | SerializedResourceTimingCollection
+  | SerializedSoftNavigationReport
+  | SerializedThirdPartyImpactReport
+  | SerializedUserTimingReport
+  | SerializedUserTimingCollection
+  | SerializedCSPViolationErrorReport
+  | SerializedResourceErrorReport
+  | SerializedUnhandledJavaScriptErrorReport
+  | SerializedUnhandledPromiseRejectionReport;
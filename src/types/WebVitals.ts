@@ -13,6 +13,25 @@ export const WEB_VITALS = {
   FIRST_INPUT_DELAY: 'FIRST_INPUT_DELAY',
   INTERACTION_TO_NEXT_PAINT: 'INTERACTION_TO_NEXT_PAINT',
   LARGEST_CONTENTFUL_PAINT: 'LARGEST_CONTENTFUL_PAINT',
+  TIME_TO_FIRST_BYTE: 'TIME_TO_FIRST_BYTE',
 } as const;
 
 export type WebVitalName = (typeof WEB_VITALS)[keyof typeof WEB_VITALS];
+
+/**
+ * Sub-parts of an interaction latency, named after the INPReport fields holding them.
+ */
+export const INP_PHASES = {
+  INPUT_DELAY: 'inputDelay',
+  PROCESSING_TIME: 'processingTime',
+  PRESENTATION_DELAY: 'presentationDelay',
+} as const;
+
+export type INPPhase = (typeof INP_PHASES)[keyof typeof INP_PHASES];
+
+export const INTERACTION_TYPES = {
+  POINTER: 'pointer',
+  KEYBOARD: 'keyboard',
+} as const;
+
+export type InteractionType = (typeof INTERACTION_TYPES)[keyof typeof INTERACTION_TYPES];
@@ -5,6 +5,7 @@ import { performanceAPIHelper } from '@/test/helpers/PerformanceAPIHelper';
 
 import { InvalidPerformanceTimeException } from '@/exceptions/PerformanceTimeExceptions';
 import { UnsupportedPerformanceAPIException } from '@/exceptions/UnsupportedExceptions';
+import { InvalidPayloadException } from '@/exceptions/SerializationExceptions';
 
 import { PerformanceTime } from './PerformanceTime';
 
@@ -337,6 +338,45 @@ describe('PerformanceTime', () => {
     });
   });
 
+  describe('fromEpochTime', () => {
+    it('should keep the epoch timestamp as absolute time', () => {
+      // Given
+      const epochTime = 1700000000123.5;
+
+      // When
+      const performanceTime = PerformanceTime.fromEpochTime(epochTime);
+
+      // Then
+      expect(performanceTime.absoluteTime).toBe(epochTime);
+    });
+
+    it('should throw InvalidPerformanceTimeException when time is negative', () => {
+      // When & Then
+      expect(() => PerformanceTime.fromEpochTime(-1)).toThrow(InvalidPerformanceTimeException);
+    });
+  });
+
+  describe('fromJSON', () => {
+    it('should restore the absolute time from the toJSON output', () => {
+      // Given
+      const performanceTime = PerformanceTimeBuilder.aDefault()
+        .withRelativeTime(100)
+        .buildFromRelative();
+
+      // When
+      const result = PerformanceTime.fromJSON(JSON.parse(JSON.stringify(performanceTime)));
+
+      // Then
+      expect(result.absoluteTime).toBe(performanceTime.absoluteTime);
+    });
+
+    it('should throw InvalidPayloadException when the payload is not a serialized time', () => {
+      // When & Then
+      expect(() => PerformanceTime.fromJSON('100')).toThrow(InvalidPayloadException);
+      expect(() => PerformanceTime.fromJSON({ relative: 100 })).toThrow(InvalidPayloadException);
+    });
+  });
+
   describe('immutability', () => {
     it('should be frozen and immutable after creation', () => {
       // Given
@@ -1,6 +1,7 @@
 import { InvalidPerformanceTimeException } from '@/exceptions/PerformanceTimeExceptions';
 import type { ValueObject } from './ValueObject';
 import { UnsupportedPerformanceAPIException } from '@/exceptions/UnsupportedExceptions';
+import { InvalidPayloadException } from '@/exceptions/SerializationExceptions';
 
 const isValidPerformanceTime = (time: number) => {
   return Number.isFinite(time) && time >= 0;
@@ -23,10 +24,12 @@ const isPerformanceAPIAvailable = () => (
 export class PerformanceTime implements ValueObject {
   public readonly relativeTime: number;
   public readonly absoluteTime: number;
+  private readonly timeOrigin: number;
 
-  private constructor(relativeTime: number) {
+  private constructor(relativeTime: number, timeOrigin: number = performance.timeOrigin) {
     this.relativeTime = relativeTime;
-    this.absoluteTime = relativeTime + performance.timeOrigin;
+    this.timeOrigin = timeOrigin;
+    this.absoluteTime = relativeTime + timeOrigin;
     Object.freeze(this);
   }
 
@@ -60,6 +63,38 @@ export class PerformanceTime implements ValueObject {
     return new PerformanceTime(Math.max(0, relative));
   }
 
+  /**
+   * Creates a PerformanceTime from a serialized epoch timestamp.
+   * Does not depend on the current time origin, so it can rehydrate reports
+   * outside the page that produced them (workers, servers). The epoch is used
+   * as time origin, hence relativeTime equals absoluteTime.
+   */
+  static fromEpochTime(time: number): PerformanceTime {
+    if (!isValidPerformanceTime(time)) {
+      throw new InvalidPerformanceTimeException();
+    }
+    return new PerformanceTime(time, 0);
+  }
+
+  /**
+   * Rehydrates a PerformanceTime from its toJSON() representation,
+   * preserving both the absolute and the relative time.
+   */
+  static fromJSON(json: unknown): PerformanceTime {
+    if (typeof json !== 'object' || json === null) {
+      throw new InvalidPayloadException('a serialized PerformanceTime');
+    }
+
+    const { absolute, relative } = json as Record<string, unknown>;
+    if (typeof absolute !== 'number' || typeof relative !== 'number') {
+      throw new InvalidPayloadException('a serialized PerformanceTime');
+    }
+    if (!isValidPerformanceTime(absolute) || !isValidPerformanceTime(relative)) {
+      throw new InvalidPerformanceTimeException();
+    }
+    return new PerformanceTime(relative, absolute - relative);
+  }
+
   /**
    * Gets the current timestamp as a PerformanceTime.
    */
@@ -107,7 +142,7 @@ export class PerformanceTime implements ValueObject {
    */
   add(value: number | PerformanceTime): PerformanceTime {
     const relativeValue = value instanceof PerformanceTime ? value.relativeTime : value;
-    return PerformanceTime.fromRelativeTime(this.relativeTime + relativeValue);
+    return this.withRelativeTime(this.relativeTime + relativeValue);
   }
 
   /**
@@ -115,7 +150,17 @@ export class PerformanceTime implements ValueObject {
    */
   subtract(value: number | PerformanceTime): PerformanceTime {
     const relativeValue = value instanceof PerformanceTime ? value.relativeTime : value;
-    return PerformanceTime.fromRelativeTime(this.relativeTime - relativeValue);
+    return this.withRelativeTime(this.relativeTime - relativeValue);
+  }
+
+  /**
+   * Creates a timestamp sharing this instance's time origin.
+   */
+  private withRelativeTime(time: number): PerformanceTime {
+    if (!isValidPerformanceTime(time)) {
+      throw new InvalidPerformanceTimeException();
+    }
+    return new PerformanceTime(time, this.timeOrigin);
   }
 
   /**
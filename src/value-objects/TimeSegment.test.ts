@@ -4,6 +4,7 @@ import { TimeSegmentBuilder } from '@/test/builders/TimeSegmentBuilder';
 import { TimeSegmentMothers } from '@/test/mothers/TimeSegmentMothers';
 
 import { InvalidTimeSegmentException, InvalidEndTimeException } from '@/exceptions/TimeSegmentExceptions';
+import { InvalidPayloadException } from '@/exceptions/SerializationExceptions';
 
 import { TimeSegment } from './TimeSegment';
 import { PerformanceTime } from './PerformanceTime';
@@ -277,6 +278,36 @@ describe('TimeSegment', () => {
     });
   });
 
+  describe('fromJSON', () => {
+    it('should restore start and end from the toJSON output', () => {
+      // Given
+      const segment = TimeSegmentBuilder
+        .aDefault()
+        .withStartTime(100)
+        .withEndTime(250)
+        .buildFromTiming();
+
+      // When
+      const result = TimeSegment.fromJSON(JSON.parse(JSON.stringify(segment)));
+
+      // Then
+      expect(result.start.absoluteTime).toBe(segment.start.absoluteTime);
+      expect(result.end.absoluteTime).toBe(segment.end.absoluteTime);
+      expect(result.toJSON()).toEqual(segment.toJSON());
+    });
+
+    it('should throw InvalidPayloadException when timestamps are missing', () => {
+      // When & Then
+      expect(() => TimeSegment.fromJSON({ duration: 10 })).toThrow(InvalidPayloadException);
+      expect(() => TimeSegment.fromJSON(null)).toThrow(InvalidPayloadException);
+    });
+
+    it('should throw InvalidEndTimeException when end is before start', () => {
+      // When & Then
+      expect(() => TimeSegment.fromJSON({ start: 200, end: 100 })).toThrow(InvalidEndTimeException);
+    });
+  });
+
   describe('immutability', () => {
     it('should be frozen and immutable after creation', () => {
       // Given
@@ -1,6 +1,7 @@
 import { PerformanceTime } from '@/value-objects/PerformanceTime';
 import type { ValueObject } from './ValueObject';
 import { InvalidTimeSegmentException, InvalidEndTimeException } from '@/exceptions/TimeSegmentExceptions';
+import { InvalidPayloadException } from '@/exceptions/SerializationExceptions';
 
 const isValidTime = (time: number) => Number.isFinite(time) && time >= 0;
 
@@ -84,6 +85,32 @@ export class TimeSegment implements ValueObject {
     return new TimeSegment({ start, end });
   }
 
+  /**
+   * Rehydrates a TimeSegment from its toJSON() representation.
+   * Start and end are restored from their epoch timestamps.
+   * 
+   * @param json - Serialized segment ({ duration, start, end })
+   * @returns New TimeSegment instance
+   */
+  public static fromJSON(json: unknown): TimeSegment {
+    if (typeof json !== 'object' || json === null) {
+      throw new InvalidPayloadException('a serialized TimeSegment');
+    }
+
+    const { start, end } = json as Record<string, unknown>;
+    if (typeof start !== 'number' || typeof end !== 'number') {
+      throw new InvalidPayloadException('a serialized TimeSegment');
+    }
+    if (!isValidTime(start)) throw new InvalidTimeSegmentException(start);
+    if (!isValidTime(end)) throw new InvalidTimeSegmentException(end);
+    if (end < start) throw new InvalidEndTimeException(start, end);
+
+    return new TimeSegment({
+      start: PerformanceTime.fromEpochTime(start),
+      end: PerformanceTime.fromEpochTime(end),
+    });
+  }
+
   public get duration(): number {
     return this.end.relativeTime - this.start.relativeTime;
   }
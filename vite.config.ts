@@ -18,6 +18,9 @@ export default defineConfig(({ mode }) => {
           'performance': resolve(rootDir, 'metrics/performance/index.ts'),
           'errors': resolve(rootDir, 'metrics/errors/index.ts'),
           'reports': resolve(rootDir, 'reports/index.ts'),
+          'transport': resolve(rootDir, 'transport/index.ts'),
+          'pipeline': resolve(rootDir, 'pipeline/index.ts'),
+          'exporters': resolve(rootDir, 'exporters/index.ts'),
         }
       },
       rollupOptions: {